@@ -0,0 +1,338 @@
+import { createHash } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import { basename, dirname, join } from "path";
+import type {
+  HarnessAdapter,
+  NormalizedMessage,
+  SessionInfo,
+  ParseContext,
+  ContentBlock,
+  ToolConfig,
+  ToolIconCategory,
+  AdapterUIConfig,
+} from "./types";
+import { getFirstUserText, truncateTitle } from "./shared";
+
+const HISTORY_FILE_NAME = ".aider.chat.history.md";
+
+// Aider has no tool calls of its own; SEARCH/REPLACE blocks become synthetic Edit calls
+const AIDER_TOOLS: Record<string, ToolConfig> = {
+  Edit: { icon: "edit", modifiesFiles: true, filePathProperty: "file_path" },
+};
+
+const AIDER_UI_CONFIG: AdapterUIConfig = {
+  tools: AIDER_TOOLS,
+  defaultToolIcon: "default",
+};
+
+// Markdown markers aider writes to the chat history
+const CHAT_START_PATTERN = /^# aider chat started at /;
+const USER_LINE_PREFIX = "####";
+const OUTPUT_LINE_PATTERN = /^>( |$)/;
+const MODEL_LINE_PATTERN = /^> (?:Main )?[Mm]odel: (\S+)/;
+const APPLIED_EDIT_PATTERN = /^> Applied edit to (.+?)\s*$/;
+
+// SEARCH/REPLACE edit block markers
+const SEARCH_MARKER = /^<{5,9} SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,9}\s*$/;
+const REPLACE_MARKER = /^>{5,9} REPLACE\s*$/;
+const FENCE_LINE = /^(`{3,}|~{3,})/;
+
+interface AiderParseState {
+  mode: "idle" | "user" | "assistant";
+  lines: string[];
+  editCount: number;
+  // Edit blocks awaiting an "Applied edit to <file>" line, keyed by file
+  pendingEdits: Map<string, ContentBlock[]>;
+}
+
+/**
+ * Aider adapter for parsing .aider.chat.history.md files.
+ *
+ * The history is markdown: "#### " lines are user input, "> " lines are aider's
+ * own output, and everything else is the model's response. Responses are buffered
+ * until the next marker since a single message spans many lines.
+ */
+export const aiderAdapter: HarnessAdapter = {
+  id: "aider",
+  name: "Aider",
+
+  getWatchPaths(): string[] {
+    // History files live in each project directory, not a central location
+    return [];
+  },
+
+  canHandle(filePath: string): boolean {
+    return basename(filePath) === HISTORY_FILE_NAME;
+  },
+
+  getSessionInfo(filePath: string): SessionInfo {
+    const info: SessionInfo = {
+      localPath: filePath,
+      projectPath: dirname(filePath),
+      // One history file per project; derive a stable ID from its location
+      harnessSessionId: createHash("sha256").update(filePath).digest("hex").slice(0, 32),
+    };
+
+    try {
+      // Use the model from the most recent chat in the file
+      for (const line of readFileSync(filePath, "utf8").split("\n")) {
+        const match = line.match(MODEL_LINE_PATTERN);
+        if (match?.[1]) {
+          info.model = match[1];
+        }
+      }
+    } catch {
+      // File not readable yet
+    }
+
+    return info;
+  },
+
+  findProjectSession(projectPath: string): string | null {
+    const filePath = join(projectPath, HISTORY_FILE_NAME);
+    return existsSync(filePath) ? filePath : null;
+  },
+
+  parseLine(line: string, context: ParseContext): NormalizedMessage[] | null {
+    const state = getState(context);
+    const trimmedEnd = line.replace(/\s+$/, "");
+
+    if (CHAT_START_PATTERN.test(trimmedEnd)) {
+      return flushState(state);
+    }
+
+    if (trimmedEnd.startsWith(USER_LINE_PREFIX)) {
+      const flushed = state.mode === "user" ? null : flushState(state);
+      state.mode = "user";
+      state.lines.push(trimmedEnd.slice(USER_LINE_PREFIX.length).replace(/^ /, ""));
+      return flushed;
+    }
+
+    // Aider's own output (not ">>>>>>> REPLACE" markers inside responses)
+    if (OUTPUT_LINE_PATTERN.test(trimmedEnd)) {
+      const flushed = flushState(state);
+      const applied = trimmedEnd.match(APPLIED_EDIT_PATTERN);
+      if (applied?.[1]) {
+        markEditsApplied(state, applied[1]);
+      }
+      return flushed;
+    }
+
+    if (state.mode === "user") {
+      // First line after user input starts the response
+      const flushed = flushState(state);
+      if (trimmedEnd) {
+        state.mode = "assistant";
+        state.lines.push(line);
+      }
+      return flushed;
+    }
+
+    if (state.mode === "idle") {
+      if (!trimmedEnd) return null;
+      state.mode = "assistant";
+    }
+
+    state.lines.push(line);
+    return null;
+  },
+
+  flush(context: ParseContext): NormalizedMessage[] | null {
+    return flushState(getState(context));
+  },
+
+  deriveTitle(messages: NormalizedMessage[]): string {
+    // Skip aider commands like "/add src/app.py" when a real prompt follows
+    const prompt = messages.find(
+      (m) =>
+        m.role === "user" &&
+        m.content_blocks.some((b) => b.type === "text" && typeof b.text === "string" && !b.text.startsWith("/"))
+    );
+    return truncateTitle(getFirstUserText(prompt ? [prompt] : messages));
+  },
+
+  // UI Configuration methods
+  getUIConfig(): AdapterUIConfig {
+    return AIDER_UI_CONFIG;
+  },
+
+  getFileModifyingTools(): string[] {
+    return Object.entries(AIDER_TOOLS)
+      .filter(([_, config]) => config.modifiesFiles)
+      .map(([name]) => name);
+  },
+
+  extractFilePath(toolName: string, input: Record<string, unknown>): string | null {
+    const config = AIDER_TOOLS[toolName];
+    if (!config?.filePathProperty) return null;
+    const value = input[config.filePathProperty];
+    return typeof value === "string" ? value : null;
+  },
+
+  getToolIcon(toolName: string): ToolIconCategory {
+    return AIDER_TOOLS[toolName]?.icon ?? "default";
+  },
+
+  normalizeRole(rawRole: string): "user" | "assistant" | null {
+    if (rawRole === "user") return "user";
+    if (rawRole === "assistant") return "assistant";
+    return null;
+  },
+};
+
+function getState(context: ParseContext): AiderParseState {
+  if (!context.adapterState) {
+    context.adapterState = {
+      mode: "idle",
+      lines: [],
+      editCount: 0,
+      pendingEdits: new Map(),
+    } satisfies AiderParseState;
+  }
+  return context.adapterState as AiderParseState;
+}
+
+/**
+ * Emit the buffered user or assistant message and reset to idle.
+ */
+function flushState(state: AiderParseState): NormalizedMessage[] | null {
+  const { mode, lines } = state;
+  state.mode = "idle";
+  state.lines = [];
+
+  if (mode === "user") {
+    const text = lines.join("\n").trim();
+    return text ? [{ role: "user", content_blocks: [{ type: "text", text }] }] : null;
+  }
+
+  if (mode === "assistant") {
+    const blocks = parseAssistantContent(lines, state);
+    return blocks.length > 0 ? [{ role: "assistant", content_blocks: blocks }] : null;
+  }
+
+  return null;
+}
+
+/**
+ * Split a response into text blocks and synthetic Edit tool_use blocks,
+ * one per SEARCH/REPLACE edit block.
+ */
+function parseAssistantContent(lines: string[], state: AiderParseState): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  let textLines: string[] = [];
+  let lastFile: string | null = null;
+
+  const pushText = () => {
+    const text = textLines.join("\n").trim();
+    if (text) {
+      blocks.push({ type: "text", text });
+    }
+    textLines = [];
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i] ?? "";
+
+    if (!SEARCH_MARKER.test(line)) {
+      textLines.push(line);
+      i++;
+      continue;
+    }
+
+    const blockStart = i;
+    const textBefore = [...textLines];
+
+    // The file name precedes the opening fence (or the SEARCH marker when unfenced)
+    let fenced = false;
+    if (textLines.length > 0 && FENCE_LINE.test(textLines[textLines.length - 1]!.trim())) {
+      textLines.pop();
+      fenced = true;
+    }
+    while (textLines.length > 0 && !textLines[textLines.length - 1]!.trim()) {
+      textLines.pop();
+    }
+    const candidate = textLines.length > 0 ? cleanFileName(textLines[textLines.length - 1]!) : null;
+    if (candidate) {
+      textLines.pop();
+    }
+    const file: string | null = candidate ?? lastFile;
+
+    const search: string[] = [];
+    const replace: string[] = [];
+    let target = search;
+    let closed = false;
+    for (i++; i < lines.length; i++) {
+      const editLine = lines[i] ?? "";
+      if (target === search && DIVIDER_MARKER.test(editLine)) {
+        target = replace;
+      } else if (target === replace && REPLACE_MARKER.test(editLine)) {
+        closed = true;
+        i++;
+        break;
+      } else {
+        target.push(editLine);
+      }
+    }
+
+    if (!closed || !file) {
+      // Incomplete block or unknown file; keep it as text
+      textLines = [...textBefore, ...lines.slice(blockStart, i)];
+      continue;
+    }
+    lastFile = file;
+
+    // Skip the closing fence, unless another edit to the same file follows inside it
+    if (fenced && i < lines.length && FENCE_LINE.test((lines[i] ?? "").trim())) {
+      i++;
+    }
+
+    pushText();
+    const edit: ContentBlock = {
+      type: "tool_use",
+      id: `aider_edit_${++state.editCount}`,
+      name: "Edit",
+      input: {
+        file_path: file,
+        old_string: search.join("\n"),
+        new_string: replace.join("\n"),
+      },
+    };
+    blocks.push(edit);
+
+    const pending = state.pendingEdits.get(file) ?? [];
+    pending.push(edit);
+    state.pendingEdits.set(file, pending);
+  }
+
+  pushText();
+  return blocks;
+}
+
+/**
+ * Normalize a file name line like "src/app.py", "`src/app.py`" or "**src/app.py**:".
+ * Returns null for lines that read like prose rather than a path.
+ */
+function cleanFileName(line: string): string | null {
+  const cleaned = line
+    .trim()
+    .replace(/^#+\s*/, "")
+    .replace(/:$/, "")
+    .replace(/^[`*]+|[`*]+$/g, "")
+    .trim();
+  if (!cleaned || /\s/.test(cleaned) || FENCE_LINE.test(cleaned)) {
+    return null;
+  }
+  return cleaned;
+}
+
+function markEditsApplied(state: AiderParseState, file: string): void {
+  const edits = state.pendingEdits.get(file);
+  if (!edits) return;
+  for (const edit of edits) {
+    edit.result = `Applied edit to ${file}`;
+    edit.is_error = false;
+  }
+  state.pendingEdits.delete(file);
+}
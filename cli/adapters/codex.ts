@@ -0,0 +1,486 @@
+import { closeSync, openSync, readSync } from "fs";
+import { basename } from "path";
+import type {
+  HarnessAdapter,
+  NormalizedMessage,
+  SessionInfo,
+  ParseContext,
+  ContentBlock,
+  ToolConfig,
+  ToolIconCategory,
+  SystemTagPattern,
+  AdapterUIConfig,
+} from "./types";
+import { getFirstUserText, truncateTitle } from "./shared";
+
+// Tool configuration for Codex CLI
+const CODEX_TOOLS: Record<string, ToolConfig> = {
+  shell: { icon: "terminal" },
+  local_shell: { icon: "terminal" },
+  exec_command: { icon: "terminal" },
+  write_stdin: { icon: "terminal" },
+  apply_patch: { icon: "edit", modifiesFiles: true, filePathProperty: "file_path" },
+  read_file: { icon: "file" },
+  list_dir: { icon: "file" },
+  grep_files: { icon: "search" },
+  web_search: { icon: "web" },
+  view_image: { icon: "file" },
+  update_plan: { icon: "todo" },
+};
+
+// Context Codex injects as user messages; these are not typed by the user
+const CODEX_SYSTEM_TAGS: SystemTagPattern[] = [
+  { tag: "user_instructions" },
+  { tag: "environment_context" },
+  { tag: "user_shell_command" },
+  { tag: "turn_aborted" },
+  { tag: "agents_md", style: "regex", pattern: /^# AGENTS\.md instructions for [\s\S]*?<\/INSTRUCTIONS>/ },
+];
+
+const CODEX_UI_CONFIG: AdapterUIConfig = {
+  tools: CODEX_TOOLS,
+  systemTags: CODEX_SYSTEM_TAGS,
+  defaultToolIcon: "default",
+  mcpToolPrefixes: ["mcp__"],
+};
+
+// Rollout files are named rollout-<timestamp>-<session uuid>.jsonl
+const ROLLOUT_FILE_PATTERN = /^rollout-.+\.jsonl$/;
+const ROLLOUT_SESSION_ID_PATTERN =
+  /([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.jsonl$/i;
+
+// Only the head of a rollout file is read for metadata (session_meta + first turn_context)
+const SESSION_INFO_READ_BYTES = 256 * 1024;
+
+/**
+ * Codex CLI adapter for parsing ~/.codex/sessions rollout files
+ */
+export const codexAdapter: HarnessAdapter = {
+  id: "codex",
+  name: "Codex CLI",
+
+  getWatchPaths(): string[] {
+    const codexHome = getCodexHome();
+    if (!codexHome) {
+      return [];
+    }
+    return [`${codexHome}/sessions`];
+  },
+
+  canHandle(filePath: string): boolean {
+    if (!ROLLOUT_FILE_PATTERN.test(basename(filePath))) {
+      return false;
+    }
+    const codexHome = getCodexHome();
+    return (
+      filePath.includes("/.codex/sessions/") ||
+      (!!codexHome && filePath.startsWith(`${codexHome}/sessions/`))
+    );
+  },
+
+  getSessionInfo(filePath: string): SessionInfo {
+    // Path format: ~/.codex/sessions/YYYY/MM/DD/rollout-<timestamp>-<uuid>.jsonl
+    // The project path lives in the session_meta record, not the path
+    const info: SessionInfo = {
+      localPath: filePath,
+      projectPath: "",
+      harnessSessionId: filePath.match(ROLLOUT_SESSION_ID_PATTERN)?.[1],
+    };
+
+    for (const line of readFileHead(filePath).split("\n")) {
+      const record = parseRecord(line);
+      if (!record) continue;
+
+      const payload = asObject(record.payload);
+      if (record.type === "session_meta" && payload) {
+        if (typeof payload.id === "string") info.harnessSessionId = payload.id;
+        if (typeof payload.cwd === "string") info.projectPath = payload.cwd;
+        const git = asObject(payload.git);
+        if (git && typeof git.repository_url === "string") {
+          info.repoUrl = git.repository_url;
+        }
+      } else if (record.type === "turn_context" && payload) {
+        if (!info.projectPath && typeof payload.cwd === "string") {
+          info.projectPath = payload.cwd;
+        }
+        if (typeof payload.model === "string") {
+          info.model = payload.model;
+          break;
+        }
+      }
+    }
+
+    return info;
+  },
+
+  parseLine(line: string, context: ParseContext): NormalizedMessage[] | null {
+    const record = parseRecord(line);
+    if (!record) {
+      return null;
+    }
+
+    // Current format wraps items as { type: "response_item", payload }.
+    // Older rollouts wrote response items directly, one per line.
+    const item = record.type === "response_item" ? asObject(record.payload) : record;
+    if (!item) {
+      return null;
+    }
+
+    const timestamp = typeof record.timestamp === "string" ? record.timestamp : undefined;
+
+    switch (item.type) {
+      case "message":
+        return buildMessage(parseMessageItem(item), timestamp);
+
+      case "reasoning": {
+        const thinking = extractReasoningText(item);
+        if (!thinking) return null;
+        return buildMessage({ role: "assistant", blocks: [{ type: "thinking", thinking }] }, timestamp);
+      }
+
+      case "function_call":
+      case "custom_tool_call":
+      case "local_shell_call": {
+        const toolUse = parseToolCall(item);
+        if (!toolUse) return null;
+
+        const messages = buildMessage({ role: "assistant", blocks: [toolUse] }, timestamp);
+        context.pendingToolUses.set(toolUse.id as string, {
+          messageIndex: context.messages.length,
+          blockIndex: 0,
+        });
+        return messages;
+      }
+
+      case "function_call_output":
+      case "custom_tool_call_output": {
+        // Attach result to the pending tool_use
+        const callId = item.call_id;
+        if (typeof callId !== "string") return null;
+
+        const pending = context.pendingToolUses.get(callId);
+        if (pending) {
+          const toolUseBlock = context.messages[pending.messageIndex]?.content_blocks[pending.blockIndex];
+          if (toolUseBlock) {
+            const { content, isError } = parseToolOutput(item.output);
+            toolUseBlock.result = content;
+            toolUseBlock.is_error = isError;
+          }
+          context.pendingToolUses.delete(callId);
+        }
+        return null;
+      }
+
+      default:
+        // session_meta, turn_context, event_msg and compacted records duplicate
+        // or annotate response items and are not shown as messages
+        return null;
+    }
+  },
+
+  deriveTitle(messages: NormalizedMessage[]): string {
+    return truncateTitle(stripSystemTags(getFirstUserText(messages)));
+  },
+
+  // UI Configuration methods
+  getUIConfig(): AdapterUIConfig {
+    return CODEX_UI_CONFIG;
+  },
+
+  getFileModifyingTools(): string[] {
+    return Object.entries(CODEX_TOOLS)
+      .filter(([_, config]) => config.modifiesFiles)
+      .map(([name]) => name);
+  },
+
+  extractFilePath(toolName: string, input: Record<string, unknown>): string | null {
+    const config = CODEX_TOOLS[toolName];
+    if (!config?.filePathProperty) return null;
+    const value = input[config.filePathProperty];
+    return typeof value === "string" ? value : null;
+  },
+
+  getToolIcon(toolName: string): ToolIconCategory {
+    if (CODEX_TOOLS[toolName]) return CODEX_TOOLS[toolName].icon;
+    for (const prefix of CODEX_UI_CONFIG.mcpToolPrefixes || []) {
+      if (toolName.startsWith(prefix)) return "mcp";
+    }
+    return "default";
+  },
+
+  getToolSummary(toolName: string, input: Record<string, unknown>): string {
+    if (toolName === "shell" || toolName === "local_shell" || toolName === "exec_command") {
+      return typeof input.command === "string" ? input.command : "";
+    }
+    if (toolName === "apply_patch") {
+      return typeof input.file_path === "string" ? input.file_path : "";
+    }
+    return "";
+  },
+
+  stripSystemTags(text: string): string {
+    return stripSystemTags(text);
+  },
+
+  normalizeRole(rawRole: string): "user" | "assistant" | null {
+    if (rawRole === "user") return "user";
+    if (rawRole === "assistant") return "assistant";
+    // "developer" and "system" messages are harness instructions
+    return null;
+  },
+};
+
+/**
+ * Resolve the Codex home directory ($CODEX_HOME, default ~/.codex)
+ */
+function getCodexHome(): string | null {
+  if (Bun.env.CODEX_HOME) {
+    return Bun.env.CODEX_HOME.replace(/\/+$/, "");
+  }
+  const home = Bun.env.HOME;
+  return home ? `${home}/.codex` : null;
+}
+
+/**
+ * Read the beginning of a file without loading long rollouts into memory.
+ */
+function readFileHead(filePath: string): string {
+  let fd: number | null = null;
+  try {
+    fd = openSync(filePath, "r");
+    const buffer = Buffer.alloc(SESSION_INFO_READ_BYTES);
+    const bytesRead = readSync(fd, buffer, 0, SESSION_INFO_READ_BYTES, 0);
+    return buffer.toString("utf8", 0, bytesRead);
+  } catch {
+    return "";
+  } finally {
+    if (fd !== null) closeSync(fd);
+  }
+}
+
+function parseRecord(line: string): Record<string, unknown> | null {
+  const trimmed = line.trim();
+  if (!trimmed) {
+    return null;
+  }
+  try {
+    return asObject(JSON.parse(trimmed));
+  } catch {
+    return null;
+  }
+}
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+function buildMessage(
+  parsed: { role: "user" | "assistant"; blocks: ContentBlock[] } | null,
+  timestamp: string | undefined
+): NormalizedMessage[] | null {
+  if (!parsed || parsed.blocks.length === 0) {
+    return null;
+  }
+  const message: NormalizedMessage = {
+    role: parsed.role,
+    content_blocks: parsed.blocks,
+  };
+  if (timestamp) {
+    message.timestamp = timestamp;
+  }
+  return [message];
+}
+
+/**
+ * Convert a message response item. Injected context (instructions,
+ * environment) is dropped so only what the user typed remains.
+ */
+function parseMessageItem(
+  item: Record<string, unknown>
+): { role: "user" | "assistant"; blocks: ContentBlock[] } | null {
+  const role = codexAdapter.normalizeRole!(String(item.role ?? ""));
+  if (!role) {
+    return null;
+  }
+
+  const blocks: ContentBlock[] = [];
+  const content = Array.isArray(item.content) ? item.content : [];
+  for (const part of content) {
+    const block = asObject(part);
+    if (!block) continue;
+
+    if (
+      (block.type === "input_text" || block.type === "output_text" || block.type === "text") &&
+      typeof block.text === "string"
+    ) {
+      const text = role === "user" ? stripSystemTags(block.text) : block.text;
+      if (text) {
+        blocks.push({ type: "text", text });
+      }
+    } else if (block.type === "input_image" && typeof block.image_url === "string") {
+      const source = parseDataUrl(block.image_url);
+      if (source) {
+        blocks.push({ type: "image", source });
+      }
+    }
+  }
+
+  return { role, blocks };
+}
+
+function parseDataUrl(url: string): { type: "base64"; media_type: string; data: string } | null {
+  const match = url.match(/^data:([^;]+);base64,(.+)$/);
+  if (!match?.[1] || !match[2]) {
+    return null;
+  }
+  return { type: "base64", media_type: match[1], data: match[2] };
+}
+
+function extractReasoningText(item: Record<string, unknown>): string {
+  const parts: string[] = [];
+  for (const source of [item.summary, item.content]) {
+    if (!Array.isArray(source)) continue;
+    for (const part of source) {
+      const block = asObject(part);
+      if (block && typeof block.text === "string" && block.text.trim()) {
+        parts.push(block.text.trim());
+      }
+    }
+  }
+  return parts.join("\n\n");
+}
+
+/**
+ * Convert a function/custom/local shell call into a tool_use block.
+ *
+ * Shell commands are flattened to a single command string, and apply_patch
+ * calls (including the `shell ["apply_patch", ...]` form) expose the first
+ * patched file as file_path so file-modification tracking works.
+ */
+function parseToolCall(item: Record<string, unknown>): ContentBlock | null {
+  const id = item.call_id ?? item.id;
+  if (typeof id !== "string") {
+    return null;
+  }
+
+  let name = typeof item.name === "string" ? item.name : "local_shell";
+  let input: Record<string, unknown>;
+
+  if (item.type === "local_shell_call") {
+    input = asObject(item.action) ?? {};
+  } else if (item.type === "custom_tool_call") {
+    input = { input: item.input };
+  } else {
+    input = parseArguments(item.arguments);
+  }
+
+  // Normalize shell commands: ["bash", "-lc", "ls -la"] -> "ls -la"
+  if (Array.isArray(input.command)) {
+    const argv = input.command.map(String);
+    if (argv[0] === "apply_patch" && argv[1]) {
+      name = "apply_patch";
+      input = { input: argv[1] };
+    } else {
+      input = { ...input, command: formatCommand(argv) };
+    }
+  }
+
+  if (name === "apply_patch") {
+    const patch = typeof input.input === "string" ? input.input : typeof input.patch === "string" ? input.patch : "";
+    input = { patch, file_path: extractPatchFiles(patch)[0] ?? null };
+  }
+
+  return { type: "tool_use", id, name, input };
+}
+
+function parseArguments(args: unknown): Record<string, unknown> {
+  if (typeof args !== "string") {
+    return asObject(args) ?? {};
+  }
+  try {
+    return asObject(JSON.parse(args)) ?? { arguments: args };
+  } catch {
+    return { arguments: args };
+  }
+}
+
+function formatCommand(argv: string[]): string {
+  if (argv.length === 3 && /(^|\/)(ba|z)?sh$/.test(argv[0] ?? "") && (argv[1] === "-lc" || argv[1] === "-c")) {
+    return argv[2] ?? "";
+  }
+  return argv.join(" ");
+}
+
+/**
+ * Get the file paths touched by an apply_patch body
+ * ("*** Add File:", "*** Update File:", "*** Delete File:" headers).
+ */
+export function extractPatchFiles(patch: string): string[] {
+  const files: string[] = [];
+  for (const match of patch.matchAll(/^\*\*\* (?:Add|Update|Delete) File: (.+)$/gm)) {
+    const file = match[1]?.trim();
+    if (file && !files.includes(file)) {
+      files.push(file);
+    }
+  }
+  return files;
+}
+
+/**
+ * Tool outputs are either plain strings, JSON-encoded { output, metadata: { exit_code } }
+ * strings (shell), or { content, success } objects.
+ */
+function parseToolOutput(output: unknown): { content: string; isError: boolean } {
+  const obj = typeof output === "string" ? tryParseObject(output) : asObject(output);
+
+  if (obj) {
+    const metadata = asObject(obj.metadata);
+    const exitCode = metadata?.exit_code;
+    const content = typeof obj.output === "string"
+      ? obj.output
+      : typeof obj.content === "string"
+        ? obj.content
+        : null;
+    if (content !== null) {
+      return {
+        content,
+        isError: (typeof exitCode === "number" && exitCode !== 0) || obj.success === false,
+      };
+    }
+  }
+
+  return {
+    content: typeof output === "string" ? output : JSON.stringify(output ?? ""),
+    isError: false,
+  };
+}
+
+function tryParseObject(text: string): Record<string, unknown> | null {
+  if (!text.trimStart().startsWith("{")) {
+    return null;
+  }
+  try {
+    return asObject(JSON.parse(text));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Strip injected context tags from user text.
+ * Uses CODEX_SYSTEM_TAGS config for consistency.
+ */
+function stripSystemTags(text: string): string {
+  let cleaned = text;
+  for (const tagPattern of CODEX_SYSTEM_TAGS) {
+    if (tagPattern.style === "regex" && tagPattern.pattern) {
+      cleaned = cleaned.replace(tagPattern.pattern, "");
+    } else {
+      const regex = new RegExp(`<${tagPattern.tag}>[\\s\\S]*?<\\/${tagPattern.tag}>`, "gi");
+      cleaned = cleaned.replace(regex, "");
+    }
+  }
+  return cleaned.trim();
+}
@@ -1,9 +1,17 @@
-import type { HarnessAdapter } from "./types";
+import type { HarnessAdapter, NormalizedMessage, ParseContext } from "./types";
 import { DEFAULT_ADAPTER_ID } from "./types";
 import { claudeCodeAdapter } from "./claude-code";
+import { codexAdapter } from "./codex";
+import { aiderAdapter } from "./aider";
+import { opencodeAdapter } from "./opencode";
 import { debug } from "../lib/debug";
 
-export const adapters: HarnessAdapter[] = [claudeCodeAdapter];
+export const adapters: HarnessAdapter[] = [
+  claudeCodeAdapter,
+  codexAdapter,
+  aiderAdapter,
+  opencodeAdapter,
+];
 
 export function getAdapterForPath(filePath: string): HarnessAdapter | null {
   return adapters.find((a) => a.canHandle(filePath)) || null;
@@ -20,6 +28,18 @@ export function getEnabledAdapters(enabledIds?: string[]): HarnessAdapter[] {
   return adapters.filter((a) => enabledIds.includes(a.id));
 }
 
+/**
+ * Find an adapter by ID or display name (case-insensitive), e.g. "codex" or "Codex CLI".
+ */
+export function findAdapter(idOrName: string): HarnessAdapter | null {
+  const normalized = idOrName.trim().toLowerCase();
+  return (
+    adapters.find((a) => a.id === normalized) ||
+    adapters.find((a) => a.name.toLowerCase() === normalized) ||
+    null
+  );
+}
+
 /**
  * Get adapter by ID, falling back to default if not found.
  */
@@ -56,6 +76,39 @@ export function extractFilePathFromTool(
   return null;
 }
 
+/**
+ * Parse a complete session file through an adapter.
+ * Tool results are attached to their tool_use blocks as they are for live sessions.
+ */
+export function parseSessionContent(adapter: HarnessAdapter, content: string): NormalizedMessage[] {
+  const context: ParseContext = { messages: [], pendingToolUses: new Map() };
+  for (const line of content.split("\n")) {
+    const messages = adapter.parseLine(line, context);
+    if (messages) {
+      context.messages.push(...messages);
+    }
+  }
+  const remaining = adapter.flush?.(context);
+  if (remaining) {
+    context.messages.push(...remaining);
+  }
+  return context.messages;
+}
+
+/**
+ * Load all messages for a session file, whether the harness writes
+ * line-oriented logs or spreads a session across several files.
+ */
+export async function loadSessionMessages(
+  adapter: HarnessAdapter,
+  filePath: string
+): Promise<NormalizedMessage[]> {
+  if (adapter.readSession) {
+    return adapter.readSession(filePath);
+  }
+  return parseSessionContent(adapter, await Bun.file(filePath).text());
+}
+
 // Re-export types for convenience
 export type {
   ContentBlock,
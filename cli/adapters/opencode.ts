@@ -0,0 +1,299 @@
+import { readdirSync, readFileSync } from "fs";
+import { basename, join } from "path";
+import type {
+  HarnessAdapter,
+  NormalizedMessage,
+  SessionInfo,
+  ParseContext,
+  ContentBlock,
+  ToolConfig,
+  ToolIconCategory,
+  AdapterUIConfig,
+} from "./types";
+import { getFirstUserText, truncateTitle } from "./shared";
+
+// opencode tools are mapped onto the Claude Code tool names the viewer already renders
+const OPENCODE_TOOL_NAMES: Record<string, string> = {
+  read: "Read",
+  write: "Write",
+  edit: "Edit",
+  bash: "Bash",
+  glob: "Glob",
+  grep: "Grep",
+  webfetch: "WebFetch",
+  todowrite: "TodoWrite",
+  task: "Task",
+};
+
+// opencode uses camelCase tool arguments
+const OPENCODE_INPUT_KEYS: Record<string, string> = {
+  filePath: "file_path",
+  oldString: "old_string",
+  newString: "new_string",
+  replaceAll: "replace_all",
+};
+
+// Tool configuration for opencode (after name mapping)
+const OPENCODE_TOOLS: Record<string, ToolConfig> = {
+  Read: { icon: "file" },
+  Write: { icon: "edit", modifiesFiles: true, filePathProperty: "file_path" },
+  Edit: { icon: "edit", modifiesFiles: true, filePathProperty: "file_path" },
+  Bash: { icon: "terminal" },
+  Glob: { icon: "search" },
+  Grep: { icon: "search" },
+  list: { icon: "file" },
+  WebFetch: { icon: "web" },
+  TodoWrite: { icon: "todo", renderer: "todo_write" },
+  todoread: { icon: "todo" },
+  Task: { icon: "task", renderer: "task" },
+};
+
+const OPENCODE_UI_CONFIG: AdapterUIConfig = {
+  tools: OPENCODE_TOOLS,
+  defaultToolIcon: "default",
+};
+
+const STORAGE_SEGMENT = "/opencode/storage/";
+
+/**
+ * opencode adapter for its JSON storage directory.
+ *
+ * A session is spread across files:
+ *   storage/session/<projectID>/<sessionID>.json   session info (directory, title)
+ *   storage/message/<sessionID>/<messageID>.json   message info (role, model, time)
+ *   storage/part/<messageID>/<partID>.json         content parts (text, reasoning, tool)
+ *
+ * The session info file identifies the session; messages are read with readSession.
+ */
+export const opencodeAdapter: HarnessAdapter = {
+  id: "opencode",
+  name: "opencode",
+
+  getWatchPaths(): string[] {
+    const storage = getStorageDir();
+    if (!storage) {
+      return [];
+    }
+    return [`${storage}/session`];
+  },
+
+  canHandle(filePath: string): boolean {
+    return (
+      filePath.includes(`${STORAGE_SEGMENT}session/`) &&
+      basename(filePath).startsWith("ses_") &&
+      filePath.endsWith(".json")
+    );
+  },
+
+  getSessionInfo(filePath: string): SessionInfo {
+    const session = readJson(filePath);
+    const info: SessionInfo = {
+      localPath: filePath,
+      projectPath: typeof session?.directory === "string" ? session.directory : "",
+      harnessSessionId: typeof session?.id === "string" ? session.id : basename(filePath, ".json"),
+    };
+
+    const storageRoot = getStorageRoot(filePath);
+    if (storageRoot && info.harnessSessionId) {
+      const assistant = readMessageInfos(storageRoot, info.harnessSessionId).find(
+        (m) => m.role === "assistant" && typeof m.modelID === "string"
+      );
+      if (assistant) {
+        info.model = assistant.modelID as string;
+      }
+    }
+
+    return info;
+  },
+
+  parseLine(_line: string, _context: ParseContext): NormalizedMessage[] | null {
+    // Sessions are not line-oriented; see readSession
+    return null;
+  },
+
+  readSession(filePath: string): NormalizedMessage[] {
+    const storageRoot = getStorageRoot(filePath);
+    if (!storageRoot) {
+      return [];
+    }
+
+    const sessionId = opencodeAdapter.getSessionInfo(filePath).harnessSessionId ?? basename(filePath, ".json");
+    const messages: NormalizedMessage[] = [];
+
+    for (const info of readMessageInfos(storageRoot, sessionId)) {
+      const role = opencodeAdapter.normalizeRole!(String(info.role ?? ""));
+      if (!role || typeof info.id !== "string") continue;
+
+      const blocks = readParts(storageRoot, info.id).flatMap(convertPart);
+      if (blocks.length === 0) continue;
+
+      const message: NormalizedMessage = { role, content_blocks: blocks };
+      const time = info.time as Record<string, unknown> | undefined;
+      if (typeof time?.created === "number") {
+        message.timestamp = new Date(time.created).toISOString();
+      }
+      messages.push(message);
+    }
+
+    return messages;
+  },
+
+  deriveTitle(messages: NormalizedMessage[]): string {
+    return truncateTitle(getFirstUserText(messages));
+  },
+
+  // UI Configuration methods
+  getUIConfig(): AdapterUIConfig {
+    return OPENCODE_UI_CONFIG;
+  },
+
+  getFileModifyingTools(): string[] {
+    return Object.entries(OPENCODE_TOOLS)
+      .filter(([_, config]) => config.modifiesFiles)
+      .map(([name]) => name);
+  },
+
+  extractFilePath(toolName: string, input: Record<string, unknown>): string | null {
+    const config = OPENCODE_TOOLS[toolName];
+    if (!config?.filePathProperty) return null;
+    const value = input[config.filePathProperty];
+    return typeof value === "string" ? value : null;
+  },
+
+  getToolIcon(toolName: string): ToolIconCategory {
+    return OPENCODE_TOOLS[toolName]?.icon ?? "default";
+  },
+
+  normalizeRole(rawRole: string): "user" | "assistant" | null {
+    if (rawRole === "user") return "user";
+    if (rawRole === "assistant") return "assistant";
+    return null;
+  },
+};
+
+/**
+ * Resolve opencode's storage directory ($XDG_DATA_HOME/opencode/storage,
+ * default ~/.local/share/opencode/storage)
+ */
+function getStorageDir(): string | null {
+  const dataHome = Bun.env.XDG_DATA_HOME || (Bun.env.HOME ? `${Bun.env.HOME}/.local/share` : null);
+  return dataHome ? `${dataHome.replace(/\/+$/, "")}/opencode/storage` : null;
+}
+
+/**
+ * Get the storage root from a session info path (everything before /session/).
+ */
+function getStorageRoot(sessionFilePath: string): string | null {
+  const index = sessionFilePath.indexOf(`${STORAGE_SEGMENT}session/`);
+  if (index === -1) {
+    return null;
+  }
+  return sessionFilePath.slice(0, index + STORAGE_SEGMENT.length - 1);
+}
+
+function readJson(filePath: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, "utf8"));
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read every JSON file in a directory, sorted by ID.
+ * opencode IDs are time-ordered, so this is creation order.
+ */
+function readJsonDir(dir: string): Record<string, unknown>[] {
+  let names: string[];
+  try {
+    names = readdirSync(dir).filter((name) => name.endsWith(".json"));
+  } catch {
+    return [];
+  }
+  return names
+    .sort()
+    .map((name) => readJson(join(dir, name)))
+    .filter((item): item is Record<string, unknown> => item !== null);
+}
+
+function readMessageInfos(storageRoot: string, sessionId: string): Record<string, unknown>[] {
+  return readJsonDir(join(storageRoot, "message", sessionId));
+}
+
+function readParts(storageRoot: string, messageId: string): Record<string, unknown>[] {
+  return readJsonDir(join(storageRoot, "part", messageId));
+}
+
+/**
+ * Convert a message part to content blocks. Step markers, snapshots and
+ * patch bookkeeping parts have no transcript content and are dropped.
+ */
+function convertPart(part: Record<string, unknown>): ContentBlock[] {
+  switch (part.type) {
+    case "text":
+      // Synthetic parts hold file contents opencode injected for the model
+      if (part.synthetic === true || typeof part.text !== "string" || !part.text.trim()) {
+        return [];
+      }
+      return [{ type: "text", text: part.text }];
+
+    case "reasoning":
+      if (typeof part.text !== "string" || !part.text.trim()) {
+        return [];
+      }
+      return [{ type: "thinking", thinking: part.text }];
+
+    case "tool":
+      return convertToolPart(part);
+
+    default:
+      return [];
+  }
+}
+
+function convertToolPart(part: Record<string, unknown>): ContentBlock[] {
+  const tool = typeof part.tool === "string" ? part.tool : null;
+  const callId = typeof part.callID === "string" ? part.callID : typeof part.id === "string" ? part.id : null;
+  if (!tool || !callId) {
+    return [];
+  }
+
+  const state = (part.state ?? {}) as Record<string, unknown>;
+  const input = (state.input ?? {}) as Record<string, unknown>;
+  const result =
+    state.status === "error"
+      ? { result: String(state.error ?? "Tool failed"), is_error: true }
+      : state.status === "completed"
+        ? { result: String(state.output ?? ""), is_error: false }
+        : {};
+
+  // multiedit applies several edits to one file; show each as its own Edit
+  if (tool === "multiedit" && Array.isArray(input.edits)) {
+    return input.edits.map((edit, index) => ({
+      type: "tool_use",
+      id: `${callId}_${index}`,
+      name: "Edit",
+      input: mapInputKeys({ filePath: input.filePath, ...(edit as Record<string, unknown>) }),
+      ...result,
+    }));
+  }
+
+  return [
+    {
+      type: "tool_use",
+      id: callId,
+      name: OPENCODE_TOOL_NAMES[tool] ?? tool,
+      input: OPENCODE_TOOL_NAMES[tool] ? mapInputKeys(input) : input,
+      ...result,
+    },
+  ];
+}
+
+function mapInputKeys(input: Record<string, unknown>): Record<string, unknown> {
+  const mapped: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(input)) {
+    mapped[OPENCODE_INPUT_KEYS[key] ?? key] = value;
+  }
+  return mapped;
+}
@@ -0,0 +1,48 @@
+import type { NormalizedMessage } from "./types";
+
+const MAX_TITLE_LENGTH = 80;
+
+/**
+ * Get the first text block of the first user message.
+ */
+export function getFirstUserText(messages: NormalizedMessage[]): string {
+  const firstUserMessage = messages.find((m) => m.role === "user");
+  if (!firstUserMessage) {
+    return "";
+  }
+
+  for (const block of firstUserMessage.content_blocks) {
+    if (block.type === "text" && typeof block.text === "string") {
+      return block.text;
+    }
+  }
+
+  return "";
+}
+
+/**
+ * Collapse whitespace and truncate text to a session title,
+ * breaking at a word boundary when possible.
+ */
+export function truncateTitle(text: string): string {
+  const cleaned = text
+    .replace(/\n/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (!cleaned) {
+    return "Untitled Session";
+  }
+
+  if (cleaned.length <= MAX_TITLE_LENGTH) {
+    return cleaned;
+  }
+
+  const truncated = cleaned.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = truncated.lastIndexOf(" ");
+  if (lastSpace > MAX_TITLE_LENGTH / 2) {
+    return truncated.slice(0, lastSpace) + "...";
+  }
+
+  return truncated + "...";
+}
@@ -20,6 +20,8 @@ export interface SessionInfo {
 export interface ParseContext {
   messages: NormalizedMessage[];
   pendingToolUses: Map<string, { messageIndex: number; blockIndex: number }>;
+  /** Adapter-owned parser state, for formats where one message spans several lines */
+  adapterState?: unknown;
 }
 
 // UI Configuration Types
@@ -63,6 +65,18 @@ export interface HarnessAdapter {
   /** Parse a line from the session file */
   parseLine(line: string, context: ParseContext): NormalizedMessage[] | null;
 
+  /** Optional: Emit messages still buffered by parseLine once input ends */
+  flush?(context: ParseContext): NormalizedMessage[] | null;
+
+  /**
+   * Optional: Read a whole session for harnesses that store it across several files.
+   * Sessions read this way can be uploaded but not tailed by the daemon.
+   */
+  readSession?(filePath: string): NormalizedMessage[];
+
+  /** Optional: Locate the session file for a project when it lives in the project directory */
+  findProjectSession?(projectPath: string): string | null;
+
   /** Optional: Detect if session has ended */
   detectSessionEnd?(filePath: string): Promise<boolean>;
 
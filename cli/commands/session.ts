@@ -16,6 +16,10 @@ export async function session(args: string[]): Promise<void> {
       return sessionList(args.slice(1));
     case "delete":
       return sessionDelete(args.slice(1));
+    case "export":
+      return sessionExport(args.slice(1));
+    case "import":
+      return sessionImport(args.slice(1));
     case "unshare":
       return sessionUnshare(args.slice(1));
     case "feedback":
@@ -32,6 +36,8 @@ Usage: openctl session <subcommand> [options]
 Subcommands:
   list              List sessions on the server
   delete <id>       Delete a session
+  export <id>       Export a session as Markdown, HTML or JSON
+  import <file>     Import a session from a JSON export
   unshare [id]      Stop sharing a session
   feedback [id]     Check for pending feedback (outputs JSON)
 
@@ -46,6 +52,15 @@ Options for 'delete':
   --force           Skip confirmation prompt
   --server <url>    Server URL (default: from config)
 
+Options for 'export':
+  --format <fmt>    md, html or json (default: md)
+  --output, -o <f>  Write to a file instead of stdout
+  --thinking        Include thinking blocks
+  --server <url>    Server URL (default: from config)
+
+Options for 'import':
+  --server <url>    Server URL (default: from config)
+
 Options for 'unshare':
   --server <url>    Server URL to unshare from (default: all servers)
 
@@ -57,6 +72,8 @@ Examples:
   openctl session list              # List recent sessions
   openctl session list --mine       # List only my sessions
   openctl session delete abc123     # Delete a session
+  openctl session export abc123 --format html -o session.html
+  openctl session export abc123 --format json -o s.json && openctl session import s.json --server https://openctl.dev
   openctl session unshare abc-123   # Stop sharing a session
   `);
 }
@@ -194,6 +211,130 @@ async function sessionDelete(args: string[]): Promise<void> {
   console.log(`Session ${sessionId} deleted.`);
 }
 
+const EXPORT_FORMATS: Record<string, string> = {
+  md: "markdown",
+  markdown: "markdown",
+  html: "html",
+  json: "json",
+};
+
+async function sessionExport(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      format: { type: "string", short: "f" },
+      output: { type: "string", short: "o" },
+      thinking: { type: "boolean" },
+      server: { type: "string" },
+    },
+    allowPositionals: true,
+  });
+
+  const sessionId = positionals[0];
+  if (!sessionId) {
+    console.error("Error: Session ID is required");
+    console.log("Usage: openctl session export <session-id> [--format md|html|json] [--output <file>]");
+    process.exit(1);
+  }
+
+  const format = EXPORT_FORMATS[values.format ?? "md"];
+  if (!format) {
+    console.error(`Error: Unknown format '${values.format}' (expected md, html or json)`);
+    process.exit(1);
+  }
+
+  const serverUrl = getServerUrl(values.server);
+  const authToken = await getAccessTokenIfAuthenticated(serverUrl);
+
+  const params = new URLSearchParams({ format });
+  if (values.thinking) params.set("thinking", "true");
+
+  const headers: Record<string, string> = {
+    "X-Openctl-Client-ID": getClientId(),
+  };
+  if (authToken) {
+    headers["Authorization"] = `Bearer ${authToken}`;
+  }
+
+  const response = await fetch(`${serverUrl}/api/sessions/${sessionId}/export?${params}`, { headers });
+
+  if (response.status === 403) {
+    console.error("Error: Permission denied");
+    console.error("This session was uploaded from a different device.");
+    process.exit(1);
+  }
+
+  if (response.status === 404) {
+    console.error(`Error: Session not found`);
+    console.error(`No session with ID '${sessionId}' exists on this server.`);
+    process.exit(1);
+  }
+
+  if (!response.ok) {
+    console.error(`Failed to export session: ${response.status}`);
+    process.exit(1);
+  }
+
+  const content = await response.text();
+
+  if (values.output) {
+    await Bun.write(values.output, content);
+    console.error(`Exported session ${sessionId} to ${values.output}`);
+  } else {
+    process.stdout.write(content);
+  }
+}
+
+async function sessionImport(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      server: { type: "string" },
+    },
+    allowPositionals: true,
+  });
+
+  const filePath = positionals[0];
+  if (!filePath) {
+    console.error("Error: File path is required");
+    console.log("Usage: openctl session import <file> [--server <url>]");
+    process.exit(1);
+  }
+
+  const file = Bun.file(filePath);
+  if (!(await file.exists())) {
+    console.error(`Error: File not found: ${filePath}`);
+    process.exit(1);
+  }
+
+  const serverUrl = getServerUrl(values.server);
+  const authToken = await getAccessTokenIfAuthenticated(serverUrl);
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "X-Openctl-Client-ID": getClientId(),
+  };
+  if (authToken) {
+    headers["Authorization"] = `Bearer ${authToken}`;
+  }
+
+  const response = await fetch(`${serverUrl}/api/sessions/import`, {
+    method: "POST",
+    headers,
+    body: await file.text(),
+  });
+
+  if (!response.ok) {
+    const body = (await response.json().catch(() => ({}))) as { error?: string };
+    console.error(`Failed to import session: ${body.error ?? response.status}`);
+    process.exit(1);
+  }
+
+  const { id, url } = (await response.json()) as { id: string; url: string };
+  console.log(`Imported session ${id}`);
+  console.log(`${serverUrl}${url}`);
+}
+
 async function readLine(): Promise<string> {
   // Simple stdin reader for confirmation
   const decoder = new TextDecoder();
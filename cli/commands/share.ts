@@ -3,11 +3,13 @@ import { getServerUrl, isRepoAllowed, addAllowedRepo } from "../lib/config";
 import { getRepoIdentifier, getRepoHttpsUrl } from "../lib/git";
 import { getDaemonStatus } from "../daemon";
 import { ApiClient } from "../daemon/api-client";
-import { getAdapterForPath } from "../adapters";
+import { DEFAULT_ADAPTER_ID, findAdapter, getAdapterForPath } from "../adapters";
 import {
   addSharedSession,
   findSessionByUuid,
   findLatestSessionForProject,
+  findAdapterSessionById,
+  findLatestAdapterSession,
   extractProjectPathFromSessionPath,
   listRecentSessions,
   promptSessionSelection,
@@ -20,6 +22,7 @@ export async function share(args: string[]): Promise<void> {
     args,
     options: {
       server: { type: "string", short: "s" },
+      harness: { type: "string" },
       list: { type: "boolean", short: "l" },
       help: { type: "boolean", short: "h" },
     },
@@ -36,7 +39,40 @@ export async function share(args: string[]): Promise<void> {
   let sessionPath: string | null = null;
   let projectPath: string | null = null;
 
-  if (values.list) {
+  const harnessAdapter = values.harness ? findAdapter(values.harness) : null;
+  if (values.harness && !harnessAdapter) {
+    console.error(`Error: Unknown harness: ${values.harness}`);
+    process.exit(1);
+  }
+
+  if (harnessAdapter && harnessAdapter.id !== DEFAULT_ADAPTER_ID) {
+    // Other harnesses store project paths inside the session file
+    if (harnessAdapter.readSession) {
+      console.error(`Error: Live sharing is not supported for ${harnessAdapter.name} sessions.`);
+      console.error(`Use: openctl upload --harness ${harnessAdapter.id}`);
+      process.exit(1);
+    }
+    if (values.list) {
+      console.error(`Error: --list is not supported for ${harnessAdapter.name} sessions.`);
+      process.exit(1);
+    }
+    if (positionals[0]) {
+      sessionUuid = positionals[0];
+      sessionPath = await findAdapterSessionById(harnessAdapter, sessionUuid);
+    } else {
+      const latest = await findLatestAdapterSession(harnessAdapter, process.cwd());
+      if (latest) {
+        sessionUuid = latest.uuid;
+        sessionPath = latest.filePath;
+        console.log(`Found session: ${sessionUuid.slice(0, 8)}...`);
+      }
+    }
+    if (!sessionUuid || !sessionPath) {
+      console.error(`Error: No ${harnessAdapter.name} session found.`);
+      process.exit(1);
+    }
+    projectPath = harnessAdapter.getSessionInfo(sessionPath).projectPath || null;
+  } else if (values.list) {
     // Interactive list mode
     const sessions = await listRecentSessions(10);
     const result = await promptSessionSelection(sessions);
@@ -174,6 +210,8 @@ Arguments:
 Options:
   -l, --list        Interactively select from recent sessions
   -s, --server      Server URL (default: from config)
+  --harness         Harness that recorded the session: claude-code, codex, aider
+                    (default: claude-code)
   -h, --help        Show this help
 
 Session Resolution (in order):
@@ -186,6 +224,7 @@ Examples:
   openctl share                   # Share current/latest session
   openctl share --list            # Pick from recent sessions
   openctl share abc-123-def       # Share a specific session
+  openctl share --harness codex   # Share the latest Codex CLI session
   `);
 }
 
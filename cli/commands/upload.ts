@@ -1,5 +1,5 @@
 /**
- * Upload a Claude Code session to the server.
+ * Upload an agent session (Claude Code, Codex CLI) to the server.
  */
 
 import { $ } from "bun";
@@ -7,9 +7,25 @@ import { existsSync } from "fs";
 import { basename, join } from "path";
 import { Glob } from "bun";
 import { getClientId } from "../lib/client-id";
-import { DEFAULT_SERVER, getServerUrl } from "../lib/config";
-import { listRecentSessions, promptSessionSelection } from "../lib/shared-sessions";
+import { DEFAULT_SERVER, getRedactionConfig, getServerUrl } from "../lib/config";
+import { loadRedactionRules, Redactor } from "../lib/redaction";
+import { runReview, type ReviewOutput } from "../lib/review";
+import {
+  findAdapterSessionById,
+  findLatestAdapterSession,
+  listRecentSessions,
+  promptSessionSelection,
+} from "../lib/shared-sessions";
 import { getAccessTokenIfAuthenticated } from "../lib/oauth";
+import {
+  DEFAULT_ADAPTER_ID,
+  extractFilePathFromTool,
+  findAdapter,
+  getFileModifyingToolsForAdapter,
+  loadSessionMessages,
+  type HarnessAdapter,
+  type NormalizedMessage,
+} from "../adapters";
 import * as readline from "readline";
 
 async function promptConfirmation(message: string): Promise<boolean> {
@@ -35,21 +51,6 @@ async function promptConfirmation(message: string): Promise<boolean> {
 // UUID v4 pattern
 const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
-// Review types
-interface ReviewAnnotation {
-  filename: string;
-  line_number: number;
-  side: "additions" | "deletions";
-  annotation_type: "suggestion" | "issue" | "praise" | "question";
-  content: string;
-}
-
-interface ReviewOutput {
-  summary: string;
-  model: string;
-  annotations: ReviewAnnotation[];
-}
-
 interface ParsedOptions {
   session?: string;
   title?: string;
@@ -62,6 +63,8 @@ interface ParsedOptions {
   yes: boolean;
   help: boolean;
   list: boolean;
+  dryRun: boolean;
+  showRedactions: boolean;
 }
 
 function parseArgs(args: string[]): ParsedOptions {
@@ -73,6 +76,8 @@ function parseArgs(args: string[]): ParsedOptions {
     yes: false,
     help: false,
     list: false,
+    dryRun: false,
+    showRedactions: false,
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -122,6 +127,12 @@ function parseArgs(args: string[]): ParsedOptions {
       case "-l":
         options.list = true;
         break;
+      case "--dry-run":
+        options.dryRun = true;
+        break;
+      case "--show-redactions":
+        options.showRedactions = true;
+        break;
     }
   }
 
@@ -424,90 +435,13 @@ async function getRepoUrl(projectDir?: string): Promise<string | null> {
   }
 }
 
-// JSON schema for review output
-const reviewSchema = JSON.stringify({
-  type: "object",
-  properties: {
-    summary: { type: "string", description: "2-3 sentence summary of the review findings" },
-    annotations: {
-      type: "array",
-      items: {
-        type: "object",
-        properties: {
-          filename: { type: "string", description: "File path from diff header" },
-          line_number: { type: "number", description: "Line number in the new file" },
-          side: { enum: ["additions", "deletions"], description: "Which side of the diff" },
-          annotation_type: { enum: ["issue", "suggestion"], description: "Type of finding" },
-          content: { type: "string", description: "Concise description of the issue" },
-        },
-        required: ["filename", "line_number", "side", "annotation_type", "content"],
-      },
-    },
-  },
-  required: ["summary", "annotations"],
-});
-
-const reviewPrompt = `You are a code reviewer. Review the diff using a parallel strategy:
-
-## Review Strategy
-
-Launch 3 parallel review passes, each with a different focus:
-
-1. **Defects** - Logic errors, boundary conditions, null/undefined handling, missing validation, error handling gaps, edge cases
-2. **Security** - Injection risks, authentication/authorization issues, exposed secrets, unsafe operations
-3. **Architecture** - Pattern violations, unnecessary complexity, performance issues (N+1 queries, quadratic algorithms on unbounded data)
-
-Aggregate findings by: deduplicating similar issues, ranking by severity, keeping only issues with realistic impact.
-
-## Review Standards
-
-- **Be certain** - Don't speculate about bugs; verify before flagging
-- **Be realistic** - Only raise edge cases with plausible scenarios
-- **Stay focused** - Only review modified code, not pre-existing issues
-- **Skip style** - No nitpicks on formatting or preferences
-- **Be direct** - Factual tone, specific file/line references, actionable suggestions
-
-Return a summary and annotations for significant findings only.`;
-
 async function generateReview(diffContent: string): Promise<ReviewOutput | null> {
   console.log("Generating code review...");
 
-  const prompt = `${reviewPrompt}
-
-<diff>
-${diffContent}
-</diff>`;
-
   try {
-    // Use Bun.spawn for better control over argument passing
-    const proc = Bun.spawn([
-      "claude",
-      "-p", prompt,
-      "--output-format", "json",
-      "--json-schema", reviewSchema,
-    ], {
-      stdout: "pipe",
-      stderr: "pipe",
-    });
-
-    const output = await new Response(proc.stdout).text();
-    const stderr = await new Response(proc.stderr).text();
-    const exitCode = await proc.exited;
-
-    if (exitCode !== 0) {
-      console.error("Claude CLI error:", stderr || output);
-      return null;
-    }
-
-    const reviewResult = JSON.parse(output) as { summary: string; annotations: ReviewOutput["annotations"] };
-
-    console.log(`Review found ${reviewResult.annotations.length} issues`);
-
-    return {
-      summary: reviewResult.summary,
-      model: "claude",
-      annotations: reviewResult.annotations,
-    };
+    const review = await runReview(diffContent);
+    console.log(`Review found ${review.annotations.length} issues`);
+    return review;
   } catch (err) {
     console.error("Review generation failed:", err);
     return null;
@@ -646,8 +580,66 @@ function extractTitle(sessionContent: string): string {
   return `Session ${new Date().toISOString().split("T")[0]}`;
 }
 
+function extractAdapterTouchedFiles(
+  adapter: HarnessAdapter,
+  messages: NormalizedMessage[],
+  projectPath?: string
+): string[] {
+  const files = new Set<string>();
+  const fileModifyingTools = getFileModifyingToolsForAdapter(adapter);
+
+  for (const msg of messages) {
+    for (const block of msg.content_blocks) {
+      if (block.type !== "tool_use" || typeof block.name !== "string") continue;
+      if (!fileModifyingTools.includes(block.name)) continue;
+
+      let path = extractFilePathFromTool(adapter, block.name, (block.input ?? {}) as Record<string, unknown>);
+      if (path) {
+        if (projectPath && path.startsWith(projectPath)) {
+          path = path.slice(projectPath.length + 1);
+        }
+        files.add(path.replace(/^\.\//, "").replace(/\/+/g, "/"));
+      }
+    }
+  }
+
+  return Array.from(files);
+}
+
+/**
+ * Serialize adapter-normalized messages as JSONL the server can ingest.
+ * Tool results attached to tool_use blocks are emitted as separate tool_result items.
+ */
+export function serializeNormalizedMessages(messages: NormalizedMessage[]): string {
+  const lines: string[] = [];
+
+  for (const msg of messages) {
+    const content = msg.content_blocks.map((block) => {
+      if (block.type !== "tool_use") return block;
+      const { result: _result, is_error: _isError, ...toolUse } = block;
+      return toolUse;
+    });
+    lines.push(JSON.stringify({ role: msg.role, content, timestamp: msg.timestamp }));
+
+    for (const block of msg.content_blocks) {
+      if (block.type === "tool_use" && block.result !== undefined) {
+        lines.push(JSON.stringify({
+          type: "tool_result",
+          tool_use_id: block.id,
+          content: block.result,
+          is_error: block.is_error,
+        }));
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
+
 interface UploadOptions {
   sessionPath: string;
+  sessionContent: string;
+  harnessSessionId: string;
   title: string;
   model: string | null;
   harness: string;
@@ -657,16 +649,29 @@ interface UploadOptions {
   review: ReviewOutput | null;
   projectPath: string;
   authToken: string | null;
+  redactionCount: number;
 }
 
 async function uploadSession(options: UploadOptions): Promise<void> {
-  const { sessionPath, title, model, harness, repoUrl, diffContent, serverUrl, review, projectPath, authToken } = options;
-  const sessionContent = await Bun.file(sessionPath).text();
-  const sessionId = basename(sessionPath, ".jsonl");
+  const {
+    sessionPath,
+    sessionContent,
+    harnessSessionId,
+    title,
+    model,
+    harness,
+    repoUrl,
+    diffContent,
+    serverUrl,
+    review,
+    projectPath,
+    authToken,
+    redactionCount,
+  } = options;
 
   const formData = new FormData();
   formData.append("title", title);
-  formData.append("claude_session_id", sessionId);
+  formData.append("claude_session_id", harnessSessionId);
   formData.append("project_path", projectPath);
   formData.append("harness", harness);
 
@@ -678,6 +683,8 @@ async function uploadSession(options: UploadOptions): Promise<void> {
     formData.append("repo_url", repoUrl);
   }
 
+  formData.append("redaction_count", String(redactionCount));
+
   formData.append(
     "session_file",
     new Blob([sessionContent], { type: "application/jsonl" }),
@@ -696,6 +703,7 @@ async function uploadSession(options: UploadOptions): Promise<void> {
   if (review) {
     formData.append("review_summary", review.summary);
     formData.append("review_model", review.model);
+    formData.append("review_prompt_hash", review.prompt_hash);
     formData.append("annotations", JSON.stringify(review.annotations));
   }
 
@@ -730,30 +738,41 @@ async function uploadSession(options: UploadOptions): Promise<void> {
 
 function showHelp(): void {
   console.log(`
-Upload a Claude Code session to the server.
+Upload an agent session to the server.
 
 Usage:
   openctl upload [options]
 
 Options:
-  -s, --session   Session UUID or path to JSONL file (default: auto-detect current session)
+  -s, --session   Session ID or path to session file (default: auto-detect current session)
                   Can be a UUID like "c28995d0-7cba-4974-8268-32b94ac183a4" or a file path
   -l, --list      Interactively select from recent sessions
   -t, --title     Session title (default: derived from first user message)
   -m, --model     Model used (default: auto-detect from session)
-  --harness       Harness/client used (default: "Claude Code")
+  --harness       Harness that recorded the session: claude-code, codex, aider, opencode
+                  (default: "Claude Code")
   --repo          GitHub repository URL (default: auto-detect from git remote)
   -d, --diff      Include git diff (default: true)
   --no-diff       Exclude git diff
   -r, --review    Generate code review using Claude CLI (requires diff)
   --server        Server URL (default: from config or ${DEFAULT_SERVER})
   -y, --yes       Skip confirmation prompt when auto-detecting session
+  --dry-run       Show what would be uploaded without uploading
+  --show-redactions
+                  List each redacted value (masked)
   -h, --help      Show this help
 
+Redaction:
+  API keys, tokens, private keys, high-entropy strings and email addresses are
+  replaced with [REDACTED:<detector>] before upload. Configure detectors and add
+  regexes under "redaction" in ~/.openctl/config.json.
+
 Examples:
   openctl upload                   # Upload current/latest session
   openctl upload --list            # Pick from recent sessions
   openctl upload -s abc-123-def    # Upload a specific session
+  openctl upload --harness codex   # Upload the latest Codex CLI session for this directory
+  openctl upload --dry-run --show-redactions  # Preview what would be redacted
   `);
 }
 
@@ -765,11 +784,38 @@ export async function upload(args: string[]): Promise<void> {
     return;
   }
 
+  // Harnesses other than Claude Code are parsed through their adapter.
+  // Unrecognized --harness values are treated as Claude Code-format sessions.
+  const resolvedAdapter = findAdapter(options.harness);
+  const adapter = resolvedAdapter && resolvedAdapter.id !== DEFAULT_ADAPTER_ID ? resolvedAdapter : null;
+
   // Find session file
   let sessionPath = options.session;
   let autoDetected = false;
 
-  if (options.list) {
+  if (adapter) {
+    if (options.list) {
+      console.error(`--list is not supported for ${adapter.name} sessions.`);
+      process.exit(1);
+    }
+    if (!sessionPath) {
+      console.log(`Auto-detecting current ${adapter.name} session...`);
+      const latest = await findLatestAdapterSession(adapter, process.cwd());
+      if (!latest) {
+        console.error(`No ${adapter.name} session found for: ${process.cwd()}`);
+        process.exit(1);
+      }
+      sessionPath = latest.filePath;
+      autoDetected = true;
+    } else if (!existsSync(sessionPath)) {
+      const foundPath = await findAdapterSessionById(adapter, sessionPath);
+      if (!foundPath) {
+        console.error(`No ${adapter.name} session file found for: ${sessionPath}`);
+        process.exit(1);
+      }
+      sessionPath = foundPath;
+    }
+  } else if (options.list) {
     // Interactive list mode
     const sessions = await listRecentSessions(10);
     const result = await promptSessionSelection(sessions);
@@ -804,17 +850,28 @@ export async function upload(args: string[]): Promise<void> {
 
   // Extract project path from session path (for UUID-based lookups)
   // This is the directory where the session was created
-  const extractedProjectPath = extractProjectPathFromSessionPath(sessionPath);
+  const sessionInfo = adapter ? adapter.getSessionInfo(sessionPath) : null;
+  const extractedProjectPath = sessionInfo
+    ? sessionInfo.projectPath || null
+    : extractProjectPathFromSessionPath(sessionPath);
   const projectPath = extractedProjectPath || process.cwd();
   if (extractedProjectPath) {
     console.log(`Project: ${extractedProjectPath}`);
   }
 
-  // Read session content
-  const sessionContent = await Bun.file(sessionPath).text();
+  // Read session content, scrubbing secrets before anything is derived from it
+  const redactor = new Redactor(loadRedactionRules(getRedactionConfig()), {
+    trackFindings: options.showRedactions,
+  });
+  const normalizedMessages = adapter
+    ? redactor.redactMessages(await loadSessionMessages(adapter, sessionPath))
+    : null;
+  const sessionContent = normalizedMessages
+    ? serializeNormalizedMessages(normalizedMessages)
+    : redactor.redactJsonl(await Bun.file(sessionPath).text());
 
   // Check for actual messages (skip sessions with only metadata)
-  const messageCount = countMessages(sessionContent);
+  const messageCount = normalizedMessages ? normalizedMessages.length : countMessages(sessionContent);
   if (messageCount === 0) {
     console.error("Session has no messages (only metadata). Skipping upload.");
     process.exit(1);
@@ -822,32 +879,41 @@ export async function upload(args: string[]): Promise<void> {
   console.log(`Messages: ${messageCount}`);
 
   // Extract or use provided title
-  const title = options.title || extractTitle(sessionContent);
+  const title =
+    options.title ||
+    (adapter && normalizedMessages && adapter.deriveTitle
+      ? adapter.deriveTitle(normalizedMessages)
+      : extractTitle(sessionContent));
   console.log(`Title: ${title}`);
 
   // Extract or use provided model
-  const model = options.model || extractModel(sessionContent);
+  const model = options.model || (sessionInfo ? sessionInfo.model ?? null : extractModel(sessionContent));
   if (model) {
     console.log(`Model: ${model}`);
   }
 
   // Extract git branch from session metadata
-  const gitBranch = extractGitBranch(sessionContent);
+  const gitBranch = adapter ? null : extractGitBranch(sessionContent);
   if (gitBranch) {
     console.log(`Branch: ${gitBranch}`);
   }
 
   // Harness (defaults to "Claude Code")
-  console.log(`Harness: ${options.harness}`);
+  const harness = adapter ? adapter.id : options.harness;
+  console.log(`Harness: ${adapter ? adapter.name : harness}`);
 
   // Get repo URL (use extracted project path if available)
-  const repoUrl = options.repo || (await getRepoUrl(extractedProjectPath || undefined));
+  const repoUrl =
+    options.repo ||
+    (await getRepoUrl(extractedProjectPath || undefined)) ||
+    sessionInfo?.repoUrl ||
+    null;
   if (repoUrl) {
     console.log(`Repo: ${repoUrl}`);
   }
 
-  // Prompt for confirmation when auto-detecting (unless --yes)
-  if (autoDetected && !options.yes) {
+  // Prompt for confirmation when auto-detecting (unless --yes or --dry-run)
+  if (autoDetected && !options.yes && !options.dryRun) {
     console.log();
     const confirmed = await promptConfirmation("Upload this session? [y/N] ");
     if (!confirmed) {
@@ -858,7 +924,9 @@ export async function upload(args: string[]): Promise<void> {
   }
 
   // Extract files touched by the session (for filtering diff)
-  const touchedFiles = extractTouchedFiles(sessionContent, extractedProjectPath || undefined);
+  const touchedFiles = adapter && normalizedMessages
+    ? extractAdapterTouchedFiles(adapter, normalizedMessages, extractedProjectPath || undefined)
+    : extractTouchedFiles(sessionContent, extractedProjectPath || undefined);
   if (touchedFiles.length > 0) {
     console.log(`Touched files: ${touchedFiles.length}`);
   }
@@ -873,12 +941,20 @@ export async function upload(args: string[]): Promise<void> {
       touchedFiles.length > 0 ? touchedFiles : undefined
     );
     if (diffContent) {
+      diffContent = redactor.redactText(diffContent);
       console.log(`Diff: ${diffContent.split("\n").length} lines`);
     } else {
       console.log("No diff available");
     }
   }
 
+  printRedactions(redactor, options.showRedactions);
+
+  if (options.dryRun) {
+    console.log("Dry run: nothing was uploaded.");
+    return;
+  }
+
   // Generate review if requested (requires diff)
   let review: ReviewOutput | null = null;
   if (options.review) {
@@ -896,14 +972,35 @@ export async function upload(args: string[]): Promise<void> {
   console.log(`Uploading to ${options.server}...`);
   await uploadSession({
     sessionPath,
+    sessionContent,
+    harnessSessionId: sessionInfo?.harnessSessionId ?? basename(sessionPath, ".jsonl"),
     title,
     model,
-    harness: options.harness,
+    harness,
     repoUrl,
     diffContent,
     serverUrl: options.server,
     review,
     projectPath,
     authToken,
+    redactionCount: redactor.count,
   });
 }
+
+function printRedactions(redactor: Redactor, showAll: boolean): void {
+  if (redactor.count === 0) {
+    if (showAll) {
+      console.log("Redactions: none");
+    }
+    return;
+  }
+
+  const byDetector = Array.from(redactor.countsByDetector, ([detector, count]) => `${detector}: ${count}`);
+  console.log(`Redactions: ${redactor.count} (${byDetector.join(", ")})`);
+
+  if (showAll) {
+    for (const finding of redactor.findings) {
+      console.log(`  [${finding.detector}] ${finding.preview}`);
+    }
+  }
+}
@@ -8,6 +8,7 @@
  */
 
 import { getClientId } from "../lib/client-id";
+import type { GitCommit } from "../lib/git";
 
 interface RetryOptions {
   maxRetries?: number;
@@ -64,9 +65,17 @@ export interface CreateLiveSessionRequest {
   repo_url?: string;
 }
 
-export interface CompleteSessionRequest {
+export interface CompleteSessionRequest extends Partial<DiffCommits> {
   final_diff?: string;
   summary?: string;
+  redaction_count?: number;  // Values redacted from final_diff
+}
+
+// The commits a diff spans, from the session's base commit to HEAD
+export interface DiffCommits {
+  base_sha: string;
+  head_sha: string;
+  commits: GitCommit[];
 }
 
 // Response interfaces
@@ -77,6 +86,7 @@ export interface CreateLiveSessionResponse {
   restored?: boolean;  // true if a completed session was restored to live
   message_count: number;
   last_index: number;
+  base_sha?: string | null;  // Base commit recorded for a resumed session
 }
 
 export interface PushMessagesResponse {
@@ -176,10 +186,12 @@ export class ApiClient {
 
   /**
    * Push messages to a live session.
+   * redactionCount is the number of values redacted from these messages.
    */
   async pushMessages(
     sessionId: string,
-    messages: unknown[]
+    messages: unknown[],
+    redactionCount = 0
   ): Promise<PushMessagesResponse> {
     const res = await fetchWithRetry(
       `${this.baseUrl}/api/sessions/${sessionId}/messages`,
@@ -188,7 +200,9 @@ export class ApiClient {
         headers: this.getHeaders({
           "Content-Type": "application/json",
         }),
-        body: JSON.stringify({ messages }),
+        body: JSON.stringify(
+          redactionCount > 0 ? { messages, redaction_count: redactionCount } : { messages }
+        ),
       },
       this.retryOptions
     );
@@ -229,20 +243,21 @@ export class ApiClient {
   }
 
   /**
-   * Update the diff for a live session.
+   * Update the diff for a live session, with the commits it spans when known.
    */
   async pushDiff(
     sessionId: string,
-    diff: string
+    diff: string,
+    commits?: DiffCommits
   ): Promise<PushDiffResponse> {
     const res = await fetchWithRetry(
       `${this.baseUrl}/api/sessions/${sessionId}/diff`,
       {
         method: "PUT",
         headers: this.getHeaders({
-          "Content-Type": "text/plain",
+          "Content-Type": commits ? "application/json" : "text/plain",
         }),
-        body: diff,
+        body: commits ? JSON.stringify({ diff, ...commits }) : diff,
       },
       this.retryOptions
     );
@@ -19,8 +19,9 @@ import {
   getSharedSessionsForServer,
   getSharedSessionsPath,
 } from "../lib/shared-sessions";
+import { runReview } from "../lib/review";
 import { SpawnedSessionManager } from "../lib/spawned-session-manager";
-import type { ServerToDaemonMessage } from "../types/daemon-ws";
+import type { RunReviewMessage, ServerToDaemonMessage } from "../types/daemon-ws";
 import { SessionTracker } from "./session-tracker";
 import { SessionWatcher } from "./watcher";
 
@@ -36,12 +37,17 @@ const OPENCTL_DIR = join(Bun.env.HOME || "~", ".openctl");
 const PID_FILE = join(OPENCTL_DIR, "daemon.pid");
 const STATUS_FILE = join(OPENCTL_DIR, "daemon.status.json");
 
+// Give up on a requested review after this long
+const REVIEW_TIMEOUT_MS = 10 * 60 * 1000;
+
 let tracker: SessionTracker | null = null;
 let watcher: SessionWatcher | null = null;
 let statusInterval: ReturnType<typeof setInterval> | null = null;
 let sharedSessionsWatcher: FSWatcher | null = null;
 let daemonWs: DaemonWebSocket | null = null;
 let sessionManager: SpawnedSessionManager | null = null;
+// Requested reviews in progress, by request ID
+const activeReviews = new Set<string>();
 
 export async function startDaemon(options: DaemonOptions): Promise<void> {
   // Enable debug logging if verbose
@@ -208,6 +214,7 @@ function initWebSocket(serverUrl: string): void {
     serverUrl,
     clientId,
     onMessage: handleServerMessage,
+    getActiveSessions: () => sessionManager?.getActiveSessionAnnouncements() ?? [],
     onConnect: () => {
       console.log("[daemon] WebSocket connected to server");
     },
@@ -282,11 +289,42 @@ function handleServerMessage(message: ServerToDaemonMessage): void {
       );
       break;
 
+    case "run_review":
+      debug(`[daemon] Received run_review: ${message.session_id}`);
+      runRequestedReview(message);
+      break;
+
     default:
       console.warn("[daemon] Unknown message type:", (message as { type: string }).type);
   }
 }
 
+/**
+ * Run a review requested from the web UI and report back to the server.
+ */
+async function runRequestedReview(message: RunReviewMessage): Promise<void> {
+  if (activeReviews.has(message.request_id)) return;
+  activeReviews.add(message.request_id);
+
+  const ids = { session_id: message.session_id, request_id: message.request_id };
+  console.log(`[daemon] Reviewing session ${message.session_id}`);
+  daemonWs?.send({ type: "review_progress", ...ids, stage: "running" });
+
+  try {
+    const review = await runReview(message.diff, { timeoutMs: REVIEW_TIMEOUT_MS });
+    daemonWs?.send({ type: "review_result", ...ids, review });
+  } catch (error) {
+    console.error(`[daemon] Review of session ${message.session_id} failed:`, error);
+    daemonWs?.send({
+      type: "review_result",
+      ...ids,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  } finally {
+    activeReviews.delete(message.request_id);
+  }
+}
+
 async function shutdown(): Promise<void> {
   console.log("\nShutting down...");
 
@@ -14,12 +14,17 @@ import type {
   NormalizedMessage,
   ContentBlock,
 } from "../adapters/types";
-import { getFileModifyingToolsForAdapter, extractFilePathFromTool } from "../adapters";
-import { isRepoAllowed } from "../lib/config";
+import {
+  getFileModifyingToolsForAdapter,
+  extractFilePathFromTool,
+  parseSessionContent,
+} from "../adapters";
+import { getRedactionConfig, isRepoAllowed } from "../lib/config";
 import { debug } from "../lib/debug";
-import { captureGitDiff, getRepoIdentifier, getRepoHttpsUrl } from "../lib/git";
+import { captureGitChanges, getHeadSha, getRepoIdentifier, getRepoHttpsUrl } from "../lib/git";
+import { loadRedactionRules, Redactor, type RedactionRule } from "../lib/redaction";
 import { Tail } from "../lib/tail";
-import { ApiClient } from "./api-client";
+import { ApiClient, type DiffCommits } from "./api-client";
 import { getAccessTokenIfAuthenticated } from "../lib/oauth";
 
 /** Debounce delay for diff capture (ms) */
@@ -58,6 +63,10 @@ interface ActiveSession {
   collaborationEnabled: boolean;
   // Whether initial file read is complete (only detect commands after this)
   liveMode: boolean;
+  // Scrubs secrets from messages before they are retained or pushed
+  redactor: Redactor;
+  // HEAD when the session started; diffs are taken against it so commits stay visible
+  baseSha: string | null;
 }
 
 /**
@@ -76,11 +85,13 @@ export class SessionTracker {
   private idleTimeoutMs: number;
   private idleCheckInterval: ReturnType<typeof setInterval> | null = null;
   private authInitialized = false;
+  private redactionRules: RedactionRule[];
 
   constructor(serverUrl: string, idleTimeoutSeconds: number) {
     this.api = new ApiClient(serverUrl);
     this.serverUrl = serverUrl;
     this.idleTimeoutMs = idleTimeoutSeconds * 1000;
+    this.redactionRules = loadRedactionRules(getRedactionConfig());
   }
 
   /**
@@ -100,41 +111,16 @@ export class SessionTracker {
 
   /**
    * Check if a session file has any parseable content.
-   * Returns false for empty files or files with no valid JSON lines.
+   * Returns false for empty files or files with no messages the adapter recognizes.
    */
-  private async sessionFileHasContent(filePath: string): Promise<boolean> {
+  private async sessionFileHasContent(filePath: string, adapter: HarnessAdapter): Promise<boolean> {
     try {
       const content = await Bun.file(filePath).text();
       if (!content.trim()) {
         return false;
       }
 
-      // Check if there's at least one valid JSON line
-      const lines = content.split("\n");
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (!trimmed) continue;
-
-        try {
-          const parsed = JSON.parse(trimmed);
-          // Check if it looks like a message (has role or message.role)
-          if (parsed && typeof parsed === "object") {
-            const data = parsed as Record<string, unknown>;
-            const messageData = data.message ?? data;
-            if (
-              messageData &&
-              typeof messageData === "object" &&
-              "role" in (messageData as object)
-            ) {
-              return true;
-            }
-          }
-        } catch {
-          // Invalid JSON line, continue checking
-        }
-      }
-
-      return false;
+      return parseSessionContent(adapter, content).length > 0;
     } catch {
       return false;
     }
@@ -166,7 +152,7 @@ export class SessionTracker {
 
     // Check if the session file has any parseable content
     // Skip empty files to avoid creating empty server sessions
-    if (!(await this.sessionFileHasContent(filePath))) {
+    if (!(await this.sessionFileHasContent(filePath, adapter))) {
       debug(`Skipping empty session file: ${filePath}`);
       return 'retry_later';
     }
@@ -176,6 +162,7 @@ export class SessionTracker {
     let id: string;
     let resumed = false;
     let message_count = 0;
+    let baseSha: string | null = null;
 
     // Create or resume session on server
     const repoUrl = await getRepoHttpsUrl(sessionInfo.projectPath);
@@ -193,6 +180,8 @@ export class SessionTracker {
       id = result.id;
       resumed = result.resumed;
       message_count = result.message_count;
+      // A resumed session keeps the base it started from
+      baseSha = result.base_sha ?? await getHeadSha(sessionInfo.projectPath);
 
       if (existingSessionId && id !== existingSessionId) {
         console.log(`  Previous session ${existingSessionId} was invalid, created new: ${id}`);
@@ -235,6 +224,8 @@ export class SessionTracker {
       modifiedFiles: new Set(),
       collaborationEnabled: false,
       liveMode: false,
+      redactor: new Redactor(this.redactionRules),
+      baseSha,
     };
 
     this.sessions.set(filePath, session);
@@ -302,22 +293,28 @@ export class SessionTracker {
     const preview = line.length > 100 ? line.slice(0, 100) + "..." : line;
     debug(`Line received (${line.length} chars): ${preview}`);
 
-    const messages = session.adapter.parseLine(line, session.parseContext);
+    const parsed = session.adapter.parseLine(line, session.parseContext);
 
     // Debug: Log parse result
-    debug(`Parsed ${messages?.length ?? 0} messages`);
+    debug(`Parsed ${parsed?.length ?? 0} messages`);
 
-    if (!messages || messages.length === 0) return;
+    if (!parsed || parsed.length === 0) return;
+
+    // Scrub secrets before messages are retained (titles derive from context) or pushed
+    const redactionsBefore = session.redactor.count;
+    const messages = session.redactor.redactMessages(parsed);
+    const redactions = session.redactor.count - redactionsBefore;
 
     // Add to context
     session.parseContext.messages.push(...messages);
 
     // Push to server
     try {
-      debug(`Pushing ${messages.length} messages to server...`);
+      debug(`Pushing ${messages.length} messages to server (${redactions} redactions)...`);
       const result = await this.api.pushMessages(
         session.sessionId,
-        messages
+        messages,
+        redactions
       );
       session.messagesPushed += result.appended;
       debug(`Push result: appended=${result.appended}, total=${result.message_count}`);
@@ -457,35 +454,11 @@ export class SessionTracker {
   ): Promise<void> {
     try {
       const content = await Bun.file(session.localPath).text();
-      const lines = content.split("\n");
       const fileModifyingTools = getFileModifyingToolsForAdapter(session.adapter);
 
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (!trimmed) continue;
-
-        let parsed: unknown;
-        try {
-          parsed = JSON.parse(trimmed);
-        } catch {
-          continue;
-        }
-
-        if (!parsed || typeof parsed !== "object") continue;
-
-        const data = parsed as Record<string, unknown>;
-        const messageData = data.message
-          ? (data.message as Record<string, unknown>)
-          : data;
-
-        // Look for content blocks with file-modifying tool calls
-        const rawContent = messageData.content;
-        if (!Array.isArray(rawContent)) continue;
-
-        for (const block of rawContent) {
+      for (const message of parseSessionContent(session.adapter, content)) {
+        for (const block of message.content_blocks) {
           if (
-            block &&
-            typeof block === "object" &&
             block.type === "tool_use" &&
             typeof block.name === "string" &&
             fileModifyingTools.includes(block.name)
@@ -539,22 +512,47 @@ export class SessionTracker {
     }
 
     try {
-      const diff = await captureGitDiff(session.projectPath, {
-        allowedUntrackedFiles: session.modifiedFiles,
-      });
-      if (!diff) {
+      // Interim diffs are replaced by the final diff, so only its redactions are counted
+      const changes = await this.captureChanges(session, new Redactor(this.redactionRules));
+      if (!changes?.diff) {
         debug("No diff to capture (not a git repo or no changes)");
         return;
       }
 
-      debug(`Capturing diff (${diff.length} chars)`);
-      const result = await this.api.pushDiff(session.sessionId, diff);
+      debug(`Capturing diff (${changes.diff.length} chars, ${changes.commits.commits.length} commits)`);
+      const result = await this.api.pushDiff(session.sessionId, changes.diff, changes.commits);
       debug(`Diff pushed: ${result.diff_size} bytes`);
     } catch (err) {
       console.error(`  Failed to push diff:`, err);
     }
   }
 
+  /**
+   * Capture the diff since the session's base commit and the commits made
+   * since then, with secrets scrubbed from both.
+   */
+  private async captureChanges(
+    session: ActiveSession,
+    redactor: Redactor
+  ): Promise<{ diff: string | null; commits: DiffCommits } | null> {
+    const changes = await captureGitChanges(session.projectPath, {
+      allowedUntrackedFiles: session.modifiedFiles,
+      baseSha: session.baseSha,
+    });
+    if (!changes) {
+      return null;
+    }
+
+    return {
+      diff: changes.diff ? redactor.redactText(changes.diff) : null,
+      commits: {
+        base_sha: changes.baseSha,
+        head_sha: changes.headSha,
+        commits: changes.commits.map((commit) => ({ ...commit, message: redactor.redactText(commit.message) })),
+      },
+    };
+  }
+
   async endSession(filePath: string): Promise<void> {
     const session = this.sessions.get(filePath);
     if (!session) return;
@@ -572,6 +570,23 @@ export class SessionTracker {
 
     session.tail.stop();
 
+    // Push any message the adapter was still buffering (multi-line formats)
+    const buffered = session.adapter.flush?.(session.parseContext);
+    if (buffered && buffered.length > 0) {
+      try {
+        const redactionsBefore = session.redactor.count;
+        const messages = session.redactor.redactMessages(buffered);
+        const result = await this.api.pushMessages(
+          session.sessionId,
+          messages,
+          session.redactor.count - redactionsBefore
+        );
+        session.messagesPushed += result.appended;
+      } catch (err) {
+        debug(`Failed to push buffered messages: ${err}`);
+      }
+    }
+
     // Disable collaboration mode if it was enabled
     if (session.collaborationEnabled) {
       try {
@@ -598,14 +613,17 @@ export class SessionTracker {
 
     // Capture final diff (only tracked files + untracked files modified by session)
     let finalDiff: string | undefined;
+    let finalCommits: DiffCommits | undefined;
+    const diffRedactor = new Redactor(this.redactionRules);
     if (session.projectPath) {
       try {
-        const diff = await captureGitDiff(session.projectPath, {
-          allowedUntrackedFiles: session.modifiedFiles,
-        });
-        if (diff) {
-          finalDiff = diff;
-          debug(`Final diff captured (${diff.length} chars)`);
+        const changes = await this.captureChanges(session, diffRedactor);
+        if (changes) {
+          finalCommits = changes.commits;
+        }
+        if (changes?.diff) {
+          finalDiff = changes.diff;
+          debug(`Final diff captured (${finalDiff.length} chars)`);
         }
       } catch (err) {
         debug(`Failed to capture final diff: ${err}`);
@@ -613,7 +631,11 @@ export class SessionTracker {
     }
 
     try {
-      await this.api.completeSession(session.sessionId, { final_diff: finalDiff });
+      await this.api.completeSession(session.sessionId, {
+        final_diff: finalDiff,
+        redaction_count: diffRedactor.count,
+        ...finalCommits,
+      });
       console.log(`  Completed: ${session.sessionId}`);
     } catch (err) {
       const errMsg = String(err);
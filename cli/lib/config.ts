@@ -18,11 +18,48 @@ interface ServerConfig {
   allowedRepos: string[];
 }
 
+export interface RedactionPatternConfig {
+  name: string;
+  pattern: string;
+  flags?: string;
+}
+
+export interface RedactionConfig {
+  /** Set to false to upload content unmodified (default: true) */
+  enabled?: boolean;
+  /** Turn individual built-in detectors on or off, e.g. { "email": false } */
+  detectors?: Record<string, boolean>;
+  /** Additional regexes; every match is replaced */
+  patterns?: RedactionPatternConfig[];
+}
+
+export interface PermissionRuleConfig {
+  action: "allow" | "deny" | "ask";
+  /** Tool name; "*" is a wildcard (e.g. "mcp__github__*", or "*" for every tool) */
+  tool: string;
+  /** Globs relative to the session's working directory */
+  paths?: string[];
+  /** Bash command patterns; "*" matches any run of characters */
+  commands?: string[];
+}
+
+export interface PermissionPolicyConfig {
+  rules?: PermissionRuleConfig[];
+  /**
+   * Apply "allow" rules from repositories' .openctl/permissions.json. Off by
+   * default, since a checked-out repository could otherwise approve its own
+   * tool calls; repository "deny" and "ask" rules always apply.
+   */
+  allowRepoAllowRules?: boolean;
+}
+
 interface Config {
   server?: string;
   db?: string;
   autoOpen?: boolean;
   servers?: Record<string, ServerConfig>;
+  redaction?: RedactionConfig;
+  permissions?: PermissionPolicyConfig;
 }
 
 export function loadConfig(): Config {
@@ -54,6 +91,20 @@ export function setConfigValue(key: keyof Config, value: string): void {
   saveConfig(config);
 }
 
+/**
+ * Get redaction settings for content leaving the machine.
+ */
+export function getRedactionConfig(): RedactionConfig {
+  return loadConfig().redaction ?? {};
+}
+
+/**
+ * Get the daemon-wide permission rules for "auto-safe" spawned sessions.
+ */
+export function getPermissionPolicyConfig(): PermissionPolicyConfig {
+  return loadConfig().permissions ?? {};
+}
+
 /**
  * Get allowed repositories for a specific server.
  */
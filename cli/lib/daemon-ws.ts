@@ -6,6 +6,7 @@
  */
 
 import type {
+  ActiveSpawnedSession,
   DaemonToServerMessage,
   ServerToDaemonMessage,
   SpawnableHarnessInfo,
@@ -17,6 +18,8 @@ interface DaemonWSOptions {
   serverUrl: string;
   clientId: string;
   onMessage: MessageHandler;
+  /** Spawned sessions to re-announce on every (re)connect */
+  getActiveSessions?: () => ActiveSpawnedSession[];
   onConnect?: () => void;
   onDisconnect?: () => void;
 }
@@ -109,7 +112,10 @@ export class DaemonWebSocket {
       capabilities: {
         can_spawn_sessions: capabilities.length > 0,
         spawnable_harnesses: capabilities,
+        // Reviews run with the Claude CLI
+        can_run_reviews: capabilities.some((h) => h.id === "claude-code"),
       },
+      active_sessions: this.options.getActiveSessions?.() ?? [],
     });
   }
 
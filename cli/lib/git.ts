@@ -43,11 +43,130 @@ export interface CaptureGitDiffOptions {
    * This prevents accidentally uploading unrelated untracked files.
    */
   allowedUntrackedFiles?: Set<string>;
+  /**
+   * Commit to diff against instead of HEAD, so changes committed since then
+   * stay in the diff. Must be a full SHA.
+   */
+  baseSha?: string;
+}
+
+/**
+ * A commit created during a session.
+ */
+export interface GitCommit {
+  sha: string;
+  /** Full commit message */
+  message: string;
+  author: string;
+  /** ISO 8601 commit date */
+  committed_at: string;
+}
+
+/**
+ * Changes since a session's base commit: the diff plus the commits between
+ * the base and the current HEAD.
+ */
+export interface GitChanges {
+  diff: string | null;
+  /** The commit the diff is against; HEAD when the base is no longer an ancestor */
+  baseSha: string;
+  headSha: string;
+  commits: GitCommit[];
+}
+
+// Most commits listed for one session
+const MAX_COMMITS = 100;
+
+/**
+ * Get the SHA of the current HEAD commit.
+ * Returns null if not a git repo or the repo has no commits yet.
+ */
+export async function getHeadSha(projectPath: string): Promise<string | null> {
+  if (!isValidProjectPath(projectPath)) {
+    return null;
+  }
+
+  try {
+    const result = await $`git -C ${projectPath} rev-parse --verify HEAD`.quiet();
+    if (result.exitCode === 0) {
+      return result.text().trim();
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether `sha` is HEAD or one of its ancestors. False after a reset or
+ * branch switch moved HEAD off the commit.
+ */
+async function isAncestorOfHead(projectPath: string, sha: string): Promise<boolean> {
+  try {
+    const result = await $`git -C ${projectPath} merge-base --is-ancestor ${sha} HEAD`.quiet().nothrow();
+    return result.exitCode === 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * List commits reachable from HEAD but not from `baseSha`, oldest first
+ * (the most recent MAX_COMMITS).
+ */
+export async function getCommitsSince(projectPath: string, baseSha: string): Promise<GitCommit[]> {
+  if (!isValidProjectPath(projectPath)) {
+    return [];
+  }
+
+  try {
+    // Unit and record separators can't appear in commit metadata
+    const format = "--format=%H%x1f%an%x1f%cI%x1f%B%x1e";
+    const range = `${baseSha}..HEAD`;
+    const output = await $`git -C ${projectPath} log --reverse ${format} -n ${MAX_COMMITS} ${range}`.text();
+    return output
+      .split("\x1e")
+      .map((record) => record.trim())
+      .filter(Boolean)
+      .map((record) => {
+        const [sha = "", author = "", committedAt = "", message = ""] = record.split("\x1f");
+        return { sha, author, committed_at: committedAt, message: message.trim() };
+      });
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Capture changes since a session's base commit. Commits made during the
+ * session stay in the diff and are listed. When the base is no longer an
+ * ancestor of HEAD (reset, branch switch), falls back to diffing against HEAD.
+ * Returns null if the directory is not a git repo or has no commits.
+ */
+export async function captureGitChanges(
+  projectPath: string,
+  options: Omit<CaptureGitDiffOptions, "baseSha"> & { baseSha: string | null }
+): Promise<GitChanges | null> {
+  const headSha = await getHeadSha(projectPath);
+  if (!headSha) {
+    return null;
+  }
+
+  const baseSha = options.baseSha && await isAncestorOfHead(projectPath, options.baseSha)
+    ? options.baseSha
+    : headSha;
+  const [diff, commits] = await Promise.all([
+    captureGitDiff(projectPath, { ...options, baseSha }),
+    baseSha === headSha ? Promise.resolve([]) : getCommitsSince(projectPath, baseSha),
+  ]);
+
+  return { diff, baseSha, headSha, commits };
 }
 
 /**
  * Capture the current git diff for a project.
- * Returns the combined diff of staged, unstaged, and (optionally filtered) untracked files.
+ * Returns the combined diff of staged, unstaged, and (optionally filtered) untracked files,
+ * against `baseSha` when given, otherwise HEAD.
  * Returns null if the directory is not a git repo or an error occurs.
  */
 export async function captureGitDiff(
@@ -60,8 +179,10 @@ export async function captureGitDiff(
       return null;
     }
 
-    // Get diff of tracked files (staged + unstaged) against HEAD
-    const trackedDiff = await $`git -C ${projectPath} diff HEAD`.text();
+    // Get diff of tracked files (staged + unstaged) against the base, which
+    // also covers anything committed since then
+    const base = options?.baseSha ?? "HEAD";
+    const trackedDiff = await $`git -C ${projectPath} diff ${base}`.text();
 
     // Get list of untracked files
     const untrackedFiles = await $`git -C ${projectPath} ls-files --others --exclude-standard`.text();
@@ -0,0 +1,278 @@
+/**
+ * Declarative permission policy for spawned sessions in "auto-safe" mode.
+ *
+ * Rules come from three places: a built-in set that allows read-only tools
+ * inside the working directory, the daemon config ("permissions" in
+ * ~/.openctl/config.json) and the repository (.openctl/permissions.json at the
+ * git root). When several rules match a tool call, deny beats ask beats allow,
+ * so nothing can loosen a deny from another source. Repository rules can only
+ * tighten the policy unless the daemon config opts in to their allow rules.
+ * Tool calls that no rule matches, or that match an ask rule, are relayed to
+ * the browser as before.
+ */
+
+import { Glob } from "bun";
+import { existsSync, readFileSync, realpathSync } from "fs";
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from "path";
+import { getPermissionPolicyConfig, type PermissionPolicyConfig, type PermissionRuleConfig } from "./config";
+import { getGitRootPath } from "./git";
+
+export type PermissionAction = "allow" | "deny" | "ask";
+
+export type PermissionRuleSource = "builtin" | "daemon" | "repo";
+
+export interface PermissionRule extends PermissionRuleConfig {
+  source: PermissionRuleSource;
+}
+
+export interface PolicyDecision {
+  action: PermissionAction;
+  /** The deciding rule, or null when no rule matched */
+  rule: PermissionRule | null;
+}
+
+/** Repository policy file, relative to the git root */
+export const REPO_POLICY_PATH = join(".openctl", "permissions.json");
+
+const ACTIONS: PermissionAction[] = ["allow", "deny", "ask"];
+
+// Higher wins when several rules match
+const PRECEDENCE: Record<PermissionAction, number> = { allow: 1, ask: 2, deny: 3 };
+
+/** Read-only tools that are safe to run without asking, as long as they stay inside cwd */
+const READ_ONLY_TOOLS = ["Read", "Glob", "Grep", "LS", "NotebookRead"];
+
+export const BUILTIN_PERMISSION_RULES: PermissionRule[] = [
+  ...READ_ONLY_TOOLS.map((tool) => ({ action: "allow" as const, tool, paths: ["**"], source: "builtin" as const })),
+  { action: "allow", tool: "TodoWrite", source: "builtin" },
+  // Env files usually hold credentials, so reading or searching them still needs a human
+  ...READ_ONLY_TOOLS.map((tool) => ({
+    action: "ask" as const,
+    tool,
+    paths: ["**/.env", "**/.env.*"],
+    source: "builtin" as const,
+  })),
+];
+
+// Shell syntax that can chain or redirect commands; an allow pattern never matches these
+const SHELL_OPERATORS = /[;&|`<>\n]|\$\(/;
+
+/**
+ * Compile a pattern where "*" matches any run of characters into an anchored regex.
+ */
+function wildcardRegex(pattern: string): RegExp {
+  const escaped = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`^${escaped.join(".*")}$`, "s");
+}
+
+const GLOB_CHARS = /[*?[{]/;
+
+/**
+ * The files or directories a tool call touches, from its input, or null if it
+ * has none. Search tools without a path search the working directory, and a
+ * Glob pattern or Grep glob counts as a path under the directory searched.
+ */
+function toolPaths(toolName: string, input: Record<string, unknown>, cwd: string): string[] | null {
+  let base: string | null = null;
+  for (const key of ["file_path", "notebook_path", "path"]) {
+    const value = input[key];
+    if (typeof value === "string" && value.length > 0) {
+      base = value;
+      break;
+    }
+  }
+  base ??= toolName === "Glob" || toolName === "Grep" || toolName === "LS" ? cwd : null;
+  if (base === null) return null;
+
+  const filter = toolName === "Glob" ? input.pattern : toolName === "Grep" ? input.glob : undefined;
+  if (typeof filter !== "string" || filter.length === 0) return [base];
+
+  // A pattern can reach outside its search path on its own
+  if (isAbsolute(filter) || filter.includes("..")) return null;
+  // Grep globs without a slash match file names at any depth
+  return [base, filter.includes("/") ? join(base, filter) : join(base, "**", filter)];
+}
+
+/**
+ * Resolve symlinks in as much of the path as exists.
+ */
+function realPath(path: string): string {
+  try {
+    return realpathSync(path);
+  } catch {
+    const parent = dirname(path);
+    return parent === path ? path : join(realPath(parent), basename(path));
+  }
+}
+
+/**
+ * Path relative to cwd, or null if it is outside cwd.
+ */
+function relativeToCwd(path: string, cwd: string, followLinks: boolean): string | null {
+  const absolute = resolve(cwd, path);
+  const rel = followLinks ? relative(realPath(cwd), realPath(absolute)) : relative(cwd, absolute);
+  if (rel.split(sep)[0] === ".." || isAbsolute(rel)) return null;
+  return rel === "" ? "." : rel;
+}
+
+/**
+ * A path the glob matches, with wildcards replaced by `fill` and globstar
+ * segments dropped, e.g. ".env.*" gives ".env.x" for fill "x".
+ */
+function examplePath(pattern: string, fill: string): string {
+  return pattern.replace(/(^|\/)\*\*\//g, "$1").replace(/\*\*|[*?]/g, fill);
+}
+
+/**
+ * Whether `rel` matches one of the patterns. With `overlap`, a `rel` that is
+ * itself a pattern also matches when the two can match the same file, so deny
+ * and ask rules catch searches like `.env*`.
+ */
+function matchesPath(patterns: string[], rel: string, overlap: boolean): boolean {
+  // The working directory itself only matches patterns that cover everything
+  if (rel === ".") return patterns.includes("**");
+  return patterns.some((pattern) => {
+    const glob = new Glob(pattern);
+    if (glob.match(rel)) return true;
+    if (!overlap || !GLOB_CHARS.test(rel)) return false;
+    return glob.match(examplePath(rel, "")) || new Glob(rel).match(examplePath(pattern, "x"));
+  });
+}
+
+function matchesCommand(rule: PermissionRule, command: string): boolean {
+  const patterns = (rule.commands ?? []).map(wildcardRegex);
+  const trimmed = command.trim();
+
+  if (rule.action === "allow") {
+    return !SHELL_OPERATORS.test(trimmed) && patterns.some((p) => p.test(trimmed));
+  }
+
+  // deny and ask rules also match any single command in a chain or pipeline
+  const segments = [trimmed, ...trimmed.split(/&&|\|\||[;|\n]/).map((s) => s.trim())];
+  return segments.some((segment) => patterns.some((p) => p.test(segment)));
+}
+
+function matchesRule(
+  rule: PermissionRule,
+  toolName: string,
+  input: Record<string, unknown>,
+  cwd: string
+): boolean {
+  if (!wildcardRegex(rule.tool).test(toolName)) return false;
+
+  if (rule.paths) {
+    const paths = toolPaths(toolName, input, cwd);
+    if (paths === null) return false;
+
+    // Check each path both as given and with symlinks resolved. An allow rule
+    // must cover all of them, so a link inside cwd that points elsewhere is not
+    // allowed; deny and ask rules match any of them.
+    const rels = paths.flatMap((path) => [relativeToCwd(path, cwd, false), relativeToCwd(path, cwd, true)]);
+    const matches = (rel: string | null) => rel !== null && matchesPath(rule.paths!, rel, rule.action !== "allow");
+    if (rule.action === "allow" ? !rels.every(matches) : !rels.some(matches)) return false;
+  }
+
+  if (rule.commands) {
+    const command = input.command;
+    if (typeof command !== "string" || !matchesCommand(rule, command)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Validate rules from a config file, dropping (with a warning) any that are malformed.
+ */
+export function parsePermissionRules(
+  config: PermissionPolicyConfig | undefined,
+  source: PermissionRuleSource
+): PermissionRule[] {
+  const rules: PermissionRule[] = [];
+
+  for (const raw of config?.rules ?? []) {
+    const rule = raw as Partial<PermissionRuleConfig>;
+    const validList = (list: unknown) =>
+      list === undefined || (Array.isArray(list) && list.every((item) => typeof item === "string"));
+
+    if (
+      !ACTIONS.includes(rule.action as PermissionAction) ||
+      typeof rule.tool !== "string" ||
+      !validList(rule.paths) ||
+      !validList(rule.commands)
+    ) {
+      console.warn(`Ignoring invalid ${source} permission rule: ${JSON.stringify(raw)}`);
+      continue;
+    }
+
+    rules.push({ ...(rule as PermissionRuleConfig), source });
+  }
+
+  return rules;
+}
+
+/**
+ * Describe a rule for permission history and logs, e.g. `repo: allow Bash "bun test*"`.
+ */
+export function describeRule(rule: PermissionRule): string {
+  const scope = [...(rule.paths ?? []), ...(rule.commands ?? [])].map((s) => `"${s}"`).join(", ");
+  return `${rule.source}: ${rule.action} ${rule.tool}${scope ? ` ${scope}` : ""}`;
+}
+
+export class PermissionPolicy {
+  constructor(
+    private rules: PermissionRule[],
+    private cwd: string
+  ) {}
+
+  /**
+   * Decide a tool call. Returns "ask" with no rule when nothing matches.
+   */
+  evaluate(toolName: string, input: Record<string, unknown>): PolicyDecision {
+    let decision: PolicyDecision = { action: "ask", rule: null };
+
+    for (const rule of this.rules) {
+      if (!matchesRule(rule, toolName, input, this.cwd)) continue;
+      if (!decision.rule || PRECEDENCE[rule.action] > PRECEDENCE[decision.action]) {
+        decision = { action: rule.action, rule };
+      }
+    }
+
+    return decision;
+  }
+}
+
+function readRepoPolicy(root: string): PermissionPolicyConfig | undefined {
+  const path = join(root, REPO_POLICY_PATH);
+  if (!existsSync(path)) return undefined;
+
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
+    console.warn(`Ignoring ${path}: ${err instanceof Error ? err.message : err}`);
+    return undefined;
+  }
+}
+
+/**
+ * Build the policy for a session running in `cwd` from the built-in, daemon and repository rules.
+ * Repository allow rules are dropped unless `allowRepoAllowRules` is set in the daemon config.
+ */
+export async function loadPermissionPolicy(
+  cwd: string,
+  daemonConfig: PermissionPolicyConfig = getPermissionPolicyConfig()
+): Promise<PermissionPolicy> {
+  const root = (await getGitRootPath(cwd)) ?? cwd;
+
+  let repoRules = parsePermissionRules(readRepoPolicy(root), "repo");
+  if (!daemonConfig.allowRepoAllowRules && repoRules.some((rule) => rule.action === "allow")) {
+    console.warn(
+      `Ignoring allow rules in ${join(root, REPO_POLICY_PATH)}; set "allowRepoAllowRules" under "permissions" in ~/.openctl/config.json to apply them`
+    );
+    repoRules = repoRules.filter((rule) => rule.action !== "allow");
+  }
+
+  return new PermissionPolicy(
+    [...BUILTIN_PERMISSION_RULES, ...parsePermissionRules(daemonConfig, "daemon"), ...repoRules],
+    cwd
+  );
+}
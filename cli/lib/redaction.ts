@@ -0,0 +1,364 @@
+/**
+ * Redaction of secrets and personal data before session content leaves the machine.
+ *
+ * Applied to message content, tool inputs/results and diffs by
+ * `openctl upload`, the daemon's live streaming and spawned sessions.
+ */
+
+import type { ContentBlock, NormalizedMessage } from "../adapters/types";
+import type { RedactionConfig } from "./config";
+
+export interface RedactionRule {
+  name: string;
+  pattern: RegExp;
+  /** Replace only the last capture group (e.g. the value of KEY=value) */
+  redactGroup?: boolean;
+  /** Return false to keep a match */
+  accept?: (match: string) => boolean;
+}
+
+export interface RedactionFinding {
+  detector: string;
+  preview: string;
+}
+
+export interface RedactorOptions {
+  /** Keep a masked preview of every redaction (for --show-redactions) */
+  trackFindings?: boolean;
+}
+
+// Env-style names that hold credentials (API_KEY, DB_PASSWORD, GITHUB_TOKEN, ...)
+const SECRET_NAME = "[A-Z0-9_]*(?:SECRET|PASSWORD|PASSWD|TOKEN|API_KEY|APIKEY|ACCESS_KEY|PRIVATE_KEY|CREDENTIALS?)[A-Z0-9_]*";
+
+const HIGH_ENTROPY_MIN_LENGTH = 32;
+const HIGH_ENTROPY_THRESHOLD = 4.3;
+
+/**
+ * Built-in detectors, in the order they are applied.
+ * Specific token formats run before the generic ones so findings are labeled precisely.
+ */
+export const BUILTIN_RULES: RedactionRule[] = [
+  {
+    name: "private_key",
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  { name: "aws_access_key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: "github_token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g },
+  { name: "anthropic_api_key", pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: "openai_api_key", pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { name: "stripe_key", pattern: /\b(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{16,}/g },
+  { name: "slack_token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: "google_api_key", pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  { name: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  {
+    name: "secret_assignment",
+    pattern: new RegExp(`\\b${SECRET_NAME}["']?\\s*[=:]\\s*["']?([^\\s"'\`,;]{8,})`, "g"),
+    redactGroup: true,
+    // Leave references to other variables alone
+    accept: (value) => !/^(?:\$|process\.env|Bun\.env|os\.environ|\[REDACTED)/.test(value),
+  },
+  {
+    name: "email",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+    // git@github.com:org/repo is a remote, not an address
+    accept: (value) => !value.startsWith("git@"),
+  },
+  {
+    name: "high_entropy",
+    pattern: new RegExp(`[A-Za-z0-9+_=-]{${HIGH_ENTROPY_MIN_LENGTH},}`, "g"),
+    accept: isHighEntropySecret,
+  },
+];
+
+/**
+ * Build the active rule list from config: enabled built-ins plus user patterns.
+ * Invalid user patterns are reported and skipped.
+ */
+export function loadRedactionRules(config: RedactionConfig = {}): RedactionRule[] {
+  if (config.enabled === false) {
+    return [];
+  }
+
+  const rules = BUILTIN_RULES.filter((rule) => config.detectors?.[rule.name] !== false);
+
+  for (const custom of config.patterns ?? []) {
+    try {
+      const flags = custom.flags ?? "";
+      rules.push({
+        name: custom.name,
+        pattern: new RegExp(custom.pattern, flags.includes("g") ? flags : `${flags}g`),
+      });
+    } catch (err) {
+      console.warn(`Ignoring invalid redaction pattern "${custom.name}": ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Applies redaction rules and keeps a running count of replacements.
+ */
+export class Redactor {
+  count = 0;
+  readonly countsByDetector = new Map<string, number>();
+  readonly findings: RedactionFinding[] = [];
+
+  constructor(
+    private rules: RedactionRule[],
+    private options: RedactorOptions = {}
+  ) {}
+
+  redactText(text: string): string {
+    let result = text;
+
+    for (const rule of this.rules) {
+      rule.pattern.lastIndex = 0;
+      result = result.replace(rule.pattern, (match: string, ...args: unknown[]) => {
+        const group = rule.redactGroup ? args[0] : undefined;
+        const secret = typeof group === "string" ? group : match;
+        if (rule.accept && !rule.accept(secret)) {
+          return match;
+        }
+
+        this.record(rule.name, secret);
+        const placeholder = `[REDACTED:${rule.name}]`;
+        return secret === match ? placeholder : match.slice(0, match.length - secret.length) + placeholder;
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Redact adapter-normalized messages. Returns copies; the input is not modified.
+   */
+  redactMessages(messages: NormalizedMessage[]): NormalizedMessage[] {
+    return messages.map((msg) => ({
+      ...msg,
+      content_blocks: this.redactBlocks(msg.content_blocks),
+    }));
+  }
+
+  /**
+   * Redact content blocks (text, thinking, tool inputs and results). Returns copies.
+   */
+  redactBlocks<T extends ContentBlock>(blocks: T[]): T[] {
+    return blocks.map((block) => this.redactBlock(block) as T);
+  }
+
+  /**
+   * Redact a raw JSONL session file (Claude Code format).
+   * Only message content and tool results are rewritten; IDs, signatures
+   * and other metadata pass through untouched.
+   */
+  redactJsonl(content: string): string {
+    return content
+      .split("\n")
+      .map((line) => {
+        if (!line.trim()) return line;
+
+        let item: Record<string, unknown>;
+        try {
+          item = JSON.parse(line);
+        } catch {
+          return this.redactText(line);
+        }
+        if (!item || typeof item !== "object") return line;
+
+        const before = this.count;
+        const msg = (item.message ?? item) as Record<string, unknown>;
+        if (msg && typeof msg === "object" && "content" in msg) {
+          msg.content = this.redactContent(msg.content);
+        }
+        if ("toolUseResult" in item) {
+          item.toolUseResult = this.redactValue(item.toolUseResult);
+        }
+
+        // Keep the original line byte-for-byte when nothing matched
+        return this.count === before ? line : JSON.stringify(item);
+      })
+      .join("\n");
+  }
+
+  /**
+   * Redact a Claude Code stream-json message (spawned sessions). Like
+   * `redactJsonl`, only message content, tool results and the final result
+   * text are rewritten. Returns a copy.
+   */
+  redactStreamMessage<T extends object>(msg: T): T {
+    const item = { ...msg } as Record<string, unknown>;
+    const message = item.message as Record<string, unknown> | undefined;
+    if (message && typeof message === "object" && "content" in message) {
+      item.message = { ...message, content: this.redactContent(message.content) };
+    }
+    for (const key of ["tool_use_result", "result"]) {
+      if (key in item) {
+        item[key] = this.redactValue(item[key]);
+      }
+    }
+    return item as T;
+  }
+
+  private redactContent(content: unknown): unknown {
+    if (typeof content === "string") {
+      return this.redactText(content);
+    }
+    if (Array.isArray(content)) {
+      return content.map((block) =>
+        block && typeof block === "object" ? this.redactBlock(block as ContentBlock) : block
+      );
+    }
+    return content;
+  }
+
+  private redactBlock(block: ContentBlock): ContentBlock {
+    switch (block.type) {
+      case "text":
+        return typeof block.text === "string" ? { ...block, text: this.redactText(block.text) } : block;
+      case "thinking":
+        return typeof block.thinking === "string"
+          ? { ...block, thinking: this.redactText(block.thinking) }
+          : block;
+      case "tool_use": {
+        const redacted: ContentBlock = { ...block, input: this.redactValue(block.input) };
+        if (block.result !== undefined) {
+          redacted.result = this.redactValue(block.result);
+        }
+        return redacted;
+      }
+      case "tool_result":
+        return { ...block, content: this.redactContent(block.content) };
+      default:
+        // Images and unknown block types carry no text to scan
+        return block;
+    }
+  }
+
+  /**
+   * Redact every string inside a JSON value (tool inputs, structured results).
+   */
+  redactValue(value: unknown): unknown {
+    if (typeof value === "string") {
+      return this.redactText(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item));
+    }
+    if (value && typeof value === "object") {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = this.redactValue(item);
+      }
+      return result;
+    }
+    return value;
+  }
+
+  private record(detector: string, secret: string): void {
+    this.count++;
+    this.countsByDetector.set(detector, (this.countsByDetector.get(detector) ?? 0) + 1);
+    if (this.options.trackFindings) {
+      this.findings.push({ detector, preview: maskSecret(secret) });
+    }
+  }
+}
+
+// Longest secret expected to arrive split across chunks of streamed text
+const STREAM_HOLDBACK_CHARS = 256;
+
+const PRIVATE_KEY_END = /-----END [A-Z ]*PRIVATE KEY-----/;
+
+/**
+ * Holds back the tail of text that arrives in chunks (live output deltas), so
+ * a secret split across two chunks is redacted as a whole. Text is released
+ * up to a line break (or other whitespace) at least STREAM_HOLDBACK_CHARS from
+ * the end, and never from inside an unterminated private key block. Each
+ * stream (e.g. a content block) has its own key.
+ */
+export class StreamTextBuffer {
+  private pending = new Map<string, string>();
+
+  /**
+   * Add a chunk to a stream. Returns the text that is safe to redact and send,
+   * which may be empty.
+   */
+  push(key: string, text: string): string {
+    const buffered = (this.pending.get(key) ?? "") + text;
+    const cut = safeCut(buffered);
+    this.pending.set(key, buffered.slice(cut));
+    return buffered.slice(0, cut);
+  }
+
+  /**
+   * Release whatever is held for a stream that is complete.
+   */
+  flush(key: string): string {
+    const rest = this.pending.get(key) ?? "";
+    this.pending.delete(key);
+    return rest;
+  }
+
+  /** Streams with text held back */
+  keys(): string[] {
+    return Array.from(this.pending.keys());
+  }
+
+  clear(): void {
+    this.pending.clear();
+  }
+}
+
+function safeCut(text: string): number {
+  const limit = text.length - STREAM_HOLDBACK_CHARS;
+  if (limit <= 0) return 0;
+
+  let cut = text.lastIndexOf("\n", limit - 1) + 1;
+  if (cut === 0) {
+    const space = text.slice(0, limit).search(/\s\S*$/);
+    cut = space + 1;
+  }
+
+  const keyStart = text.lastIndexOf("-----BEGIN", cut - 1);
+  if (keyStart !== -1 && !PRIVATE_KEY_END.test(text.slice(keyStart, cut))) {
+    cut = keyStart;
+  }
+  return cut;
+}
+
+/**
+ * Show just enough of a redacted value to recognize it.
+ */
+export function maskSecret(secret: string): string {
+  const flat = secret.replace(/\s+/g, " ");
+  const visible = flat.length > 12 ? 4 : 1;
+  return `${flat.slice(0, visible)}${"*".repeat(Math.min(flat.length - visible, 8))} (${secret.length} chars)`;
+}
+
+/**
+ * Shannon entropy in bits per character.
+ */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Random-looking tokens mix upper case, lower case and digits.
+ * Hex digests and UUIDs (no upper case) and identifiers (low entropy) are kept,
+ * as are lockfile integrity hashes.
+ */
+function isHighEntropySecret(value: string): boolean {
+  if (/^sha(?:1|256|384|512)-/.test(value)) return false;
+  if (!/[A-Z]/.test(value) || !/[a-z]/.test(value) || !/[0-9]/.test(value)) return false;
+  return shannonEntropy(value) >= HIGH_ENTROPY_THRESHOLD;
+}
@@ -0,0 +1,123 @@
+/**
+ * Code review generation with the Claude CLI.
+ *
+ * Used by `openctl upload --review` and by the daemon when a review is
+ * requested from the web UI (run_review).
+ */
+
+import { createHash } from "crypto";
+
+export interface ReviewAnnotation {
+  filename: string;
+  line_number: number;
+  side: "additions" | "deletions";
+  annotation_type: "suggestion" | "issue" | "praise" | "question";
+  content: string;
+}
+
+export interface ReviewOutput {
+  summary: string;
+  model: string;
+  /** Identifies the prompt and schema the review was generated with */
+  prompt_hash: string;
+  annotations: ReviewAnnotation[];
+}
+
+// JSON schema for review output
+const reviewSchema = JSON.stringify({
+  type: "object",
+  properties: {
+    summary: { type: "string", description: "2-3 sentence summary of the review findings" },
+    annotations: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          filename: { type: "string", description: "File path from diff header" },
+          line_number: { type: "number", description: "Line number in the new file" },
+          side: { enum: ["additions", "deletions"], description: "Which side of the diff" },
+          annotation_type: { enum: ["issue", "suggestion"], description: "Type of finding" },
+          content: { type: "string", description: "Concise description of the issue" },
+        },
+        required: ["filename", "line_number", "side", "annotation_type", "content"],
+      },
+    },
+  },
+  required: ["summary", "annotations"],
+});
+
+const reviewPrompt = `You are a code reviewer. Review the diff using a parallel strategy:
+
+## Review Strategy
+
+Launch 3 parallel review passes, each with a different focus:
+
+1. **Defects** - Logic errors, boundary conditions, null/undefined handling, missing validation, error handling gaps, edge cases
+2. **Security** - Injection risks, authentication/authorization issues, exposed secrets, unsafe operations
+3. **Architecture** - Pattern violations, unnecessary complexity, performance issues (N+1 queries, quadratic algorithms on unbounded data)
+
+Aggregate findings by: deduplicating similar issues, ranking by severity, keeping only issues with realistic impact.
+
+## Review Standards
+
+- **Be certain** - Don't speculate about bugs; verify before flagging
+- **Be realistic** - Only raise edge cases with plausible scenarios
+- **Stay focused** - Only review modified code, not pre-existing issues
+- **Skip style** - No nitpicks on formatting or preferences
+- **Be direct** - Factual tone, specific file/line references, actionable suggestions
+
+Return a summary and annotations for significant findings only.`;
+
+const promptHash = createHash("sha256").update(reviewPrompt).update(reviewSchema).digest("hex").slice(0, 16);
+
+export interface RunReviewOptions {
+  /** Kill the Claude CLI if it runs longer than this */
+  timeoutMs?: number;
+}
+
+/**
+ * Review a unified diff with `claude -p`. Throws when the CLI fails or its
+ * output can't be parsed.
+ */
+export async function runReview(diffContent: string, options: RunReviewOptions = {}): Promise<ReviewOutput> {
+  const prompt = `${reviewPrompt}
+
+<diff>
+${diffContent}
+</diff>`;
+
+  // Use Bun.spawn for better control over argument passing
+  const proc = Bun.spawn([
+    "claude",
+    "-p", prompt,
+    "--output-format", "json",
+    "--json-schema", reviewSchema,
+  ], {
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+
+  const timer = options.timeoutMs ? setTimeout(() => proc.kill(), options.timeoutMs) : null;
+  try {
+    const output = await new Response(proc.stdout).text();
+    const stderr = await new Response(proc.stderr).text();
+    const exitCode = await proc.exited;
+
+    if (proc.signalCode) {
+      throw new Error("Review timed out");
+    }
+    if (exitCode !== 0) {
+      throw new Error(`Claude CLI error: ${(stderr || output).trim()}`);
+    }
+
+    const reviewResult = JSON.parse(output) as { summary: string; annotations: ReviewAnnotation[] };
+    return {
+      summary: reviewResult.summary,
+      model: "claude",
+      prompt_hash: promptHash,
+      annotations: reviewResult.annotations,
+    };
+  } finally {
+    if (timer) clearTimeout(timer);
+  }
+}
@@ -7,8 +7,9 @@
 
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
 import { readdir, stat } from "fs/promises";
-import { dirname, join } from "path";
+import { basename, dirname, join } from "path";
 import * as readline from "readline";
+import type { HarnessAdapter } from "../adapters/types";
 
 const SHARED_SESSIONS_PATH = join(Bun.env.HOME || "~", ".openctl", "shared-sessions.json");
 
@@ -350,6 +351,81 @@ function decodeProjectPath(encoded: string): string {
   return "/" + encoded.replace(/-/g, "/").replace(/\/+/g, "/");
 }
 
+/**
+ * List session files for a harness adapter (newest first).
+ * Walks the adapter's watch paths and keeps files the adapter can handle.
+ */
+export async function listAdapterSessionFiles(adapter: HarnessAdapter): Promise<string[]> {
+  const files: Array<{ filePath: string; mtime: number }> = [];
+  for (const watchPath of adapter.getWatchPaths()) {
+    await collectAdapterSessionFiles(adapter, watchPath, files);
+  }
+  files.sort((a, b) => b.mtime - a.mtime);
+  return files.map((f) => f.filePath);
+}
+
+async function collectAdapterSessionFiles(
+  adapter: HarnessAdapter,
+  dir: string,
+  files: Array<{ filePath: string; mtime: number }>
+): Promise<void> {
+  try {
+    const entries = await readdir(dir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        await collectAdapterSessionFiles(adapter, fullPath, files);
+      } else if (entry.isFile() && adapter.canHandle(fullPath)) {
+        const fileStat = await stat(fullPath);
+        files.push({ filePath: fullPath, mtime: fileStat.mtimeMs });
+      }
+    }
+  } catch {
+    // Ignore read errors (e.g., missing watch path, permission issues)
+  }
+}
+
+/**
+ * Find the latest session for a project using a harness adapter.
+ * Used for harnesses that don't encode the project path in the session file path.
+ */
+export async function findLatestAdapterSession(
+  adapter: HarnessAdapter,
+  projectPath: string
+): Promise<{ uuid: string; filePath: string } | null> {
+  const projectSession = adapter.findProjectSession?.(projectPath);
+  if (projectSession) {
+    const info = adapter.getSessionInfo(projectSession);
+    return { uuid: info.harnessSessionId ?? basename(projectSession), filePath: projectSession };
+  }
+
+  for (const filePath of await listAdapterSessionFiles(adapter)) {
+    const info = adapter.getSessionInfo(filePath);
+    if (info.projectPath === projectPath) {
+      return { uuid: info.harnessSessionId ?? basename(filePath), filePath };
+    }
+  }
+  return null;
+}
+
+/**
+ * Find a session file by its harness session ID using a harness adapter.
+ * Matches on file name, which includes the session ID for supported harnesses.
+ */
+export async function findAdapterSessionById(
+  adapter: HarnessAdapter,
+  sessionId: string
+): Promise<string | null> {
+  for (const filePath of await listAdapterSessionFiles(adapter)) {
+    if (basename(filePath).includes(sessionId)) {
+      return filePath;
+    }
+  }
+  return null;
+}
+
 /**
  * Information about a local session file.
  */
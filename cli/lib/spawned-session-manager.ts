@@ -13,14 +13,19 @@
 
 import { existsSync, statSync } from "fs";
 import type {
+  ActiveSpawnedSession,
   StartSessionMessage,
   StreamJsonMessage,
   DaemonToServerMessage,
   ContentBlock,
+  OutputDelta,
   PermissionResult,
 } from "../types/daemon-ws";
 import { notifySessionStarted } from "./notifications";
-import { captureGitDiff, getRepoHttpsUrl, getCurrentBranch } from "./git";
+import { captureGitChanges, getHeadSha, getRepoHttpsUrl, getCurrentBranch } from "./git";
+import { describeRule, loadPermissionPolicy, type PermissionPolicy } from "./permission-policy";
+import { getRedactionConfig } from "./config";
+import { loadRedactionRules, Redactor, StreamTextBuffer, type RedactionRule } from "./redaction";
 
 /** Debounce delay for diff capture (ms) */
 const DIFF_DEBOUNCE_MS = 2000;
@@ -71,6 +76,22 @@ interface ControlRequest {
   blocked_path?: string;
   decision_reason?: string;
   agent_id?: string;
+  /** `input` as relayed to the server, after redaction */
+  relayed_input?: Record<string, unknown>;
+}
+
+/**
+ * Partial message event from --include-partial-messages (a raw Anthropic API stream event)
+ */
+interface StreamEvent {
+  type: "stream_event";
+  parent_tool_use_id?: string | null;
+  event: {
+    type: string;
+    index?: number;
+    message?: { id?: string };
+    delta?: { type: string; text?: string; thinking?: string };
+  };
 }
 
 // FileSink type from Bun - stdin when using "pipe"
@@ -92,13 +113,18 @@ interface SpawnedSession {
   pendingPermissionId?: string; // For permission relay
   permissionRequests: Map<string, PermissionRequest>; // Track permission requests by ID
   controlRequests: Map<string, ControlRequest>; // Track SDK control requests by request_id
+  permissionPolicy: PermissionPolicy | null; // Decides control requests locally in "auto-safe" mode
   outputBuffer: string; // Buffer for incomplete NDJSON lines
   outputHistory: StreamJsonMessage[]; // All messages for replay
+  streamingMessageId?: string; // Assistant message currently being streamed
+  deltaBuffer: StreamTextBuffer; // Streamed text held back until redaction can see whole secrets
   maxHistorySize: number;
   // Files explicitly modified by this session (for filtering untracked files in diff)
   modifiedFiles: Set<string>;
   // Timer for debounced diff capture
   diffDebounceTimer: ReturnType<typeof setTimeout> | null;
+  // HEAD when the session started; diffs are taken against it so commits stay visible
+  baseSha: string | null;
 }
 
 interface SessionInfo {
@@ -115,9 +141,12 @@ type SendToServer = (message: DaemonToServerMessage) => void;
 export class SpawnedSessionManager {
   private sessions = new Map<string, SpawnedSession>();
   private sendToServer: SendToServer;
+  // Output, deltas and diffs are redacted before they leave the machine
+  private redactor: Redactor;
 
-  constructor(sendToServer: SendToServer) {
+  constructor(sendToServer: SendToServer, redactionRules: RedactionRule[] = loadRedactionRules(getRedactionConfig())) {
     this.sendToServer = sendToServer;
+    this.redactor = new Redactor(redactionRules);
   }
 
   async startSession(request: StartSessionMessage): Promise<void> {
@@ -165,6 +194,11 @@ export class SpawnedSessionManager {
     console.log(`[spawner] Using claude at: ${claudePath}`);
 
     try {
+      // Load before spawning so the first control request is already covered
+      const permissionPolicy =
+        request.permission_mode === "auto-safe" ? await loadPermissionPolicy(cwd) : null;
+      const baseSha = await getHeadSha(cwd);
+
       const proc = Bun.spawn(["claude", ...args], {
         cwd,
         env: { ...process.env },
@@ -204,11 +238,14 @@ export class SpawnedSessionManager {
         stdin, // Store FileSink directly
         permissionRequests: new Map(),
         controlRequests: new Map(),
+        permissionPolicy,
         outputBuffer: "",
         outputHistory: [],
+        deltaBuffer: new StreamTextBuffer(),
         maxHistorySize: 1000,
         modifiedFiles: new Set(),
         diffDebounceTimer: null,
+        baseSha,
       };
 
       this.sessions.set(request.session_id, session);
@@ -249,14 +286,14 @@ export class SpawnedSessionManager {
       console.log(`[spawner] Initial prompt sent to session ${request.session_id}`);
 
       // Echo the initial prompt to the server so it appears in the UI
-      const userMessage: StreamJsonMessage = {
+      const userMessage = this.redactor.redactStreamMessage<StreamJsonMessage>({
         type: "user",
         message: {
           id: `user-${Date.now()}`,
           role: "user",
           content: [{ type: "text", text: request.prompt }],
         },
-      };
+      });
       this.recordMessage(session, userMessage);
       this.sendToServer({
         type: "session_output",
@@ -293,6 +330,8 @@ export class SpawnedSessionManager {
       "--input-format",
       "stream-json",
       "--verbose",
+      // Stream assistant text as it is generated (forwarded as session_output_delta)
+      "--include-partial-messages",
     ];
 
     if (request.model) {
@@ -305,8 +344,8 @@ export class SpawnedSessionManager {
 
     // Permission handling
     if (request.permission_mode === "relay" || request.permission_mode === "auto-safe") {
-      // Both "relay" and "auto-safe" use the stdio permission tool
-      // The difference is handled in the permission response logic
+      // Both "relay" and "auto-safe" use the stdio permission tool;
+      // "auto-safe" decides some control requests locally (see handleControlRequest)
       args.push("--permission-prompt-tool", "stdio");
     } else if (request.permission_mode === "auto") {
       args.push("--dangerously-skip-permissions");
@@ -382,13 +421,22 @@ export class SpawnedSessionManager {
         session.outputBuffer = lines.pop() || "";
 
         const messages: StreamJsonMessage[] = [];
+        const deltas: OutputDelta[] = [];
 
         for (const line of lines) {
           if (!line.trim()) continue;
 
           try {
             const msg = JSON.parse(line) as StreamJsonMessage;
-            messages.push(msg);
+
+            // Partial message events only feed the live preview; they aren't part of the transcript
+            if ((msg as { type: string }).type === "stream_event") {
+              this.collectDelta(session, msg as unknown as StreamEvent, deltas);
+              continue;
+            }
+
+            const redacted = this.redactor.redactStreamMessage(msg);
+            messages.push(redacted);
 
             // Log the first few messages for debugging
             if (session.outputHistory.length < 5) {
@@ -396,15 +444,18 @@ export class SpawnedSessionManager {
             }
 
             // Record message for history
-            this.recordMessage(session, msg);
+            this.recordMessage(session, redacted);
 
-            // Process special messages
+            // Process special messages (locally, so tool inputs are seen unredacted)
             this.processStreamMessage(session, msg);
           } catch (parseError) {
             console.error(`[spawner] Failed to parse line:`, line.substring(0, 200), parseError);
           }
         }
 
+        // Deltas go first: complete messages in the same chunk replace them
+        this.flushDeltas(session, deltas);
+
         if (messages.length > 0) {
           console.log(`[spawner] Sending ${messages.length} messages to server for session ${session.id}`);
           this.sendToServer({
@@ -504,8 +555,8 @@ export class SpawnedSessionManager {
               type: "question_prompt",
               session_id: session.id,
               tool_use_id: block.id!,
-              question: input?.question || "",
-              options: input?.options,
+              question: this.redactor.redactText(input?.question || ""),
+              options: input?.options?.map((option) => this.redactor.redactText(option)),
             });
           }
         }
@@ -556,12 +607,12 @@ export class SpawnedSessionManager {
       session_id: session.id,
       request_id: requestId,
       tool: request.tool,
-      description: request.description,
-      details: {
+      description: this.redactor.redactText(request.description),
+      details: this.redactor.redactValue({
         command: request.command,
         file_path: request.file_path,
         content: request.content ? request.content.slice(0, 500) : undefined, // Preview only
-      },
+      }) as Record<string, unknown>,
     });
   }
 
@@ -585,6 +636,11 @@ export class SpawnedSessionManager {
         return `Write to file: ${(msg.file_path as string) || "unknown"}`;
       case "edit":
         return `Edit file: ${(msg.file_path as string) || "unknown"}`;
+      case "read":
+        return `Read file: ${(msg.file_path as string) || "unknown"}`;
+      case "glob":
+      case "grep":
+        return `Search files: ${(msg.pattern as string) || "unknown"}`;
       case "mcp":
         return `Use MCP tool: ${(msg.tool_name as string) || "unknown"}`;
       default:
@@ -592,6 +648,63 @@ export class SpawnedSessionManager {
     }
   }
 
+  /**
+   * Add the text from a partial message event to `deltas`. Subagent (Task)
+   * output is not streamed.
+   */
+  private collectDelta(session: SpawnedSession, msg: StreamEvent, deltas: OutputDelta[]): void {
+    if (msg.parent_tool_use_id) return;
+
+    const event = msg.event;
+    if (event.type === "message_start") {
+      this.flushDeltas(session, deltas);
+      // Whatever was held back is in the complete message, which replaces the preview
+      session.deltaBuffer.clear();
+      session.streamingMessageId = event.message?.id;
+      return;
+    }
+    if (event.type === "content_block_stop" && event.index !== undefined) {
+      for (const blockType of ["text", "thinking"] as const) {
+        this.appendDelta(deltas, event.index, blockType, session.deltaBuffer.flush(`${event.index}:${blockType}`));
+      }
+      return;
+    }
+    if (event.type !== "content_block_delta" || event.index === undefined || !event.delta) return;
+
+    const delta = event.delta;
+    const blockType = delta.type === "text_delta" ? "text" : delta.type === "thinking_delta" ? "thinking" : null;
+    const text = delta.type === "text_delta" ? delta.text : delta.thinking;
+    if (!blockType || !text) return;
+
+    // Hold back the end of the block so a secret split across events is redacted whole
+    this.appendDelta(deltas, event.index, blockType, session.deltaBuffer.push(`${event.index}:${blockType}`, text));
+  }
+
+  /**
+   * Append text to `deltas`, merging consecutive deltas for the same block.
+   */
+  private appendDelta(deltas: OutputDelta[], index: number, blockType: OutputDelta["block_type"], text: string): void {
+    if (!text) return;
+    const last = deltas[deltas.length - 1];
+    if (last && last.index === index && last.block_type === blockType) {
+      last.text += text;
+    } else {
+      deltas.push({ index, block_type: blockType, text });
+    }
+  }
+
+  private flushDeltas(session: SpawnedSession, deltas: OutputDelta[]): void {
+    if (deltas.length > 0 && session.streamingMessageId) {
+      this.sendToServer({
+        type: "session_output_delta",
+        session_id: session.id,
+        message_id: session.streamingMessageId,
+        deltas: deltas.splice(0).map((delta) => ({ ...delta, text: this.redactor.redactText(delta.text) })),
+      });
+    }
+    deltas.length = 0;
+  }
+
   private recordMessage(
     session: SpawnedSession,
     msg: StreamJsonMessage
@@ -631,7 +744,7 @@ export class SpawnedSessionManager {
       console.log(`[spawner] Sent input to session ${sessionId}${userId ? ` from user ${userId}` : ""}`);
 
       // Echo the user message back to the server so it appears in the UI
-      const userMessage: StreamJsonMessage = {
+      const userMessage = this.redactor.redactStreamMessage<StreamJsonMessage>({
         type: "user",
         message: {
           id: `user-${Date.now()}`,
@@ -639,7 +752,7 @@ export class SpawnedSessionManager {
           content: [{ type: "text", text: content }],
         },
         user_id: userId, // Track which user sent this message
-      };
+      });
       this.recordMessage(session, userMessage);
       this.sendToServer({
         type: "session_output",
@@ -809,10 +922,15 @@ export class SpawnedSessionManager {
       blocked_path: request.blocked_path,
       decision_reason: request.decision_reason,
       agent_id: request.agent_id,
+      relayed_input: this.redactor.redactValue(request.input) as Record<string, unknown>,
     };
 
     session.controlRequests.set(request_id, controlRequest);
 
+    if (session.permissionPolicy && this.applyPermissionPolicy(session, session.permissionPolicy, controlRequest)) {
+      return;
+    }
+
     console.log(
       `[spawner] Control request ${request_id} for tool ${request.tool_name}: ${request.decision_reason || "requires approval"}`
     );
@@ -825,16 +943,54 @@ export class SpawnedSessionManager {
       request: {
         subtype: "can_use_tool",
         tool_name: request.tool_name,
-        input: request.input,
+        input: controlRequest.relayed_input!,
         tool_use_id: request.tool_use_id,
         permission_suggestions: request.permission_suggestions,
         blocked_path: request.blocked_path,
-        decision_reason: request.decision_reason,
+        decision_reason: request.decision_reason && this.redactor.redactText(request.decision_reason),
         agent_id: request.agent_id,
       },
     });
   }
 
+  /**
+   * Answer a control request from the session's permission policy.
+   * Returns false when the policy defers to the user (ask, or no matching rule).
+   */
+  private applyPermissionPolicy(
+    session: SpawnedSession,
+    policy: PermissionPolicy,
+    request: ControlRequest
+  ): boolean {
+    const { action, rule } = policy.evaluate(request.tool_name, request.input);
+    if (!rule || action === "ask") return false;
+
+    const ruleDescription = describeRule(rule);
+    console.log(
+      `[spawner] Control request ${request.request_id} for tool ${request.tool_name}: ${action} by policy (${ruleDescription})`
+    );
+
+    this.respondToControlRequest(
+      session.id,
+      request.request_id,
+      action === "allow"
+        ? { behavior: "allow", updatedInput: request.input }
+        : { behavior: "deny", message: `Denied by permission policy (${ruleDescription})` }
+    );
+
+    this.sendToServer({
+      type: "permission_policy_decision",
+      session_id: session.id,
+      request_id: request.request_id,
+      tool_name: request.tool_name,
+      tool_use_id: request.tool_use_id,
+      description: this.redactor.redactText(this.formatPermissionDescription({ tool: request.tool_name, ...request.input })),
+      decision: action === "allow" ? "allowed" : "denied",
+      rule: ruleDescription,
+    });
+    return true;
+  }
+
   /**
    * Respond to a control request.
    * Sends the response to Claude's stdin in the SDK format.
@@ -858,13 +1014,21 @@ export class SpawnedSessionManager {
       return;
     }
 
+    // An allow that echoes the redacted input back runs the tool with the real input
+    const answer =
+      result.behavior === "allow" &&
+      request.relayed_input &&
+      JSON.stringify(result.updatedInput) === JSON.stringify(request.relayed_input)
+        ? { ...result, updatedInput: request.input }
+        : result;
+
     // Format the control response for Claude's stdin (exact SDK format)
     const response = JSON.stringify({
       type: "control_response",
       response: {
         subtype: "success",
         request_id: requestId,
-        response: result,
+        response: answer,
       },
     }) + "\n";
 
@@ -931,6 +1095,18 @@ export class SpawnedSessionManager {
     }));
   }
 
+  /**
+   * Sessions to re-announce in daemon_connected, so the server can reattach them.
+   */
+  getActiveSessionAnnouncements(): ActiveSpawnedSession[] {
+    return this.getActiveSessions().map((session) => ({
+      session_id: session.id,
+      claude_session_id: session.claudeSessionId,
+      cwd: session.cwd,
+      state: session.state as ActiveSpawnedSession["state"],
+    }));
+  }
+
   /**
    * Get session output history for replay on reconnection.
    */
@@ -1095,23 +1271,29 @@ export class SpawnedSessionManager {
     }
 
     try {
-      const diff = await captureGitDiff(session.cwd, {
+      const changes = await captureGitChanges(session.cwd, {
         allowedUntrackedFiles: session.modifiedFiles,
+        baseSha: session.baseSha,
       });
 
-      if (!diff) {
+      if (!changes?.diff) {
         console.log("[spawner] No diff to capture (not a git repo or no changes)");
         return;
       }
 
-      console.log(`[spawner] Capturing diff (${diff.length} chars) for session ${session.id}`);
+      console.log(
+        `[spawner] Capturing diff (${changes.diff.length} chars, ${changes.commits.length} commits) for session ${session.id}`
+      );
 
       // Send diff to server
       this.sendToServer({
         type: "session_diff",
         session_id: session.id,
-        diff,
+        diff: this.redactor.redactText(changes.diff),
         modified_files: Array.from(session.modifiedFiles),
+        base_sha: changes.baseSha,
+        head_sha: changes.headSha,
+        commits: changes.commits.map((commit) => ({ ...commit, message: this.redactor.redactText(commit.message) })),
       });
     } catch (error) {
       console.error(`[spawner] Failed to capture diff:`, error);
@@ -17,7 +17,18 @@ export interface DaemonConnectedMessage {
   capabilities: {
     can_spawn_sessions: boolean;
     spawnable_harnesses: SpawnableHarnessInfo[];
+    /** Whether the daemon can run code reviews (run_review); omitted by older daemons */
+    can_run_reviews?: boolean;
   };
+  /** Sessions still running on the daemon, so the server can reattach them after a reconnect or restart */
+  active_sessions?: ActiveSpawnedSession[];
+}
+
+export interface ActiveSpawnedSession {
+  session_id: string;
+  claude_session_id?: string;
+  cwd: string;
+  state: "starting" | "running" | "waiting" | "ending";
 }
 
 export interface SpawnableHarnessInfo {
@@ -35,6 +46,26 @@ export interface SessionOutputMessage {
   messages: StreamJsonMessage[];
 }
 
+/**
+ * Text streamed for an assistant message that hasn't finished yet
+ * (from Claude Code's --include-partial-messages stream events).
+ * The complete message still arrives as session_output and replaces it.
+ */
+export interface SessionOutputDeltaMessage {
+  type: "session_output_delta";
+  session_id: string;
+  message_id: string;
+  deltas: OutputDelta[];
+}
+
+export interface OutputDelta {
+  /** Content block index within the message */
+  index: number;
+  block_type: "text" | "thinking";
+  /** Text to append to the block */
+  text: string;
+}
+
 export interface SessionEndedMessage {
   type: "session_ended";
   session_id: string;
@@ -104,12 +135,30 @@ export interface ControlResponseMessage {
       };
 }
 
+/** A control request the daemon's permission policy decided without relaying it */
+export interface PermissionPolicyDecisionMessage {
+  type: "permission_policy_decision";
+  session_id: string;
+  request_id: string;
+  tool_name: string;
+  tool_use_id: string;
+  description: string;
+  decision: "allowed" | "denied";
+  /** The deciding rule, e.g. `repo: allow Bash "bun test*"` */
+  rule: string;
+}
+
 export interface SessionDiffMessage {
   type: "session_diff";
   session_id: string;
   diff: string;
   /** Files modified by the session (for relevance filtering) */
   modified_files: string[];
+  /** Commit the diff is taken against (HEAD when the session started) */
+  base_sha?: string;
+  head_sha?: string;
+  /** Commits made since base_sha, oldest first */
+  commits?: Array<{ sha: string; message: string; author: string | null; committed_at: string | null }>;
 }
 
 /**
@@ -129,15 +178,48 @@ export interface SessionMetadataMessage {
   branch?: string;
 }
 
+/** A review requested with run_review has started */
+export interface ReviewProgressMessage {
+  type: "review_progress";
+  session_id: string;
+  request_id: string;
+  stage: "running";
+}
+
+/** Outcome of a run_review request: the review, or why it failed */
+export interface ReviewResultMessage {
+  type: "review_result";
+  session_id: string;
+  request_id: string;
+  review?: {
+    summary: string;
+    model: string;
+    /** Hash of the review prompt; omitted by older daemons */
+    prompt_hash?: string;
+    annotations: Array<{
+      filename: string;
+      line_number: number;
+      side: "additions" | "deletions";
+      annotation_type: "suggestion" | "issue" | "praise" | "question";
+      content: string;
+    }>;
+  };
+  error?: string;
+}
+
 export type DaemonToServerMessage =
   | DaemonConnectedMessage
   | SessionOutputMessage
+  | SessionOutputDeltaMessage
   | SessionEndedMessage
   | PermissionPromptMessage
   | QuestionPromptMessage
   | SessionDiffMessage
   | SessionMetadataMessage
-  | ControlRequestMessage;
+  | ControlRequestMessage
+  | PermissionPolicyDecisionMessage
+  | ReviewProgressMessage
+  | ReviewResultMessage;
 
 // ============================================
 // Server -> Daemon Messages
@@ -185,6 +267,15 @@ export interface QuestionResponseMessage {
   answer: string;
 }
 
+/** Review a session's stored diff (requested from the web UI) */
+export interface RunReviewMessage {
+  type: "run_review";
+  session_id: string;
+  request_id: string;
+  /** Unified diff to review */
+  diff: string;
+}
+
 export type ServerToDaemonMessage =
   | StartSessionMessage
   | SendInputMessage
@@ -192,7 +283,8 @@ export type ServerToDaemonMessage =
   | InterruptSessionMessage
   | PermissionResponseMessage
   | QuestionResponseMessage
-  | ControlResponseMessage;
+  | ControlResponseMessage
+  | RunReviewMessage;
 
 // ============================================
 // Stream JSON types (from Claude Code output)
@@ -223,6 +315,7 @@ export interface StreamJsonMessage {
 export interface ContentBlock {
   type: "text" | "tool_use" | "tool_result" | "thinking";
   text?: string;
+  thinking?: string;
   id?: string;
   name?: string;
   input?: Record<string, unknown>;
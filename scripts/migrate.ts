@@ -0,0 +1,85 @@
+#!/usr/bin/env bun
+/**
+ * Inspect or apply schema migrations.
+ *
+ * Usage:
+ *   bun run migrate status  # List applied and pending migrations
+ *   bun run migrate up      # Apply pending migrations
+ *
+ * Uses DATABASE_URL (Postgres) if set, otherwise DATABASE_PATH (default:
+ * data/sessions.db). The server also applies pending migrations on startup.
+ */
+
+import { openDatabase } from "../src/db/schema";
+import {
+  getMigrationStatus,
+  getPostgresMigrationStatus,
+  runMigrations,
+  runPostgresMigrations,
+  type MigrationStatus,
+} from "../src/db/migrate";
+import { connectPostgres } from "../src/db/postgres-driver";
+
+const command = process.argv[2] ?? "status";
+const databaseUrl = process.env.DATABASE_URL;
+const dbPath = process.env.DATABASE_PATH || "data/sessions.db";
+
+if (command !== "status" && command !== "up") {
+  console.error(`Unknown command: ${command}`);
+  console.error("Usage: bun run migrate <status|up>");
+  process.exit(1);
+}
+
+interface MigrationTarget {
+  label: string;
+  status(): Promise<MigrationStatus[]>;
+  up(): Promise<Array<{ version: number; name: string }>>;
+  close(): Promise<void>;
+}
+
+function openTarget(): MigrationTarget {
+  if (databaseUrl) {
+    const driver = connectPostgres(databaseUrl);
+    return {
+      label: new URL(databaseUrl).host,
+      status: () => getPostgresMigrationStatus(driver),
+      up: () => runPostgresMigrations(driver),
+      close: () => driver.close(),
+    };
+  }
+
+  const db = openDatabase(dbPath);
+  return {
+    label: dbPath,
+    status: async () => getMigrationStatus(db),
+    up: async () => runMigrations(db),
+    close: async () => db.close(),
+  };
+}
+
+const target = openTarget();
+
+try {
+  if (command === "up") {
+    const applied = await target.up();
+    if (applied.length === 0) {
+      console.log(`${target.label} is up to date`);
+    }
+    for (const migration of applied) {
+      console.log(`Applied ${String(migration.version).padStart(3, "0")} ${migration.name}`);
+    }
+  } else {
+    const status = await target.status();
+    const pending = status.filter((m) => !m.applied_at).length;
+    console.log(`${target.label}: ${status.length - pending} applied, ${pending} pending\n`);
+    for (const m of status) {
+      const version = String(m.version).padStart(3, "0");
+      console.log(`  ${version} ${m.name.padEnd(24)} ${m.applied_at ?? "pending"}`);
+    }
+  }
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+} finally {
+  await target.close();
+}
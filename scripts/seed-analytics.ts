@@ -30,7 +30,7 @@ function rand(min: number, max: number): number {
 }
 
 // Seed daily stats
-function seedDailyStats() {
+async function seedDailyStats() {
   const dates = getRecentDates(14);
 
   const statTypes: Array<{ type: StatType; minVal: number; maxVal: number }> = [
@@ -66,7 +66,7 @@ function seedDailyStats() {
     for (const stat of statTypes) {
       const value = Math.round(rand(stat.minVal, stat.maxVal) * weekendFactor);
       if (value > 0) {
-        repo.incrementDailyStat(stat.type, { date, value });
+        await repo.incrementDailyStat(stat.type, { date, value });
       }
     }
 
@@ -75,7 +75,7 @@ function seedDailyStats() {
       const baseValue = rand(5, 30) * tool.weight;
       const value = Math.round(baseValue * weekendFactor);
       if (value > 0) {
-        repo.incrementDailyStat(`tool_${tool.name.toLowerCase()}` as StatType, { date, value });
+        await repo.incrementDailyStat(`tool_${tool.name.toLowerCase()}` as StatType, { date, value });
       }
     }
   }
@@ -86,7 +86,7 @@ function seedDailyStats() {
 // Run seeding
 console.log("Starting analytics data seeding...\n");
 
-seedDailyStats();
+await seedDailyStats();
 
 console.log("\nDone! Visit /stats to see the dashboard.");
 
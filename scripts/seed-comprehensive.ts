@@ -507,7 +507,7 @@ async function main() {
   const { session, messages, diffs } = createComprehensiveSession();
 
   try {
-    repo.createSessionWithDataAndReview(session, messages, diffs, undefined);
+    await repo.createSessionWithDataAndReview(session, messages, diffs, undefined);
     console.log(`Created session: ${session.id}`);
     console.log(`  - ${messages.length} messages`);
     console.log(`  - ${diffs.length} diffs`);
@@ -48,7 +48,7 @@ console.log("Seeding session sharing test data...\n");
 
 for (const session of sessions) {
   // Create session
-  const createdSession = repo.createSession({
+  const createdSession = await repo.createSession({
     id: session.id,
     title: session.title,
     description: session.description,
@@ -92,13 +92,13 @@ for (const session of sessions) {
     },
   ];
 
-  repo.addMessagesWithIndices(session.id, messages);
+  await repo.addMessagesWithIndices(session.id, messages);
   console.log(`  Added ${messages.length} messages`);
 
   // Add collaborators
   for (const collab of session.collaborators) {
     try {
-      repo.addCollaboratorWithAudit(
+      await repo.addCollaboratorWithAudit(
         session.id,
         collab.email,
         collab.role,
@@ -257,10 +257,14 @@ function generateSession(
     interactive: status === "live",
     remote: false,
     visibility: "public",
+    org_id: null,
+    base_sha: null,
+    head_sha: null,
     input_tokens: inputTokens,
     output_tokens: outputTokens,
     cache_read_tokens: cacheReadTokens,
     cache_creation_tokens: cacheCreationTokens,
+    redaction_count: 0,
   };
 
   // Generate messages
@@ -438,10 +442,14 @@ function generateRichSession(): {
     interactive: false,
     remote: false,
     visibility: "public",
+    org_id: null,
+    base_sha: null,
+    head_sha: null,
     input_tokens: 125000,
     output_tokens: 48000,
     cache_read_tokens: 87000,
     cache_creation_tokens: 12000,
+    redaction_count: 0,
   };
 
   const messages: Omit<Message, "id">[] = [];
@@ -617,10 +625,14 @@ function generateRemoteSession(): {
     interactive: true,
     remote: true,
     visibility: "public",
+    org_id: null,
+    base_sha: null,
+    head_sha: null,
     input_tokens: 42000,
     output_tokens: 15000,
     cache_read_tokens: 28000,
     cache_creation_tokens: 5000,
+    redaction_count: 0,
   };
 
   const messages: Omit<Message, "id">[] = [];
@@ -728,7 +740,7 @@ async function seed() {
   // Add the rich session for testing collapsible summaries
   const richData = generateRichSession();
   try {
-    repo.createSessionWithDataAndReview(richData.session, richData.messages, richData.diffs, undefined);
+    await repo.createSessionWithDataAndReview(richData.session, richData.messages, richData.diffs, undefined);
     console.log(`  Created session: ${richData.session.id} (rich) - "${richData.session.title}"`);
   } catch (error) {
     console.error(`  Failed to create rich session:`, error);
@@ -737,7 +749,7 @@ async function seed() {
   // Add a remote session for testing remote session UI
   const remoteData = generateRemoteSession();
   try {
-    repo.createSessionWithDataAndReview(remoteData.session, remoteData.messages, remoteData.diffs, undefined);
+    await repo.createSessionWithDataAndReview(remoteData.session, remoteData.messages, remoteData.diffs, undefined);
     console.log(`  Created session: ${remoteData.session.id} (remote) - "${remoteData.session.title}"`);
   } catch (error) {
     console.error(`  Failed to create remote session:`, error);
@@ -751,7 +763,7 @@ async function seed() {
     const { session, messages, diffs, review } = generateSession(i, status);
 
     try {
-      repo.createSessionWithDataAndReview(session, messages, diffs, review);
+      await repo.createSessionWithDataAndReview(session, messages, diffs, review);
       console.log(`  Created session: ${session.id} (${status}) - "${session.title.slice(0, 50)}..."`);
     } catch (error) {
       console.error(`  Failed to create session ${session.id}:`, error);
@@ -7,6 +7,7 @@ import type {
   MessageSentProperties,
   DiffUpdatedProperties,
   ToolInvokedProperties,
+  ContentRedactedProperties,
 } from "../db/schema";
 
 /**
@@ -29,7 +30,7 @@ export class AnalyticsRecorder {
   /**
    * Record session creation event
    */
-  recordSessionCreated(
+  async recordSessionCreated(
     sessionId: string,
     options: {
       clientId?: string;
@@ -39,7 +40,7 @@ export class AnalyticsRecorder {
       isLive?: boolean;
       remote?: boolean;
     } = {}
-  ): void {
+  ): Promise<void> {
     const { clientId, model, harness, interactive, isLive, remote } = options;
 
     const properties: SessionCreatedProperties = {
@@ -51,39 +52,39 @@ export class AnalyticsRecorder {
     };
 
     // Record event
-    this.repo.recordEvent("session.created", {
+    await this.repo.recordEvent("session.created", {
       sessionId,
       clientId,
       properties,
     });
 
     // Update daily stats
-    this.repo.incrementDailyStat("sessions_created", { clientId, model });
+    await this.repo.incrementDailyStat("sessions_created", { clientId, model });
 
     if (interactive) {
-      this.repo.incrementDailyStat("sessions_interactive", { clientId, model });
+      await this.repo.incrementDailyStat("sessions_interactive", { clientId, model });
     }
 
     if (isLive) {
-      this.repo.incrementDailyStat("sessions_live", { clientId, model });
+      await this.repo.incrementDailyStat("sessions_live", { clientId, model });
     }
 
     if (remote) {
-      this.repo.incrementDailyStat("sessions_remote", { clientId, model });
+      await this.repo.incrementDailyStat("sessions_remote", { clientId, model });
     }
   }
 
   /**
    * Record session completion event
    */
-  recordSessionCompleted(
+  async recordSessionCompleted(
     sessionId: string,
     options: {
       clientId?: string;
       durationSeconds?: number;
       messageCount?: number;
     } = {}
-  ): void {
+  ): Promise<void> {
     const { clientId, durationSeconds, messageCount } = options;
 
     const properties: SessionCompletedProperties = {
@@ -91,7 +92,7 @@ export class AnalyticsRecorder {
       message_count: messageCount,
     };
 
-    this.repo.recordEvent("session.completed", {
+    await this.repo.recordEvent("session.completed", {
       sessionId,
       clientId,
       properties,
@@ -101,59 +102,59 @@ export class AnalyticsRecorder {
   /**
    * Record user message sent event
    */
-  recordMessageSent(
+  async recordMessageSent(
     sessionId: string,
     options: {
       clientId?: string;
       contentLength?: number;
     } = {}
-  ): void {
+  ): Promise<void> {
     const { clientId, contentLength } = options;
 
     const properties: MessageSentProperties = {
       content_length: contentLength,
     };
 
-    this.repo.recordEvent("message.sent", {
+    await this.repo.recordEvent("message.sent", {
       sessionId,
       clientId,
       properties,
     });
 
-    this.repo.incrementDailyStat("prompts_sent", { clientId });
-    this.repo.incrementDailyStat("messages_total", { clientId });
+    await this.repo.incrementDailyStat("prompts_sent", { clientId });
+    await this.repo.incrementDailyStat("messages_total", { clientId });
   }
 
   /**
    * Record assistant message for total message count tracking
    */
-  recordAssistantMessage(
+  async recordAssistantMessage(
     sessionId: string,
     options: {
       clientId?: string;
     } = {}
-  ): void {
+  ): Promise<void> {
     const { clientId } = options;
-    this.repo.incrementDailyStat("messages_total", { clientId });
+    await this.repo.incrementDailyStat("messages_total", { clientId });
   }
 
   /**
    * Record tool invocation event
    */
-  recordToolInvoked(
+  async recordToolInvoked(
     sessionId: string,
     toolName: string,
     options: {
       clientId?: string;
     } = {}
-  ): void {
+  ): Promise<void> {
     const { clientId } = options;
 
     const properties: ToolInvokedProperties = {
       tool_name: toolName,
     };
 
-    this.repo.recordEvent("tool.invoked", {
+    await this.repo.recordEvent("tool.invoked", {
       sessionId,
       clientId,
       properties,
@@ -164,12 +165,12 @@ export class AnalyticsRecorder {
     const sanitizedName = sanitizeToolName(toolName);
     if (sanitizedName) {
       // Track individual tool usage
-      this.repo.incrementDailyStat(`tool_${sanitizedName}` as StatType, { clientId });
+      await this.repo.incrementDailyStat(`tool_${sanitizedName}` as StatType, { clientId });
       // Track total tool invocations
-      this.repo.incrementDailyStat("tools_invoked", { clientId });
+      await this.repo.incrementDailyStat("tools_invoked", { clientId });
       // Track subagent invocations (Task tool)
       if (sanitizedName === "task") {
-        this.repo.incrementDailyStat("subagents_invoked", { clientId });
+        await this.repo.incrementDailyStat("subagents_invoked", { clientId });
       }
     }
   }
@@ -177,7 +178,7 @@ export class AnalyticsRecorder {
   /**
    * Record diff update event with line stats
    */
-  recordDiffUpdated(
+  async recordDiffUpdated(
     sessionId: string,
     stats: {
       filesChanged: number;
@@ -187,7 +188,7 @@ export class AnalyticsRecorder {
     options: {
       clientId?: string;
     } = {}
-  ): void {
+  ): Promise<void> {
     const { clientId } = options;
     const { filesChanged, additions, deletions } = stats;
 
@@ -198,7 +199,7 @@ export class AnalyticsRecorder {
     };
 
     // Record event and multiple stats in one transaction
-    this.repo.recordMultipleStats(
+    await this.repo.recordMultipleStats(
       [
         { statType: "files_changed", value: filesChanged },
         { statType: "lines_added", value: additions },
@@ -213,10 +214,47 @@ export class AnalyticsRecorder {
     );
   }
 
+  /**
+   * Record redaction policy hits for a request, one event per action
+   */
+  async recordRedactionHits(
+    sessionId: string | undefined,
+    source: ContentRedactedProperties["source"],
+    hits: Array<{ rule: string; action: "mask" | "reject"; count: number }>,
+    options: {
+      clientId?: string;
+    } = {}
+  ): Promise<void> {
+    const { clientId } = options;
+
+    for (const action of ["mask", "reject"] as const) {
+      const matching = hits.filter((hit) => hit.action === action);
+      if (matching.length === 0) continue;
+
+      const rules: Record<string, number> = {};
+      let total = 0;
+      for (const hit of matching) {
+        rules[hit.rule] = (rules[hit.rule] ?? 0) + hit.count;
+        total += hit.count;
+      }
+
+      const properties: ContentRedactedProperties = { source, action, rules };
+      await this.repo.recordMultipleStats(
+        [{ statType: action === "mask" ? "content_redacted" : "content_rejected", value: total }],
+        {
+          eventType: "content.redacted",
+          sessionId,
+          clientId,
+          properties,
+        }
+      );
+    }
+  }
+
   /**
    * Record token usage for a session, segmented by model.
    */
-  recordTokenUsage(
+  async recordTokenUsage(
     tokens: {
       input: number;
       output: number;
@@ -227,34 +265,34 @@ export class AnalyticsRecorder {
       clientId?: string;
       model?: string;
     } = {}
-  ): void {
+  ): Promise<void> {
     const { clientId, model } = options;
 
     if (tokens.input > 0) {
-      this.repo.incrementDailyStat("input_tokens", { clientId, model, value: tokens.input });
+      await this.repo.incrementDailyStat("input_tokens", { clientId, model, value: tokens.input });
     }
     if (tokens.output > 0) {
-      this.repo.incrementDailyStat("output_tokens", { clientId, model, value: tokens.output });
+      await this.repo.incrementDailyStat("output_tokens", { clientId, model, value: tokens.output });
     }
     if (tokens.cacheCreation > 0) {
-      this.repo.incrementDailyStat("cache_creation_tokens", { clientId, model, value: tokens.cacheCreation });
+      await this.repo.incrementDailyStat("cache_creation_tokens", { clientId, model, value: tokens.cacheCreation });
     }
     if (tokens.cacheRead > 0) {
-      this.repo.incrementDailyStat("cache_read_tokens", { clientId, model, value: tokens.cacheRead });
+      await this.repo.incrementDailyStat("cache_read_tokens", { clientId, model, value: tokens.cacheRead });
     }
   }
 
   /**
    * Parse tool_use blocks from message content and record tool invocations
    */
-  recordToolsFromMessage(
+  async recordToolsFromMessage(
     sessionId: string,
     contentBlocks: Array<{ type: string; name?: string }>,
     options: { clientId?: string } = {}
-  ): void {
+  ): Promise<void> {
     for (const block of contentBlocks) {
       if (block.type === "tool_use" && block.name) {
-        this.recordToolInvoked(sessionId, block.name, options);
+        await this.recordToolInvoked(sessionId, block.name, options);
       }
     }
   }
@@ -264,14 +302,14 @@ export class AnalyticsRecorder {
    * More efficient than recording each message individually - aggregates
    * counts first and records in a single transaction.
    */
-  recordMessagesFromUpload(
+  async recordMessagesFromUpload(
     sessionId: string,
     messages: Array<{
       role: string;
       content_blocks?: Array<{ type: string; text?: string; name?: string }>;
     }>,
     options: { clientId?: string } = {}
-  ): void {
+  ): Promise<void> {
     const { clientId } = options;
 
     // Aggregate counts
@@ -333,7 +371,7 @@ export class AnalyticsRecorder {
 
     // Record all stats in a single transaction
     if (stats.length > 0) {
-      this.repo.recordMultipleStats(stats, { clientId });
+      await this.repo.recordMultipleStats(stats, { clientId });
     }
   }
 }
@@ -4,15 +4,19 @@ import { useAuth } from '@clerk/react';
 import { GettingStartedPage } from './components/GettingStartedPage';
 import { SessionListPage } from './components/SessionListPage';
 import { SessionDetailPage } from './components/SessionDetailPage';
-import { UserMenu } from './components/UserMenu';
+import { UserMenu, AuthOnly } from './components/UserMenu';
 import { ProtectedRoute } from './components/ProtectedRoute';
 import { SpawnedSessionView } from './components/SpawnedSessionView';
 import { HomePage } from './components/HomePage';
 import { useClerkConfigured } from './components/AuthContext';
 import { ProfilePage } from './components/ProfilePage';
 import { ProfilePageV1 } from './components/ProfilePageV1';
+import { RepositoryPage, type RepositoryPageData } from './components/RepositoryPage';
+import { WebhookSettingsPage } from './components/WebhookSettingsPage';
+import { OrganizationPage, NewOrganizationPage } from './components/OrganizationPage';
 import { renderComponentsShowcase } from './views';
-import type { Session, Message, Diff, Review, Annotation } from '../db/schema';
+import { InitialDataProvider, useInitialData, type InitialData, type SessionPageData } from './initialData';
+import type { Session, Message, Diff, Review, Annotation, SessionCommit, DiffSnapshotSummary, ResolvedAnnotation, ReviewVersion } from '../db/schema';
 
 // API types
 interface ReviewWithCount extends Review {
@@ -23,6 +27,8 @@ interface SessionDetailData {
   session: Session;
   messages: Message[];
   diffs: Diff[];
+  commits?: SessionCommit[];
+  snapshots?: DiffSnapshotSummary[];
   shareUrl: string | null;
   review?: ReviewWithCount | null;
   isOwner?: boolean;
@@ -32,6 +38,8 @@ interface SessionDetailData {
 interface AnnotationsData {
   review: Review | null;
   annotations_by_diff: Record<number, Annotation[]>;
+  resolved_annotations: ResolvedAnnotation[];
+  reviews: ReviewVersion[];
 }
 
 // Session info response for detecting spawned vs archived sessions
@@ -54,6 +62,12 @@ async function fetchSessions(): Promise<Session[]> {
   return data.sessions || [];
 }
 
+async function fetchRepository(id: string): Promise<RepositoryPageData | null> {
+  const res = await fetch(`/api/repos/${encodeURIComponent(id)}`);
+  if (!res.ok) return null;
+  return res.json();
+}
+
 async function fetchSessionDetail(id: string): Promise<SessionDetailData | null> {
   const res = await fetch(`/api/sessions/${encodeURIComponent(id)}`);
   if (!res.ok) return null;
@@ -169,22 +183,15 @@ function SessionListLoader() {
 // Session detail loader - handles both spawned and archived sessions
 function SessionDetailLoader() {
   const { id } = useParams<{ id: string }>();
+  // Server-rendered pages embed the archived session, so there is nothing to fetch
+  const initialData = useInitialData();
   const [sessionInfo, setSessionInfo] = useState<SessionInfoResponse | null>(null);
-  const [data, setData] = useState<{
-    session: Session;
-    messages: Message[];
-    diffs: Diff[];
-    shareUrl: string | null;
-    review: Review | null;
-    annotationsByDiff: Record<number, Annotation[]>;
-    isOwner: boolean;
-    pendingInvite: boolean;
-  } | null>(null);
+  const [data, setData] = useState<SessionPageData | null>(initialData);
   const [error, setError] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [loading, setLoading] = useState(initialData === null);
 
   useEffect(() => {
-    if (!id) return;
+    if (!id || initialData) return;
 
     // First, fetch session info to determine if it's spawned or archived
     fetchSessionInfo(id)
@@ -216,17 +223,21 @@ function SessionDetailLoader() {
             session: sessionData.session,
             messages: sessionData.messages,
             diffs: sessionData.diffs,
+            commits: sessionData.commits ?? [],
+            snapshots: sessionData.snapshots ?? [],
             shareUrl: sessionData.shareUrl,
             review: annotationsData?.review || null,
             annotationsByDiff: annotationsData?.annotations_by_diff || {},
-            isOwner: sessionData.isOwner ?? true,
+            resolvedAnnotations: annotationsData?.resolved_annotations || [],
+            reviews: annotationsData?.reviews || [],
+            isOwner: sessionData.isOwner ?? false,
             pendingInvite: sessionData.pendingInvite ?? false,
           });
         });
       })
       .catch(() => setError('Failed to load session'))
       .finally(() => setLoading(false));
-  }, [id]);
+  }, [id, initialData]);
 
   if (error) {
     return (
@@ -262,9 +273,13 @@ function SessionDetailLoader() {
         session={data.session}
         messages={data.messages}
         diffs={data.diffs}
+        commits={data.commits}
+        snapshots={data.snapshots}
         shareUrl={data.shareUrl}
         review={data.review}
         annotationsByDiff={data.annotationsByDiff}
+        resolvedAnnotations={data.resolvedAnnotations}
+        reviews={data.reviews}
         isOwner={data.isOwner}
         pendingInvite={data.pendingInvite}
       />
@@ -274,18 +289,60 @@ function SessionDetailLoader() {
   return <LoadingSpinner />;
 }
 
+// Repository view loader
+function RepositoryLoader() {
+  const { id } = useParams<{ id: string }>();
+  const [data, setData] = useState<RepositoryPageData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+
+    setData(null);
+    setError(null);
+    fetchRepository(id)
+      .then((repository) => {
+        if (!repository) {
+          setError('Repository not found');
+          return;
+        }
+        setData(repository);
+      })
+      .catch(() => setError('Failed to load repository'));
+  }, [id]);
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16 text-center">
+        <h1 className="text-2xl font-semibold mb-2">Repository Not Found</h1>
+        <p className="text-text-muted mb-4">{error}</p>
+        <a href="/" className="text-accent-primary hover:underline">Go Home</a>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return <LoadingSpinner />;
+  }
+
+  return <RepositoryPage {...data} />;
+}
+
 // Shared session loader
 function SharedSessionLoader() {
   const { shareToken } = useParams<{ shareToken: string }>();
+  const initialData = useInitialData();
   const [data, setData] = useState<{
     session: Session;
     messages: Message[];
     diffs: Diff[];
-  } | null>(null);
+    commits: SessionCommit[];
+    snapshots: DiffSnapshotSummary[];
+  } | null>(initialData);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    if (!shareToken) return;
+    if (!shareToken || initialData) return;
 
     fetchSharedSession(shareToken)
       .then(sessionData => {
@@ -297,10 +354,12 @@ function SharedSessionLoader() {
           session: sessionData.session,
           messages: sessionData.messages,
           diffs: sessionData.diffs,
+          commits: sessionData.commits ?? [],
+          snapshots: sessionData.snapshots ?? [],
         });
       })
       .catch(() => setError('Failed to load shared session'));
-  }, [shareToken]);
+  }, [shareToken, initialData]);
 
   if (error) {
     return (
@@ -321,6 +380,8 @@ function SharedSessionLoader() {
       session={data.session}
       messages={data.messages}
       diffs={data.diffs}
+      commits={data.commits}
+      snapshots={data.snapshots}
       shareUrl={null}
       review={null}
       annotationsByDiff={{}}
@@ -357,13 +418,27 @@ function NotFound() {
 
 // Header component
 function Header() {
+  // The server renders pages without auth state, so the user menu waits until after hydration
+  const initialData = useInitialData();
+  const [showUserMenu, setShowUserMenu] = useState(initialData === null);
+  useEffect(() => setShowUserMenu(true), []);
+
   return (
     <header className="sticky top-0 z-50 backdrop-blur-sm border-b border-transparent transition-colors">
       <nav className="max-w-[1400px] mx-auto px-6 lg:px-10 flex items-center justify-between h-14 transition-[max-width]">
         <a href="/" className="group text-2xl font-mono font-medium text-text-primary hover:text-accent-primary transition-colors">
           <span className="text-[14px] inline-flex gap-[2px] group-hover:gap-[6px] transition-all -translate-y-[2px]"><span>[</span><span>]</span></span>penctl
         </a>
-        <UserMenu />
+        {showUserMenu && (
+          <div className="flex items-center gap-4">
+            <AuthOnly>
+              <a href="/settings/webhooks" className="text-sm text-text-secondary hover:text-text-primary transition-colors">
+                Webhooks
+              </a>
+            </AuthOnly>
+            <UserMenu />
+          </div>
+        )}
       </nav>
     </header>
   );
@@ -381,22 +456,35 @@ function Layout({ children }: { children: React.ReactNode }) {
   );
 }
 
+// Routes and layout, shared by the browser app and server rendering (which supplies its own router)
+export function AppRoutes() {
+  return (
+    <Layout>
+      <Routes>
+        <Route path="/" element={<HomePageLoader />} />
+        <Route path="/sessions" element={<ProtectedRoute><SessionListLoader /></ProtectedRoute>} />
+        <Route path="/sessions/:id" element={<ProtectedRoute><SessionDetailLoader /></ProtectedRoute>} />
+        <Route path="/s/:shareToken" element={<ProtectedRoute><SharedSessionLoader /></ProtectedRoute>} />
+        <Route path="/_components" element={<ProtectedRoute><ComponentsShowcasePage /></ProtectedRoute>} />
+        <Route path="/profile" element={<ProtectedRoute><ProfilePage /></ProtectedRoute>} />
+        <Route path="/profile/v1" element={<ProtectedRoute><ProfilePageV1 /></ProtectedRoute>} />
+        <Route path="/repos/:id" element={<ProtectedRoute><RepositoryLoader /></ProtectedRoute>} />
+        <Route path="/settings/webhooks" element={<ProtectedRoute><WebhookSettingsPage /></ProtectedRoute>} />
+        <Route path="/orgs/new" element={<ProtectedRoute><NewOrganizationPage /></ProtectedRoute>} />
+        <Route path="/orgs/:slug" element={<ProtectedRoute><OrganizationPage /></ProtectedRoute>} />
+        <Route path="*" element={<NotFound />} />
+      </Routes>
+    </Layout>
+  );
+}
+
 // Main App component with router
-export function App() {
+export function App({ initialData = null }: { initialData?: InitialData | null }) {
   return (
     <BrowserRouter>
-      <Layout>
-        <Routes>
-          <Route path="/" element={<HomePageLoader />} />
-          <Route path="/sessions" element={<ProtectedRoute><SessionListLoader /></ProtectedRoute>} />
-          <Route path="/sessions/:id" element={<ProtectedRoute><SessionDetailLoader /></ProtectedRoute>} />
-          <Route path="/s/:shareToken" element={<ProtectedRoute><SharedSessionLoader /></ProtectedRoute>} />
-          <Route path="/_components" element={<ProtectedRoute><ComponentsShowcasePage /></ProtectedRoute>} />
-          <Route path="/profile" element={<ProtectedRoute><ProfilePage /></ProtectedRoute>} />
-          <Route path="/profile/v1" element={<ProtectedRoute><ProfilePageV1 /></ProtectedRoute>} />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </Layout>
+      <InitialDataProvider value={initialData}>
+        <AppRoutes />
+      </InitialDataProvider>
     </BrowserRouter>
   );
 }
@@ -151,6 +151,18 @@ export function escapeHtml(str: string): string {
   return str.replace(/[&<>"']/g, (char) => htmlEscapes[char] || char);
 }
 
+// Placeholder left by client-side or server-side redaction, e.g. [REDACTED:github_token]
+const REDACTION_PLACEHOLDER = /\[REDACTED:[^\]\s]+\]/;
+
+/**
+ * Check whether text or a structured value (tool input/result) had content redacted.
+ */
+export function containsRedaction(value: unknown): boolean {
+  if (!value) return false;
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return REDACTION_PLACEHOLDER.test(text);
+}
+
 export function buildToolResultMap(blocks: ContentBlock[]): ToolResultMap {
   const map = new Map<string, ToolResultBlock>();
   for (const block of blocks) {
@@ -525,8 +537,10 @@ function getToolSummary(block: ToolUseBlock): string {
     case "Read":
     case "Write":
     case "Edit":
+    case "apply_patch":
       return getDisplayPath(String(input.file_path || ""));
     case "Bash":
+    case "shell":
       const cmd = String(input.command || "");
       return cmd.length > 40 ? cmd.slice(0, 40) + "..." : cmd;
     case "Glob":
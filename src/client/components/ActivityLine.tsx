@@ -218,8 +218,10 @@ function getToolIcon(name: string): IconComponent {
     case 'Edit':
     case 'Write':
     case 'NotebookEdit':
+    case 'apply_patch':
       return IconPencil;
     case 'Bash':
+    case 'shell':
       return IconTerminal;
     case 'Glob':
     case 'Grep':
@@ -242,8 +244,10 @@ function getToolSummary(block: ToolUseBlock): string {
     case 'Write':
     case 'Edit':
     case 'NotebookEdit':
+    case 'apply_patch':
       return getDisplayPath(String(input.file_path || input.notebook_path || ''));
-    case 'Bash': {
+    case 'Bash':
+    case 'shell': {
       const cmd = String(input.command || '');
       return cmd.length > 50 ? cmd.slice(0, 50) + '...' : cmd;
     }
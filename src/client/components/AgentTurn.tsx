@@ -55,6 +55,8 @@ function IconChevron({ className = 'w-3.5 h-3.5', expanded = false }: { classNam
 interface AgentTurnProps {
   messages: Message[];
   toolResults: Map<string, ToolResultBlock>;
+  /** The last message is still being streamed */
+  streaming?: boolean;
 }
 
 interface BlockItem {
@@ -72,7 +74,7 @@ function formatDuration(ms: number): string {
   return `${minutes}m ${remainingSeconds}s`;
 }
 
-export function AgentTurn({ messages, toolResults }: AgentTurnProps) {
+export function AgentTurn({ messages, toolResults, streaming = false }: AgentTurnProps) {
   // Collect all blocks in order, tracking which are activity (tools/thinking) vs text
   const { allBlocks, toolCount, totalDurationMs } = useMemo(() => {
     const blocks: BlockItem[] = [];
@@ -132,9 +134,12 @@ export function AgentTurn({ messages, toolResults }: AgentTurnProps) {
           {totalDurationMs > 0 && <span className="normal-case tracking-normal opacity-70">({formatDuration(totalDurationMs)})</span>}
         </div>
       )}
-      {trailingTextBlocks.map(({ block, key }) => (
+      {trailingTextBlocks.map(({ block, key }, i) => (
         <div key={key} className="agent-text text-sm text-text-primary leading-relaxed py-1">
-          <TextBlock text={(block as { text: string }).text} />
+          <TextBlock
+            text={(block as { text: string }).text}
+            streaming={streaming && i === trailingTextBlocks.length - 1}
+          />
         </div>
       ))}
     </div>
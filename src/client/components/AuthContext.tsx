@@ -1,4 +1,5 @@
 import { createContext, useContext, type ReactNode } from 'react';
+import { ClerkProvider } from '@clerk/react';
 
 /**
  * Context to track whether Clerk authentication is configured.
@@ -34,3 +35,26 @@ export function useClerkConfigured(): boolean {
   const context = useContext(AuthContext);
   return context.isClerkConfigured;
 }
+
+/**
+ * The auth providers the app renders under: Clerk when a publishable key is
+ * set, just the context otherwise. Server-rendered pages use the same tree so
+ * the client hydrates the markup it would have rendered itself.
+ */
+export function AuthProviders({
+  children,
+  publishableKey,
+}: {
+  children: ReactNode;
+  publishableKey?: string;
+}) {
+  if (!publishableKey) {
+    return <AuthContextProvider isClerkConfigured={false}>{children}</AuthContextProvider>;
+  }
+
+  return (
+    <AuthContextProvider isClerkConfigured={true}>
+      <ClerkProvider publishableKey={publishableKey}>{children}</ClerkProvider>
+    </AuthContextProvider>
+  );
+}
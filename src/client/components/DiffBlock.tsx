@@ -1,7 +1,8 @@
 import { useState, useMemo, useEffect, Suspense, lazy, useSyncExternalStore } from 'react';
-import type { DiffLineAnnotation, FileDiffMetadata } from '@pierre/diffs';
-import type { Annotation, AnnotationType } from '../../db/schema';
+import type { AnnotationSide, DiffLineAnnotation, FileDiffMetadata } from '@pierre/diffs';
+import type { Annotation, AnnotationType, ReviewThreadView } from '../../db/schema';
 import { getSingularPatch } from '@pierre/diffs';
+import { ReviewCommentForm, ReviewThreadCard } from './ReviewThread';
 
 // Hook to detect if screen is mobile width (matches Tailwind's md breakpoint)
 function useIsMobile() {
@@ -31,6 +32,22 @@ interface AnnotationMetadata {
   lineNumber: number;
 }
 
+// Line annotations: AI review output, human review threads, and the comment
+// being written
+type LineAnnotationMetadata =
+  | ({ kind: 'ai' } & AnnotationMetadata)
+  | { kind: 'thread'; thread: ReviewThreadView }
+  | { kind: 'draft' };
+
+// Human review threads on a file, with the actions for adding to them
+export interface DiffReviewThreads {
+  threads: ReviewThreadView[];
+  canComment: boolean;
+  onCreate: (side: AnnotationSide, lineNumber: number, content: string) => Promise<boolean>;
+  onReply: (threadId: number, content: string) => Promise<boolean>;
+  onSetResolved: (threadId: number, resolved: boolean) => Promise<boolean>;
+}
+
 interface DiffBlockProps {
   diffId: number;
   filename: string;
@@ -40,6 +57,8 @@ interface DiffBlockProps {
   annotations: Annotation[];
   reviewModel: string | null;
   initiallyExpanded?: boolean;
+  // Omitted where the diff can't be commented on (e.g. past snapshots)
+  reviewThreads?: DiffReviewThreads;
 }
 
 // Annotation type config
@@ -59,8 +78,11 @@ export function DiffBlock(props: DiffBlockProps) {
     annotations,
     reviewModel,
     initiallyExpanded = false,
+    reviewThreads,
   } = props;
   const [expanded, setExpanded] = useState(initiallyExpanded);
+  const [draft, setDraft] = useState<{ side: AnnotationSide; lineNumber: number } | null>(null);
+  const canComment = reviewThreads?.canComment ?? false;
   const isMobile = useIsMobile();
 
   // Parse the diff content
@@ -72,12 +94,13 @@ export function DiffBlock(props: DiffBlockProps) {
     }
   }, [diffContent]);
 
-  // Convert annotations to @pierre/diffs format
-  const lineAnnotations = useMemo((): DiffLineAnnotation<AnnotationMetadata>[] => {
-    return annotations.map((a) => ({
-      side: a.side as 'additions' | 'deletions',
+  // Convert annotations and review threads to @pierre/diffs format
+  const lineAnnotations = useMemo((): DiffLineAnnotation<LineAnnotationMetadata>[] => {
+    const result: DiffLineAnnotation<LineAnnotationMetadata>[] = annotations.map((a) => ({
+      side: a.side as AnnotationSide,
       lineNumber: a.line_number,
       metadata: {
+        kind: 'ai',
         id: a.id,
         type: a.annotation_type,
         content: a.content,
@@ -86,7 +109,14 @@ export function DiffBlock(props: DiffBlockProps) {
         lineNumber: a.line_number,
       },
     }));
-  }, [annotations, reviewModel, filename]);
+    for (const thread of reviewThreads?.threads ?? []) {
+      result.push({ side: thread.side, lineNumber: thread.line_number, metadata: { kind: 'thread', thread } });
+    }
+    if (draft) {
+      result.push({ side: draft.side, lineNumber: draft.lineNumber, metadata: { kind: 'draft' } });
+    }
+    return result;
+  }, [annotations, reviewModel, filename, reviewThreads?.threads, draft]);
 
   // FileDiff options - use unified (stacked) view on mobile
   const options = useMemo(() => ({
@@ -95,11 +125,12 @@ export function DiffBlock(props: DiffBlockProps) {
     diffStyle: isMobile ? 'unified' as const : 'split' as const,
     diffIndicators: 'bars' as const,
     overflow: 'scroll' as const,
+    enableHoverUtility: canComment,
     unsafeCSS: `
       [data-code] { padding-block-start: 0 !important; }
       :host-context([data-collapsed]) [data-code] { display: none; }
     `,
-  }), [isMobile]);
+  }), [isMobile, canComment]);
 
   // Render header metadata with collapse toggle
   const renderHeaderMetadata = () => (
@@ -114,11 +145,55 @@ export function DiffBlock(props: DiffBlockProps) {
     </button>
   );
 
+  // Button shown beside the hovered line to start a review thread there
+  const renderHoverUtility = (getHoveredLine: () => { lineNumber: number; side: AnnotationSide } | undefined) => (
+    <button
+      onClick={() => {
+        const line = getHoveredLine();
+        if (line) setDraft({ side: line.side, lineNumber: line.lineNumber });
+      }}
+      className="w-5 h-5 flex items-center justify-center rounded bg-accent-primary text-white text-sm leading-none"
+      title="Comment on this line"
+      aria-label="Comment on this line"
+    >
+      +
+    </button>
+  );
+
   // Render annotation
-  const renderAnnotation = (annotation: DiffLineAnnotation<AnnotationMetadata>) => {
+  const renderAnnotation = (annotation: DiffLineAnnotation<LineAnnotationMetadata>) => {
     const metadata = annotation.metadata;
     if (!metadata) return null;
 
+    if (metadata.kind === 'thread') {
+      return reviewThreads ? (
+        <ReviewThreadCard
+          thread={metadata.thread}
+          canComment={canComment}
+          onReply={reviewThreads.onReply}
+          onSetResolved={reviewThreads.onSetResolved}
+        />
+      ) : null;
+    }
+
+    if (metadata.kind === 'draft') {
+      return reviewThreads ? (
+        <div className="bg-bg-tertiary border border-bg-elevated rounded-lg p-4 my-3 mx-4">
+          <ReviewCommentForm
+            placeholder={`Comment on ${filename}:${annotation.lineNumber}`}
+            submitLabel="Comment"
+            autoFocus
+            onSubmit={async (content) => {
+              const ok = await reviewThreads.onCreate(annotation.side, annotation.lineNumber, content);
+              if (ok) setDraft(null);
+              return ok;
+            }}
+            onCancel={() => setDraft(null)}
+          />
+        </div>
+      ) : null;
+    }
+
     const config = annotationConfig[metadata.type] || annotationConfig.suggestion;
     const locationText = `${metadata.filename}:${metadata.lineNumber}`;
 
@@ -193,6 +268,7 @@ export function DiffBlock(props: DiffBlockProps) {
           options={options}
           lineAnnotations={lineAnnotations}
           renderAnnotation={renderAnnotation}
+          renderHoverUtility={canComment ? renderHoverUtility : undefined}
           renderHeaderMetadata={renderHeaderMetadata}
         />
       </Suspense>
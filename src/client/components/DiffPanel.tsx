@@ -1,15 +1,114 @@
-import { useState, useMemo } from "react";
-import { DiffBlock } from "./DiffBlock";
-import type { Diff, Annotation, Review } from "../../db/schema";
+import { useState, useMemo, useEffect } from "react";
+import { DiffBlock, type DiffReviewThreads } from "./DiffBlock";
+import { DiffTimeline } from "./DiffTimeline";
+import { ReviewBar } from "./ReviewBar";
+import type { Diff, Annotation, Review, SessionCommit, DiffSnapshotFile, DiffSnapshotSummary, ReviewThreadView, ResolvedAnnotation, ReviewVersion } from "../../db/schema";
+import type { SnapshotFileChange } from "../../lib/diff-snapshots";
+import type { ReviewRequest, ReviewThreads } from "../hooks";
 
 interface DiffPanelProps {
   diffs: Diff[];
   annotationsByDiff: Record<number, Annotation[]>;
   review: Review | null;
+  // Every review of the session, newest first, and the shown review's
+  // findings that later diffs resolved
+  reviews?: ReviewVersion[];
+  resolvedAnnotations?: ResolvedAnnotation[];
+  onReviewVersionSelect?: (version: number) => void;
+  // Commits made during the session, oldest first
+  commits?: SessionCommit[];
+  // Diff snapshots for the timeline; it's shown when there are at least two
+  sessionId?: string;
+  snapshots?: DiffSnapshotSummary[];
+  // Last message index at the top of the conversation, for following along
+  visibleMessageIndex?: number | null;
+  // Called when the user picks a snapshot, to scroll the conversation to it
+  onSnapshotSelect?: (messageIndex: number) => void;
+  // Human review threads, shown on the latest diff
+  reviewThreads?: ReviewThreads;
+  // Generating the code review on a connected daemon
+  reviewRequest?: ReviewRequest;
 }
 
-export function DiffPanel({ diffs, annotationsByDiff, review }: DiffPanelProps) {
+// A past snapshot being shown instead of the latest diff
+type SnapshotView =
+  | { mode: "at"; files: DiffSnapshotFile[] }
+  | { mode: "changes"; changes: SnapshotFileChange[] };
+
+export function DiffPanel(props: DiffPanelProps) {
+  const {
+    diffs,
+    annotationsByDiff,
+    review,
+    reviews = [],
+    resolvedAnnotations = [],
+    onReviewVersionSelect,
+    commits = [],
+    sessionId,
+    snapshots = [],
+    visibleMessageIndex = null,
+    onSnapshotSelect,
+    reviewThreads,
+    reviewRequest,
+  } = props;
   const [otherExpanded, setOtherExpanded] = useState(false);
+  const [selectedSnapshot, setSelectedSnapshot] = useState<number | null>(null);
+  const [compare, setCompare] = useState(false);
+  const [follow, setFollow] = useState(false);
+  const [snapshotView, setSnapshotView] = useState<SnapshotView | null>(null);
+
+  const showTimeline = Boolean(sessionId) && snapshots.length > 1;
+
+  // Follow the conversation: show the latest snapshot taken by the visible message
+  useEffect(() => {
+    if (!follow || visibleMessageIndex === null) return;
+    let position = 0;
+    snapshots.forEach((snapshot, i) => {
+      if (snapshot.message_index <= visibleMessageIndex) position = i;
+    });
+    setSelectedSnapshot(position >= snapshots.length - 1 ? null : position);
+  }, [follow, visibleMessageIndex, snapshots]);
+
+  // Load the selected snapshot, or its changes since the one before
+  useEffect(() => {
+    const snapshot = selectedSnapshot !== null ? snapshots[selectedSnapshot] : undefined;
+    if (!sessionId || !snapshot) {
+      setSnapshotView(null);
+      return;
+    }
+
+    const previous = selectedSnapshot !== null ? snapshots[selectedSnapshot - 1] : undefined;
+    const showChanges = compare && previous !== undefined;
+    const query = showChanges
+      ? `from=${previous.message_index}&to=${snapshot.message_index}`
+      : `at=${snapshot.message_index}`;
+
+    let cancelled = false;
+    fetch(`/api/sessions/${encodeURIComponent(sessionId)}/diffs?${query}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (cancelled || !data) return;
+        setSnapshotView(
+          showChanges
+            ? { mode: "changes", changes: data.changes || [] }
+            : { mode: "at", files: data.snapshot?.files || [] }
+        );
+      })
+      .catch((error) => {
+        console.error("Failed to load diff snapshot:", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, snapshots, selectedSnapshot, compare]);
+
+  const selectSnapshot = (position: number | null) => {
+    setSelectedSnapshot(position);
+    const snapshot = position !== null ? snapshots[position] : undefined;
+    if (snapshot) {
+      onSnapshotSelect?.(snapshot.message_index);
+    }
+  };
 
   // Memoize diff categorization (Vercel best practice: avoid recalc on every render)
   const { sessionDiffs, otherDiffs } = useMemo(
@@ -20,7 +119,32 @@ export function DiffPanel({ diffs, annotationsByDiff, review }: DiffPanelProps)
     [diffs]
   );
 
-  const totalCount = diffs.length;
+  const totalCount = snapshotView?.mode === "at"
+    ? snapshotView.files.length
+    : snapshotView?.mode === "changes"
+      ? snapshotView.changes.length
+      : diffs.length;
+
+  // Review threads are anchored by filename, so they stay put as live diffs update
+  const threadsByFile = useMemo(() => {
+    const byFile = new Map<string, ReviewThreadView[]>();
+    for (const thread of reviewThreads?.threads ?? []) {
+      byFile.set(thread.filename, [...(byFile.get(thread.filename) ?? []), thread]);
+    }
+    return byFile;
+  }, [reviewThreads?.threads]);
+
+  const reviewThreadsFor = (diff: Diff): DiffReviewThreads | undefined => {
+    if (!reviewThreads || !diff.filename) return undefined;
+    return {
+      threads: threadsByFile.get(diff.filename) ?? [],
+      canComment: reviewThreads.canComment,
+      onCreate: (side, lineNumber, content) =>
+        reviewThreads.createThread({ diffId: diff.id, side, lineNumber, content }),
+      onReply: reviewThreads.reply,
+      onSetResolved: reviewThreads.setResolved,
+    };
+  };
 
   const isLargeDiff = (diff: Diff) =>
     (diff.additions || 0) + (diff.deletions || 0) > 300;
@@ -44,7 +168,33 @@ export function DiffPanel({ diffs, annotationsByDiff, review }: DiffPanelProps)
 
       {/* Diffs container */}
       <div className="flex-1 overflow-y-auto pb-6">
-        {sessionDiffs.length > 0 && (
+        {reviewRequest && !snapshotView && (
+          <ReviewBar
+            review={review}
+            reviews={reviews}
+            resolvedAnnotations={resolvedAnnotations}
+            onVersionSelect={onReviewVersionSelect}
+            reviewRequest={reviewRequest}
+          />
+        )}
+
+        {showTimeline && (
+          <DiffTimeline
+            snapshots={snapshots}
+            selected={selectedSnapshot}
+            onSelect={selectSnapshot}
+            compare={compare}
+            onCompareChange={setCompare}
+            follow={follow}
+            onFollowChange={setFollow}
+          />
+        )}
+
+        {commits.length > 0 && !snapshotView && <CommitList commits={commits} />}
+
+        {snapshotView && <SnapshotDiffs view={snapshotView} />}
+
+        {!snapshotView && sessionDiffs.length > 0 && (
           <div className="diff-group flex flex-col gap-4">
             {sessionDiffs.map((diff) => (
               <DiffBlock
@@ -57,12 +207,13 @@ export function DiffPanel({ diffs, annotationsByDiff, review }: DiffPanelProps)
                 annotations={annotationsByDiff[diff.id] || []}
                 reviewModel={review?.model || null}
                 initiallyExpanded={!isLargeDiff(diff)}
+                reviewThreads={reviewThreadsFor(diff)}
               />
             ))}
           </div>
         )}
 
-        {otherDiffs.length > 0 && (
+        {!snapshotView && otherDiffs.length > 0 && (
           <div className="diff-group mt-6">
             <button
               className="other-toggle w-full pr-4 py-2.5 text-xs font-medium text-text-muted bg-bg-secondary flex items-center gap-2 hover:bg-bg-elevated transition-colors mb-4"
@@ -87,6 +238,7 @@ export function DiffPanel({ diffs, annotationsByDiff, review }: DiffPanelProps)
                     annotations={annotationsByDiff[diff.id] || []}
                     reviewModel={review?.model || null}
                     initiallyExpanded={false}
+                    reviewThreads={reviewThreadsFor(diff)}
                   />
                 ))}
               </div>
@@ -96,10 +248,84 @@ export function DiffPanel({ diffs, annotationsByDiff, review }: DiffPanelProps)
 
         {totalCount === 0 && (
           <div className="flex items-center justify-center h-full text-text-muted text-sm">
-            No code changes
+            {snapshotView?.mode === "changes" ? "No changes since the previous snapshot" : "No code changes"}
           </div>
         )}
       </div>
     </div>
   );
 }
+
+function SnapshotDiffs({ view }: { view: SnapshotView }) {
+  if (view.mode === "at") {
+    return (
+      <div className="flex flex-col gap-4">
+        {view.files.map((file, i) => (
+          <DiffBlock
+            key={`${file.filename}-${i}`}
+            diffId={i}
+            filename={file.filename || "Unknown file"}
+            diffContent={file.diff_content}
+            additions={file.additions}
+            deletions={file.deletions}
+            annotations={[]}
+            reviewModel={null}
+            initiallyExpanded={file.additions + file.deletions <= 300}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  const changeLabels: Record<SnapshotFileChange["change"], string> = {
+    added: "Now changed",
+    modified: "Updated",
+    reverted: "Back to original",
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      {view.changes.map((change, i) => {
+        const file = change.after ?? change.before!;
+        return (
+          <div key={`${change.filename}-${i}`}>
+            <div className="mb-1 text-xs font-medium text-text-muted">{changeLabels[change.change]}</div>
+            <DiffBlock
+              diffId={i}
+              filename={change.filename || "Unknown file"}
+              diffContent={file.diff_content}
+              additions={file.additions}
+              deletions={file.deletions}
+              annotations={[]}
+              reviewModel={null}
+              initiallyExpanded={change.change !== "reverted"}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function CommitList({ commits }: { commits: SessionCommit[] }) {
+  return (
+    <div className="mb-4 rounded-md border border-bg-elevated bg-bg-secondary">
+      <div className="px-3 py-2 text-xs font-medium text-text-muted border-b border-bg-elevated">
+        {commits.length} commit{commits.length !== 1 ? "s" : ""} in this session
+      </div>
+      <ul className="divide-y divide-bg-elevated">
+        {commits.map((commit) => (
+          <li key={commit.sha} className="flex items-baseline gap-3 px-3 py-1.5 text-xs">
+            <code className="font-mono text-accent-primary shrink-0">{commit.sha.slice(0, 7)}</code>
+            <span className="text-text-secondary truncate" title={commit.message}>
+              {commit.message.split("\n")[0]}
+            </span>
+            {commit.author && (
+              <span className="text-text-muted ml-auto shrink-0">{commit.author}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import type { DiffSnapshotSummary } from "../../db/schema";
+
+interface DiffTimelineProps {
+  snapshots: DiffSnapshotSummary[];
+  // Position in `snapshots`, or null for the latest diff
+  selected: number | null;
+  onSelect: (position: number | null) => void;
+  // Show what changed since the previous snapshot instead of the whole diff
+  compare: boolean;
+  onCompareChange: (compare: boolean) => void;
+  // Move the timeline as the conversation scrolls
+  follow: boolean;
+  onFollowChange: (follow: boolean) => void;
+}
+
+/**
+ * Scrubber over a session's diff snapshots. The rightmost stop is the latest
+ * diff; the others show the diff as it stood after a message.
+ */
+export function DiffTimeline(props: DiffTimelineProps) {
+  const { snapshots, selected, onSelect, compare, onCompareChange, follow, onFollowChange } = props;
+  const position = selected ?? snapshots.length;
+  const snapshot = selected !== null ? snapshots[selected] : undefined;
+
+  return (
+    <div className="mb-4 rounded-md border border-bg-elevated bg-bg-secondary px-3 py-2">
+      <div className="flex items-center gap-3">
+        <input
+          type="range"
+          min={0}
+          max={snapshots.length}
+          value={position}
+          onChange={(e) => {
+            const next = Number(e.target.value);
+            onSelect(next >= snapshots.length ? null : next);
+          }}
+          className="flex-1 accent-accent-primary"
+          aria-label="Diff timeline"
+        />
+        <span className="text-xs text-text-muted tabular-nums shrink-0 w-40 text-right">
+          {snapshot
+            ? `After message ${snapshot.message_index + 1} · ${snapshot.files_changed} file${snapshot.files_changed !== 1 ? "s" : ""}`
+            : "Latest"}
+        </span>
+      </div>
+      <div className="flex items-center gap-4 mt-1.5 text-xs text-text-muted">
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input type="checkbox" checked={follow} onChange={(e) => onFollowChange(e.target.checked)} />
+          Follow conversation
+        </label>
+        <label className={`flex items-center gap-1.5 ${snapshot ? "cursor-pointer" : "opacity-50"}`}>
+          <input
+            type="checkbox"
+            checked={compare}
+            disabled={!snapshot}
+            onChange={(e) => onCompareChange(e.target.checked)}
+          />
+          Only changes since previous snapshot
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ import { useDaemonStatus } from '../hooks/useDaemonStatus';
 import { useClipboard } from '../hooks';
 import { stripSystemTags } from '../blocks';
 import { StatsSection } from './StatsSection';
+import { getRepoKey, encodeRepoId } from '../../lib/repositories';
 import type { Session } from '../../db/schema';
 
 type PermissionMode = 'relay' | 'auto-safe' | 'auto';
@@ -780,51 +781,62 @@ function ProjectGroup({
   isLive,
 }: ProjectGroupProps) {
   const liveCount = sessions.filter(isLive).length;
+  const repoKey = sessions[0] ? getRepoKey(sessions[0]) : null;
 
   return (
     <div>
       {/* Group header */}
-      <button
-        onClick={onToggle}
-        className="w-full flex items-center gap-2 py-2 text-left group"
-      >
-        <svg
-          className={`w-3 h-3 text-text-muted transition-transform ${
-            isCollapsed ? '' : 'rotate-90'
-          }`}
-          fill="none"
-          stroke="currentColor"
-          viewBox="0 0 24 24"
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onToggle}
+          className="flex-1 min-w-0 flex items-center gap-2 py-2 text-left group"
         >
-          <path
-            strokeLinecap="round"
-            strokeLinejoin="round"
-            strokeWidth={2}
-            d="M9 5l7 7-7 7"
-          />
-        </svg>
-        {isRepository ? (
-          <span className="flex items-center gap-1.5 text-xs text-text-secondary group-hover:text-text-primary transition-colors">
-            <svg className="w-3.5 h-3.5 text-text-muted" fill="currentColor" viewBox="0 0 16 16">
-              <path d="M2 2.5A2.5 2.5 0 0 1 4.5 0h8.75a.75.75 0 0 1 .75.75v12.5a.75.75 0 0 1-.75.75h-2.5a.75.75 0 0 1 0-1.5h1.75v-2h-8a1 1 0 0 0-.714 1.7.75.75 0 1 1-1.072 1.05A2.495 2.495 0 0 1 2 11.5Zm10.5-1h-8a1 1 0 0 0-1 1v6.708A2.486 2.486 0 0 1 4.5 9h8ZM5 12.25a.25.25 0 0 1 .25-.25h3.5a.25.25 0 0 1 .25.25v3.25a.25.25 0 0 1-.4.2l-1.45-1.087a.249.249 0 0 0-.3 0L5.4 15.7a.25.25 0 0 1-.4-.2Z" />
-            </svg>
-            <span className="font-medium">{groupKey}</span>
-          </span>
-        ) : (
-          <span className="font-mono text-xs text-text-secondary group-hover:text-text-primary transition-colors">
-            {groupKey}
-          </span>
-        )}
-        <span className="text-xs text-text-muted">
-          {sessions.length} session{sessions.length !== 1 ? 's' : ''}
-        </span>
-        {liveCount > 0 && (
-          <span className="flex items-center gap-1 text-xs text-status-live">
-            <span className="w-1.5 h-1.5 rounded-full bg-status-live animate-pulse" />
-            {liveCount} live
+          <svg
+            className={`w-3 h-3 text-text-muted transition-transform ${
+              isCollapsed ? '' : 'rotate-90'
+            }`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M9 5l7 7-7 7"
+            />
+          </svg>
+          {isRepository ? (
+            <span className="flex items-center gap-1.5 text-xs text-text-secondary group-hover:text-text-primary transition-colors">
+              <svg className="w-3.5 h-3.5 text-text-muted" fill="currentColor" viewBox="0 0 16 16">
+                <path d="M2 2.5A2.5 2.5 0 0 1 4.5 0h8.75a.75.75 0 0 1 .75.75v12.5a.75.75 0 0 1-.75.75h-2.5a.75.75 0 0 1 0-1.5h1.75v-2h-8a1 1 0 0 0-.714 1.7.75.75 0 1 1-1.072 1.05A2.495 2.495 0 0 1 2 11.5Zm10.5-1h-8a1 1 0 0 0-1 1v6.708A2.486 2.486 0 0 1 4.5 9h8ZM5 12.25a.25.25 0 0 1 .25-.25h3.5a.25.25 0 0 1 .25.25v3.25a.25.25 0 0 1-.4.2l-1.45-1.087a.249.249 0 0 0-.3 0L5.4 15.7a.25.25 0 0 1-.4-.2Z" />
+              </svg>
+              <span className="font-medium">{groupKey}</span>
+            </span>
+          ) : (
+            <span className="font-mono text-xs text-text-secondary group-hover:text-text-primary transition-colors">
+              {groupKey}
+            </span>
+          )}
+          <span className="text-xs text-text-muted">
+            {sessions.length} session{sessions.length !== 1 ? 's' : ''}
           </span>
+          {liveCount > 0 && (
+            <span className="flex items-center gap-1 text-xs text-status-live">
+              <span className="w-1.5 h-1.5 rounded-full bg-status-live animate-pulse" />
+              {liveCount} live
+            </span>
+          )}
+        </button>
+        {repoKey && (
+          <Link
+            to={`/repos/${encodeRepoId(repoKey)}`}
+            className="shrink-0 text-xs text-text-muted hover:text-accent-primary transition-colors"
+          >
+            View repository
+          </Link>
         )}
-      </button>
+      </div>
 
       {/* Session rows */}
       {!isCollapsed && (
@@ -21,11 +21,16 @@ interface MessageListProps {
   onFeedbackStatus?: (messageId: string, status: string) => void;
   // Callback ref to expose handle to parent
   onHandle?: (handle: MessageListHandle) => void;
+  // Message index to scroll to and highlight on load (e.g. from a search result)
+  focusMessageIndex?: number | null;
+  // Called with the last message index of the turn at the top of the viewport as the user scrolls
+  onVisibleMessageChange?: (messageIndex: number) => void;
 }
 
 export interface MessageListHandle {
   sendFeedback: (content: string) => void;
   getMessageCount: () => number;
+  scrollToMessage: (messageIndex: number) => void;
 }
 
 export function MessageList(props: MessageListProps) {
@@ -41,6 +46,8 @@ export function MessageList(props: MessageListProps) {
     onFeedbackQueued,
     onFeedbackStatus,
     onHandle,
+    focusMessageIndex,
+    onVisibleMessageChange,
   } = props;
 
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -74,15 +81,45 @@ export function MessageList(props: MessageListProps) {
   // Group messages into turns
   const turns = useMemo(() => groupMessagesIntoTurns(messages), [messages]);
 
+  // Turn containing the focused message, if any
+  const focusedTurnIndex = useMemo(() => {
+    if (focusMessageIndex === null || focusMessageIndex === undefined) return -1;
+    return turns.findIndex((turn) => turn.messages.some((m) => m.message_index === focusMessageIndex));
+  }, [turns, focusMessageIndex]);
+  const focusedTurnRef = useRef<HTMLDivElement>(null);
+  const visibleMessageIndexRef = useRef<number | null>(null);
+
+  // Rendered turn elements, in the same order as `turns`
+  const getTurnElements = useCallback((): Element[] => {
+    return Array.from(scrollContainerRef.current?.firstElementChild?.children ?? []).slice(0, turns.length);
+  }, [turns.length]);
+
+  const scrollToMessage = useCallback((messageIndex: number) => {
+    // The last turn starting at or before the message
+    let target = -1;
+    turns.forEach((turn, i) => {
+      if ((turn.messages[0]?.message_index ?? Infinity) <= messageIndex) target = i;
+    });
+    getTurnElements()[Math.max(target, 0)]?.scrollIntoView({ block: 'start' });
+  }, [turns, getTurnElements]);
+
   // Expose handle to parent via callback
   useEffect(() => {
     if (onHandle) {
       onHandle({
         sendFeedback,
         getMessageCount: () => messages.length,
+        scrollToMessage,
       });
     }
-  }, [onHandle, sendFeedback, messages.length]);
+  }, [onHandle, sendFeedback, messages.length, scrollToMessage]);
+
+  // Jump to the focused turn once it has rendered
+  useEffect(() => {
+    if (focusedTurnIndex >= 0 && focusedTurnRef.current) {
+      focusedTurnRef.current.scrollIntoView({ block: 'center' });
+    }
+  }, [focusedTurnIndex]);
 
   // Auto-scroll effect when messages change
   useEffect(() => {
@@ -90,6 +127,10 @@ export function MessageList(props: MessageListProps) {
     prevMessageCountRef.current = messages.length;
 
     if (scrollContainerRef.current) {
+      if (focusedTurnIndex >= 0 && !hasNewMessages) {
+        // Keep the position of a focused turn instead of jumping to the bottom
+        return;
+      }
       if (isNearBottom(scrollContainerRef.current)) {
         scrollToBottom(scrollContainerRef.current);
         setShowNewMessagesButton(false);
@@ -100,12 +141,31 @@ export function MessageList(props: MessageListProps) {
     }
   }, [messages.length]);
 
+  // Report the turn at the top of the viewport, so the diff timeline can follow along
+  const reportVisibleMessage = useCallback(() => {
+    const container = scrollContainerRef.current;
+    if (!container || !onVisibleMessageChange) return;
+
+    const top = container.getBoundingClientRect().top;
+    let visibleTurn = 0;
+    getTurnElements().forEach((element, i) => {
+      if (element.getBoundingClientRect().top <= top + container.clientHeight / 3) visibleTurn = i;
+    });
+    const turnMessages = turns[visibleTurn]?.messages ?? [];
+    const messageIndex = turnMessages[turnMessages.length - 1]?.message_index;
+    if (messageIndex !== undefined && messageIndex !== visibleMessageIndexRef.current) {
+      visibleMessageIndexRef.current = messageIndex;
+      onVisibleMessageChange(messageIndex);
+    }
+  }, [onVisibleMessageChange, getTurnElements, turns]);
+
   // Scroll handler
   const handleScroll = useCallback(() => {
     if (scrollContainerRef.current && isNearBottom(scrollContainerRef.current)) {
       setShowNewMessagesButton(false);
     }
-  }, []);
+    reportVisibleMessage();
+  }, [reportVisibleMessage]);
 
   const handleScrollToBottom = useCallback(() => {
     if (scrollContainerRef.current) {
@@ -126,17 +186,28 @@ export function MessageList(props: MessageListProps) {
         {/* Chat bubble layout */}
         <div className="flex flex-col gap-4 py-4">
           {turns.map((turn, i) => {
-            if (turn.type === 'user') {
-              return <UserBubble key={`user-${i}`} message={turn.messages[0]!} />;
-            } else {
-              return (
-                <AgentTurn
-                  key={`agent-${i}`}
-                  messages={turn.messages}
-                  toolResults={toolResults}
-                />
-              );
+            const content = turn.type === 'user' ? (
+              <UserBubble key={`user-${i}`} message={turn.messages[0]!} />
+            ) : (
+              <AgentTurn
+                key={`agent-${i}`}
+                messages={turn.messages}
+                toolResults={toolResults}
+              />
+            );
+
+            if (i !== focusedTurnIndex) {
+              return content;
             }
+            return (
+              <div
+                key={`focused-${i}`}
+                ref={focusedTurnRef}
+                className="rounded-md ring-1 ring-accent-primary/50 bg-accent-primary/5"
+              >
+                {content}
+              </div>
+            );
           })}
 
           {/* Typing indicator */}
@@ -0,0 +1,78 @@
+import { useState, useEffect, useRef } from 'react';
+import { useLocation } from 'react-router-dom';
+import { useOrganizations } from '../hooks/useOrganizations';
+
+/**
+ * Switch between personal sessions and organization session feeds.
+ * The current organization comes from the URL (/orgs/:slug).
+ */
+export function OrgSwitcher() {
+  const { organizations } = useOrganizations();
+  const location = useLocation();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const currentSlug = location.pathname.match(/^\/orgs\/([^/]+)/)?.[1];
+  const current = organizations.find((o) => o.slug === currentSlug);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 px-2 py-1 rounded-md text-sm text-text-secondary hover:text-text-primary border border-bg-elevated hover:bg-bg-tertiary transition-colors"
+      >
+        <span className="max-w-[140px] truncate">{current?.name ?? 'Personal'}</span>
+        <svg className={`w-3 h-3 shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-20 w-56 bg-bg-tertiary border border-bg-elevated rounded-lg shadow-xl overflow-hidden py-1">
+          <SwitcherLink href="/sessions" active={!current} label="Personal" />
+          {organizations.length > 0 && (
+            <div className="px-3 pt-2 pb-1 text-[10px] uppercase tracking-wider text-text-muted">Organizations</div>
+          )}
+          {organizations.map((org) => (
+            <SwitcherLink
+              key={org.id}
+              href={`/orgs/${encodeURIComponent(org.slug)}`}
+              active={org.id === current?.id}
+              label={org.name}
+            />
+          ))}
+          <div className="border-t border-bg-elevated mt-1 pt-1">
+            <a href="/orgs/new" className="block px-3 py-1.5 text-sm text-text-muted hover:text-text-primary hover:bg-bg-hover">
+              New organization
+            </a>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SwitcherLink({ href, active, label }: { href: string; active: boolean; label: string }) {
+  return (
+    <a
+      href={href}
+      className={`block px-3 py-1.5 text-sm truncate hover:bg-bg-hover ${
+        active ? 'text-accent-primary' : 'text-text-secondary hover:text-text-primary'
+      }`}
+    >
+      {label}
+    </a>
+  );
+}
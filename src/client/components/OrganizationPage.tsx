@@ -0,0 +1,398 @@
+/**
+ * OrganizationPage - Team session feed and member management
+ *
+ * - /orgs/:slug shows sessions shared with the organization and its members.
+ *   Admins invite, change roles and remove members; owners can also rename
+ *   and delete the organization. Everyone can leave.
+ * - /orgs/new creates an organization with the caller as owner.
+ */
+
+import { useState, useCallback } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useOrganizations, useOrganization, type OrganizationMemberInfo } from '../hooks/useOrganizations';
+import { canAssignRole, canManageMembers, slugify, MAX_ORG_SLUG_LENGTH } from '../../lib/organizations';
+import { SessionCard } from './SessionListPage';
+import type { OrgRole } from '../../db/schema';
+
+const ROLE_LABELS: Record<OrgRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+};
+
+const inputClass =
+  'w-full px-3 py-2 bg-bg-tertiary border border-bg-elevated rounded-md text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-accent-primary';
+const buttonClass =
+  'px-4 py-2 bg-accent-primary hover:bg-accent-primary/90 text-bg-primary rounded-md font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+export function OrganizationPage() {
+  const { slug } = useParams<{ slug: string }>();
+  const { organizations, loading: orgsLoading } = useOrganizations();
+  const summary = organizations.find((o) => o.slug === slug) ?? null;
+  const {
+    organization,
+    members,
+    membershipId,
+    sessions,
+    loading,
+    error,
+    updateOrganization,
+    deleteOrganization,
+    addMember,
+    updateMemberRole,
+    removeMember,
+  } = useOrganization(summary?.id ?? null);
+
+  const handleLeave = useCallback(async () => {
+    if (membershipId === null) return;
+    if (!confirm('Leave this organization? You will lose access to its sessions.')) return;
+    if (await removeMember(membershipId)) {
+      window.location.href = '/sessions';
+    }
+  }, [membershipId, removeMember]);
+
+  if (orgsLoading || (summary && loading)) {
+    return <div className="max-w-[1400px] mx-auto px-6 lg:px-10 py-8 text-text-muted">Loading...</div>;
+  }
+
+  if (!summary || !organization) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16 text-center">
+        <h1 className="text-2xl font-semibold mb-2">Organization Not Found</h1>
+        <p className="text-text-muted mb-4">It doesn't exist or you aren't a member.</p>
+        <a href="/sessions" className="text-accent-primary hover:underline">Back to sessions</a>
+      </div>
+    );
+  }
+
+  const role = organization.role;
+
+  return (
+    <div className="max-w-[1400px] mx-auto px-6 lg:px-10 py-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-xl font-semibold text-text-primary tracking-tight">{organization.name}</h1>
+          <p className="text-sm text-text-muted mt-1">
+            {ROLE_LABELS[role]} · {members.length} {members.length === 1 ? 'member' : 'members'}
+          </p>
+        </div>
+        {membershipId !== null && (
+          <button
+            onClick={handleLeave}
+            className="self-start sm:self-auto px-3 py-1.5 text-sm text-text-muted hover:text-diff-del border border-bg-elevated rounded-md transition-colors"
+          >
+            Leave organization
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 mb-6 bg-diff-del/20 border border-diff-del/30 rounded-md text-diff-del text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="grid gap-10 lg:grid-cols-[1fr_360px]">
+        <section>
+          <h2 className="text-sm font-medium text-text-secondary mb-4">Shared sessions</h2>
+          {sessions.length === 0 ? (
+            <p className="text-sm text-text-muted">
+              No sessions yet. Share one from its Share menu with "Everyone at {organization.name}".
+            </p>
+          ) : (
+            <div className="grid gap-5 sm:grid-cols-2 xl:grid-cols-3">
+              {sessions.map((session) => (
+                <SessionCard key={session.id} session={session} isLive={session.status === 'live'} />
+              ))}
+            </div>
+          )}
+        </section>
+
+        <aside className="space-y-8">
+          <section>
+            <h2 className="text-sm font-medium text-text-secondary mb-4">Members</h2>
+            {canManageMembers(role) && <InviteMemberForm actorRole={role} onAdd={addMember} />}
+            <div className="mt-4 divide-y divide-bg-elevated border border-bg-elevated rounded-lg bg-bg-secondary">
+              {members.map((member) => (
+                <MemberRow
+                  key={member.id}
+                  member={member}
+                  actorRole={role}
+                  isSelf={member.id === membershipId}
+                  onUpdateRole={updateMemberRole}
+                  onRemove={removeMember}
+                />
+              ))}
+            </div>
+          </section>
+
+          {canManageMembers(role) && (
+            <OrganizationSettings
+              name={organization.name}
+              slug={organization.slug}
+              canDelete={role === 'owner'}
+              onUpdate={updateOrganization}
+              onDelete={deleteOrganization}
+            />
+          )}
+        </aside>
+      </div>
+    </div>
+  );
+}
+
+interface InviteMemberFormProps {
+  actorRole: OrgRole;
+  onAdd: (email: string, role: OrgRole) => Promise<boolean>;
+}
+
+function InviteMemberForm({ actorRole, onAdd }: InviteMemberFormProps) {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<OrgRole>('member');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const handleSubmit = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setIsAdding(true);
+    const success = await onAdd(email.trim(), role);
+    setIsAdding(false);
+
+    if (success) {
+      setEmail('');
+      setRole('member');
+    }
+  }, [email, role, onAdd]);
+
+  return (
+    <form onSubmit={handleSubmit} className="flex gap-2">
+      <input
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="teammate@example.com"
+        className={`${inputClass} text-sm`}
+        disabled={isAdding}
+      />
+      <RoleSelect value={role} actorRole={actorRole} onChange={setRole} disabled={isAdding} />
+      <button type="submit" disabled={!email.trim() || isAdding} className={`${buttonClass} text-sm`}>
+        Invite
+      </button>
+    </form>
+  );
+}
+
+interface MemberRowProps {
+  member: OrganizationMemberInfo;
+  actorRole: OrgRole;
+  isSelf: boolean;
+  onUpdateRole: (id: number, role: OrgRole) => Promise<boolean>;
+  onRemove: (id: number) => Promise<boolean>;
+}
+
+function MemberRow({ member, actorRole, isSelf, onUpdateRole, onRemove }: MemberRowProps) {
+  const [isUpdating, setIsUpdating] = useState(false);
+  const canEdit = !isSelf && canAssignRole(actorRole, member.role);
+
+  const handleRoleChange = async (role: OrgRole) => {
+    setIsUpdating(true);
+    await onUpdateRole(member.id, role);
+    setIsUpdating(false);
+  };
+
+  const handleRemove = async () => {
+    if (!confirm(`Remove ${member.email} from the organization?`)) return;
+    setIsUpdating(true);
+    await onRemove(member.id);
+    setIsUpdating(false);
+  };
+
+  return (
+    <div className="flex items-center gap-3 px-3 py-2.5">
+      {member.user?.imageUrl ? (
+        <img src={member.user.imageUrl} alt="" className="w-7 h-7 rounded-full shrink-0" />
+      ) : (
+        <div className="w-7 h-7 rounded-full bg-bg-tertiary shrink-0" />
+      )}
+      <div className="flex-1 min-w-0">
+        <span className="text-sm text-text-primary truncate block">
+          {member.user?.name || member.email}
+          {isSelf && <span className="text-text-muted"> (you)</span>}
+        </span>
+        <span className="text-xs text-text-muted truncate block">
+          {member.status === 'invited' ? 'Invited' : member.email}
+        </span>
+      </div>
+      {canEdit ? (
+        <div className="flex items-center gap-1">
+          <RoleSelect value={member.role} actorRole={actorRole} onChange={handleRoleChange} disabled={isUpdating} />
+          <button
+            onClick={handleRemove}
+            disabled={isUpdating}
+            className="p-1 text-text-muted hover:text-diff-del transition-colors rounded"
+            title="Remove"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      ) : (
+        <span className="text-xs text-text-muted">{ROLE_LABELS[member.role]}</span>
+      )}
+    </div>
+  );
+}
+
+interface RoleSelectProps {
+  value: OrgRole;
+  actorRole: OrgRole;
+  onChange: (role: OrgRole) => void;
+  disabled?: boolean;
+}
+
+function RoleSelect({ value, actorRole, onChange, disabled }: RoleSelectProps) {
+  const roles = (Object.keys(ROLE_LABELS) as OrgRole[]).filter((role) => canAssignRole(actorRole, role));
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as OrgRole)}
+      disabled={disabled}
+      className="px-2 py-1 text-xs bg-bg-tertiary border border-bg-elevated rounded text-text-primary focus:outline-none focus:ring-1 focus:ring-accent-primary"
+    >
+      {roles.map((role) => (
+        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+      ))}
+    </select>
+  );
+}
+
+interface OrganizationSettingsProps {
+  name: string;
+  slug: string;
+  canDelete: boolean;
+  onUpdate: (updates: { name?: string; slug?: string }) => Promise<{ slug: string } | null>;
+  onDelete: () => Promise<boolean>;
+}
+
+function OrganizationSettings({ name, slug, canDelete, onUpdate, onDelete }: OrganizationSettingsProps) {
+  const [newName, setNewName] = useState(name);
+  const [newSlug, setNewSlug] = useState(slug);
+  const [isSaving, setIsSaving] = useState(false);
+  const changed = newName.trim() !== name || newSlug.trim() !== slug;
+
+  const handleSubmit = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const updated = await onUpdate({ name: newName.trim(), slug: newSlug.trim() });
+    setIsSaving(false);
+
+    // The page is addressed by slug, so follow a rename
+    if (updated && updated.slug !== slug) {
+      window.location.href = `/orgs/${encodeURIComponent(updated.slug)}`;
+    }
+  }, [newName, newSlug, slug, onUpdate]);
+
+  const handleDelete = useCallback(async () => {
+    if (!confirm(`Delete ${name}? Sessions shared with it become private to their owners.`)) return;
+    if (await onDelete()) {
+      window.location.href = '/sessions';
+    }
+  }, [name, onDelete]);
+
+  return (
+    <section>
+      <h2 className="text-sm font-medium text-text-secondary mb-4">Settings</h2>
+      <form onSubmit={handleSubmit} className="space-y-3 p-4 bg-bg-secondary border border-bg-elevated rounded-lg">
+        <div>
+          <label className="block text-xs text-text-muted mb-1">Name</label>
+          <input value={newName} onChange={(e) => setNewName(e.target.value)} maxLength={100} className={`${inputClass} text-sm`} />
+        </div>
+        <div>
+          <label className="block text-xs text-text-muted mb-1">URL</label>
+          <input value={newSlug} onChange={(e) => setNewSlug(e.target.value)} maxLength={MAX_ORG_SLUG_LENGTH} className={`${inputClass} text-sm font-mono`} />
+        </div>
+        <button type="submit" disabled={!changed || !newName.trim() || isSaving} className={`${buttonClass} text-sm`}>
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </form>
+      {canDelete && (
+        <button
+          onClick={handleDelete}
+          className="mt-4 px-3 py-1.5 text-sm text-diff-del border border-diff-del/30 hover:bg-diff-del/10 rounded-md transition-colors"
+        >
+          Delete organization
+        </button>
+      )}
+    </section>
+  );
+}
+
+export function NewOrganizationPage() {
+  const { createOrganization, error } = useOrganizations();
+  const navigate = useNavigate();
+  const [name, setName] = useState('');
+  const [slug, setSlug] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleSubmit = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsCreating(true);
+    const organization = await createOrganization(name.trim(), slug.trim() || undefined);
+    setIsCreating(false);
+
+    if (organization) {
+      navigate(`/orgs/${encodeURIComponent(organization.slug)}`);
+    }
+  }, [name, slug, createOrganization, navigate]);
+
+  return (
+    <div className="max-w-[560px] mx-auto px-6 lg:px-10 py-8">
+      <div className="mb-8">
+        <h1 className="text-xl font-semibold text-text-primary tracking-tight">New organization</h1>
+        <p className="text-sm text-text-secondary mt-2">
+          Share sessions with everyone on your team. You can invite members once it's created.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 mb-6 bg-diff-del/20 border border-diff-del/30 rounded-md text-diff-del text-sm">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4 p-4 bg-bg-secondary border border-bg-elevated rounded-lg">
+        <div>
+          <label className="block text-sm font-medium text-text-secondary mb-2">Name</label>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Acme"
+            maxLength={100}
+            className={inputClass}
+            disabled={isCreating}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-text-secondary mb-2">URL</label>
+          <input
+            value={slug}
+            onChange={(e) => setSlug(e.target.value)}
+            placeholder={slugify(name) || 'acme'}
+            maxLength={MAX_ORG_SLUG_LENGTH}
+            className={`${inputClass} font-mono`}
+            disabled={isCreating}
+          />
+          <p className="text-xs text-text-muted mt-1">Lowercase letters, digits and hyphens. Defaults to one derived from the name.</p>
+        </div>
+        <button type="submit" disabled={!name.trim() || isCreating} className={buttonClass}>
+          {isCreating ? 'Creating...' : 'Create organization'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useAuth, RedirectToSignIn } from '@clerk/react';
 import type { ReactNode } from 'react';
 import { useClerkConfigured } from './AuthContext';
+import { useInitialData } from '../initialData';
 
 interface ProtectedRouteProps {
   children: ReactNode;
@@ -44,11 +45,17 @@ function ProtectedRouteWithClerk({ children }: ProtectedRouteProps) {
  */
 export function ProtectedRoute({ children }: ProtectedRouteProps) {
   const isClerkConfigured = useClerkConfigured();
+  const initialData = useInitialData();
 
   if (!isClerkConfigured) {
     // Clerk not configured - allow access (development mode)
     return <>{children}</>;
   }
 
+  if (initialData) {
+    // Server-rendered page - the server already checked access for this request
+    return <>{children}</>;
+  }
+
   return <ProtectedRouteWithClerk>{children}</ProtectedRouteWithClerk>;
 }
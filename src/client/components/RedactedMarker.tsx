@@ -0,0 +1,17 @@
+interface RedactedMarkerProps {
+  className?: string;
+}
+
+/**
+ * Marks a block whose content contains [REDACTED:...] placeholders.
+ */
+export function RedactedMarker({ className = '' }: RedactedMarkerProps) {
+  return (
+    <span
+      className={`redacted-marker inline-flex items-center px-1.5 py-0.5 bg-bg-tertiary text-text-muted text-[11px] rounded ${className}`}
+      title="Secrets or personal data in this content were redacted"
+    >
+      content redacted
+    </span>
+  );
+}
@@ -0,0 +1,190 @@
+/**
+ * RepositoryPage - Repository lens
+ *
+ * Aggregates accessible sessions for a single repository (repo_url, or project_path fallback):
+ * - Summary stats (sessions, contributors, lines changed, tokens)
+ * - Top contributors
+ * - Most-touched files
+ * - Recent sessions
+ */
+
+import type { ReactNode } from 'react';
+import { SessionRow } from './HomePage';
+import { isSessionLive } from '../lib/sessionUtils';
+import type { Session, RepositoryStats, RepositoryContributor, RepositoryFile } from '../../db/schema';
+
+export interface RepositoryContributorWithUser extends RepositoryContributor {
+  user: {
+    name: string | null;
+    email: string | null;
+    imageUrl: string | null;
+  } | null;
+}
+
+export interface RepositoryPageData {
+  repository: RepositoryStats & { name: string };
+  contributors: RepositoryContributorWithUser[];
+  files: RepositoryFile[];
+  sessions: Session[];
+}
+
+// Format large numbers with K/M suffixes
+function formatNumber(num: number): string {
+  if (num >= 1_000_000) {
+    return `${(num / 1_000_000).toFixed(1)}M`;
+  }
+  if (num >= 1_000) {
+    return `${(num / 1_000).toFixed(1)}K`;
+  }
+  return num.toString();
+}
+
+export function RepositoryPage({ repository, contributors, files, sessions }: RepositoryPageData) {
+  const totalLines = repository.lines_added + repository.lines_removed;
+  const additionsPercent = totalLines > 0 ? Math.round((repository.lines_added / totalLines) * 100) : 0;
+
+  return (
+    <div className="max-w-[1000px] mx-auto px-6 lg:px-10 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="text-xl font-semibold text-text-primary tracking-tight truncate">{repository.name}</h1>
+          {repository.repo_url && /^https?:\/\//.test(repository.repo_url) && (
+            <a
+              href={repository.repo_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="shrink-0 text-xs px-3 py-1.5 rounded-md border border-bg-elevated text-text-secondary hover:text-text-primary hover:bg-bg-tertiary transition-colors"
+            >
+              {repository.repo_url.includes('github.com') ? 'View on GitHub' : 'Open repository'}
+            </a>
+          )}
+        </div>
+        <p className="text-xs text-text-muted font-mono mt-1 truncate">
+          {repository.repo_url || repository.project_path}
+        </p>
+        <p className="text-sm text-text-secondary mt-3">
+          {repository.session_count} session{repository.session_count !== 1 ? 's' : ''}
+          {repository.live_session_count > 0 && ` · ${repository.live_session_count} live`}
+          {` · ${repository.contributor_count} contributor${repository.contributor_count !== 1 ? 's' : ''}`}
+        </p>
+        <p className="text-xs text-text-muted mt-1">
+          Stats based on {repository.session_count} accessible session{repository.session_count !== 1 ? 's' : ''}
+        </p>
+      </div>
+
+      {/* Stats cards */}
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 mb-10">
+        <StatCard title="Code Changes">
+          <div className="text-diff-add">+{repository.lines_added.toLocaleString()} lines</div>
+          <div className="text-diff-del">-{repository.lines_removed.toLocaleString()} lines</div>
+          {totalLines > 0 && <div className="text-xs text-text-muted mt-2">{additionsPercent}% additions</div>}
+        </StatCard>
+        <StatCard title="Token Usage">
+          <div>{formatNumber(repository.input_tokens)} input</div>
+          <div>{formatNumber(repository.output_tokens)} output</div>
+        </StatCard>
+        <StatCard title="Activity">
+          <div>{repository.session_count} sessions</div>
+          <div>{repository.files_changed_count} files</div>
+        </StatCard>
+      </div>
+
+      {/* Contributors */}
+      {contributors.length > 0 && (
+        <section className="mb-10">
+          <h2 className="text-sm font-medium text-text-secondary mb-3">Top Contributors</h2>
+          <div className="grid gap-3 grid-cols-2 sm:grid-cols-3">
+            {contributors.slice(0, 6).map((c) => (
+              <ContributorCard key={c.user_id ?? 'anonymous'} contributor={c} />
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Most-touched files */}
+      {files.length > 0 && (
+        <section className="mb-10">
+          <h2 className="text-sm font-medium text-text-secondary mb-3">Most-touched Files</h2>
+          <div className="border border-bg-elevated rounded-md">
+            {files.map((file, index) => (
+              <div
+                key={file.filename}
+                className={`flex items-center gap-3 px-4 py-2 text-xs ${
+                  index < files.length - 1 ? 'border-b border-bg-elevated/50' : ''
+                }`}
+              >
+                <span className="flex-1 min-w-0 font-mono text-text-primary truncate" title={file.filename}>
+                  {file.filename}
+                </span>
+                <span className="shrink-0 text-text-muted">
+                  {file.session_count} session{file.session_count !== 1 ? 's' : ''}
+                </span>
+                <span className="shrink-0 tabular-nums text-diff-add">+{file.lines_added}</span>
+                <span className="shrink-0 tabular-nums text-diff-del">-{file.lines_removed}</span>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Sessions */}
+      <section>
+        <h2 className="text-sm font-medium text-text-secondary mb-3">
+          Sessions
+          {sessions.length < repository.session_count && (
+            <span className="ml-2 text-text-muted font-normal">
+              (showing {sessions.length} of {repository.session_count})
+            </span>
+          )}
+        </h2>
+        <div className="border border-bg-elevated rounded-md">
+          {sessions.map((session, index) => (
+            <SessionRow
+              key={session.id}
+              session={session}
+              isLive={isSessionLive(session)}
+              isLast={index === sessions.length - 1}
+            />
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+function StatCard({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="bg-bg-secondary border border-bg-elevated rounded-md p-4">
+      <h3 className="text-xs text-text-muted uppercase tracking-wide mb-2">{title}</h3>
+      <div className="text-sm text-text-primary space-y-0.5">{children}</div>
+    </div>
+  );
+}
+
+function ContributorCard({ contributor }: { contributor: RepositoryContributorWithUser }) {
+  const name = contributor.user_id
+    ? contributor.user?.name || contributor.user?.email || 'Unknown user'
+    : 'Anonymous';
+
+  return (
+    <div className="bg-bg-secondary border border-bg-elevated rounded-md p-3">
+      <div className="flex items-center gap-2 mb-2">
+        {contributor.user?.imageUrl ? (
+          <img src={contributor.user.imageUrl} alt="" className="w-6 h-6 rounded-full" />
+        ) : (
+          <span className="w-6 h-6 rounded-full bg-bg-tertiary text-text-muted text-xs flex items-center justify-center">?</span>
+        )}
+        <span className="text-sm text-text-primary truncate">{name}</span>
+      </div>
+      <div className="text-xs text-text-muted">
+        {contributor.session_count} session{contributor.session_count !== 1 ? 's' : ''}
+      </div>
+      <div className="text-xs tabular-nums">
+        <span className="text-diff-add">+{formatNumber(contributor.lines_added)}</span>
+        {' / '}
+        <span className="text-diff-del">-{formatNumber(contributor.lines_removed)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState, useEffect } from "react";
+import type { Review, ResolvedAnnotation, ReviewVersion } from "../../db/schema";
+import type { ReviewRequest } from "../hooks";
+
+interface ReviewBarProps {
+  review: Review | null;
+  reviews?: ReviewVersion[];
+  resolvedAnnotations?: ResolvedAnnotation[];
+  onVersionSelect?: (version: number) => void;
+  reviewRequest: ReviewRequest;
+}
+
+const OUTCOME_LABELS: Record<ResolvedAnnotation["outcome"], string> = {
+  line_removed: "line removed",
+  line_changed: "line changed",
+};
+
+function versionLabel(version: ReviewVersion): string {
+  const parts = [`v${version.version}`];
+  if (version.model) parts.push(version.model);
+  parts.push(new Date(version.created_at).toLocaleDateString());
+  return parts.join(" · ");
+}
+
+function formatElapsed(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * The session's code review summary, with an action to (re)generate it on a
+ * connected daemon and the progress of a review being generated. Earlier
+ * review versions can be picked; their findings that later diffs removed or
+ * changed are listed below the summary.
+ */
+export function ReviewBar({ review, reviews = [], resolvedAnnotations = [], onVersionSelect, reviewRequest }: ReviewBarProps) {
+  const { pending, canRequest, error, request } = reviewRequest;
+  const [requesting, setRequesting] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+
+  useEffect(() => {
+    if (!pending) return;
+    const startedAt = new Date(pending.requested_at).getTime();
+    const tick = () => setElapsed(Math.max(0, Math.floor((Date.now() - startedAt) / 1000)));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [pending]);
+
+  if (!review && !pending && !error && !canRequest) return null;
+
+  const submit = async () => {
+    setRequesting(true);
+    await request();
+    setRequesting(false);
+  };
+
+  return (
+    <div className="mb-4 rounded-md border border-bg-elevated bg-bg-secondary px-3 py-2 text-xs">
+      <div className="flex items-center gap-3">
+        <span className="font-semibold text-text-primary">Code review</span>
+        {review && reviews.length > 1 && onVersionSelect ? (
+          <select
+            value={review.version}
+            onChange={(e) => onVersionSelect(parseInt(e.target.value, 10))}
+            aria-label="Review version"
+            className="px-2 py-1 text-xs bg-bg-tertiary border border-bg-elevated rounded text-text-primary focus:outline-none focus:ring-1 focus:ring-accent-primary"
+          >
+            {reviews.map((version) => (
+              <option key={version.id} value={version.version}>
+                {versionLabel(version)} ({version.annotation_count})
+              </option>
+            ))}
+          </select>
+        ) : (
+          review?.model && <span className="text-text-muted">{review.model}</span>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          {pending ? (
+            <span className="text-text-muted tabular-nums">
+              {pending.stage === "queued" ? "Waiting for daemon" : "Reviewing"}... {formatElapsed(elapsed)}
+            </span>
+          ) : canRequest && (
+            <button
+              onClick={submit}
+              disabled={requesting}
+              className="px-2 py-1 font-medium text-text-secondary hover:text-text-primary hover:bg-bg-elevated rounded disabled:opacity-50 transition-colors"
+            >
+              {review ? "Re-run review" : "Request review"}
+            </button>
+          )}
+        </div>
+      </div>
+      {review?.summary && (
+        <p className="mt-1.5 text-text-secondary leading-relaxed">{review.summary}</p>
+      )}
+      {resolvedAnnotations.length > 0 && (
+        <details className="mt-1.5">
+          <summary className="cursor-pointer text-text-muted">
+            {resolvedAnnotations.length} finding{resolvedAnnotations.length !== 1 ? "s" : ""} resolved by later changes
+          </summary>
+          <ul className="mt-1 space-y-1">
+            {resolvedAnnotations.map((annotation) => (
+              <li key={annotation.id} className="text-text-secondary">
+                <span className="font-mono text-text-muted">
+                  {annotation.filename}:{annotation.line_number}
+                </span>{" "}
+                <span className="line-through">{annotation.content}</span>{" "}
+                <span className="text-text-muted">({OUTCOME_LABELS[annotation.outcome]})</span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {!review && !pending && !error && (
+        <p className="mt-1.5 text-text-muted">No review yet. A connected daemon can review this diff.</p>
+      )}
+      {error && <p className="mt-1.5 text-diff-del">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import type { ReviewAuthor, ReviewThreadView } from '../../db/schema';
+
+function authorName(author: ReviewAuthor): string {
+  return author?.name || author?.email || 'Unknown user';
+}
+
+function formatCommentDate(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function Avatar({ author }: { author: ReviewAuthor }) {
+  const name = authorName(author);
+  return (
+    <div className="w-6 h-6 rounded-full bg-bg-elevated flex items-center justify-center text-[10px] font-medium text-text-secondary shrink-0">
+      {author?.imageUrl ? (
+        <img src={author.imageUrl} alt={name} className="w-6 h-6 rounded-full" />
+      ) : (
+        name.slice(0, 2).toUpperCase()
+      )}
+    </div>
+  );
+}
+
+interface ReviewCommentFormProps {
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (content: string) => Promise<boolean>;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+}
+
+export function ReviewCommentForm({ placeholder, submitLabel, onSubmit, onCancel, autoFocus }: ReviewCommentFormProps) {
+  const [content, setContent] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const submit = async () => {
+    if (!content.trim() || submitting) return;
+    setSubmitting(true);
+    const ok = await onSubmit(content.trim());
+    setSubmitting(false);
+    if (ok) setContent('');
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            submit();
+          } else if (e.key === 'Escape' && onCancel) {
+            onCancel();
+          }
+        }}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        rows={2}
+        className="w-full px-3 py-2 text-sm bg-bg-primary border border-bg-elevated rounded-md text-text-primary placeholder:text-text-muted focus:outline-none focus:border-accent-primary resize-y font-sans"
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 text-xs text-text-muted hover:text-text-primary rounded transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          onClick={submit}
+          disabled={!content.trim() || submitting}
+          className="px-3 py-1 text-xs font-medium bg-accent-primary text-white rounded disabled:opacity-50 transition-colors"
+        >
+          {submitting ? 'Posting...' : submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface ReviewThreadCardProps {
+  thread: ReviewThreadView;
+  canComment: boolean;
+  onReply: (threadId: number, content: string) => Promise<boolean>;
+  onSetResolved: (threadId: number, resolved: boolean) => Promise<boolean>;
+}
+
+/**
+ * A review thread under a diff line. Resolved threads collapse to a one-line
+ * summary that can be expanded again.
+ */
+export function ReviewThreadCard({ thread, canComment, onReply, onSetResolved }: ReviewThreadCardProps) {
+  const resolved = thread.resolved_at !== null;
+  const [expanded, setExpanded] = useState(!resolved);
+  const [replying, setReplying] = useState(false);
+  const first = thread.comments[0];
+
+  if (resolved && !expanded) {
+    return (
+      <div className="bg-bg-tertiary border border-bg-elevated rounded-lg px-4 py-2 my-3 mx-4 flex items-center gap-2 text-xs text-text-muted font-sans">
+        <span className="px-2 py-0.5 rounded bg-diff-add/20 text-diff-add font-medium">resolved</span>
+        <span className="truncate">
+          {authorName(first?.author ?? null)}: {first?.content}
+        </span>
+        <button
+          onClick={() => setExpanded(true)}
+          className="ml-auto shrink-0 px-2 py-1 hover:text-text-primary hover:bg-bg-elevated rounded transition-colors"
+        >
+          Show {thread.comments.length} comment{thread.comments.length !== 1 ? 's' : ''}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-bg-tertiary border border-bg-elevated rounded-lg p-4 my-3 mx-4 font-sans">
+      <div className="flex flex-col gap-3">
+        {thread.comments.map((comment) => (
+          <div key={comment.id} className="flex gap-3">
+            <Avatar author={comment.author} />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-baseline gap-2">
+                <span className="text-sm font-semibold text-text-primary">{authorName(comment.author)}</span>
+                <span className="text-xs text-text-muted">{formatCommentDate(comment.created_at)}</span>
+              </div>
+              <p className="text-[15px] text-text-primary leading-relaxed whitespace-pre-wrap break-words">
+                {comment.content}
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {replying && (
+        <div className="mt-3">
+          <ReviewCommentForm
+            placeholder="Reply..."
+            submitLabel="Reply"
+            autoFocus
+            onSubmit={async (content) => {
+              const ok = await onReply(thread.id, content);
+              if (ok) setReplying(false);
+              return ok;
+            }}
+            onCancel={() => setReplying(false)}
+          />
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 mt-3 text-xs text-text-muted">
+        {resolved && (
+          <span>Resolved by {authorName(thread.resolved_by)}</span>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          {resolved && (
+            <button
+              onClick={() => setExpanded(false)}
+              className="px-2 py-1 hover:text-text-primary hover:bg-bg-elevated rounded transition-colors"
+            >
+              Collapse
+            </button>
+          )}
+          {canComment && !replying && !resolved && (
+            <button
+              onClick={() => setReplying(true)}
+              className="px-2 py-1 hover:text-text-primary hover:bg-bg-elevated rounded transition-colors"
+            >
+              Reply
+            </button>
+          )}
+          {canComment && (
+            <button
+              onClick={async () => {
+                const ok = await onSetResolved(thread.id, !resolved);
+                if (ok) setExpanded(resolved);
+              }}
+              className="px-2 py-1 hover:text-text-primary hover:bg-bg-elevated rounded transition-colors"
+            >
+              {resolved ? 'Unresolve' : 'Resolve'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,23 @@
 import { useState, useCallback, useRef, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 import { MessageList, type MessageListHandle } from "./MessageList";
 import { DiffPanel } from "./DiffPanel";
 import { ShareModal } from "./ShareModal";
 import { SessionView } from "./SessionView";
-import { useToast, useClipboard } from "../hooks";
-import type { Session, Message, Diff, Review, Annotation } from "../../db/schema";
+import { useToast, useClipboard, useReviewThreads, useReviewRequest } from "../hooks";
+import type { Session, Message, Diff, Review, Annotation, SessionCommit, DiffSnapshotSummary, ResolvedAnnotation, ReviewVersion } from "../../db/schema";
 
 interface SessionDetailPageProps {
   session: Session;
   messages: Message[];
   diffs: Diff[];
+  commits?: SessionCommit[];
+  snapshots?: DiffSnapshotSummary[];
   shareUrl: string | null;
   review?: Review | null;
   annotationsByDiff: Record<number, Annotation[]>;
+  resolvedAnnotations?: ResolvedAnnotation[];
+  reviews?: ReviewVersion[];
   isOwner?: boolean;
   pendingInvite?: boolean;
 }
@@ -25,7 +30,7 @@ interface InteractiveState {
 }
 
 export function SessionDetailPage(props: SessionDetailPageProps) {
-  const { session, messages, diffs, shareUrl, review, annotationsByDiff, isOwner = true, pendingInvite = false } = props;
+  const { session, messages, diffs, commits = [], snapshots = [], shareUrl, review, annotationsByDiff, resolvedAnnotations = [], reviews = [], isOwner = true, pendingInvite = false } = props;
 
   // State
   const [showShareModal, setShowShareModal] = useState(false);
@@ -43,12 +48,19 @@ export function SessionDetailPage(props: SessionDetailPageProps) {
     pendingFeedback: [],
   });
   const [currentDiffs, setCurrentDiffs] = useState(diffs);
+  const [currentCommits, setCurrentCommits] = useState(commits);
+  const [currentSnapshots, setCurrentSnapshots] = useState(snapshots);
+  const [visibleMessageIndex, setVisibleMessageIndex] = useState<number | null>(null);
   const [currentAnnotationsByDiff, setCurrentAnnotationsByDiff] = useState(annotationsByDiff);
   const [currentReview, setCurrentReview] = useState(review);
+  const [currentResolvedAnnotations, setCurrentResolvedAnnotations] = useState(resolvedAnnotations);
+  const [currentReviews, setCurrentReviews] = useState(reviews);
 
   // Refs
   const messageListHandleRef = useRef<MessageListHandle | null>(null);
   const isMountedRef = useRef(true);
+  // Review version picked by the user; null follows the latest review
+  const selectedVersionRef = useRef<number | null>(null);
 
   // Track mounted state for async callbacks
   useEffect(() => {
@@ -61,10 +73,58 @@ export function SessionDetailPage(props: SessionDetailPageProps) {
   // Hooks
   const { showToast } = useToast();
   const { copy } = useClipboard();
+  const reviewThreads = useReviewThreads(session.id);
+
+  useEffect(() => {
+    if (reviewThreads.error) {
+      showToast(reviewThreads.error, "error");
+    }
+  }, [reviewThreads.error, showToast]);
+
+  // Load the selected review version, placed on the current diffs
+  const loadReview = useCallback(async () => {
+    const version = selectedVersionRef.current;
+    const query = version !== null ? `?version=${version}` : "";
+    const res = await fetch(`/api/sessions/${encodeURIComponent(session.id)}/annotations${query}`);
+    if (!isMountedRef.current || !res.ok) return;
+    const data = await res.json();
+    if (!isMountedRef.current) return;
+    setCurrentAnnotationsByDiff(data?.annotations_by_diff || {});
+    setCurrentReview(data?.review || null);
+    setCurrentResolvedAnnotations(data?.resolved_annotations || []);
+    setCurrentReviews(data?.reviews || []);
+  }, [session.id]);
+
+  const selectReviewVersion = useCallback(async (version: number) => {
+    selectedVersionRef.current = version;
+    try {
+      await loadReview();
+    } catch (error) {
+      if (!isMountedRef.current) return;
+      console.error("Failed to load review:", error);
+    }
+  }, [loadReview]);
+
+  // A requested review added a new version; switch to it
+  const handleReviewComplete = useCallback(async () => {
+    selectedVersionRef.current = null;
+    try {
+      await loadReview();
+    } catch (error) {
+      if (!isMountedRef.current) return;
+      console.error("Failed to load review:", error);
+    }
+  }, [loadReview]);
+  const reviewRequest = useReviewRequest(session.id, handleReviewComplete);
 
   // Derived state
   const isLive = sessionStatus === "live";
 
+  // Search results link to ?m=<message_index> to jump to the matching turn
+  const [searchParams] = useSearchParams();
+  const focusParam = searchParams.get("m");
+  const focusMessageIndex = focusParam !== null && /^\d+$/.test(focusParam) ? parseInt(focusParam, 10) : null;
+
   // Callbacks for MessageList
   const handleSessionComplete = useCallback(() => {
     setSessionStatus("complete");
@@ -83,22 +143,17 @@ export function SessionDetailPage(props: SessionDetailPageProps) {
         const data = await res.json();
         if (!isMountedRef.current) return;
         setCurrentDiffs(data.diffs || []);
+        setCurrentCommits(data.commits || []);
+        setCurrentSnapshots(data.snapshots || []);
       }
 
-      // Also fetch annotations
-      const annotationsRes = await fetch(`/api/sessions/${encodeURIComponent(session.id)}/annotations`);
-      if (!isMountedRef.current) return;
-      if (annotationsRes.ok) {
-        const annotationsData = await annotationsRes.json();
-        if (!isMountedRef.current) return;
-        setCurrentAnnotationsByDiff(annotationsData?.annotations_by_diff || {});
-        setCurrentReview(annotationsData?.review || null);
-      }
+      // Also re-place the review's annotations on the new diffs
+      await loadReview();
     } catch (error) {
       if (!isMountedRef.current) return;
       console.error("Failed to update diffs:", error);
     }
-  }, [session.id]);
+  }, [session.id, loadReview]);
 
   const handleInteractiveInfo = useCallback((interactive: boolean, claudeState: string) => {
     setInteractiveState((s) => ({
@@ -195,6 +250,11 @@ export function SessionDetailPage(props: SessionDetailPageProps) {
     }
   }, [session.id, showToast]);
 
+  // Scroll the conversation to a diff snapshot picked on the timeline
+  const scrollToMessage = useCallback((messageIndex: number) => {
+    messageListHandleRef.current?.scrollToMessage(messageIndex);
+  }, []);
+
   // Submit feedback
   const submitFeedback = useCallback((content: string) => {
     messageListHandleRef.current?.sendFeedback(content);
@@ -229,6 +289,8 @@ export function SessionDetailPage(props: SessionDetailPageProps) {
           onHandle={(handle) => {
             messageListHandleRef.current = handle;
           }}
+          focusMessageIndex={focusMessageIndex}
+          onVisibleMessageChange={setVisibleMessageIndex}
         />
       </div>
     </div>
@@ -236,7 +298,21 @@ export function SessionDetailPage(props: SessionDetailPageProps) {
 
   // Diff panel content
   const diffContent = currentDiffs.length > 0 ? (
-    <DiffPanel diffs={currentDiffs} annotationsByDiff={currentAnnotationsByDiff} review={currentReview || null} />
+    <DiffPanel
+      diffs={currentDiffs}
+      annotationsByDiff={currentAnnotationsByDiff}
+      review={currentReview || null}
+      reviews={currentReviews}
+      resolvedAnnotations={currentResolvedAnnotations}
+      onReviewVersionSelect={selectReviewVersion}
+      commits={currentCommits}
+      sessionId={session.id}
+      snapshots={currentSnapshots}
+      visibleMessageIndex={visibleMessageIndex}
+      onSnapshotSelect={scrollToMessage}
+      reviewThreads={reviewThreads}
+      reviewRequest={reviewRequest}
+    />
   ) : null;
 
   // Feedback input for interactive sessions
@@ -1,10 +1,10 @@
-import { useState, useMemo, useCallback } from 'react';
+import { useState, useMemo, useCallback, type ReactNode } from 'react';
 import { Link } from 'react-router-dom';
 import { stripSystemTags } from '../blocks';
 import { useDaemonStatus } from '../hooks/useDaemonStatus';
 import { NewSessionButton } from './NewSessionButton';
-import { useClipboard } from '../hooks';
-import type { Session } from '../../db/schema';
+import { useClipboard, useSessionSearch } from '../hooks';
+import type { Session, SearchHit } from '../../db/schema';
 
 interface SessionListPageProps {
   sessions: Session[];
@@ -13,6 +13,7 @@ interface SessionListPageProps {
 export function SessionListPage({ sessions }: SessionListPageProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const daemonStatus = useDaemonStatus();
+  const contentSearch = useSessionSearch(searchQuery);
 
   // Derive filtered sessions from search query (Vercel: rerender-derived-state)
   const filteredSessions = useMemo(() => {
@@ -54,7 +55,7 @@ export function SessionListPage({ sessions }: SessionListPageProps) {
       {sessions.length === 0 ? (
         <EmptyState daemonConnected={daemonStatus.connected} />
       ) : filteredSessions.length === 0 ? (
-        <NoResults />
+        contentSearch.results.length === 0 && !contentSearch.loading && <NoResults />
       ) : (
         <div className="sessions-grid grid gap-5 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
           {filteredSessions.map((session) => (
@@ -66,10 +67,72 @@ export function SessionListPage({ sessions }: SessionListPageProps) {
           ))}
         </div>
       )}
+
+      {sessions.length > 0 && (contentSearch.loading || contentSearch.results.length > 0) && (
+        <ContentMatches results={contentSearch.results} loading={contentSearch.loading} />
+      )}
     </div>
   );
 }
 
+interface ContentMatchesProps {
+  results: SearchHit[];
+  loading: boolean;
+}
+
+function ContentMatches({ results, loading }: ContentMatchesProps) {
+  return (
+    <section className="mt-10">
+      <h2 className="text-sm font-medium text-text-secondary mb-3">
+        Matches in session content
+        {loading && <span className="ml-2 text-text-muted font-normal">Searching...</span>}
+      </h2>
+      <ul className="flex flex-col gap-2">
+        {results.map((hit, i) => (
+          <li key={`${hit.session_id}-${hit.kind}-${hit.message_index ?? hit.filename}-${i}`}>
+            <Link
+              to={searchHitUrl(hit)}
+              className="block bg-bg-secondary border border-bg-elevated rounded-md px-4 py-3 hover:bg-bg-tertiary hover:border-bg-hover transition-colors"
+            >
+              <div className="flex items-center gap-2 mb-1 text-xs text-text-muted">
+                <span className="text-text-primary font-medium truncate">{stripSystemTags(hit.session_title)}</span>
+                <span>·</span>
+                <span className="shrink-0 font-mono text-[11px]">
+                  {hit.kind === 'diff' ? hit.filename || 'diff' : `message ${(hit.message_index ?? 0) + 1}`}
+                </span>
+              </div>
+              <p className="text-sm text-text-secondary line-clamp-2 break-words">
+                <HighlightedSnippet snippet={hit.snippet} highlights={hit.highlights} />
+              </p>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+function searchHitUrl(hit: SearchHit): string {
+  const base = `/sessions/${encodeURIComponent(hit.session_id)}`;
+  return hit.message_index !== null ? `${base}?m=${hit.message_index}` : base;
+}
+
+function HighlightedSnippet({ snippet, highlights }: { snippet: string; highlights: Array<[number, number]> }) {
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  for (const [start, end] of highlights) {
+    if (start > cursor) parts.push(snippet.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="bg-accent-primary/20 text-text-primary rounded-sm px-0.5">
+        {snippet.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  }
+  if (cursor < snippet.length) parts.push(snippet.slice(cursor));
+  return <>{parts}</>;
+}
+
 interface EmptyStateProps {
   daemonConnected: boolean;
 }
@@ -131,12 +194,12 @@ function NoResults() {
   );
 }
 
-interface SessionCardProps {
+export interface SessionCardProps {
   session: Session;
   isLive: boolean;
 }
 
-function SessionCard({ session, isLive }: SessionCardProps) {
+export function SessionCard({ session, isLive }: SessionCardProps) {
   const date = new Date(session.created_at).toLocaleDateString('en-US', {
     year: 'numeric',
     month: 'short',
@@ -356,6 +356,16 @@ function SessionViewHeader({
               </Badge>
             )}
 
+            {/* Redaction badge */}
+            {session.redaction_count > 0 && (
+              <span
+                className="px-2 py-0.5 bg-bg-tertiary text-text-muted text-xs rounded-md"
+                title="Secrets and personal data were removed before storage"
+              >
+                {session.redaction_count} redacted
+              </span>
+            )}
+
             {/* Remote badge */}
             {mode === "remote" && (
               <span className="px-2 py-0.5 bg-purple-900/50 text-purple-300 text-xs rounded-md font-medium">
@@ -375,8 +385,8 @@ function SessionViewHeader({
               <ConnectionStatusBadge status={connectionStatus} />
             )}
 
-            {/* Time */}
-            <span className="text-xs text-text-muted tabular-nums">{timeDisplay}</span>
+            {/* Time - local time, so it can differ from the server-rendered text */}
+            <span className="text-xs text-text-muted tabular-nums" suppressHydrationWarning>{timeDisplay}</span>
           </div>
 
           {/* Right: Actions */}
@@ -1,5 +1,6 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { useCollaborators, type Collaborator, type AuditLogEntry } from '../hooks/useCollaborators';
+import { useOrganizations, type OrganizationSummary } from '../hooks/useOrganizations';
 import type { CollaboratorRole, SessionVisibility } from '../../db/schema';
 
 interface ShareModalProps {
@@ -30,6 +31,7 @@ export function ShareModal({
   const {
     collaborators,
     visibility,
+    orgId,
     auditLogs,
     loading,
     error,
@@ -38,6 +40,7 @@ export function ShareModal({
     removeCollaborator,
     setVisibility,
   } = useCollaborators(sessionId);
+  const { organizations } = useOrganizations();
 
   // Close on escape
   useEffect(() => {
@@ -71,9 +74,9 @@ export function ShareModal({
     }
   }, [newEmail, newRole, isOwner, addCollaborator]);
 
-  const handleVisibilityChange = useCallback(async (newVisibility: SessionVisibility) => {
+  const handleVisibilityChange = useCallback(async (newVisibility: SessionVisibility, newOrgId?: string) => {
     if (!isOwner) return;
-    await setVisibility(newVisibility);
+    await setVisibility(newVisibility, newOrgId);
   }, [isOwner, setVisibility]);
 
   return (
@@ -120,6 +123,8 @@ export function ShareModal({
             <PeopleTab
               collaborators={collaborators}
               visibility={visibility}
+              orgId={orgId}
+              organizations={organizations}
               loading={loading}
               isOwner={isOwner}
               newEmail={newEmail}
@@ -173,6 +178,8 @@ function TabButton({ active, onClick, children }: { active: boolean; onClick: ()
 interface PeopleTabProps {
   collaborators: Collaborator[];
   visibility: SessionVisibility;
+  orgId: string | null;
+  organizations: OrganizationSummary[];
   loading: boolean;
   isOwner: boolean;
   newEmail: string;
@@ -184,12 +191,14 @@ interface PeopleTabProps {
   onAdd: (e: React.FormEvent) => void;
   onUpdateRole: (id: number, role: CollaboratorRole) => Promise<boolean>;
   onRemove: (id: number) => Promise<boolean>;
-  onVisibilityChange: (visibility: SessionVisibility) => void;
+  onVisibilityChange: (visibility: SessionVisibility, orgId?: string) => void;
 }
 
 function PeopleTab({
   collaborators,
   visibility,
+  orgId,
+  organizations,
   loading,
   isOwner,
   newEmail,
@@ -236,6 +245,21 @@ function PeopleTab({
             description="Anyone with the link"
           />
         </div>
+        {organizations.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {organizations.map((org) => (
+              <VisibilityButton
+                key={org.id}
+                active={visibility === 'org' && orgId === org.id}
+                disabled={!isOwner}
+                onClick={() => onVisibilityChange('org', org.id)}
+                icon={<TeamIcon />}
+                label={`Everyone at ${org.name}`}
+                description="Members of the organization"
+              />
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Add collaborator form */}
@@ -496,6 +520,8 @@ function LinkTab({ shareUrl, visibility, onCopy, onCreateShareLink }: LinkTabPro
         <p className="text-xs text-text-muted">
           {visibility === 'public'
             ? 'Anyone with the link can view this session.'
+            : visibility === 'org'
+            ? 'Members of the organization and people you add as collaborators can access this session. The share link provides read-only access.'
             : 'Only people you add as collaborators can access this session. The share link provides read-only access.'}
         </p>
       </div>
@@ -575,6 +601,18 @@ function ActivityLogItem({ log }: { log: AuditLogEntry }) {
             <span className="font-medium">{log.new_value}</span>
           </>
         );
+      case 'review_thread_created':
+        return (
+          <>
+            commented on <span className="font-medium text-text-primary font-mono">{log.new_value}</span>
+          </>
+        );
+      case 'review_comment_added':
+        return 'replied to a review thread';
+      case 'review_thread_resolved':
+        return 'resolved a review thread';
+      case 'review_thread_reopened':
+        return 'reopened a review thread';
       default:
         return log.action;
     }
@@ -609,6 +647,14 @@ function LockIcon() {
   );
 }
 
+function TeamIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+    </svg>
+  );
+}
+
 function GlobeIcon() {
   return (
     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
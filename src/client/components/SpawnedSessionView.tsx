@@ -1,10 +1,12 @@
 import { useState, useCallback, useMemo, useRef, useEffect } from "react";
 import {
   useSpawnedSession,
+  partialToStreamMessage,
   type QuestionPrompt,
   type PermissionPrompt,
   type ControlRequestPrompt as ControlRequestPromptType,
   type ParsedDiff,
+  type PolicyDecision,
 } from "../hooks/useSpawnedSession";
 import { ControlRequestPrompt } from "./ControlRequestPrompt";
 import { SessionView } from "./SessionView";
@@ -65,8 +67,10 @@ export function SpawnedSessionView({
   const {
     state,
     messages,
+    partialMessage,
     error,
     diffs,
+    policyDecisions,
     canResume,
     daemonConnected,
     isResuming,
@@ -116,10 +120,16 @@ export function SpawnedSessionView({
     checkSessionAccess();
   }, [sessionId]);
 
+  // Show streamed text as the latest assistant message until the complete message lands
+  const displayedMessages = useMemo(
+    () => (partialMessage ? [...messages, partialToStreamMessage(partialMessage)] : messages),
+    [messages, partialMessage]
+  );
+
   // Convert StreamMessages to Message format for MessageBlock
   // Filter out messages with no renderable content (system init, result without content, etc.)
   const convertedMessages: Message[] = useMemo(() => {
-    return messages
+    return displayedMessages
       .filter((msg) => {
         // Keep user and assistant messages that have content
         if (msg.type === "user" || msg.type === "assistant") {
@@ -169,7 +179,7 @@ export function SpawnedSessionView({
           timestamp: new Date().toISOString(),
         };
       });
-  }, [messages, sessionId]);
+  }, [displayedMessages, sessionId]);
 
   // Build tool result map for AgentTurn
   const toolResults = useMemo(() => {
@@ -205,6 +215,9 @@ export function SpawnedSessionView({
     repo_url: null,
     branch: null,
     visibility: "private",
+    org_id: null,
+    base_sha: null,
+    head_sha: null,
     last_activity_at: null,
     remote: true,
   }), [sessionId, title, state, startTime, harness, model, cwd]);
@@ -247,7 +260,7 @@ export function SpawnedSessionView({
         setShowNewMessagesButton(true);
       }
     }
-  }, [convertedMessages.length]);
+  }, [convertedMessages.length, partialMessage]);
 
   // Scroll handler
   const handleScroll = useCallback(() => {
@@ -409,11 +422,15 @@ export function SpawnedSessionView({
                   key={`agent-${turn.messages[0]?.id ?? i}`}
                   messages={turn.messages}
                   toolResults={toolResults}
+                  streaming={partialMessage !== null && i === turns.length - 1}
                 />
               );
             }
           })}
 
+          {/* Tool calls the daemon's permission policy answered without asking */}
+          {policyDecisions.length > 0 && <PolicyDecisionList decisions={policyDecisions} />}
+
           {/* Control request prompt (inline, SDK format) */}
           {controlRequest && (
             <ControlRequestPrompt
@@ -424,7 +441,7 @@ export function SpawnedSessionView({
           )}
 
           {/* Typing indicator */}
-          {showTypingIndicator && <TypingIndicator />}
+          {showTypingIndicator && !partialMessage && <TypingIndicator />}
         </div>
       </div>
 
@@ -646,6 +663,41 @@ function SpawnedDiffPanel({ diffs }: SpawnedDiffPanelProps) {
   );
 }
 
+interface PolicyDecisionListProps {
+  decisions: PolicyDecision[];
+}
+
+function PolicyDecisionList({ decisions }: PolicyDecisionListProps) {
+  const [expanded, setExpanded] = useState(false);
+  // The latest few stay visible; older ones fold away so long sessions don't fill up with them
+  const visible = expanded ? decisions : decisions.slice(-3);
+  const hiddenCount = decisions.length - visible.length;
+
+  return (
+    <div className="flex flex-col gap-1 text-xs text-text-muted">
+      {hiddenCount > 0 && (
+        <button
+          className="self-start hover:text-text-primary transition-colors"
+          onClick={() => setExpanded(true)}
+        >
+          Show {hiddenCount} earlier policy decision{hiddenCount !== 1 ? "s" : ""}
+        </button>
+      )}
+      {visible.map((d) => (
+        <div key={d.requestId} className="flex items-center gap-2" title={d.rule}>
+          <span className={d.decision === "allowed" ? "text-diff-add" : "text-diff-del"}>
+            {d.decision === "allowed" ? "\u2713" : "\u2717"}
+          </span>
+          <span className="truncate">{d.description}</span>
+          <span className="shrink-0 text-text-muted/60">
+            {d.decision === "allowed" ? "auto-approved by policy" : "auto-denied by policy"}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function TypingIndicator() {
   return (
     <div className="agent-turn">
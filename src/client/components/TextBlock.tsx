@@ -1,22 +1,26 @@
 import { useState, useEffect, useRef } from 'react';
-import { formatMarkdown, stripSystemTags } from '../blocks';
+import { formatMarkdown, stripSystemTags, containsRedaction } from '../blocks';
+import { RedactedMarker } from './RedactedMarker';
 import type { SupportedLanguages } from '@pierre/diffs';
 
 interface TextBlockProps {
   text: string;
+  /** Text is still arriving; shows a cursor and defers code highlighting */
+  streaming?: boolean;
 }
 
-export function TextBlock({ text }: TextBlockProps) {
+export function TextBlock({ text, streaming = false }: TextBlockProps) {
   const containerRef = useRef<HTMLDivElement>(null);
 
   // Check for command/skill prompt
   const commandInfo = extractCommandInfo(text);
 
   useEffect(() => {
-    if (containerRef.current) {
+    // Highlighting is async and replaces the code block, so wait until the text is final
+    if (containerRef.current && !streaming) {
       initializeCodeBlocks(containerRef.current);
     }
-  }, [text]);
+  }, [text, streaming]);
 
   if (commandInfo) {
     return <CommandBlock info={commandInfo} />;
@@ -28,11 +32,15 @@ export function TextBlock({ text }: TextBlockProps) {
   }
 
   return (
-    <div
-      ref={containerRef}
-      className="text-block"
-      dangerouslySetInnerHTML={{ __html: formatMarkdown(cleaned) }}
-    />
+    <>
+      <div
+        ref={containerRef}
+        className="text-block"
+        dangerouslySetInnerHTML={{ __html: formatMarkdown(cleaned) }}
+      />
+      {streaming && <span className="inline-block w-1.5 h-4 bg-text-muted animate-pulse align-text-bottom" aria-hidden="true" />}
+      {containsRedaction(cleaned) && <RedactedMarker className="mt-1" />}
+    </>
   );
 }
 
@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
-import { formatMarkdown, escapeHtml, getToolIcon, stripSystemTags, extractText } from '../blocks';
+import { formatMarkdown, escapeHtml, getToolIcon, stripSystemTags, extractText, containsRedaction } from '../blocks';
+import { RedactedMarker } from './RedactedMarker';
 import type { ToolUseBlock as ToolUseBlockType, ToolResultBlock } from '../../db/schema';
 
 interface ToolBlockProps {
@@ -39,8 +40,10 @@ function getToolSummary(block: ToolUseBlockType): string {
     case 'Read':
     case 'Write':
     case 'Edit':
+    case 'apply_patch':
       return getDisplayPath(String(input.file_path || ''));
-    case 'Bash': {
+    case 'Bash':
+    case 'shell': {
       const cmd = String(input.command || '');
       return cmd.length > 40 ? cmd.slice(0, 40) + '...' : cmd;
     }
@@ -56,7 +59,7 @@ function getToolSummary(block: ToolUseBlockType): string {
 
 function getFullPath(block: ToolUseBlockType): string | null {
   const input = block.input as Record<string, unknown>;
-  if (['Read', 'Write', 'Edit'].includes(block.name)) {
+  if (['Read', 'Write', 'Edit', 'apply_patch'].includes(block.name)) {
     return String(input.file_path || '') || null;
   }
   return null;
@@ -126,6 +129,7 @@ function GenericToolBlock({ block, result, expanded, setExpanded }: GenericToolB
   const status = getStatus(result);
   const blockId = `tool-${block.id}`;
   const icon = getToolIcon(block.name);
+  const redacted = containsRedaction(block.input) || containsRedaction(result?.content);
 
   const handleToggle = useCallback(() => {
     setExpanded(!expanded);
@@ -156,6 +160,7 @@ function GenericToolBlock({ block, result, expanded, setExpanded }: GenericToolB
         <span className="text-[13px] font-medium text-text-primary">{block.name}</span>
         <span className="font-mono text-[13px] text-text-muted">{summary}</span>
         <span dangerouslySetInnerHTML={{ __html: status }} />
+        {redacted && <RedactedMarker />}
         <span className="toggle-icon text-text-muted text-[10px]">
           {expanded ? '\u25BC' : '\u25B6'}
         </span>
@@ -1,8 +1,10 @@
 import { Show, SignInButton, UserButton, useAuth } from '@clerk/react';
 import { useClerkConfigured } from './AuthContext';
+import { OrgSwitcher } from './OrgSwitcher';
 
 /**
- * User menu component that shows sign-in button or user avatar.
+ * User menu component that shows sign-in button or user avatar, with the
+ * organization switcher for signed-in users.
  * Gracefully handles cases where Clerk is not configured.
  */
 export function UserMenu() {
@@ -23,6 +25,7 @@ export function UserMenu() {
         </SignInButton>
       </Show>
       <Show when='signed-in'>
+        <OrgSwitcher />
         <UserButton
           appearance={{
             elements: {
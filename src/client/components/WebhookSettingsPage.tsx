@@ -0,0 +1,421 @@
+/**
+ * WebhookSettingsPage - Outbound webhooks
+ *
+ * Lets users register HTTP endpoints for session lifecycle events:
+ * - Create webhooks for your sessions or an organization's (the signing secret is shown once)
+ * - Toggle, edit events, delete
+ * - Send a test ping and inspect the delivery log
+ */
+
+import { useState, useCallback } from 'react';
+import { useWebhooks, type WebhookOrganization, type WebhookSummary } from '../hooks/useWebhooks';
+import type { WebhookDelivery, WebhookEventType } from '../../db/schema';
+
+const EVENT_LABELS: Record<WebhookEventType, string> = {
+  'session.created': 'Session created',
+  'session.completed': 'Session completed',
+  'diff.updated': 'Diff updated',
+  'review.generated': 'Review generated',
+  'collaborator.added': 'Collaborator added',
+  'permission.pending': 'Permission prompt pending',
+};
+
+export function WebhookSettingsPage() {
+  const {
+    webhooks,
+    organizations,
+    eventTypes,
+    loading,
+    error,
+    createWebhook,
+    updateWebhook,
+    deleteWebhook,
+    sendTest,
+    fetchDeliveries,
+  } = useWebhooks();
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+
+  return (
+    <div className="max-w-[800px] mx-auto px-6 lg:px-10 py-8">
+      <div className="mb-8">
+        <h1 className="text-xl font-semibold text-text-primary tracking-tight">Webhooks</h1>
+        <p className="text-sm text-text-secondary mt-2">
+          Send a signed POST request to your endpoints when something happens in your sessions.
+          Failed deliveries are retried with backoff.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 mb-6 bg-diff-del/20 border border-diff-del/30 rounded-md text-diff-del text-sm">
+          {error}
+        </div>
+      )}
+
+      {newSecret && (
+        <div className="p-4 mb-6 bg-bg-secondary border border-accent-primary/40 rounded-md">
+          <p className="text-sm text-text-primary font-medium mb-1">Signing secret</p>
+          <p className="text-xs text-text-muted mb-2">
+            Copy it now, it won't be shown again. Verify requests by comparing X-Openctl-Signature
+            with the HMAC-SHA256 of "&lt;X-Openctl-Timestamp&gt;.&lt;body&gt;".
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 px-3 py-2 bg-bg-tertiary rounded text-xs font-mono text-text-primary break-all">
+              {newSecret}
+            </code>
+            <button
+              onClick={() => setNewSecret(null)}
+              className="px-3 py-2 text-xs text-text-muted hover:text-text-primary"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
+      <NewWebhookForm
+        eventTypes={eventTypes}
+        organizations={organizations}
+        onCreate={async (input) => {
+          const secret = await createWebhook(input);
+          if (secret) setNewSecret(secret);
+          return secret !== null;
+        }}
+      />
+
+      <div className="mt-10">
+        <h2 className="text-lg font-semibold text-text-primary mb-4">Your webhooks</h2>
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="w-6 h-6 border-2 border-accent-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : webhooks.length === 0 ? (
+          <p className="text-sm text-text-muted py-4 text-center">No webhooks yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {webhooks.map((webhook) => (
+              <WebhookCard
+                key={webhook.id}
+                webhook={webhook}
+                organization={organizations.find((org) => org.id === webhook.org_id) ?? null}
+                eventTypes={eventTypes}
+                onUpdate={(updates) => updateWebhook(webhook.id, updates)}
+                onDelete={() => deleteWebhook(webhook.id)}
+                onTest={() => sendTest(webhook.id)}
+                onLoadDeliveries={() => fetchDeliveries(webhook.id)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// New webhook form
+interface NewWebhookFormProps {
+  eventTypes: WebhookEventType[];
+  organizations: WebhookOrganization[];
+  onCreate: (input: {
+    url: string;
+    events: WebhookEventType[];
+    description: string | null;
+    org_id: string | null;
+  }) => Promise<boolean>;
+}
+
+function NewWebhookForm({ eventTypes, organizations, onCreate }: NewWebhookFormProps) {
+  const [orgId, setOrgId] = useState('');
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEventType[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleSubmit = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim() || events.length === 0) return;
+
+    setIsCreating(true);
+    const success = await onCreate({
+      url: url.trim(),
+      events,
+      description: description.trim() || null,
+      org_id: orgId || null,
+    });
+    setIsCreating(false);
+
+    if (success) {
+      setUrl('');
+      setDescription('');
+      setEvents([]);
+    }
+  }, [url, events, description, orgId, onCreate]);
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 p-4 bg-bg-secondary border border-bg-elevated rounded-lg">
+      {organizations.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-text-secondary mb-2">Sessions</label>
+          <select
+            value={orgId}
+            onChange={(e) => setOrgId(e.target.value)}
+            className="w-full px-3 py-2 bg-bg-tertiary border border-bg-elevated rounded-md text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary"
+            disabled={isCreating}
+          >
+            <option value="">Your sessions</option>
+            {organizations.map((org) => (
+              <option key={org.id} value={org.id}>Sessions shared with {org.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+      <div>
+        <label className="block text-sm font-medium text-text-secondary mb-2">Payload URL</label>
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://example.com/hooks/openctl"
+          className="w-full px-3 py-2 bg-bg-tertiary border border-bg-elevated rounded-md text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-accent-primary"
+          disabled={isCreating}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-text-secondary mb-2">Description</label>
+        <input
+          type="text"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Optional"
+          maxLength={200}
+          className="w-full px-3 py-2 bg-bg-tertiary border border-bg-elevated rounded-md text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-accent-primary"
+          disabled={isCreating}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-text-secondary mb-2">Events</label>
+        <EventCheckboxes eventTypes={eventTypes} selected={events} onChange={setEvents} disabled={isCreating} />
+      </div>
+      <button
+        type="submit"
+        disabled={!url.trim() || events.length === 0 || isCreating}
+        className="px-4 py-2 bg-accent-primary hover:bg-accent-primary/90 text-bg-primary rounded-md font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isCreating ? 'Adding...' : 'Add webhook'}
+      </button>
+    </form>
+  );
+}
+
+// Event selection
+interface EventCheckboxesProps {
+  eventTypes: WebhookEventType[];
+  selected: WebhookEventType[];
+  onChange: (events: WebhookEventType[]) => void;
+  disabled?: boolean;
+}
+
+function EventCheckboxes({ eventTypes, selected, onChange, disabled }: EventCheckboxesProps) {
+  const toggle = (event: WebhookEventType) => {
+    onChange(selected.includes(event) ? selected.filter((e) => e !== event) : [...selected, event]);
+  };
+
+  return (
+    <div className="grid gap-2 sm:grid-cols-2">
+      {eventTypes.map((event) => (
+        <label key={event} className="flex items-center gap-2 text-sm text-text-primary cursor-pointer">
+          <input
+            type="checkbox"
+            checked={selected.includes(event)}
+            onChange={() => toggle(event)}
+            disabled={disabled}
+            className="accent-accent-primary"
+          />
+          <span>{EVENT_LABELS[event] ?? event}</span>
+          <span className="text-xs text-text-muted font-mono">{event}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+// Webhook card
+interface WebhookCardProps {
+  webhook: WebhookSummary;
+  organization: WebhookOrganization | null;
+  eventTypes: WebhookEventType[];
+  onUpdate: (updates: { events?: WebhookEventType[]; active?: boolean }) => Promise<boolean>;
+  onDelete: () => Promise<boolean>;
+  onTest: () => Promise<WebhookDelivery | null>;
+  onLoadDeliveries: () => Promise<WebhookDelivery[]>;
+}
+
+function WebhookCard({ webhook, organization, eventTypes, onUpdate, onDelete, onTest, onLoadDeliveries }: WebhookCardProps) {
+  const [isBusy, setIsBusy] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+  const [testResult, setTestResult] = useState<WebhookDelivery | null>(null);
+
+  const loadDeliveries = useCallback(async () => {
+    setDeliveries(await onLoadDeliveries());
+  }, [onLoadDeliveries]);
+
+  const handleTest = async () => {
+    setIsBusy(true);
+    const delivery = await onTest();
+    setIsBusy(false);
+    setTestResult(delivery);
+    if (deliveries !== null) await loadDeliveries();
+  };
+
+  const handleToggle = async () => {
+    setIsBusy(true);
+    await onUpdate({ active: !webhook.active });
+    setIsBusy(false);
+  };
+
+  const handleEventsChange = async (events: WebhookEventType[]) => {
+    if (events.length === 0) return;
+    setIsBusy(true);
+    await onUpdate({ events });
+    setIsBusy(false);
+  };
+
+  return (
+    <div className="p-4 bg-bg-secondary border border-bg-elevated rounded-lg">
+      <div className="flex items-start justify-between gap-4 mb-3">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-mono text-text-primary truncate">{webhook.url}</span>
+            {organization && (
+              <span className="px-1.5 py-0.5 text-[10px] font-medium bg-bg-tertiary text-text-secondary rounded">
+                {organization.name}
+              </span>
+            )}
+            {!webhook.active && (
+              <span className="px-1.5 py-0.5 text-[10px] font-medium bg-bg-tertiary text-text-muted rounded">
+                Disabled
+              </span>
+            )}
+          </div>
+          {webhook.description && (
+            <p className="text-xs text-text-muted mt-1 truncate">{webhook.description}</p>
+          )}
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <button
+            onClick={handleTest}
+            disabled={isBusy}
+            className="px-2 py-1 text-xs border border-bg-elevated rounded text-text-secondary hover:text-text-primary hover:bg-bg-tertiary transition-colors disabled:opacity-50"
+          >
+            Send test
+          </button>
+          <button
+            onClick={handleToggle}
+            disabled={isBusy}
+            className="px-2 py-1 text-xs border border-bg-elevated rounded text-text-secondary hover:text-text-primary hover:bg-bg-tertiary transition-colors disabled:opacity-50"
+          >
+            {webhook.active ? 'Disable' : 'Enable'}
+          </button>
+          {showDeleteConfirm ? (
+            <>
+              <button
+                onClick={onDelete}
+                disabled={isBusy}
+                className="px-2 py-1 text-xs bg-diff-del hover:bg-red-500 text-white rounded font-medium"
+              >
+                Delete
+              </button>
+              <button
+                onClick={() => setShowDeleteConfirm(false)}
+                className="px-2 py-1 text-xs text-text-muted hover:text-text-primary"
+              >
+                Cancel
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setShowDeleteConfirm(true)}
+              className="px-2 py-1 text-xs text-text-muted hover:text-diff-del transition-colors"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      </div>
+
+      <EventCheckboxes
+        eventTypes={eventTypes}
+        selected={webhook.events}
+        onChange={handleEventsChange}
+        disabled={isBusy}
+      />
+
+      {testResult && (
+        <p className={`text-xs mt-3 ${testResult.status === 'succeeded' ? 'text-diff-add' : 'text-diff-del'}`}>
+          Test delivery {testResult.status === 'succeeded' ? 'succeeded' : 'failed'}
+          {testResult.response_status !== null && ` (HTTP ${testResult.response_status})`}
+          {testResult.status !== 'succeeded' && testResult.error && `: ${testResult.error}`}
+        </p>
+      )}
+
+      <div className="mt-3 pt-3 border-t border-bg-elevated">
+        {deliveries === null ? (
+          <button onClick={loadDeliveries} className="text-xs text-accent-primary hover:underline">
+            Show recent deliveries
+          </button>
+        ) : (
+          <DeliveryLog deliveries={deliveries} onRefresh={loadDeliveries} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Delivery log
+function DeliveryLog({ deliveries, onRefresh }: { deliveries: WebhookDelivery[]; onRefresh: () => void }) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-medium text-text-secondary">Recent deliveries</span>
+        <button onClick={onRefresh} className="text-xs text-accent-primary hover:underline">
+          Refresh
+        </button>
+      </div>
+      {deliveries.length === 0 ? (
+        <p className="text-xs text-text-muted py-2">No deliveries yet.</p>
+      ) : (
+        <div className="space-y-1">
+          {deliveries.map((delivery) => (
+            <div key={delivery.id} className="flex items-center gap-3 text-xs font-mono">
+              <DeliveryStatus status={delivery.status} />
+              <span className="text-text-primary w-40 shrink-0">{delivery.event_type}</span>
+              <span className="text-text-muted w-16 shrink-0">
+                {delivery.response_status ?? '—'}
+              </span>
+              <span className="text-text-muted truncate flex-1">
+                {delivery.error ?? ''}
+                {delivery.attempts > 1 && ` · ${delivery.attempts} attempts`}
+              </span>
+              <span className="text-text-muted shrink-0">
+                {delivery.last_attempt_at ?? delivery.created_at}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DeliveryStatus({ status }: { status: WebhookDelivery['status'] }) {
+  const styles: Record<WebhookDelivery['status'], string> = {
+    succeeded: 'bg-diff-add/20 text-diff-add',
+    pending: 'bg-amber-900/50 text-amber-300',
+    failed: 'bg-diff-del/20 text-diff-del',
+  };
+  return (
+    <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium w-16 text-center shrink-0 ${styles[status]}`}>
+      {status}
+    </span>
+  );
+}
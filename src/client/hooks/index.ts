@@ -7,3 +7,12 @@ export { useSpawnedSession } from './useSpawnedSession';
 export type { SessionState, StreamMessage, QuestionPrompt, PermissionPrompt } from './useSpawnedSession';
 export { useCollaborators } from './useCollaborators';
 export type { Collaborator, AuditLogEntry } from './useCollaborators';
+export { useSessionSearch } from './useSessionSearch';
+export { useWebhooks } from './useWebhooks';
+export type { WebhookSummary, WebhookInput } from './useWebhooks';
+export { useOrganizations, useOrganization } from './useOrganizations';
+export type { OrganizationSummary, OrganizationMemberInfo } from './useOrganizations';
+export { useReviewThreads } from './useReviewThreads';
+export type { NewReviewThread, ReviewThreads } from './useReviewThreads';
+export { useReviewRequest } from './useReviewRequest';
+export type { ReviewRequest, PendingReviewRequest } from './useReviewRequest';
@@ -22,6 +22,7 @@ export interface AuditLogEntry {
   target_email: string | null;
   old_value: string | null;
   new_value: string | null;
+  thread_id: number | null;
   created_at: string;
   actor: {
     name: string | null;
@@ -33,13 +34,15 @@ export interface AuditLogEntry {
 interface UseCollaboratorsResult {
   collaborators: Collaborator[];
   visibility: SessionVisibility;
+  // Organization the session is shared with when visibility is 'org'
+  orgId: string | null;
   auditLogs: AuditLogEntry[];
   loading: boolean;
   error: string | null;
   addCollaborator: (email: string, role: CollaboratorRole) => Promise<boolean>;
   updateCollaboratorRole: (id: number, role: CollaboratorRole) => Promise<boolean>;
   removeCollaborator: (id: number) => Promise<boolean>;
-  setVisibility: (visibility: SessionVisibility) => Promise<boolean>;
+  setVisibility: (visibility: SessionVisibility, orgId?: string | null) => Promise<boolean>;
   refreshCollaborators: () => Promise<void>;
   refreshAuditLogs: () => Promise<void>;
 }
@@ -47,6 +50,7 @@ interface UseCollaboratorsResult {
 export function useCollaborators(sessionId: string): UseCollaboratorsResult {
   const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
   const [visibility, setVisibilityState] = useState<SessionVisibility>('private');
+  const [orgId, setOrgId] = useState<string | null>(null);
   const [auditLogs, setAuditLogs] = useState<AuditLogEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -60,6 +64,7 @@ export function useCollaborators(sessionId: string): UseCollaboratorsResult {
         const data = await res.json();
         setCollaborators(data.collaborators || []);
         setVisibilityState(data.visibility || 'private');
+        setOrgId(data.org_id ?? null);
         setError(data.error || null);
       } else if (res.status === 403) {
         setError('You do not have permission to view collaborators');
@@ -159,17 +164,18 @@ export function useCollaborators(sessionId: string): UseCollaboratorsResult {
     }
   }, [sessionId, refreshCollaborators, refreshAuditLogs]);
 
-  const setVisibility = useCallback(async (newVisibility: SessionVisibility): Promise<boolean> => {
+  const setVisibility = useCallback(async (newVisibility: SessionVisibility, newOrgId: string | null = null): Promise<boolean> => {
     try {
       const res = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}/visibility`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify({ visibility: newVisibility }),
+        body: JSON.stringify({ visibility: newVisibility, org_id: newVisibility === 'org' ? newOrgId : undefined }),
       });
 
       if (res.ok) {
         setVisibilityState(newVisibility);
+        setOrgId(newVisibility === 'org' ? newOrgId : null);
         await refreshAuditLogs();
         return true;
       }
@@ -186,6 +192,7 @@ export function useCollaborators(sessionId: string): UseCollaboratorsResult {
   return {
     collaborators,
     visibility,
+    orgId,
     auditLogs,
     loading,
     error,
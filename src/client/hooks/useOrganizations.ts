@@ -0,0 +1,225 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { Organization, OrgRole, Session } from '../../db/schema';
+
+// Organizations as listed for the caller, with the caller's role
+export type OrganizationSummary = Organization & { role: OrgRole };
+
+export interface OrganizationMemberInfo {
+  id: number;
+  email: string;
+  role: OrgRole;
+  status: 'invited' | 'active';
+  invited_at: string;
+  accepted_at: string | null;
+  user: {
+    name: string | null;
+    email: string | null;
+    imageUrl: string | null;
+  } | null;
+}
+
+interface UseOrganizationsResult {
+  organizations: OrganizationSummary[];
+  loading: boolean;
+  error: string | null;
+  createOrganization: (name: string, slug?: string) => Promise<OrganizationSummary | null>;
+  refreshOrganizations: () => Promise<void>;
+}
+
+export function useOrganizations(): UseOrganizationsResult {
+  const [organizations, setOrganizations] = useState<OrganizationSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshOrganizations = useCallback(async () => {
+    try {
+      const res = await fetch('/api/orgs', { credentials: 'include' });
+      if (res.ok) {
+        const data = await res.json();
+        setOrganizations(data.organizations || []);
+        setError(null);
+      } else {
+        setError('Failed to load organizations');
+      }
+    } catch {
+      setError('Failed to load organizations');
+    }
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    refreshOrganizations().finally(() => {
+      setLoading(false);
+    });
+  }, [refreshOrganizations]);
+
+  const createOrganization = useCallback(async (name: string, slug?: string): Promise<OrganizationSummary | null> => {
+    try {
+      const res = await fetch('/api/orgs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ name, slug: slug || undefined }),
+      });
+
+      const data = await res.json();
+      if (res.ok) {
+        await refreshOrganizations();
+        return data.organization;
+      }
+
+      setError(data.error || 'Failed to create organization');
+      return null;
+    } catch {
+      setError('Failed to create organization');
+      return null;
+    }
+  }, [refreshOrganizations]);
+
+  return {
+    organizations,
+    loading,
+    error,
+    createOrganization,
+    refreshOrganizations,
+  };
+}
+
+interface UseOrganizationResult {
+  organization: OrganizationSummary | null;
+  members: OrganizationMemberInfo[];
+  // The caller's own member record, for leaving the organization
+  membershipId: number | null;
+  sessions: Session[];
+  loading: boolean;
+  error: string | null;
+  updateOrganization: (updates: { name?: string; slug?: string }) => Promise<OrganizationSummary | null>;
+  deleteOrganization: () => Promise<boolean>;
+  addMember: (email: string, role: OrgRole) => Promise<boolean>;
+  updateMemberRole: (id: number, role: OrgRole) => Promise<boolean>;
+  removeMember: (id: number) => Promise<boolean>;
+}
+
+export function useOrganization(orgId: string | null): UseOrganizationResult {
+  const [organization, setOrganization] = useState<OrganizationSummary | null>(null);
+  const [members, setMembers] = useState<OrganizationMemberInfo[]>([]);
+  const [membershipId, setMembershipId] = useState<number | null>(null);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const base = orgId ? `/api/orgs/${encodeURIComponent(orgId)}` : null;
+
+  const refreshOrganization = useCallback(async () => {
+    if (!base) return;
+    try {
+      const res = await fetch(base, { credentials: 'include' });
+      if (res.ok) {
+        const data = await res.json();
+        setOrganization(data.organization);
+        setMembers(data.members || []);
+        setMembershipId(data.membership_id ?? null);
+        setError(null);
+      } else {
+        setError('Failed to load organization');
+      }
+    } catch {
+      setError('Failed to load organization');
+    }
+  }, [base]);
+
+  const refreshSessions = useCallback(async () => {
+    if (!base) return;
+    try {
+      const res = await fetch(`${base}/sessions`, { credentials: 'include' });
+      if (res.ok) {
+        const data = await res.json();
+        setSessions(data.sessions || []);
+      }
+    } catch {
+      setError('Failed to load sessions');
+    }
+  }, [base]);
+
+  useEffect(() => {
+    if (!base) return;
+    setLoading(true);
+    Promise.all([refreshOrganization(), refreshSessions()]).finally(() => {
+      setLoading(false);
+    });
+  }, [base, refreshOrganization, refreshSessions]);
+
+  // Send a request and refresh the organization on success; reports failures through `error`
+  const mutate = useCallback(async (
+    path: string,
+    method: string,
+    body: unknown,
+    failure: string
+  ): Promise<Record<string, unknown> | null> => {
+    if (!base) return null;
+    try {
+      const res = await fetch(`${base}${path}`, {
+        method,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+
+      const data = await res.json();
+      if (res.ok) {
+        setError(null);
+        return data;
+      }
+
+      setError(data.error || failure);
+      return null;
+    } catch {
+      setError(failure);
+      return null;
+    }
+  }, [base]);
+
+  const updateOrganization = useCallback(async (updates: { name?: string; slug?: string }) => {
+    const data = await mutate('', 'PATCH', updates, 'Failed to update organization');
+    if (!data) return null;
+    const updated = data.organization as OrganizationSummary;
+    setOrganization(updated);
+    return updated;
+  }, [mutate]);
+
+  const deleteOrganization = useCallback(async () => {
+    return (await mutate('', 'DELETE', undefined, 'Failed to delete organization')) !== null;
+  }, [mutate]);
+
+  const addMember = useCallback(async (email: string, role: OrgRole) => {
+    const data = await mutate('/members', 'POST', { email, role }, 'Failed to add member');
+    if (data) await refreshOrganization();
+    return data !== null;
+  }, [mutate, refreshOrganization]);
+
+  const updateMemberRole = useCallback(async (id: number, role: OrgRole) => {
+    const data = await mutate(`/members/${id}`, 'PATCH', { role }, 'Failed to update member');
+    if (data) await refreshOrganization();
+    return data !== null;
+  }, [mutate, refreshOrganization]);
+
+  const removeMember = useCallback(async (id: number) => {
+    const data = await mutate(`/members/${id}`, 'DELETE', undefined, 'Failed to remove member');
+    if (data) await refreshOrganization();
+    return data !== null;
+  }, [mutate, refreshOrganization]);
+
+  return {
+    organization,
+    members,
+    membershipId,
+    sessions,
+    loading: loading && base !== null,
+    error,
+    updateOrganization,
+    deleteOrganization,
+    addMember,
+    updateMemberRole,
+    removeMember,
+  };
+}
@@ -0,0 +1,75 @@
+import { useEffect, useRef } from 'react';
+import type { Review, ReviewThreadView } from '../../db/schema';
+
+// Delay before reconnecting the review subscription after it drops
+const RECONNECT_DELAY_MS = 3000;
+
+export type ReviewChannelMessage =
+  | { type: 'review_thread'; thread: ReviewThreadView }
+  | { type: 'review_progress'; request_id: string; stage: 'queued' | 'running' }
+  | { type: 'review_complete'; request_id: string; review: Review & { annotation_count: number } }
+  | { type: 'review_failed'; request_id: string; error: string };
+
+type Listener = (msg: ReviewChannelMessage) => void;
+
+interface Channel {
+  listeners: Set<Listener>;
+  ws: WebSocket | null;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// One socket per session, shared by every hook subscribed to its reviews
+const channels = new Map<string, Channel>();
+
+function connect(sessionId: string, channel: Channel) {
+  const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const ws = new WebSocket(`${protocol}//${location.host}/api/sessions/${encodeURIComponent(sessionId)}/ws?channel=reviews`);
+  ws.onmessage = (event) => {
+    try {
+      const msg = JSON.parse(event.data);
+      for (const listener of channel.listeners) listener(msg);
+    } catch {
+      // Ignore malformed messages
+    }
+  };
+  // The server closes subscriptions when a live session completes
+  ws.onclose = () => {
+    if (channels.get(sessionId) === channel) {
+      channel.reconnectTimer = setTimeout(() => connect(sessionId, channel), RECONNECT_DELAY_MS);
+    }
+  };
+  channel.ws = ws;
+}
+
+function subscribe(sessionId: string, listener: Listener): () => void {
+  let channel = channels.get(sessionId);
+  if (!channel) {
+    channel = { listeners: new Set(), ws: null, reconnectTimer: null };
+    channels.set(sessionId, channel);
+    connect(sessionId, channel);
+  }
+  channel.listeners.add(listener);
+
+  const subscribed = channel;
+  return () => {
+    subscribed.listeners.delete(listener);
+    if (subscribed.listeners.size > 0) return;
+    channels.delete(sessionId);
+    if (subscribed.reconnectTimer) clearTimeout(subscribed.reconnectTimer);
+    subscribed.ws?.close();
+  };
+}
+
+/**
+ * Receive a session's review updates (threads and requested reviews) while
+ * `enabled`. Subscribers to the same session share one WebSocket.
+ */
+export function useReviewChannel(sessionId: string, enabled: boolean, onMessage: Listener): void {
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribe(sessionId, (msg) => onMessageRef.current(msg));
+  }, [sessionId, enabled]);
+}
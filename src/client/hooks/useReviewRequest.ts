@@ -0,0 +1,91 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { Review } from '../../db/schema';
+import { useReviewChannel } from './useReviewChannel';
+
+export interface PendingReviewRequest {
+  request_id: string;
+  stage: 'queued' | 'running';
+  requested_at: string;
+}
+
+export interface ReviewRequest {
+  // The review being generated, or null when none is running
+  pending: PendingReviewRequest | null;
+  // Whether the viewer can request reviews (signed-in owner or collaborator)
+  canRequest: boolean;
+  error: string | null;
+  request: () => Promise<boolean>;
+}
+
+/**
+ * Code reviews requested from the web UI and run by a connected daemon.
+ * Progress arrives over the session's review channel; `onComplete` is called
+ * with the new review once it has replaced the old one.
+ */
+export function useReviewRequest(sessionId: string, onComplete: (review: Review) => void): ReviewRequest {
+  const [pending, setPending] = useState<PendingReviewRequest | null>(null);
+  const [canRequest, setCanRequest] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  const url = `/api/sessions/${encodeURIComponent(sessionId)}/review-request`;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(url, { credentials: 'include' })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (cancelled || !data) return;
+        setPending(data.pending);
+        setCanRequest(!!data.can_request);
+        setLoaded(true);
+      })
+      .catch(() => {
+        // Requesting reviews is optional; the stored review still renders
+      });
+    return () => {
+      cancelled = true;
+      setLoaded(false);
+    };
+  }, [url]);
+
+  useReviewChannel(sessionId, loaded, (msg) => {
+    switch (msg.type) {
+      case 'review_progress':
+        setError(null);
+        setPending((prev) => ({
+          request_id: msg.request_id,
+          stage: msg.stage,
+          requested_at: prev?.request_id === msg.request_id ? prev.requested_at : new Date().toISOString(),
+        }));
+        break;
+      case 'review_complete':
+        setPending(null);
+        onComplete(msg.review);
+        break;
+      case 'review_failed':
+        setPending(null);
+        setError(msg.error);
+        break;
+    }
+  });
+
+  const request = useCallback(async (): Promise<boolean> => {
+    setError(null);
+    try {
+      const res = await fetch(url, { method: 'POST', credentials: 'include' });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to request review');
+        return false;
+      }
+      setPending(data);
+      return true;
+    } catch {
+      setError('Failed to request review');
+      return false;
+    }
+  }, [url]);
+
+  return { pending, canRequest, error, request };
+}
@@ -0,0 +1,117 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { ReviewThreadView } from '../../db/schema';
+import { useReviewChannel } from './useReviewChannel';
+
+export interface NewReviewThread {
+  diffId: number;
+  side: 'additions' | 'deletions';
+  lineNumber: number;
+  content: string;
+}
+
+export interface ReviewThreads {
+  threads: ReviewThreadView[];
+  // Whether the viewer can start threads and reply (signed-in owner or collaborator)
+  canComment: boolean;
+  error: string | null;
+  createThread: (thread: NewReviewThread) => Promise<boolean>;
+  reply: (threadId: number, content: string) => Promise<boolean>;
+  setResolved: (threadId: number, resolved: boolean) => Promise<boolean>;
+}
+
+// Insert or replace a thread, keeping threads in the order they were started
+function upsertThread(threads: ReviewThreadView[], thread: ReviewThreadView): ReviewThreadView[] {
+  const index = threads.findIndex((t) => t.id === thread.id);
+  if (index === -1) {
+    return [...threads, thread].sort((a, b) => a.id - b.id);
+  }
+  const next = [...threads];
+  next[index] = thread;
+  return next;
+}
+
+/**
+ * Review threads on a session's diff, kept up to date over the session's
+ * review WebSocket channel so reviewers see each other's comments as they
+ * are posted.
+ */
+export function useReviewThreads(sessionId: string): ReviewThreads {
+  const [threads, setThreads] = useState<ReviewThreadView[]>([]);
+  const [canComment, setCanComment] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Subscribe for updates only once the threads loaded, i.e. the viewer has access
+  const [loaded, setLoaded] = useState(false);
+
+  const baseUrl = `/api/sessions/${encodeURIComponent(sessionId)}/review-threads`;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(baseUrl, { credentials: 'include' })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (cancelled || !data) return;
+        setThreads(data.threads || []);
+        setCanComment(!!data.can_comment);
+        setLoaded(true);
+      })
+      .catch(() => {
+        // Review threads are optional; the diff still renders without them
+      });
+    return () => {
+      cancelled = true;
+      setLoaded(false);
+    };
+  }, [baseUrl]);
+
+  useReviewChannel(sessionId, loaded, (msg) => {
+    if (msg.type === 'review_thread') {
+      setThreads((prev) => upsertThread(prev, msg.thread));
+    }
+  });
+
+  // Send a review write and apply the returned thread
+  const send = useCallback(async (url: string, method: string, body: unknown, failure: string): Promise<boolean> => {
+    setError(null);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || failure);
+        return false;
+      }
+      setThreads((prev) => upsertThread(prev, data.thread));
+      return true;
+    } catch {
+      setError(failure);
+      return false;
+    }
+  }, []);
+
+  const createThread = useCallback((thread: NewReviewThread) => send(
+    baseUrl,
+    'POST',
+    { diff_id: thread.diffId, side: thread.side, line_number: thread.lineNumber, content: thread.content },
+    'Failed to add comment'
+  ), [baseUrl, send]);
+
+  const reply = useCallback((threadId: number, content: string) => send(
+    `${baseUrl}/${threadId}/comments`,
+    'POST',
+    { content },
+    'Failed to add reply'
+  ), [baseUrl, send]);
+
+  const setResolved = useCallback((threadId: number, resolved: boolean) => send(
+    `${baseUrl}/${threadId}`,
+    'PATCH',
+    { resolved },
+    resolved ? 'Failed to resolve thread' : 'Failed to reopen thread'
+  ), [baseUrl, send]);
+
+  return { threads, canComment, error, createThread, reply, setResolved };
+}
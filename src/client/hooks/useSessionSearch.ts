@@ -0,0 +1,62 @@
+import { useState, useEffect } from 'react';
+import type { SearchHit } from '../../db/schema';
+
+const MIN_QUERY_LENGTH = 2;
+
+interface UseSessionSearchResult {
+  results: SearchHit[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Hook for full-text search across session content.
+ * Debounces the query and cancels in-flight requests when it changes.
+ */
+export function useSessionSearch(query: string, debounceMs = 250): UseSessionSearchResult {
+  const [results, setResults] = useState<SearchHit[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (q.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+
+    const timeout = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(q)}`, {
+          credentials: 'include',
+          signal: controller.signal,
+        });
+        if (res.ok) {
+          const data = await res.json();
+          setResults(data.results || []);
+          setError(null);
+        } else {
+          setResults([]);
+          setError('Search failed');
+        }
+      } catch {
+        if (controller.signal.aborted) return;
+        setResults([]);
+        setError('Search failed');
+      }
+      setLoading(false);
+    }, debounceMs);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query, debounceMs]);
+
+  return { results, loading, error };
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from "react";
-import type { ContentBlock, StreamJsonMessage } from "../../types/daemon-ws";
+import type { ContentBlock, OutputDelta, StreamJsonMessage } from "../../types/daemon-ws";
 
 /** Interval in ms for polling daemon status when disconnected */
 const DAEMON_POLL_INTERVAL_MS = 3000;
@@ -40,6 +40,61 @@ export interface ControlRequestPrompt {
   blockedPath?: string;
 }
 
+/** A control request the daemon's permission policy answered without prompting */
+export interface PolicyDecision {
+  requestId: string;
+  toolName: string;
+  toolUseId: string;
+  description: string;
+  decision: "allowed" | "denied";
+  rule: string;
+}
+
+/** Assistant text streamed so far for a message that hasn't landed yet */
+export interface PartialMessage {
+  messageId: string;
+  blocks: OutputDelta[];
+}
+
+/**
+ * Append streamed deltas. Deltas for a different message start a new partial.
+ */
+export function applyOutputDeltas(
+  partial: PartialMessage | null,
+  messageId: string,
+  deltas: OutputDelta[]
+): PartialMessage {
+  const blocks = partial?.messageId === messageId ? partial.blocks.map((b) => ({ ...b })) : [];
+
+  for (const delta of deltas) {
+    const block = blocks.find((b) => b.index === delta.index && b.block_type === delta.block_type);
+    if (block) {
+      block.text += delta.text;
+    } else {
+      blocks.push({ ...delta });
+    }
+  }
+
+  blocks.sort((a, b) => a.index - b.index);
+  return { messageId, blocks };
+}
+
+/**
+ * Render a partial as an assistant message, so it can be shown like any other.
+ */
+export function partialToStreamMessage(partial: PartialMessage): StreamMessage {
+  return {
+    type: "assistant",
+    message: {
+      id: partial.messageId,
+      role: "assistant",
+      content: partial.blocks.map((b): ContentBlock =>
+        b.block_type === "thinking" ? { type: "thinking", thinking: b.text } : { type: "text", text: b.text }
+      ),
+    },
+  };
+}
+
 export interface ParsedDiff {
   filename: string;
   diff_content: string;
@@ -67,9 +122,11 @@ export function useSpawnedSession({
 }: UseSpawnedSessionOptions) {
   const [state, setState] = useState<SessionState>("connecting");
   const [messages, setMessages] = useState<StreamMessage[]>([]);
+  const [partialMessage, setPartialMessage] = useState<PartialMessage | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [claudeSessionId, setClaudeSessionId] = useState<string | null>(null);
   const [diffs, setDiffs] = useState<ParsedDiff[]>([]);
+  const [policyDecisions, setPolicyDecisions] = useState<PolicyDecision[]>([]);
   const [canResume, setCanResume] = useState(false);
   const [daemonConnected, setDaemonConnected] = useState(true);
   const [isResuming, setIsResuming] = useState(false);
@@ -140,6 +197,12 @@ export function useSpawnedSession({
             });
             onMessageRef.current?.(newMessages);
 
+            // Complete messages replace whatever was streamed for them. Claude Code sends a
+            // message per finished content block, so later blocks start a fresh partial.
+            if (newMessages.some((msg) => msg.type === "assistant" || msg.type === "result")) {
+              setPartialMessage(null);
+            }
+
             // Update state based on message content
             for (const msg of newMessages) {
               if (msg.type === "system" && msg.subtype === "init") {
@@ -155,7 +218,16 @@ export function useSpawnedSession({
           }
           break;
 
+        case "message_delta":
+          if (typeof data.message_id === "string" && Array.isArray(data.deltas)) {
+            const messageId = data.message_id;
+            const deltas = data.deltas as OutputDelta[];
+            setPartialMessage((prev) => applyOutputDeltas(prev, messageId, deltas));
+          }
+          break;
+
         case "complete":
+          setPartialMessage(null);
           updateState("ended");
           if (data.error && typeof data.error === "string") {
             setError(data.error);
@@ -190,6 +262,20 @@ export function useSpawnedSession({
           });
           break;
 
+        case "permission_policy_decision":
+          setPolicyDecisions((prev) => [
+            ...prev,
+            {
+              requestId: data.request_id as string,
+              toolName: data.tool_name as string,
+              toolUseId: data.tool_use_id as string,
+              description: data.description as string,
+              decision: data.decision as PolicyDecision["decision"],
+              rule: data.rule as string,
+            },
+          ]);
+          break;
+
         case "daemon_disconnected":
           updateState("disconnected");
           setDaemonConnected(false);
@@ -204,6 +290,16 @@ export function useSpawnedSession({
           }
           break;
 
+        case "daemon_reconnected":
+          // The daemon came back with the session still running (e.g. after a server restart)
+          setDaemonConnected(true);
+          setCanResume(false);
+          setError(null);
+          if (data.status && typeof data.status === "string") {
+            updateState(data.status as SessionState);
+          }
+          break;
+
         case "diff_update":
           // Update diffs when daemon sends them
           if (data.diffs && Array.isArray(data.diffs)) {
@@ -476,9 +572,11 @@ export function useSpawnedSession({
   return {
     state,
     messages,
+    partialMessage,
     error,
     claudeSessionId,
     diffs,
+    policyDecisions,
     canResume,
     daemonConnected,
     isResuming,
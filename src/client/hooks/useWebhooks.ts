@@ -0,0 +1,184 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { Webhook, WebhookDelivery, WebhookEventType } from '../../db/schema';
+
+// The API never returns the secret, except once when a webhook is created
+export type WebhookSummary = Omit<Webhook, 'secret'>;
+
+// Organizations the caller can add webhooks for
+export interface WebhookOrganization {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+export interface WebhookInput {
+  url: string;
+  events: WebhookEventType[];
+  description: string | null;
+}
+
+interface UseWebhooksResult {
+  webhooks: WebhookSummary[];
+  organizations: WebhookOrganization[];
+  eventTypes: WebhookEventType[];
+  loading: boolean;
+  error: string | null;
+  createWebhook: (input: WebhookInput & { org_id: string | null }) => Promise<string | null>;
+  updateWebhook: (id: string, updates: Partial<WebhookInput> & { active?: boolean }) => Promise<boolean>;
+  deleteWebhook: (id: string) => Promise<boolean>;
+  sendTest: (id: string) => Promise<WebhookDelivery | null>;
+  fetchDeliveries: (id: string) => Promise<WebhookDelivery[]>;
+  refreshWebhooks: () => Promise<void>;
+}
+
+export function useWebhooks(): UseWebhooksResult {
+  const [webhooks, setWebhooks] = useState<WebhookSummary[]>([]);
+  const [organizations, setOrganizations] = useState<WebhookOrganization[]>([]);
+  const [eventTypes, setEventTypes] = useState<WebhookEventType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshWebhooks = useCallback(async () => {
+    try {
+      const res = await fetch('/api/webhooks', { credentials: 'include' });
+      if (res.ok) {
+        const data = await res.json();
+        setWebhooks(data.webhooks || []);
+        setOrganizations(data.organizations || []);
+        setEventTypes(data.event_types || []);
+        setError(null);
+      } else {
+        setError('Failed to load webhooks');
+      }
+    } catch {
+      setError('Failed to load webhooks');
+    }
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    refreshWebhooks().finally(() => {
+      setLoading(false);
+    });
+  }, [refreshWebhooks]);
+
+  // Returns the new webhook's signing secret
+  const createWebhook = useCallback(async (input: WebhookInput & { org_id: string | null }): Promise<string | null> => {
+    try {
+      const res = await fetch('/api/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(input),
+      });
+
+      const data = await res.json();
+      if (res.ok) {
+        await refreshWebhooks();
+        return data.secret;
+      }
+
+      setError(data.error || 'Failed to create webhook');
+      return null;
+    } catch {
+      setError('Failed to create webhook');
+      return null;
+    }
+  }, [refreshWebhooks]);
+
+  const updateWebhook = useCallback(async (
+    id: string,
+    updates: Partial<WebhookInput> & { active?: boolean }
+  ): Promise<boolean> => {
+    try {
+      const res = await fetch(`/api/webhooks/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(updates),
+      });
+
+      if (res.ok) {
+        await refreshWebhooks();
+        return true;
+      }
+
+      const data = await res.json();
+      setError(data.error || 'Failed to update webhook');
+      return false;
+    } catch {
+      setError('Failed to update webhook');
+      return false;
+    }
+  }, [refreshWebhooks]);
+
+  const deleteWebhook = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const res = await fetch(`/api/webhooks/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (res.ok) {
+        await refreshWebhooks();
+        return true;
+      }
+
+      const data = await res.json();
+      setError(data.error || 'Failed to delete webhook');
+      return false;
+    } catch {
+      setError('Failed to delete webhook');
+      return false;
+    }
+  }, [refreshWebhooks]);
+
+  const sendTest = useCallback(async (id: string): Promise<WebhookDelivery | null> => {
+    try {
+      const res = await fetch(`/api/webhooks/${encodeURIComponent(id)}/test`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      const data = await res.json();
+      if (res.ok) {
+        return data.delivery;
+      }
+
+      setError(data.error || 'Failed to send test delivery');
+      return null;
+    } catch {
+      setError('Failed to send test delivery');
+      return null;
+    }
+  }, []);
+
+  const fetchDeliveries = useCallback(async (id: string): Promise<WebhookDelivery[]> => {
+    try {
+      const res = await fetch(`/api/webhooks/${encodeURIComponent(id)}/deliveries`, {
+        credentials: 'include',
+      });
+      if (res.ok) {
+        const data = await res.json();
+        return data.deliveries || [];
+      }
+    } catch {
+      // Shown as an empty log
+    }
+    return [];
+  }, []);
+
+  return {
+    webhooks,
+    organizations,
+    eventTypes,
+    loading,
+    error,
+    createWebhook,
+    updateWebhook,
+    deleteWebhook,
+    sendTest,
+    fetchDeliveries,
+    refreshWebhooks,
+  };
+}
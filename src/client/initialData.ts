@@ -0,0 +1,62 @@
+import { createContext, useContext } from 'react';
+import { useLocation } from 'react-router-dom';
+import type { Session, Message, Diff, Review, Annotation, SessionCommit, DiffSnapshotSummary, ResolvedAnnotation, ReviewVersion } from '../db/schema';
+
+/**
+ * Data for a server-rendered session page (see src/views/sessionPage.tsx).
+ *
+ * The server embeds it as JSON in the page so the client can hydrate the
+ * markup it rendered instead of fetching the session again.
+ */
+export interface SessionPageData {
+  session: Session;
+  messages: Message[];
+  diffs: Diff[];
+  commits: SessionCommit[];
+  snapshots: DiffSnapshotSummary[];
+  shareUrl: string | null;
+  review: Review | null;
+  annotationsByDiff: Record<number, Annotation[]>;
+  // Annotations of the review whose lines later diffs removed or changed
+  resolvedAnnotations: ResolvedAnnotation[];
+  // Every review of the session, newest first
+  reviews: ReviewVersion[];
+  isOwner: boolean;
+  pendingInvite: boolean;
+}
+
+export interface InitialData extends SessionPageData {
+  /** Pathname the page was rendered for */
+  path: string;
+}
+
+/** ID of the <script type="application/json"> element holding the data */
+export const INITIAL_DATA_ELEMENT_ID = 'openctl-initial-data';
+
+const InitialDataContext = createContext<InitialData | null>(null);
+
+export const InitialDataProvider = InitialDataContext.Provider;
+
+/**
+ * Embedded data for the current page, or null once the user has navigated
+ * elsewhere (so other routes never see another page's data).
+ */
+export function useInitialData(): InitialData | null {
+  const data = useContext(InitialDataContext);
+  const { pathname } = useLocation();
+  return data && data.path === pathname ? data : null;
+}
+
+/**
+ * Read the data embedded by the server, if this page was server-rendered.
+ */
+export function readInitialData(): InitialData | null {
+  const element = document.getElementById(INITIAL_DATA_ELEMENT_ID);
+  if (!element?.textContent) return null;
+
+  try {
+    return JSON.parse(element.textContent) as InitialData;
+  } catch {
+    return null;
+  }
+}
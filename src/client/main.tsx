@@ -1,8 +1,9 @@
-import { createRoot } from 'react-dom/client';
-import { ClerkProvider } from '@clerk/react';
+import { createRoot, hydrateRoot } from 'react-dom/client';
+import type { ReactNode } from 'react';
 import { App } from './App';
-import { AuthContextProvider } from './components/AuthContext';
+import { AuthProviders } from './components/AuthContext';
 import { setupGlobals } from './globals';
+import { readInitialData } from './initialData';
 
 // Set up global utilities (toast, clipboard) for backwards compatibility
 setupGlobals();
@@ -11,28 +12,24 @@ setupGlobals();
 // This gets injected at build time by Bun's static server (see bunfig.toml)
 // Use typeof check to safely access in browser context when not replaced
 const CLERK_PUBLISHABLE_KEY = process.env.PUBLIC_CLERK_PUBLISHABLE_KEY;
-const isClerkConfigured = Boolean(CLERK_PUBLISHABLE_KEY);
 
 // Mount React app
 const container = document.getElementById('app');
 if (container) {
-  const root = createRoot(container);
+  // Session pages are rendered on the server with their data embedded; hydrate those
+  const initialData = readInitialData();
+  const mount = (app: ReactNode) => {
+    if (initialData) {
+      hydrateRoot(container, app);
+    } else {
+      createRoot(container).render(app);
+    }
+  };
 
-  // Always wrap with AuthContextProvider to let components know if Clerk is available
-  if (isClerkConfigured && CLERK_PUBLISHABLE_KEY) {
-    root.render(
-      <AuthContextProvider isClerkConfigured={true}>
-        <ClerkProvider publishableKey={CLERK_PUBLISHABLE_KEY}>
-          <App />
-        </ClerkProvider>
-      </AuthContextProvider>
-    );
-  } else {
-    // Fallback for development without Clerk
-    root.render(
-      <AuthContextProvider isClerkConfigured={false}>
-        <App />
-      </AuthContextProvider>
-    );
-  }
+  // Same providers as server-rendered session pages, so hydration sees the same tree
+  mount(
+    <AuthProviders publishableKey={CLERK_PUBLISHABLE_KEY || undefined}>
+      <App initialData={initialData} />
+    </AuthProviders>
+  );
 }
@@ -0,0 +1,43 @@
+/**
+ * Storage driver interface.
+ *
+ * SessionRepository issues SQL through a StorageDriver so the same queries run
+ * against SQLite (the default, single instance) or Postgres (selected by
+ * DATABASE_URL, for running several server instances against one database).
+ *
+ * Queries use `?` placeholders and the subset of SQL both databases agree on;
+ * the few dialect-specific fragments are chosen from `dialect`.
+ */
+
+export type Dialect = "sqlite" | "postgres";
+
+export type SqlParam = string | number | null;
+
+export interface RunResult {
+  changes: number;
+}
+
+export interface SqlExecutor {
+  readonly dialect: Dialect;
+  all<T>(sql: string, params?: SqlParam[]): Promise<T[]>;
+  get<T>(sql: string, params?: SqlParam[]): Promise<T | null>;
+  run(sql: string, params?: SqlParam[]): Promise<RunResult>;
+  /**
+   * Run `fn` in a transaction, committing when it resolves and rolling back when
+   * it throws. Called on a transaction's executor, `fn` joins that transaction.
+   */
+  transaction<T>(fn: (tx: SqlExecutor) => Promise<T>): Promise<T>;
+}
+
+export interface StorageDriver extends SqlExecutor {
+  close(): Promise<void>;
+}
+
+/**
+ * Current UTC time as stored in timestamp columns (YYYY-MM-DD HH:MM:SS).
+ */
+export function nowSql(dialect: Dialect): string {
+  return dialect === "postgres"
+    ? "to_char(timezone('utc', now()), 'YYYY-MM-DD HH24:MI:SS')"
+    : "datetime('now', 'utc')";
+}
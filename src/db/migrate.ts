@@ -0,0 +1,170 @@
+/**
+ * Versioned schema migrations.
+ *
+ * Applied versions are recorded in schema_migrations. Each pending migration runs
+ * in its own transaction together with its schema_migrations row, so a failure
+ * leaves the database at the last fully applied version.
+ *
+ * Databases created before the runner existed have no schema_migrations rows, so
+ * every migration runs against them; migrations are written to tolerate tables and
+ * columns that already exist (CREATE ... IF NOT EXISTS, addColumn).
+ *
+ * Postgres databases (DATABASE_URL) have their own migration list in
+ * migrations/postgres, starting from the current schema.
+ */
+
+import type { Database } from "bun:sqlite";
+import { nowSql, type StorageDriver } from "./driver";
+import { MIGRATIONS, type Migration } from "./migrations";
+import type { PostgresMigration } from "./migrations/helpers";
+import { POSTGRES_MIGRATIONS } from "./migrations/postgres";
+
+// Arbitrary key for the advisory lock that serializes Postgres migrations across instances
+const POSTGRES_MIGRATION_LOCK = 72_617_001;
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  /** null while pending */
+  applied_at: string | null;
+}
+
+function ensureMigrationsTable(db: Database): void {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL DEFAULT (datetime('now', 'utc'))
+    )
+  `);
+}
+
+function assertOrdered(migrations: Array<{ version: number; name: string }>): void {
+  for (let i = 1; i < migrations.length; i++) {
+    const prev = migrations[i - 1]!;
+    const current = migrations[i]!;
+    if (current.version <= prev.version) {
+      throw new Error(
+        `Migrations out of order: ${current.version} (${current.name}) follows ${prev.version} (${prev.name})`
+      );
+    }
+  }
+}
+
+function appliedVersions(db: Database): Map<number, string> {
+  const table = db
+    .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'")
+    .get();
+  if (!table) return new Map();
+
+  const rows = db
+    .prepare("SELECT version, applied_at FROM schema_migrations")
+    .all() as { version: number; applied_at: string }[];
+  return new Map(rows.map((row) => [row.version, row.applied_at]));
+}
+
+/**
+ * Applied and pending migrations, in order.
+ */
+export function getMigrationStatus(db: Database, migrations: Migration[] = MIGRATIONS): MigrationStatus[] {
+  assertOrdered(migrations);
+  const applied = appliedVersions(db);
+
+  return migrations.map((m) => ({
+    version: m.version,
+    name: m.name,
+    applied_at: applied.get(m.version) ?? null,
+  }));
+}
+
+/**
+ * Apply every pending migration in order. Returns the migrations that were applied.
+ * Throws (after rolling back the failing migration) if one fails.
+ */
+export function runMigrations(db: Database, migrations: Migration[] = MIGRATIONS): Migration[] {
+  assertOrdered(migrations);
+  ensureMigrationsTable(db);
+  const applied = appliedVersions(db);
+  const record = db.prepare("INSERT INTO schema_migrations (version, name) VALUES (?, ?)");
+  const ran: Migration[] = [];
+
+  for (const migration of migrations) {
+    if (applied.has(migration.version)) continue;
+
+    try {
+      db.transaction(() => {
+        migration.up(db);
+        record.run(migration.version, migration.name);
+      })();
+    } catch (err) {
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed: ${err instanceof Error ? err.message : err}`
+      );
+    }
+    ran.push(migration);
+  }
+
+  return ran;
+}
+
+/**
+ * Applied and pending Postgres migrations, in order.
+ */
+export async function getPostgresMigrationStatus(
+  db: StorageDriver,
+  migrations: PostgresMigration[] = POSTGRES_MIGRATIONS
+): Promise<MigrationStatus[]> {
+  assertOrdered(migrations);
+  const table = await db.get<{ name: string | null }>("SELECT to_regclass('schema_migrations') as name");
+  const rows = table?.name
+    ? await db.all<{ version: number; applied_at: string }>("SELECT version, applied_at FROM schema_migrations")
+    : [];
+  const applied = new Map(rows.map((row) => [row.version, row.applied_at]));
+
+  return migrations.map((m) => ({
+    version: m.version,
+    name: m.name,
+    applied_at: applied.get(m.version) ?? null,
+  }));
+}
+
+/**
+ * Postgres counterpart of runMigrations. Each migration runs in a transaction
+ * holding an advisory lock, so instances starting together apply it only once.
+ */
+export async function runPostgresMigrations(
+  db: StorageDriver,
+  migrations: PostgresMigration[] = POSTGRES_MIGRATIONS
+): Promise<PostgresMigration[]> {
+  assertOrdered(migrations);
+  const ran: PostgresMigration[] = [];
+
+  for (const migration of migrations) {
+    try {
+      const applied = await db.transaction(async (tx) => {
+        await tx.run("SELECT pg_advisory_xact_lock(?)", [POSTGRES_MIGRATION_LOCK]);
+        await tx.run(`
+          CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at TEXT NOT NULL DEFAULT ${nowSql("postgres")}
+          )
+        `);
+
+        const existing = await tx.get("SELECT version FROM schema_migrations WHERE version = ?", [migration.version]);
+        if (existing) return false;
+
+        await migration.up(tx);
+        await tx.run("INSERT INTO schema_migrations (version, name) VALUES (?, ?)", [migration.version, migration.name]);
+        return true;
+      });
+      if (applied) ran.push(migration);
+    } catch (err) {
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed: ${err instanceof Error ? err.message : err}`
+      );
+    }
+  }
+
+  return ran;
+}
@@ -0,0 +1,79 @@
+import type { Migration } from "./helpers";
+
+export const initialSchema: Migration = {
+  version: 1,
+  name: "initial-schema",
+  up(db) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT,
+        claude_session_id TEXT,
+        pr_url TEXT,
+        share_token TEXT UNIQUE,
+        project_path TEXT,
+        created_at TEXT DEFAULT (datetime('now', 'utc')),
+        updated_at TEXT DEFAULT (datetime('now', 'utc'))
+      )
+    `);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        timestamp TEXT,
+        message_index INTEGER,
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS diffs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        filename TEXT,
+        diff_content TEXT NOT NULL,
+        diff_index INTEGER DEFAULT 0,
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.run(`CREATE INDEX IF NOT EXISTS idx_messages_session ON messages(session_id)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_diffs_session ON diffs(session_id)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_share_token ON sessions(share_token)`);
+
+    // Reviews table (one per session, optional)
+    db.run(`
+      CREATE TABLE IF NOT EXISTS reviews (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL UNIQUE,
+        summary TEXT NOT NULL,
+        model TEXT,
+        created_at TEXT DEFAULT (datetime('now', 'utc')),
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Annotations table (line-level review comments)
+    db.run(`
+      CREATE TABLE IF NOT EXISTS annotations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        review_id INTEGER NOT NULL,
+        diff_id INTEGER NOT NULL,
+        line_number INTEGER NOT NULL,
+        side TEXT NOT NULL DEFAULT 'additions',
+        annotation_type TEXT NOT NULL,
+        content TEXT NOT NULL,
+        FOREIGN KEY (review_id) REFERENCES reviews(id) ON DELETE CASCADE,
+        FOREIGN KEY (diff_id) REFERENCES diffs(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.run(`CREATE INDEX IF NOT EXISTS idx_reviews_session ON reviews(session_id)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_annotations_review ON annotations(review_id)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_annotations_diff ON annotations(diff_id)`);
+  },
+};
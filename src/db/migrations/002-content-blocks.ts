@@ -0,0 +1,19 @@
+import { addColumn, type Migration } from "./helpers";
+
+/**
+ * Structured message content, diff stats/relevance and session metadata.
+ */
+export const contentBlocks: Migration = {
+  version: 2,
+  name: "content-blocks",
+  up(db) {
+    addColumn(db, "messages", "content_blocks", "TEXT DEFAULT '[]'");
+    addColumn(db, "diffs", "additions", "INTEGER DEFAULT 0");
+    addColumn(db, "diffs", "deletions", "INTEGER DEFAULT 0");
+    addColumn(db, "diffs", "is_session_relevant", "INTEGER DEFAULT 1");
+    addColumn(db, "diffs", "status", "TEXT DEFAULT 'modified'");
+    addColumn(db, "sessions", "model", "TEXT");
+    addColumn(db, "sessions", "harness", "TEXT");
+    addColumn(db, "sessions", "repo_url", "TEXT");
+  },
+};
@@ -0,0 +1,30 @@
+import { addColumn, type Migration } from "./helpers";
+
+/**
+ * Live streaming, session ownership and interactive/remote sessions.
+ */
+export const liveSessions: Migration = {
+  version: 3,
+  name: "live-sessions",
+  up(db) {
+    addColumn(db, "sessions", "status", "TEXT DEFAULT 'archived'");
+    addColumn(db, "sessions", "last_activity_at", "TEXT");
+    addColumn(db, "sessions", "stream_token_hash", "TEXT");
+
+    // Client-based session ownership
+    addColumn(db, "sessions", "client_id", "TEXT");
+
+    // User-based session ownership (for authenticated users)
+    addColumn(db, "sessions", "user_id", "TEXT");
+
+    db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_status ON sessions(status)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_client_id ON sessions(client_id)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id)`);
+
+    // Interactive session support
+    addColumn(db, "sessions", "interactive", "INTEGER DEFAULT 0");
+
+    // Remote session support (daemon-spawned headless sessions)
+    addColumn(db, "sessions", "remote", "INTEGER DEFAULT 0");
+  },
+};
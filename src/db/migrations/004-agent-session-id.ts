@@ -0,0 +1,21 @@
+import { addColumn, type Migration } from "./helpers";
+
+/**
+ * Harness-neutral session identifiers and the working directory's branch.
+ */
+export const agentSessionId: Migration = {
+  version: 4,
+  name: "agent-session-id",
+  up(db) {
+    // Alias/replacement for claude_session_id, populated by each adapter with its
+    // native session identifier. Existing sessions are backfilled.
+    addColumn(db, "sessions", "agent_session_id", "TEXT");
+    db.run(`UPDATE sessions SET agent_session_id = claude_session_id WHERE agent_session_id IS NULL AND claude_session_id IS NOT NULL`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_agent_session_id ON sessions(agent_session_id)`);
+
+    // Index for session lookup by claude_session_id (for upsert on upload)
+    db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_claude_session_id ON sessions(claude_session_id)`);
+
+    addColumn(db, "sessions", "branch", "TEXT");
+  },
+};
@@ -0,0 +1,12 @@
+import { addColumn, type Migration } from "./helpers";
+
+export const tokenUsage: Migration = {
+  version: 5,
+  name: "token-usage",
+  up(db) {
+    addColumn(db, "sessions", "input_tokens", "INTEGER DEFAULT 0");
+    addColumn(db, "sessions", "output_tokens", "INTEGER DEFAULT 0");
+    addColumn(db, "sessions", "cache_creation_tokens", "INTEGER DEFAULT 0");
+    addColumn(db, "sessions", "cache_read_tokens", "INTEGER DEFAULT 0");
+  },
+};
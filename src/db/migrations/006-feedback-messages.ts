@@ -0,0 +1,28 @@
+import type { Migration } from "./helpers";
+
+/**
+ * Feedback messages for interactive sessions.
+ */
+export const feedbackMessages: Migration = {
+  version: 6,
+  name: "feedback-messages",
+  up(db) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS feedback_messages (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        content TEXT NOT NULL,
+        source TEXT,
+        type TEXT NOT NULL DEFAULT 'message',
+        status TEXT NOT NULL DEFAULT 'pending',
+        created_at TEXT NOT NULL DEFAULT (datetime('now', 'utc')),
+        resolved_at TEXT,
+        context_json TEXT,
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.run(`CREATE INDEX IF NOT EXISTS idx_feedback_session ON feedback_messages(session_id)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_feedback_status ON feedback_messages(status)`);
+  },
+};
@@ -0,0 +1,41 @@
+import type { Migration } from "./helpers";
+
+export const analytics: Migration = {
+  version: 7,
+  name: "analytics",
+  up(db) {
+    // Raw event log (append-only)
+    db.run(`
+      CREATE TABLE IF NOT EXISTS analytics_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        event_type TEXT NOT NULL,
+        session_id TEXT,
+        client_id TEXT,
+        timestamp TEXT NOT NULL DEFAULT (datetime('now', 'utc')),
+        properties TEXT NOT NULL DEFAULT '{}',
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE SET NULL
+      )
+    `);
+
+    db.run(`CREATE INDEX IF NOT EXISTS idx_events_type ON analytics_events(event_type)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_events_timestamp ON analytics_events(timestamp)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_events_client ON analytics_events(client_id)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_events_type_timestamp ON analytics_events(event_type, timestamp)`);
+
+    // Pre-computed daily aggregates
+    db.run(`
+      CREATE TABLE IF NOT EXISTS analytics_daily_stats (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        date TEXT NOT NULL,
+        client_id TEXT,
+        model TEXT,
+        stat_type TEXT NOT NULL,
+        value INTEGER NOT NULL DEFAULT 0,
+        UNIQUE(date, client_id, model, stat_type)
+      )
+    `);
+
+    db.run(`CREATE INDEX IF NOT EXISTS idx_daily_stats_date ON analytics_daily_stats(date)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_daily_stats_client ON analytics_daily_stats(client_id)`);
+  },
+};
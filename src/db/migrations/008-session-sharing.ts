@@ -0,0 +1,52 @@
+import { addColumn, type Migration } from "./helpers";
+
+/**
+ * Session visibility, collaborators and the sharing audit log.
+ */
+export const sessionSharing: Migration = {
+  version: 8,
+  name: "session-sharing",
+  up(db) {
+    addColumn(db, "sessions", "visibility", "TEXT DEFAULT 'private'");
+    db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_visibility ON sessions(visibility)`);
+
+    // Per-message user tracking (for multi-user remote sessions)
+    addColumn(db, "messages", "user_id", "TEXT");
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS session_collaborators (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        email TEXT NOT NULL,
+        user_id TEXT,
+        role TEXT NOT NULL DEFAULT 'viewer',
+        invited_by_user_id TEXT NOT NULL,
+        created_at TEXT DEFAULT (datetime('now', 'utc')),
+        accepted_at TEXT,
+        UNIQUE(session_id, email),
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.run(`CREATE INDEX IF NOT EXISTS idx_collaborators_session ON session_collaborators(session_id)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_collaborators_email ON session_collaborators(email)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_collaborators_user ON session_collaborators(user_id)`);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS session_audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        action TEXT NOT NULL,
+        actor_user_id TEXT NOT NULL,
+        target_email TEXT,
+        old_value TEXT,
+        new_value TEXT,
+        created_at TEXT DEFAULT (datetime('now', 'utc')),
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.run(`CREATE INDEX IF NOT EXISTS idx_audit_session ON session_audit_log(session_id)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_audit_actor ON session_audit_log(actor_user_id)`);
+  },
+};
@@ -0,0 +1,38 @@
+import type { Migration } from "./helpers";
+
+/**
+ * Per-session file stats for repository aggregates (mirrors session-relevant diffs).
+ */
+export const touchedFiles: Migration = {
+  version: 9,
+  name: "touched-files",
+  up(db) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS touched_files (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        filename TEXT NOT NULL,
+        lines_added INTEGER NOT NULL DEFAULT 0,
+        lines_removed INTEGER NOT NULL DEFAULT 0,
+        UNIQUE(session_id, filename),
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.run(`CREATE INDEX IF NOT EXISTS idx_touched_files_session ON touched_files(session_id)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_repo_url ON sessions(repo_url)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_project_path ON sessions(project_path)`);
+
+    // Backfill from existing diffs, unless a pre-migration database already did
+    const existing = db.prepare("SELECT COUNT(*) as count FROM touched_files").get() as { count: number };
+    if (existing.count === 0) {
+      db.run(`
+        INSERT INTO touched_files (session_id, filename, lines_added, lines_removed)
+        SELECT session_id, filename, SUM(additions), SUM(deletions)
+        FROM diffs
+        WHERE filename IS NOT NULL AND is_session_relevant = 1
+        GROUP BY session_id, filename
+      `);
+    }
+  },
+};
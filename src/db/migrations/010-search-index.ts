@@ -0,0 +1,76 @@
+import type { Migration } from "./helpers";
+
+/**
+ * Full-text search index over message text, tool calls/results and diff content.
+ *
+ * One row per message (rowid = messages.id) and one row per diff (rowid = -diffs.id),
+ * so rows can be removed by rowid when messages/diffs are cleared or cascade-deleted.
+ * Triggers keep the index in sync with every insert path in SessionRepository.
+ */
+export const searchIndex: Migration = {
+  version: 10,
+  name: "search-index",
+  up(db) {
+    db.run(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+        body,
+        tools,
+        session_id UNINDEXED,
+        kind UNINDEXED,
+        message_index UNINDEXED,
+        filename UNINDEXED,
+        tokenize = 'porter unicode61'
+      )
+    `);
+
+    // Tool inputs (name + JSON input) and tool result content, one per line
+    const toolsText = (blocks: string) => `
+      COALESCE((
+        SELECT group_concat(
+          CASE json_extract(value, '$.type')
+            WHEN 'tool_use' THEN json_extract(value, '$.name') || ' ' || COALESCE(json_extract(value, '$.input'), '')
+            WHEN 'tool_result' THEN json_extract(value, '$.content')
+          END,
+          char(10)
+        )
+        FROM json_each(CASE WHEN json_valid(${blocks}) THEN ${blocks} ELSE '[]' END)
+      ), '')
+    `;
+
+    db.run(`
+      CREATE TRIGGER IF NOT EXISTS messages_search_insert AFTER INSERT ON messages BEGIN
+        INSERT INTO search_index (rowid, body, tools, session_id, kind, message_index, filename)
+        VALUES (new.id, new.content, ${toolsText("new.content_blocks")}, new.session_id, 'message', new.message_index, NULL);
+      END
+    `);
+    db.run(`
+      CREATE TRIGGER IF NOT EXISTS messages_search_delete AFTER DELETE ON messages BEGIN
+        DELETE FROM search_index WHERE rowid = old.id;
+      END
+    `);
+    db.run(`
+      CREATE TRIGGER IF NOT EXISTS diffs_search_insert AFTER INSERT ON diffs BEGIN
+        INSERT INTO search_index (rowid, body, tools, session_id, kind, message_index, filename)
+        VALUES (-new.id, new.diff_content, '', new.session_id, 'diff', NULL, new.filename);
+      END
+    `);
+    db.run(`
+      CREATE TRIGGER IF NOT EXISTS diffs_search_delete AFTER DELETE ON diffs BEGIN
+        DELETE FROM search_index WHERE rowid = -old.id;
+      END
+    `);
+
+    // Backfill databases created before the index existed
+    const indexed = db.prepare("SELECT COUNT(*) as count FROM search_index").get() as { count: number };
+    if (indexed.count === 0) {
+      db.run(`
+        INSERT INTO search_index (rowid, body, tools, session_id, kind, message_index, filename)
+        SELECT id, content, ${toolsText("content_blocks")}, session_id, 'message', message_index, NULL FROM messages
+      `);
+      db.run(`
+        INSERT INTO search_index (rowid, body, tools, session_id, kind, message_index, filename)
+        SELECT -id, diff_content, '', session_id, 'diff', NULL, filename FROM diffs
+      `);
+    }
+  },
+};
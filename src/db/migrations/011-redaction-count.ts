@@ -0,0 +1,10 @@
+import { addColumn, type Migration } from "./helpers";
+
+export const redactionCount: Migration = {
+  version: 11,
+  name: "redaction-count",
+  up(db) {
+    // Number of values redacted (secrets, emails) by the CLI or the server redaction policy
+    addColumn(db, "sessions", "redaction_count", "INTEGER DEFAULT 0");
+  },
+};
@@ -0,0 +1,23 @@
+import type { Migration } from "./helpers";
+
+/**
+ * Runtime state of browser-initiated (spawned) sessions: daemon, status, pending
+ * prompts and permission history. Kept so the server can pick sessions back up
+ * after a restart; state_json holds the serialized registry record.
+ */
+export const spawnedSessions: Migration = {
+  version: 12,
+  name: "spawned-sessions",
+  up(db) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS spawned_sessions (
+        id TEXT PRIMARY KEY,
+        daemon_client_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        state_json TEXT NOT NULL,
+        updated_at TEXT NOT NULL DEFAULT (datetime('now', 'utc')),
+        FOREIGN KEY (id) REFERENCES sessions(id) ON DELETE CASCADE
+      )
+    `);
+  },
+};
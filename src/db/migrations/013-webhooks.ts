@@ -0,0 +1,50 @@
+import type { Migration } from "./helpers";
+
+/**
+ * Outbound webhooks and their delivery log. A webhook belongs to a user or a
+ * CLI client and receives events for that owner's sessions. Deliveries are
+ * kept after their session is deleted; they go with their webhook.
+ */
+export const webhooks: Migration = {
+  version: 13,
+  name: "webhooks",
+  up(db) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS webhooks (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        client_id TEXT,
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        events TEXT NOT NULL,
+        description TEXT,
+        active INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT DEFAULT (datetime('now', 'utc')),
+        updated_at TEXT DEFAULT (datetime('now', 'utc'))
+      )
+    `);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_webhooks_user ON webhooks(user_id)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_webhooks_client ON webhooks(client_id)`);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        webhook_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        session_id TEXT,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TEXT,
+        last_attempt_at TEXT,
+        response_status INTEGER,
+        response_body TEXT,
+        error TEXT,
+        created_at TEXT DEFAULT (datetime('now', 'utc')),
+        FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
+      )
+    `);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at)`);
+  },
+};
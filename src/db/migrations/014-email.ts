@@ -0,0 +1,36 @@
+import type { Migration } from "./helpers";
+
+/**
+ * Outgoing email: a log of every message the server sent or tried to send,
+ * and per-address preferences holding the unsubscribe token.
+ */
+export const email: Migration = {
+  version: 14,
+  name: "email",
+  up(db) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS email_log (
+        id TEXT PRIMARY KEY,
+        to_email TEXT NOT NULL,
+        template TEXT NOT NULL,
+        session_id TEXT,
+        subject TEXT NOT NULL,
+        status TEXT NOT NULL,
+        message_id TEXT,
+        error TEXT,
+        created_at TEXT DEFAULT (datetime('now', 'utc'))
+      )
+    `);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_email_log_session ON email_log(session_id, created_at)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_email_log_status ON email_log(status, created_at)`);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS email_preferences (
+        email TEXT PRIMARY KEY,
+        unsubscribe_token TEXT NOT NULL UNIQUE,
+        unsubscribed_at TEXT,
+        created_at TEXT DEFAULT (datetime('now', 'utc'))
+      )
+    `);
+  },
+};
@@ -0,0 +1,43 @@
+import { addColumn, type Migration } from "./helpers";
+
+/**
+ * Organizations and their members. Members are invited by email and linked to
+ * a user on first sign-in, like session collaborators. A session can belong
+ * to one organization; with visibility 'org' every member can view it.
+ */
+export const organizations: Migration = {
+  version: 15,
+  name: "organizations",
+  up(db) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS organizations (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        slug TEXT NOT NULL UNIQUE,
+        created_by_user_id TEXT NOT NULL,
+        created_at TEXT DEFAULT (datetime('now', 'utc')),
+        updated_at TEXT DEFAULT (datetime('now', 'utc'))
+      )
+    `);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS organization_members (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        org_id TEXT NOT NULL,
+        email TEXT NOT NULL,
+        user_id TEXT,
+        role TEXT NOT NULL DEFAULT 'member',
+        invited_by_user_id TEXT NOT NULL,
+        created_at TEXT DEFAULT (datetime('now', 'utc')),
+        accepted_at TEXT,
+        UNIQUE(org_id, email),
+        FOREIGN KEY (org_id) REFERENCES organizations(id) ON DELETE CASCADE
+      )
+    `);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_org_members_email ON organization_members(email)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_org_members_user ON organization_members(user_id)`);
+
+    addColumn(db, "sessions", "org_id", "TEXT REFERENCES organizations(id) ON DELETE SET NULL");
+    db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_org ON sessions(org_id)`);
+  },
+};
@@ -0,0 +1,30 @@
+import { addColumn, type Migration } from "./helpers";
+
+/**
+ * The commit a session's diff is against (base_sha) and the HEAD when it was
+ * last captured (head_sha), plus the commits made in between, so work the
+ * agent commits mid-session stays in the diff.
+ */
+export const sessionCommits: Migration = {
+  version: 16,
+  name: "session_commits",
+  up(db) {
+    addColumn(db, "sessions", "base_sha", "TEXT");
+    addColumn(db, "sessions", "head_sha", "TEXT");
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS session_commits (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        commit_index INTEGER NOT NULL,
+        sha TEXT NOT NULL,
+        message TEXT NOT NULL,
+        author TEXT,
+        committed_at TEXT,
+        UNIQUE(session_id, sha),
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+      )
+    `);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_session_commits_session ON session_commits(session_id)`);
+  },
+};
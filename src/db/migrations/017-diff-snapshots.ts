@@ -0,0 +1,27 @@
+import type { Migration } from "./helpers";
+
+/**
+ * Diff snapshots keyed to the last message index when they were captured, so
+ * the diff can be shown as it stood at any point in the conversation. Files
+ * are stored as JSON (the per-file rows of the diffs table, without ids).
+ */
+export const diffSnapshots: Migration = {
+  version: 17,
+  name: "diff_snapshots",
+  up(db) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS diff_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        message_index INTEGER NOT NULL,
+        files TEXT NOT NULL,
+        files_changed INTEGER NOT NULL DEFAULT 0,
+        additions INTEGER NOT NULL DEFAULT 0,
+        deletions INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT DEFAULT (datetime('now', 'utc')),
+        UNIQUE(session_id, message_index),
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+      )
+    `);
+  },
+};
@@ -0,0 +1,43 @@
+import { addColumn, type Migration } from "./helpers";
+
+/**
+ * Review threads: line comments left by people on a session's diff, with
+ * replies and a resolved state. Threads are anchored by filename rather than
+ * diff id, since live sessions replace their diff rows on every update.
+ * Audit entries for thread activity record the thread they belong to.
+ */
+export const reviewThreads: Migration = {
+  version: 18,
+  name: "review_threads",
+  up(db) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS review_threads (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        filename TEXT NOT NULL,
+        side TEXT NOT NULL,
+        line_number INTEGER NOT NULL,
+        author_user_id TEXT NOT NULL,
+        resolved_at TEXT,
+        resolved_by_user_id TEXT,
+        created_at TEXT DEFAULT (datetime('now', 'utc')),
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+      )
+    `);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_review_threads_session ON review_threads(session_id)`);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS review_comments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        thread_id INTEGER NOT NULL,
+        author_user_id TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at TEXT DEFAULT (datetime('now', 'utc')),
+        FOREIGN KEY (thread_id) REFERENCES review_threads(id) ON DELETE CASCADE
+      )
+    `);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_review_comments_thread ON review_comments(thread_id)`);
+
+    addColumn(db, "session_audit_log", "thread_id", "INTEGER");
+  },
+};
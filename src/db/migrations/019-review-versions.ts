@@ -0,0 +1,68 @@
+import type { Migration } from "./helpers";
+
+/**
+ * Versioned reviews: a session keeps every review instead of one, numbered
+ * per session, with the prompt hash they were generated with. Annotations
+ * record the file and line text they were left on and outlive the diff rows
+ * they pointed at (diff_id is cleared), so earlier reviews can be compared
+ * with later diffs.
+ *
+ * SQLite can't drop the UNIQUE constraint or change the foreign key in
+ * place, so both tables are rebuilt. The new tables are created first and the
+ * old ones dropped annotations-first, so the drop doesn't cascade into them.
+ */
+export const reviewVersions: Migration = {
+  version: 19,
+  name: "review_versions",
+  up(db) {
+    db.run(`
+      CREATE TABLE reviews_v2 (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        version INTEGER NOT NULL DEFAULT 1,
+        summary TEXT NOT NULL,
+        model TEXT,
+        prompt_hash TEXT,
+        created_at TEXT DEFAULT (datetime('now', 'utc')),
+        UNIQUE(session_id, version),
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+      )
+    `);
+    db.run(`
+      INSERT INTO reviews_v2 (id, session_id, version, summary, model, created_at)
+      SELECT id, session_id, 1, summary, model, created_at FROM reviews
+    `);
+
+    db.run(`
+      CREATE TABLE annotations_v2 (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        review_id INTEGER NOT NULL,
+        diff_id INTEGER,
+        filename TEXT NOT NULL DEFAULT '',
+        line_number INTEGER NOT NULL,
+        line_content TEXT,
+        side TEXT NOT NULL DEFAULT 'additions',
+        annotation_type TEXT NOT NULL,
+        content TEXT NOT NULL,
+        FOREIGN KEY (review_id) REFERENCES reviews_v2(id) ON DELETE CASCADE,
+        FOREIGN KEY (diff_id) REFERENCES diffs(id) ON DELETE SET NULL
+      )
+    `);
+    db.run(`
+      INSERT INTO annotations_v2 (id, review_id, diff_id, filename, line_number, side, annotation_type, content)
+      SELECT a.id, a.review_id, a.diff_id, COALESCE(d.filename, ''), a.line_number, a.side, a.annotation_type, a.content
+      FROM annotations a
+      LEFT JOIN diffs d ON d.id = a.diff_id
+    `);
+
+    db.run(`DROP TABLE annotations`);
+    db.run(`DROP TABLE reviews`);
+    // Renaming also updates annotations_v2's reference to reviews_v2
+    db.run(`ALTER TABLE reviews_v2 RENAME TO reviews`);
+    db.run(`ALTER TABLE annotations_v2 RENAME TO annotations`);
+
+    db.run(`CREATE INDEX IF NOT EXISTS idx_reviews_session ON reviews(session_id)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_annotations_review ON annotations(review_id)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_annotations_diff ON annotations(diff_id)`);
+  },
+};
@@ -0,0 +1,15 @@
+import { addColumn, type Migration } from "./helpers";
+
+/**
+ * Organization webhooks: a webhook with org_id set belongs to that
+ * organization (user_id and client_id are null) and receives events for the
+ * organization's sessions.
+ */
+export const orgWebhooks: Migration = {
+  version: 20,
+  name: "org_webhooks",
+  up(db) {
+    addColumn(db, "webhooks", "org_id", "TEXT REFERENCES organizations(id) ON DELETE CASCADE");
+    db.run(`CREATE INDEX IF NOT EXISTS idx_webhooks_org ON webhooks(org_id)`);
+  },
+};
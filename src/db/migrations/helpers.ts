@@ -0,0 +1,34 @@
+import type { Database } from "bun:sqlite";
+import type { SqlExecutor } from "../driver";
+
+export interface Migration {
+  /** Strictly increasing; recorded in schema_migrations once applied */
+  version: number;
+  name: string;
+  up(db: Database): void;
+}
+
+/**
+ * Postgres migrations run through the storage driver. Postgres support started
+ * from the full schema, so version numbers don't line up with the SQLite ones.
+ */
+export interface PostgresMigration {
+  version: number;
+  name: string;
+  up(db: SqlExecutor): Promise<void>;
+}
+
+export function hasColumn(db: Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return columns.some((c) => c.name === column);
+}
+
+/**
+ * Add a column unless it already exists. Databases created before the migration
+ * runner may already have any of the columns added by early migrations.
+ */
+export function addColumn(db: Database, table: string, column: string, definition: string): void {
+  if (!hasColumn(db, table, column)) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
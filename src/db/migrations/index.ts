@@ -0,0 +1,50 @@
+import { initialSchema } from "./001-initial-schema";
+import { contentBlocks } from "./002-content-blocks";
+import { liveSessions } from "./003-live-sessions";
+import { agentSessionId } from "./004-agent-session-id";
+import { tokenUsage } from "./005-token-usage";
+import { feedbackMessages } from "./006-feedback-messages";
+import { analytics } from "./007-analytics";
+import { sessionSharing } from "./008-session-sharing";
+import { touchedFiles } from "./009-touched-files";
+import { searchIndex } from "./010-search-index";
+import { redactionCount } from "./011-redaction-count";
+import { spawnedSessions } from "./012-spawned-sessions";
+import { webhooks } from "./013-webhooks";
+import { email } from "./014-email";
+import { organizations } from "./015-organizations";
+import { sessionCommits } from "./016-session-commits";
+import { diffSnapshots } from "./017-diff-snapshots";
+import { reviewThreads } from "./018-review-threads";
+import { reviewVersions } from "./019-review-versions";
+import { orgWebhooks } from "./020-org-webhooks";
+import type { Migration } from "./helpers";
+
+export type { Migration } from "./helpers";
+
+/**
+ * Every schema migration, in application order. New migrations get the next
+ * version number and are appended here; applied migrations are never edited.
+ */
+export const MIGRATIONS: Migration[] = [
+  initialSchema,
+  contentBlocks,
+  liveSessions,
+  agentSessionId,
+  tokenUsage,
+  feedbackMessages,
+  analytics,
+  sessionSharing,
+  touchedFiles,
+  searchIndex,
+  redactionCount,
+  spawnedSessions,
+  webhooks,
+  email,
+  organizations,
+  sessionCommits,
+  diffSnapshots,
+  reviewThreads,
+  reviewVersions,
+  orgWebhooks,
+];
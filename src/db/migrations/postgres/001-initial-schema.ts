@@ -0,0 +1,301 @@
+import type { PostgresMigration } from "../helpers";
+
+// Timestamps are stored as TEXT in the same format as SQLite (YYYY-MM-DD HH:MM:SS, UTC)
+const NOW = "to_char(timezone('utc', now()), 'YYYY-MM-DD HH24:MI:SS')";
+
+/**
+ * The schema as of SQLite migration 011 (redaction-count). Boolean flags stay
+ * INTEGER columns so rows read the same from either backend.
+ */
+export const initialSchema: PostgresMigration = {
+  version: 1,
+  name: "initial-schema",
+  async up(db) {
+    await db.run(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT,
+        claude_session_id TEXT,
+        pr_url TEXT,
+        share_token TEXT UNIQUE,
+        project_path TEXT,
+        created_at TEXT DEFAULT ${NOW},
+        updated_at TEXT DEFAULT ${NOW},
+        model TEXT,
+        harness TEXT,
+        repo_url TEXT,
+        status TEXT DEFAULT 'archived',
+        last_activity_at TEXT,
+        stream_token_hash TEXT,
+        client_id TEXT,
+        user_id TEXT,
+        interactive INTEGER DEFAULT 0,
+        remote INTEGER DEFAULT 0,
+        agent_session_id TEXT,
+        branch TEXT,
+        input_tokens INTEGER DEFAULT 0,
+        output_tokens INTEGER DEFAULT 0,
+        cache_creation_tokens INTEGER DEFAULT 0,
+        cache_read_tokens INTEGER DEFAULT 0,
+        visibility TEXT DEFAULT 'private',
+        redaction_count INTEGER DEFAULT 0
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE messages (
+        id SERIAL PRIMARY KEY,
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        timestamp TEXT,
+        message_index INTEGER,
+        content_blocks TEXT DEFAULT '[]',
+        user_id TEXT
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE diffs (
+        id SERIAL PRIMARY KEY,
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        filename TEXT,
+        diff_content TEXT NOT NULL,
+        diff_index INTEGER DEFAULT 0,
+        additions INTEGER DEFAULT 0,
+        deletions INTEGER DEFAULT 0,
+        is_session_relevant INTEGER DEFAULT 1,
+        status TEXT DEFAULT 'modified'
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE reviews (
+        id SERIAL PRIMARY KEY,
+        session_id TEXT NOT NULL UNIQUE REFERENCES sessions(id) ON DELETE CASCADE,
+        summary TEXT NOT NULL,
+        model TEXT,
+        created_at TEXT DEFAULT ${NOW}
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE annotations (
+        id SERIAL PRIMARY KEY,
+        review_id INTEGER NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+        diff_id INTEGER NOT NULL REFERENCES diffs(id) ON DELETE CASCADE,
+        line_number INTEGER NOT NULL,
+        side TEXT NOT NULL DEFAULT 'additions',
+        annotation_type TEXT NOT NULL,
+        content TEXT NOT NULL
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE feedback_messages (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        content TEXT NOT NULL,
+        source TEXT,
+        type TEXT NOT NULL DEFAULT 'message',
+        status TEXT NOT NULL DEFAULT 'pending',
+        created_at TEXT NOT NULL DEFAULT ${NOW},
+        resolved_at TEXT,
+        context_json TEXT
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE analytics_events (
+        id SERIAL PRIMARY KEY,
+        event_type TEXT NOT NULL,
+        session_id TEXT REFERENCES sessions(id) ON DELETE SET NULL,
+        client_id TEXT,
+        timestamp TEXT NOT NULL DEFAULT ${NOW},
+        properties TEXT NOT NULL DEFAULT '{}'
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE analytics_daily_stats (
+        id SERIAL PRIMARY KEY,
+        date TEXT NOT NULL,
+        client_id TEXT,
+        model TEXT,
+        stat_type TEXT NOT NULL,
+        value INTEGER NOT NULL DEFAULT 0,
+        UNIQUE (date, client_id, model, stat_type)
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE session_collaborators (
+        id SERIAL PRIMARY KEY,
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        email TEXT NOT NULL,
+        user_id TEXT,
+        role TEXT NOT NULL DEFAULT 'viewer',
+        invited_by_user_id TEXT NOT NULL,
+        created_at TEXT DEFAULT ${NOW},
+        accepted_at TEXT,
+        UNIQUE (session_id, email)
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE session_audit_log (
+        id SERIAL PRIMARY KEY,
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        action TEXT NOT NULL,
+        actor_user_id TEXT NOT NULL,
+        target_email TEXT,
+        old_value TEXT,
+        new_value TEXT,
+        created_at TEXT DEFAULT ${NOW}
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE touched_files (
+        id SERIAL PRIMARY KEY,
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        filename TEXT NOT NULL,
+        lines_added INTEGER NOT NULL DEFAULT 0,
+        lines_removed INTEGER NOT NULL DEFAULT 0,
+        UNIQUE (session_id, filename)
+      )
+    `);
+
+    const indexes = [
+      "CREATE INDEX idx_messages_session ON messages(session_id)",
+      "CREATE INDEX idx_diffs_session ON diffs(session_id)",
+      "CREATE INDEX idx_sessions_share_token ON sessions(share_token)",
+      "CREATE INDEX idx_reviews_session ON reviews(session_id)",
+      "CREATE INDEX idx_annotations_review ON annotations(review_id)",
+      "CREATE INDEX idx_annotations_diff ON annotations(diff_id)",
+      "CREATE INDEX idx_sessions_status ON sessions(status)",
+      "CREATE INDEX idx_sessions_client_id ON sessions(client_id)",
+      "CREATE INDEX idx_sessions_user_id ON sessions(user_id)",
+      "CREATE INDEX idx_sessions_agent_session_id ON sessions(agent_session_id)",
+      "CREATE INDEX idx_sessions_claude_session_id ON sessions(claude_session_id)",
+      "CREATE INDEX idx_sessions_visibility ON sessions(visibility)",
+      "CREATE INDEX idx_sessions_repo_url ON sessions(repo_url)",
+      "CREATE INDEX idx_sessions_project_path ON sessions(project_path)",
+      "CREATE INDEX idx_feedback_session ON feedback_messages(session_id)",
+      "CREATE INDEX idx_feedback_status ON feedback_messages(status)",
+      "CREATE INDEX idx_events_type ON analytics_events(event_type)",
+      "CREATE INDEX idx_events_timestamp ON analytics_events(timestamp)",
+      "CREATE INDEX idx_events_client ON analytics_events(client_id)",
+      "CREATE INDEX idx_events_type_timestamp ON analytics_events(event_type, timestamp)",
+      "CREATE INDEX idx_daily_stats_date ON analytics_daily_stats(date)",
+      "CREATE INDEX idx_daily_stats_client ON analytics_daily_stats(client_id)",
+      "CREATE INDEX idx_collaborators_session ON session_collaborators(session_id)",
+      "CREATE INDEX idx_collaborators_email ON session_collaborators(email)",
+      "CREATE INDEX idx_collaborators_user ON session_collaborators(user_id)",
+      "CREATE INDEX idx_audit_session ON session_audit_log(session_id)",
+      "CREATE INDEX idx_audit_actor ON session_audit_log(actor_user_id)",
+      "CREATE INDEX idx_touched_files_session ON touched_files(session_id)",
+    ];
+    for (const sql of indexes) {
+      await db.run(sql);
+    }
+
+    await createSearchIndex(db);
+  },
+};
+
+/**
+ * Full-text search index, the Postgres counterpart of the SQLite FTS5 table.
+ *
+ * Same row layout (id = messages.id, or -diffs.id), kept in sync by triggers.
+ * The openctl_search configuration stems like FTS5's porter tokenizer and, like
+ * it, has no stop words.
+ */
+async function createSearchIndex(db: Parameters<PostgresMigration["up"]>[0]): Promise<void> {
+  await db.run(`CREATE TEXT SEARCH DICTIONARY openctl_stem (TEMPLATE = snowball, Language = english)`);
+  await db.run(`CREATE TEXT SEARCH CONFIGURATION openctl_search (COPY = english)`);
+  await db.run(`
+    ALTER TEXT SEARCH CONFIGURATION openctl_search
+      ALTER MAPPING FOR asciiword, asciihword, hword_asciipart, word, hword, hword_part WITH openctl_stem
+  `);
+
+  await db.run(`
+    CREATE TABLE search_index (
+      id BIGINT PRIMARY KEY,
+      session_id TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      message_index INTEGER,
+      filename TEXT,
+      body TEXT NOT NULL,
+      tools TEXT NOT NULL DEFAULT '',
+      document tsvector GENERATED ALWAYS AS (to_tsvector('openctl_search', body || ' ' || tools)) STORED
+    )
+  `);
+  await db.run(`CREATE INDEX idx_search_index_document ON search_index USING GIN (document)`);
+  await db.run(`CREATE INDEX idx_search_index_session ON search_index(session_id)`);
+
+  // Tool inputs (name + JSON input) and tool result content, one per line
+  await db.run(`
+    CREATE FUNCTION search_tools_text(blocks TEXT) RETURNS TEXT AS $$
+    DECLARE
+      parsed JSONB;
+    BEGIN
+      BEGIN
+        parsed := blocks::jsonb;
+      EXCEPTION WHEN others THEN
+        RETURN '';
+      END;
+      IF jsonb_typeof(parsed) IS DISTINCT FROM 'array' THEN
+        RETURN '';
+      END IF;
+      RETURN COALESCE((
+        SELECT string_agg(
+          CASE block->>'type'
+            WHEN 'tool_use' THEN (block->>'name') || ' ' || COALESCE(block->>'input', '')
+            WHEN 'tool_result' THEN block->>'content'
+          END,
+          E'\\n'
+        )
+        FROM jsonb_array_elements(parsed) AS block
+      ), '');
+    END
+    $$ LANGUAGE plpgsql IMMUTABLE
+  `);
+
+  await db.run(`
+    CREATE FUNCTION messages_search_sync() RETURNS trigger AS $$
+    BEGIN
+      IF TG_OP = 'INSERT' THEN
+        INSERT INTO search_index (id, session_id, kind, message_index, filename, body, tools)
+        VALUES (NEW.id, NEW.session_id, 'message', NEW.message_index, NULL, NEW.content, search_tools_text(NEW.content_blocks));
+      ELSE
+        DELETE FROM search_index WHERE id = OLD.id;
+      END IF;
+      RETURN NULL;
+    END
+    $$ LANGUAGE plpgsql
+  `);
+  await db.run(`
+    CREATE TRIGGER messages_search AFTER INSERT OR DELETE ON messages
+    FOR EACH ROW EXECUTE FUNCTION messages_search_sync()
+  `);
+
+  await db.run(`
+    CREATE FUNCTION diffs_search_sync() RETURNS trigger AS $$
+    BEGIN
+      IF TG_OP = 'INSERT' THEN
+        INSERT INTO search_index (id, session_id, kind, message_index, filename, body, tools)
+        VALUES (-NEW.id, NEW.session_id, 'diff', NULL, NEW.filename, NEW.diff_content, '');
+      ELSE
+        DELETE FROM search_index WHERE id = -OLD.id;
+      END IF;
+      RETURN NULL;
+    END
+    $$ LANGUAGE plpgsql
+  `);
+  await db.run(`
+    CREATE TRIGGER diffs_search AFTER INSERT OR DELETE ON diffs
+    FOR EACH ROW EXECUTE FUNCTION diffs_search_sync()
+  `);
+}
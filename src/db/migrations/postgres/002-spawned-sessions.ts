@@ -0,0 +1,21 @@
+import { nowSql } from "../../driver";
+import type { PostgresMigration } from "../helpers";
+
+/**
+ * Postgres counterpart of SQLite migration 012 (spawned-sessions).
+ */
+export const spawnedSessions: PostgresMigration = {
+  version: 2,
+  name: "spawned-sessions",
+  async up(db) {
+    await db.run(`
+      CREATE TABLE spawned_sessions (
+        id TEXT PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+        daemon_client_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        state_json TEXT NOT NULL,
+        updated_at TEXT NOT NULL DEFAULT ${nowSql("postgres")}
+      )
+    `);
+  },
+};
@@ -0,0 +1,48 @@
+import { nowSql } from "../../driver";
+import type { PostgresMigration } from "../helpers";
+
+/**
+ * Postgres counterpart of SQLite migration 013 (webhooks).
+ */
+export const webhooks: PostgresMigration = {
+  version: 3,
+  name: "webhooks",
+  async up(db) {
+    await db.run(`
+      CREATE TABLE webhooks (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        client_id TEXT,
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        events TEXT NOT NULL,
+        description TEXT,
+        active INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT DEFAULT ${nowSql("postgres")},
+        updated_at TEXT DEFAULT ${nowSql("postgres")}
+      )
+    `);
+    await db.run(`CREATE INDEX idx_webhooks_user ON webhooks(user_id)`);
+    await db.run(`CREATE INDEX idx_webhooks_client ON webhooks(client_id)`);
+
+    await db.run(`
+      CREATE TABLE webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        webhook_id TEXT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+        event_type TEXT NOT NULL,
+        session_id TEXT,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TEXT,
+        last_attempt_at TEXT,
+        response_status INTEGER,
+        response_body TEXT,
+        error TEXT,
+        created_at TEXT DEFAULT ${nowSql("postgres")}
+      )
+    `);
+    await db.run(`CREATE INDEX idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at)`);
+    await db.run(`CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at)`);
+  },
+};
@@ -0,0 +1,36 @@
+import { nowSql } from "../../driver";
+import type { PostgresMigration } from "../helpers";
+
+/**
+ * Postgres counterpart of SQLite migration 014 (email).
+ */
+export const email: PostgresMigration = {
+  version: 4,
+  name: "email",
+  async up(db) {
+    await db.run(`
+      CREATE TABLE email_log (
+        id TEXT PRIMARY KEY,
+        to_email TEXT NOT NULL,
+        template TEXT NOT NULL,
+        session_id TEXT,
+        subject TEXT NOT NULL,
+        status TEXT NOT NULL,
+        message_id TEXT,
+        error TEXT,
+        created_at TEXT DEFAULT ${nowSql("postgres")}
+      )
+    `);
+    await db.run(`CREATE INDEX idx_email_log_session ON email_log(session_id, created_at)`);
+    await db.run(`CREATE INDEX idx_email_log_status ON email_log(status, created_at)`);
+
+    await db.run(`
+      CREATE TABLE email_preferences (
+        email TEXT PRIMARY KEY,
+        unsubscribe_token TEXT NOT NULL UNIQUE,
+        unsubscribed_at TEXT,
+        created_at TEXT DEFAULT ${nowSql("postgres")}
+      )
+    `);
+  },
+};
@@ -0,0 +1,41 @@
+import { nowSql } from "../../driver";
+import type { PostgresMigration } from "../helpers";
+
+/**
+ * Postgres counterpart of SQLite migration 015 (organizations).
+ */
+export const organizations: PostgresMigration = {
+  version: 5,
+  name: "organizations",
+  async up(db) {
+    await db.run(`
+      CREATE TABLE organizations (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        slug TEXT NOT NULL UNIQUE,
+        created_by_user_id TEXT NOT NULL,
+        created_at TEXT DEFAULT ${nowSql("postgres")},
+        updated_at TEXT DEFAULT ${nowSql("postgres")}
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE organization_members (
+        id SERIAL PRIMARY KEY,
+        org_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+        email TEXT NOT NULL,
+        user_id TEXT,
+        role TEXT NOT NULL DEFAULT 'member',
+        invited_by_user_id TEXT NOT NULL,
+        created_at TEXT DEFAULT ${nowSql("postgres")},
+        accepted_at TEXT,
+        UNIQUE (org_id, email)
+      )
+    `);
+    await db.run(`CREATE INDEX idx_org_members_email ON organization_members(email)`);
+    await db.run(`CREATE INDEX idx_org_members_user ON organization_members(user_id)`);
+
+    await db.run(`ALTER TABLE sessions ADD COLUMN org_id TEXT REFERENCES organizations(id) ON DELETE SET NULL`);
+    await db.run(`CREATE INDEX idx_sessions_org ON sessions(org_id)`);
+  },
+};
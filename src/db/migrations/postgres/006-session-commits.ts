@@ -0,0 +1,27 @@
+import type { PostgresMigration } from "../helpers";
+
+/**
+ * Postgres counterpart of SQLite migration 016 (session_commits).
+ */
+export const sessionCommits: PostgresMigration = {
+  version: 6,
+  name: "session_commits",
+  async up(db) {
+    await db.run(`ALTER TABLE sessions ADD COLUMN base_sha TEXT`);
+    await db.run(`ALTER TABLE sessions ADD COLUMN head_sha TEXT`);
+
+    await db.run(`
+      CREATE TABLE session_commits (
+        id SERIAL PRIMARY KEY,
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        commit_index INTEGER NOT NULL,
+        sha TEXT NOT NULL,
+        message TEXT NOT NULL,
+        author TEXT,
+        committed_at TEXT,
+        UNIQUE (session_id, sha)
+      )
+    `);
+    await db.run(`CREATE INDEX idx_session_commits_session ON session_commits(session_id)`);
+  },
+};
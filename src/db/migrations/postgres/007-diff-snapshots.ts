@@ -0,0 +1,25 @@
+import { nowSql } from "../../driver";
+import type { PostgresMigration } from "../helpers";
+
+/**
+ * Postgres counterpart of SQLite migration 017 (diff_snapshots).
+ */
+export const diffSnapshots: PostgresMigration = {
+  version: 7,
+  name: "diff_snapshots",
+  async up(db) {
+    await db.run(`
+      CREATE TABLE diff_snapshots (
+        id SERIAL PRIMARY KEY,
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        message_index INTEGER NOT NULL,
+        files TEXT NOT NULL,
+        files_changed INTEGER NOT NULL DEFAULT 0,
+        additions INTEGER NOT NULL DEFAULT 0,
+        deletions INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT DEFAULT ${nowSql("postgres")},
+        UNIQUE (session_id, message_index)
+      )
+    `);
+  },
+};
@@ -0,0 +1,39 @@
+import { nowSql } from "../../driver";
+import type { PostgresMigration } from "../helpers";
+
+/**
+ * Postgres counterpart of SQLite migration 018 (review_threads).
+ */
+export const reviewThreads: PostgresMigration = {
+  version: 8,
+  name: "review_threads",
+  async up(db) {
+    await db.run(`
+      CREATE TABLE review_threads (
+        id SERIAL PRIMARY KEY,
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        filename TEXT NOT NULL,
+        side TEXT NOT NULL,
+        line_number INTEGER NOT NULL,
+        author_user_id TEXT NOT NULL,
+        resolved_at TEXT,
+        resolved_by_user_id TEXT,
+        created_at TEXT DEFAULT ${nowSql("postgres")}
+      )
+    `);
+    await db.run(`CREATE INDEX idx_review_threads_session ON review_threads(session_id)`);
+
+    await db.run(`
+      CREATE TABLE review_comments (
+        id SERIAL PRIMARY KEY,
+        thread_id INTEGER NOT NULL REFERENCES review_threads(id) ON DELETE CASCADE,
+        author_user_id TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at TEXT DEFAULT ${nowSql("postgres")}
+      )
+    `);
+    await db.run(`CREATE INDEX idx_review_comments_thread ON review_comments(thread_id)`);
+
+    await db.run(`ALTER TABLE session_audit_log ADD COLUMN thread_id INTEGER`);
+  },
+};
@@ -0,0 +1,25 @@
+import type { PostgresMigration } from "../helpers";
+
+/**
+ * Postgres counterpart of SQLite migration 019 (review_versions).
+ */
+export const reviewVersions: PostgresMigration = {
+  version: 9,
+  name: "review_versions",
+  async up(db) {
+    await db.run(`ALTER TABLE reviews DROP CONSTRAINT reviews_session_id_key`);
+    await db.run(`ALTER TABLE reviews ADD COLUMN version INTEGER NOT NULL DEFAULT 1`);
+    await db.run(`ALTER TABLE reviews ADD COLUMN prompt_hash TEXT`);
+    await db.run(`ALTER TABLE reviews ADD CONSTRAINT reviews_session_version_key UNIQUE (session_id, version)`);
+
+    await db.run(`ALTER TABLE annotations ADD COLUMN filename TEXT NOT NULL DEFAULT ''`);
+    await db.run(`ALTER TABLE annotations ADD COLUMN line_content TEXT`);
+    await db.run(`UPDATE annotations a SET filename = COALESCE(d.filename, '') FROM diffs d WHERE d.id = a.diff_id`);
+    await db.run(`ALTER TABLE annotations ALTER COLUMN diff_id DROP NOT NULL`);
+    await db.run(`ALTER TABLE annotations DROP CONSTRAINT annotations_diff_id_fkey`);
+    await db.run(`
+      ALTER TABLE annotations ADD CONSTRAINT annotations_diff_id_fkey
+      FOREIGN KEY (diff_id) REFERENCES diffs(id) ON DELETE SET NULL
+    `);
+  },
+};
@@ -0,0 +1,13 @@
+import type { PostgresMigration } from "../helpers";
+
+/**
+ * Postgres counterpart of SQLite migration 020 (org_webhooks).
+ */
+export const orgWebhooks: PostgresMigration = {
+  version: 10,
+  name: "org_webhooks",
+  async up(db) {
+    await db.run(`ALTER TABLE webhooks ADD COLUMN org_id TEXT REFERENCES organizations(id) ON DELETE CASCADE`);
+    await db.run(`CREATE INDEX idx_webhooks_org ON webhooks(org_id)`);
+  },
+};
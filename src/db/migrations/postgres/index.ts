@@ -0,0 +1,17 @@
+import type { PostgresMigration } from "../helpers";
+import { initialSchema } from "./001-initial-schema";
+import { spawnedSessions } from "./002-spawned-sessions";
+import { webhooks } from "./003-webhooks";
+import { email } from "./004-email";
+import { organizations } from "./005-organizations";
+import { sessionCommits } from "./006-session-commits";
+import { diffSnapshots } from "./007-diff-snapshots";
+import { reviewThreads } from "./008-review-threads";
+import { reviewVersions } from "./009-review-versions";
+import { orgWebhooks } from "./010-org-webhooks";
+
+/**
+ * Postgres schema migrations, in application order. A schema change needs a
+ * migration here as well as in ../index.ts.
+ */
+export const POSTGRES_MIGRATIONS: PostgresMigration[] = [initialSchema, spawnedSessions, webhooks, email, organizations, sessionCommits, diffSnapshots, reviewThreads, reviewVersions, orgWebhooks];
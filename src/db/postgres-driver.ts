@@ -0,0 +1,106 @@
+import { SQL } from "bun";
+import type { RunResult, SqlExecutor, SqlParam, StorageDriver } from "./driver";
+
+/**
+ * Minimal Postgres client the driver needs. `bunSqlClient` adapts Bun's built-in
+ * client; tests adapt an embedded Postgres (PGlite) to the same shape.
+ */
+export interface PgClient {
+  query<T>(sql: string, params: SqlParam[]): Promise<{ rows: T[]; affectedRows: number }>;
+  transaction<T>(fn: (tx: PgClient) => Promise<T>): Promise<T>;
+  close(): Promise<void>;
+}
+
+const placeholderCache = new Map<string, string>();
+
+/**
+ * Rewrite `?` placeholders as `$1, $2, ...`, leaving quoted strings and identifiers alone.
+ */
+export function toPostgresPlaceholders(sql: string): string {
+  const cached = placeholderCache.get(sql);
+  if (cached !== undefined) return cached;
+
+  let out = "";
+  let index = 0;
+  let quote: string | null = null;
+  for (const char of sql) {
+    if (quote) {
+      if (char === quote) quote = null;
+      out += char;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      out += char;
+    } else if (char === "?") {
+      out += `$${++index}`;
+    } else {
+      out += char;
+    }
+  }
+
+  placeholderCache.set(sql, out);
+  return out;
+}
+
+class PostgresExecutor implements SqlExecutor {
+  readonly dialect = "postgres" as const;
+
+  constructor(protected readonly client: PgClient) {}
+
+  async all<T>(sql: string, params: SqlParam[] = []): Promise<T[]> {
+    const result = await this.client.query<T>(toPostgresPlaceholders(sql), params);
+    return result.rows;
+  }
+
+  async get<T>(sql: string, params: SqlParam[] = []): Promise<T | null> {
+    const rows = await this.all<T>(sql, params);
+    return rows[0] ?? null;
+  }
+
+  async run(sql: string, params: SqlParam[] = []): Promise<RunResult> {
+    const result = await this.client.query(toPostgresPlaceholders(sql), params);
+    return { changes: result.affectedRows };
+  }
+
+  transaction<T>(fn: (tx: SqlExecutor) => Promise<T>): Promise<T> {
+    return fn(this);
+  }
+}
+
+/**
+ * Postgres driver. Each top-level transaction gets its own pooled connection,
+ * so unlike SQLite, concurrent requests don't wait on each other.
+ */
+export class PostgresDriver extends PostgresExecutor implements StorageDriver {
+  override transaction<T>(fn: (tx: SqlExecutor) => Promise<T>): Promise<T> {
+    return this.client.transaction((tx) => fn(new PostgresExecutor(tx)));
+  }
+
+  close(): Promise<void> {
+    return this.client.close();
+  }
+}
+
+/**
+ * Adapt Bun's built-in Postgres client.
+ */
+export function bunSqlClient(sql: SQL): PgClient {
+  return {
+    async query<T>(text: string, params: SqlParam[]) {
+      const result = await sql.unsafe(text, params);
+      return { rows: [...result] as T[], affectedRows: result.count ?? 0 };
+    },
+    transaction<T>(fn: (tx: PgClient) => Promise<T>): Promise<T> {
+      return sql.begin((tx) => fn(bunSqlClient(tx))) as Promise<T>;
+    },
+    close() {
+      return sql.close();
+    },
+  };
+}
+
+/**
+ * Connect to the Postgres database at `url` (e.g. DATABASE_URL).
+ */
+export function connectPostgres(url: string): PostgresDriver {
+  return new PostgresDriver(bunSqlClient(new SQL(url)));
+}
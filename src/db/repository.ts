@@ -1,4 +1,4 @@
-import { Database, Statement } from "bun:sqlite";
+import { Database } from "bun:sqlite";
 import { Result } from "better-result";
 import type {
   Session,
@@ -17,8 +17,42 @@ import type {
   SessionCollaborator,
   AuditAction,
   SessionAuditLog,
+  SearchHit,
+  TouchedFile,
+  RepositorySummary,
+  RepositoryDetail,
+  RepositoryContributor,
+  RepositoryFile,
+  SpawnedSessionState,
+  Webhook,
+  WebhookDelivery,
+  EmailLogEntry,
+  EmailPreferences,
+  EmailStatus,
+  Organization,
+  OrganizationMember,
+  SessionCommit,
+  DiffSnapshot,
+  DiffSnapshotFile,
+  DiffSnapshotSummary,
+  ReviewThread,
+  ReviewComment,
+  ReviewThreadWithComments,
+  OrgRole,
 } from "./schema";
+import { nowSql, type Dialect, type SqlExecutor, type SqlParam } from "./driver";
+import { SqliteDriver } from "./sqlite-driver";
 import { normalizeEmail } from "../lib/email";
+import {
+  buildFtsQuery,
+  buildTsQuery,
+  parseSnippet,
+  SNIPPET_MATCH_START,
+  SNIPPET_MATCH_END,
+  SNIPPET_ELLIPSIS,
+} from "../lib/search";
+import { encodeRepoId } from "../lib/repositories";
+import { diffLineAt } from "../lib/review-versions";
 import { NotFoundError, ForbiddenError, DatabaseError } from "../lib/errors";
 
 // Generate SQLite-compatible UTC timestamp (YYYY-MM-DD HH:MM:SS)
@@ -26,265 +60,283 @@ function sqliteDatetimeNow(): string {
   return new Date().toISOString().replace("T", " ").slice(0, 19);
 }
 
-export class SessionRepository {
-  // Cached prepared statements
-  private readonly stmts: {
-    createSession: Statement;
-    getSession: Statement;
-    getSessionByShareToken: Statement;
-    getAllSessions: Statement;
-    deleteSession: Statement;
-    insertMessage: Statement;
-    getMessages: Statement;
-    clearMessages: Statement;
-    insertDiff: Statement;
-    insertDiffReturningId: Statement;
-    getDiffs: Statement;
-    clearDiffs: Statement;
+// Caller identity used for access-filtered queries (search, repository view)
+export interface SessionAccessOptions {
+  userId?: string | null;
+  clientId?: string | null;
+  email?: string | null;
+  /** Also include sessions whose repository the caller can read (see RepoReadCheck) */
+  canReadRepo?: RepoReadCheck;
+}
+
+/**
+ * Whether the caller can read a repository, given a session's repo_url. Passed
+ * to the access checks when repository-based access is enabled (see
+ * lib/github-access).
+ */
+export type RepoReadCheck = (repoUrl: string) => Promise<boolean>;
+
+// How many repository checks run at once while building an access clause
+const REPO_READ_CONCURRENCY = 8;
+
+// Restricts which sessions' repositories are checked, as a condition on the sessions table
+interface RepoCandidates {
+  clause: string;
+  params: SqlParam[];
+}
+
+type Row = Record<string, unknown>;
+
+// Postgres returns COUNT/SUM as bigint or numeric, which drivers may hand back as strings
+function toNumbers<T extends object>(row: T, keys: Array<keyof T>): T {
+  const result = { ...row };
+  for (const key of keys) {
+    result[key] = Number(row[key]) as T[keyof T];
+  }
+  return result;
+}
+
+// A diff that review annotations are being attached to
+type ReviewedDiff = Pick<Diff, "id" | "filename" | "diff_content">;
+
+const SNAPSHOT_NUMBER_FIELDS: Array<keyof DiffSnapshotSummary> = [
+  "id",
+  "message_index",
+  "files_changed",
+  "additions",
+  "deletions",
+];
+
+// Statements shared by several methods. SQL is written once for both backends;
+// only the current-time expression differs.
+function buildStatements(dialect: Dialect) {
+  const now = nowSql(dialect);
+
+  return {
+    createSession: `
+      INSERT INTO sessions (id, title, description, claude_session_id, agent_session_id, pr_url, share_token, project_path, model, harness, repo_url, branch, status, visibility, last_activity_at, stream_token_hash, client_id, user_id, interactive, remote, input_tokens, output_tokens, cache_read_tokens, cache_creation_tokens)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      RETURNING *
+    `,
+    getSession: "SELECT * FROM sessions WHERE id = ?",
+    getSessionByShareToken: "SELECT * FROM sessions WHERE share_token = ?",
+    getAllSessions: "SELECT * FROM sessions ORDER BY created_at DESC",
+    deleteSession: "DELETE FROM sessions WHERE id = ?",
+    insertMessage: `
+      INSERT INTO messages (session_id, role, content, content_blocks, timestamp, message_index, user_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `,
+    getMessages: "SELECT * FROM messages WHERE session_id = ? ORDER BY message_index ASC",
+    clearMessages: "DELETE FROM messages WHERE session_id = ?",
+    insertDiffReturningId: `
+      INSERT INTO diffs (session_id, filename, diff_content, diff_index, additions, deletions, is_session_relevant)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      RETURNING id
+    `,
+    getDiffs: "SELECT * FROM diffs WHERE session_id = ? ORDER BY diff_index ASC",
+    clearDiffs: "DELETE FROM diffs WHERE session_id = ?",
+    // Touched file statements
+    upsertTouchedFile: `
+      INSERT INTO touched_files (session_id, filename, lines_added, lines_removed)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(session_id, filename) DO UPDATE SET
+        lines_added = touched_files.lines_added + excluded.lines_added,
+        lines_removed = touched_files.lines_removed + excluded.lines_removed
+    `,
+    clearTouchedFiles: "DELETE FROM touched_files WHERE session_id = ?",
+    getTouchedFiles: "SELECT * FROM touched_files WHERE session_id = ? ORDER BY filename ASC",
     // Review statements
-    insertReview: Statement;
-    getReview: Statement;
-    getReviewWithCount: Statement;
-    clearReview: Statement;
+    insertReview: `
+      INSERT INTO reviews (session_id, version, summary, model, prompt_hash)
+      VALUES (?, (SELECT COALESCE(MAX(version), 0) + 1 FROM reviews WHERE session_id = ?), ?, ?, ?)
+      RETURNING *
+    `,
+    getReview: "SELECT * FROM reviews WHERE session_id = ? ORDER BY version DESC LIMIT 1",
+    getReviewsWithCount: `
+      SELECT r.*, COUNT(a.id) as annotation_count
+      FROM reviews r
+      LEFT JOIN annotations a ON a.review_id = r.id
+      WHERE r.session_id = ?
+      GROUP BY r.id
+      ORDER BY r.version DESC
+    `,
+    clearReview: "DELETE FROM reviews WHERE session_id = ?",
     // Annotation statements
-    insertAnnotation: Statement;
-    getAnnotationsByDiff: Statement;
-    getAnnotationsBySession: Statement;
+    insertAnnotation: `
+      INSERT INTO annotations (review_id, diff_id, filename, line_number, line_content, side, annotation_type, content)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+    getAnnotationsByDiff: "SELECT * FROM annotations WHERE diff_id = ?",
+    getAnnotationsByReview: "SELECT * FROM annotations WHERE review_id = ? ORDER BY id",
+    getAnnotationsBySession: `
+      SELECT a.* FROM annotations a
+      JOIN reviews r ON a.review_id = r.id
+      WHERE r.session_id = ?
+    `,
     // Live session statements
-    getLiveSessionByHarnessId: Statement;
-    getSessionByHarnessId: Statement;
-    getLiveSessions: Statement;
-    // Session lookup by claude_session_id
-    getSessionByClaudeSessionId: Statement;
-    // Session lookup by agent_session_id
-    getSessionByAgentSessionId: Statement;
+    getLiveSessionByHarnessId: `
+      SELECT * FROM sessions
+      WHERE claude_session_id = ? AND harness = ? AND status = 'live'
+      ORDER BY created_at DESC
+      LIMIT 1
+    `,
+    getSessionByHarnessId: `
+      SELECT * FROM sessions
+      WHERE claude_session_id = ? AND harness = ?
+      ORDER BY
+        CASE WHEN status = 'live' THEN 0 ELSE 1 END,
+        created_at DESC
+      LIMIT 1
+    `,
+    getLiveSessions: "SELECT * FROM sessions WHERE status = 'live' ORDER BY last_activity_at DESC",
+    // Session lookup by claude_session_id (most recent first)
+    getSessionByClaudeSessionId: `
+      SELECT * FROM sessions
+      WHERE claude_session_id = ?
+      ORDER BY created_at DESC
+      LIMIT 1
+    `,
+    // Session lookup by agent_session_id (most recent first)
+    getSessionByAgentSessionId: `
+      SELECT * FROM sessions
+      WHERE agent_session_id = ?
+      ORDER BY created_at DESC
+      LIMIT 1
+    `,
     // Feedback message statements
-    insertFeedbackMessage: Statement;
-    updateFeedbackStatus: Statement;
-    getPendingFeedback: Statement;
+    insertFeedbackMessage: `
+      INSERT INTO feedback_messages (id, session_id, content, source, type, context_json)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `,
+    updateFeedbackStatus: `
+      UPDATE feedback_messages
+      SET status = ?, resolved_at = ${now}
+      WHERE id = ?
+    `,
+    getPendingFeedback: `
+      SELECT * FROM feedback_messages
+      WHERE session_id = ? AND status = 'pending'
+      ORDER BY created_at ASC
+    `,
     // Analytics statements
-    insertEvent: Statement;
-    upsertDailyStat: Statement;
-    getStatsByDateRange: Statement;
-    getToolStats: Statement;
-    getTimeseries: Statement;
+    insertEvent: `
+      INSERT INTO analytics_events (event_type, session_id, client_id, timestamp, properties)
+      VALUES (?, ?, ?, ${now}, ?)
+    `,
+    upsertDailyStat: `
+      INSERT INTO analytics_daily_stats (date, client_id, model, stat_type, value)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(date, client_id, model, stat_type)
+      DO UPDATE SET value = analytics_daily_stats.value + excluded.value
+    `,
+    getStatsByDateRange: `
+      SELECT stat_type, SUM(value) as total
+      FROM analytics_daily_stats
+      WHERE date >= ? AND date <= ?
+        AND ((CAST(? AS TEXT) IS NULL AND client_id IS NULL) OR client_id = ?)
+        AND stat_type NOT LIKE 'tool_%'
+      GROUP BY stat_type
+    `,
+    getToolStats: `
+      SELECT SUBSTR(stat_type, 6) as tool, SUM(value) as count
+      FROM analytics_daily_stats
+      WHERE date >= ? AND date <= ?
+        AND ((CAST(? AS TEXT) IS NULL AND client_id IS NULL) OR client_id = ?)
+        AND stat_type LIKE 'tool_%'
+      GROUP BY stat_type
+      ORDER BY count DESC
+    `,
+    getTimeseries: `
+      SELECT date, SUM(value) as value
+      FROM analytics_daily_stats
+      WHERE date >= ? AND date <= ?
+        AND ((CAST(? AS TEXT) IS NULL AND client_id IS NULL) OR client_id = ?)
+        AND stat_type = ?
+      GROUP BY date
+      ORDER BY date ASC
+    `,
     // Collaborator statements
-    getCollaborators: Statement;
-    getCollaborator: Statement;
-    getCollaboratorByEmail: Statement;
-    addCollaborator: Statement;
-    updateCollaboratorRole: Statement;
-    updateCollaboratorUserId: Statement;
-    removeCollaborator: Statement;
-    removeCollaboratorByEmail: Statement;
-    getSessionsSharedWithUser: Statement;
-    getSessionsSharedWithEmail: Statement;
-    getCollaboratorByUserId: Statement;
+    getCollaborators: `
+      SELECT * FROM session_collaborators
+      WHERE session_id = ?
+      ORDER BY created_at ASC
+    `,
+    getCollaborator: `
+      SELECT * FROM session_collaborators
+      WHERE id = ?
+    `,
+    getCollaboratorByEmail: `
+      SELECT * FROM session_collaborators
+      WHERE session_id = ? AND email = ?
+    `,
+    addCollaborator: `
+      INSERT INTO session_collaborators (session_id, email, user_id, role, invited_by_user_id)
+      VALUES (?, ?, ?, ?, ?)
+      RETURNING *
+    `,
+    updateCollaboratorRole: `
+      UPDATE session_collaborators SET role = ? WHERE id = ? RETURNING *
+    `,
+    updateCollaboratorUserId: `
+      UPDATE session_collaborators SET user_id = ?, accepted_at = ${now} WHERE id = ?
+    `,
+    removeCollaborator: `
+      DELETE FROM session_collaborators WHERE id = ?
+    `,
+    removeCollaboratorByEmail: `
+      DELETE FROM session_collaborators WHERE session_id = ? AND email = ?
+    `,
+    getSessionsSharedWithUser: `
+      SELECT s.* FROM sessions s
+      INNER JOIN session_collaborators c ON s.id = c.session_id
+      WHERE c.user_id = ?
+      ORDER BY s.created_at DESC
+    `,
+    getSessionsSharedWithEmail: `
+      SELECT s.* FROM sessions s
+      INNER JOIN session_collaborators c ON s.id = c.session_id
+      WHERE c.email = ?
+      ORDER BY s.created_at DESC
+    `,
+    getCollaboratorByUserId: `
+      SELECT * FROM session_collaborators
+      WHERE session_id = ? AND user_id = ?
+    `,
     // Audit log statements
-    insertAuditLog: Statement;
-    getAuditLogs: Statement;
+    insertAuditLog: `
+      INSERT INTO session_audit_log (session_id, action, actor_user_id, target_email, old_value, new_value, thread_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `,
   };
+}
 
-  constructor(private db: Database) {
-    // Initialize cached prepared statements
-    this.stmts = {
-      createSession: db.prepare(`
-        INSERT INTO sessions (id, title, description, claude_session_id, agent_session_id, pr_url, share_token, project_path, model, harness, repo_url, branch, status, visibility, last_activity_at, stream_token_hash, client_id, user_id, interactive, remote, input_tokens, output_tokens, cache_read_tokens, cache_creation_tokens)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        RETURNING *
-      `),
-      getSession: db.prepare("SELECT * FROM sessions WHERE id = ?"),
-      getSessionByShareToken: db.prepare("SELECT * FROM sessions WHERE share_token = ?"),
-      getAllSessions: db.prepare("SELECT * FROM sessions ORDER BY created_at DESC"),
-      deleteSession: db.prepare("DELETE FROM sessions WHERE id = ?"),
-      insertMessage: db.prepare(`
-        INSERT INTO messages (session_id, role, content, content_blocks, timestamp, message_index, user_id)
-        VALUES (?, ?, ?, ?, ?, ?, ?)
-      `),
-      getMessages: db.prepare("SELECT * FROM messages WHERE session_id = ? ORDER BY message_index ASC"),
-      clearMessages: db.prepare("DELETE FROM messages WHERE session_id = ?"),
-      insertDiff: db.prepare(`
-        INSERT INTO diffs (session_id, filename, diff_content, diff_index, additions, deletions, is_session_relevant)
-        VALUES (?, ?, ?, ?, ?, ?, ?)
-      `),
-      insertDiffReturningId: db.prepare(`
-        INSERT INTO diffs (session_id, filename, diff_content, diff_index, additions, deletions, is_session_relevant)
-        VALUES (?, ?, ?, ?, ?, ?, ?)
-        RETURNING id
-      `),
-      getDiffs: db.prepare("SELECT * FROM diffs WHERE session_id = ? ORDER BY diff_index ASC"),
-      clearDiffs: db.prepare("DELETE FROM diffs WHERE session_id = ?"),
-      // Review statements
-      insertReview: db.prepare(`
-        INSERT INTO reviews (session_id, summary, model)
-        VALUES (?, ?, ?)
-        RETURNING *
-      `),
-      getReview: db.prepare("SELECT * FROM reviews WHERE session_id = ?"),
-      getReviewWithCount: db.prepare(`
-        SELECT r.*, COUNT(a.id) as annotation_count
-        FROM reviews r
-        LEFT JOIN annotations a ON a.review_id = r.id
-        WHERE r.session_id = ?
-        GROUP BY r.id
-      `),
-      clearReview: db.prepare("DELETE FROM reviews WHERE session_id = ?"),
-      // Annotation statements
-      insertAnnotation: db.prepare(`
-        INSERT INTO annotations (review_id, diff_id, line_number, side, annotation_type, content)
-        VALUES (?, ?, ?, ?, ?, ?)
-      `),
-      getAnnotationsByDiff: db.prepare("SELECT * FROM annotations WHERE diff_id = ?"),
-      getAnnotationsBySession: db.prepare(`
-        SELECT a.* FROM annotations a
-        JOIN reviews r ON a.review_id = r.id
-        WHERE r.session_id = ?
-      `),
-      // Live session statements
-      getLiveSessionByHarnessId: db.prepare(`
-        SELECT * FROM sessions
-        WHERE claude_session_id = ? AND harness = ? AND status = 'live'
-        ORDER BY created_at DESC
-        LIMIT 1
-      `),
-      getSessionByHarnessId: db.prepare(`
-        SELECT * FROM sessions
-        WHERE claude_session_id = ? AND harness = ?
-        ORDER BY
-          CASE WHEN status = 'live' THEN 0 ELSE 1 END,
-          created_at DESC
-        LIMIT 1
-      `),
-      getLiveSessions: db.prepare("SELECT * FROM sessions WHERE status = 'live' ORDER BY last_activity_at DESC"),
-      // Session lookup by claude_session_id (most recent first)
-      getSessionByClaudeSessionId: db.prepare(`
-        SELECT * FROM sessions
-        WHERE claude_session_id = ?
-        ORDER BY created_at DESC
-        LIMIT 1
-      `),
-      // Session lookup by agent_session_id (most recent first)
-      getSessionByAgentSessionId: db.prepare(`
-        SELECT * FROM sessions
-        WHERE agent_session_id = ?
-        ORDER BY created_at DESC
-        LIMIT 1
-      `),
-      // Feedback message statements
-      insertFeedbackMessage: db.prepare(`
-        INSERT INTO feedback_messages (id, session_id, content, source, type, context_json)
-        VALUES (?, ?, ?, ?, ?, ?)
-      `),
-      updateFeedbackStatus: db.prepare(`
-        UPDATE feedback_messages
-        SET status = ?, resolved_at = datetime('now', 'utc')
-        WHERE id = ?
-      `),
-      getPendingFeedback: db.prepare(`
-        SELECT * FROM feedback_messages
-        WHERE session_id = ? AND status = 'pending'
-        ORDER BY created_at ASC
-      `),
-      // Analytics statements
-      insertEvent: db.prepare(`
-        INSERT INTO analytics_events (event_type, session_id, client_id, timestamp, properties)
-        VALUES (?, ?, ?, datetime('now', 'utc'), ?)
-      `),
-      upsertDailyStat: db.prepare(`
-        INSERT INTO analytics_daily_stats (date, client_id, model, stat_type, value)
-        VALUES (?, ?, ?, ?, ?)
-        ON CONFLICT(date, client_id, model, stat_type)
-        DO UPDATE SET value = value + excluded.value
-      `),
-      getStatsByDateRange: db.prepare(`
-        SELECT stat_type, SUM(value) as total
-        FROM analytics_daily_stats
-        WHERE date >= ? AND date <= ?
-          AND ((? IS NULL AND client_id IS NULL) OR client_id = ?)
-          AND stat_type NOT LIKE 'tool_%'
-        GROUP BY stat_type
-      `),
-      getToolStats: db.prepare(`
-        SELECT SUBSTR(stat_type, 6) as tool, SUM(value) as count
-        FROM analytics_daily_stats
-        WHERE date >= ? AND date <= ?
-          AND ((? IS NULL AND client_id IS NULL) OR client_id = ?)
-          AND stat_type LIKE 'tool_%'
-        GROUP BY stat_type
-        ORDER BY count DESC
-      `),
-      getTimeseries: db.prepare(`
-        SELECT date, SUM(value) as value
-        FROM analytics_daily_stats
-        WHERE date >= ? AND date <= ?
-          AND ((? IS NULL AND client_id IS NULL) OR client_id = ?)
-          AND stat_type = ?
-        GROUP BY date
-        ORDER BY date ASC
-      `),
-      // Collaborator statements
-      getCollaborators: db.prepare(`
-        SELECT * FROM session_collaborators
-        WHERE session_id = ?
-        ORDER BY created_at ASC
-      `),
-      getCollaborator: db.prepare(`
-        SELECT * FROM session_collaborators
-        WHERE id = ?
-      `),
-      getCollaboratorByEmail: db.prepare(`
-        SELECT * FROM session_collaborators
-        WHERE session_id = ? AND email = ?
-      `),
-      addCollaborator: db.prepare(`
-        INSERT INTO session_collaborators (session_id, email, user_id, role, invited_by_user_id)
-        VALUES (?, ?, ?, ?, ?)
-        RETURNING *
-      `),
-      updateCollaboratorRole: db.prepare(`
-        UPDATE session_collaborators SET role = ? WHERE id = ? RETURNING *
-      `),
-      updateCollaboratorUserId: db.prepare(`
-        UPDATE session_collaborators SET user_id = ?, accepted_at = datetime('now', 'utc') WHERE id = ?
-      `),
-      removeCollaborator: db.prepare(`
-        DELETE FROM session_collaborators WHERE id = ?
-      `),
-      removeCollaboratorByEmail: db.prepare(`
-        DELETE FROM session_collaborators WHERE session_id = ? AND email = ?
-      `),
-      getSessionsSharedWithUser: db.prepare(`
-        SELECT s.* FROM sessions s
-        INNER JOIN session_collaborators c ON s.id = c.session_id
-        WHERE c.user_id = ?
-        ORDER BY s.created_at DESC
-      `),
-      getSessionsSharedWithEmail: db.prepare(`
-        SELECT s.* FROM sessions s
-        INNER JOIN session_collaborators c ON s.id = c.session_id
-        WHERE c.email = ?
-        ORDER BY s.created_at DESC
-      `),
-      getCollaboratorByUserId: db.prepare(`
-        SELECT * FROM session_collaborators
-        WHERE session_id = ? AND user_id = ?
-      `),
-      // Audit log statements
-      insertAuditLog: db.prepare(`
-        INSERT INTO session_audit_log (session_id, action, actor_user_id, target_email, old_value, new_value)
-        VALUES (?, ?, ?, ?, ?, ?)
-      `),
-      getAuditLogs: db.prepare(`
-        SELECT * FROM session_audit_log
-        WHERE session_id = ?
-        ORDER BY created_at DESC
-      `),
-    };
+export class SessionRepository {
+  private readonly db: SqlExecutor;
+  // Shared SQL, built for the driver's dialect
+  private readonly stmts: ReturnType<typeof buildStatements>;
+  // Current-time expression for ad-hoc queries
+  private readonly now: string;
+
+  /**
+   * @param db Storage driver (see openStorage), a transaction's executor, or a
+   *   bun:sqlite database from initializeDatabase
+   */
+  constructor(db: SqlExecutor | Database) {
+    this.db = db instanceof Database ? new SqliteDriver(db) : db;
+    this.stmts = buildStatements(this.db.dialect);
+    this.now = nowSql(this.db.dialect);
+  }
+
+  /**
+   * Run `fn` in a transaction with a repository bound to it.
+   */
+  private transaction<T>(fn: (repo: SessionRepository) => Promise<T>): Promise<T> {
+    return this.db.transaction((tx) => fn(new SessionRepository(tx)));
   }
 
   // Note: client_id and user_id are passed separately to avoid duplication in session object
-  createSession(session: Omit<Session, "created_at" | "updated_at" | "client_id" | "user_id">, clientId?: string, userId?: string): Session {
-    const result = this.stmts.createSession.get(
+  async createSession(session: Omit<Session, "created_at" | "updated_at" | "client_id" | "user_id" | "org_id" | "base_sha" | "head_sha">, clientId?: string, userId?: string): Promise<Session> {
+    const result = await this.db.get<Row>(this.stmts.createSession, [
       session.id,
       session.title,
       session.description,
@@ -308,84 +360,41 @@ export class SessionRepository {
       (session as { input_tokens?: number }).input_tokens || 0,
       (session as { output_tokens?: number }).output_tokens || 0,
       (session as { cache_read_tokens?: number }).cache_read_tokens || 0,
-      (session as { cache_creation_tokens?: number }).cache_creation_tokens || 0
-    ) as Record<string, unknown>;
+      (session as { cache_creation_tokens?: number }).cache_creation_tokens || 0,
+    ]);
 
-    // Convert SQLite integers to booleans for the returned object
-    return this.normalizeSession(result);
+    // Convert integer flags to booleans for the returned object
+    return this.normalizeSession(result!);
   }
 
   // Create session with messages and diffs in a single transaction
   // Note: client_id and user_id are passed separately to avoid duplication in session object
   createSessionWithData(
-    session: Omit<Session, "created_at" | "updated_at" | "client_id" | "user_id">,
+    session: Omit<Session, "created_at" | "updated_at" | "client_id" | "user_id" | "org_id" | "base_sha" | "head_sha">,
     messages: Omit<Message, "id">[],
     diffs: Omit<Diff, "id">[],
     clientId?: string,
     userId?: string
-  ): Session {
-    const transaction = this.db.transaction(() => {
-      const created = this.stmts.createSession.get(
-        session.id,
-        session.title,
-        session.description,
-        session.claude_session_id,
-        session.agent_session_id || null,
-        session.pr_url,
-        session.share_token,
-        session.project_path,
-        session.model,
-        session.harness,
-        session.repo_url,
-        session.branch || null,
-        session.status || "archived",
-        session.visibility || "private",
-        session.last_activity_at,
-        null, // stream_token_hash not used for batch uploads
-        clientId || null,
-        userId || null,
-        session.interactive ? 1 : 0,
-        session.remote ? 1 : 0,
-        (session as { input_tokens?: number }).input_tokens || 0,
-        (session as { output_tokens?: number }).output_tokens || 0,
-        (session as { cache_read_tokens?: number }).cache_read_tokens || 0,
-        (session as { cache_creation_tokens?: number }).cache_creation_tokens || 0
-      ) as Record<string, unknown>;
+  ): Promise<Session> {
+    return this.transaction(async (repo) => {
+      const created = await repo.createSession(session, clientId, userId);
 
       for (const msg of messages) {
-        this.stmts.insertMessage.run(
-          msg.session_id,
-          msg.role,
-          msg.content,
-          JSON.stringify(msg.content_blocks || []),
-          msg.timestamp,
-          msg.message_index,
-          msg.user_id || null
-        );
+        await repo.insertMessage(msg, msg.session_id, msg.message_index);
       }
 
       for (const diff of diffs) {
-        this.stmts.insertDiff.run(
-          diff.session_id,
-          diff.filename,
-          diff.diff_content,
-          diff.diff_index,
-          diff.additions || 0,
-          diff.deletions || 0,
-          diff.is_session_relevant ? 1 : 0
-        );
+        await repo.insertDiff(diff, diff.session_id);
       }
+      await repo.recordTouchedFiles(session.id, diffs);
 
-      // Convert SQLite integers to booleans
-      return this.normalizeSession(created);
+      return created;
     });
-
-    return transaction();
   }
 
-  updateSession(id: string, updates: Partial<Omit<Session, "id" | "created_at">>): Result<Session, NotFoundError> {
+  async updateSession(id: string, updates: Partial<Omit<Session, "id" | "created_at">>): Promise<Result<Session, NotFoundError>> {
     const fields: string[] = [];
-    const values: unknown[] = [];
+    const values: SqlParam[] = [];
 
     if (updates.title !== undefined) {
       fields.push("title = ?");
@@ -447,17 +456,19 @@ export class SessionRepository {
       fields.push("visibility = ?");
       values.push(updates.visibility);
     }
+    if (updates.redaction_count !== undefined) {
+      fields.push("redaction_count = ?");
+      values.push(updates.redaction_count);
+    }
 
     if (fields.length === 0) return this.getSession(id);
 
-    fields.push("updated_at = datetime('now', 'utc')");
+    fields.push(`updated_at = ${this.now}`);
     values.push(id);
 
-    // Dynamic query - can't be cached
-    const stmt = this.db.prepare(`
+    const result = await this.db.get<Row>(`
       UPDATE sessions SET ${fields.join(", ")} WHERE id = ? RETURNING *
-    `);
-    const result = stmt.get(...(values as (string | number | boolean | null)[])) as Record<string, unknown> | null;
+    `, values);
     if (!result) {
       return Result.err(new NotFoundError({ resource: "session", id }));
     }
@@ -468,7 +479,7 @@ export class SessionRepository {
    * Increment token usage counters for a session.
    * Used to accumulate token usage as messages stream in.
    */
-  incrementTokenUsage(
+  async incrementTokenUsage(
     id: string,
     tokens: {
       input: number;
@@ -476,32 +487,45 @@ export class SessionRepository {
       cacheCreation: number;
       cacheRead: number;
     }
-  ): void {
+  ): Promise<void> {
     const { input, output, cacheCreation, cacheRead } = tokens;
     if (input === 0 && output === 0 && cacheCreation === 0 && cacheRead === 0) return;
 
-    const stmt = this.db.prepare(`
+    await this.db.run(`
       UPDATE sessions
       SET input_tokens = input_tokens + ?,
           output_tokens = output_tokens + ?,
           cache_creation_tokens = cache_creation_tokens + ?,
           cache_read_tokens = cache_read_tokens + ?,
-          updated_at = datetime('now', 'utc')
+          updated_at = ${this.now}
       WHERE id = ?
-    `);
-    stmt.run(input, output, cacheCreation, cacheRead, id);
+    `, [input, output, cacheCreation, cacheRead, id]);
+  }
+
+  /**
+   * Add to a live session's redaction count as redacted messages stream in.
+   */
+  async incrementRedactionCount(id: string, count: number): Promise<void> {
+    if (count <= 0) return;
+
+    await this.db.run(`
+      UPDATE sessions
+      SET redaction_count = redaction_count + ?,
+          updated_at = ${this.now}
+      WHERE id = ?
+    `, [count, id]);
   }
 
-  getSession(id: string): Result<Session, NotFoundError> {
-    const result = this.stmts.getSession.get(id) as Record<string, unknown> | null;
+  async getSession(id: string): Promise<Result<Session, NotFoundError>> {
+    const result = await this.db.get<Row>(this.stmts.getSession, [id]);
     if (!result) {
       return Result.err(new NotFoundError({ resource: "session", id }));
     }
     return Result.ok(this.normalizeSession(result));
   }
 
-  getSessionByShareToken(token: string): Result<Session, NotFoundError> {
-    const result = this.stmts.getSessionByShareToken.get(token) as Record<string, unknown> | null;
+  async getSessionByShareToken(token: string): Promise<Result<Session, NotFoundError>> {
+    const result = await this.db.get<Row>(this.stmts.getSessionByShareToken, [token]);
     if (!result) {
       return Result.err(new NotFoundError({ resource: "session", id: token }));
     }
@@ -512,8 +536,8 @@ export class SessionRepository {
    * Find a live session by harness session ID.
    * Used to resume streaming to an existing session after daemon restart.
    */
-  getLiveSessionByHarnessId(harnessSessionId: string, harness: string): Result<Session, NotFoundError> {
-    const result = this.stmts.getLiveSessionByHarnessId.get(harnessSessionId, harness) as Record<string, unknown> | null;
+  async getLiveSessionByHarnessId(harnessSessionId: string, harness: string): Promise<Result<Session, NotFoundError>> {
+    const result = await this.db.get<Row>(this.stmts.getLiveSessionByHarnessId, [harnessSessionId, harness]);
     if (!result) {
       return Result.err(new NotFoundError({ resource: "session", id: harnessSessionId }));
     }
@@ -525,8 +549,8 @@ export class SessionRepository {
    * Used to restore a completed session back to live streaming.
    * Prefers live sessions, then archived/completed by most recent.
    */
-  getSessionByHarnessId(harnessSessionId: string, harness: string): Result<Session, NotFoundError> {
-    const result = this.stmts.getSessionByHarnessId.get(harnessSessionId, harness) as Record<string, unknown> | null;
+  async getSessionByHarnessId(harnessSessionId: string, harness: string): Promise<Result<Session, NotFoundError>> {
+    const result = await this.db.get<Row>(this.stmts.getSessionByHarnessId, [harnessSessionId, harness]);
     if (!result) {
       return Result.err(new NotFoundError({ resource: "session", id: harnessSessionId }));
     }
@@ -538,8 +562,8 @@ export class SessionRepository {
    * Used for upserting sessions during batch upload.
    * Returns most recent session with matching UUID.
    */
-  getSessionByClaudeSessionId(claudeSessionId: string): Result<Session, NotFoundError> {
-    const result = this.stmts.getSessionByClaudeSessionId.get(claudeSessionId) as Record<string, unknown> | null;
+  async getSessionByClaudeSessionId(claudeSessionId: string): Promise<Result<Session, NotFoundError>> {
+    const result = await this.db.get<Row>(this.stmts.getSessionByClaudeSessionId, [claudeSessionId]);
     if (!result) {
       return Result.err(new NotFoundError({ resource: "session", id: claudeSessionId }));
     }
@@ -550,34 +574,43 @@ export class SessionRepository {
    * Find a session by agent_session_id.
    * Returns most recent session with matching agent ID.
    */
-  getSessionByAgentSessionId(agentSessionId: string): Result<Session, NotFoundError> {
-    const result = this.stmts.getSessionByAgentSessionId.get(agentSessionId) as Record<string, unknown> | null;
+  async getSessionByAgentSessionId(agentSessionId: string): Promise<Result<Session, NotFoundError>> {
+    const result = await this.db.get<Row>(this.stmts.getSessionByAgentSessionId, [agentSessionId]);
     if (!result) {
       return Result.err(new NotFoundError({ resource: "session", id: agentSessionId }));
     }
     return Result.ok(this.normalizeSession(result));
   }
 
-  getAllSessions(): Session[] {
-    const results = this.stmts.getAllSessions.all() as Record<string, unknown>[];
+  async getAllSessions(): Promise<Session[]> {
+    const results = await this.db.all<Row>(this.stmts.getAllSessions);
     return results.map(r => this.normalizeSession(r));
   }
 
   /**
    * Get sessions filtered by client ID (uses database index for efficiency).
    */
-  getSessionsByClientId(clientId: string): Session[] {
-    const stmt = this.db.prepare("SELECT * FROM sessions WHERE client_id = ? ORDER BY created_at DESC");
-    const results = stmt.all(clientId) as Record<string, unknown>[];
+  async getSessionsByClientId(clientId: string): Promise<Session[]> {
+    const results = await this.db.all<Row>("SELECT * FROM sessions WHERE client_id = ? ORDER BY created_at DESC", [clientId]);
     return results.map(r => this.normalizeSession(r));
   }
 
+  /**
+   * Client IDs the user has uploaded sessions from, i.e. the user's CLIs and daemons.
+   */
+  async getClientIdsForUser(userId: string): Promise<string[]> {
+    const rows = await this.db.all<{ client_id: string }>(
+      "SELECT DISTINCT client_id FROM sessions WHERE user_id = ? AND client_id IS NOT NULL",
+      [userId]
+    );
+    return rows.map((r) => r.client_id);
+  }
+
   /**
    * Get sessions filtered by user ID (uses database index for efficiency).
    */
-  getSessionsByUserId(userId: string): Session[] {
-    const stmt = this.db.prepare("SELECT * FROM sessions WHERE user_id = ? ORDER BY created_at DESC");
-    const results = stmt.all(userId) as Record<string, unknown>[];
+  async getSessionsByUserId(userId: string): Promise<Session[]> {
+    const results = await this.db.all<Row>("SELECT * FROM sessions WHERE user_id = ? ORDER BY created_at DESC", [userId]);
     return results.map(r => this.normalizeSession(r));
   }
 
@@ -586,7 +619,7 @@ export class SessionRepository {
    * Returns sessions owned by user_id or client_id, plus all public sessions.
    * Used to populate the activity feed with sessions the user can see.
    */
-  getAccessibleSessions(userId?: string, clientId?: string): Session[] {
+  async getAccessibleSessions(userId?: string, clientId?: string): Promise<Session[]> {
     let query: string;
     let params: string[];
 
@@ -606,8 +639,7 @@ export class SessionRepository {
       params = [];
     }
 
-    const stmt = this.db.prepare(query);
-    const results = stmt.all(...params) as Record<string, unknown>[];
+    const results = await this.db.all<Row>(query, params);
     return results.map(r => this.normalizeSession(r));
   }
 
@@ -615,7 +647,7 @@ export class SessionRepository {
    * Get distinct project paths from user's sessions, ordered by most recent usage.
    * Used to populate the directory picker with recently-used directories.
    */
-  getRecentProjectPaths(userId?: string, clientId?: string, limit = 10): string[] {
+  async getRecentProjectPaths(userId?: string, clientId?: string, limit = 10): Promise<string[]> {
     if (!userId && !clientId) return [];
 
     let query: string;
@@ -653,15 +685,14 @@ export class SessionRepository {
       params = [clientId!, limit];
     }
 
-    const stmt = this.db.prepare(query);
-    const results = stmt.all(...params) as { project_path: string }[];
+    const results = await this.db.all<{ project_path: string }>(query, params);
     return results.map(r => r.project_path);
   }
 
   /**
-   * Convert SQLite integer fields to proper booleans for Session objects.
+   * Convert integer flag columns to proper booleans for Session objects.
    */
-  private normalizeSession(result: Record<string, unknown>): Session {
+  private normalizeSession(result: Row): Session {
     return {
       ...result,
       interactive: Boolean(result.interactive),
@@ -669,101 +700,243 @@ export class SessionRepository {
     } as Session;
   }
 
-  deleteSession(id: string): boolean {
-    const result = this.stmts.deleteSession.run(id);
+  async deleteSession(id: string): Promise<boolean> {
+    const result = await this.db.run(this.stmts.deleteSession, [id]);
     return result.changes > 0;
   }
 
-  addMessage(message: Omit<Message, "id">): void {
-    this.stmts.insertMessage.run(
-      message.session_id,
-      message.role,
-      message.content,
-      JSON.stringify(message.content_blocks || []),
-      message.timestamp,
-      message.message_index,
-      message.user_id || null
-    );
+  async addMessage(message: Omit<Message, "id">): Promise<void> {
+    await this.insertMessage(message, message.session_id, message.message_index);
   }
 
-  addMessages(messages: Omit<Message, "id">[]): void {
-    const transaction = this.db.transaction(() => {
+  addMessages(messages: Omit<Message, "id">[]): Promise<void> {
+    return this.transaction(async (repo) => {
       for (const msg of messages) {
-        this.stmts.insertMessage.run(
-          msg.session_id,
-          msg.role,
-          msg.content,
-          JSON.stringify(msg.content_blocks || []),
-          msg.timestamp,
-          msg.message_index,
-          msg.user_id || null
-        );
+        await repo.insertMessage(msg, msg.session_id, msg.message_index);
       }
     });
-    transaction();
   }
 
-  getMessages(sessionId: string): Message[] {
-    const rows = this.stmts.getMessages.all(sessionId) as Array<Record<string, unknown>>;
-    return rows.map(row => ({
-      ...row,
-      content_blocks: JSON.parse((row.content_blocks as string) || '[]'),
-    })) as Message[];
+  async getMessages(sessionId: string): Promise<Message[]> {
+    const rows = await this.db.all<Row>(this.stmts.getMessages, [sessionId]);
+    return rows.map(row => this.normalizeMessage(row));
   }
 
-  addDiff(diff: Omit<Diff, "id">): void {
-    this.stmts.insertDiff.run(
-      diff.session_id,
-      diff.filename,
-      diff.diff_content,
-      diff.diff_index,
-      diff.additions || 0,
-      diff.deletions || 0,
-      diff.is_session_relevant ? 1 : 0
-    );
+  async addDiff(diff: Omit<Diff, "id">): Promise<void> {
+    await this.insertDiff(diff, diff.session_id);
+    await this.recordTouchedFiles(diff.session_id, [diff]);
   }
 
-  addDiffs(diffs: Omit<Diff, "id">[]): void {
-    const transaction = this.db.transaction(() => {
+  addDiffs(diffs: Omit<Diff, "id">[]): Promise<void> {
+    return this.transaction(async (repo) => {
       for (const diff of diffs) {
-        this.stmts.insertDiff.run(
-          diff.session_id,
-          diff.filename,
-          diff.diff_content,
-          diff.diff_index,
-          diff.additions || 0,
-          diff.deletions || 0,
-          diff.is_session_relevant ? 1 : 0
-        );
+        await repo.insertDiff(diff, diff.session_id);
+        await repo.recordTouchedFiles(diff.session_id, [diff]);
       }
     });
-    transaction();
   }
 
-  getDiffs(sessionId: string): Diff[] {
-    const rows = this.stmts.getDiffs.all(sessionId) as Array<Record<string, unknown>>;
+  async getDiffs(sessionId: string): Promise<Diff[]> {
+    const rows = await this.db.all<Row>(this.stmts.getDiffs, [sessionId]);
     return rows.map(row => ({
       ...row,
       is_session_relevant: Boolean(row.is_session_relevant),
     })) as Diff[];
   }
 
-  clearMessages(sessionId: string): void {
-    this.stmts.clearMessages.run(sessionId);
+  async clearMessages(sessionId: string): Promise<void> {
+    await this.db.run(this.stmts.clearMessages, [sessionId]);
+  }
+
+  async clearDiffs(sessionId: string): Promise<void> {
+    await this.db.run(this.stmts.clearDiffs, [sessionId]);
+    await this.db.run(this.stmts.clearTouchedFiles, [sessionId]);
+  }
+
+  getTouchedFiles(sessionId: string): Promise<TouchedFile[]> {
+    return this.db.all<TouchedFile>(this.stmts.getTouchedFiles, [sessionId]);
+  }
+
+  /**
+   * Record the commits a session's diff spans: its base and head SHAs and the
+   * commits in between (oldest first), replacing any previously recorded.
+   */
+  setSessionCommits(
+    sessionId: string,
+    baseSha: string,
+    headSha: string,
+    commits: Array<Pick<SessionCommit, "sha" | "message" | "author" | "committed_at">>
+  ): Promise<void> {
+    return this.transaction(async (repo) => {
+      await repo.db.run(
+        `UPDATE sessions SET base_sha = ?, head_sha = ?, updated_at = ${repo.now} WHERE id = ?`,
+        [baseSha, headSha, sessionId]
+      );
+      await repo.db.run(`DELETE FROM session_commits WHERE session_id = ?`, [sessionId]);
+      for (const [index, commit] of commits.entries()) {
+        await repo.db.run(
+          `INSERT INTO session_commits (session_id, commit_index, sha, message, author, committed_at)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [sessionId, index, commit.sha, commit.message, commit.author, commit.committed_at]
+        );
+      }
+    });
+  }
+
+  async getSessionCommits(sessionId: string): Promise<SessionCommit[]> {
+    const rows = await this.db.all<SessionCommit>(
+      `SELECT * FROM session_commits WHERE session_id = ? ORDER BY commit_index`,
+      [sessionId]
+    );
+    return rows.map((row) => ({ ...row, id: Number(row.id), commit_index: Number(row.commit_index) }));
+  }
+
+  /**
+   * Record the session's diff as it stands after `messageIndex`. A later
+   * capture for the same message replaces it; a capture identical to the
+   * previous snapshot is skipped. Diffs captured before the first message
+   * count as after it. Returns whether a snapshot was written.
+   */
+  saveDiffSnapshot(
+    sessionId: string,
+    messageIndex: number,
+    diffs: Array<Omit<Diff, "id" | "session_id">>
+  ): Promise<boolean> {
+    const files: DiffSnapshotFile[] = diffs.map((d) => ({
+      filename: d.filename,
+      diff_content: d.diff_content,
+      diff_index: d.diff_index,
+      additions: d.additions || 0,
+      deletions: d.deletions || 0,
+      is_session_relevant: d.is_session_relevant,
+      status: d.status,
+    }));
+    const json = JSON.stringify(files);
+    messageIndex = Math.max(messageIndex, 0);
+
+    return this.transaction(async (repo) => {
+      const previous = await repo.db.get<{ message_index: number; files: string }>(
+        `SELECT message_index, files FROM diff_snapshots
+         WHERE session_id = ? AND message_index < ?
+         ORDER BY message_index DESC LIMIT 1`,
+        [sessionId, messageIndex]
+      );
+      if (previous?.files === json) {
+        await repo.db.run(`DELETE FROM diff_snapshots WHERE session_id = ? AND message_index = ?`, [
+          sessionId,
+          messageIndex,
+        ]);
+        return false;
+      }
+
+      await repo.db.run(
+        `INSERT INTO diff_snapshots (session_id, message_index, files, files_changed, additions, deletions)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(session_id, message_index) DO UPDATE SET
+           files = excluded.files,
+           files_changed = excluded.files_changed,
+           additions = excluded.additions,
+           deletions = excluded.deletions,
+           created_at = ${repo.now}`,
+        [
+          sessionId,
+          messageIndex,
+          json,
+          files.length,
+          files.reduce((sum, f) => sum + f.additions, 0),
+          files.reduce((sum, f) => sum + f.deletions, 0),
+        ]
+      );
+      return true;
+    });
+  }
+
+  /**
+   * List a session's diff snapshots (without their files), oldest first.
+   */
+  async getDiffSnapshots(sessionId: string): Promise<DiffSnapshotSummary[]> {
+    const rows = await this.db.all<DiffSnapshotSummary>(
+      `SELECT id, session_id, message_index, files_changed, additions, deletions, created_at
+       FROM diff_snapshots WHERE session_id = ? ORDER BY message_index`,
+      [sessionId]
+    );
+    return rows.map((row) => toNumbers(row, SNAPSHOT_NUMBER_FIELDS));
+  }
+
+  /**
+   * The diff as it stood after `messageIndex`: the latest snapshot taken at
+   * or before it. Returns null when there is none.
+   */
+  async getDiffSnapshotAt(sessionId: string, messageIndex: number): Promise<DiffSnapshot | null> {
+    const row = await this.db.get<DiffSnapshotSummary & { files: string }>(
+      `SELECT * FROM diff_snapshots
+       WHERE session_id = ? AND message_index <= ?
+       ORDER BY message_index DESC LIMIT 1`,
+      [sessionId, messageIndex]
+    );
+    if (!row) {
+      return null;
+    }
+
+    const { files, ...summary } = row;
+    return { ...toNumbers(summary, SNAPSHOT_NUMBER_FIELDS), files: JSON.parse(files) as DiffSnapshotFile[] };
+  }
+
+  private async insertMessage(
+    msg: Omit<Message, "id" | "session_id" | "message_index">,
+    sessionId: string,
+    messageIndex: number
+  ): Promise<void> {
+    await this.db.run(this.stmts.insertMessage, [
+      sessionId,
+      msg.role,
+      msg.content,
+      JSON.stringify(msg.content_blocks || []),
+      msg.timestamp,
+      messageIndex,
+      msg.user_id || null,
+    ]);
+  }
+
+  private async insertDiff(diff: Omit<Diff, "id" | "session_id">, sessionId: string): Promise<number> {
+    const result = await this.db.get<{ id: number }>(this.stmts.insertDiffReturningId, [
+      sessionId,
+      diff.filename,
+      diff.diff_content,
+      diff.diff_index,
+      diff.additions || 0,
+      diff.deletions || 0,
+      diff.is_session_relevant ? 1 : 0,
+    ]);
+    return result!.id;
+  }
+
+  private normalizeMessage(row: Row): Message {
+    return {
+      ...row,
+      content_blocks: JSON.parse((row.content_blocks as string) || '[]'),
+    } as Message;
   }
 
-  clearDiffs(sessionId: string): void {
-    this.stmts.clearDiffs.run(sessionId);
+  /**
+   * Accumulate per-file line stats for session-relevant diffs.
+   * Callers replacing a session's diffs must clear touched files first (see clearDiffs).
+   */
+  private async recordTouchedFiles(sessionId: string, diffs: Array<Omit<Diff, "id" | "session_id">>): Promise<void> {
+    for (const diff of diffs) {
+      if (!diff.filename || !diff.is_session_relevant) continue;
+      await this.db.run(this.stmts.upsertTouchedFile, [sessionId, diff.filename, diff.additions || 0, diff.deletions || 0]);
+    }
   }
 
   // Live session methods
-  getLiveSessions(): Session[] {
-    return this.stmts.getLiveSessions.all() as Session[];
+  getLiveSessions(): Promise<Session[]> {
+    return this.db.all<Session>(this.stmts.getLiveSessions);
   }
 
   // Get live sessions with message counts in a single query (avoids N+1)
-  getLiveSessionsWithCounts(): Array<Session & { message_count: number }> {
-    const stmt = this.db.prepare(`
+  async getLiveSessionsWithCounts(): Promise<Array<Session & { message_count: number }>> {
+    const rows = await this.db.all<Session & { message_count: number }>(`
       SELECT s.*, COALESCE(m.cnt, 0) as message_count
       FROM sessions s
       LEFT JOIN (SELECT session_id, COUNT(*) as cnt FROM messages GROUP BY session_id) m
@@ -771,46 +944,35 @@ export class SessionRepository {
       WHERE s.status = 'live'
       ORDER BY s.last_activity_at DESC
     `);
-    return stmt.all() as Array<Session & { message_count: number }>;
+    return rows.map(row => toNumbers(row, ["message_count"]));
   }
 
-  getMessageCount(sessionId: string): number {
-    const stmt = this.db.prepare("SELECT COUNT(*) as count FROM messages WHERE session_id = ?");
-    const result = stmt.get(sessionId) as { count: number };
-    return result.count;
+  async getMessageCount(sessionId: string): Promise<number> {
+    const result = await this.db.get<{ count: number | string }>("SELECT COUNT(*) as count FROM messages WHERE session_id = ?", [sessionId]);
+    return Number(result!.count);
   }
 
-  getLastMessageIndex(sessionId: string): number {
-    const stmt = this.db.prepare("SELECT MAX(message_index) as last_index FROM messages WHERE session_id = ?");
-    const result = stmt.get(sessionId) as { last_index: number | null };
-    return result.last_index ?? -1;
+  async getLastMessageIndex(sessionId: string): Promise<number> {
+    const result = await this.db.get<{ last_index: number | null }>(
+      "SELECT MAX(message_index) as last_index FROM messages WHERE session_id = ?",
+      [sessionId]
+    );
+    return result?.last_index ?? -1;
   }
 
   // Atomically add messages with sequential indices (prevents race conditions)
-  addMessagesWithIndices(sessionId: string, messages: Array<Omit<Message, "id" | "message_index">>): { lastIndex: number; count: number } {
-    const transaction = this.db.transaction(() => {
+  addMessagesWithIndices(sessionId: string, messages: Array<Omit<Message, "id" | "message_index">>): Promise<{ lastIndex: number; count: number }> {
+    return this.transaction(async (repo) => {
       // Get current max index within transaction
-      const stmt = this.db.prepare("SELECT MAX(message_index) as last_index FROM messages WHERE session_id = ?");
-      const result = stmt.get(sessionId) as { last_index: number | null };
-      let lastIndex = result.last_index ?? -1;
+      let lastIndex = await repo.getLastMessageIndex(sessionId);
 
       for (const msg of messages) {
         lastIndex++;
-        this.stmts.insertMessage.run(
-          msg.session_id,
-          msg.role,
-          msg.content,
-          JSON.stringify(msg.content_blocks || []),
-          msg.timestamp,
-          lastIndex,
-          msg.user_id || null
-        );
+        await repo.insertMessage(msg, msg.session_id, lastIndex);
       }
 
       return { lastIndex, count: messages.length };
     });
-
-    return transaction();
   }
 
   /**
@@ -818,15 +980,14 @@ export class SessionRepository {
    * Returns true if the session exists and belongs to the client.
    * For live sessions, also verifies the session is still live.
    */
-  verifyClientOwnership(sessionId: string, clientId: string | null, requireLive: boolean = true): boolean {
+  async verifyClientOwnership(sessionId: string, clientId: string | null, requireLive: boolean = true): Promise<boolean> {
     if (!clientId) return false;
 
     const query = requireLive
       ? "SELECT client_id FROM sessions WHERE id = ? AND status = 'live'"
       : "SELECT client_id FROM sessions WHERE id = ?";
 
-    const stmt = this.db.prepare(query);
-    const result = stmt.get(sessionId) as { client_id: string | null } | null;
+    const result = await this.db.get<{ client_id: string | null }>(query, [sessionId]);
 
     if (!result) return false;
 
@@ -847,12 +1008,12 @@ export class SessionRepository {
    * Sessions with no owner (legacy) are NOT accessible via this method.
    * They must be accessed via share_token or migrated to have an owner.
    */
-  verifyOwnership(
+  async verifyOwnership(
     sessionId: string,
     userId: string | null,
     clientId: string | null,
     options: { requireLive?: boolean } = {}
-  ): Result<{ isOwner: boolean }, NotFoundError | ForbiddenError> {
+  ): Promise<Result<{ isOwner: boolean }, NotFoundError | ForbiddenError>> {
     const { requireLive = false } = options;
 
     if (!userId && !clientId) {
@@ -863,8 +1024,7 @@ export class SessionRepository {
       ? "SELECT user_id, client_id FROM sessions WHERE id = ? AND status = 'live'"
       : "SELECT user_id, client_id FROM sessions WHERE id = ?";
 
-    const stmt = this.db.prepare(query);
-    const result = stmt.get(sessionId) as { user_id: string | null; client_id: string | null } | null;
+    const result = await this.db.get<{ user_id: string | null; client_id: string | null }>(query, [sessionId]);
 
     if (!result) {
       return Result.err(new NotFoundError({ resource: "session", id: sessionId }));
@@ -887,11 +1047,11 @@ export class SessionRepository {
    * Get unclaimed sessions for a client (sessions with client_id but no user_id).
    * Used for session claiming flow after user authentication.
    */
-  getUnclaimedSessions(clientId: string): Session[] {
-    const stmt = this.db.prepare(
-      "SELECT * FROM sessions WHERE client_id = ? AND user_id IS NULL ORDER BY created_at DESC"
+  async getUnclaimedSessions(clientId: string): Promise<Session[]> {
+    const results = await this.db.all<Row>(
+      "SELECT * FROM sessions WHERE client_id = ? AND user_id IS NULL ORDER BY created_at DESC",
+      [clientId]
     );
-    const results = stmt.all(clientId) as Record<string, unknown>[];
     return results.map(r => this.normalizeSession(r));
   }
 
@@ -899,11 +1059,11 @@ export class SessionRepository {
    * Claim all unclaimed sessions for a client, assigning them to a user.
    * Returns the number of sessions claimed.
    */
-  claimSessions(clientId: string, userId: string): number {
-    const stmt = this.db.prepare(
-      "UPDATE sessions SET user_id = ?, updated_at = datetime('now', 'utc') WHERE client_id = ? AND user_id IS NULL"
+  async claimSessions(clientId: string, userId: string): Promise<number> {
+    const result = await this.db.run(
+      `UPDATE sessions SET user_id = ?, updated_at = ${this.now} WHERE client_id = ? AND user_id IS NULL`,
+      [userId, clientId]
     );
-    const result = stmt.run(userId, clientId);
     return result.changes;
   }
 
@@ -911,11 +1071,11 @@ export class SessionRepository {
    * Update the user_id for a specific session.
    * Used for individual session claiming.
    */
-  setSessionUserId(sessionId: string, userId: string): boolean {
-    const stmt = this.db.prepare(
-      "UPDATE sessions SET user_id = ?, updated_at = datetime('now', 'utc') WHERE id = ?"
+  async setSessionUserId(sessionId: string, userId: string): Promise<boolean> {
+    const result = await this.db.run(
+      `UPDATE sessions SET user_id = ?, updated_at = ${this.now} WHERE id = ?`,
+      [userId, sessionId]
     );
-    const result = stmt.run(userId, sessionId);
     return result.changes > 0;
   }
 
@@ -923,112 +1083,116 @@ export class SessionRepository {
    * Restore a session to live status.
    * Used to resume streaming to a completed/archived session.
    */
-  restoreSessionToLive(sessionId: string): boolean {
-    const stmt = this.db.prepare(`
+  async restoreSessionToLive(sessionId: string): Promise<boolean> {
+    const result = await this.db.run(`
       UPDATE sessions SET
         status = 'live',
-        last_activity_at = datetime('now', 'utc'),
-        updated_at = datetime('now', 'utc')
+        last_activity_at = ${this.now},
+        updated_at = ${this.now}
       WHERE id = ?
-    `);
-    const result = stmt.run(sessionId);
+    `, [sessionId]);
     return result.changes > 0;
   }
 
-  getMessagesFromIndex(sessionId: string, fromIndex: number): Message[] {
-    const stmt = this.db.prepare(
-      "SELECT * FROM messages WHERE session_id = ? AND message_index >= ? ORDER BY message_index ASC"
+  async getMessagesFromIndex(sessionId: string, fromIndex: number): Promise<Message[]> {
+    const rows = await this.db.all<Row>(
+      "SELECT * FROM messages WHERE session_id = ? AND message_index >= ? ORDER BY message_index ASC",
+      [sessionId, fromIndex]
     );
-    const rows = stmt.all(sessionId, fromIndex) as Array<Record<string, unknown>>;
-    return rows.map(row => ({
-      ...row,
-      content_blocks: JSON.parse((row.content_blocks as string) || '[]'),
-    })) as Message[];
+    return rows.map(row => this.normalizeMessage(row));
   }
 
   // Review methods
-  createReview(review: Omit<Review, "id" | "created_at">): Review {
-    return this.stmts.insertReview.get(
+
+  /**
+   * Add a review to a session, as the version after its latest one.
+   */
+  async createReview(review: Omit<Review, "id" | "version" | "created_at">): Promise<Review> {
+    const result = await this.db.get<Review>(this.stmts.insertReview, [
+      review.session_id,
       review.session_id,
       review.summary,
-      review.model
-    ) as Review;
+      review.model,
+      review.prompt_hash,
+    ]);
+    return result!;
   }
 
-  getReview(sessionId: string): Result<Review, NotFoundError> {
-    const result = this.stmts.getReview.get(sessionId) as Review | null;
+  async getReview(sessionId: string): Promise<Result<Review, NotFoundError>> {
+    const result = await this.db.get<Review>(this.stmts.getReview, [sessionId]);
     if (!result) {
       return Result.err(new NotFoundError({ resource: "review", id: sessionId }));
     }
     return Result.ok(result);
   }
 
-  getReviewWithCount(sessionId: string): Result<Review & { annotation_count: number }, NotFoundError> {
-    const result = this.stmts.getReviewWithCount.get(sessionId) as (Review & { annotation_count: number }) | null;
+  /**
+   * The session's latest review, or a given version of it.
+   */
+  async getReviewWithCount(
+    sessionId: string,
+    version?: number
+  ): Promise<Result<Review & { annotation_count: number }, NotFoundError>> {
+    const reviews = await this.getReviews(sessionId);
+    const result = version === undefined ? reviews[0] : reviews.find((r) => r.version === version);
     if (!result) {
       return Result.err(new NotFoundError({ resource: "review", id: sessionId }));
     }
     return Result.ok(result);
   }
 
+  /**
+   * Every review of a session, newest version first.
+   */
+  async getReviews(sessionId: string): Promise<Array<Review & { annotation_count: number }>> {
+    const rows = await this.db.all<Review & { annotation_count: number }>(this.stmts.getReviewsWithCount, [sessionId]);
+    return rows.map((row) => toNumbers(row, ["annotation_count"]));
+  }
+
   // Annotation methods
-  addAnnotation(annotation: Omit<Annotation, "id">): void {
-    this.stmts.insertAnnotation.run(
+  async addAnnotation(annotation: Omit<Annotation, "id">): Promise<void> {
+    await this.db.run(this.stmts.insertAnnotation, [
       annotation.review_id,
       annotation.diff_id,
+      annotation.filename,
       annotation.line_number,
+      annotation.line_content,
       annotation.side,
       annotation.annotation_type,
-      annotation.content
-    );
+      annotation.content,
+    ]);
   }
 
-  addAnnotations(annotations: Omit<Annotation, "id">[]): void {
-    const transaction = this.db.transaction(() => {
+  addAnnotations(annotations: Omit<Annotation, "id">[]): Promise<void> {
+    return this.transaction(async (repo) => {
       for (const annotation of annotations) {
-        this.stmts.insertAnnotation.run(
-          annotation.review_id,
-          annotation.diff_id,
-          annotation.line_number,
-          annotation.side,
-          annotation.annotation_type,
-          annotation.content
-        );
+        await repo.addAnnotation(annotation);
       }
     });
-    transaction();
   }
 
-  getAnnotationsByDiff(diffId: number): Annotation[] {
-    return this.stmts.getAnnotationsByDiff.all(diffId) as Annotation[];
+  getAnnotationsByDiff(diffId: number): Promise<Annotation[]> {
+    return this.db.all<Annotation>(this.stmts.getAnnotationsByDiff, [diffId]);
   }
 
-  getAnnotationsBySession(sessionId: string): Annotation[] {
-    return this.stmts.getAnnotationsBySession.all(sessionId) as Annotation[];
+  getAnnotationsBySession(sessionId: string): Promise<Annotation[]> {
+    return this.db.all<Annotation>(this.stmts.getAnnotationsBySession, [sessionId]);
   }
 
-  getAnnotationsGroupedByDiff(sessionId: string): Record<number, Annotation[]> {
-    const annotations = this.getAnnotationsBySession(sessionId);
-    const grouped: Record<number, Annotation[]> = {};
-    for (const annotation of annotations) {
-      const diffId = annotation.diff_id;
-      if (!grouped[diffId]) {
-        grouped[diffId] = [];
-      }
-      grouped[diffId]!.push(annotation);
-    }
-    return grouped;
+  getAnnotationsByReview(reviewId: number): Promise<Annotation[]> {
+    return this.db.all<Annotation>(this.stmts.getAnnotationsByReview, [reviewId]);
   }
 
   // Input type for annotations during upload (uses filename instead of diff_id)
   // Note: client_id and user_id are passed separately to avoid duplication in session object
   createSessionWithDataAndReview(
-    session: Omit<Session, "created_at" | "updated_at" | "client_id" | "user_id">,
+    session: Omit<Session, "created_at" | "updated_at" | "client_id" | "user_id" | "org_id" | "base_sha" | "head_sha">,
     messages: Omit<Message, "id">[],
     diffs: Omit<Diff, "id">[],
     reviewData?: {
       summary: string;
       model?: string;
+      prompt_hash?: string;
       annotations: Array<{
         filename: string;
         line_number: number;
@@ -1039,99 +1203,161 @@ export class SessionRepository {
     },
     clientId?: string,
     userId?: string
-  ): Session {
-    const transaction = this.db.transaction(() => {
-      // Create session
-      const created = this.stmts.createSession.get(
-        session.id,
-        session.title,
-        session.description,
-        session.claude_session_id,
-        session.agent_session_id || null,
-        session.pr_url,
-        session.share_token,
-        session.project_path,
-        session.model,
-        session.harness,
-        session.repo_url,
-        session.branch || null,
-        session.status || "archived",
-        session.visibility || "private",
-        session.last_activity_at,
-        null, // stream_token_hash not used for batch uploads
-        clientId || null,
-        userId || null,
-        session.interactive ? 1 : 0,
-        session.remote ? 1 : 0,
-        (session as { input_tokens?: number }).input_tokens || 0,
-        (session as { output_tokens?: number }).output_tokens || 0,
-        (session as { cache_read_tokens?: number }).cache_read_tokens || 0,
-        (session as { cache_creation_tokens?: number }).cache_creation_tokens || 0
-      ) as Record<string, unknown>;
-
-      // Insert messages
+  ): Promise<Session> {
+    return this.transaction(async (repo) => {
+      const created = await repo.createSession(session, clientId, userId);
+
       for (const msg of messages) {
-        this.stmts.insertMessage.run(
-          msg.session_id,
-          msg.role,
-          msg.content,
-          JSON.stringify(msg.content_blocks || []),
-          msg.timestamp,
-          msg.message_index,
-          msg.user_id || null
-        );
+        await repo.insertMessage(msg, msg.session_id, msg.message_index);
+      }
+
+      // Insert diffs and track them by filename
+      const diffsByFilename = new Map<string, ReviewedDiff>();
+      for (const diff of diffs) {
+        const diffId = await repo.insertDiff(diff, diff.session_id);
+        if (diff.filename) {
+          diffsByFilename.set(diff.filename, { ...diff, id: diffId });
+        }
+      }
+      await repo.recordTouchedFiles(session.id, diffs);
+
+      // Create review and annotations if provided
+      if (reviewData) {
+        await repo.insertReviewWithAnnotations(session.id, reviewData, (ann) => diffsByFilename.get(ann.filename));
+      }
+
+      return created;
+    });
+  }
+
+  /**
+   * Add a newly generated review as the session's latest version. Annotations
+   * are matched to the session's current diffs by filename; ones that don't
+   * match a diff are dropped.
+   */
+  addReview(
+    sessionId: string,
+    reviewData: {
+      summary: string;
+      model?: string | null;
+      prompt_hash?: string | null;
+      annotations: Array<Pick<Annotation, "filename" | "line_number" | "side" | "annotation_type" | "content">>;
+    }
+  ): Promise<Review> {
+    return this.transaction(async (repo) => {
+      const diffsByFilename = new Map<string, ReviewedDiff>();
+      for (const diff of await repo.getDiffs(sessionId)) {
+        if (diff.filename) {
+          diffsByFilename.set(diff.filename, diff);
+        }
+      }
+
+      return repo.insertReviewWithAnnotations(sessionId, reviewData, (ann) => diffsByFilename.get(ann.filename));
+    });
+  }
+
+  /**
+   * Insert a review and the annotations whose diff can be resolved. Each
+   * annotation records its diff's filename and the text of its line.
+   */
+  private async insertReviewWithAnnotations<A extends Pick<Annotation, "line_number" | "side" | "annotation_type" | "content">>(
+    sessionId: string,
+    reviewData: { summary: string; model?: string | null; prompt_hash?: string | null; annotations: A[] },
+    resolveDiff: (annotation: A) => ReviewedDiff | undefined
+  ): Promise<Review> {
+    const review = await this.createReview({
+      session_id: sessionId,
+      summary: reviewData.summary,
+      model: reviewData.model || null,
+      prompt_hash: reviewData.prompt_hash || null,
+    });
+
+    for (const ann of reviewData.annotations) {
+      const diff = resolveDiff(ann);
+      if (diff) {
+        await this.addAnnotation({
+          review_id: review.id,
+          diff_id: diff.id,
+          filename: diff.filename ?? "",
+          line_content: diffLineAt(diff.diff_content, ann.side, ann.line_number),
+          line_number: ann.line_number,
+          side: ann.side,
+          annotation_type: ann.annotation_type,
+          content: ann.content,
+        });
+      }
+    }
+
+    return review;
+  }
+
+  /**
+   * Import a session exported from another instance, in a single transaction.
+   * Timestamps, token and redaction counts come from the export; ownership is
+   * the importing client/user. Annotations reference diffs by their exported
+   * IDs (`source_id`) and are remapped to the newly inserted diffs.
+   */
+  importSession(
+    session: Omit<Session, "client_id" | "user_id" | "org_id" | "base_sha" | "head_sha">,
+    messages: Omit<Message, "id">[],
+    diffs: Array<Omit<Diff, "id"> & { source_id?: number }>,
+    reviewData?: {
+      summary: string;
+      model: string | null;
+      prompt_hash?: string | null;
+      created_at?: string;
+      annotations: Array<Pick<Annotation, "line_number" | "side" | "annotation_type" | "content"> & { diff_id: number }>;
+    },
+    clientId?: string,
+    userId?: string
+  ): Promise<Session> {
+    return this.transaction(async (repo) => {
+      await repo.createSession(session, clientId, userId);
+
+      const created = await repo.db.get<Row>(`
+        UPDATE sessions SET created_at = ?, updated_at = ?, redaction_count = ?
+        WHERE id = ?
+        RETURNING *
+      `, [session.created_at, session.updated_at, session.redaction_count || 0, session.id]);
+
+      for (const msg of messages) {
+        await repo.insertMessage(msg, msg.session_id, msg.message_index);
       }
 
-      // Insert diffs and track their IDs by filename
-      const diffIdByFilename = new Map<string, number>();
+      const diffsBySourceId = new Map<number, ReviewedDiff>();
       for (const diff of diffs) {
-        const result = this.db.prepare(`
-          INSERT INTO diffs (session_id, filename, diff_content, diff_index, additions, deletions, is_session_relevant)
-          VALUES (?, ?, ?, ?, ?, ?, ?)
+        const result = await repo.db.get<{ id: number }>(`
+          INSERT INTO diffs (session_id, filename, diff_content, diff_index, additions, deletions, is_session_relevant, status)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
           RETURNING id
-        `).get(
+        `, [
           diff.session_id,
           diff.filename,
           diff.diff_content,
           diff.diff_index,
           diff.additions || 0,
           diff.deletions || 0,
-          diff.is_session_relevant ? 1 : 0
-        ) as { id: number };
+          diff.is_session_relevant ? 1 : 0,
+          diff.status || "modified",
+        ]);
 
-        if (diff.filename) {
-          diffIdByFilename.set(diff.filename, result.id);
+        if (diff.source_id !== undefined) {
+          diffsBySourceId.set(diff.source_id, { ...diff, id: result!.id });
         }
       }
+      await repo.recordTouchedFiles(session.id, diffs);
 
-      // Create review and annotations if provided
       if (reviewData) {
-        const review = this.stmts.insertReview.get(
-          session.id,
-          reviewData.summary,
-          reviewData.model || null
-        ) as Review;
-
-        for (const ann of reviewData.annotations) {
-          const diffId = diffIdByFilename.get(ann.filename);
-          if (diffId) {
-            this.stmts.insertAnnotation.run(
-              review.id,
-              diffId,
-              ann.line_number,
-              ann.side,
-              ann.annotation_type,
-              ann.content
-            );
-          }
+        const review = await repo.insertReviewWithAnnotations(session.id, reviewData, (ann) =>
+          diffsBySourceId.get(ann.diff_id)
+        );
+        if (reviewData.created_at) {
+          await repo.db.run("UPDATE reviews SET created_at = ? WHERE id = ?", [reviewData.created_at, review.id]);
         }
       }
 
-      // Convert SQLite integers to booleans
-      return this.normalizeSession(created);
+      return repo.normalizeSession(created!);
     });
-
-    return transaction();
   }
 
 // === Interactive Session Methods ===
@@ -1139,17 +1365,17 @@ export class SessionRepository {
   /**
    * Create a feedback message record.
    */
-  createFeedbackMessage(
+  async createFeedbackMessage(
     sessionId: string,
     content: string,
     type: FeedbackMessageType,
     source?: string,
     context?: { file: string; line: number }
-  ): FeedbackMessage {
+  ): Promise<FeedbackMessage> {
     const id = crypto.randomUUID().slice(0, 8);
     const contextJson = context ? JSON.stringify(context) : null;
 
-    this.stmts.insertFeedbackMessage.run(id, sessionId, content, source || null, type, contextJson);
+    await this.db.run(this.stmts.insertFeedbackMessage, [id, sessionId, content, source || null, type, contextJson]);
 
     return {
       id,
@@ -1167,15 +1393,15 @@ export class SessionRepository {
   /**
    * Update the status of a feedback message.
    */
-  updateFeedbackStatus(messageId: string, status: FeedbackMessageStatus): void {
-    this.stmts.updateFeedbackStatus.run(status, messageId);
+  async updateFeedbackStatus(messageId: string, status: FeedbackMessageStatus): Promise<void> {
+    await this.db.run(this.stmts.updateFeedbackStatus, [status, messageId]);
   }
 
   /**
    * Get all pending feedback messages for a session.
    */
-  getPendingFeedback(sessionId: string): FeedbackMessage[] {
-    const rows = this.stmts.getPendingFeedback.all(sessionId) as Array<Record<string, unknown>>;
+  async getPendingFeedback(sessionId: string): Promise<FeedbackMessage[]> {
+    const rows = await this.db.all<Row>(this.stmts.getPendingFeedback, [sessionId]);
     return rows.map(row => ({
       id: row.id as string,
       session_id: row.session_id as string,
@@ -1192,25 +1418,23 @@ export class SessionRepository {
   /**
    * Set whether a session is interactive (accepts feedback from browsers).
    */
-  setSessionInteractive(sessionId: string, interactive: boolean): void {
-    const stmt = this.db.prepare(`
-      UPDATE sessions SET interactive = ?, updated_at = datetime('now', 'utc') WHERE id = ?
-    `);
-    stmt.run(interactive ? 1 : 0, sessionId);
+  async setSessionInteractive(sessionId: string, interactive: boolean): Promise<void> {
+    await this.db.run(`
+      UPDATE sessions SET interactive = ?, updated_at = ${this.now} WHERE id = ?
+    `, [interactive ? 1 : 0, sessionId]);
   }
 
   /**
    * Update session status.
    */
-  updateSessionStatus(sessionId: string, status: "live" | "complete" | "archived"): void {
-    const stmt = this.db.prepare(`
-      UPDATE sessions SET status = ?, updated_at = datetime('now', 'utc') WHERE id = ?
-    `);
-    stmt.run(status, sessionId);
+  async updateSessionStatus(sessionId: string, status: "live" | "complete" | "archived"): Promise<void> {
+    await this.db.run(`
+      UPDATE sessions SET status = ?, updated_at = ${this.now} WHERE id = ?
+    `, [status, sessionId]);
   }
 
-  clearReview(sessionId: string): void {
-    this.stmts.clearReview.run(sessionId);
+  async clearReview(sessionId: string): Promise<void> {
+    await this.db.run(this.stmts.clearReview, [sessionId]);
   }
 
   /**
@@ -1220,12 +1444,13 @@ export class SessionRepository {
    * Returns the session and whether it was an update or create.
    */
   upsertSessionWithDataAndReview(
-    session: Omit<Session, "created_at" | "updated_at" | "client_id" | "user_id">,
+    session: Omit<Session, "created_at" | "updated_at" | "client_id" | "user_id" | "org_id" | "base_sha" | "head_sha">,
     messages: Omit<Message, "id">[],
     diffs: Omit<Diff, "id">[],
     reviewData?: {
       summary: string;
       model?: string;
+      prompt_hash?: string;
       annotations: Array<{
         filename: string;
         line_number: number;
@@ -1237,12 +1462,12 @@ export class SessionRepository {
     clientId?: string,
     userId?: string,
     touchedFiles?: Set<string>
-  ): { session: Session; isUpdate: boolean } {
-    const transaction = this.db.transaction(() => {
+  ): Promise<{ session: Session; isUpdate: boolean }> {
+    return this.transaction(async (repo) => {
       // Check if session with this claude_session_id already exists
       let existingSession: Session | undefined = undefined;
       if (session.claude_session_id) {
-        const lookupResult = this.getSessionByClaudeSessionId(session.claude_session_id);
+        const lookupResult = await repo.getSessionByClaudeSessionId(session.claude_session_id);
         if (lookupResult.isOk()) {
           existingSession = lookupResult.unwrap();
         }
@@ -1257,7 +1482,7 @@ export class SessionRepository {
         const sessionId = existingSession.id;
 
         // Update session metadata (unwrap since we know session exists)
-        resultSession = this.updateSession(sessionId, {
+        resultSession = (await repo.updateSession(sessionId, {
           title: session.title,
           description: session.description,
           pr_url: session.pr_url,
@@ -1265,10 +1490,10 @@ export class SessionRepository {
           model: session.model,
           harness: session.harness,
           repo_url: session.repo_url,
-        }).unwrap();
+        })).unwrap();
 
         // Get existing diffs before clearing (for smart diff preservation)
-        const existingDiffs = this.getDiffs(sessionId);
+        const existingDiffs = await repo.getDiffs(sessionId);
         const existingDiffsByFilename = new Map<string, Diff>();
         for (const d of existingDiffs) {
           if (d.filename) {
@@ -1299,10 +1524,10 @@ export class SessionRepository {
           }
         }
 
-        // Clear existing messages, diffs, and reviews
-        this.stmts.clearMessages.run(sessionId);
-        this.stmts.clearDiffs.run(sessionId);
-        this.stmts.clearReview.run(sessionId);
+        // Clear existing messages and diffs. Reviews are kept; a new review
+        // becomes the next version, and earlier ones are checked against the new diff.
+        await repo.clearMessages(sessionId);
+        await repo.clearDiffs(sessionId);
 
         // Preserve existing diffs for touched files not covered by new diffs.
         // This prevents losing diffs when re-uploading after some files were committed.
@@ -1348,95 +1573,33 @@ export class SessionRepository {
         diffs.push(...preservedDiffs);
       } else {
         // Create new session
-        const created = this.stmts.createSession.get(
-          session.id,
-          session.title,
-          session.description,
-          session.claude_session_id,
-          session.agent_session_id || null,
-          session.pr_url,
-          session.share_token,
-          session.project_path,
-          session.model,
-          session.harness,
-          session.repo_url,
-          session.branch || null,
-          session.status || "archived",
-          session.visibility || "private",
-          session.last_activity_at,
-          null, // stream_token_hash not used for batch uploads
-          clientId || null,
-          userId || null,
-          session.interactive ? 1 : 0,
-          session.remote ? 1 : 0,
-          (session as { input_tokens?: number }).input_tokens || 0,
-          (session as { output_tokens?: number }).output_tokens || 0,
-          (session as { cache_read_tokens?: number }).cache_read_tokens || 0,
-          (session as { cache_creation_tokens?: number }).cache_creation_tokens || 0
-        ) as Record<string, unknown>;
-        resultSession = this.normalizeSession(created);
+        resultSession = await repo.createSession(session, clientId, userId);
       }
 
       const sessionId = resultSession.id;
 
       // Insert messages (use sessionId to avoid mutating input arrays)
       for (const msg of messages) {
-        this.stmts.insertMessage.run(
-          sessionId,
-          msg.role,
-          msg.content,
-          JSON.stringify(msg.content_blocks || []),
-          msg.timestamp,
-          msg.message_index,
-          msg.user_id || null
-        );
+        await repo.insertMessage(msg, sessionId, msg.message_index);
       }
 
-      // Insert diffs and track their IDs by filename
-      const diffIdByFilename = new Map<string, number>();
+      // Insert diffs and track them by filename
+      const diffsByFilename = new Map<string, ReviewedDiff>();
       for (const diff of diffs) {
-        const result = this.stmts.insertDiffReturningId.get(
-          sessionId,
-          diff.filename,
-          diff.diff_content,
-          diff.diff_index,
-          diff.additions || 0,
-          diff.deletions || 0,
-          diff.is_session_relevant ? 1 : 0
-        ) as { id: number };
-
+        const diffId = await repo.insertDiff(diff, sessionId);
         if (diff.filename) {
-          diffIdByFilename.set(diff.filename, result.id);
+          diffsByFilename.set(diff.filename, { ...diff, id: diffId });
         }
       }
+      await repo.recordTouchedFiles(sessionId, diffs);
 
       // Create review and annotations if provided
       if (reviewData) {
-        const review = this.stmts.insertReview.get(
-          sessionId,
-          reviewData.summary,
-          reviewData.model || null
-        ) as Review;
-
-        for (const ann of reviewData.annotations) {
-          const diffId = diffIdByFilename.get(ann.filename);
-          if (diffId) {
-            this.stmts.insertAnnotation.run(
-              review.id,
-              diffId,
-              ann.line_number,
-              ann.side,
-              ann.annotation_type,
-              ann.content
-            );
-          }
-        }
+        await repo.insertReviewWithAnnotations(sessionId, reviewData, (ann) => diffsByFilename.get(ann.filename));
       }
 
       return { session: resultSession, isUpdate };
     });
-
-    return transaction();
   }
 
   // === Analytics Methods ===
@@ -1444,29 +1607,29 @@ export class SessionRepository {
   /**
    * Record an analytics event
    */
-  recordEvent(
+  async recordEvent(
     eventType: AnalyticsEventType,
     options: {
       sessionId?: string;
       clientId?: string;
       properties?: Record<string, unknown>;
     } = {}
-  ): void {
+  ): Promise<void> {
     const { sessionId, clientId, properties = {} } = options;
 
-    this.stmts.insertEvent.run(
+    await this.db.run(this.stmts.insertEvent, [
       eventType,
       sessionId ?? null,
       clientId ?? null,
-      JSON.stringify(properties)
-    );
+      JSON.stringify(properties),
+    ]);
   }
 
   /**
    * Increment a daily stat (atomic upsert)
    * Automatically updates both global (client_id=null) and per-client rollups
    */
-  incrementDailyStat(
+  async incrementDailyStat(
     statType: StatType,
     options: {
       clientId?: string;
@@ -1474,7 +1637,7 @@ export class SessionRepository {
       value?: number;
       date?: string;  // YYYY-MM-DD, defaults to today
     } = {}
-  ): void {
+  ): Promise<void> {
     const {
       clientId,
       model,
@@ -1483,11 +1646,11 @@ export class SessionRepository {
     } = options;
 
     // Always update global rollup (client_id = null)
-    this.stmts.upsertDailyStat.run(date, null, model ?? null, statType, value);
+    await this.db.run(this.stmts.upsertDailyStat, [date, null, model ?? null, statType, value]);
 
     // Also update per-client rollup if client_id provided
     if (clientId) {
-      this.stmts.upsertDailyStat.run(date, clientId, model ?? null, statType, value);
+      await this.db.run(this.stmts.upsertDailyStat, [date, clientId, model ?? null, statType, value]);
     }
   }
 
@@ -1504,15 +1667,13 @@ export class SessionRepository {
       properties?: Record<string, unknown>;
       statValue?: number;
     } = {}
-  ): void {
+  ): Promise<void> {
     const { sessionId, clientId, model, properties, statValue = 1 } = options;
 
-    const transaction = this.db.transaction(() => {
-      this.recordEvent(eventType, { sessionId, clientId, properties });
-      this.incrementDailyStat(statType, { clientId, model, value: statValue });
+    return this.transaction(async (repo) => {
+      await repo.recordEvent(eventType, { sessionId, clientId, properties });
+      await repo.incrementDailyStat(statType, { clientId, model, value: statValue });
     });
-
-    transaction();
   }
 
   /**
@@ -1530,44 +1691,42 @@ export class SessionRepository {
       clientId?: string;
       properties?: Record<string, unknown>;
     } = {}
-  ): void {
+  ): Promise<void> {
     const { eventType, sessionId, clientId, properties } = options;
 
-    const transaction = this.db.transaction(() => {
+    return this.transaction(async (repo) => {
       if (eventType) {
-        this.recordEvent(eventType, { sessionId, clientId, properties });
+        await repo.recordEvent(eventType, { sessionId, clientId, properties });
       }
 
       for (const stat of stats) {
-        this.incrementDailyStat(stat.statType, {
+        await repo.incrementDailyStat(stat.statType, {
           clientId,
           model: stat.model,
           value: stat.value,
         });
       }
     });
-
-    transaction();
   }
 
   /**
    * Get summary stats for a date range
    */
-  getStatsSummary(
+  async getStatsSummary(
     startDate: string,
     endDate: string,
     clientId?: string
-  ): Record<string, number> {
-    const rows = this.stmts.getStatsByDateRange.all(
+  ): Promise<Record<string, number>> {
+    const rows = await this.db.all<{ stat_type: string; total: number | string }>(this.stmts.getStatsByDateRange, [
       startDate,
       endDate,
       clientId ?? null,
-      clientId ?? null
-    ) as Array<{ stat_type: string; total: number }>;
+      clientId ?? null,
+    ]);
 
     const summary: Record<string, number> = {};
     for (const row of rows) {
-      summary[row.stat_type] = row.total;
+      summary[row.stat_type] = Number(row.total);
     }
     return summary;
   }
@@ -1575,56 +1734,58 @@ export class SessionRepository {
   /**
    * Get tool usage breakdown for a date range
    */
-  getToolStats(
+  async getToolStats(
     startDate: string,
     endDate: string,
     clientId?: string
-  ): Array<{ tool: string; count: number }> {
-    return this.stmts.getToolStats.all(
+  ): Promise<Array<{ tool: string; count: number }>> {
+    const rows = await this.db.all<{ tool: string; count: number | string }>(this.stmts.getToolStats, [
       startDate,
       endDate,
       clientId ?? null,
-      clientId ?? null
-    ) as Array<{ tool: string; count: number }>;
+      clientId ?? null,
+    ]);
+    return rows.map(row => ({ tool: row.tool, count: Number(row.count) }));
   }
 
   /**
    * Get timeseries data for a specific stat
    */
-  getStatTimeseries(
+  async getStatTimeseries(
     statType: StatType,
     startDate: string,
     endDate: string,
     clientId?: string
-  ): Array<{ date: string; value: number }> {
-    return this.stmts.getTimeseries.all(
+  ): Promise<Array<{ date: string; value: number }>> {
+    const rows = await this.db.all<{ date: string; value: number | string }>(this.stmts.getTimeseries, [
       startDate,
       endDate,
       clientId ?? null,
       clientId ?? null,
-      statType
-    ) as Array<{ date: string; value: number }>;
+      statType,
+    ]);
+    return rows.map(row => ({ date: row.date, value: Number(row.value) }));
   }
 
   // === Session Sharing Methods ===
 
   /**
-   * Update session visibility.
+   * Update session visibility. `orgId` is the organization for 'org' visibility;
+   * other visibilities clear it.
    */
-  setSessionVisibility(sessionId: string, visibility: SessionVisibility): boolean {
-    const stmt = this.db.prepare(
-      "UPDATE sessions SET visibility = ?, updated_at = datetime('now', 'utc') WHERE id = ?"
+  async setSessionVisibility(sessionId: string, visibility: SessionVisibility, orgId: string | null = null): Promise<boolean> {
+    const result = await this.db.run(
+      `UPDATE sessions SET visibility = ?, org_id = ?, updated_at = ${this.now} WHERE id = ?`,
+      [visibility, visibility === "org" ? orgId : null, sessionId]
     );
-    const result = stmt.run(visibility, sessionId);
     return result.changes > 0;
   }
 
   /**
    * Get session visibility.
    */
-  getSessionVisibility(sessionId: string): SessionVisibility | null {
-    const stmt = this.db.prepare("SELECT visibility FROM sessions WHERE id = ?");
-    const result = stmt.get(sessionId) as { visibility: SessionVisibility } | null;
+  async getSessionVisibility(sessionId: string): Promise<SessionVisibility | null> {
+    const result = await this.db.get<{ visibility: SessionVisibility }>("SELECT visibility FROM sessions WHERE id = ?", [sessionId]);
     return result?.visibility ?? null;
   }
 
@@ -1633,64 +1794,65 @@ export class SessionRepository {
   /**
    * Get all collaborators for a session.
    */
-  getCollaborators(sessionId: string): SessionCollaborator[] {
-    return this.stmts.getCollaborators.all(sessionId) as SessionCollaborator[];
+  getCollaborators(sessionId: string): Promise<SessionCollaborator[]> {
+    return this.db.all<SessionCollaborator>(this.stmts.getCollaborators, [sessionId]);
   }
 
   /**
    * Get a collaborator by ID.
    */
-  getCollaborator(collaboratorId: number): SessionCollaborator | null {
-    return this.stmts.getCollaborator.get(collaboratorId) as SessionCollaborator | null;
+  getCollaborator(collaboratorId: number): Promise<SessionCollaborator | null> {
+    return this.db.get<SessionCollaborator>(this.stmts.getCollaborator, [collaboratorId]);
   }
 
   /**
    * Get a collaborator by email for a session.
    */
-  getCollaboratorByEmail(sessionId: string, email: string): SessionCollaborator | null {
+  getCollaboratorByEmail(sessionId: string, email: string): Promise<SessionCollaborator | null> {
     const normalized = normalizeEmail(email);
-    return this.stmts.getCollaboratorByEmail.get(sessionId, normalized) as SessionCollaborator | null;
+    return this.db.get<SessionCollaborator>(this.stmts.getCollaboratorByEmail, [sessionId, normalized]);
   }
 
   /**
    * Get a collaborator by user ID for a session.
    */
-  getCollaboratorByUserId(sessionId: string, userId: string): SessionCollaborator | null {
-    return this.stmts.getCollaboratorByUserId.get(sessionId, userId) as SessionCollaborator | null;
+  getCollaboratorByUserId(sessionId: string, userId: string): Promise<SessionCollaborator | null> {
+    return this.db.get<SessionCollaborator>(this.stmts.getCollaboratorByUserId, [sessionId, userId]);
   }
 
   /**
    * Add a collaborator to a session.
    */
-  addCollaborator(
+  async addCollaborator(
     sessionId: string,
     email: string,
     role: CollaboratorRole,
     invitedByUserId: string,
     userId?: string
-  ): SessionCollaborator {
+  ): Promise<SessionCollaborator> {
     const normalized = normalizeEmail(email);
-    return this.stmts.addCollaborator.get(
+    const result = await this.db.get<SessionCollaborator>(this.stmts.addCollaborator, [
       sessionId,
       normalized,
       userId || null,
       role,
-      invitedByUserId
-    ) as SessionCollaborator;
+      invitedByUserId,
+    ]);
+    return result!;
   }
 
   /**
    * Update a collaborator's role.
    */
-  updateCollaboratorRole(collaboratorId: number, role: CollaboratorRole): SessionCollaborator | null {
-    return this.stmts.updateCollaboratorRole.get(role, collaboratorId) as SessionCollaborator | null;
+  updateCollaboratorRole(collaboratorId: number, role: CollaboratorRole): Promise<SessionCollaborator | null> {
+    return this.db.get<SessionCollaborator>(this.stmts.updateCollaboratorRole, [role, collaboratorId]);
   }
 
   /**
    * Update a collaborator's user_id when they sign up.
    */
-  updateCollaboratorUserId(collaboratorId: number, userId: string): void {
-    this.stmts.updateCollaboratorUserId.run(userId, collaboratorId);
+  async updateCollaboratorUserId(collaboratorId: number, userId: string): Promise<void> {
+    await this.db.run(this.stmts.updateCollaboratorUserId, [userId, collaboratorId]);
   }
 
   /**
@@ -1698,8 +1860,8 @@ export class SessionRepository {
    * Links the user_id to the collaborator record and sets accepted_at.
    * Returns the updated collaborator or null if not found.
    */
-  acceptInvite(sessionId: string, email: string, userId: string): SessionCollaborator | null {
-    const collaborator = this.getCollaboratorByEmail(sessionId, email);
+  async acceptInvite(sessionId: string, email: string, userId: string): Promise<SessionCollaborator | null> {
+    const collaborator = await this.getCollaboratorByEmail(sessionId, email);
     if (!collaborator) return null;
 
     // Already accepted by this user
@@ -1708,67 +1870,71 @@ export class SessionRepository {
     // Already accepted by another user (shouldn't happen but handle gracefully)
     if (collaborator.user_id && collaborator.user_id !== userId) return null;
 
-    this.updateCollaboratorUserId(collaborator.id, userId);
+    await this.updateCollaboratorUserId(collaborator.id, userId);
     return this.getCollaborator(collaborator.id);
   }
 
   /**
    * Remove a collaborator by ID.
    */
-  removeCollaborator(collaboratorId: number): boolean {
-    const result = this.stmts.removeCollaborator.run(collaboratorId);
+  async removeCollaborator(collaboratorId: number): Promise<boolean> {
+    const result = await this.db.run(this.stmts.removeCollaborator, [collaboratorId]);
     return result.changes > 0;
   }
 
   /**
    * Remove a collaborator by email.
    */
-  removeCollaboratorByEmail(sessionId: string, email: string): boolean {
+  async removeCollaboratorByEmail(sessionId: string, email: string): Promise<boolean> {
     const normalized = normalizeEmail(email);
-    const result = this.stmts.removeCollaboratorByEmail.run(sessionId, normalized);
+    const result = await this.db.run(this.stmts.removeCollaboratorByEmail, [sessionId, normalized]);
     return result.changes > 0;
   }
 
   /**
    * Get the count of collaborators for a session.
    */
-  getCollaboratorCount(sessionId: string): number {
-    const stmt = this.db.prepare("SELECT COUNT(*) as count FROM session_collaborators WHERE session_id = ?");
-    const result = stmt.get(sessionId) as { count: number };
-    return result.count;
+  async getCollaboratorCount(sessionId: string): Promise<number> {
+    const result = await this.db.get<{ count: number | string }>(
+      "SELECT COUNT(*) as count FROM session_collaborators WHERE session_id = ?",
+      [sessionId]
+    );
+    return Number(result!.count);
   }
 
   /**
    * Get sessions shared with a user (by user_id).
    */
-  getSessionsSharedWithUser(userId: string): Session[] {
-    const results = this.stmts.getSessionsSharedWithUser.all(userId) as Record<string, unknown>[];
+  async getSessionsSharedWithUser(userId: string): Promise<Session[]> {
+    const results = await this.db.all<Row>(this.stmts.getSessionsSharedWithUser, [userId]);
     return results.map(r => this.normalizeSession(r));
   }
 
   /**
    * Get sessions shared with an email address.
    */
-  getSessionsSharedWithEmail(email: string): Session[] {
+  async getSessionsSharedWithEmail(email: string): Promise<Session[]> {
     const normalized = normalizeEmail(email);
-    const results = this.stmts.getSessionsSharedWithEmail.all(normalized) as Record<string, unknown>[];
+    const results = await this.db.all<Row>(this.stmts.getSessionsSharedWithEmail, [normalized]);
     return results.map(r => this.normalizeSession(r));
   }
 
   /**
-   * Check if a user has access to a session (owner, collaborator, or public).
+   * Check if a user has access to a session (owner, collaborator, public,
+   * organization member, or reader of its repository when `canReadRepo` is given).
    */
-  checkSessionAccess(
+  async checkSessionAccess(
     sessionId: string,
     userId: string | null,
-    email: string | null
-  ): {
+    email: string | null,
+    canReadRepo?: RepoReadCheck
+  ): Promise<{
     hasAccess: boolean;
     role: CollaboratorRole | 'owner' | null;
     isOwner: boolean;
-  } {
+  }> {
     // Get session to check ownership and visibility
-    const sessionResult = this.getSession(sessionId);
+    const sessionResult = await this.getSession(sessionId);
     if (sessionResult.isErr()) {
       return { hasAccess: false, role: null, isOwner: false };
     }
@@ -1786,7 +1952,7 @@ export class SessionRepository {
 
     // Check if collaborator by user_id
     if (userId) {
-      const collaborator = this.getCollaboratorByUserId(sessionId, userId);
+      const collaborator = await this.getCollaboratorByUserId(sessionId, userId);
       if (collaborator) {
         return { hasAccess: true, role: collaborator.role, isOwner: false };
       }
@@ -1795,38 +1961,50 @@ export class SessionRepository {
     // Check if collaborator by email
     if (email) {
       const normalized = normalizeEmail(email);
-      const collaborator = this.getCollaboratorByEmail(sessionId, normalized);
+      const collaborator = await this.getCollaboratorByEmail(sessionId, normalized);
       if (collaborator) {
         return { hasAccess: true, role: collaborator.role, isOwner: false };
       }
     }
 
+    // Check if shared with an organization the user belongs to
+    if (session.visibility === 'org' && session.org_id && await this.getOrganizationMembership(session.org_id, userId, email)) {
+      return { hasAccess: true, role: 'viewer', isOwner: false };
+    }
+
+    // Check if the user can read the session's repository
+    if (canReadRepo && session.repo_url && await canReadRepo(session.repo_url)) {
+      return { hasAccess: true, role: 'viewer', isOwner: false };
+    }
+
     return { hasAccess: false, role: null, isOwner: false };
   }
 
   /**
    * Enhanced ownership check that includes collaborators and public visibility.
-   * Returns access level for a session.
+   * Returns access level for a session. Readers of the session's repository get
+   * viewer access when `canReadRepo` is given.
    */
-  verifySessionAccess(
+  async verifySessionAccess(
     sessionId: string,
     userId: string | null,
     clientId: string | null,
-    userEmail?: string | null
-  ): {
+    userEmail?: string | null,
+    canReadRepo?: RepoReadCheck
+  ): Promise<{
     allowed: boolean;
     isOwner: boolean;
     role: CollaboratorRole | 'owner' | null;
     canEdit: boolean;
-  } {
+  }> {
     // First check ownership
-    const ownershipResult = this.verifyOwnership(sessionId, userId, clientId);
+    const ownershipResult = await this.verifyOwnership(sessionId, userId, clientId);
     if (ownershipResult.isOk() && ownershipResult.unwrap().isOwner) {
       return { allowed: true, isOwner: true, role: 'owner', canEdit: true };
     }
 
     // Get session to check visibility and collaborators
-    const sessionResult = this.getSession(sessionId);
+    const sessionResult = await this.getSession(sessionId);
     if (sessionResult.isErr()) {
       return { allowed: false, isOwner: false, role: null, canEdit: false };
     }
@@ -1839,7 +2017,7 @@ export class SessionRepository {
 
     // Check if collaborator by user_id
     if (userId) {
-      const collaborator = this.getCollaboratorByUserId(sessionId, userId);
+      const collaborator = await this.getCollaboratorByUserId(sessionId, userId);
       if (collaborator) {
         return {
           allowed: true,
@@ -1852,7 +2030,7 @@ export class SessionRepository {
 
     // Check if collaborator by email
     if (userEmail) {
-      const collaborator = this.getCollaboratorByEmail(sessionId, userEmail);
+      const collaborator = await this.getCollaboratorByEmail(sessionId, userEmail);
       if (collaborator) {
         return {
           allowed: true,
@@ -1863,43 +2041,815 @@ export class SessionRepository {
       }
     }
 
+    // Check if shared with an organization the user belongs to
+    if (session.visibility === 'org' && session.org_id && await this.getOrganizationMembership(session.org_id, userId, userEmail ?? null)) {
+      return { allowed: true, isOwner: false, role: 'viewer', canEdit: false };
+    }
+
+    // Check if the user can read the session's repository
+    if (canReadRepo && session.repo_url && await canReadRepo(session.repo_url)) {
+      return { allowed: true, isOwner: false, role: 'viewer', canEdit: false };
+    }
+
     return { allowed: false, isOwner: false, role: null, canEdit: false };
   }
 
-  // === Audit Log Methods ===
+  // === Organization Methods ===
 
   /**
-   * Add an entry to the audit log.
+   * Create an organization with `owner` as its first (owner) member.
    */
-  addAuditLogEntry(
-    sessionId: string,
-    action: AuditAction,
-    actorUserId: string,
-    targetEmail?: string,
-    oldValue?: string,
-    newValue?: string
-  ): void {
-    this.stmts.insertAuditLog.run(
-      sessionId,
+  createOrganization(
+    org: Pick<Organization, "id" | "name" | "slug" | "created_by_user_id">,
+    ownerEmail: string
+  ): Promise<Organization> {
+    return this.transaction(async (repo) => {
+      const created = await repo.db.get<Organization>(`
+        INSERT INTO organizations (id, name, slug, created_by_user_id)
+        VALUES (?, ?, ?, ?)
+        RETURNING *
+      `, [org.id, org.name, org.slug, org.created_by_user_id]);
+
+      await repo.db.run(`
+        INSERT INTO organization_members (org_id, email, user_id, role, invited_by_user_id, accepted_at)
+        VALUES (?, ?, ?, 'owner', ?, ${repo.now})
+      `, [org.id, normalizeEmail(ownerEmail), org.created_by_user_id, org.created_by_user_id]);
+
+      return created!;
+    });
+  }
+
+  getOrganization(id: string): Promise<Organization | null> {
+    return this.db.get<Organization>("SELECT * FROM organizations WHERE id = ?", [id]);
+  }
+
+  getOrganizationBySlug(slug: string): Promise<Organization | null> {
+    return this.db.get<Organization>("SELECT * FROM organizations WHERE slug = ?", [slug]);
+  }
+
+  updateOrganization(id: string, updates: Partial<Pick<Organization, "name" | "slug">>): Promise<Organization | null> {
+    const fields: string[] = [];
+    const values: SqlParam[] = [];
+    if (updates.name !== undefined) {
+      fields.push("name = ?");
+      values.push(updates.name);
+    }
+    if (updates.slug !== undefined) {
+      fields.push("slug = ?");
+      values.push(updates.slug);
+    }
+    if (fields.length === 0) return this.getOrganization(id);
+
+    return this.db.get<Organization>(`
+      UPDATE organizations SET ${fields.join(", ")}, updated_at = ${this.now}
+      WHERE id = ?
+      RETURNING *
+    `, [...values, id]);
+  }
+
+  /**
+   * Delete an organization with its webhooks. Its sessions stay with their
+   * owners and become private.
+   */
+  deleteOrganization(id: string): Promise<boolean> {
+    return this.transaction(async (repo) => {
+      await repo.db.run(
+        `UPDATE sessions SET visibility = 'private', org_id = NULL, updated_at = ${repo.now} WHERE org_id = ?`,
+        [id]
+      );
+      await repo.db.run("DELETE FROM organization_members WHERE org_id = ?", [id]);
+      await repo.db.run("DELETE FROM webhooks WHERE org_id = ?", [id]);
+      const result = await repo.db.run("DELETE FROM organizations WHERE id = ?", [id]);
+      return result.changes > 0;
+    });
+  }
+
+  // Members match by user_id once linked, and by (normalized) email before that
+  private organizationMemberClause(
+    userId: string | null,
+    email: string | null,
+    alias = "m"
+  ): { clause: string; params: string[] } | null {
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (userId) {
+      conditions.push(`${alias}.user_id = ?`);
+      params.push(userId);
+    }
+    if (email) {
+      conditions.push(`${alias}.email = ?`);
+      params.push(normalizeEmail(email));
+    }
+    if (conditions.length === 0) return null;
+    return { clause: `(${conditions.join(" OR ")})`, params };
+  }
+
+  /**
+   * Organizations the user belongs to, with their role in each.
+   */
+  async getOrganizationsForUser(userId: string | null, email: string | null): Promise<Array<Organization & { role: OrgRole }>> {
+    const member = this.organizationMemberClause(userId, email);
+    if (!member) return [];
+    return this.db.all<Organization & { role: OrgRole }>(`
+      SELECT o.*, m.role as role
+      FROM organizations o
+      INNER JOIN organization_members m ON m.org_id = o.id
+      WHERE ${member.clause}
+      ORDER BY o.name, o.id
+    `, member.params);
+  }
+
+  /**
+   * The user's membership in an organization, or null if they aren't a member.
+   */
+  getOrganizationMembership(orgId: string, userId: string | null, email: string | null): Promise<OrganizationMember | null> {
+    const member = this.organizationMemberClause(userId, email, "organization_members");
+    if (!member) return Promise.resolve(null);
+    return this.db.get<OrganizationMember>(
+      `SELECT * FROM organization_members WHERE org_id = ? AND ${member.clause}`,
+      [orgId, ...member.params]
+    );
+  }
+
+  /**
+   * Link pending memberships for `email` to the user who signed in with it.
+   */
+  async acceptOrganizationInvites(email: string, userId: string): Promise<void> {
+    await this.db.run(`
+      UPDATE organization_members SET user_id = ?, accepted_at = ${this.now}
+      WHERE email = ? AND user_id IS NULL
+    `, [userId, normalizeEmail(email)]);
+  }
+
+  getOrganizationMembers(orgId: string): Promise<OrganizationMember[]> {
+    return this.db.all<OrganizationMember>(
+      "SELECT * FROM organization_members WHERE org_id = ? ORDER BY created_at, id",
+      [orgId]
+    );
+  }
+
+  getOrganizationMember(memberId: number): Promise<OrganizationMember | null> {
+    return this.db.get<OrganizationMember>("SELECT * FROM organization_members WHERE id = ?", [memberId]);
+  }
+
+  getOrganizationMemberByEmail(orgId: string, email: string): Promise<OrganizationMember | null> {
+    return this.db.get<OrganizationMember>(
+      "SELECT * FROM organization_members WHERE org_id = ? AND email = ?",
+      [orgId, normalizeEmail(email)]
+    );
+  }
+
+  async addOrganizationMember(orgId: string, email: string, role: OrgRole, invitedByUserId: string): Promise<OrganizationMember> {
+    const result = await this.db.get<OrganizationMember>(`
+      INSERT INTO organization_members (org_id, email, role, invited_by_user_id)
+      VALUES (?, ?, ?, ?)
+      RETURNING *
+    `, [orgId, normalizeEmail(email), role, invitedByUserId]);
+    return result!;
+  }
+
+  updateOrganizationMemberRole(memberId: number, role: OrgRole): Promise<OrganizationMember | null> {
+    return this.db.get<OrganizationMember>(
+      "UPDATE organization_members SET role = ? WHERE id = ? RETURNING *",
+      [role, memberId]
+    );
+  }
+
+  async removeOrganizationMember(memberId: number): Promise<boolean> {
+    const result = await this.db.run("DELETE FROM organization_members WHERE id = ?", [memberId]);
+    return result.changes > 0;
+  }
+
+  async getOrganizationMemberCount(orgId: string, role?: OrgRole): Promise<number> {
+    const result = await this.db.get<{ count: number | string }>(
+      `SELECT COUNT(*) as count FROM organization_members WHERE org_id = ?${role ? " AND role = ?" : ""}`,
+      role ? [orgId, role] : [orgId]
+    );
+    return Number(result!.count);
+  }
+
+  /**
+   * Sessions shared with an organization, newest first.
+   */
+  async getOrganizationSessions(orgId: string, limit = 100): Promise<Session[]> {
+    const results = await this.db.all<Row>(
+      "SELECT * FROM sessions WHERE org_id = ? AND visibility = 'org' ORDER BY created_at DESC LIMIT ?",
+      [orgId, limit]
+    );
+    return results.map(r => this.normalizeSession(r));
+  }
+
+  // === Search Methods ===
+
+  /**
+   * Repository URLs of non-public sessions that pass `canReadRepo`, so
+   * repository-based access can be expressed in SQL. Only sessions matching
+   * `candidates` are considered, and up to REPO_READ_CONCURRENCY checks run at once.
+   */
+  private async getReadableRepoUrls(canReadRepo: RepoReadCheck, candidates?: RepoCandidates): Promise<string[]> {
+    const rows = await this.db.all<{ repo_url: string }>(
+      `SELECT DISTINCT repo_url FROM sessions
+       WHERE repo_url IS NOT NULL AND repo_url <> '' AND visibility <> 'public'
+         ${candidates ? `AND ${candidates.clause}` : ""}`,
+      candidates?.params ?? []
+    );
+    const queue = rows.map(r => r.repo_url);
+    const readable: string[] = [];
+    const worker = async () => {
+      for (let repoUrl = queue.shift(); repoUrl !== undefined; repoUrl = queue.shift()) {
+        if (await canReadRepo(repoUrl)) {
+          readable.push(repoUrl);
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(REPO_READ_CONCURRENCY, queue.length) }, worker));
+    return readable;
+  }
+
+  /**
+   * Build WHERE clause for sessions a user can access, including collaborator access.
+   * Mirrors verifySessionAccess: owner (user_id/client_id), public, collaborator by user_id/email,
+   * member of the organization an 'org' session is shared with, or reader of its repository
+   * when `canReadRepo` is given (limited to `repoCandidates`, see getReadableRepoUrls).
+   */
+  private async buildSessionAccessClause(
+    access: SessionAccessOptions,
+    tableAlias = "s",
+    repoCandidates?: RepoCandidates
+  ): Promise<{ clause: string; params: string[] }> {
+    const conditions = [`${tableAlias}.visibility = 'public'`];
+    const params: string[] = [];
+    if (access.userId) {
+      conditions.push(`${tableAlias}.user_id = ?`);
+      params.push(access.userId);
+      conditions.push(`EXISTS (SELECT 1 FROM session_collaborators c WHERE c.session_id = ${tableAlias}.id AND c.user_id = ?)`);
+      params.push(access.userId);
+    }
+    if (access.clientId) {
+      conditions.push(`${tableAlias}.client_id = ?`);
+      params.push(access.clientId);
+    }
+    if (access.email) {
+      conditions.push(`EXISTS (SELECT 1 FROM session_collaborators c WHERE c.session_id = ${tableAlias}.id AND c.email = ?)`);
+      params.push(normalizeEmail(access.email));
+    }
+    const member = this.organizationMemberClause(access.userId ?? null, access.email ?? null);
+    if (member) {
+      conditions.push(`(${tableAlias}.visibility = 'org' AND EXISTS (SELECT 1 FROM organization_members m WHERE m.org_id = ${tableAlias}.org_id AND ${member.clause}))`);
+      params.push(...member.params);
+    }
+    if (access.canReadRepo) {
+      const repoUrls = await this.getReadableRepoUrls(access.canReadRepo, repoCandidates);
+      if (repoUrls.length > 0) {
+        conditions.push(`${tableAlias}.repo_url IN (${repoUrls.map(() => "?").join(", ")})`);
+        params.push(...repoUrls);
+      }
+    }
+    return { clause: `(${conditions.join(" OR ")})`, params };
+  }
+
+  /**
+   * Full-text search across message text, tool calls/results and diffs.
+   * Only returns hits from sessions the caller can access (same rules as verifySessionAccess).
+   */
+  async searchSessions(query: string, options: SessionAccessOptions & { limit?: number } = {}): Promise<SearchHit[]> {
+    const postgres = this.db.dialect === "postgres";
+    const match = postgres ? buildTsQuery(query) : buildFtsQuery(query);
+    if (!match) {
+      return [];
+    }
+
+    // Only repositories of sessions with a hit need checking
+    const candidates = {
+      clause: postgres
+        ? "id IN (SELECT session_id FROM search_index WHERE document @@ to_tsquery('openctl_search', ?))"
+        : "id IN (SELECT session_id FROM search_index WHERE search_index MATCH ?)",
+      params: [match],
+    };
+    let access: { clause: string; params: string[] };
+    try {
+      access = await this.buildSessionAccessClause(options, "s", candidates);
+    } catch {
+      // Malformed MATCH expressions are treated as no results
+      return [];
+    }
+    const { clause, params } = access;
+    const sql = postgres
+      ? `
+        SELECT
+          search_index.session_id as session_id,
+          s.title as session_title,
+          search_index.kind as kind,
+          search_index.message_index as message_index,
+          search_index.filename as filename,
+          ts_headline('openctl_search', search_index.body || ' ' || search_index.tools, q.query,
+            'StartSel=${SNIPPET_MATCH_START}, StopSel=${SNIPPET_MATCH_END}, MaxWords=16, MinWords=8') as raw_snippet
+        FROM search_index
+        CROSS JOIN (SELECT to_tsquery('openctl_search', ?) as query) q
+        INNER JOIN sessions s ON s.id = search_index.session_id
+        WHERE search_index.document @@ q.query AND ${clause}
+        ORDER BY ts_rank(search_index.document, q.query) DESC
+        LIMIT ?
+      `
+      : `
+        SELECT
+          search_index.session_id as session_id,
+          s.title as session_title,
+          search_index.kind as kind,
+          search_index.message_index as message_index,
+          search_index.filename as filename,
+          snippet(search_index, -1, '${SNIPPET_MATCH_START}', '${SNIPPET_MATCH_END}', '${SNIPPET_ELLIPSIS}', 16) as raw_snippet
+        FROM search_index
+        INNER JOIN sessions s ON s.id = search_index.session_id
+        WHERE search_index MATCH ? AND ${clause}
+        ORDER BY bm25(search_index)
+        LIMIT ?
+      `;
+
+    let rows: Array<Omit<SearchHit, "snippet" | "highlights"> & { raw_snippet: string }>;
+    try {
+      rows = await this.db.all<typeof rows[number]>(sql, [match, ...params, options.limit ?? 50]);
+    } catch {
+      // Malformed MATCH expressions are treated as no results
+      return [];
+    }
+
+    return rows.map(({ raw_snippet, ...row }) => ({
+      ...row,
+      message_index: row.message_index === null ? null : Number(row.message_index),
+      ...parseSnippet(raw_snippet),
+    }));
+  }
+
+  // === Repository View Methods ===
+
+  /**
+   * List repositories derived from accessible sessions, most recently active first.
+   * A session's repository is its repo_url, falling back to project_path.
+   */
+  async getAccessibleRepositories(access: SessionAccessOptions, limit = 50): Promise<RepositorySummary[]> {
+    const { clause, params } = await this.buildSessionAccessClause(access);
+    const rows = await this.db.all<Omit<RepositorySummary, "id"> & { repo_key: string }>(`
+      WITH accessible AS (
+        SELECT s.*, COALESCE(NULLIF(s.repo_url, ''), NULLIF(s.project_path, '')) as repo_key
+        FROM sessions s
+        WHERE ${clause}
+      )
+      SELECT
+        a.repo_key,
+        MAX(NULLIF(a.repo_url, '')) as repo_url,
+        MAX(a.project_path) as project_path,
+        COUNT(*) as session_count,
+        SUM(CASE WHEN a.status = 'live' THEN 1 ELSE 0 END) as live_session_count,
+        COUNT(DISTINCT COALESCE(a.user_id, a.client_id)) as contributor_count,
+        COALESCE(SUM(tf.lines_added), 0) as lines_added,
+        COALESCE(SUM(tf.lines_removed), 0) as lines_removed,
+        MAX(COALESCE(a.last_activity_at, a.created_at)) as last_activity_at
+      FROM accessible a
+      LEFT JOIN (
+        SELECT session_id, SUM(lines_added) as lines_added, SUM(lines_removed) as lines_removed
+        FROM touched_files GROUP BY session_id
+      ) tf ON tf.session_id = a.id
+      WHERE a.repo_key IS NOT NULL
+      GROUP BY a.repo_key
+      ORDER BY last_activity_at DESC
+      LIMIT ?
+    `, [...params, limit]);
+
+    return rows.map(({ repo_key, ...row }) => ({
+      id: encodeRepoId(repo_key),
+      ...toNumbers(row, ["session_count", "live_session_count", "contributor_count", "lines_added", "lines_removed"]),
+    }));
+  }
+
+  /**
+   * Get aggregates, contributors, most-touched files and recent sessions for one repository.
+   * Only accessible sessions are included; returns NotFoundError if there are none.
+   */
+  async getRepositoryDetail(
+    repoKey: string,
+    access: SessionAccessOptions,
+    options: { sessionLimit?: number; fileLimit?: number } = {}
+  ): Promise<Result<RepositoryDetail, NotFoundError>> {
+    const { clause, params } = await this.buildSessionAccessClause(access, "s", {
+      clause: "COALESCE(NULLIF(repo_url, ''), NULLIF(project_path, '')) = ?",
+      params: [repoKey],
+    });
+    const scope = `
+      WITH accessible AS (
+        SELECT s.* FROM sessions s
+        WHERE COALESCE(NULLIF(s.repo_url, ''), NULLIF(s.project_path, '')) = ? AND ${clause}
+      )
+    `;
+    const scopeParams = [repoKey, ...params];
+
+    const statsRow = await this.db.get<Omit<RepositoryDetail["stats"], "id">>(`
+      ${scope}
+      SELECT
+        COUNT(*) as session_count,
+        SUM(CASE WHEN status = 'live' THEN 1 ELSE 0 END) as live_session_count,
+        COUNT(DISTINCT COALESCE(user_id, client_id)) as contributor_count,
+        COALESCE(SUM(input_tokens), 0) as input_tokens,
+        COALESCE(SUM(output_tokens), 0) as output_tokens,
+        MAX(NULLIF(repo_url, '')) as repo_url,
+        MAX(project_path) as project_path,
+        MAX(COALESCE(last_activity_at, created_at)) as last_activity_at,
+        (SELECT COALESCE(SUM(lines_added), 0) FROM touched_files WHERE session_id IN (SELECT id FROM accessible)) as lines_added,
+        (SELECT COALESCE(SUM(lines_removed), 0) FROM touched_files WHERE session_id IN (SELECT id FROM accessible)) as lines_removed,
+        (SELECT COUNT(DISTINCT filename) FROM touched_files WHERE session_id IN (SELECT id FROM accessible)) as files_changed_count
+      FROM accessible
+    `, scopeParams);
+    const stats = toNumbers(statsRow!, [
+      "session_count",
+      "live_session_count",
+      "contributor_count",
+      "input_tokens",
+      "output_tokens",
+      "lines_added",
+      "lines_removed",
+      "files_changed_count",
+    ]);
+
+    if (!stats.session_count) {
+      return Result.err(new NotFoundError({ resource: "repository", id: repoKey }));
+    }
+
+    const contributors = (await this.db.all<RepositoryContributor>(`
+      ${scope}
+      SELECT
+        a.user_id,
+        COUNT(*) as session_count,
+        COALESCE(SUM(tf.lines_added), 0) as lines_added,
+        COALESCE(SUM(tf.lines_removed), 0) as lines_removed,
+        COALESCE(SUM(a.input_tokens), 0) as input_tokens,
+        COALESCE(SUM(a.output_tokens), 0) as output_tokens
+      FROM accessible a
+      LEFT JOIN (
+        SELECT session_id, SUM(lines_added) as lines_added, SUM(lines_removed) as lines_removed
+        FROM touched_files GROUP BY session_id
+      ) tf ON tf.session_id = a.id
+      GROUP BY a.user_id
+      ORDER BY session_count DESC
+    `, scopeParams)).map(row =>
+      toNumbers(row, ["session_count", "lines_added", "lines_removed", "input_tokens", "output_tokens"])
+    );
+
+    const files = (await this.db.all<RepositoryFile>(`
+      ${scope}
+      SELECT
+        tf.filename,
+        COUNT(DISTINCT tf.session_id) as session_count,
+        SUM(tf.lines_added) as lines_added,
+        SUM(tf.lines_removed) as lines_removed
+      FROM touched_files tf
+      INNER JOIN accessible a ON a.id = tf.session_id
+      GROUP BY tf.filename
+      ORDER BY session_count DESC, (SUM(tf.lines_added) + SUM(tf.lines_removed)) DESC
+      LIMIT ?
+    `, [...scopeParams, options.fileLimit ?? 20])).map(row =>
+      toNumbers(row, ["session_count", "lines_added", "lines_removed"])
+    );
+
+    const sessions = (await this.db.all<Row>(`
+      ${scope}
+      SELECT * FROM accessible
+      ORDER BY COALESCE(last_activity_at, created_at) DESC
+      LIMIT ?
+    `, [...scopeParams, options.sessionLimit ?? 50])).map(r => this.normalizeSession(r));
+
+    return Result.ok({
+      stats: { id: encodeRepoId(repoKey), ...stats },
+      contributors,
+      files,
+      sessions,
+    });
+  }
+
+  // === Spawned Session Methods ===
+
+  /**
+   * Insert or replace the persisted state of a spawned session.
+   */
+  async saveSpawnedSession(state: Omit<SpawnedSessionState, "updated_at">): Promise<void> {
+    await this.db.run(`
+      INSERT INTO spawned_sessions (id, daemon_client_id, status, state_json, updated_at)
+      VALUES (?, ?, ?, ?, ${this.now})
+      ON CONFLICT(id) DO UPDATE SET
+        daemon_client_id = excluded.daemon_client_id,
+        status = excluded.status,
+        state_json = excluded.state_json,
+        updated_at = excluded.updated_at
+    `, [state.id, state.daemon_client_id, state.status, JSON.stringify(state.state)]);
+  }
+
+  async getSpawnedSessions(): Promise<SpawnedSessionState[]> {
+    const rows = await this.db.all<Row>("SELECT * FROM spawned_sessions ORDER BY updated_at ASC");
+    return rows.map(row => ({
+      id: row.id as string,
+      daemon_client_id: row.daemon_client_id as string,
+      status: row.status as string,
+      state: JSON.parse(row.state_json as string),
+      updated_at: row.updated_at as string,
+    }));
+  }
+
+  async deleteSpawnedSession(id: string): Promise<void> {
+    await this.db.run("DELETE FROM spawned_sessions WHERE id = ?", [id]);
+  }
+
+  // === Webhook Methods ===
+
+  private normalizeWebhook(row: Row): Webhook {
+    return {
+      ...row,
+      events: JSON.parse(row.events as string),
+      active: Boolean(row.active),
+    } as Webhook;
+  }
+
+  async createWebhook(webhook: Omit<Webhook, "created_at" | "updated_at">): Promise<Webhook> {
+    const row = await this.db.get<Row>(`
+      INSERT INTO webhooks (id, user_id, client_id, org_id, url, secret, events, description, active)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      RETURNING *
+    `, [
+      webhook.id,
+      webhook.user_id,
+      webhook.client_id,
+      webhook.org_id,
+      webhook.url,
+      webhook.secret,
+      JSON.stringify(webhook.events),
+      webhook.description,
+      webhook.active ? 1 : 0,
+    ]);
+    return this.normalizeWebhook(row!);
+  }
+
+  async getWebhook(id: string): Promise<Result<Webhook, NotFoundError>> {
+    const row = await this.db.get<Row>("SELECT * FROM webhooks WHERE id = ?", [id]);
+    if (!row) {
+      return Result.err(new NotFoundError({ resource: "webhook", id }));
+    }
+    return Result.ok(this.normalizeWebhook(row));
+  }
+
+  /**
+   * Webhooks owned by a user or client (either may match), oldest first.
+   * With `activeOnly`, only those that should receive events.
+   */
+  async getWebhooksForOwner(
+    userId: string | null,
+    clientId: string | null,
+    options: { activeOnly?: boolean } = {}
+  ): Promise<Webhook[]> {
+    if (!userId && !clientId) return [];
+
+    const rows = await this.db.all<Row>(`
+      SELECT * FROM webhooks
+      WHERE ((CAST(? AS TEXT) IS NOT NULL AND user_id = ?) OR (CAST(? AS TEXT) IS NOT NULL AND client_id = ?))
+        ${options.activeOnly ? "AND active = 1" : ""}
+      ORDER BY created_at ASC, id ASC
+    `, [userId, userId, clientId, clientId]);
+    return rows.map(row => this.normalizeWebhook(row));
+  }
+
+  /**
+   * An organization's webhooks, oldest first. With `activeOnly`, only those
+   * that should receive events.
+   */
+  async getWebhooksForOrg(orgId: string, options: { activeOnly?: boolean } = {}): Promise<Webhook[]> {
+    const rows = await this.db.all<Row>(`
+      SELECT * FROM webhooks
+      WHERE org_id = ?
+        ${options.activeOnly ? "AND active = 1" : ""}
+      ORDER BY created_at ASC, id ASC
+    `, [orgId]);
+    return rows.map(row => this.normalizeWebhook(row));
+  }
+
+  async updateWebhook(
+    id: string,
+    updates: Partial<Pick<Webhook, "url" | "events" | "description" | "active">>
+  ): Promise<Result<Webhook, NotFoundError>> {
+    const sets: string[] = [];
+    const params: SqlParam[] = [];
+    if (updates.url !== undefined) {
+      sets.push("url = ?");
+      params.push(updates.url);
+    }
+    if (updates.events !== undefined) {
+      sets.push("events = ?");
+      params.push(JSON.stringify(updates.events));
+    }
+    if (updates.description !== undefined) {
+      sets.push("description = ?");
+      params.push(updates.description);
+    }
+    if (updates.active !== undefined) {
+      sets.push("active = ?");
+      params.push(updates.active ? 1 : 0);
+    }
+    sets.push(`updated_at = ${this.now}`);
+
+    const row = await this.db.get<Row>(
+      `UPDATE webhooks SET ${sets.join(", ")} WHERE id = ? RETURNING *`,
+      [...params, id]
+    );
+    if (!row) {
+      return Result.err(new NotFoundError({ resource: "webhook", id }));
+    }
+    return Result.ok(this.normalizeWebhook(row));
+  }
+
+  async deleteWebhook(id: string): Promise<boolean> {
+    const result = await this.db.run("DELETE FROM webhooks WHERE id = ?", [id]);
+    return result.changes > 0;
+  }
+
+  async createWebhookDelivery(
+    delivery: Pick<WebhookDelivery, "id" | "webhook_id" | "event_type" | "session_id" | "payload" | "next_attempt_at">
+  ): Promise<WebhookDelivery> {
+    const row = await this.db.get<WebhookDelivery>(`
+      INSERT INTO webhook_deliveries (id, webhook_id, event_type, session_id, payload, next_attempt_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      RETURNING *
+    `, [delivery.id, delivery.webhook_id, delivery.event_type, delivery.session_id, delivery.payload, delivery.next_attempt_at]);
+    return row!;
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | null> {
+    return this.db.get<WebhookDelivery>("SELECT * FROM webhook_deliveries WHERE id = ?", [id]);
+  }
+
+  /**
+   * Newest deliveries for a webhook, for the delivery log.
+   */
+  async getWebhookDeliveries(webhookId: string, limit = 50): Promise<WebhookDelivery[]> {
+    return this.db.all<WebhookDelivery>(`
+      SELECT * FROM webhook_deliveries
+      WHERE webhook_id = ?
+      ORDER BY created_at DESC, id DESC
+      LIMIT ?
+    `, [webhookId, limit]);
+  }
+
+  /**
+   * Pending deliveries whose next attempt is due at `now`, oldest first.
+   */
+  async getDueWebhookDeliveries(now: string, limit = 50): Promise<WebhookDelivery[]> {
+    return this.db.all<WebhookDelivery>(`
+      SELECT * FROM webhook_deliveries
+      WHERE status = 'pending' AND next_attempt_at <= ?
+      ORDER BY next_attempt_at ASC
+      LIMIT ?
+    `, [now, limit]);
+  }
+
+  /**
+   * Claim a pending delivery for an attempt by pushing its next attempt out to
+   * `leaseUntil`. Fails if another instance claimed it first (its
+   * next_attempt_at no longer matches).
+   */
+  async claimWebhookDelivery(id: string, expectedNextAttemptAt: string, leaseUntil: string): Promise<boolean> {
+    const result = await this.db.run(`
+      UPDATE webhook_deliveries SET next_attempt_at = ?
+      WHERE id = ? AND status = 'pending' AND next_attempt_at = ?
+    `, [leaseUntil, id, expectedNextAttemptAt]);
+    return result.changes > 0;
+  }
+
+  async recordWebhookAttempt(
+    id: string,
+    attempt: Pick<
+      WebhookDelivery,
+      "status" | "attempts" | "next_attempt_at" | "last_attempt_at" | "response_status" | "response_body" | "error"
+    >
+  ): Promise<WebhookDelivery | null> {
+    return this.db.get<WebhookDelivery>(`
+      UPDATE webhook_deliveries
+      SET status = ?, attempts = ?, next_attempt_at = ?, last_attempt_at = ?, response_status = ?, response_body = ?, error = ?
+      WHERE id = ?
+      RETURNING *
+    `, [
+      attempt.status,
+      attempt.attempts,
+      attempt.next_attempt_at,
+      attempt.last_attempt_at,
+      attempt.response_status,
+      attempt.response_body,
+      attempt.error,
+      id,
+    ]);
+  }
+
+  // === Email Methods ===
+
+  /**
+   * Preferences for a (normalized) address, created with `unsubscribeToken`
+   * on first use. An existing address keeps its token.
+   */
+  async getOrCreateEmailPreferences(email: string, unsubscribeToken: string): Promise<EmailPreferences> {
+    await this.db.run(`
+      INSERT INTO email_preferences (email, unsubscribe_token)
+      VALUES (?, ?)
+      ON CONFLICT(email) DO NOTHING
+    `, [email, unsubscribeToken]);
+    const row = await this.db.get<EmailPreferences>("SELECT * FROM email_preferences WHERE email = ?", [email]);
+    return row!;
+  }
+
+  getEmailPreferencesByToken(token: string): Promise<EmailPreferences | null> {
+    return this.db.get<EmailPreferences>("SELECT * FROM email_preferences WHERE unsubscribe_token = ?", [token]);
+  }
+
+  /**
+   * Unsubscribe (or resubscribe) the address owning `token`.
+   * Returns null for unknown tokens.
+   */
+  setEmailUnsubscribed(token: string, unsubscribed: boolean): Promise<EmailPreferences | null> {
+    return this.db.get<EmailPreferences>(`
+      UPDATE email_preferences
+      SET unsubscribed_at = ${unsubscribed ? `COALESCE(unsubscribed_at, ${this.now})` : "NULL"}
+      WHERE unsubscribe_token = ?
+      RETURNING *
+    `, [token]);
+  }
+
+  async recordEmail(entry: Omit<EmailLogEntry, "created_at">): Promise<void> {
+    await this.db.run(`
+      INSERT INTO email_log (id, to_email, template, session_id, subject, status, message_id, error)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      entry.id,
+      entry.to_email,
+      entry.template,
+      entry.session_id,
+      entry.subject,
+      entry.status,
+      entry.message_id,
+      entry.error,
+    ]);
+  }
+
+  /**
+   * Newest send log entries, optionally for one session or status.
+   */
+  getEmailLog(options: { sessionId?: string; status?: EmailStatus; limit?: number } = {}): Promise<EmailLogEntry[]> {
+    const conditions: string[] = [];
+    const params: SqlParam[] = [];
+    if (options.sessionId) {
+      conditions.push("session_id = ?");
+      params.push(options.sessionId);
+    }
+    if (options.status) {
+      conditions.push("status = ?");
+      params.push(options.status);
+    }
+
+    return this.db.all<EmailLogEntry>(`
+      SELECT * FROM email_log
+      ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+      ORDER BY created_at DESC, id DESC
+      LIMIT ?
+    `, [...params, options.limit ?? 50]);
+  }
+
+  // === Audit Log Methods ===
+
+  /**
+   * Add an entry to the audit log.
+   */
+  async addAuditLogEntry(
+    sessionId: string,
+    action: AuditAction,
+    actorUserId: string,
+    targetEmail?: string,
+    oldValue?: string,
+    newValue?: string,
+    threadId?: number
+  ): Promise<void> {
+    await this.db.run(this.stmts.insertAuditLog, [
+      sessionId,
       action,
       actorUserId,
       targetEmail || null,
       oldValue || null,
-      newValue || null
-    );
+      newValue || null,
+      threadId ?? null,
+    ]);
   }
 
   /**
    * Get audit log entries for a session.
    */
-  getAuditLogs(sessionId: string, limit: number = 50): SessionAuditLog[] {
-    const stmt = this.db.prepare(`
+  getAuditLogs(sessionId: string, limit: number = 50): Promise<SessionAuditLog[]> {
+    return this.db.all<SessionAuditLog>(`
       SELECT * FROM session_audit_log
       WHERE session_id = ?
       ORDER BY created_at DESC
       LIMIT ?
-    `);
-    return stmt.all(sessionId, limit) as SessionAuditLog[];
+    `, [sessionId, limit]);
   }
 
   /**
@@ -1911,13 +2861,12 @@ export class SessionRepository {
     role: CollaboratorRole,
     invitedByUserId: string,
     userId?: string
-  ): SessionCollaborator {
-    const transaction = this.db.transaction(() => {
-      const collaborator = this.addCollaborator(sessionId, email, role, invitedByUserId, userId);
-      this.addAuditLogEntry(sessionId, 'collaborator_added', invitedByUserId, email, undefined, role);
+  ): Promise<SessionCollaborator> {
+    return this.transaction(async (repo) => {
+      const collaborator = await repo.addCollaborator(sessionId, email, role, invitedByUserId, userId);
+      await repo.addAuditLogEntry(sessionId, 'collaborator_added', invitedByUserId, email, undefined, role);
       return collaborator;
     });
-    return transaction();
   }
 
   /**
@@ -1927,14 +2876,14 @@ export class SessionRepository {
     collaboratorId: number,
     newRole: CollaboratorRole,
     actorUserId: string
-  ): SessionCollaborator | null {
-    const transaction = this.db.transaction(() => {
-      const existing = this.getCollaborator(collaboratorId);
+  ): Promise<SessionCollaborator | null> {
+    return this.transaction(async (repo) => {
+      const existing = await repo.getCollaborator(collaboratorId);
       if (!existing) return null;
 
-      const updated = this.updateCollaboratorRole(collaboratorId, newRole);
+      const updated = await repo.updateCollaboratorRole(collaboratorId, newRole);
       if (updated) {
-        this.addAuditLogEntry(
+        await repo.addAuditLogEntry(
           existing.session_id,
           'collaborator_role_changed',
           actorUserId,
@@ -1945,7 +2894,6 @@ export class SessionRepository {
       }
       return updated;
     });
-    return transaction();
   }
 
   /**
@@ -1954,14 +2902,14 @@ export class SessionRepository {
   removeCollaboratorWithAudit(
     collaboratorId: number,
     actorUserId: string
-  ): boolean {
-    const transaction = this.db.transaction(() => {
-      const existing = this.getCollaborator(collaboratorId);
+  ): Promise<boolean> {
+    return this.transaction(async (repo) => {
+      const existing = await repo.getCollaborator(collaboratorId);
       if (!existing) return false;
 
-      const removed = this.removeCollaborator(collaboratorId);
+      const removed = await repo.removeCollaborator(collaboratorId);
       if (removed) {
-        this.addAuditLogEntry(
+        await repo.addAuditLogEntry(
           existing.session_id,
           'collaborator_removed',
           actorUserId,
@@ -1972,7 +2920,6 @@ export class SessionRepository {
       }
       return removed;
     });
-    return transaction();
   }
 
   /**
@@ -1981,15 +2928,16 @@ export class SessionRepository {
   setSessionVisibilityWithAudit(
     sessionId: string,
     newVisibility: SessionVisibility,
-    actorUserId: string
-  ): boolean {
-    const transaction = this.db.transaction(() => {
-      const oldVisibility = this.getSessionVisibility(sessionId);
+    actorUserId: string,
+    orgId: string | null = null
+  ): Promise<boolean> {
+    return this.transaction(async (repo) => {
+      const oldVisibility = await repo.getSessionVisibility(sessionId);
       if (oldVisibility === null) return false;
 
-      const updated = this.setSessionVisibility(sessionId, newVisibility);
+      const updated = await repo.setSessionVisibility(sessionId, newVisibility, orgId);
       if (updated && oldVisibility !== newVisibility) {
-        this.addAuditLogEntry(
+        await repo.addAuditLogEntry(
           sessionId,
           'visibility_changed',
           actorUserId,
@@ -2000,7 +2948,148 @@ export class SessionRepository {
       }
       return updated;
     });
-    return transaction();
+  }
+
+  // === Review Thread Methods ===
+
+  /**
+   * Start a review thread on a diff line with its first comment, logging it
+   * to the audit log.
+   */
+  createReviewThread(
+    sessionId: string,
+    anchor: Pick<ReviewThread, "filename" | "side" | "line_number">,
+    authorUserId: string,
+    content: string
+  ): Promise<ReviewThreadWithComments> {
+    return this.transaction(async (repo) => {
+      const row = await repo.db.get<{ id: number }>(
+        `INSERT INTO review_threads (session_id, filename, side, line_number, author_user_id)
+         VALUES (?, ?, ?, ?, ?)
+         RETURNING id`,
+        [sessionId, anchor.filename, anchor.side, anchor.line_number, authorUserId]
+      );
+      const threadId = Number(row!.id);
+      await repo.db.run(
+        `INSERT INTO review_comments (thread_id, author_user_id, content) VALUES (?, ?, ?)`,
+        [threadId, authorUserId, content]
+      );
+      await repo.addAuditLogEntry(
+        sessionId,
+        "review_thread_created",
+        authorUserId,
+        undefined,
+        undefined,
+        `${anchor.filename}:${anchor.line_number}`,
+        threadId
+      );
+      return (await repo.getReviewThread(threadId))!;
+    });
+  }
+
+  /**
+   * Reply to a review thread. Returns the updated thread, or null if it
+   * doesn't exist.
+   */
+  addReviewComment(
+    threadId: number,
+    authorUserId: string,
+    content: string
+  ): Promise<ReviewThreadWithComments | null> {
+    return this.transaction(async (repo) => {
+      const thread = await repo.getReviewThread(threadId);
+      if (!thread) return null;
+
+      await repo.db.run(
+        `INSERT INTO review_comments (thread_id, author_user_id, content) VALUES (?, ?, ?)`,
+        [threadId, authorUserId, content]
+      );
+      await repo.addAuditLogEntry(
+        thread.session_id,
+        "review_comment_added",
+        authorUserId,
+        undefined,
+        undefined,
+        undefined,
+        threadId
+      );
+      return repo.getReviewThread(threadId);
+    });
+  }
+
+  /**
+   * Resolve or reopen a review thread. Only an actual change is logged.
+   * Returns the updated thread, or null if it doesn't exist.
+   */
+  setReviewThreadResolved(
+    threadId: number,
+    resolved: boolean,
+    actorUserId: string
+  ): Promise<ReviewThreadWithComments | null> {
+    return this.transaction(async (repo) => {
+      const thread = await repo.getReviewThread(threadId);
+      if (!thread) return null;
+      if ((thread.resolved_at !== null) === resolved) return thread;
+
+      await repo.db.run(
+        resolved
+          ? `UPDATE review_threads SET resolved_at = ${repo.now}, resolved_by_user_id = ? WHERE id = ?`
+          : `UPDATE review_threads SET resolved_at = NULL, resolved_by_user_id = NULL WHERE id = ?`,
+        resolved ? [actorUserId, threadId] : [threadId]
+      );
+      await repo.addAuditLogEntry(
+        thread.session_id,
+        resolved ? "review_thread_resolved" : "review_thread_reopened",
+        actorUserId,
+        undefined,
+        undefined,
+        undefined,
+        threadId
+      );
+      return repo.getReviewThread(threadId);
+    });
+  }
+
+  /**
+   * Get a review thread with its comments, oldest first.
+   */
+  async getReviewThread(threadId: number): Promise<ReviewThreadWithComments | null> {
+    const thread = await this.db.get<ReviewThread>(
+      `SELECT * FROM review_threads WHERE id = ?`,
+      [threadId]
+    );
+    if (!thread) return null;
+
+    const comments = await this.db.all<ReviewComment>(
+      `SELECT * FROM review_comments WHERE thread_id = ? ORDER BY id`,
+      [threadId]
+    );
+    return { ...thread, comments };
+  }
+
+  /**
+   * Get a session's review threads with their comments, in the order they
+   * were started.
+   */
+  async getReviewThreads(sessionId: string): Promise<ReviewThreadWithComments[]> {
+    const threads = await this.db.all<ReviewThread>(
+      `SELECT * FROM review_threads WHERE session_id = ? ORDER BY id`,
+      [sessionId]
+    );
+    if (threads.length === 0) return [];
+
+    const comments = await this.db.all<ReviewComment>(
+      `SELECT c.* FROM review_comments c
+       JOIN review_threads t ON t.id = c.thread_id
+       WHERE t.session_id = ?
+       ORDER BY c.id`,
+      [sessionId]
+    );
+    const byThread = new Map<number, ReviewComment[]>(threads.map((t) => [t.id, []]));
+    for (const comment of comments) {
+      byThread.get(comment.thread_id)?.push(comment);
+    }
+    return threads.map((thread) => ({ ...thread, comments: byThread.get(thread.id) ?? [] }));
   }
 
   // === Homepage Stats Methods ===
@@ -2028,74 +3117,74 @@ export class SessionRepository {
   /**
    * Get top models by total token usage (input + output).
    */
-  getTopModelsByTokenUsage(
+  async getTopModelsByTokenUsage(
     userId?: string,
     clientId?: string,
     limit = 5
-  ): Array<{ model: string; total_tokens: number; session_count: number }> {
+  ): Promise<Array<{ model: string; total_tokens: number; session_count: number }>> {
     const { clause, params } = this.buildAccessClause(userId, clientId);
-    const stmt = this.db.prepare(`
+    const rows = await this.db.all<{ model: string; total_tokens: number; session_count: number }>(`
       SELECT model, SUM(input_tokens + output_tokens) as total_tokens, COUNT(*) as session_count
       FROM sessions
       WHERE model IS NOT NULL AND model != '' AND ${clause}
       GROUP BY model ORDER BY total_tokens DESC LIMIT ?
-    `);
-    return stmt.all(...params, limit) as Array<{ model: string; total_tokens: number; session_count: number }>;
+    `, [...params, limit]);
+    return rows.map(row => toNumbers(row, ["total_tokens", "session_count"]));
   }
 
   /**
    * Get top harnesses (agents) by session count.
    */
-  getTopHarnessesBySessionCount(
+  async getTopHarnessesBySessionCount(
     userId?: string,
     clientId?: string,
     limit = 5
-  ): Array<{ harness: string; session_count: number }> {
+  ): Promise<Array<{ harness: string; session_count: number }>> {
     const { clause, params } = this.buildAccessClause(userId, clientId);
-    const stmt = this.db.prepare(`
+    const rows = await this.db.all<{ harness: string; session_count: number }>(`
       SELECT harness, COUNT(*) as session_count
       FROM sessions
       WHERE harness IS NOT NULL AND harness != '' AND ${clause}
       GROUP BY harness ORDER BY session_count DESC LIMIT ?
-    `);
-    return stmt.all(...params, limit) as Array<{ harness: string; session_count: number }>;
+    `, [...params, limit]);
+    return rows.map(row => toNumbers(row, ["session_count"]));
   }
 
   /**
    * Get most active repos by session count.
    */
-  getMostActiveRepos(
+  async getMostActiveRepos(
     userId?: string,
     clientId?: string,
     limit = 5
-  ): Array<{ repo_url: string; session_count: number; total_tokens: number }> {
+  ): Promise<Array<{ repo_url: string; session_count: number; total_tokens: number }>> {
     const { clause, params } = this.buildAccessClause(userId, clientId);
-    const stmt = this.db.prepare(`
+    const rows = await this.db.all<{ repo_url: string; session_count: number; total_tokens: number }>(`
       SELECT repo_url, COUNT(*) as session_count, SUM(input_tokens + output_tokens) as total_tokens
       FROM sessions
       WHERE repo_url IS NOT NULL AND repo_url != '' AND ${clause}
       GROUP BY repo_url ORDER BY session_count DESC LIMIT ?
-    `);
-    return stmt.all(...params, limit) as Array<{ repo_url: string; session_count: number; total_tokens: number }>;
+    `, [...params, limit]);
+    return rows.map(row => toNumbers(row, ["session_count", "total_tokens"]));
   }
 
   /**
    * Get aggregate token totals for accessible sessions.
    */
-  getTotalTokenUsage(
+  async getTotalTokenUsage(
     userId?: string,
     clientId?: string
-  ): { input_tokens: number; output_tokens: number; cache_read_tokens: number; cache_creation_tokens: number } {
+  ): Promise<{ input_tokens: number; output_tokens: number; cache_read_tokens: number; cache_creation_tokens: number }> {
     const { clause, params } = this.buildAccessClause(userId, clientId);
-    const stmt = this.db.prepare(`
+    const row = await this.db.get<{ input_tokens: number; output_tokens: number; cache_read_tokens: number; cache_creation_tokens: number }>(`
       SELECT
         COALESCE(SUM(input_tokens), 0) as input_tokens,
         COALESCE(SUM(output_tokens), 0) as output_tokens,
         COALESCE(SUM(cache_read_tokens), 0) as cache_read_tokens,
         COALESCE(SUM(cache_creation_tokens), 0) as cache_creation_tokens
       FROM sessions WHERE ${clause}
-    `);
-    return stmt.get(...params) as { input_tokens: number; output_tokens: number; cache_read_tokens: number; cache_creation_tokens: number };
+    `, params);
+    return toNumbers(row!, ["input_tokens", "output_tokens", "cache_read_tokens", "cache_creation_tokens"]);
   }
 
   // === Profile Stats Methods ===
@@ -2103,67 +3192,65 @@ export class SessionRepository {
   /**
    * Get profile statistics for a user.
    */
-  getProfileStats(
+  async getProfileStats(
     userId?: string,
     clientId?: string
-  ): {
+  ): Promise<{
     totalSessions: number;
     totalMessages: number;
     activeDays: number;
     filesEdited: number;
     linesAdded: number;
     linesDeleted: number;
-  } {
+  }> {
     const { clause, params } = this.buildAccessClause(userId, clientId);
     const { clause: clauseWithAlias, params: paramsWithAlias } = this.buildAccessClause(userId, clientId, { tableAlias: 's' });
+    const count = async (sql: string, sqlParams: string[]) =>
+      Number((await this.db.get<{ count: number | string }>(sql, sqlParams))!.count);
 
     // Total sessions
-    const sessionStmt = this.db.prepare(`
+    const totalSessions = await count(`
       SELECT COUNT(*) as count FROM sessions WHERE ${clause}
-    `);
-    const totalSessions = (sessionStmt.get(...params) as { count: number }).count;
+    `, params);
 
     // Total messages - join with sessions to filter by ownership
-    const messageStmt = this.db.prepare(`
+    const totalMessages = await count(`
       SELECT COUNT(*) as count FROM messages m
       JOIN sessions s ON m.session_id = s.id
       WHERE ${clauseWithAlias}
-    `);
-    const totalMessages = (messageStmt.get(...paramsWithAlias) as { count: number }).count;
+    `, paramsWithAlias);
 
     // Active days - count distinct dates with session activity
-    const activeDaysStmt = this.db.prepare(`
-      SELECT COUNT(DISTINCT date(created_at)) as count FROM sessions WHERE ${clause}
-    `);
-    const activeDays = (activeDaysStmt.get(...params) as { count: number }).count;
+    const activeDays = await count(`
+      SELECT COUNT(DISTINCT substr(created_at, 1, 10)) as count FROM sessions WHERE ${clause}
+    `, params);
 
     // Files edited - sum of distinct files from diffs
-    const filesStmt = this.db.prepare(`
+    const filesEdited = await count(`
       SELECT COUNT(DISTINCT d.filename) as count FROM diffs d
       JOIN sessions s ON d.session_id = s.id
       WHERE d.filename IS NOT NULL AND ${clauseWithAlias}
-    `);
-    const filesEdited = (filesStmt.get(...paramsWithAlias) as { count: number }).count;
+    `, paramsWithAlias);
 
     // Lines added and deleted from diffs
-    const linesStmt = this.db.prepare(`
+    const linesResult = await this.db.get<{ added: number; deleted: number }>(`
       SELECT COALESCE(SUM(d.additions), 0) as added, COALESCE(SUM(d.deletions), 0) as deleted FROM diffs d
       JOIN sessions s ON d.session_id = s.id
       WHERE ${clauseWithAlias}
-    `);
-    const linesResult = linesStmt.get(...paramsWithAlias) as { added: number; deleted: number };
+    `, paramsWithAlias);
+    const lines = toNumbers(linesResult!, ["added", "deleted"]);
 
-    return { totalSessions, totalMessages, activeDays, filesEdited, linesAdded: linesResult.added, linesDeleted: linesResult.deleted };
+    return { totalSessions, totalMessages, activeDays, filesEdited, linesAdded: lines.added, linesDeleted: lines.deleted };
   }
 
   /**
    * Get activity heatmap data - sessions per day for the last N days.
    */
-  getActivityHeatmap(
+  async getActivityHeatmap(
     userId?: string,
     clientId?: string,
     days = 365
-  ): Array<{ date: string; count: number }> {
+  ): Promise<Array<{ date: string; count: number }>> {
     const { clause, params } = this.buildAccessClause(userId, clientId);
 
     // Calculate start date
@@ -2171,34 +3258,34 @@ export class SessionRepository {
     startDate.setDate(startDate.getDate() - days);
     const startDateStr: string = startDate.toISOString().slice(0, 10);
 
-    const stmt = this.db.prepare(`
-      SELECT date(created_at) as date, COUNT(*) as count
+    // Timestamps are stored as "YYYY-MM-DD HH:MM:SS", so the date is the first 10 characters
+    const rows = await this.db.all<{ date: string; count: number }>(`
+      SELECT substr(created_at, 1, 10) as date, COUNT(*) as count
       FROM sessions
-      WHERE ${clause} AND date(created_at) >= ?
-      GROUP BY date(created_at)
+      WHERE ${clause} AND substr(created_at, 1, 10) >= ?
+      GROUP BY substr(created_at, 1, 10)
       ORDER BY date ASC
-    `);
+    `, [...params, startDateStr]);
 
-    return stmt.all(...params, startDateStr) as Array<{ date: string; count: number }>;
+    return rows.map(row => toNumbers(row, ["count"]));
   }
 
   /**
    * Get the longest streak of consecutive active days.
    */
-  getLongestStreak(
+  async getLongestStreak(
     userId?: string,
     clientId?: string
-  ): number {
+  ): Promise<number> {
     const { clause, params } = this.buildAccessClause(userId, clientId);
 
     // Get all distinct active dates
-    const stmt = this.db.prepare(`
-      SELECT DISTINCT date(created_at) as date
+    const dates = await this.db.all<{ date: string }>(`
+      SELECT DISTINCT substr(created_at, 1, 10) as date
       FROM sessions
       WHERE ${clause}
       ORDER BY date ASC
-    `);
-    const dates = stmt.all(...params) as Array<{ date: string }>;
+    `, params);
 
     if (dates.length === 0) return 0;
 
@@ -2224,15 +3311,14 @@ export class SessionRepository {
   /**
    * Get the user's earliest session date (join date for openctl).
    */
-  getFirstSessionDate(
+  async getFirstSessionDate(
     userId?: string,
     clientId?: string
-  ): string | null {
+  ): Promise<string | null> {
     const { clause, params } = this.buildAccessClause(userId, clientId);
-    const stmt = this.db.prepare(`
+    const result = await this.db.get<{ first_date: string | null }>(`
       SELECT MIN(created_at) as first_date FROM sessions WHERE ${clause}
-    `);
-    const result = stmt.get(...params) as { first_date: string | null };
-    return result.first_date;
+    `, params);
+    return result?.first_date ?? null;
   }
 }
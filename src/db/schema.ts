@@ -1,16 +1,12 @@
 import { Database } from "bun:sqlite";
 import { mkdirSync, existsSync } from "fs";
 import { dirname } from "path";
+import { runMigrations } from "./migrate";
 
-function safeAddColumn(db: Database, table: string, column: string, definition: string): void {
-  try {
-    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
-  } catch {
-    // Column already exists, ignore
-  }
-}
-
-export function initializeDatabase(dbPath: string = process.env.DATABASE_PATH || "data/sessions.db"): Database {
+/**
+ * Open the database without touching its schema (see `bun run migrate status`).
+ */
+export function openDatabase(dbPath: string = process.env.DATABASE_PATH || "data/sessions.db"): Database {
   const dir = dirname(dbPath);
   if (dir && !existsSync(dir)) {
     mkdirSync(dir, { recursive: true });
@@ -21,238 +17,22 @@ export function initializeDatabase(dbPath: string = process.env.DATABASE_PATH ||
   // Enable foreign key enforcement
   db.run("PRAGMA foreign_keys = ON");
 
-  db.run(`
-    CREATE TABLE IF NOT EXISTS sessions (
-      id TEXT PRIMARY KEY,
-      title TEXT NOT NULL,
-      description TEXT,
-      claude_session_id TEXT,
-      pr_url TEXT,
-      share_token TEXT UNIQUE,
-      project_path TEXT,
-      created_at TEXT DEFAULT (datetime('now', 'utc')),
-      updated_at TEXT DEFAULT (datetime('now', 'utc'))
-    )
-  `);
-
-  db.run(`
-    CREATE TABLE IF NOT EXISTS messages (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      session_id TEXT NOT NULL,
-      role TEXT NOT NULL,
-      content TEXT NOT NULL,
-      timestamp TEXT,
-      message_index INTEGER,
-      FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
-    )
-  `);
-
-  db.run(`
-    CREATE TABLE IF NOT EXISTS diffs (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      session_id TEXT NOT NULL,
-      filename TEXT,
-      diff_content TEXT NOT NULL,
-      diff_index INTEGER DEFAULT 0,
-      FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
-    )
-  `);
-
-  db.run(`CREATE INDEX IF NOT EXISTS idx_messages_session ON messages(session_id)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_diffs_session ON diffs(session_id)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_share_token ON sessions(share_token)`);
-
-  // Reviews table (one per session, optional)
-  db.run(`
-    CREATE TABLE IF NOT EXISTS reviews (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      session_id TEXT NOT NULL UNIQUE,
-      summary TEXT NOT NULL,
-      model TEXT,
-      created_at TEXT DEFAULT (datetime('now', 'utc')),
-      FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
-    )
-  `);
-
-  // Annotations table (line-level review comments)
-  db.run(`
-    CREATE TABLE IF NOT EXISTS annotations (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      review_id INTEGER NOT NULL,
-      diff_id INTEGER NOT NULL,
-      line_number INTEGER NOT NULL,
-      side TEXT NOT NULL DEFAULT 'additions',
-      annotation_type TEXT NOT NULL,
-      content TEXT NOT NULL,
-      FOREIGN KEY (review_id) REFERENCES reviews(id) ON DELETE CASCADE,
-      FOREIGN KEY (diff_id) REFERENCES diffs(id) ON DELETE CASCADE
-    )
-  `);
-
-  db.run(`CREATE INDEX IF NOT EXISTS idx_reviews_session ON reviews(session_id)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_annotations_review ON annotations(review_id)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_annotations_diff ON annotations(diff_id)`);
-
-  // Migrations - add new columns safely
-  safeAddColumn(db, "messages", "content_blocks", "TEXT DEFAULT '[]'");
-  safeAddColumn(db, "diffs", "additions", "INTEGER DEFAULT 0");
-  safeAddColumn(db, "diffs", "deletions", "INTEGER DEFAULT 0");
-  safeAddColumn(db, "diffs", "is_session_relevant", "INTEGER DEFAULT 1");
-  safeAddColumn(db, "diffs", "status", "TEXT DEFAULT 'modified'");
-  safeAddColumn(db, "sessions", "model", "TEXT");
-  safeAddColumn(db, "sessions", "harness", "TEXT");
-  safeAddColumn(db, "sessions", "repo_url", "TEXT");
-
-  // Live streaming support
-  safeAddColumn(db, "sessions", "status", "TEXT DEFAULT 'archived'");
-  safeAddColumn(db, "sessions", "last_activity_at", "TEXT");
-  safeAddColumn(db, "sessions", "stream_token_hash", "TEXT");
-
-  // Client-based session ownership
-  safeAddColumn(db, "sessions", "client_id", "TEXT");
-
-  // User-based session ownership (for authenticated users)
-  safeAddColumn(db, "sessions", "user_id", "TEXT");
-
-  // Index for live session queries
-  db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_status ON sessions(status)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_client_id ON sessions(client_id)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id)`);
-
-  // Interactive session support
-  safeAddColumn(db, "sessions", "interactive", "INTEGER DEFAULT 0");
-
-  // Remote session support (daemon-spawned headless sessions)
-  safeAddColumn(db, "sessions", "remote", "INTEGER DEFAULT 0");
-
-  // Agent session ID for multi-agent support (alias/replacement for claude_session_id).
-  // This column will be used by future adapters (Cursor, Codex, opencode) to store their
-  // native session identifiers. For now, it's backfilled from claude_session_id for
-  // existing sessions. New sessions should populate this field via the adapter.
-  safeAddColumn(db, "sessions", "agent_session_id", "TEXT");
-  // Backfill agent_session_id from claude_session_id for existing sessions
-  db.run(`UPDATE sessions SET agent_session_id = claude_session_id WHERE agent_session_id IS NULL AND claude_session_id IS NOT NULL`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_agent_session_id ON sessions(agent_session_id)`)
-
-  // Git branch name for the session's working directory
-  safeAddColumn(db, "sessions", "branch", "TEXT");
-
-  // Token usage tracking
-  safeAddColumn(db, "sessions", "input_tokens", "INTEGER DEFAULT 0");
-  safeAddColumn(db, "sessions", "output_tokens", "INTEGER DEFAULT 0");
-  safeAddColumn(db, "sessions", "cache_creation_tokens", "INTEGER DEFAULT 0");
-  safeAddColumn(db, "sessions", "cache_read_tokens", "INTEGER DEFAULT 0");
-
-  // Feedback messages table (for interactive sessions)
-  db.run(`
-    CREATE TABLE IF NOT EXISTS feedback_messages (
-      id TEXT PRIMARY KEY,
-      session_id TEXT NOT NULL,
-      content TEXT NOT NULL,
-      source TEXT,
-      type TEXT NOT NULL DEFAULT 'message',
-      status TEXT NOT NULL DEFAULT 'pending',
-      created_at TEXT NOT NULL DEFAULT (datetime('now', 'utc')),
-      resolved_at TEXT,
-      context_json TEXT,
-      FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
-    )
-  `);
-
-  db.run(`CREATE INDEX IF NOT EXISTS idx_feedback_session ON feedback_messages(session_id)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_feedback_status ON feedback_messages(status)`);
-
-  // Index for session lookup by claude_session_id (for upsert on upload)
-  db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_claude_session_id ON sessions(claude_session_id)`);
-
-  // Analytics events - raw event log (append-only)
-  db.run(`
-    CREATE TABLE IF NOT EXISTS analytics_events (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      event_type TEXT NOT NULL,
-      session_id TEXT,
-      client_id TEXT,
-      timestamp TEXT NOT NULL DEFAULT (datetime('now', 'utc')),
-      properties TEXT NOT NULL DEFAULT '{}',
-      FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE SET NULL
-    )
-  `);
-
-  db.run(`CREATE INDEX IF NOT EXISTS idx_events_type ON analytics_events(event_type)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_events_timestamp ON analytics_events(timestamp)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_events_client ON analytics_events(client_id)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_events_type_timestamp ON analytics_events(event_type, timestamp)`);
-
-  // Analytics daily stats - pre-computed daily aggregates
-  db.run(`
-    CREATE TABLE IF NOT EXISTS analytics_daily_stats (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      date TEXT NOT NULL,
-      client_id TEXT,
-      model TEXT,
-      stat_type TEXT NOT NULL,
-      value INTEGER NOT NULL DEFAULT 0,
-      UNIQUE(date, client_id, model, stat_type)
-    )
-  `);
-
-  db.run(`CREATE INDEX IF NOT EXISTS idx_daily_stats_date ON analytics_daily_stats(date)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_daily_stats_client ON analytics_daily_stats(client_id)`);
-
-  // === Session Sharing Support ===
-
-  // Session visibility (private or public)
-  safeAddColumn(db, "sessions", "visibility", "TEXT DEFAULT 'private'");
-  db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_visibility ON sessions(visibility)`);
-
-  // Per-message user tracking (for multi-user remote sessions)
-  safeAddColumn(db, "messages", "user_id", "TEXT");
-
-  // Session collaborators table
-  db.run(`
-    CREATE TABLE IF NOT EXISTS session_collaborators (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      session_id TEXT NOT NULL,
-      email TEXT NOT NULL,
-      user_id TEXT,
-      role TEXT NOT NULL DEFAULT 'viewer',
-      invited_by_user_id TEXT NOT NULL,
-      created_at TEXT DEFAULT (datetime('now', 'utc')),
-      accepted_at TEXT,
-      UNIQUE(session_id, email),
-      FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
-    )
-  `);
-
-  db.run(`CREATE INDEX IF NOT EXISTS idx_collaborators_session ON session_collaborators(session_id)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_collaborators_email ON session_collaborators(email)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_collaborators_user ON session_collaborators(user_id)`);
-
-  // Session audit log table
-  db.run(`
-    CREATE TABLE IF NOT EXISTS session_audit_log (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      session_id TEXT NOT NULL,
-      action TEXT NOT NULL,
-      actor_user_id TEXT NOT NULL,
-      target_email TEXT,
-      old_value TEXT,
-      new_value TEXT,
-      created_at TEXT DEFAULT (datetime('now', 'utc')),
-      FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
-    )
-  `);
-
-  db.run(`CREATE INDEX IF NOT EXISTS idx_audit_session ON session_audit_log(session_id)`);
-  db.run(`CREATE INDEX IF NOT EXISTS idx_audit_actor ON session_audit_log(actor_user_id)`);
+  return db;
+}
 
+/**
+ * Open the database and apply pending migrations (src/db/migrations).
+ */
+export function initializeDatabase(dbPath: string = process.env.DATABASE_PATH || "data/sessions.db"): Database {
+  const db = openDatabase(dbPath);
+  runMigrations(db);
   return db;
 }
 
 export type SessionStatus = "live" | "complete" | "archived";
 
-// Session visibility for sharing
-export type SessionVisibility = "private" | "public";
+// Session visibility for sharing ('org': members of the session's organization can view)
+export type SessionVisibility = "private" | "public" | "org";
 
 // Collaborator roles
 export type CollaboratorRole = "viewer" | "contributor";
@@ -265,7 +45,11 @@ export type AuditAction =
   | "collaborator_added"
   | "collaborator_removed"
   | "collaborator_role_changed"
-  | "visibility_changed";
+  | "visibility_changed"
+  | "review_thread_created"
+  | "review_comment_added"
+  | "review_thread_resolved"
+  | "review_thread_reopened";
 
 export type Session = {
   id: string;
@@ -280,8 +64,11 @@ export type Session = {
   harness: string | null;
   repo_url: string | null;
   branch: string | null;  // Git branch name for the working directory
+  base_sha: string | null;  // Commit the diff is against (HEAD when the session started)
+  head_sha: string | null;  // HEAD when the diff was last captured
   status: SessionStatus;
-  visibility: SessionVisibility;  // private or public
+  visibility: SessionVisibility;  // private, public or org
+  org_id: string | null;  // Organization the session is shared with (visibility 'org')
   last_activity_at: string | null;
   client_id: string | null;
   user_id: string | null;
@@ -291,6 +78,7 @@ export type Session = {
   output_tokens: number;  // Total output tokens
   cache_creation_tokens: number;  // Tokens written to cache
   cache_read_tokens: number;  // Tokens read from cache (cache hits)
+  redaction_count: number;  // Values redacted by the client or the server redaction policy
   created_at: string;
   updated_at: string;
 };
@@ -316,9 +104,34 @@ export type SessionAuditLog = {
   target_email: string | null;
   old_value: string | null;
   new_value: string | null;
+  thread_id: number | null;  // Review thread for review_* actions
   created_at: string;
 };
 
+// Organization member roles: admins manage members, owners can also delete the organization
+export type OrgRole = "owner" | "admin" | "member";
+
+export type Organization = {
+  id: string;
+  name: string;
+  slug: string;  // Unique, used in URLs
+  created_by_user_id: string;
+  created_at: string;
+  updated_at: string;
+};
+
+// Organization member record; like collaborators, invited by email and linked to a user on first access
+export type OrganizationMember = {
+  id: number;
+  org_id: string;
+  email: string;
+  user_id: string | null;
+  role: OrgRole;
+  invited_by_user_id: string;
+  created_at: string;
+  accepted_at: string | null;
+};
+
 // Feedback message types for interactive sessions
 export type FeedbackMessageType = "message" | "diff_comment" | "suggested_edit";
 export type FeedbackMessageStatus = "pending" | "delivered" | "approved" | "rejected" | "expired";
@@ -407,27 +220,246 @@ export type Diff = {
   status: DiffStatus; // Whether file was added, removed, or modified
 };
 
+// A commit made during a session (between base_sha and head_sha)
+export type SessionCommit = {
+  id: number;
+  session_id: string;
+  commit_index: number;  // Oldest first
+  sha: string;
+  message: string;
+  author: string | null;
+  committed_at: string | null;
+};
+
+// A file in a diff snapshot: a diffs row without its ids
+export type DiffSnapshotFile = Omit<Diff, "id" | "session_id">;
+
+// The session's diff as it stood after message_index
+export type DiffSnapshot = {
+  id: number;
+  session_id: string;
+  message_index: number;
+  files: DiffSnapshotFile[];
+  files_changed: number;
+  additions: number;
+  deletions: number;
+  created_at: string;
+};
+
+export type DiffSnapshotSummary = Omit<DiffSnapshot, "files">;
+
+// Full-text search types
+export type SearchHitKind = "message" | "diff";
+
+export type SearchHit = {
+  session_id: string;
+  session_title: string;
+  kind: SearchHitKind;
+  message_index: number | null; // Set for message hits, used to jump to the turn
+  filename: string | null; // Set for diff hits
+  snippet: string;
+  highlights: Array<[number, number]>; // [start, end) offsets into snippet
+};
+
+// Persisted runtime state of a browser-initiated (spawned) session.
+// `state` is the serialized registry record, see src/lib/spawned-session-registry.ts
+export type SpawnedSessionState = {
+  id: string;
+  daemon_client_id: string;
+  status: string;
+  state: Record<string, unknown>;
+  updated_at: string;
+};
+
+// Outbound webhooks, see src/lib/webhooks.ts
+export const WEBHOOK_EVENT_TYPES = [
+  "session.created",
+  "session.completed",
+  "diff.updated",
+  "review.generated",
+  "collaborator.added",
+  "permission.pending",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export type Webhook = {
+  id: string;
+  user_id: string | null;
+  client_id: string | null;
+  org_id: string | null; // Organization webhooks get events for the org's sessions; user_id and client_id are null
+  url: string;
+  secret: string; // HMAC key for the X-Openctl-Signature header
+  events: WebhookEventType[];
+  description: string | null;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+// "ping" is sent by the settings page's test button
+export type WebhookDeliveryEvent = WebhookEventType | "ping";
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export type WebhookDelivery = {
+  id: string; // Also sent as X-Openctl-Delivery, stable across retries
+  webhook_id: string;
+  event_type: WebhookDeliveryEvent;
+  session_id: string | null;
+  payload: string; // Request body, JSON
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null; // Set while pending
+  last_attempt_at: string | null;
+  response_status: number | null;
+  response_body: string | null; // Truncated
+  error: string | null;
+  created_at: string;
+};
+
+// Outgoing email, see src/lib/mailer.ts
+export type EmailTemplate = "collaborator_invited" | "collaborator_role_changed" | "collaborator_removed";
+
+// "skipped" when the recipient has unsubscribed
+export type EmailStatus = "sent" | "failed" | "skipped";
+
+export type EmailLogEntry = {
+  id: string;
+  to_email: string;
+  template: EmailTemplate;
+  session_id: string | null;
+  subject: string;
+  status: EmailStatus;
+  message_id: string | null; // Message-ID header, when sent
+  error: string | null;
+  created_at: string;
+};
+
+export type EmailPreferences = {
+  email: string; // Normalized
+  unsubscribe_token: string;
+  unsubscribed_at: string | null;
+  created_at: string;
+};
+
+// Repository view types
+// Repositories are derived from sessions: repo_url when present, project_path otherwise.
+export type TouchedFile = {
+  id: number;
+  session_id: string;
+  filename: string;
+  lines_added: number;
+  lines_removed: number;
+};
+
+export type RepositorySummary = {
+  id: string; // base64url-encoded repo key, see src/lib/repositories.ts
+  repo_url: string | null;
+  project_path: string | null;
+  session_count: number;
+  live_session_count: number;
+  contributor_count: number;
+  lines_added: number;
+  lines_removed: number;
+  last_activity_at: string | null;
+};
+
+export type RepositoryStats = RepositorySummary & {
+  files_changed_count: number;
+  input_tokens: number;
+  output_tokens: number;
+};
+
+export type RepositoryContributor = {
+  user_id: string | null; // null aggregates all anonymous (client-only) sessions
+  session_count: number;
+  lines_added: number;
+  lines_removed: number;
+  input_tokens: number;
+  output_tokens: number;
+};
+
+export type RepositoryFile = {
+  filename: string;
+  session_count: number;
+  lines_added: number;
+  lines_removed: number;
+};
+
+export type RepositoryDetail = {
+  stats: RepositoryStats;
+  contributors: RepositoryContributor[];
+  files: RepositoryFile[];
+  sessions: Session[];
+};
+
 // Code review types
 export type AnnotationType = "suggestion" | "issue" | "praise" | "question";
 
 export type Review = {
   id: number;
   session_id: string;
+  version: number; // 1, 2, ... per session; the highest is the current review
   summary: string;
   model: string | null;
+  prompt_hash: string | null; // Hash of the prompt the review was generated with
   created_at: string;
 };
 
 export type Annotation = {
   id: number;
   review_id: number;
-  diff_id: number;
+  diff_id: number | null; // Null once the diff it was left on is replaced
+  filename: string;
   line_number: number;
+  line_content: string | null; // Text of the line when reviewed (null for older reviews)
   side: "additions" | "deletions";
   annotation_type: AnnotationType;
   content: string;
 };
 
+// Whether an annotation still applies to the current diff
+export type AnnotationOutcome = "open" | "line_removed" | "line_changed";
+
+// An annotation whose line was removed or changed by a later diff
+export type ResolvedAnnotation = Annotation & { outcome: Exclude<AnnotationOutcome, "open"> };
+
+// A review in a session's review history
+export type ReviewVersion = Review & { annotation_count: number };
+
+// A line comment thread left by a person on a session's diff
+export type ReviewThread = {
+  id: number;
+  session_id: string;
+  filename: string;
+  side: "additions" | "deletions";
+  line_number: number;
+  author_user_id: string;
+  resolved_at: string | null;
+  resolved_by_user_id: string | null;
+  created_at: string;
+};
+
+export type ReviewComment = {
+  id: number;
+  thread_id: number;
+  author_user_id: string;
+  content: string;
+  created_at: string;
+};
+
+export type ReviewThreadWithComments = ReviewThread & { comments: ReviewComment[] };
+
+// Display info for a review participant (null when the user can't be looked up)
+export type ReviewAuthor = { name: string | null; email: string | null; imageUrl: string | null } | null;
+
+// A review thread as returned by the API, with author display info
+export type ReviewThreadView = ReviewThread & {
+  comments: Array<ReviewComment & { author: ReviewAuthor }>;
+  resolved_by: ReviewAuthor;
+};
+
 // Analytics types
 
 // Event types
@@ -436,7 +468,8 @@ export type AnalyticsEventType =
   | "session.completed"
   | "message.sent"
   | "diff.updated"
-  | "tool.invoked";
+  | "tool.invoked"
+  | "content.redacted";
 
 // Stat types for daily rollups
 export type StatType =
@@ -455,6 +488,8 @@ export type StatType =
   | "output_tokens"
   | "cache_creation_tokens"
   | "cache_read_tokens"
+  | "content_redacted"
+  | "content_rejected"
   | `tool_${string}`;
 
 // Raw event record
@@ -504,3 +539,9 @@ export type DiffUpdatedProperties = {
 export type ToolInvokedProperties = {
   tool_name: string;
 };
+
+export type ContentRedactedProperties = {
+  source: "upload" | "messages" | "tool_results" | "diff";
+  action: "mask" | "reject";
+  rules: Record<string, number>;
+};
@@ -0,0 +1,81 @@
+import type { Database } from "bun:sqlite";
+import type { RunResult, SqlExecutor, SqlParam, StorageDriver } from "./driver";
+
+class SqliteExecutor implements SqlExecutor {
+  readonly dialect = "sqlite" as const;
+
+  constructor(protected readonly db: Database) {}
+
+  // db.query() caches the compiled statement per SQL string
+  async all<T>(sql: string, params: SqlParam[] = []): Promise<T[]> {
+    return this.db.query(sql).all(...params) as T[];
+  }
+
+  async get<T>(sql: string, params: SqlParam[] = []): Promise<T | null> {
+    return (this.db.query(sql).get(...params) as T | null) ?? null;
+  }
+
+  async run(sql: string, params: SqlParam[] = []): Promise<RunResult> {
+    const result = this.db.query(sql).run(...params);
+    return { changes: result.changes };
+  }
+
+  transaction<T>(fn: (tx: SqlExecutor) => Promise<T>): Promise<T> {
+    return fn(this);
+  }
+}
+
+/**
+ * SQLite driver over a bun:sqlite database (see initializeDatabase).
+ *
+ * There is a single connection, so while a transaction is open every other
+ * statement and transaction waits for it; otherwise statements from concurrent
+ * requests would run inside (and roll back with) someone else's transaction.
+ */
+export class SqliteDriver extends SqliteExecutor implements StorageDriver {
+  private pending: Promise<unknown> = Promise.resolve();
+  private active = false;
+
+  constructor(db: Database) {
+    super(db);
+  }
+
+  override async all<T>(sql: string, params?: SqlParam[]): Promise<T[]> {
+    while (this.active) await this.pending;
+    return super.all<T>(sql, params);
+  }
+
+  override async get<T>(sql: string, params?: SqlParam[]): Promise<T | null> {
+    while (this.active) await this.pending;
+    return super.get<T>(sql, params);
+  }
+
+  override async run(sql: string, params?: SqlParam[]): Promise<RunResult> {
+    while (this.active) await this.pending;
+    return super.run(sql, params);
+  }
+
+  override transaction<T>(fn: (tx: SqlExecutor) => Promise<T>): Promise<T> {
+    const result = this.pending.then(async () => {
+      this.db.run("BEGIN");
+      this.active = true;
+      try {
+        const value = await fn(new SqliteExecutor(this.db));
+        this.db.run("COMMIT");
+        return value;
+      } catch (err) {
+        this.db.run("ROLLBACK");
+        throw err;
+      } finally {
+        this.active = false;
+      }
+    });
+    this.pending = result.catch(() => {});
+    return result;
+  }
+
+  async close(): Promise<void> {
+    await this.pending;
+    this.db.close();
+  }
+}
@@ -0,0 +1,21 @@
+import type { StorageDriver } from "./driver";
+import { runPostgresMigrations } from "./migrate";
+import { connectPostgres } from "./postgres-driver";
+import { initializeDatabase } from "./schema";
+import { SqliteDriver } from "./sqlite-driver";
+
+/**
+ * Open the configured storage and apply pending migrations.
+ *
+ * DATABASE_URL selects Postgres; otherwise sessions are stored in the SQLite
+ * file at DATABASE_PATH (default: data/sessions.db).
+ */
+export async function openStorage(env: Record<string, string | undefined> = process.env): Promise<StorageDriver> {
+  if (env.DATABASE_URL) {
+    const driver = connectPostgres(env.DATABASE_URL);
+    await runPostgresMigrations(driver);
+    return driver;
+  }
+
+  return new SqliteDriver(initializeDatabase(env.DATABASE_PATH || "data/sessions.db"));
+}
@@ -4,6 +4,7 @@ import {
   NotFoundError,
   ValidationError,
   PayloadTooLargeError,
+  ContentRejectedError,
   UnauthorizedError,
   ForbiddenError,
   SessionNotLiveError,
@@ -41,6 +42,8 @@ export function errorToResponse(error: ApiRouteError): Response {
     NotFoundError: (e) => jsonError(`${capitalize(e.resource)} not found`, 404),
     ValidationError: (e) => jsonError(`${e.field}: ${e.message}`, 400),
     PayloadTooLargeError: (e) => jsonError(`Payload too large (max ${formatBytes(e.maxBytes)})`, 413),
+    ContentRejectedError: (e) =>
+      json({ error: "Content rejected by redaction policy", rules: e.rules }, 422),
     InvalidUrlError: (e) => jsonError(`Invalid URL: ${e.reason}`, 400),
     UnauthorizedError: () => jsonError("Unauthorized", 401),
     ForbiddenError: () => jsonError("Forbidden", 403),
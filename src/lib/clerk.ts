@@ -81,3 +81,17 @@ export async function getUserDisplayInfo(userId: string): Promise<{
     imageUrl: info.imageUrl,
   };
 }
+
+/**
+ * Get the user's GitHub OAuth access token, when they signed in with GitHub.
+ * Lookup failures are thrown rather than treated as "no token", so callers
+ * don't cache a transient error as a denial.
+ */
+export async function getGitHubAccessToken(userId: string): Promise<string | null> {
+  if (!clerkClient) {
+    return null;
+  }
+
+  const { data } = await clerkClient.users.getUserOauthAccessToken(userId, 'github');
+  return data[0]?.token ?? null;
+}
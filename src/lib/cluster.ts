@@ -0,0 +1,121 @@
+/**
+ * Message bus between server replicas.
+ *
+ * Browsers and daemons can be connected to different instances, so anything
+ * one instance does for a session has to reach the others:
+ * - session:<id>       browser broadcasts for a session (see broadcastToSession)
+ * - daemon:<clientId>  messages for a daemon connected to another instance
+ * - daemon-presence    daemons connecting to / leaving an instance
+ * - spawned-sessions   spawned session registry changes
+ *
+ * Which instance each daemon is connected to is kept in the shared "daemons"
+ * hash so instances that start later can route to it. Reviews waiting on a
+ * daemon are kept in the shared "review-requests" hash. Every message carries
+ * the sending instance's ID, and instances ignore their own messages (they
+ * have already handled them locally).
+ */
+
+import { InProcessPubSub, type PubSub, type PubSubHandler } from "./pubsub";
+
+export const sessionChannel = (sessionId: string) => `session:${sessionId}`;
+export const daemonChannel = (clientId: string) => `daemon:${clientId}`;
+export const DAEMON_PRESENCE_CHANNEL = "daemon-presence";
+export const SPAWNED_SESSIONS_CHANNEL = "spawned-sessions";
+
+/** Shared hash of daemon client ID -> DaemonAffinity JSON */
+export const DAEMONS_KEY = "daemons";
+/** Shared hash of session ID -> PendingReview JSON (see review-requests.ts) */
+export const REVIEW_REQUESTS_KEY = "review-requests";
+
+interface Envelope {
+  origin: string;
+  payload: unknown;
+}
+
+export type ClusterHandler = (payload: unknown) => void;
+
+export class ClusterBus {
+  private pubsub: PubSub = new InProcessPubSub();
+  // Wrapped handlers, so unsubscribe can find what was passed to the pub/sub
+  private handlers = new Map<string, Map<ClusterHandler, PubSubHandler>>();
+
+  constructor(public instanceId: string = process.env.INSTANCE_ID || crypto.randomUUID()) {}
+
+  /**
+   * Switch to `pubsub` (e.g. Redis). Call before anything subscribes.
+   */
+  start(pubsub: PubSub, instanceId: string = this.instanceId): void {
+    this.pubsub = pubsub;
+    this.instanceId = instanceId;
+  }
+
+  async stop(): Promise<void> {
+    this.handlers.clear();
+    await this.pubsub.close();
+    this.pubsub = new InProcessPubSub();
+  }
+
+  /**
+   * Publish to the other instances. Failures are logged, not thrown:
+   * local delivery has already happened by the time anything is published.
+   */
+  publish(channel: string, payload: unknown): void {
+    const envelope: Envelope = { origin: this.instanceId, payload };
+    this.pubsub.publish(channel, JSON.stringify(envelope)).catch((error) => {
+      console.error(`[cluster] Failed to publish to ${channel}:`, error);
+    });
+  }
+
+  subscribe(channel: string, handler: ClusterHandler): Promise<void> {
+    const wrapped: PubSubHandler = (message) => {
+      const envelope = JSON.parse(message) as Envelope;
+      if (envelope.origin !== this.instanceId) {
+        handler(envelope.payload);
+      }
+    };
+
+    if (!this.handlers.has(channel)) {
+      this.handlers.set(channel, new Map());
+    }
+    this.handlers.get(channel)!.set(handler, wrapped);
+
+    return this.pubsub.subscribe(channel, wrapped).catch((error) => {
+      console.error(`[cluster] Failed to subscribe to ${channel}:`, error);
+    });
+  }
+
+  unsubscribe(channel: string, handler: ClusterHandler): Promise<void> {
+    const channelHandlers = this.handlers.get(channel);
+    const wrapped = channelHandlers?.get(handler);
+    if (!channelHandlers || !wrapped) return Promise.resolve();
+
+    channelHandlers.delete(handler);
+    if (channelHandlers.size === 0) {
+      this.handlers.delete(channel);
+    }
+
+    return this.pubsub.unsubscribe(channel, wrapped).catch((error) => {
+      console.error(`[cluster] Failed to unsubscribe from ${channel}:`, error);
+    });
+  }
+
+  // Shared state
+
+  setShared(key: string, field: string, value: string): Promise<void> {
+    return this.pubsub.hset(key, field, value);
+  }
+
+  getShared(key: string, field: string): Promise<string | null> {
+    return this.pubsub.hget(key, field);
+  }
+
+  deleteShared(key: string, field: string): Promise<void> {
+    return this.pubsub.hdel(key, field);
+  }
+
+  getAllShared(key: string): Promise<Record<string, string>> {
+    return this.pubsub.hgetall(key);
+  }
+}
+
+export const cluster = new ClusterBus();
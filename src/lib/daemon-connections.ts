@@ -3,15 +3,28 @@
  *
  * Manages connected daemon WebSocket connections and provides
  * methods to communicate with daemons.
+ *
+ * With several server replicas a daemon is connected to only one of them.
+ * Each instance also tracks the daemons connected elsewhere (from the shared
+ * "daemons" hash and presence messages) and forwards messages for them over
+ * the cluster bus; see cluster.ts.
  */
 
 import type { ServerWebSocket } from "bun";
 import type {
+  ActiveSpawnedSession,
   ServerToDaemonMessage,
   SpawnableHarnessInfo,
 } from "../types/daemon-ws";
 import { spawnedSessionRegistry } from "./spawned-session-registry";
 import { broadcastToSession } from "../routes/api";
+import {
+  cluster,
+  daemonChannel,
+  DAEMON_PRESENCE_CHANNEL,
+  DAEMONS_KEY,
+  type ClusterHandler,
+} from "./cluster";
 
 // Maximum concurrent spawned sessions per daemon
 const MAX_CONCURRENT_SESSIONS_PER_DAEMON = 3;
@@ -21,25 +34,169 @@ export interface DaemonWebSocketData {
   clientId?: string;
 }
 
-export interface ConnectedDaemon {
+export interface DaemonInfo {
   clientId: string;
-  ws: ServerWebSocket<DaemonWebSocketData>;
   connectedAt: Date;
   capabilities: {
     can_spawn_sessions: boolean;
     spawnable_harnesses: SpawnableHarnessInfo[];
+    can_run_reviews?: boolean;
   };
   activeSpawnedSessions: Set<string>;
 }
 
+/** A daemon connected to this instance */
+export interface ConnectedDaemon extends DaemonInfo {
+  ws: ServerWebSocket<DaemonWebSocketData>;
+}
+
+/** Where a daemon is connected, as stored in the shared "daemons" hash */
+interface DaemonAffinity {
+  instance_id: string;
+  connected_at: string;
+  capabilities: DaemonInfo["capabilities"];
+}
+
+/** Published when a daemon connects to (affinity set) or leaves (affinity null) an instance */
+interface DaemonPresence {
+  client_id: string;
+  instance_id: string;
+  affinity: DaemonAffinity | null;
+}
+
 class DaemonConnectionManager {
   private daemons = new Map<string, ConnectedDaemon>();
+  // Daemons connected to other instances
+  private remoteDaemons = new Map<string, DaemonAffinity>();
+  // Cluster subscriptions for messages routed to local daemons
+  private routeHandlers = new Map<string, ClusterHandler>();
+  private presenceHandler: ClusterHandler | null = null;
+
+  /**
+   * Start tracking daemons connected to other instances.
+   */
+  async joinCluster(): Promise<void> {
+    if (this.presenceHandler) return;
+
+    this.presenceHandler = (payload) => this.handlePresence(payload as DaemonPresence);
+    await cluster.subscribe(DAEMON_PRESENCE_CHANNEL, this.presenceHandler);
+
+    for (const [clientId, value] of Object.entries(await cluster.getAllShared(DAEMONS_KEY))) {
+      const affinity = JSON.parse(value) as DaemonAffinity;
+      if (affinity.instance_id === cluster.instanceId) {
+        // Left over from before this instance restarted
+        await cluster.deleteShared(DAEMONS_KEY, clientId);
+      } else if (!this.daemons.has(clientId)) {
+        this.remoteDaemons.set(clientId, affinity);
+      }
+    }
+  }
+
+  /**
+   * Tell other instances this instance's daemons are gone (graceful shutdown).
+   */
+  async leaveCluster(): Promise<void> {
+    await Promise.all(Array.from(this.daemons.keys(), (clientId) => this.withdraw(clientId)));
+  }
+
+  private handlePresence(presence: DaemonPresence): void {
+    const clientId = presence.client_id;
+
+    if (presence.affinity) {
+      // The daemon reconnected to another instance, so a connection here is stale
+      const local = this.daemons.get(clientId);
+      if (local) {
+        console.log(`[daemon-mgr] ${clientId} moved to instance ${presence.instance_id}`);
+        this.daemons.delete(clientId);
+        this.stopRouting(clientId);
+        try {
+          local.ws.close();
+        } catch {
+          // Ignore close errors
+        }
+      }
+      this.remoteDaemons.set(clientId, presence.affinity);
+    } else if (this.remoteDaemons.get(clientId)?.instance_id === presence.instance_id) {
+      this.remoteDaemons.delete(clientId);
+    }
+  }
+
+  /**
+   * Record that a daemon is connected here and route its messages from other instances to it.
+   */
+  private announce(daemon: ConnectedDaemon): void {
+    const clientId = daemon.clientId;
+    const affinity: DaemonAffinity = {
+      instance_id: cluster.instanceId,
+      connected_at: daemon.connectedAt.toISOString(),
+      capabilities: daemon.capabilities,
+    };
+
+    this.remoteDaemons.delete(clientId);
+    cluster.setShared(DAEMONS_KEY, clientId, JSON.stringify(affinity)).catch((error) => {
+      console.error(`[daemon-mgr] Failed to record affinity for ${clientId}:`, error);
+    });
+    cluster.publish(DAEMON_PRESENCE_CHANNEL, {
+      client_id: clientId,
+      instance_id: cluster.instanceId,
+      affinity,
+    } satisfies DaemonPresence);
+
+    if (!this.routeHandlers.has(clientId)) {
+      const handler: ClusterHandler = (payload) => this.deliverRouted(clientId, payload as ServerToDaemonMessage);
+      this.routeHandlers.set(clientId, handler);
+      cluster.subscribe(daemonChannel(clientId), handler);
+    }
+  }
+
+  private async withdraw(clientId: string): Promise<void> {
+    this.stopRouting(clientId);
+    cluster.publish(DAEMON_PRESENCE_CHANNEL, {
+      client_id: clientId,
+      instance_id: cluster.instanceId,
+      affinity: null,
+    } satisfies DaemonPresence);
+
+    try {
+      // Leave the entry alone if the daemon has already reconnected to another instance
+      const current = await cluster.getShared(DAEMONS_KEY, clientId);
+      if (current && (JSON.parse(current) as DaemonAffinity).instance_id === cluster.instanceId) {
+        await cluster.deleteShared(DAEMONS_KEY, clientId);
+      }
+    } catch (error) {
+      console.error(`[daemon-mgr] Failed to clear affinity for ${clientId}:`, error);
+    }
+  }
+
+  private stopRouting(clientId: string): void {
+    const handler = this.routeHandlers.get(clientId);
+    if (handler) {
+      this.routeHandlers.delete(clientId);
+      cluster.unsubscribe(daemonChannel(clientId), handler);
+    }
+  }
+
+  /**
+   * Deliver a message another instance sent to a daemon connected here.
+   */
+  private deliverRouted(clientId: string, message: ServerToDaemonMessage): void {
+    // Sessions spawned through another instance count against this daemon's limit too
+    if (message.type === "start_session") {
+      this.daemons.get(clientId)?.activeSpawnedSessions.add(message.session_id);
+    }
+    this.sendToDaemon(clientId, message);
+  }
 
+  /**
+   * Track a newly connected daemon and reattach the sessions it reports as still running.
+   * Returns the IDs of the reattached sessions.
+   */
   addDaemon(
     clientId: string,
     ws: ServerWebSocket<DaemonWebSocketData>,
-    capabilities: ConnectedDaemon["capabilities"]
-  ): void {
+    capabilities: ConnectedDaemon["capabilities"],
+    activeSessions: ActiveSpawnedSession[] = []
+  ): string[] {
     // If there's an existing connection with same clientId, close it
     const existing = this.daemons.get(clientId);
     if (existing) {
@@ -51,19 +208,62 @@ class DaemonConnectionManager {
       }
     }
 
-    this.daemons.set(clientId, {
+    const daemon: ConnectedDaemon = {
       clientId,
       ws,
       connectedAt: new Date(),
       capabilities,
       activeSpawnedSessions: new Set(),
-    });
+    };
+    this.daemons.set(clientId, daemon);
+    this.announce(daemon);
 
     console.log(`[daemon-mgr] Daemon connected: ${clientId}`);
+
+    return activeSessions
+      .filter((announced) => this.reattachSession(clientId, announced))
+      .map((announced) => announced.session_id);
+  }
+
+  /**
+   * Point a known session at the daemon that re-announced it (after a daemon
+   * reconnect or a server restart) and tell browsers it is back.
+   */
+  private reattachSession(clientId: string, announced: ActiveSpawnedSession): boolean {
+    const sessionId = announced.session_id;
+    const session = spawnedSessionRegistry.getSession(sessionId);
+    if (!session || session.status === "ended" || session.status === "failed") {
+      console.warn(`[daemon-mgr] Ignoring re-announced session ${sessionId}: not active on this server`);
+      return false;
+    }
+
+    spawnedSessionRegistry.updateSession(sessionId, {
+      daemonClientId: clientId,
+      status: announced.state,
+      claudeSessionId: announced.claude_session_id ?? session.claudeSessionId,
+      error: undefined,
+      recoveryInfo: undefined,
+    });
+    this.daemons.get(clientId)?.activeSpawnedSessions.add(sessionId);
+
+    broadcastToSession(sessionId, {
+      type: "daemon_reconnected",
+      session_id: sessionId,
+      status: announced.state,
+    });
+
+    console.log(`[daemon-mgr] Session ${sessionId} reattached to ${clientId}`);
+    return true;
   }
 
-  removeDaemon(clientId: string): void {
+  /**
+   * Forget a daemon whose connection closed. Passing the closed `ws` makes this a
+   * no-op when the daemon has since reconnected on a new connection.
+   */
+  removeDaemon(clientId: string, ws?: ServerWebSocket<DaemonWebSocketData>): void {
     const daemon = this.daemons.get(clientId);
+    if (ws && daemon?.ws !== ws) return;
+
     if (daemon) {
       // Mark all active spawned sessions as disconnected and preserve recovery info
       for (const sessionId of daemon.activeSpawnedSessions) {
@@ -97,18 +297,64 @@ class DaemonConnectionManager {
     }
 
     this.daemons.delete(clientId);
+    if (daemon) {
+      this.withdraw(clientId);
+    }
     console.log(`[daemon-mgr] Daemon disconnected: ${clientId}`);
   }
 
+  /**
+   * Get a daemon connected to this instance.
+   */
   getDaemon(clientId: string): ConnectedDaemon | undefined {
     return this.daemons.get(clientId);
   }
 
-  getAnyConnectedDaemon(): ConnectedDaemon | undefined {
+  /**
+   * Whether a daemon is connected to this or any other instance.
+   */
+  isConnected(clientId: string): boolean {
+    return this.daemons.has(clientId) || this.remoteDaemons.has(clientId);
+  }
+
+  /**
+   * Describe a daemon connected to another instance. Its sessions are counted
+   * from the (replicated) registry.
+   */
+  private remoteInfo(clientId: string, affinity: DaemonAffinity): DaemonInfo {
+    const active = spawnedSessionRegistry
+      .getSessionsByDaemon(clientId)
+      .filter((s) => s.status !== "ended" && s.status !== "failed" && s.status !== "disconnected");
+
+    return {
+      clientId,
+      connectedAt: new Date(affinity.connected_at),
+      capabilities: affinity.capabilities,
+      activeSpawnedSessions: new Set(active.map((s) => s.id)),
+    };
+  }
+
+  private findDaemon(clientId: string): DaemonInfo | undefined {
+    const affinity = this.remoteDaemons.get(clientId);
+    return this.daemons.get(clientId) ?? (affinity && this.remoteInfo(clientId, affinity));
+  }
+
+  getAnyConnectedDaemon(): DaemonInfo | undefined {
     // Return the first connected daemon (for single-user scenarios)
     // In multi-user scenarios, you'd match based on user ownership
-    for (const daemon of this.daemons.values()) {
-      return daemon;
+    return this.getAllConnected()[0];
+  }
+
+  /**
+   * A connected daemon that can run reviews, picked from `clientIds` in order
+   * of preference. Daemons outside the list are never used, since they may
+   * belong to other users.
+   */
+  getReviewDaemon(clientIds: string[]): DaemonInfo | undefined {
+    const reviewers = this.getAllConnected().filter((d) => d.capabilities.can_run_reviews);
+    for (const clientId of clientIds) {
+      const daemon = reviewers.find((d) => d.clientId === clientId);
+      if (daemon) return daemon;
     }
     return undefined;
   }
@@ -116,6 +362,10 @@ class DaemonConnectionManager {
   sendToDaemon(clientId: string, message: ServerToDaemonMessage): boolean {
     const daemon = this.daemons.get(clientId);
     if (!daemon) {
+      if (this.remoteDaemons.has(clientId)) {
+        cluster.publish(daemonChannel(clientId), message);
+        return true;
+      }
       console.error(`[daemon-mgr] Cannot send to ${clientId}: not connected`);
       return false;
     }
@@ -146,8 +396,12 @@ class DaemonConnectionManager {
     };
   }
 
-  getAllConnected(): ConnectedDaemon[] {
-    return Array.from(this.daemons.values());
+  /**
+   * All connected daemons, those connected to this instance first.
+   */
+  getAllConnected(): DaemonInfo[] {
+    const remote = Array.from(this.remoteDaemons, ([clientId, affinity]) => this.remoteInfo(clientId, affinity));
+    return [...this.daemons.values(), ...remote];
   }
 
   /**
@@ -155,8 +409,9 @@ class DaemonConnectionManager {
    * Returns true if registration succeeded, false if limit exceeded.
    */
   registerSpawnedSession(clientId: string, sessionId: string): boolean {
-    const daemon = this.daemons.get(clientId);
+    const daemon = this.findDaemon(clientId);
     if (!daemon) return false;
+    if (daemon.activeSpawnedSessions.has(sessionId)) return true;
 
     // Check concurrent session limit
     if (daemon.activeSpawnedSessions.size >= MAX_CONCURRENT_SESSIONS_PER_DAEMON) {
@@ -180,7 +435,7 @@ class DaemonConnectionManager {
    * Returns true if under limit, false if at or over limit.
    */
   canAcceptSession(clientId: string): boolean {
-    const daemon = this.daemons.get(clientId);
+    const daemon = this.findDaemon(clientId);
     if (!daemon) return false;
     return daemon.activeSpawnedSessions.size < MAX_CONCURRENT_SESSIONS_PER_DAEMON;
   }
@@ -204,6 +459,14 @@ class DaemonConnectionManager {
       }
     }
     this.daemons.clear();
+    this.remoteDaemons.clear();
+    for (const clientId of Array.from(this.routeHandlers.keys())) {
+      this.stopRouting(clientId);
+    }
+    if (this.presenceHandler) {
+      cluster.unsubscribe(DAEMON_PRESENCE_CHANNEL, this.presenceHandler);
+      this.presenceHandler = null;
+    }
   }
 }
 
@@ -0,0 +1,63 @@
+/**
+ * Diff snapshot comparison.
+ *
+ * Each snapshot is the session's diff against its base commit after some
+ * message. Comparing two snapshots shows which files the turns in between
+ * touched: files that started differing from the base, files whose diff
+ * changed, and files that went back to matching the base.
+ */
+
+import type { DiffSnapshotFile } from "../db/schema";
+
+export type SnapshotFileChangeType = "added" | "modified" | "reverted";
+
+export interface SnapshotFileChange {
+  filename: string;
+  change: SnapshotFileChangeType;
+  /** The file's diff in the earlier snapshot (null when added) */
+  before: DiffSnapshotFile | null;
+  /** The file's diff in the later snapshot (null when reverted) */
+  after: DiffSnapshotFile | null;
+  /** Change in added and deleted line counts between the snapshots */
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * List the files whose diff differs between two snapshots, in the later
+ * snapshot's order followed by reverted files.
+ */
+export function compareSnapshots(from: DiffSnapshotFile[], to: DiffSnapshotFile[]): SnapshotFileChange[] {
+  const key = (file: DiffSnapshotFile) => file.filename ?? "";
+  const before = new Map(from.map((file) => [key(file), file]));
+  const changes: SnapshotFileChange[] = [];
+
+  for (const file of to) {
+    const previous = before.get(key(file)) ?? null;
+    before.delete(key(file));
+    if (previous && previous.diff_content === file.diff_content) {
+      continue;
+    }
+    changes.push({
+      filename: key(file),
+      change: previous ? "modified" : "added",
+      before: previous,
+      after: file,
+      additions: file.additions - (previous?.additions ?? 0),
+      deletions: file.deletions - (previous?.deletions ?? 0),
+    });
+  }
+
+  for (const [filename, file] of before) {
+    changes.push({
+      filename,
+      change: "reverted",
+      before: file,
+      after: null,
+      additions: 0 - file.additions,
+      deletions: 0 - file.deletions,
+    });
+  }
+
+  return changes;
+}
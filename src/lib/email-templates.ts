@@ -0,0 +1,96 @@
+/**
+ * Email templates for session sharing (see specs/session_sharing.md).
+ * Each renders a subject plus text and HTML bodies.
+ */
+
+import type { CollaboratorRole } from "../db/schema";
+import { escapeHtml } from "../views/layout";
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface SharingEmailContext {
+  sessionTitle: string;
+  sessionUrl: string;
+  /** Who made the change; falls back to "Someone" */
+  actorName: string | null;
+  recipientEmail: string;
+  unsubscribeUrl: string;
+}
+
+export type SharingEmailData =
+  | { template: "collaborator_invited"; role: CollaboratorRole }
+  | { template: "collaborator_role_changed"; oldRole: CollaboratorRole; newRole: CollaboratorRole }
+  | { template: "collaborator_removed" };
+
+function footer(ctx: SharingEmailContext, reason: string): { text: string; html: string } {
+  return {
+    text: `---\n${reason}\nUnsubscribe from sharing emails: ${ctx.unsubscribeUrl}`,
+    html: `<hr style="border:none;border-top:1px solid #e4e4e7;margin:24px 0">
+<p style="color:#71717a;font-size:12px">${escapeHtml(reason)}<br><a href="${escapeHtml(ctx.unsubscribeUrl)}" style="color:#71717a">Unsubscribe from sharing emails</a></p>`,
+  };
+}
+
+function htmlBody(paragraphs: string[], foot: string): string {
+  return `<!DOCTYPE html>
+<html>
+<body style="font-family:system-ui,-apple-system,sans-serif;color:#18181b;line-height:1.5">
+${paragraphs.map((p) => `<p>${p}</p>`).join("\n")}
+${foot}
+</body>
+</html>`;
+}
+
+export function renderSharingEmail(ctx: SharingEmailContext, data: SharingEmailData): RenderedEmail {
+  const actor = ctx.actorName || "Someone";
+  const title = ctx.sessionTitle;
+  const link = `<a href="${escapeHtml(ctx.sessionUrl)}">View session</a>`;
+
+  switch (data.template) {
+    case "collaborator_invited": {
+      const foot = footer(ctx, `You're receiving this because ${ctx.recipientEmail} was added as a ${data.role} on this session.`);
+      return {
+        subject: `${actor} shared a session with you on openctl`,
+        text: `${actor} shared a session with you.\n\n"${title}"\n\nView session: ${ctx.sessionUrl}\n\n${foot.text}\n`,
+        html: htmlBody(
+          [`${escapeHtml(actor)} shared a session with you.`, `<strong>${escapeHtml(title)}</strong>`, link],
+          foot.html
+        ),
+      };
+    }
+
+    case "collaborator_role_changed": {
+      const foot = footer(ctx, `You're receiving this because ${ctx.recipientEmail} is a collaborator on this session.`);
+      return {
+        subject: `Your access to a session on openctl changed`,
+        text: `${actor} changed your role on "${title}" from ${data.oldRole} to ${data.newRole}.\n\nView session: ${ctx.sessionUrl}\n\n${foot.text}\n`,
+        html: htmlBody(
+          [
+            `${escapeHtml(actor)} changed your role on <strong>${escapeHtml(title)}</strong> from ${data.oldRole} to ${data.newRole}.`,
+            link,
+          ],
+          foot.html
+        ),
+      };
+    }
+
+    case "collaborator_removed": {
+      const foot = footer(ctx, `You're receiving this because ${ctx.recipientEmail} was a collaborator on this session.`);
+      return {
+        subject: `You've been removed from a session on openctl`,
+        text: `You no longer have access to "${title}".\n\nIf you believe this was a mistake, contact the session owner.\n\n${foot.text}\n`,
+        html: htmlBody(
+          [
+            `You no longer have access to <strong>${escapeHtml(title)}</strong>.`,
+            "If you believe this was a mistake, contact the session owner.",
+          ],
+          foot.html
+        ),
+      };
+    }
+  }
+}
+
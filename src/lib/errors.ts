@@ -8,7 +8,7 @@ import { TaggedError, matchError } from "better-result";
  * Resource not found in database
  */
 export class NotFoundError extends TaggedError("NotFoundError")<{
-  resource: "session" | "message" | "diff" | "review" | "annotation" | "feedback";
+  resource: "session" | "message" | "diff" | "review" | "annotation" | "feedback" | "repository" | "webhook" | "organization";
   id: string;
 }>() {}
 
@@ -51,6 +51,13 @@ export class PayloadTooLargeError extends TaggedError("PayloadTooLargeError")<{
   actualBytes?: number;
 }>() {}
 
+/**
+ * Content matched a server redaction policy rule that rejects rather than masks
+ */
+export class ContentRejectedError extends TaggedError("ContentRejectedError")<{
+  rules: string[];
+}>() {}
+
 /**
  * Invalid URL format
  */
@@ -155,6 +162,7 @@ export type ApiRouteError =
   | DbError
   | ValidationError
   | PayloadTooLargeError
+  | ContentRejectedError
   | InvalidUrlError
   | UnauthorizedError
   | ForbiddenError
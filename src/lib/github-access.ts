@@ -0,0 +1,194 @@
+/**
+ * Repository-based access control for sessions tied to GitHub repositories.
+ *
+ * When enabled, anyone who can read a session's GitHub repository can view
+ * the session (read-only), in addition to the owner, collaborators and
+ * organization members. Permissions are looked up through a provider and
+ * cached per user and repository, so page loads don't each hit the GitHub API.
+ *
+ * The built-in provider uses the user's GitHub OAuth token from their sign-in
+ * (GITHUB_REPO_ACCESS=oauth). GitHub answers 404 for private repositories the
+ * token can't see, so a successful lookup means read access. Public repositories
+ * never grant access: anyone can read them, which says nothing about who should
+ * see a private session.
+ */
+
+export interface GitHubRepo {
+  owner: string;
+  name: string;
+}
+
+export interface GitHubAccessProvider {
+  /**
+   * Whether the user can read the repository. Throws when it can't be
+   * determined (e.g. the GitHub API is unavailable).
+   */
+  canRead(userId: string, repo: GitHubRepo): Promise<boolean>;
+}
+
+export interface GitHubOAuthProviderOptions {
+  /** The user's GitHub OAuth token, or null when they haven't connected GitHub */
+  getToken: (userId: string) => Promise<string | null>;
+  /** GitHub API base URL, for GitHub Enterprise Server */
+  apiUrl?: string;
+  fetch?: (url: string, init: RequestInit) => Promise<Response>;
+}
+
+export interface GitHubRepoAccessOptions {
+  /** How long answers are cached */
+  ttlMs?: number;
+  now?: () => number;
+}
+
+const DEFAULT_API_URL = "https://api.github.com";
+const DEFAULT_TTL_SECONDS = 5 * 60;
+const MAX_CACHE_ENTRIES = 10_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Parse a GitHub remote URL (https, ssh or scp-style) into owner and name.
+ * Returns null for other hosts.
+ */
+export function parseGitHubRepoUrl(repoUrl: string): GitHubRepo | null {
+  const match = repoUrl
+    .trim()
+    .match(/^(?:https?:\/\/(?:[^@/]+@)?|ssh:\/\/git@|git@)github\.com[/:]([A-Za-z0-9_.-]+)\/([A-Za-z0-9_.-]+?)(?:\.git)?\/?$/i);
+  if (!match) return null;
+  return { owner: match[1]!, name: match[2]! };
+}
+
+export class GitHubOAuthProvider implements GitHubAccessProvider {
+  private readonly apiUrl: string;
+  private readonly fetch: (url: string, init: RequestInit) => Promise<Response>;
+
+  constructor(private readonly options: GitHubOAuthProviderOptions) {
+    this.apiUrl = (options.apiUrl ?? DEFAULT_API_URL).replace(/\/$/, "");
+    this.fetch = options.fetch ?? fetch;
+  }
+
+  async canRead(userId: string, repo: GitHubRepo): Promise<boolean> {
+    const token = await this.options.getToken(userId);
+    if (!token) return false;
+
+    const res = await this.fetch(
+      `${this.apiUrl}/repos/${encodeURIComponent(repo.owner)}/${encodeURIComponent(repo.name)}`,
+      {
+        headers: {
+          Accept: "application/vnd.github+json",
+          Authorization: `Bearer ${token}`,
+          "X-GitHub-Api-Version": "2022-11-28",
+          "User-Agent": "openctl",
+        },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      }
+    );
+
+    // Revoked tokens, SSO-restricted orgs and repositories the token can't see
+    if (res.status === 401 || res.status === 403 || res.status === 404) {
+      return false;
+    }
+    if (!res.ok) {
+      throw new Error(`GitHub API returned ${res.status} for ${repo.owner}/${repo.name}`);
+    }
+
+    const body = (await res.json()) as { private?: boolean; permissions?: { pull?: boolean } };
+    if (body.private === false) {
+      return false;
+    }
+    return body.permissions?.pull !== false;
+  }
+}
+
+/**
+ * Cached repository permission checks in front of a provider.
+ */
+export class GitHubRepoAccess {
+  private readonly ttlMs: number;
+  private readonly now: () => number;
+  private cache = new Map<string, { allowed: boolean; expires: number }>();
+  private pending = new Map<string, Promise<boolean>>();
+
+  constructor(
+    private readonly provider: GitHubAccessProvider,
+    options: GitHubRepoAccessOptions = {}
+  ) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_SECONDS * 1000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Whether the user can read the repository at `repoUrl`. Anonymous callers,
+   * repositories outside GitHub and provider errors all deny; errors aren't
+   * cached, so the next request tries again. Concurrent checks for the same
+   * user and repository share one provider lookup.
+   */
+  async canRead(userId: string | null, repoUrl: string): Promise<boolean> {
+    if (!userId) return false;
+    const repo = parseGitHubRepoUrl(repoUrl);
+    if (!repo) return false;
+
+    const key = `${userId}:${repo.owner}/${repo.name}`.toLowerCase();
+    const cached = this.cache.get(key);
+    if (cached && cached.expires > this.now()) {
+      return cached.allowed;
+    }
+
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = this.lookup(userId, repo, key).finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async lookup(userId: string, repo: GitHubRepo, key: string): Promise<boolean> {
+    let allowed: boolean;
+    try {
+      allowed = await this.provider.canRead(userId, repo);
+    } catch (error) {
+      console.error(`[github] Failed to check access to ${repo.owner}/${repo.name}:`, error);
+      return false;
+    }
+
+    // Map keeps insertion order, so the first key is the oldest entry
+    this.cache.delete(key);
+    if (this.cache.size >= MAX_CACHE_ENTRIES) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    this.cache.set(key, { allowed, expires: this.now() + this.ttlMs });
+    return allowed;
+  }
+
+  /**
+   * A repository check bound to one user, for SessionRepository access checks.
+   */
+  checkFor(userId: string | null): (repoUrl: string) => Promise<boolean> {
+    return (repoUrl) => this.canRead(userId, repoUrl);
+  }
+}
+
+/**
+ * Create repository access checks from the environment (GITHUB_REPO_ACCESS,
+ * GITHUB_REPO_ACCESS_TTL, GITHUB_API_URL). Returns null when the mode is off;
+ * throws when the configuration is invalid.
+ */
+export function createGitHubRepoAccess(
+  getToken: (userId: string) => Promise<string | null>,
+  env: Record<string, string | undefined> = process.env
+): GitHubRepoAccess | null {
+  const mode = env.GITHUB_REPO_ACCESS;
+  if (!mode || mode === "off") return null;
+  if (mode !== "oauth") {
+    throw new Error(`Invalid GITHUB_REPO_ACCESS: ${mode} (expected "oauth" or "off")`);
+  }
+
+  const ttlSeconds = env.GITHUB_REPO_ACCESS_TTL ? Number(env.GITHUB_REPO_ACCESS_TTL) : DEFAULT_TTL_SECONDS;
+  if (!Number.isFinite(ttlSeconds) || ttlSeconds < 0) {
+    throw new Error(`Invalid GITHUB_REPO_ACCESS_TTL: ${env.GITHUB_REPO_ACCESS_TTL}`);
+  }
+
+  return new GitHubRepoAccess(
+    new GitHubOAuthProvider({ getToken, apiUrl: env.GITHUB_API_URL || undefined }),
+    { ttlMs: ttlSeconds * 1000 }
+  );
+}
@@ -0,0 +1,183 @@
+/**
+ * Outgoing email for session sharing.
+ *
+ * Renders the sharing templates, skips addresses that have unsubscribed, sends
+ * through the configured transport and writes every outcome to the email log,
+ * so delivery failures can be looked up later. Sending happens in the
+ * background; a failure never fails the request that triggered it.
+ * Invitations are throttled per inviting user.
+ *
+ * Every address gets an unsubscribe token on its first email. Messages link to
+ * the unsubscribe page and carry List-Unsubscribe headers for one-click
+ * unsubscribing (RFC 8058).
+ */
+
+import { randomBytes } from "crypto";
+import type { SessionRepository } from "../db/repository";
+import type { CollaboratorRole, EmailStatus } from "../db/schema";
+import { normalizeEmail } from "./email";
+import { invitationEmailLimiter, type RateLimiter } from "./rate-limiter";
+import { renderSharingEmail, type SharingEmailData } from "./email-templates";
+import { SmtpTransport, parseSmtpUrl, type MailTransport } from "./smtp";
+
+export interface MailerOptions {
+  transport: MailTransport;
+  /** From header, e.g. "openctl <noreply@example.com>" */
+  from: string;
+  /** Public URL of the server, for links in emails */
+  baseUrl: string;
+  /** Limits invitations per inviting user; defaults to the shared limiter */
+  inviteLimiter?: RateLimiter;
+}
+
+export interface SharingEmail {
+  sessionId: string;
+  sessionTitle: string;
+  to: string;
+  actorUserId: string;
+  actorName: string | null;
+}
+
+const MAX_ERROR_LENGTH = 1000;
+
+/**
+ * Create a mailer from the environment (SMTP_URL, MAIL_FROM, PUBLIC_URL).
+ * Returns null when SMTP_URL isn't set; throws when the configuration is invalid.
+ */
+export function createMailer(
+  repo: SessionRepository,
+  env: Record<string, string | undefined> = process.env
+): Mailer | null {
+  const smtpUrl = env.SMTP_URL;
+  if (!smtpUrl) return null;
+
+  const from = env.MAIL_FROM;
+  const baseUrl = env.PUBLIC_URL?.replace(/\/$/, "");
+  if (!from || !baseUrl) {
+    throw new Error("SMTP_URL requires MAIL_FROM and PUBLIC_URL");
+  }
+
+  return new Mailer(repo, { transport: new SmtpTransport(parseSmtpUrl(smtpUrl)), from, baseUrl });
+}
+
+export function generateUnsubscribeToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+// Time-ordered, so log entries created in the same second still sort by creation
+function generateEmailId(): string {
+  const timestamp = Date.now().toString(36);
+  const randomPart = crypto.randomUUID().replace(/-/g, "").substring(0, 8);
+  return `em_${timestamp}_${randomPart}`;
+}
+
+export class Mailer {
+  private readonly transport: MailTransport;
+  private readonly from: string;
+  private readonly baseUrl: string;
+  private readonly inviteLimiter: RateLimiter;
+  // Sends in progress, so tests and shutdown can wait for them
+  private inflight = new Set<Promise<void>>();
+
+  constructor(
+    private readonly repo: SessionRepository,
+    options: MailerOptions
+  ) {
+    this.transport = options.transport;
+    this.from = options.from;
+    this.baseUrl = options.baseUrl;
+    this.inviteLimiter = options.inviteLimiter ?? invitationEmailLimiter;
+  }
+
+  collaboratorInvited(email: SharingEmail, role: CollaboratorRole): void {
+    this.enqueue(email, { template: "collaborator_invited", role });
+  }
+
+  collaboratorRoleChanged(email: SharingEmail, oldRole: CollaboratorRole, newRole: CollaboratorRole): void {
+    this.enqueue(email, { template: "collaborator_role_changed", oldRole, newRole });
+  }
+
+  collaboratorRemoved(email: SharingEmail): void {
+    this.enqueue(email, { template: "collaborator_removed" });
+  }
+
+  /**
+   * Wait for sends in progress.
+   */
+  async drain(): Promise<void> {
+    while (this.inflight.size > 0) {
+      await Promise.all(this.inflight);
+    }
+  }
+
+  unsubscribeUrl(token: string): string {
+    return `${this.baseUrl}/api/email/unsubscribe?token=${encodeURIComponent(token)}`;
+  }
+
+  private enqueue(email: SharingEmail, data: SharingEmailData): void {
+    const tracked = this.deliver(email, data)
+      .catch((error) => {
+        console.error(`[mail] Failed to send ${data.template} email for session ${email.sessionId}:`, error);
+      })
+      .finally(() => {
+        this.inflight.delete(tracked);
+      });
+    this.inflight.add(tracked);
+  }
+
+  private async deliver(email: SharingEmail, data: SharingEmailData): Promise<void> {
+    const to = normalizeEmail(email.to);
+    const preferences = await this.repo.getOrCreateEmailPreferences(to, generateUnsubscribeToken());
+    const unsubscribeUrl = this.unsubscribeUrl(preferences.unsubscribe_token);
+
+    const rendered = renderSharingEmail(
+      {
+        sessionTitle: email.sessionTitle,
+        sessionUrl: `${this.baseUrl}/sessions/${encodeURIComponent(email.sessionId)}`,
+        actorName: email.actorName,
+        recipientEmail: to,
+        unsubscribeUrl,
+      },
+      data
+    );
+
+    const log = (status: EmailStatus, messageId: string | null, error: string | null) =>
+      this.repo.recordEmail({
+        id: generateEmailId(),
+        to_email: to,
+        template: data.template,
+        session_id: email.sessionId,
+        subject: rendered.subject,
+        status,
+        message_id: messageId,
+        error,
+      });
+
+    if (preferences.unsubscribed_at) {
+      await log("skipped", null, "Recipient unsubscribed");
+      return;
+    }
+    if (data.template === "collaborator_invited" && !this.inviteLimiter.check(email.actorUserId).allowed) {
+      await log("skipped", null, "Invitation email limit reached");
+      return;
+    }
+
+    try {
+      const { messageId } = await this.transport.send({
+        from: this.from,
+        to,
+        subject: rendered.subject,
+        text: rendered.text,
+        html: rendered.html,
+        headers: {
+          "List-Unsubscribe": `<${unsubscribeUrl}>`,
+          "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+        },
+      });
+      await log("sent", messageId, null);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await log("failed", null, message.slice(0, MAX_ERROR_LENGTH));
+    }
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Organization helpers.
+ *
+ * Members have one of three roles: members can view sessions shared with the
+ * organization, admins also manage members, and owners can also manage other
+ * owners and delete the organization. An organization always keeps at least
+ * one owner.
+ */
+
+import type { OrgRole } from "../db/schema";
+
+// Lowercase letters, digits and single hyphens; used in /orgs/:slug
+export const ORG_SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+export const MAX_ORG_SLUG_LENGTH = 40;
+
+// Time-ordered, so IDs created in the same second still sort by creation
+export function generateOrganizationId(): string {
+  const timestamp = Date.now().toString(36);
+  const randomPart = crypto.randomUUID().replace(/-/g, "").substring(0, 8);
+  return `org_${timestamp}_${randomPart}`;
+}
+
+/**
+ * Derive a slug from an organization name ("Acme, Inc." -> "acme-inc").
+ * Returns an empty string when the name has no usable characters.
+ */
+export function slugify(name: string): string {
+  return name
+    .normalize("NFKD")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .slice(0, MAX_ORG_SLUG_LENGTH)
+    .replace(/^-+|-+$/g, "");
+}
+
+export function canManageMembers(role: OrgRole): boolean {
+  return role === "owner" || role === "admin";
+}
+
+/**
+ * Whether `actor` may add, change or remove a member with `target` role
+ * (before or after the change). Only owners can touch owners.
+ */
+export function canAssignRole(actor: OrgRole, target: OrgRole): boolean {
+  if (!canManageMembers(actor)) return false;
+  return target !== "owner" || actor === "owner";
+}
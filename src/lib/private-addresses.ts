@@ -0,0 +1,69 @@
+/**
+ * Recognizing addresses that outbound requests made on a user's behalf must
+ * not reach: loopback, private networks, link-local (including cloud metadata
+ * endpoints such as 169.254.169.254), and other non-public ranges.
+ */
+
+import { isIP } from "net";
+
+// [network, prefix length]
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local, cloud metadata
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15], // benchmarking
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved, broadcast
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split(".").reduce((n, octet) => n * 256 + parseInt(octet, 10), 0);
+}
+
+function isPrivateIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return PRIVATE_IPV4_RANGES.some(([network, bits]) => {
+    const size = 2 ** (32 - bits);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(network) / size);
+  });
+}
+
+function isPrivateIpv6(address: string): boolean {
+  const lower = address.toLowerCase().replace(/%.*$/, "");
+
+  // IPv4-mapped (::ffff:10.0.0.1) and NAT64 (64:ff9b::10.0.0.1) addresses embed an IPv4 address
+  const embedded = lower.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) {
+    return isPrivateIpv4(embedded[1]!);
+  }
+  if (lower.startsWith("::ffff:")) {
+    // Mapped address in hex form (::ffff:a00:1)
+    const [high = "0", low = "0"] = lower.slice("::ffff:".length).split(":");
+    const value = parseInt(high, 16) * 65536 + parseInt(low, 16);
+    return isPrivateIpv4([value >>> 24, (value >>> 16) & 255, (value >>> 8) & 255, value & 255].join("."));
+  }
+
+  if (lower === "::" || lower === "::1") return true;
+  const firstHextet = parseInt(lower.split(":")[0] || "0", 16);
+  return (
+    (firstHextet & 0xfe00) === 0xfc00 || // unique local (fc00::/7)
+    (firstHextet & 0xffc0) === 0xfe80 || // link-local (fe80::/10)
+    (firstHextet & 0xff00) === 0xff00 // multicast (ff00::/8)
+  );
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * publicly routable. Returns false for anything that isn't an IP address.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isPrivateIpv4(address);
+  if (version === 6) return isPrivateIpv6(address);
+  return false;
+}
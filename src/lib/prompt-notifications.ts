@@ -0,0 +1,276 @@
+/**
+ * Notifications for spawned-session prompts nobody is answering.
+ *
+ * When a permission or question prompt is still pending after a delay, a
+ * message is posted to a configured channel: a Slack incoming webhook or a
+ * generic JSON webhook. It links to the session, and permission prompts also
+ * get signed allow/deny action URLs so they can be answered without opening
+ * the session.
+ *
+ * The channel is shared by every user's sessions, so messages only name the
+ * tool and link to the session; what the prompt asks stays behind the
+ * session's access checks. Owners who want the details can subscribe their
+ * own webhook to permission.pending.
+ *
+ * Action URLs carry an HMAC-SHA256 signature over the session, request,
+ * decision and expiry, keyed with PROMPT_ACTION_SECRET. Without a secret the
+ * messages only contain the session link.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+export type PromptNotificationFormat = "slack" | "webhook";
+
+export interface PromptNotificationConfig {
+  url: string;
+  format: PromptNotificationFormat;
+  /** How long a prompt must stay unanswered before notifying */
+  delayMs: number;
+  /** Used for session links and action URLs */
+  baseUrl: string;
+  /** Key for signing action URLs; actions are disabled without one */
+  actionSecret: string | null;
+  /** How long action URLs stay valid */
+  actionTtlMs: number;
+}
+
+export type PendingPrompt =
+  | { kind: "permission"; id: string; tool: string }
+  | { kind: "question"; id: string };
+
+export type PromptDecision = "allow" | "deny";
+
+export interface PromptAction {
+  sessionId: string;
+  requestId: string;
+  decision: PromptDecision;
+  expires: number; // Unix seconds
+}
+
+export interface PromptNotifierOptions {
+  /** Whether the prompt is still waiting for an answer (checked when the delay elapses) */
+  isPending: (sessionId: string, promptId: string) => boolean;
+  fetch?: (url: string, init: RequestInit) => Promise<Response>;
+  now?: () => Date;
+}
+
+const DEFAULT_DELAY_SECONDS = 60;
+const DEFAULT_ACTION_TTL_SECONDS = 60 * 60;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Load the notification config from the environment. Returns null when no
+ * channel is configured; throws when the configuration is invalid.
+ */
+export function loadPromptNotificationConfig(
+  env: Record<string, string | undefined> = process.env
+): PromptNotificationConfig | null {
+  const url = env.PROMPT_NOTIFICATION_URL;
+  if (!url) return null;
+
+  const baseUrl = env.PUBLIC_URL?.replace(/\/$/, "");
+  if (!baseUrl) {
+    throw new Error("PROMPT_NOTIFICATION_URL requires PUBLIC_URL for session links");
+  }
+
+  const format = env.PROMPT_NOTIFICATION_FORMAT ?? (new URL(url).hostname === "hooks.slack.com" ? "slack" : "webhook");
+  if (format !== "slack" && format !== "webhook") {
+    throw new Error(`Invalid PROMPT_NOTIFICATION_FORMAT: ${format} (expected "slack" or "webhook")`);
+  }
+
+  const delaySeconds = env.PROMPT_NOTIFICATION_DELAY ? Number(env.PROMPT_NOTIFICATION_DELAY) : DEFAULT_DELAY_SECONDS;
+  if (!Number.isFinite(delaySeconds) || delaySeconds < 0) {
+    throw new Error(`Invalid PROMPT_NOTIFICATION_DELAY: ${env.PROMPT_NOTIFICATION_DELAY}`);
+  }
+
+  return {
+    url,
+    format,
+    delayMs: delaySeconds * 1000,
+    baseUrl,
+    actionSecret: env.PROMPT_ACTION_SECRET || null,
+    actionTtlMs: DEFAULT_ACTION_TTL_SECONDS * 1000,
+  };
+}
+
+// Slack treats <, > and & as control characters in message text
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function actionSignature(secret: string, action: PromptAction): string {
+  return createHmac("sha256", secret)
+    .update(`${action.sessionId}.${action.requestId}.${action.decision}.${action.expires}`)
+    .digest("hex");
+}
+
+/**
+ * Action URL for answering a permission prompt. Opening it shows a
+ * confirmation page; the decision is applied when that page is submitted.
+ */
+export function buildActionUrl(baseUrl: string, secret: string, action: PromptAction): string {
+  const params = new URLSearchParams({
+    request_id: action.requestId,
+    decision: action.decision,
+    expires: String(action.expires),
+    sig: actionSignature(secret, action),
+  });
+  return `${baseUrl}/api/sessions/${encodeURIComponent(action.sessionId)}/prompt-action?${params}`;
+}
+
+/**
+ * Parse and check the signed parameters of an action URL. Returns null when
+ * they are missing, tampered with or expired.
+ */
+export function verifyAction(
+  secret: string,
+  sessionId: string,
+  params: URLSearchParams,
+  now: Date = new Date()
+): PromptAction | null {
+  const requestId = params.get("request_id");
+  const decision = params.get("decision");
+  const expires = Number(params.get("expires"));
+  const sig = params.get("sig");
+  if (!requestId || (decision !== "allow" && decision !== "deny") || !Number.isInteger(expires) || !sig) {
+    return null;
+  }
+
+  const action: PromptAction = { sessionId, requestId, decision, expires };
+  const expected = Buffer.from(actionSignature(secret, action));
+  const actual = Buffer.from(sig);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  if (expires * 1000 < now.getTime()) {
+    return null;
+  }
+  return action;
+}
+
+export class PromptNotifier {
+  private readonly isPending: (sessionId: string, promptId: string) => boolean;
+  private readonly fetch: (url: string, init: RequestInit) => Promise<Response>;
+  private readonly now: () => Date;
+  // One timer per session; a new prompt replaces the previous one's
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(
+    private readonly config: PromptNotificationConfig,
+    options: PromptNotifierOptions
+  ) {
+    this.isPending = options.isPending;
+    this.fetch = options.fetch ?? ((url, init) => fetch(url, init));
+    this.now = options.now ?? (() => new Date());
+  }
+
+  get actionSecret(): string | null {
+    return this.config.actionSecret;
+  }
+
+  /**
+   * Notify about `prompt` if it is still pending once the delay has passed.
+   */
+  promptPending(sessionId: string, prompt: PendingPrompt): void {
+    this.cancel(sessionId);
+    const timer = setTimeout(() => {
+      this.timers.delete(sessionId);
+      if (!this.isPending(sessionId, prompt.id)) return;
+      this.send(sessionId, prompt).catch((error) => {
+        console.error(`[notifications] Failed to notify about prompt in session ${sessionId}:`, error);
+      });
+    }, this.config.delayMs);
+    this.timers.set(sessionId, timer);
+  }
+
+  /**
+   * Drop the scheduled notification for a session (its prompt was answered or it ended).
+   */
+  cancel(sessionId: string): void {
+    const timer = this.timers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(sessionId);
+    }
+  }
+
+  stop(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Post the notification for `prompt` now.
+   */
+  async send(sessionId: string, prompt: PendingPrompt): Promise<void> {
+    const body = this.config.format === "slack"
+      ? this.slackMessage(sessionId, prompt)
+      : this.webhookMessage(sessionId, prompt);
+
+    const res = await this.fetch(this.config.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "User-Agent": "openctl-notifications" },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      throw new Error(`HTTP ${res.status}`);
+    }
+  }
+
+  private sessionUrl(sessionId: string): string {
+    return `${this.config.baseUrl}/sessions/${encodeURIComponent(sessionId)}`;
+  }
+
+  private actionUrls(sessionId: string, prompt: PendingPrompt): Record<PromptDecision, string> | null {
+    if (prompt.kind !== "permission" || !this.config.actionSecret) return null;
+
+    const expires = Math.floor((this.now().getTime() + this.config.actionTtlMs) / 1000);
+    const url = (decision: PromptDecision) =>
+      buildActionUrl(this.config.baseUrl, this.config.actionSecret!, { sessionId, requestId: prompt.id, decision, expires });
+    return { allow: url("allow"), deny: url("deny") };
+  }
+
+  private summary(prompt: PendingPrompt): string {
+    return prompt.kind === "permission"
+      ? `Permission needed for ${prompt.tool}`
+      : "A question is waiting for an answer";
+  }
+
+  private webhookMessage(sessionId: string, prompt: PendingPrompt): Record<string, unknown> {
+    return {
+      event: prompt.kind === "permission" ? "permission.pending" : "question.pending",
+      session_id: sessionId,
+      session_url: this.sessionUrl(sessionId),
+      text: this.summary(prompt),
+      prompt,
+      actions: this.actionUrls(sessionId, prompt),
+    };
+  }
+
+  // Slack incoming-webhook payload (Block Kit); link buttons open the action URLs
+  private slackMessage(sessionId: string, prompt: PendingPrompt): Record<string, unknown> {
+    const text = this.summary(prompt);
+    const actions = this.actionUrls(sessionId, prompt);
+
+    const buttons: Record<string, unknown>[] = [
+      { type: "button", text: { type: "plain_text", text: "Open session" }, url: this.sessionUrl(sessionId) },
+    ];
+    if (actions) {
+      buttons.push(
+        { type: "button", text: { type: "plain_text", text: "Allow" }, style: "primary", url: actions.allow },
+        { type: "button", text: { type: "plain_text", text: "Deny" }, style: "danger", url: actions.deny }
+      );
+    }
+
+    return {
+      text,
+      blocks: [
+        { type: "section", text: { type: "mrkdwn", text: escapeSlack(text) } },
+        { type: "actions", elements: buttons },
+      ],
+    };
+  }
+}
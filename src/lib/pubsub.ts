@@ -0,0 +1,96 @@
+/**
+ * Pub/sub and shared state between server instances.
+ *
+ * A single server uses the in-process implementation. Replicas set REDIS_URL
+ * so that broadcasts, daemon routing and daemon affinity (see cluster.ts)
+ * reach every instance.
+ */
+
+import { RedisPubSub } from "./redis-pubsub";
+
+export type PubSubHandler = (message: string) => void;
+
+export interface PubSub {
+  publish(channel: string, message: string): Promise<void>;
+  subscribe(channel: string, handler: PubSubHandler): Promise<void>;
+  unsubscribe(channel: string, handler: PubSubHandler): Promise<void>;
+
+  // Shared hash state (e.g. which instance a daemon is connected to)
+  hset(key: string, field: string, value: string): Promise<void>;
+  hget(key: string, field: string): Promise<string | null>;
+  hdel(key: string, field: string): Promise<void>;
+  hgetall(key: string): Promise<Record<string, string>>;
+
+  close(): Promise<void>;
+}
+
+/**
+ * Pub/sub within one process. Several cluster buses can share one instance,
+ * which is how tests run more than one "server" side by side.
+ */
+export class InProcessPubSub implements PubSub {
+  private channels = new Map<string, Set<PubSubHandler>>();
+  private hashes = new Map<string, Map<string, string>>();
+
+  async publish(channel: string, message: string): Promise<void> {
+    // Copy so handlers can unsubscribe while being called
+    for (const handler of [...(this.channels.get(channel) ?? [])]) {
+      try {
+        handler(message);
+      } catch (error) {
+        console.error(`[pubsub] Handler for ${channel} failed:`, error);
+      }
+    }
+  }
+
+  async subscribe(channel: string, handler: PubSubHandler): Promise<void> {
+    if (!this.channels.has(channel)) {
+      this.channels.set(channel, new Set());
+    }
+    this.channels.get(channel)!.add(handler);
+  }
+
+  async unsubscribe(channel: string, handler: PubSubHandler): Promise<void> {
+    const handlers = this.channels.get(channel);
+    if (!handlers) return;
+
+    handlers.delete(handler);
+    if (handlers.size === 0) {
+      this.channels.delete(channel);
+    }
+  }
+
+  async hset(key: string, field: string, value: string): Promise<void> {
+    if (!this.hashes.has(key)) {
+      this.hashes.set(key, new Map());
+    }
+    this.hashes.get(key)!.set(field, value);
+  }
+
+  async hget(key: string, field: string): Promise<string | null> {
+    return this.hashes.get(key)?.get(field) ?? null;
+  }
+
+  async hdel(key: string, field: string): Promise<void> {
+    this.hashes.get(key)?.delete(field);
+  }
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.hashes.get(key) ?? []);
+  }
+
+  async close(): Promise<void> {
+    this.channels.clear();
+    this.hashes.clear();
+  }
+}
+
+/**
+ * Create the configured pub/sub: Redis when REDIS_URL is set, in-process otherwise.
+ */
+export async function createPubSub(env: Record<string, string | undefined> = process.env): Promise<PubSub> {
+  if (env.REDIS_URL) {
+    return RedisPubSub.connect(env.REDIS_URL);
+  }
+  return new InProcessPubSub();
+}
@@ -110,6 +110,12 @@ export const sendInputLimiter = new RateLimiter({
   maxRequests: 60, // 60 inputs per minute per session
 });
 
+// Invitation emails sent on behalf of a user (see specs/session_sharing.md)
+export const invitationEmailLimiter = new RateLimiter({
+  windowMs: 60 * 60_000, // 1 hour
+  maxRequests: 10, // 10 invitation emails per hour per user
+});
+
 // Cleanup interval - run every minute to remove expired entries
 let cleanupInterval: ReturnType<typeof setInterval> | null = null;
 
@@ -118,6 +124,7 @@ export function startCleanupInterval(): void {
   cleanupInterval = setInterval(() => {
     spawnSessionLimiter.cleanup();
     sendInputLimiter.cleanup();
+    invitationEmailLimiter.cleanup();
   }, 60_000);
 }
 
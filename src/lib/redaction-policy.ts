@@ -0,0 +1,182 @@
+/**
+ * Server-side redaction policy.
+ *
+ * The CLI scrubs content before upload, but older or modified clients may not,
+ * so deployments can enforce their own rules on everything the server stores
+ * or broadcasts. Each rule either masks matches with [REDACTED:<rule>] or
+ * rejects the request outright.
+ *
+ * Configured with REDACTION_POLICY_FILE (path to a JSON file) or REDACTION_POLICY
+ * (inline JSON). Without either, no policy is enforced.
+ */
+
+import { readFileSync } from "fs";
+import { Result } from "better-result";
+import { BUILTIN_RULES, Redactor, type RedactionRule } from "../../cli/lib/redaction";
+import type { ContentBlock } from "../db/schema";
+import { ContentRejectedError } from "./errors";
+
+export type PolicyAction = "mask" | "reject";
+
+export interface RedactionPolicyPattern {
+  name: string;
+  pattern: string;
+  flags?: string;
+  action?: PolicyAction;
+}
+
+export interface RedactionPolicyConfig {
+  /** Action for rules that don't set their own (default: mask) */
+  action?: PolicyAction;
+  /** CLI built-in detectors to enforce: true for all, or a list of names (default: true) */
+  detectors?: boolean | string[];
+  patterns?: RedactionPolicyPattern[];
+}
+
+export interface PolicyHit {
+  rule: string;
+  action: PolicyAction;
+  count: number;
+}
+
+export interface PolicyOutcome<T> {
+  value: T;
+  hits: PolicyHit[];
+  /** Total masked values */
+  masked: number;
+}
+
+type PolicyTarget = { content: string; content_blocks: ContentBlock[] };
+
+export class RedactionPolicy {
+  private maskRules: RedactionRule[] = [];
+  private rejectRules: RedactionRule[] = [];
+
+  constructor(config: RedactionPolicyConfig) {
+    const defaultAction = config.action ?? "mask";
+    const detectors = config.detectors ?? true;
+
+    for (const rule of BUILTIN_RULES) {
+      if (detectors === true || (Array.isArray(detectors) && detectors.includes(rule.name))) {
+        this.addRule(rule, defaultAction);
+      }
+    }
+
+    for (const pattern of config.patterns ?? []) {
+      const flags = pattern.flags ?? "";
+      this.addRule(
+        {
+          name: pattern.name,
+          // Invalid patterns throw so a broken policy fails at startup
+          pattern: new RegExp(pattern.pattern, flags.includes("g") ? flags : `${flags}g`),
+        },
+        pattern.action ?? defaultAction
+      );
+    }
+  }
+
+  /**
+   * Apply the policy to parsed messages (text content and content blocks).
+   */
+  applyToMessages<T extends PolicyTarget>(messages: T[]): Result<PolicyOutcome<T[]>, ContentRejectedError> {
+    // `content` repeats the text blocks, so it is masked without being counted again
+    return this.apply((redactor, uncounted) =>
+      messages.map((msg) => ({
+        ...msg,
+        content: uncounted.redactText(msg.content),
+        content_blocks: redactor.redactBlocks(msg.content_blocks),
+      }))
+    );
+  }
+
+  /**
+   * Apply the policy to Claude Code stream-json messages relayed from spawned
+   * sessions (message content, tool results and the final result text).
+   */
+  applyToStreamMessages<T extends object>(messages: T[]): Result<PolicyOutcome<T[]>, ContentRejectedError> {
+    return this.apply((redactor) => messages.map((msg) => redactor.redactStreamMessage(msg)));
+  }
+
+  /**
+   * Apply the policy to parsed diffs.
+   */
+  applyToDiffs<T extends { diff_content: string }>(diffs: T[]): Result<PolicyOutcome<T[]>, ContentRejectedError> {
+    return this.apply((redactor) =>
+      diffs.map((diff) => ({ ...diff, diff_content: redactor.redactText(diff.diff_content) }))
+    );
+  }
+
+  /**
+   * Apply the policy to an arbitrary JSON value (e.g. tool result content).
+   */
+  applyToValue<T>(value: T): Result<PolicyOutcome<T>, ContentRejectedError> {
+    return this.apply((redactor) => redactor.redactValue(value) as T);
+  }
+
+  /**
+   * Mask every match in a JSON value, treating reject rules as mask rules. For
+   * permission prompts and questions, which can't be dropped without leaving
+   * the session waiting for an answer.
+   */
+  maskValue<T>(value: T): PolicyOutcome<T> {
+    const redactor = new Redactor([...this.rejectRules, ...this.maskRules]);
+    const masked = redactor.redactValue(value) as T;
+    const hits = Array.from(redactor.countsByDetector, ([rule, count]) => ({ rule, action: "mask" as const, count }));
+    return { value: masked, hits, masked: redactor.count };
+  }
+
+  private apply<T>(
+    transform: (redactor: Redactor, uncounted: Redactor) => T
+  ): Result<PolicyOutcome<T>, ContentRejectedError> {
+    // Reject rules only detect; nothing is stored when one matches
+    if (this.rejectRules.length > 0) {
+      const detector = new Redactor(this.rejectRules);
+      transform(detector, detector);
+      if (detector.count > 0) {
+        return Result.err(new ContentRejectedError({ rules: Array.from(detector.countsByDetector.keys()) }));
+      }
+    }
+
+    const redactor = new Redactor(this.maskRules);
+    const value = transform(redactor, new Redactor(this.maskRules));
+    const hits = Array.from(redactor.countsByDetector, ([rule, count]) => ({ rule, action: "mask" as const, count }));
+    return Result.ok({ value, hits, masked: redactor.count });
+  }
+
+  private addRule(rule: RedactionRule, action: PolicyAction): void {
+    (action === "reject" ? this.rejectRules : this.maskRules).push(rule);
+  }
+}
+
+/**
+ * Load the policy from the environment. Returns null when none is configured;
+ * throws when the configuration can't be read or parsed.
+ */
+export function loadRedactionPolicy(env: Record<string, string | undefined> = process.env): RedactionPolicy | null {
+  const filePath = env.REDACTION_POLICY_FILE;
+  const inline = env.REDACTION_POLICY;
+
+  let raw: string;
+  if (filePath) {
+    raw = readFileSync(filePath, "utf8");
+  } else if (inline) {
+    raw = inline;
+  } else {
+    return null;
+  }
+
+  try {
+    return new RedactionPolicy(JSON.parse(raw) as RedactionPolicyConfig);
+  } catch (err) {
+    throw new Error(
+      `Invalid redaction policy (${filePath ?? "REDACTION_POLICY"}): ${err instanceof Error ? err.message : err}`
+    );
+  }
+}
+
+/**
+ * Hits for a rejected request, for analytics.
+ */
+export function rejectionHits(error: ContentRejectedError): PolicyHit[] {
+  return error.rules.map((rule) => ({ rule, action: "reject", count: 1 }));
+}
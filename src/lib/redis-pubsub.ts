@@ -0,0 +1,83 @@
+import { RedisClient } from "bun";
+import type { PubSub, PubSubHandler } from "./pubsub";
+
+/**
+ * Pub/sub over Redis (or any server speaking the Redis protocol, e.g. Valkey).
+ *
+ * A connection in subscriber mode can't run other commands, so subscriptions
+ * get a second connection. Channels and keys are prefixed so several
+ * deployments can share one Redis.
+ */
+export class RedisPubSub implements PubSub {
+  // Handlers per channel; Redis itself is only subscribed once per channel
+  private handlers = new Map<string, Set<PubSubHandler>>();
+
+  private constructor(
+    private client: RedisClient,
+    private subscriber: RedisClient,
+    private prefix: string
+  ) {}
+
+  static async connect(url: string, prefix = "openctl:"): Promise<RedisPubSub> {
+    const client = new RedisClient(url);
+    await client.connect();
+    const subscriber = await client.duplicate();
+    return new RedisPubSub(client, subscriber, prefix);
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.client.publish(this.prefix + channel, message);
+  }
+
+  async subscribe(channel: string, handler: PubSubHandler): Promise<void> {
+    const handlers = this.handlers.get(channel);
+    if (handlers) {
+      handlers.add(handler);
+      return;
+    }
+
+    this.handlers.set(channel, new Set([handler]));
+    await this.subscriber.subscribe(this.prefix + channel, (message) => {
+      for (const h of [...(this.handlers.get(channel) ?? [])]) {
+        try {
+          h(message);
+        } catch (error) {
+          console.error(`[pubsub] Handler for ${channel} failed:`, error);
+        }
+      }
+    });
+  }
+
+  async unsubscribe(channel: string, handler: PubSubHandler): Promise<void> {
+    const handlers = this.handlers.get(channel);
+    if (!handlers) return;
+
+    handlers.delete(handler);
+    if (handlers.size === 0) {
+      this.handlers.delete(channel);
+      await this.subscriber.unsubscribe(this.prefix + channel);
+    }
+  }
+
+  async hset(key: string, field: string, value: string): Promise<void> {
+    await this.client.hset(this.prefix + key, field, value);
+  }
+
+  async hget(key: string, field: string): Promise<string | null> {
+    return this.client.hget(this.prefix + key, field);
+  }
+
+  async hdel(key: string, field: string): Promise<void> {
+    await this.client.hdel(this.prefix + key, field);
+  }
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    return this.client.hgetall(this.prefix + key);
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+    this.subscriber.close();
+    this.client.close();
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Server redaction policy for content relayed from daemons.
+ *
+ * Spawned sessions stream their output and diffs over the daemon WebSocket
+ * rather than the HTTP endpoints, so the relay enforces the same policy before
+ * anything is stored or broadcast. Masked content replaces the original and
+ * counts towards the session's redactions; rejected content is dropped.
+ * Permission prompts and questions are masked rather than dropped, so the
+ * session isn't left waiting for an answer.
+ */
+
+import { Result } from "better-result";
+import { StreamTextBuffer } from "../../cli/lib/redaction";
+import type { SessionRepository } from "../db/repository";
+import type { AnalyticsRecorder } from "../analytics/events";
+import type { ContentRedactedProperties } from "../db/schema";
+import type { OutputDelta, SessionDiffMessage } from "../types/daemon-ws";
+import type { ParsedDiff } from "./spawned-session-registry";
+import { rejectionHits, type PolicyOutcome, type RedactionPolicy } from "./redaction-policy";
+import type { ContentRejectedError } from "./errors";
+
+type RelayedCommit = NonNullable<SessionDiffMessage["commits"]>[number];
+
+export interface RelayRedaction {
+  /** Stream-json messages from `session_output` */
+  output<T extends object>(sessionId: string, clientId: string | undefined, messages: T[]): Promise<Result<T[], ContentRejectedError>>;
+  /**
+   * Partial text from `session_output_delta`. The end of each block is held
+   * back so a secret split across deltas is caught whole; what is still held
+   * when the next message starts is dropped, since the complete message
+   * replaces the preview. Not counted, since the complete message is checked
+   * when it arrives.
+   */
+  deltas(sessionId: string, messageId: string, deltas: OutputDelta[]): Result<OutputDelta[], ContentRejectedError>;
+  /** Text of permission prompts, control requests and questions */
+  prompt<T>(value: T): T;
+  /** Drop delta text held for a session that ended */
+  forget(sessionId: string): void;
+  /** Parsed diff files and commits from `session_diff` */
+  diff(
+    sessionId: string,
+    clientId: string | undefined,
+    diffs: ParsedDiff[],
+    commits: RelayedCommit[]
+  ): Promise<Result<{ diffs: ParsedDiff[]; commits: RelayedCommit[] }, ContentRejectedError>>;
+}
+
+export function createRelayRedaction(
+  policy: RedactionPolicy | null,
+  deps: { repo: SessionRepository; analytics: AnalyticsRecorder }
+): RelayRedaction {
+  const { repo, analytics } = deps;
+  // Delta text held back per session, for the message being streamed
+  const streams = new Map<string, { messageId: string; buffer: StreamTextBuffer }>();
+
+  // Apply the policy and record hits; masked values are added to the session's redaction count
+  async function enforce<T>(
+    value: T,
+    apply: (policy: RedactionPolicy) => Result<PolicyOutcome<T>, ContentRejectedError>,
+    context: { sessionId: string; clientId?: string; source: ContentRedactedProperties["source"] }
+  ): Promise<Result<PolicyOutcome<T>, ContentRejectedError>> {
+    if (!policy) {
+      return Result.ok({ value, hits: [], masked: 0 });
+    }
+
+    const result = apply(policy);
+    const hits = result.isErr() ? rejectionHits(result.error) : result.unwrap().hits;
+    await analytics.recordRedactionHits(context.sessionId, context.source, hits, { clientId: context.clientId });
+    if (result.isOk() && result.unwrap().masked > 0) {
+      await repo.incrementRedactionCount(context.sessionId, result.unwrap().masked);
+    }
+    return result;
+  }
+
+  return {
+    async output(sessionId, clientId, messages) {
+      const result = await enforce(messages, (p) => p.applyToStreamMessages(messages), {
+        sessionId,
+        clientId,
+        source: "messages",
+      });
+      if (result.isErr()) {
+        return Result.err(result.error);
+      }
+      return Result.ok(result.unwrap().value);
+    },
+
+    deltas(sessionId, messageId, deltas) {
+      if (!policy) {
+        return Result.ok(deltas);
+      }
+
+      let stream = streams.get(sessionId);
+      if (!stream || stream.messageId !== messageId) {
+        stream = { messageId, buffer: new StreamTextBuffer() };
+        streams.set(sessionId, stream);
+      }
+
+      const released: OutputDelta[] = [];
+      for (const delta of deltas) {
+        const key = `${delta.index}:${delta.block_type}`;
+        // Blocks stream one after another, so a new block means the earlier ones are complete
+        for (const other of stream.buffer.keys()) {
+          if (other === key) continue;
+          const [index, blockType] = other.split(":");
+          const text = stream.buffer.flush(other);
+          if (text) {
+            released.push({ index: Number(index), block_type: blockType as OutputDelta["block_type"], text });
+          }
+        }
+        const text = stream.buffer.push(key, delta.text);
+        if (text) {
+          released.push({ ...delta, text });
+        }
+      }
+
+      const result = policy.applyToValue(released.map((delta) => delta.text));
+      if (result.isErr()) {
+        return Result.err(result.error);
+      }
+      const texts = result.unwrap().value;
+      return Result.ok(released.map((delta, i) => ({ ...delta, text: texts[i]! })));
+    },
+
+    prompt(value) {
+      return policy ? policy.maskValue(value).value : value;
+    },
+
+    forget(sessionId) {
+      streams.delete(sessionId);
+    },
+
+    async diff(sessionId, clientId, diffs, commits) {
+      const diffsResult = await enforce(diffs, (p) => p.applyToDiffs(diffs), { sessionId, clientId, source: "diff" });
+      if (diffsResult.isErr()) {
+        return Result.err(diffsResult.error);
+      }
+      const commitsResult = await enforce(commits, (p) => p.applyToValue(commits), { sessionId, clientId, source: "diff" });
+      if (commitsResult.isErr()) {
+        return Result.err(commitsResult.error);
+      }
+      return Result.ok({ diffs: diffsResult.unwrap().value, commits: commitsResult.unwrap().value });
+    },
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Repository identification helpers.
+ *
+ * Repositories are not stored as entities; they are derived from sessions.
+ * The repo key is the session's repo_url when present, otherwise its project_path.
+ * Keys are base64url-encoded for use in URLs (/repos/:id, /api/repos/:repoId).
+ */
+
+/**
+ * Get the repository key for a session (repo_url preferred, project_path fallback).
+ */
+export function getRepoKey(session: { repo_url: string | null; project_path: string | null }): string | null {
+  return session.repo_url || session.project_path || null;
+}
+
+/**
+ * Encode a repo key as a URL-safe id.
+ */
+export function encodeRepoId(repoKey: string): string {
+  const bytes = new TextEncoder().encode(repoKey);
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Decode a URL-safe repo id back to its repo key.
+ * Returns null if the id is not valid base64url.
+ */
+export function decodeRepoId(repoId: string): string | null {
+  if (!repoId || !/^[A-Za-z0-9_-]+$/.test(repoId)) {
+    return null;
+  }
+  try {
+    const binary = atob(repoId.replace(/-/g, "+").replace(/_/g, "/"));
+    const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Human-readable repository name: "owner/repo" for GitHub URLs,
+ * otherwise the last path segment of the URL or project path.
+ */
+export function getRepoDisplayName(repoKey: string): string {
+  const github = repoKey.match(/github\.com[/:]([^/]+\/[^/.]+)/);
+  if (github?.[1]) return github[1];
+  const segments = repoKey.replace(/\/+$/, "").split("/");
+  return segments[segments.length - 1] || repoKey;
+}
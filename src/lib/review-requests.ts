@@ -0,0 +1,108 @@
+/**
+ * Code reviews requested from the web UI.
+ *
+ * The server sends a session's stored diff to a connected daemon (run_review).
+ * The daemon runs the review with the Claude CLI, reports when it starts, and
+ * sends back the result, which replaces the session's review. Requests waiting
+ * on a daemon are kept in the shared "review-requests" hash, so every instance
+ * can report them and only one review per session runs at a time.
+ */
+
+import type { Diff } from "../db/schema";
+import { cluster, REVIEW_REQUESTS_KEY } from "./cluster";
+
+export type ReviewStage = "queued" | "running";
+
+export interface PendingReview {
+  request_id: string;
+  /** Daemon running the review */
+  client_id: string;
+  stage: ReviewStage;
+  requested_by: string | null;
+  requested_at: string;
+}
+
+// Requests older than this are treated as lost (e.g. the daemon went away
+// without reporting back). Longer than the daemon's own review timeout.
+export const REVIEW_REQUEST_TTL_MS = 15 * 60 * 1000;
+
+// Diffs are passed to the Claude CLI as an argument, which limits their size
+export const MAX_REVIEW_DIFF_BYTES = 100_000;
+
+/**
+ * The diff to review: the session's relevant files, or every file when none
+ * are marked relevant.
+ */
+export function buildReviewDiff(diffs: Diff[]): string {
+  const relevant = diffs.filter((d) => d.is_session_relevant);
+  return (relevant.length > 0 ? relevant : diffs)
+    .map((d) => d.diff_content.trimEnd())
+    .join("\n");
+}
+
+/**
+ * The session's pending review, if any. Expired requests are cleared.
+ */
+export async function getPendingReview(sessionId: string, now: number = Date.now()): Promise<PendingReview | null> {
+  const value = await cluster.getShared(REVIEW_REQUESTS_KEY, sessionId);
+  if (!value) return null;
+
+  const pending = JSON.parse(value) as PendingReview;
+  if (now - new Date(pending.requested_at).getTime() > REVIEW_REQUEST_TTL_MS) {
+    await cluster.deleteShared(REVIEW_REQUESTS_KEY, sessionId);
+    return null;
+  }
+  return pending;
+}
+
+export function setPendingReview(sessionId: string, pending: PendingReview): Promise<void> {
+  return cluster.setShared(REVIEW_REQUESTS_KEY, sessionId, JSON.stringify(pending));
+}
+
+/**
+ * Move a pending review to a new stage. Returns null (and changes nothing)
+ * when `requestId` isn't the session's pending request.
+ */
+export async function updatePendingReview(
+  sessionId: string,
+  requestId: string,
+  stage: ReviewStage
+): Promise<PendingReview | null> {
+  const pending = await getPendingReview(sessionId);
+  if (!pending || pending.request_id !== requestId) return null;
+
+  const updated = { ...pending, stage };
+  await setPendingReview(sessionId, updated);
+  return updated;
+}
+
+/**
+ * Clear a finished review. Returns false when a different request is pending,
+ * i.e. this result was superseded. Results arriving after their request
+ * expired or was abandoned still count, since nothing newer replaced them.
+ */
+export async function finishPendingReview(sessionId: string, requestId: string): Promise<boolean> {
+  const pending = await getPendingReview(sessionId);
+  if (pending && pending.request_id !== requestId) return false;
+
+  if (pending) {
+    await cluster.deleteShared(REVIEW_REQUESTS_KEY, sessionId);
+  }
+  return true;
+}
+
+/**
+ * Remove the reviews a daemon was running, when it disconnects. Returns the
+ * affected session IDs with their requests.
+ */
+export async function abandonDaemonReviews(clientId: string): Promise<Array<[string, PendingReview]>> {
+  const abandoned: Array<[string, PendingReview]> = [];
+  for (const [sessionId, value] of Object.entries(await cluster.getAllShared(REVIEW_REQUESTS_KEY))) {
+    const pending = JSON.parse(value) as PendingReview;
+    if (pending.client_id === clientId) {
+      await cluster.deleteShared(REVIEW_REQUESTS_KEY, sessionId);
+      abandoned.push([sessionId, pending]);
+    }
+  }
+  return abandoned;
+}
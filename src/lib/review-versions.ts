@@ -0,0 +1,86 @@
+/**
+ * Review versions.
+ *
+ * Sessions keep every review they were given. Annotations remember the file
+ * and line text they were left on, so any review can be checked against the
+ * current diff: findings whose line is gone or has changed since were
+ * addressed by later changes, and are listed apart from the diff.
+ */
+
+import type { Annotation, AnnotationOutcome, Diff, ResolvedAnnotation } from "../db/schema";
+
+/**
+ * The text of a line in a unified diff, by line number on one side
+ * ("additions" is the new file, "deletions" the old one). Returns null when
+ * the line isn't part of the diff.
+ */
+export function diffLineAt(diffContent: string, side: Annotation["side"], lineNumber: number): string | null {
+  let oldLine = 0;
+  let newLine = 0;
+  let inHunk = false;
+
+  for (const line of diffContent.split("\n")) {
+    const hunk = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunk) {
+      oldLine = parseInt(hunk[1]!, 10);
+      newLine = parseInt(hunk[2]!, 10);
+      inHunk = true;
+      continue;
+    }
+    if (line.startsWith("diff --git ")) {
+      inHunk = false;
+    }
+    if (!inHunk) continue;
+
+    const marker = line[0];
+    const text = line.slice(1);
+    if (marker === " " || marker === "-") {
+      if (side === "deletions" && oldLine === lineNumber) return text;
+      oldLine++;
+    }
+    if (marker === " " || marker === "+") {
+      if (side === "additions" && newLine === lineNumber) return text;
+      newLine++;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether an annotation still applies to the current diff of its file.
+ * Annotations stored before line text was recorded only check that the line
+ * is still in the diff.
+ */
+export function annotationOutcome(
+  annotation: Pick<Annotation, "side" | "line_number" | "line_content">,
+  diff: Pick<Diff, "diff_content"> | undefined
+): AnnotationOutcome {
+  const line = diff ? diffLineAt(diff.diff_content, annotation.side, annotation.line_number) : null;
+  if (line === null) return "line_removed";
+  if (annotation.line_content !== null && line !== annotation.line_content) return "line_changed";
+  return "open";
+}
+
+/**
+ * Place a review's annotations on the current diffs (matched by filename).
+ * Annotations that no longer apply are returned separately as resolved.
+ */
+export function placeAnnotations(
+  annotations: Annotation[],
+  diffs: Diff[]
+): { byDiff: Record<number, Annotation[]>; resolved: ResolvedAnnotation[] } {
+  const diffsByFilename = new Map(diffs.filter((d) => d.filename).map((d) => [d.filename!, d]));
+  const byDiff: Record<number, Annotation[]> = {};
+  const resolved: ResolvedAnnotation[] = [];
+
+  for (const annotation of annotations) {
+    const diff = diffsByFilename.get(annotation.filename);
+    const outcome = annotationOutcome(annotation, diff);
+    if (outcome === "open") {
+      (byDiff[diff!.id] ??= []).push(annotation);
+    } else {
+      resolved.push({ ...annotation, outcome });
+    }
+  }
+  return { byDiff, resolved };
+}
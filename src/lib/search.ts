@@ -0,0 +1,80 @@
+/**
+ * Full-text search helpers.
+ *
+ * Builds FTS5 MATCH (SQLite) and tsquery (Postgres) expressions from user input
+ * and turns snippets into plain text plus highlight ranges the client can render safely.
+ */
+
+// Control characters used to delimit matches inside snippet() output.
+// They never appear in indexed text, so parsing them back out is unambiguous.
+export const SNIPPET_MATCH_START = "\u0002";
+export const SNIPPET_MATCH_END = "\u0003";
+export const SNIPPET_ELLIPSIS = "…";
+
+export interface ParsedSnippet {
+  snippet: string;
+  highlights: Array<[number, number]>;
+}
+
+/**
+ * Convert free-form user input into an FTS5 MATCH expression.
+ * - Each whitespace-separated token is quoted so FTS5 operators/syntax are treated literally
+ * - The last token gets a prefix wildcard so results update while typing
+ * Returns null if the input has no searchable tokens.
+ */
+export function buildFtsQuery(input: string): string | null {
+  const tokens = input
+    .split(/\s+/)
+    .map((token) => token.replace(/"/g, ""))
+    .filter((token) => token.length > 0);
+
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  return tokens
+    .map((token, i) => (i === tokens.length - 1 ? `"${token}"*` : `"${token}"`))
+    .join(" ");
+}
+
+/**
+ * Split a marker-delimited snippet into plain text and [start, end) highlight ranges.
+ */
+export function parseSnippet(raw: string): ParsedSnippet {
+  const highlights: Array<[number, number]> = [];
+  let snippet = "";
+  let matchStart: number | null = null;
+
+  for (const char of raw) {
+    if (char === SNIPPET_MATCH_START) {
+      matchStart = snippet.length;
+    } else if (char === SNIPPET_MATCH_END) {
+      if (matchStart !== null && snippet.length > matchStart) {
+        highlights.push([matchStart, snippet.length]);
+      }
+      matchStart = null;
+    } else if (/\s/.test(char)) {
+      // Collapse runs of whitespace (diffs and tool output are mostly newlines)
+      if (!snippet.endsWith(" ")) snippet += " ";
+    } else {
+      snippet += char;
+    }
+  }
+
+  return { snippet, highlights };
+}
+
+/**
+ * Postgres counterpart of buildFtsQuery: a to_tsquery expression that matches
+ * every word of the input, with a prefix match on the last one.
+ * Returns null if the input has no searchable words.
+ */
+export function buildTsQuery(input: string): string | null {
+  const words = input.split(/[^\p{L}\p{N}_]+/u).filter((word) => word.length > 0);
+
+  if (words.length === 0) {
+    return null;
+  }
+
+  return words.map((word, i) => (i === words.length - 1 ? `'${word}':*` : `'${word}'`)).join(" & ");
+}
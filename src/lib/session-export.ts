@@ -0,0 +1,315 @@
+/**
+ * Markdown and self-contained HTML exports of a session, for pasting into
+ * PR descriptions and docs or sharing as a single offline file.
+ */
+
+import type { ContentBlock, Diff, Message, Session, ToolResultBlock, ToolUseBlock } from "../db/schema";
+import { buildToolResultMap, escapeHtml, extractText, renderContentBlocks, stripSystemTags } from "../client/blocks";
+
+export interface ExportOptions {
+  /** Include thinking blocks (default: false) */
+  includeThinking?: boolean;
+}
+
+interface Turn {
+  role: string;
+  blocks: ContentBlock[];
+}
+
+/**
+ * Group consecutive messages from the same role into turns, dropping blocks
+ * that aren't exported. Tool results are rendered with their tool call, so
+ * messages carrying only tool results don't start a turn of their own.
+ */
+function groupTurns(messages: Message[], options: ExportOptions): Turn[] {
+  const turns: Turn[] = [];
+
+  for (const message of messages) {
+    const blocks = message.content_blocks.filter((block) => {
+      if (block.type === "tool_result") return false;
+      if (block.type === "thinking") return options.includeThinking === true;
+      if (block.type === "text") return stripSystemTags(block.text).length > 0;
+      return true;
+    });
+    if (blocks.length === 0) continue;
+
+    const last = turns[turns.length - 1];
+    if (last && last.role === message.role) {
+      last.blocks.push(...blocks);
+    } else {
+      turns.push({ role: message.role, blocks });
+    }
+  }
+
+  return turns;
+}
+
+function collectToolResults(messages: Message[]): Map<string, ToolResultBlock> {
+  return buildToolResultMap(messages.flatMap((m) => m.content_blocks));
+}
+
+function roleLabel(role: string): string {
+  return role === "user" ? "User" : role === "assistant" ? "Assistant" : role.charAt(0).toUpperCase() + role.slice(1);
+}
+
+function resultText(result: ToolResultBlock): string {
+  return typeof result.content === "string" ? result.content : extractText(result.content);
+}
+
+/**
+ * Download filename derived from the session title.
+ */
+export function exportFilename(session: Session, extension: string): string {
+  return `${session.title.replace(/[^a-zA-Z0-9]/g, "_")}.${extension}`;
+}
+
+// ============================================================================
+// Markdown
+// ============================================================================
+
+/**
+ * Wrap content in a code fence longer than any backtick run it contains.
+ */
+function fence(content: string, lang = ""): string {
+  const longest = Math.max(2, ...Array.from(content.matchAll(/`+/g), (m) => m[0].length));
+  const ticks = "`".repeat(longest + 1);
+  return `${ticks}${lang}\n${content.replace(/\n$/, "")}\n${ticks}`;
+}
+
+function toolSummary(block: ToolUseBlock): string {
+  const input = block.input ?? {};
+  const value = input.file_path ?? input.command ?? input.pattern ?? input.description ?? input.url ?? input.query;
+  if (typeof value !== "string" || !value) return "";
+  const firstLine = value.split("\n")[0] ?? "";
+  return firstLine.length > 80 ? `${firstLine.slice(0, 80)}...` : firstLine;
+}
+
+function markdownToolBlock(block: ToolUseBlock, result: ToolResultBlock | undefined): string {
+  const summary = toolSummary(block);
+  const status = !result ? "" : result.is_error ? " ✗" : " ✓";
+  const title = `${escapeHtml(block.name)}${summary ? ` <code>${escapeHtml(summary)}</code>` : ""}${status}`;
+
+  const parts = [`<details>\n<summary>${title}</summary>\n`, fence(JSON.stringify(block.input ?? {}, null, 2), "json")];
+  if (result) {
+    const text = resultText(result);
+    if (text.trim()) {
+      parts.push(fence(text));
+    }
+  }
+  parts.push("</details>");
+  return parts.join("\n\n");
+}
+
+function markdownBlock(block: ContentBlock, toolResults: Map<string, ToolResultBlock>): string {
+  switch (block.type) {
+    case "text":
+      return stripSystemTags(block.text);
+    case "tool_use":
+      return markdownToolBlock(block, toolResults.get(block.id));
+    case "thinking":
+      return `<details>\n<summary>Thinking</summary>\n\n${block.thinking.trim()}\n\n</details>`;
+    case "image":
+      return block.source.type === "url" ? `![${block.filename ?? "image"}](${block.source.url})` : `*[image${block.filename ? `: ${block.filename}` : ""}]*`;
+    case "file":
+      return `*[file: ${block.filename}]*`;
+    default:
+      return "";
+  }
+}
+
+function markdownMetadata(session: Session): string {
+  const rows: Array<[string, string | null]> = [
+    ["Project", session.project_path],
+    ["Repository", session.repo_url],
+    ["Branch", session.branch],
+    ["Harness", session.harness],
+    ["Model", session.model],
+    ["Pull request", session.pr_url],
+    ["Created", session.created_at],
+  ];
+  return rows
+    .filter((row): row is [string, string] => !!row[1])
+    .map(([label, value]) => `- **${label}:** ${value}`)
+    .join("\n");
+}
+
+/**
+ * Render a session as Markdown: metadata, conversation turns with tool calls
+ * in collapsible <details> sections, and the diff as fenced `diff` blocks.
+ */
+export function renderSessionMarkdown(
+  session: Session,
+  messages: Message[],
+  diffs: Diff[],
+  options: ExportOptions = {}
+): string {
+  const toolResults = collectToolResults(messages);
+  const sections: string[] = [`# ${session.title}`];
+
+  if (session.description) {
+    sections.push(session.description.split("\n").map((line) => `> ${line}`).join("\n"));
+  }
+
+  const metadata = markdownMetadata(session);
+  if (metadata) {
+    sections.push(metadata);
+  }
+
+  for (const turn of groupTurns(messages, options)) {
+    const body = turn.blocks
+      .map((block) => markdownBlock(block, toolResults))
+      .filter((part) => part.trim())
+      .join("\n\n");
+    sections.push(`## ${roleLabel(turn.role)}\n\n${body}`);
+  }
+
+  if (diffs.length > 0) {
+    const files = diffs.map(
+      (diff) => `### ${diff.filename ?? "unknown"} (+${diff.additions} -${diff.deletions})\n\n${fence(diff.diff_content, "diff")}`
+    );
+    sections.push(`## Changes\n\n${files.join("\n\n")}`);
+  }
+
+  return `${sections.join("\n\n")}\n`;
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+// Subset of the app's Tailwind utilities used by renderContentBlocks, so the
+// export renders without the stylesheet or network access
+const EXPORT_CSS = `
+:root { color-scheme: dark; }
+* { box-sizing: border-box; }
+body { margin: 0; background: #0c0c0c; color: #e4e4e7; font: 14px/1.6 system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; }
+main { max-width: 860px; margin: 0 auto; padding: 32px 20px 64px; }
+h1 { font-size: 22px; margin: 0 0 8px; }
+h2 { font-size: 13px; text-transform: uppercase; letter-spacing: .05em; color: #a1a1aa; margin: 28px 0 8px; }
+h3 { font-size: 13px; font-family: ui-monospace, monospace; margin: 16px 0 6px; }
+pre, code { font-family: "Berkeley Mono", "JetBrains Mono", "Fira Code", ui-monospace, monospace; }
+pre { margin: 0; white-space: pre-wrap; word-break: break-word; }
+button { background: none; border: 0; color: inherit; font: inherit; cursor: pointer; padding: 0; }
+table { border-collapse: collapse; }
+.meta { color: #a1a1aa; font-size: 13px; margin: 0 0 24px; }
+.meta span { margin-right: 16px; }
+.turn { border-top: 1px solid #222; padding-top: 4px; }
+.turn-user .turn-body { background: #1a1a1a; border-radius: 6px; padding: 8px 12px; }
+.turn-body > * + * { margin-top: 6px; }
+.diff { background: #141414; border-radius: 6px; padding: 8px 12px; font-size: 12px; overflow-x: auto; }
+.diff .add { color: #86efac; background: rgba(134, 239, 172, 0.08); display: block; }
+.diff .del { color: #fda4af; background: rgba(253, 164, 175, 0.08); display: block; }
+.diff .hunk { color: #67e8f9; display: block; }
+.copy-code, .copy-result { display: none; }
+.hidden { display: none; }
+.block { display: block; } .inline-block { display: inline-block; } .flex { display: flex; }
+.items-center { align-items: center; } .justify-between { justify-content: space-between; }
+.gap-1 { gap: 4px; } .gap-1\\.5 { gap: 6px; } .shrink-0 { flex-shrink: 0; }
+.min-w-0 { min-width: 0; } .min-w-full { min-width: 100%; } .w-full { width: 100%; } .max-w-\\[300px\\] { max-width: 300px; }
+.w-4 { width: 16px; } .h-4 { height: 16px; } .w-3\\.5 { width: 14px; } .h-3\\.5 { height: 14px; }
+.relative { position: relative; } .absolute { position: absolute; } .top-2 { top: 8px; } .right-2 { right: 8px; }
+.overflow-hidden { overflow: hidden; } .overflow-x-auto { overflow-x: auto; } .overflow-y-auto { overflow-y: auto; } .max-h-64 { max-height: 256px; }
+.truncate { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; } .break-all { word-break: break-all; } .whitespace-pre-wrap { white-space: pre-wrap; }
+.p-1 { padding: 4px; } .p-2 { padding: 8px; } .p-3 { padding: 12px; } .pb-2 { padding-bottom: 8px; }
+.px-1 { padding-left: 4px; padding-right: 4px; } .px-1\\.5 { padding-left: 6px; padding-right: 6px; } .px-2 { padding-left: 8px; padding-right: 8px; } .px-3 { padding-left: 12px; padding-right: 12px; }
+.py-0\\.5 { padding-top: 2px; padding-bottom: 2px; } .py-1 { padding-top: 4px; padding-bottom: 4px; } .py-1\\.5 { padding-top: 6px; padding-bottom: 6px; }
+.pl-1 { padding-left: 4px; } .pl-2 { padding-left: 8px; } .pl-5 { padding-left: 20px; } .pl-6 { padding-left: 24px; } .pr-1\\.5 { padding-right: 6px; } .pr-2 { padding-right: 8px; }
+.mt-0\\.5 { margin-top: 2px; } .mt-1 { margin-top: 4px; } .mt-2 { margin-top: 8px; } .mb-1 { margin-bottom: 4px; } .mb-2 { margin-bottom: 8px; } .my-2 { margin-top: 8px; margin-bottom: 8px; }
+.ml-4 { margin-left: 16px; } .ml-auto { margin-left: auto; } .-ml-0\\.5 { margin-left: -2px; } .-ml-1 { margin-left: -4px; }
+.space-y-0\\.5 > * + * { margin-top: 2px; }
+.rounded { border-radius: 4px; } .rounded-md { border-radius: 6px; }
+.border-b { border-bottom: 1px solid #222; } .border-l-2 { border-left: 2px solid rgba(103, 232, 249, 0.3); }
+.text-left { text-align: left; } .italic { font-style: italic; } .font-mono { font-family: ui-monospace, monospace; }
+.font-medium { font-weight: 500; } .font-semibold { font-weight: 600; }
+.text-xs { font-size: 12px; } .text-sm { font-size: 14px; } .text-\\[13px\\] { font-size: 13px; } .text-\\[10px\\] { font-size: 10px; }
+.leading-snug { line-height: 1.375; } .leading-relaxed { line-height: 1.625; } .opacity-60 { opacity: .6; }
+.text-text-primary { color: #e4e4e7; } .text-text-secondary { color: #a1a1aa; } .text-text-muted { color: #71717a; }
+.text-accent-primary { color: #67e8f9; } .text-diff-add { color: #86efac; } .text-diff-del { color: #fda4af; }
+.bg-bg-primary { background: #0c0c0c; } .bg-bg-tertiary { background: #1a1a1a; } .bg-bg-tertiary\\/30 { background: rgba(26, 26, 26, 0.3); } .bg-bg-elevated { background: #222; }
+.hover\\:bg-bg-elevated:hover { background: #222; } .hover\\:underline:hover { text-decoration: underline; }
+`;
+
+// Expands and collapses tool calls, thinking and command blocks
+const EXPORT_SCRIPT = `
+document.addEventListener("click", function (event) {
+  var toggle = event.target.closest("[data-toggle-tool]");
+  if (!toggle) return;
+  var target = document.getElementById(toggle.getAttribute("data-toggle-tool"));
+  if (!target) return;
+  var hidden = target.classList.toggle("hidden");
+  var icon = toggle.querySelector(".toggle-icon");
+  if (icon) icon.innerHTML = hidden ? "&#9654;" : "&#9660;";
+});
+`;
+
+function htmlDiff(diff: Diff): string {
+  const lines = diff.diff_content
+    .replace(/\n$/, "")
+    .split("\n")
+    .map((line) => {
+      const escaped = escapeHtml(line) || " ";
+      if (line.startsWith("+") && !line.startsWith("+++")) return `<span class="add">${escaped}</span>`;
+      if (line.startsWith("-") && !line.startsWith("---")) return `<span class="del">${escaped}</span>`;
+      if (line.startsWith("@@")) return `<span class="hunk">${escaped}</span>`;
+      return `<span class="block">${escaped}</span>`;
+    })
+    .join("");
+
+  return `<h3>${escapeHtml(diff.filename ?? "unknown")} <span class="text-diff-add">+${diff.additions}</span> <span class="text-diff-del">-${diff.deletions}</span></h3>
+<pre class="diff">${lines}</pre>`;
+}
+
+/**
+ * Render a session as a single self-contained HTML document, using the same
+ * block renderer as the web UI with inlined styles and no external requests.
+ */
+export function renderSessionHtml(
+  session: Session,
+  messages: Message[],
+  diffs: Diff[],
+  options: ExportOptions = {}
+): string {
+  const toolResults = collectToolResults(messages);
+
+  const meta = [
+    session.project_path,
+    session.model,
+    session.harness,
+    session.created_at,
+  ]
+    .filter((value): value is string => !!value)
+    .map((value) => `<span>${escapeHtml(value)}</span>`)
+    .join("");
+
+  const turns = groupTurns(messages, options)
+    .map(
+      (turn) => `<section class="turn turn-${escapeHtml(turn.role)}">
+<h2>${escapeHtml(roleLabel(turn.role))}</h2>
+<div class="turn-body">${renderContentBlocks(turn.blocks, toolResults)}</div>
+</section>`
+    )
+    .join("\n");
+
+  const changes = diffs.length > 0 ? `<section class="changes">\n<h2>Changes</h2>\n${diffs.map(htmlDiff).join("\n")}\n</section>` : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(session.title)}</title>
+<style>${EXPORT_CSS}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(session.title)}</h1>
+${session.description ? `<p class="text-text-secondary">${escapeHtml(session.description)}</p>` : ""}
+<p class="meta">${meta}</p>
+${turns}
+${changes}
+</main>
+<script>${EXPORT_SCRIPT}</script>
+</body>
+</html>
+`;
+}
@@ -1,15 +1,23 @@
 /**
  * Spawned Session Registry
  *
- * Tracks ephemeral state for spawned sessions (browser-initiated via daemon).
- * Persistent data (messages, diffs) is stored in the database.
+ * Tracks runtime state for spawned sessions (browser-initiated via daemon).
+ * Messages and diffs are stored in the database like any other session.
  * This registry tracks:
  * - Daemon connection info (for routing messages)
  * - Runtime status (for quick lookup without DB query)
- * - Permission requests and history
+ * - Pending prompts and permission history
  * - Recovery info for daemon reconnection
+ *
+ * Reads are served from memory. Once restore() has been called, every change
+ * is also written to the database so sessions survive a server restart.
+ * Changes are published to the other server instances as well, which apply
+ * them to their copy once joinCluster() has been called.
  */
 
+import type { SpawnedSessionState } from "../db/schema";
+import { cluster, type ClusterHandler, SPAWNED_SESSIONS_CHANNEL } from "./cluster";
+
 export type SpawnedSessionStatus =
   | "starting"
   | "running"
@@ -27,6 +35,10 @@ export interface PermissionDecision {
   tool: string;
   description: string;
   decision: "allowed" | "denied";
+  /** "policy" when the daemon's auto-safe permission policy decided without asking */
+  decidedBy?: "user" | "policy";
+  /** The policy rule that decided, when decidedBy is "policy" */
+  rule?: string;
   timestamp: Date;
 }
 
@@ -64,23 +76,168 @@ export interface SpawnedSessionRecord {
   exitCode?: number;
   error?: string;
   permissionHistory: PermissionDecision[];
-  pendingPermissionRequest?: {
-    id: string;
-    tool: string;
-    description: string;
-    details: Record<string, unknown>;
-  };
+  pendingPermissionRequest?: PendingPermissionRequest;
+  pendingQuestion?: PendingQuestion;
   recoveryInfo?: SessionRecoveryInfo;
 }
 
+export interface PendingPermissionRequest {
+  id: string;
+  tool: string;
+  description: string;
+  details: Record<string, unknown>;
+  /** Tool input as the daemon sent it, before the redaction policy masked `details` */
+  input?: Record<string, unknown>;
+  /** Set for SDK control requests (as opposed to legacy permission prompts) */
+  toolUseId?: string;
+}
+
+/** An AskUserQuestion waiting for an answer from the browser */
+export interface PendingQuestion {
+  toolUseId: string;
+  question: string;
+  options?: string[];
+}
+
+/**
+ * Persistence for registry records (implemented by SessionRepository).
+ */
+export interface SpawnedSessionStore {
+  saveSpawnedSession(state: Omit<SpawnedSessionState, "updated_at">): Promise<void>;
+  getSpawnedSessions(): Promise<SpawnedSessionState[]>;
+  deleteSpawnedSession(id: string): Promise<void>;
+}
+
+function isFinished(status: SpawnedSessionStatus): boolean {
+  return status === "ended" || status === "failed";
+}
+
+function toState(record: SpawnedSessionRecord): Omit<SpawnedSessionState, "updated_at"> {
+  return {
+    id: record.id,
+    daemon_client_id: record.daemonClientId,
+    status: record.status,
+    // Dates serialize as ISO strings; fromState turns them back into Dates
+    state: JSON.parse(JSON.stringify(record)),
+  };
+}
+
+/** A registry change as published to the other instances; state is null when the session was deleted */
+interface ReplicatedChange {
+  id: string;
+  state: Omit<SpawnedSessionState, "updated_at"> | null;
+}
+
+function fromState(state: Pick<SpawnedSessionState, "state">): SpawnedSessionRecord {
+  const record = state.state as unknown as SpawnedSessionRecord;
+  const date = (value: unknown) => (value ? new Date(value as string) : undefined);
+
+  return {
+    ...record,
+    createdAt: new Date(record.createdAt),
+    lastActivityAt: date(record.lastActivityAt),
+    endedAt: date(record.endedAt),
+    permissionHistory: (record.permissionHistory ?? []).map((decision) => ({
+      ...decision,
+      timestamp: new Date(decision.timestamp),
+    })),
+    recoveryInfo: record.recoveryInfo
+      ? { ...record.recoveryInfo, disconnectedAt: new Date(record.recoveryInfo.disconnectedAt) }
+      : undefined,
+  };
+}
+
 class SpawnedSessionRegistry {
   private sessions = new Map<string, SpawnedSessionRecord>();
+  private store: SpawnedSessionStore | null = null;
+  // Writes are chained so they reach the database in the order they happened
+  private writes: Promise<void> = Promise.resolve();
+  private clusterHandler: ClusterHandler | null = null;
+
+  /**
+   * Load sessions persisted before a restart and write every later change to `store`.
+   *
+   * Unfinished sessions come back as "disconnected" until their daemon re-announces
+   * them (see DaemonConnectionManager.addDaemon), unless `isDaemonConnected` says
+   * their daemon is still connected to another instance. Finished sessions are
+   * dropped from the store.
+   */
+  async restore(
+    store: SpawnedSessionStore,
+    isDaemonConnected: (clientId: string) => boolean = () => false
+  ): Promise<SpawnedSessionRecord[]> {
+    this.store = store;
+    const restored: SpawnedSessionRecord[] = [];
+
+    for (const state of await store.getSpawnedSessions()) {
+      const record = fromState(state);
+      if (isFinished(record.status)) {
+        this.enqueue(record.id, () => store.deleteSpawnedSession(record.id));
+        continue;
+      }
+
+      this.sessions.set(record.id, record);
+      if (record.status !== "disconnected" && !isDaemonConnected(record.daemonClientId)) {
+        if (record.claudeSessionId) {
+          this.updateForRecovery(record.id, record.claudeSessionId);
+        }
+        this.updateSession(record.id, { status: "disconnected", error: "Server restarted" });
+      }
+      restored.push(record);
+    }
+
+    return restored;
+  }
+
+  /**
+   * Apply changes published by other server instances.
+   */
+  async joinCluster(): Promise<void> {
+    if (this.clusterHandler) return;
+
+    this.clusterHandler = (payload) => {
+      const change = payload as ReplicatedChange;
+      if (change.state) {
+        this.sessions.set(change.id, fromState(change.state));
+      } else {
+        this.sessions.delete(change.id);
+      }
+    };
+    await cluster.subscribe(SPAWNED_SESSIONS_CHANNEL, this.clusterHandler);
+  }
+
+  /**
+   * Wait for pending database writes.
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  private enqueue(sessionId: string, write: () => Promise<void>): void {
+    this.writes = this.writes.then(write).catch((error) => {
+      console.error(`[registry] Failed to persist spawned session ${sessionId}:`, error);
+    });
+  }
+
+  private persist(sessionId: string): void {
+    // Snapshot now so later in-memory changes don't leak into this write
+    const session = this.sessions.get(sessionId);
+    const state = session ? toState(session) : null;
+    cluster.publish(SPAWNED_SESSIONS_CHANNEL, { id: sessionId, state } satisfies ReplicatedChange);
+
+    const store = this.store;
+    if (!store) return;
+    this.enqueue(sessionId, () =>
+      state ? store.saveSpawnedSession(state) : store.deleteSpawnedSession(sessionId)
+    );
+  }
 
   createSession(record: Omit<SpawnedSessionRecord, "permissionHistory"> & { permissionHistory?: PermissionDecision[] }): void {
     this.sessions.set(record.id, {
       ...record,
       permissionHistory: record.permissionHistory || [],
     });
+    this.persist(record.id);
   }
 
   getSession(sessionId: string): SpawnedSessionRecord | undefined {
@@ -94,11 +251,13 @@ class SpawnedSessionRegistry {
     const session = this.sessions.get(sessionId);
     if (session) {
       Object.assign(session, updates, { lastActivityAt: new Date() });
+      this.persist(sessionId);
     }
   }
 
   deleteSession(sessionId: string): void {
     this.sessions.delete(sessionId);
+    this.persist(sessionId);
   }
 
   getSessionsByDaemon(clientId: string): SpawnedSessionRecord[] {
@@ -127,19 +286,24 @@ class SpawnedSessionRegistry {
   /**
    * Record a pending permission request for a session.
    */
-  setPendingPermission(
-    sessionId: string,
-    request: {
-      id: string;
-      tool: string;
-      description: string;
-      details: Record<string, unknown>;
-    }
-  ): void {
+  setPendingPermission(sessionId: string, request: PendingPermissionRequest): void {
     const session = this.sessions.get(sessionId);
     if (session) {
       session.pendingPermissionRequest = request;
       session.lastActivityAt = new Date();
+      this.persist(sessionId);
+    }
+  }
+
+  /**
+   * Record an AskUserQuestion waiting for an answer, or clear it (question undefined).
+   */
+  setPendingQuestion(sessionId: string, question: PendingQuestion | undefined): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.pendingQuestion = question;
+      session.lastActivityAt = new Date();
+      this.persist(sessionId);
     }
   }
 
@@ -156,8 +320,12 @@ class SpawnedSessionRegistry {
         ...decision,
         timestamp: new Date(),
       });
-      session.pendingPermissionRequest = undefined;
+      // Policy decisions never went through the browser, so a relayed request may still be pending
+      if (decision.decidedBy !== "policy") {
+        session.pendingPermissionRequest = undefined;
+      }
       session.lastActivityAt = new Date();
+      this.persist(sessionId);
     }
   }
 
@@ -182,6 +350,7 @@ class SpawnedSessionRegistry {
         canResume: true,
         disconnectedAt: new Date(),
       };
+      this.persist(sessionId);
     }
   }
 
@@ -203,10 +372,15 @@ class SpawnedSessionRegistry {
   }
 
   /**
-   * Clear all sessions. Used for testing.
+   * Clear all sessions and stop persisting and replicating. Used for testing.
    */
   clear(): void {
     this.sessions.clear();
+    this.store = null;
+    if (this.clusterHandler) {
+      cluster.unsubscribe(SPAWNED_SESSIONS_CHANNEL, this.clusterHandler);
+      this.clusterHandler = null;
+    }
   }
 }
 
@@ -1,6 +1,8 @@
 import { z } from "zod";
 import { Result } from "better-result";
 import { ValidationError } from "./errors";
+import { WEBHOOK_EVENT_TYPES } from "../db/schema";
+import { MAX_ORG_SLUG_LENGTH, ORG_SLUG_PATTERN } from "./organizations";
 
 // ============================================================================
 // Content Block Schemas
@@ -104,6 +106,8 @@ export const CreateLiveSessionSchema = z.object({
 // POST /api/sessions/:id/messages
 export const PushMessagesSchema = z.object({
   messages: z.array(MessageInputSchema).min(1, "messages array is required"),
+  // Values the CLI redacted from these messages
+  redaction_count: z.number().int().nonnegative().optional(),
 });
 
 // POST /api/sessions/:id/tool-results
@@ -129,9 +133,39 @@ export const PatchSessionSchema = z
   });
 
 // POST /api/sessions/:id/complete
+// Full SHA-1 or SHA-256 commit id
+const GitShaSchema = z.string().regex(/^[0-9a-f]{40}(?:[0-9a-f]{24})?$/, "Invalid commit SHA");
+
+// The commits a diff spans, sent along with it: base_sha is the commit the
+// diff is against, commits are those between it and head_sha (oldest first)
+const DiffCommitsFields = {
+  base_sha: GitShaSchema.optional(),
+  head_sha: GitShaSchema.optional(),
+  commits: z
+    .array(
+      z.object({
+        sha: GitShaSchema,
+        message: z.string().max(10_000),
+        author: z.string().max(200).nullish(),
+        committed_at: z.string().max(40).nullish(),
+      })
+    )
+    .max(100)
+    .optional(),
+};
+
+// PUT /api/sessions/:id/diff with a JSON body (a text/plain body is just the diff)
+export const UpdateDiffSchema = z.object({
+  diff: z.string(),
+  ...DiffCommitsFields,
+});
+
 export const CompleteSessionSchema = z.object({
   final_diff: z.string().optional(),
   summary: z.string().optional(),
+  // Values the CLI redacted from final_diff and commit messages
+  redaction_count: z.number().int().nonnegative().optional(),
+  ...DiffCommitsFields,
 });
 
 // GET /api/stats/timeseries query params
@@ -171,6 +205,8 @@ export const CreateSessionFormSchema = z.object({
   model: z.string().optional(),
   harness: z.string().optional(),
   repo_url: z.string().optional(),
+  // Values the CLI redacted from the session file and diff
+  redaction_count: z.coerce.number().int().nonnegative().optional(),
   // Note: session_file, session_data, diff_file, diff_data, review_* fields
   // are handled separately as they can be Files or need special parsing
 });
@@ -195,7 +231,7 @@ export const UpdateSessionFormSchema = z.object({
 const CollaboratorRoleSchema = z.enum(["viewer", "contributor"]);
 
 // Session visibility enum
-const SessionVisibilitySchema = z.enum(["private", "public"]);
+const SessionVisibilitySchema = z.enum(["private", "public", "org"]);
 
 // POST /api/sessions/:id/collaborators
 export const AddCollaboratorSchema = z.object({
@@ -209,8 +245,23 @@ export const UpdateCollaboratorSchema = z.object({
 });
 
 // PUT /api/sessions/:id/visibility
-export const UpdateVisibilitySchema = z.object({
-  visibility: SessionVisibilitySchema,
+export const UpdateVisibilitySchema = z
+  .object({
+    visibility: SessionVisibilitySchema,
+    org_id: z.string().min(1).nullish(),
+  })
+  .refine((data) => data.visibility !== "org" || data.org_id, {
+    message: "org_id is required for org visibility",
+    path: ["org_id"],
+  });
+
+// GET /api/sessions/:id/annotations query params
+export const AnnotationsQuerySchema = z.object({
+  version: z
+    .string()
+    .regex(/^\d+$/, "version must be a positive integer")
+    .transform((val) => parseInt(val, 10))
+    .optional(),
 });
 
 // GET /api/sessions/:id/audit query params
@@ -221,6 +272,219 @@ export const AuditLogQuerySchema = z.object({
     .transform((val) => (val ? Math.min(parseInt(val, 10), 100) : 50)),
 });
 
+// Organization member role enum
+const OrgRoleSchema = z.enum(["owner", "admin", "member"]);
+
+const OrgNameSchema = z.string().trim().min(1, "Name is required").max(100, "Name is too long");
+
+const OrgSlugSchema = z
+  .string()
+  .trim()
+  .max(MAX_ORG_SLUG_LENGTH, "Slug is too long")
+  .regex(ORG_SLUG_PATTERN, "Slug may only contain lowercase letters, digits and hyphens");
+
+// POST /api/orgs
+export const CreateOrganizationSchema = z.object({
+  name: OrgNameSchema,
+  slug: OrgSlugSchema.optional(),
+});
+
+// PATCH /api/orgs/:id
+export const UpdateOrganizationSchema = z.object({
+  name: OrgNameSchema.optional(),
+  slug: OrgSlugSchema.optional(),
+});
+
+// POST /api/orgs/:id/members
+export const AddOrganizationMemberSchema = z.object({
+  email: z.string().email("Invalid email format"),
+  role: OrgRoleSchema.default("member"),
+});
+
+// PATCH /api/orgs/:id/members/:memberId
+export const UpdateOrganizationMemberSchema = z.object({
+  role: OrgRoleSchema,
+});
+
+// GET /api/sessions/:id/emails query params
+export const EmailLogQuerySchema = z.object({
+  status: z.enum(["sent", "failed", "skipped"]).optional(),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Math.min(parseInt(val, 10), 100) : 50)),
+});
+
+// GET /api/search query params
+export const SearchQuerySchema = z.object({
+  q: z.string().trim().min(2, "Search query must be at least 2 characters").max(200, "Search query is too long"),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Math.min(parseInt(val, 10) || 20, 100) : 20)),
+});
+
+// GET /api/sessions/:id/export query params
+export const ExportQuerySchema = z.object({
+  format: z.enum(["json", "markdown", "html"]).default("json"),
+  thinking: z
+    .string()
+    .transform((val) => val === "true")
+    .optional(),
+});
+
+// GET /api/sessions/:id/diffs query params: the diff after a message (at),
+// or the changes between the diffs after two messages (from, to)
+const MessageIndexParam = z.coerce.number().int().min(0);
+export const DiffsQuerySchema = z
+  .object({
+    at: MessageIndexParam.optional(),
+    from: MessageIndexParam.optional(),
+    to: MessageIndexParam.optional(),
+  })
+  .refine((q) => (q.from === undefined) === (q.to === undefined), {
+    message: "from and to must be given together",
+  })
+  .refine((q) => q.at === undefined || q.from === undefined, {
+    message: "at can't be combined with from and to",
+  });
+
+const ReviewCommentContentSchema = z
+  .string()
+  .trim()
+  .min(1, "Comment can't be empty")
+  .max(10000, "Comment is too long");
+
+// POST /api/sessions/:id/review-threads
+export const CreateReviewThreadSchema = z.object({
+  diff_id: z.number().int().positive(),
+  side: z.enum(["additions", "deletions"]),
+  line_number: z.number().int().min(1),
+  content: ReviewCommentContentSchema,
+});
+
+// POST /api/sessions/:id/review-threads/:threadId/comments
+export const AddReviewCommentSchema = z.object({
+  content: ReviewCommentContentSchema,
+});
+
+// PATCH /api/sessions/:id/review-threads/:threadId
+export const UpdateReviewThreadSchema = z.object({
+  resolved: z.boolean(),
+});
+
+// POST /api/sessions/import - the bundle produced by GET /api/sessions/:id/export
+const ImportedSessionSchema = z.object({
+  title: z.string().min(1, "session.title is required"),
+  description: z.string().nullish(),
+  claude_session_id: z.string().nullish(),
+  agent_session_id: z.string().nullish(),
+  pr_url: z.string().nullish(),
+  project_path: z.string().nullish(),
+  model: z.string().nullish(),
+  harness: z.string().nullish(),
+  repo_url: z.string().nullish(),
+  branch: z.string().nullish(),
+  status: z.enum(["live", "complete", "archived"]).optional(),
+  interactive: z.boolean().optional(),
+  remote: z.boolean().optional(),
+  last_activity_at: z.string().nullish(),
+  created_at: z.string().nullish(),
+  updated_at: z.string().nullish(),
+  input_tokens: z.number().int().nonnegative().default(0),
+  output_tokens: z.number().int().nonnegative().default(0),
+  cache_creation_tokens: z.number().int().nonnegative().default(0),
+  cache_read_tokens: z.number().int().nonnegative().default(0),
+  redaction_count: z.number().int().nonnegative().default(0),
+});
+
+const ImportedMessageSchema = z.object({
+  role: z.string().min(1),
+  content: z.string().default(""),
+  content_blocks: z.array(ContentBlockSchema).default([]),
+  timestamp: z.string().nullish(),
+  message_index: z.number().int().nonnegative(),
+  user_id: z.string().nullish(),
+});
+
+const ImportedDiffSchema = z.object({
+  id: z.number().int().optional(),
+  filename: z.string().nullable(),
+  diff_content: z.string(),
+  diff_index: z.number().int().nonnegative(),
+  additions: z.number().int().nonnegative().default(0),
+  deletions: z.number().int().nonnegative().default(0),
+  is_session_relevant: z.boolean().default(true),
+  status: z.enum(["added", "removed", "modified"]).default("modified"),
+});
+
+const ImportedAnnotationSchema = z.object({
+  diff_id: z.number().int(),
+  line_number: z.number().int(),
+  side: z.enum(["additions", "deletions"]),
+  annotation_type: z.enum(["suggestion", "issue", "praise", "question"]),
+  content: z.string(),
+});
+
+export const ImportSessionSchema = z
+  .object({
+    session: ImportedSessionSchema,
+    messages: z.array(ImportedMessageSchema).default([]),
+    diffs: z.array(ImportedDiffSchema).default([]),
+    review: z
+      .object({
+        summary: z.string(),
+        model: z.string().nullish(),
+        prompt_hash: z.string().nullish(),
+        created_at: z.string().nullish(),
+      })
+      .nullish(),
+    annotations: z.array(ImportedAnnotationSchema).default([]),
+  })
+  .refine((data) => data.annotations.length === 0 || !!data.review, {
+    message: "annotations require a review",
+    path: ["annotations"],
+  });
+
+// ============================================================================
+// Webhook Schemas
+// ============================================================================
+
+const WebhookUrlSchema = z
+  .string()
+  .refine(isValidHttpUrl, { message: "Invalid URL - must be a valid HTTP(S) URL" });
+
+const WebhookEventsSchema = z
+  .array(z.enum(WEBHOOK_EVENT_TYPES))
+  .min(1, "Select at least one event")
+  .transform((events) => [...new Set(events)]);
+
+// POST /api/webhooks
+export const CreateWebhookSchema = z.object({
+  url: WebhookUrlSchema,
+  // Organization to create the webhook for; the caller's own sessions otherwise
+  org_id: z.string().min(1).nullish(),
+  events: WebhookEventsSchema,
+  description: z.string().max(200).nullish(),
+  active: z.boolean().default(true),
+});
+
+// PATCH /api/webhooks/:id
+export const UpdateWebhookSchema = z.object({
+  url: WebhookUrlSchema.optional(),
+  events: WebhookEventsSchema.optional(),
+  description: z.string().max(200).nullish(),
+  active: z.boolean().optional(),
+});
+
+// GET /api/webhooks/:id/deliveries query params
+export const WebhookDeliveriesQuerySchema = z.object({
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Math.min(parseInt(val, 10) || 50, 100) : 50)),
+});
+
 // ============================================================================
 // Validation Helpers
 // ============================================================================
@@ -357,6 +621,7 @@ export type PushMessages = z.infer<typeof PushMessagesSchema>;
 export type PushToolResults = z.infer<typeof PushToolResultsSchema>;
 export type PatchSession = z.infer<typeof PatchSessionSchema>;
 export type CompleteSession = z.infer<typeof CompleteSessionSchema>;
+export type UpdateDiff = z.infer<typeof UpdateDiffSchema>;
 export type TimeseriesQuery = z.infer<typeof TimeseriesQuerySchema>;
 export type CreateSessionForm = z.infer<typeof CreateSessionFormSchema>;
 export type UpdateSessionForm = z.infer<typeof UpdateSessionFormSchema>;
@@ -364,3 +629,17 @@ export type AddCollaborator = z.infer<typeof AddCollaboratorSchema>;
 export type UpdateCollaborator = z.infer<typeof UpdateCollaboratorSchema>;
 export type UpdateVisibility = z.infer<typeof UpdateVisibilitySchema>;
 export type AuditLogQuery = z.infer<typeof AuditLogQuerySchema>;
+export type EmailLogQuery = z.infer<typeof EmailLogQuerySchema>;
+export type CreateOrganization = z.infer<typeof CreateOrganizationSchema>;
+export type UpdateOrganization = z.infer<typeof UpdateOrganizationSchema>;
+export type AddOrganizationMember = z.infer<typeof AddOrganizationMemberSchema>;
+export type UpdateOrganizationMember = z.infer<typeof UpdateOrganizationMemberSchema>;
+export type SearchQuery = z.infer<typeof SearchQuerySchema>;
+export type ExportQuery = z.infer<typeof ExportQuerySchema>;
+export type DiffsQuery = z.infer<typeof DiffsQuerySchema>;
+export type CreateReviewThread = z.infer<typeof CreateReviewThreadSchema>;
+export type AddReviewComment = z.infer<typeof AddReviewCommentSchema>;
+export type UpdateReviewThread = z.infer<typeof UpdateReviewThreadSchema>;
+export type ImportSession = z.infer<typeof ImportSessionSchema>;
+export type CreateWebhook = z.infer<typeof CreateWebhookSchema>;
+export type UpdateWebhook = z.infer<typeof UpdateWebhookSchema>;
@@ -0,0 +1,389 @@
+/**
+ * Outbound webhooks for session lifecycle events.
+ *
+ * Events for a session go to the active webhooks of the session's owner (its
+ * user or CLI client), and of its organization for sessions shared with one,
+ * that subscribe to them. Each delivery is stored before
+ * it is attempted, so failed deliveries are retried with backoff - also after
+ * a restart or by another instance - and every attempt shows up in the
+ * delivery log.
+ *
+ * Requests are signed: X-Openctl-Signature is "sha256=" followed by the hex
+ * HMAC-SHA256 of "<X-Openctl-Timestamp>.<body>", keyed with the webhook secret.
+ *
+ * Any signed-in user can add a webhook, and responses show up in the delivery
+ * log, so deliveries to hosts that resolve to loopback, private or link-local
+ * addresses are refused (unless WEBHOOK_ALLOW_PRIVATE_TARGETS=true, for
+ * self-hosted servers calling internal services). The request is sent to the
+ * address that was checked, so the host can't resolve somewhere else by the
+ * time it connects (DNS rebinding). Redirects aren't followed.
+ */
+
+import { createHmac, randomBytes } from "crypto";
+import { checkServerIdentity } from "tls";
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+import { isPrivateAddress } from "./private-addresses";
+import type { SessionRepository } from "../db/repository";
+import type { Session, Webhook, WebhookDelivery, WebhookDeliveryEvent, WebhookEventType } from "../db/schema";
+
+/** Delay before each retry; a delivery is attempted at most once more than this has entries */
+export const WEBHOOK_RETRY_DELAYS_MS = [
+  60_000, // 1 minute
+  5 * 60_000, // 5 minutes
+  30 * 60_000, // 30 minutes
+  2 * 60 * 60_000, // 2 hours
+  6 * 60 * 60_000, // 6 hours
+];
+
+const REQUEST_TIMEOUT_MS = 10_000;
+// How long a claimed delivery is hidden from other instances; longer than a request can take
+const CLAIM_LEASE_MS = 60_000;
+const RETRY_POLL_INTERVAL_MS = 15_000;
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+export interface WebhookPayload {
+  id: string;
+  event: WebhookDeliveryEvent;
+  created_at: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookDispatcherOptions {
+  /** Used for session links in payloads (PUBLIC_URL by default) */
+  baseUrl?: string;
+  retryDelaysMs?: number[];
+  fetch?: (url: string, init: BunFetchRequestInit) => Promise<Response>;
+  /** Addresses a hostname resolves to (DNS by default) */
+  resolveHost?: (hostname: string) => Promise<string[]>;
+  /** Deliver to private and loopback addresses (WEBHOOK_ALLOW_PRIVATE_TARGETS by default) */
+  allowPrivateTargets?: boolean;
+  now?: () => Date;
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+// Time-ordered, so IDs created in the same second still sort by creation
+function generateId(prefix: string): string {
+  const timestamp = Date.now().toString(36);
+  const randomPart = crypto.randomUUID().replace(/-/g, "").substring(0, 8);
+  return `${prefix}_${timestamp}_${randomPart}`;
+}
+
+export function generateWebhookId(): string {
+  return generateId("wh");
+}
+
+// Timestamps are stored in SQLite's format (YYYY-MM-DD HH:MM:SS, UTC) on both backends
+function toSqlTimestamp(date: Date): string {
+  return date.toISOString().replace("T", " ").slice(0, 19);
+}
+
+/**
+ * Per-file and total line counts for diff.updated payloads.
+ */
+export function summarizeDiffs(diffs: Array<{ filename: string | null; additions: number; deletions: number; status?: string }>) {
+  const files = diffs.map((d) => ({
+    filename: d.filename || "unknown",
+    additions: d.additions || 0,
+    deletions: d.deletions || 0,
+    status: d.status ?? "modified",
+  }));
+  return {
+    files_changed: files.length,
+    additions: files.reduce((sum, f) => sum + f.additions, 0),
+    deletions: files.reduce((sum, f) => sum + f.deletions, 0),
+    files,
+  };
+}
+
+export class WebhookDispatcher {
+  private readonly baseUrl: string | null;
+  private readonly retryDelaysMs: number[];
+  private readonly fetch: (url: string, init: BunFetchRequestInit) => Promise<Response>;
+  private readonly resolveHost: (hostname: string) => Promise<string[]>;
+  private readonly allowPrivateTargets: boolean;
+  private readonly now: () => Date;
+  private retryInterval: ReturnType<typeof setInterval> | null = null;
+  // Attempts started by emit(), so tests and shutdown can wait for them
+  private inflight = new Set<Promise<void>>();
+
+  constructor(
+    private readonly repo: SessionRepository,
+    options: WebhookDispatcherOptions = {}
+  ) {
+    this.baseUrl = (options.baseUrl ?? process.env.PUBLIC_URL)?.replace(/\/$/, "") || null;
+    this.retryDelaysMs = options.retryDelaysMs ?? WEBHOOK_RETRY_DELAYS_MS;
+    this.fetch = options.fetch ?? ((url, init) => fetch(url, init));
+    this.resolveHost =
+      options.resolveHost ?? ((hostname) => lookup(hostname, { all: true }).then((records) => records.map((r) => r.address)));
+    this.allowPrivateTargets = options.allowPrivateTargets ?? process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === "true";
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Start retrying failed deliveries in the background.
+   */
+  start(): void {
+    if (this.retryInterval) return;
+    this.retryInterval = setInterval(() => {
+      this.processDue().catch((error) => {
+        console.error("[webhooks] Retry pass failed:", error);
+      });
+    }, RETRY_POLL_INTERVAL_MS);
+  }
+
+  async stop(): Promise<void> {
+    if (this.retryInterval) {
+      clearInterval(this.retryInterval);
+      this.retryInterval = null;
+    }
+    await this.drain();
+  }
+
+  /**
+   * Wait for delivery attempts started by emit().
+   */
+  async drain(): Promise<void> {
+    while (this.inflight.size > 0) {
+      await Promise.all(this.inflight);
+    }
+  }
+
+  /**
+   * Queue `event` for the subscribed webhooks of the session's owner and
+   * organization, and attempt delivery in the background. Never throws:
+   * webhooks must not break the request that triggered them.
+   */
+  async emit(event: WebhookEventType, sessionId: string, data: Record<string, unknown> = {}): Promise<void> {
+    try {
+      const sessionResult = await this.repo.getSession(sessionId);
+      if (sessionResult.isErr()) return;
+      const session = sessionResult.unwrap();
+
+      const webhooks = [
+        ...(await this.repo.getWebhooksForOwner(session.user_id, session.client_id, { activeOnly: true })),
+        ...(session.org_id ? await this.repo.getWebhooksForOrg(session.org_id, { activeOnly: true }) : []),
+      ].filter((webhook) => webhook.events.includes(event));
+
+      for (const webhook of webhooks) {
+        const delivery = await this.queue(webhook, event, session.id, { session: this.sessionSummary(session), ...data });
+        this.track(this.attempt(delivery).then(() => {}));
+      }
+    } catch (error) {
+      console.error(`[webhooks] Failed to emit ${event} for session ${sessionId}:`, error);
+    }
+  }
+
+  /**
+   * Send a "ping" to `webhook` now, for the settings page's test button.
+   * Attempted once, regardless of whether the webhook is active.
+   */
+  async sendTest(webhook: Webhook): Promise<WebhookDelivery> {
+    const delivery = await this.queue(webhook, "ping", null, {
+      webhook: { id: webhook.id, url: webhook.url, events: webhook.events },
+    });
+    return (await this.attempt(delivery, { retry: false, requireActive: false }))!;
+  }
+
+  /**
+   * Attempt every delivery whose retry is due.
+   */
+  async processDue(): Promise<void> {
+    const due = await this.repo.getDueWebhookDeliveries(toSqlTimestamp(this.now()));
+    for (const delivery of due) {
+      await this.attempt(delivery);
+    }
+  }
+
+  private track(promise: Promise<void>): void {
+    const tracked = promise
+      .catch((error) => {
+        console.error("[webhooks] Delivery attempt failed:", error);
+      })
+      .finally(() => {
+        this.inflight.delete(tracked);
+      });
+    this.inflight.add(tracked);
+  }
+
+  private sessionSummary(session: Session): Record<string, unknown> {
+    return {
+      id: session.id,
+      title: session.title,
+      status: session.status,
+      model: session.model,
+      harness: session.harness,
+      project_path: session.project_path,
+      repo_url: session.repo_url,
+      branch: session.branch,
+      interactive: session.interactive,
+      remote: session.remote,
+      created_at: session.created_at,
+      url: this.baseUrl ? `${this.baseUrl}/sessions/${session.id}` : null,
+    };
+  }
+
+  private queue(
+    webhook: Webhook,
+    event: WebhookDeliveryEvent,
+    sessionId: string | null,
+    data: Record<string, unknown>
+  ): Promise<WebhookDelivery> {
+    const id = generateId("whd");
+    const now = this.now();
+    const payload: WebhookPayload = { id, event, created_at: now.toISOString(), data };
+
+    return this.repo.createWebhookDelivery({
+      id,
+      webhook_id: webhook.id,
+      event_type: event,
+      session_id: sessionId,
+      payload: JSON.stringify(payload),
+      next_attempt_at: toSqlTimestamp(now),
+    });
+  }
+
+  /**
+   * Claim and attempt a pending delivery, then record the outcome: succeeded,
+   * pending with a retry scheduled, or failed once retries are exhausted.
+   * Returns null if another attempt claimed it first.
+   */
+  private async attempt(
+    delivery: WebhookDelivery,
+    options: { retry?: boolean; requireActive?: boolean } = {}
+  ): Promise<WebhookDelivery | null> {
+    const { retry = true, requireActive = true } = options;
+
+    const now = this.now();
+    const leaseUntil = toSqlTimestamp(new Date(now.getTime() + CLAIM_LEASE_MS));
+    if (!delivery.next_attempt_at || !(await this.repo.claimWebhookDelivery(delivery.id, delivery.next_attempt_at, leaseUntil))) {
+      return null;
+    }
+
+    const attempts = delivery.attempts + 1;
+    const attemptedAt = toSqlTimestamp(now);
+
+    const webhookResult = await this.repo.getWebhook(delivery.webhook_id);
+    if (webhookResult.isErr() || (requireActive && !webhookResult.unwrap().active)) {
+      return this.repo.recordWebhookAttempt(delivery.id, {
+        status: "failed",
+        attempts: delivery.attempts,
+        next_attempt_at: null,
+        last_attempt_at: delivery.last_attempt_at,
+        response_status: null,
+        response_body: null,
+        error: "Webhook is disabled",
+      });
+    }
+    const webhook = webhookResult.unwrap();
+
+    const outcome = await this.send(webhook, delivery);
+    const retryDelay = this.retryDelaysMs[attempts - 1];
+
+    return this.repo.recordWebhookAttempt(delivery.id, {
+      status: outcome.ok ? "succeeded" : retry && retryDelay !== undefined ? "pending" : "failed",
+      attempts,
+      next_attempt_at: !outcome.ok && retry && retryDelay !== undefined
+        ? toSqlTimestamp(new Date(now.getTime() + retryDelay))
+        : null,
+      last_attempt_at: attemptedAt,
+      response_status: outcome.status,
+      response_body: outcome.body,
+      error: outcome.error,
+    });
+  }
+
+  private async send(
+    webhook: Webhook,
+    delivery: WebhookDelivery
+  ): Promise<{ ok: boolean; status: number | null; body: string | null; error: string | null }> {
+    const timestamp = Math.floor(this.now().getTime() / 1000);
+
+    try {
+      const target = await this.resolveTarget(webhook.url);
+      if ("error" in target) {
+        return { ok: false, status: null, body: null, error: target.error };
+      }
+
+      const res = await this.fetch(target.url, {
+        method: "POST",
+        headers: {
+          ...target.headers,
+          "Content-Type": "application/json",
+          "User-Agent": "openctl-webhooks",
+          "X-Openctl-Event": delivery.event_type,
+          "X-Openctl-Delivery": delivery.id,
+          "X-Openctl-Timestamp": String(timestamp),
+          "X-Openctl-Signature": signWebhookPayload(webhook.secret, timestamp, delivery.payload),
+        },
+        body: delivery.payload,
+        tls: target.tls,
+        redirect: "manual",
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      const body = (await res.text().catch(() => "")).slice(0, MAX_RESPONSE_BODY_LENGTH);
+
+      return {
+        ok: res.ok,
+        status: res.status,
+        body: body || null,
+        error: res.ok ? null : `HTTP ${res.status}`,
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        status: null,
+        body: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Where to send a delivery for `url`, or why it is refused. Every address
+   * the host resolves to has to be public, and the request is pinned to the
+   * first of them: the URL gets the address, while the Host header and the
+   * TLS server name and certificate check keep the original host.
+   */
+  private async resolveTarget(
+    url: string
+  ): Promise<{ error: string } | { url: string; headers: Record<string, string>; tls?: BunFetchRequestInit["tls"] }> {
+    if (this.allowPrivateTargets) return { url, headers: {} };
+
+    const parsed = new URL(url);
+    const hostname = parsed.hostname.replace(/^\[|\]$/g, "");
+    if (hostname === "localhost" || hostname.endsWith(".localhost")) {
+      return { error: "Webhook URL points to a private address" };
+    }
+
+    if (isIP(hostname)) {
+      return isPrivateAddress(hostname) ? { error: "Webhook URL points to a private address" } : { url, headers: {} };
+    }
+
+    const addresses = await this.resolveHost(hostname);
+    if (addresses.some(isPrivateAddress)) {
+      return { error: "Webhook URL points to a private address" };
+    }
+    const address = addresses[0];
+    if (!address) {
+      return { error: `Could not resolve ${hostname}` };
+    }
+
+    const pinned = new URL(url);
+    pinned.hostname = isIP(address) === 6 ? `[${address}]` : address;
+    return {
+      url: pinned.href,
+      headers: { Host: parsed.host },
+      tls: parsed.protocol === "https:"
+        ? { serverName: hostname, checkServerIdentity: (_host, cert) => checkServerIdentity(hostname, cert) }
+        : undefined,
+    };
+  }
+}
@@ -1,18 +1,33 @@
 import { SessionRepository } from "../db/repository";
-import type { Message, Diff, DiffStatus, ContentBlock, ToolUseBlock, ToolResultBlock, ImageBlock, SessionStatus, AnnotationType, StatType, CollaboratorRole, SessionVisibility } from "../db/schema";
+import type { Message, Diff, DiffStatus, ContentBlock, ToolUseBlock, ToolResultBlock, ImageBlock, SessionStatus, AnnotationType, StatType, CollaboratorRole, SessionVisibility, ContentRedactedProperties, Session, SessionCommit, Webhook, Organization, OrganizationMember, ReviewThreadWithComments, ReviewThreadView } from "../db/schema";
+import { WEBHOOK_EVENT_TYPES } from "../db/schema";
 import { normalizeEmail, isValidEmail } from "../lib/email";
+import { decodeRepoId, getRepoDisplayName } from "../lib/repositories";
 import { getUserDisplayInfo } from "../lib/clerk";
 import { getDateRange, parsePeriod, fillTimeseriesGaps } from "../analytics/queries";
 import { AnalyticsRecorder } from "../analytics/events";
 import { getClientId, getClientIP } from "../utils/request";
 import { daemonConnections } from "../lib/daemon-connections";
 import { spawnedSessionRegistry } from "../lib/spawned-session-registry";
+import { cluster, sessionChannel, type ClusterHandler } from "../lib/cluster";
 import { spawnSessionLimiter } from "../lib/rate-limiter";
 import { logSessionStarted } from "../lib/audit-log";
 import { getAdapterById, getFileModifyingToolsForAdapter, extractFilePathFromTool } from "../../cli/adapters";
 import type { AdapterUIConfig } from "../../cli/adapters";
 import { extractAuth, requireAuth, type AuthContext } from "../middleware/auth";
+import { Result } from "better-result";
 import { errorToResponse } from "../lib/api-helpers";
+import { rejectionHits, type PolicyOutcome, type RedactionPolicy } from "../lib/redaction-policy";
+import { NotFoundError, type ContentRejectedError } from "../lib/errors";
+import { exportFilename, renderSessionHtml, renderSessionMarkdown } from "../lib/session-export";
+import { compareSnapshots } from "../lib/diff-snapshots";
+import { placeAnnotations } from "../lib/review-versions";
+import { WebhookDispatcher, generateWebhookId, generateWebhookSecret, summarizeDiffs } from "../lib/webhooks";
+import type { Mailer, SharingEmail } from "../lib/mailer";
+import type { GitHubRepoAccess } from "../lib/github-access";
+import type { ReviewRequestEvent, ReviewThreadEvent } from "./websocket-types";
+import { buildReviewDiff, finishPendingReview, getPendingReview, setPendingReview, MAX_REVIEW_DIFF_BYTES, type PendingReview } from "../lib/review-requests";
+import { canAssignRole, canManageMembers, generateOrganizationId, slugify } from "../lib/organizations";
 import {
   validateJson,
   validateFormData,
@@ -23,6 +38,7 @@ import {
   PushToolResultsSchema,
   PatchSessionSchema,
   CompleteSessionSchema,
+  UpdateDiffSchema,
   CreateSessionFormSchema,
   UpdateSessionFormSchema,
   TimeseriesQuerySchema,
@@ -30,6 +46,23 @@ import {
   UpdateCollaboratorSchema,
   UpdateVisibilitySchema,
   AuditLogQuerySchema,
+  AnnotationsQuerySchema,
+  EmailLogQuerySchema,
+  CreateOrganizationSchema,
+  UpdateOrganizationSchema,
+  AddOrganizationMemberSchema,
+  UpdateOrganizationMemberSchema,
+  SearchQuerySchema,
+  ExportQuerySchema,
+  DiffsQuerySchema,
+  CreateReviewThreadSchema,
+  AddReviewCommentSchema,
+  UpdateReviewThreadSchema,
+  ImportSessionSchema,
+  CreateWebhookSchema,
+  UpdateWebhookSchema,
+  WebhookDeliveriesQuerySchema,
+  type UpdateDiff,
 } from "../lib/validation";
 
 // Helper to calculate content length from content blocks
@@ -162,8 +195,223 @@ function normalizeRemoteSessionStatus<T extends { id: string; remote?: boolean;
   return session;
 }
 
-export function createApiRoutes(repo: SessionRepository) {
+export interface ApiRoutesOptions {
+  /** Server-side redaction policy enforced on uploaded and streamed content */
+  redactionPolicy?: RedactionPolicy | null;
+  /** Outbound webhooks; the server passes the dispatcher that also runs retries */
+  webhooks?: WebhookDispatcher;
+  /** Collaborator emails; null or omitted when SMTP isn't configured */
+  mailer?: Mailer | null;
+  /** Repository-based access; null or omitted when GITHUB_REPO_ACCESS is off */
+  githubAccess?: GitHubRepoAccess | null;
+}
+
+// Maximum webhooks per user, client or organization
+const MAX_WEBHOOKS = 20;
+
+// Maximum members per organization
+const MAX_ORG_MEMBERS = 500;
+
+// Webhooks as returned by the API; the secret is only shown once, on creation
+function publicWebhook({ secret: _secret, ...webhook }: Webhook): Omit<Webhook, "secret"> {
+  return webhook;
+}
+
+export function createApiRoutes(repo: SessionRepository, options: ApiRoutesOptions = {}) {
   const analytics = new AnalyticsRecorder(repo);
+  const redactionPolicy = options.redactionPolicy ?? null;
+  const webhooks = options.webhooks ?? new WebhookDispatcher(repo);
+  const mailer = options.mailer ?? null;
+  const githubAccess = options.githubAccess ?? null;
+
+  /**
+   * Details shared by the sharing emails: the session and who made the change.
+   */
+  async function sharingEmail(session: Session, to: string, actorUserId: string): Promise<SharingEmail> {
+    const actor = await getUserDisplayInfo(actorUserId);
+    return {
+      sessionId: session.id,
+      sessionTitle: session.title,
+      to,
+      actorUserId,
+      actorName: actor?.name ?? actor?.email ?? null,
+    };
+  }
+
+  /**
+   * Run content through the redaction policy (if configured) and record hits.
+   * Rejections are recorded immediately; masked hits are recorded when the
+   * session already exists (new uploads record them once the session is created).
+   */
+  async function enforceRedactionPolicy<T>(
+    value: T,
+    apply: (policy: RedactionPolicy) => Result<PolicyOutcome<T>, ContentRejectedError>,
+    context: { sessionId?: string; source: ContentRedactedProperties["source"]; clientId?: string }
+  ): Promise<Result<PolicyOutcome<T>, ContentRejectedError>> {
+    if (!redactionPolicy) {
+      return Result.ok({ value, hits: [], masked: 0 });
+    }
+
+    const result = apply(redactionPolicy);
+    if (result.isErr()) {
+      await analytics.recordRedactionHits(context.sessionId, context.source, rejectionHits(result.error), {
+        clientId: context.clientId,
+      });
+      return result;
+    }
+
+    if (context.sessionId) {
+      await analytics.recordRedactionHits(context.sessionId, context.source, result.unwrap().hits, {
+        clientId: context.clientId,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Check the commits sent with a diff against the redaction policy. Returns
+   * null when the diff came without its base and head.
+   */
+  async function checkDiffCommits(
+    sessionId: string,
+    info: Pick<UpdateDiff, "base_sha" | "head_sha" | "commits">,
+    clientId: string | null
+  ): Promise<Result<{ baseSha: string; headSha: string; commits: Array<Pick<SessionCommit, "sha" | "message" | "author" | "committed_at">>; masked: number } | null, ContentRejectedError>> {
+    if (!info.base_sha || !info.head_sha) {
+      return Result.ok(null);
+    }
+
+    const commits = (info.commits ?? []).map((c) => ({
+      sha: c.sha,
+      message: c.message,
+      author: c.author ?? null,
+      committed_at: c.committed_at ?? null,
+    }));
+    const policyResult = await enforceRedactionPolicy(commits, (policy) => policy.applyToValue(commits), {
+      sessionId,
+      source: "diff",
+      clientId: clientId || undefined,
+    });
+    if (policyResult.isErr()) {
+      return Result.err(policyResult.error);
+    }
+
+    const { value, masked } = policyResult.unwrap();
+    return Result.ok({ baseSha: info.base_sha, headSha: info.head_sha, commits: value, masked });
+  }
+
+  /**
+   * Load a webhook the caller manages: their own, or their organization's if
+   * they are an admin or owner there. Other webhooks are reported as not found
+   * rather than forbidden.
+   */
+  async function getOwnedWebhook(auth: AuthContext, webhookId: string): Promise<Result<Webhook, NotFoundError>> {
+    const result = await repo.getWebhook(webhookId);
+    if (result.isErr()) return result;
+
+    const webhook = result.unwrap();
+    let isOwner: boolean;
+    if (webhook.org_id) {
+      const membershipResult = await getOrgMembership(auth, webhook.org_id);
+      isOwner = membershipResult.isOk() && canManageMembers(membershipResult.unwrap().membership.role);
+    } else {
+      isOwner =
+        Boolean(auth.userId && webhook.user_id === auth.userId) ||
+        Boolean(auth.clientId && webhook.client_id === auth.clientId);
+    }
+    if (!isOwner) {
+      return Result.err(new NotFoundError({ resource: "webhook", id: webhookId }));
+    }
+    return Result.ok(webhook);
+  }
+
+  /**
+   * Load an organization and the caller's membership in it. Organizations the
+   * caller doesn't belong to are reported as not found rather than forbidden.
+   */
+  async function getOrgMembership(
+    auth: AuthContext,
+    orgId: string
+  ): Promise<Result<{ org: Organization; membership: OrganizationMember }, NotFoundError>> {
+    const org = await repo.getOrganization(orgId);
+    const userInfo = org && auth.userId ? await getUserDisplayInfo(auth.userId) : null;
+    const membership = org ? await repo.getOrganizationMembership(org.id, auth.userId, userInfo?.email ?? null) : null;
+    if (!org || !membership) {
+      return Result.err(new NotFoundError({ resource: "organization", id: orgId }));
+    }
+    return Result.ok({ org, membership });
+  }
+
+  /**
+   * Whether the caller can view a session. Shared, remote and public sessions
+   * are open to anyone; others need ownership, collaboration, org membership
+   * or repository access.
+   */
+  async function canViewSession(auth: AuthContext, session: Session): Promise<boolean> {
+    if (session.share_token || session.remote || session.visibility === "public") {
+      return true;
+    }
+    const userInfo = auth.userId ? await getUserDisplayInfo(auth.userId) : null;
+    const { allowed } = await repo.verifySessionAccess(
+      session.id,
+      auth.userId,
+      auth.clientId,
+      userInfo?.email,
+      githubAccess?.checkFor(auth.userId)
+    );
+    return allowed;
+  }
+
+  /**
+   * Whether the caller can leave review comments: signed-in owners and
+   * collaborators (any role). Comments are attributed to a user, so
+   * client-only auth isn't enough.
+   */
+  async function canReview(auth: AuthContext, sessionId: string): Promise<boolean> {
+    if (!auth.userId) return false;
+
+    const ownershipResult = await repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
+    if (ownershipResult.isOk() && ownershipResult.unwrap().isOwner) return true;
+    if (await repo.getCollaboratorByUserId(sessionId, auth.userId)) return true;
+
+    const userInfo = await getUserDisplayInfo(auth.userId);
+    return !!userInfo?.email && !!(await repo.getCollaboratorByEmail(sessionId, userInfo.email));
+  }
+
+  /**
+   * Attach author display info to a review thread's comments.
+   */
+  async function withReviewAuthors(thread: ReviewThreadWithComments): Promise<ReviewThreadView> {
+    const [comments, resolvedBy] = await Promise.all([
+      Promise.all(thread.comments.map(async (c) => ({ ...c, author: await getUserDisplayInfo(c.author_user_id) }))),
+      thread.resolved_by_user_id ? getUserDisplayInfo(thread.resolved_by_user_id) : null,
+    ]);
+    return { ...thread, comments, resolved_by: resolvedBy };
+  }
+
+  /**
+   * Load a review thread for a write, checking it belongs to the session and
+   * that the caller can review it.
+   */
+  async function getReviewableThread(
+    req: Request,
+    sessionId: string,
+    threadId: number
+  ): Promise<Result<{ auth: AuthContext; thread: ReviewThreadWithComments }, Response>> {
+    const auth = await extractAuth(req);
+    if (!auth.userId) {
+      return Result.err(jsonError("Sign in to review sessions", 401));
+    }
+
+    const thread = await repo.getReviewThread(threadId);
+    if (!thread || thread.session_id !== sessionId) {
+      return Result.err(jsonError("Review thread not found", 404));
+    }
+    if (!(await canReview(auth, sessionId))) {
+      return Result.err(jsonError("Only the owner and collaborators can review this session", 403));
+    }
+    return Result.ok({ auth, thread });
+  }
 
   return {
     // Get all sessions or a specific session by claude_session_id
@@ -178,11 +426,11 @@ export function createApiRoutes(repo: SessionRepository) {
         const authError = requireAuth(auth);
         if (authError) return authError;
 
-        const sessionResult = repo.getSessionByClaudeSessionId(claudeSessionId);
+        const sessionResult = await repo.getSessionByClaudeSessionId(claudeSessionId);
         if (sessionResult.isOk()) {
           const session = sessionResult.unwrap();
           // Verify ownership
-          const ownershipResult = repo.verifyOwnership(session.id, auth.userId, auth.clientId);
+          const ownershipResult = await repo.verifyOwnership(session.id, auth.userId, auth.clientId);
           if (ownershipResult.isErr()) {
             return json({ session: null });
           }
@@ -200,13 +448,13 @@ export function createApiRoutes(repo: SessionRepository) {
       if (authError) return authError;
 
       // Get sessions accessible to this user (owned + public)
-      const sessions = repo.getAccessibleSessions(auth.userId ?? undefined, auth.clientId ?? undefined);
+      const sessions = await repo.getAccessibleSessions(auth.userId ?? undefined, auth.clientId ?? undefined);
       return json({ sessions: sessions.map(normalizeRemoteSessionStatus) });
     },
 
     // Get session detail with messages and diffs
     async getSessionDetail(req: Request, sessionId: string, baseUrl?: string): Promise<Response> {
-      const sessionResult = repo.getSession(sessionId);
+      const sessionResult = await repo.getSession(sessionId);
       if (sessionResult.isErr()) {
         return jsonError("Session not found", 404);
       }
@@ -222,11 +470,12 @@ export function createApiRoutes(repo: SessionRepository) {
         const userInfo = auth.userId ? await getUserDisplayInfo(auth.userId) : null;
 
         // Check access via ownership or collaboration
-        const { allowed } = repo.verifySessionAccess(
+        const { allowed } = await repo.verifySessionAccess(
           sessionId,
           auth.userId,
           auth.clientId,
-          userInfo?.email
+          userInfo?.email,
+          githubAccess?.checkFor(auth.userId)
         );
 
         if (!allowed) {
@@ -234,9 +483,11 @@ export function createApiRoutes(repo: SessionRepository) {
         }
       }
 
-      const messages = repo.getMessages(sessionId);
-      const diffs = repo.getDiffs(sessionId);
-      const reviewResult = repo.getReviewWithCount(sessionId);
+      const messages = await repo.getMessages(sessionId);
+      const diffs = await repo.getDiffs(sessionId);
+      const commits = await repo.getSessionCommits(sessionId);
+      const snapshots = await repo.getDiffSnapshots(sessionId);
+      const reviewResult = await repo.getReviewWithCount(sessionId);
       const review = reviewResult.isOk() ? reviewResult.unwrap() : null;
 
       let shareUrl: string | null = null;
@@ -254,14 +505,14 @@ export function createApiRoutes(repo: SessionRepository) {
       }
 
       // Determine ownership and invite status
-      const ownershipResult = repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
+      const ownershipResult = await repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
       const isOwner = ownershipResult.isOk() && ownershipResult.unwrap().isOwner;
       const userInfo = auth.userId ? await getUserDisplayInfo(auth.userId) : null;
 
       // Check if user has a pending invite
       let pendingInvite = false;
       if (userInfo?.email && !isOwner) {
-        const collaborator = repo.getCollaboratorByEmail(sessionId, userInfo.email);
+        const collaborator = await repo.getCollaboratorByEmail(sessionId, userInfo.email);
         if (collaborator && !collaborator.accepted_at) {
           pendingInvite = true;
         }
@@ -271,6 +522,8 @@ export function createApiRoutes(repo: SessionRepository) {
         session: normalizeRemoteSessionStatus(session),
         messages,
         diffs,
+        commits,
+        snapshots,
         shareUrl,
         review,
         adapterUIConfig,
@@ -281,7 +534,7 @@ export function createApiRoutes(repo: SessionRepository) {
 
     // Get diffs for a session
     async getSessionDiffs(req: Request, sessionId: string): Promise<Response> {
-      const sessionResult = repo.getSession(sessionId);
+      const sessionResult = await repo.getSession(sessionId);
       if (sessionResult.isErr()) {
         return jsonError("Session not found", 404);
       }
@@ -297,11 +550,12 @@ export function createApiRoutes(repo: SessionRepository) {
         const userInfo = auth.userId ? await getUserDisplayInfo(auth.userId) : null;
 
         // Check access via ownership or collaboration
-        const { allowed } = repo.verifySessionAccess(
+        const { allowed } = await repo.verifySessionAccess(
           sessionId,
           auth.userId,
           auth.clientId,
-          userInfo?.email
+          userInfo?.email,
+          githubAccess?.checkFor(auth.userId)
         );
 
         if (!allowed) {
@@ -309,21 +563,50 @@ export function createApiRoutes(repo: SessionRepository) {
         }
       }
 
-      const diffs = repo.getDiffs(sessionId);
-      return json({ diffs });
+      const queryResult = validateQueryParams(new URL(req.url), DiffsQuerySchema);
+      if (queryResult.isErr()) {
+        return errorToResponse(queryResult.error);
+      }
+      const { at, from, to } = queryResult.unwrap();
+
+      // The diff as it stood after a message
+      if (at !== undefined) {
+        const snapshot = await repo.getDiffSnapshotAt(sessionId, at);
+        return json({ snapshot });
+      }
+
+      // What changed in the diff between two messages
+      if (from !== undefined && to !== undefined) {
+        const [before, after] = await Promise.all([
+          repo.getDiffSnapshotAt(sessionId, from),
+          repo.getDiffSnapshotAt(sessionId, to),
+        ]);
+        return json({
+          from: before && { ...before, files: undefined },
+          to: after && { ...after, files: undefined },
+          changes: compareSnapshots(before?.files ?? [], after?.files ?? []),
+        });
+      }
+
+      const diffs = await repo.getDiffs(sessionId);
+      const commits = await repo.getSessionCommits(sessionId);
+      const snapshots = await repo.getDiffSnapshots(sessionId);
+      return json({ diffs, commits, snapshots });
     },
 
     // Get shared session detail
-    getSharedSessionDetail(shareToken: string, baseUrl?: string): Response {
-      const sessionResult = repo.getSessionByShareToken(shareToken);
+    async getSharedSessionDetail(shareToken: string, baseUrl?: string): Promise<Response> {
+      const sessionResult = await repo.getSessionByShareToken(shareToken);
       if (sessionResult.isErr()) {
         return jsonError("Session not found", 404);
       }
       const session = sessionResult.unwrap();
 
-      const messages = repo.getMessages(session.id);
-      const diffs = repo.getDiffs(session.id);
-      const reviewResult = repo.getReviewWithCount(session.id);
+      const messages = await repo.getMessages(session.id);
+      const diffs = await repo.getDiffs(session.id);
+      const commits = await repo.getSessionCommits(session.id);
+      const snapshots = await repo.getDiffSnapshots(session.id);
+      const reviewResult = await repo.getReviewWithCount(session.id);
       const review = reviewResult.isOk() ? reviewResult.unwrap() : null;
 
       const shareUrl = baseUrl ? `${baseUrl}/s/${session.share_token}` : null;
@@ -337,7 +620,7 @@ export function createApiRoutes(repo: SessionRepository) {
         }
       }
 
-      return json({ session, messages, diffs, shareUrl, review, adapterUIConfig });
+      return json({ session, messages, diffs, commits, snapshots, shareUrl, review, adapterUIConfig });
     },
 
     // Create session
@@ -391,11 +674,13 @@ export function createApiRoutes(repo: SessionRepository) {
         // Parse review data if provided
         const reviewSummary = formData.get("review_summary") as string;
         const reviewModel = formData.get("review_model") as string;
+        const reviewPromptHash = formData.get("review_prompt_hash") as string;
         const annotationsJson = formData.get("annotations") as string;
 
         let reviewData: {
           summary: string;
           model?: string;
+          prompt_hash?: string;
           annotations: Array<{
             filename: string;
             line_number: number;
@@ -425,6 +710,7 @@ export function createApiRoutes(repo: SessionRepository) {
           reviewData = {
             summary: reviewSummary,
             model: reviewModel || undefined,
+            prompt_hash: reviewPromptHash || undefined,
             annotations,
           };
         }
@@ -432,10 +718,30 @@ export function createApiRoutes(repo: SessionRepository) {
         // Get client ID from request header
         const clientId = getClientId(req);
 
+        // Enforce the server redaction policy before anything is stored
+        const messagesPolicy = await enforceRedactionPolicy(messages, (policy) => policy.applyToMessages(messages), {
+          source: "upload",
+          clientId: clientId || undefined,
+        });
+        if (messagesPolicy.isErr()) {
+          return errorToResponse(messagesPolicy.error);
+        }
+        const diffsPolicy = await enforceRedactionPolicy(diffs, (policy) => policy.applyToDiffs(diffs), {
+          source: "upload",
+          clientId: clientId || undefined,
+        });
+        if (diffsPolicy.isErr()) {
+          return errorToResponse(diffsPolicy.error);
+        }
+        messages = messagesPolicy.unwrap().value;
+        diffs = diffsPolicy.unwrap().value;
+        const policyHits = [...messagesPolicy.unwrap().hits, ...diffsPolicy.unwrap().hits];
+        const policyMasked = messagesPolicy.unwrap().masked + diffsPolicy.unwrap().masked;
+
         const claudeSessionId = validated.claude_session_id || null;
 
         // Upsert session: if claude_session_id exists, update existing session
-        const { session, isUpdate } = repo.upsertSessionWithDataAndReview(
+        const { session, isUpdate } = await repo.upsertSessionWithDataAndReview(
           {
             id,
             title,
@@ -466,8 +772,12 @@ export function createApiRoutes(repo: SessionRepository) {
           console.log(`Updated existing session ${session.id} (claude_session_id: ${claudeSessionId})`);
         }
 
+        // Re-uploads replace content, so the count is replaced too
+        await repo.updateSession(session.id, { redaction_count: (validated.redaction_count ?? 0) + policyMasked });
+        await analytics.recordRedactionHits(session.id, "upload", policyHits, { clientId: clientId || undefined });
+
         // Record analytics for session creation
-        analytics.recordSessionCreated(session.id, {
+        await analytics.recordSessionCreated(session.id, {
           clientId: clientId || undefined,
           model: session.model || undefined,
           harness: session.harness || undefined,
@@ -476,7 +786,7 @@ export function createApiRoutes(repo: SessionRepository) {
         });
 
         // Record analytics for messages from uploaded session (batched for performance)
-        analytics.recordMessagesFromUpload(session.id, messages, {
+        await analytics.recordMessagesFromUpload(session.id, messages, {
           clientId: clientId || undefined,
         });
 
@@ -485,10 +795,26 @@ export function createApiRoutes(repo: SessionRepository) {
           const fileStats = calculateFileStats(diffs);
 
           if (fileStats.filesChanged > 0 || fileStats.additions > 0 || fileStats.deletions > 0) {
-            analytics.recordDiffUpdated(session.id, fileStats, { clientId: clientId || undefined });
+            await analytics.recordDiffUpdated(session.id, fileStats, { clientId: clientId || undefined });
           }
         }
 
+        if (!isUpdate) {
+          await webhooks.emit("session.created", session.id);
+        }
+        if (diffs.length > 0) {
+          await webhooks.emit("diff.updated", session.id, { diff: summarizeDiffs(diffs) });
+        }
+        if (reviewData) {
+          await webhooks.emit("review.generated", session.id, {
+            review: {
+              summary: reviewData.summary,
+              model: reviewData.model ?? null,
+              annotation_count: reviewData.annotations.length,
+            },
+          });
+        }
+
         return new Response(null, {
           status: 303,
           headers: { Location: `/sessions/${session.id}` },
@@ -502,7 +828,7 @@ export function createApiRoutes(repo: SessionRepository) {
     // Update session
     async updateSession(req: Request, sessionId: string): Promise<Response> {
       try {
-        const existingResult = repo.getSession(sessionId);
+        const existingResult = await repo.getSession(sessionId);
         if (existingResult.isErr()) {
           return jsonError("Session not found", 404);
         }
@@ -517,17 +843,6 @@ export function createApiRoutes(repo: SessionRepository) {
         }
         const validated = validationResult.unwrap();
 
-        repo.updateSession(sessionId, {
-          title: validated.title,
-          description: validated.description || null,
-          claude_session_id: validated.claude_session_id || null,
-          pr_url: validated.pr_url || null,
-          project_path: validated.project_path || null,
-          model: validated.model || null,
-          harness: validated.harness || null,
-          repo_url: validated.repo_url || null,
-        });
-
         // Process session data
         const sessionFile = formData.get("session_file") as File | null;
         const sessionData = formData.get("session_data") as string;
@@ -541,11 +856,6 @@ export function createApiRoutes(repo: SessionRepository) {
           messages = parseSessionData(sessionData, sessionId);
         }
 
-        if (messages.length > 0) {
-          repo.clearMessages(sessionId);
-          repo.addMessages(messages);
-        }
-
         // Get harness for adapter-aware file detection (prefer form data, fall back to existing)
         const harness = validated.harness || existing.harness;
 
@@ -565,9 +875,52 @@ export function createApiRoutes(repo: SessionRepository) {
           diffs = parseDiffData(diffData, sessionId, touchedFiles);
         }
 
+        // Enforce the server redaction policy before anything is changed
+        const clientId = getClientId(req) || undefined;
+        const messagesPolicy = await enforceRedactionPolicy(messages, (policy) => policy.applyToMessages(messages), {
+          sessionId,
+          source: "upload",
+          clientId,
+        });
+        if (messagesPolicy.isErr()) {
+          return errorToResponse(messagesPolicy.error);
+        }
+        const diffsPolicy = await enforceRedactionPolicy(diffs, (policy) => policy.applyToDiffs(diffs), {
+          sessionId,
+          source: "upload",
+          clientId,
+        });
+        if (diffsPolicy.isErr()) {
+          return errorToResponse(diffsPolicy.error);
+        }
+        messages = messagesPolicy.unwrap().value;
+        diffs = diffsPolicy.unwrap().value;
+
+        await repo.updateSession(sessionId, {
+          title: validated.title,
+          description: validated.description || null,
+          claude_session_id: validated.claude_session_id || null,
+          pr_url: validated.pr_url || null,
+          project_path: validated.project_path || null,
+          model: validated.model || null,
+          harness: validated.harness || null,
+          repo_url: validated.repo_url || null,
+        });
+
+        if (messages.length > 0) {
+          await repo.clearMessages(sessionId);
+          await repo.addMessages(messages);
+        }
+
+        if (diffs.length > 0) {
+          await repo.clearDiffs(sessionId);
+          await repo.addDiffs(diffs);
+        }
+
+        await repo.incrementRedactionCount(sessionId, messagesPolicy.unwrap().masked + diffsPolicy.unwrap().masked);
+
         if (diffs.length > 0) {
-          repo.clearDiffs(sessionId);
-          repo.addDiffs(diffs);
+          await webhooks.emit("diff.updated", sessionId, { diff: summarizeDiffs(diffs) });
         }
 
         return new Response(null, {
@@ -582,7 +935,7 @@ export function createApiRoutes(repo: SessionRepository) {
 
     // Delete session
     async deleteSession(req: Request, sessionId: string): Promise<Response> {
-      const sessionResult = repo.getSession(sessionId);
+      const sessionResult = await repo.getSession(sessionId);
       if (sessionResult.isErr()) {
         return jsonError("Session not found", 404);
       }
@@ -592,13 +945,13 @@ export function createApiRoutes(repo: SessionRepository) {
       if (authError) return authError;
 
       // Verify ownership (user_id OR client_id, or legacy session)
-      const ownershipResult = repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
+      const ownershipResult = await repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
 
       if (ownershipResult.isErr()) {
         return jsonError("Forbidden", 403);
       }
 
-      const deleted = repo.deleteSession(sessionId);
+      const deleted = await repo.deleteSession(sessionId);
       if (!deleted) {
         return jsonError("Session not found", 404);
       }
@@ -608,7 +961,7 @@ export function createApiRoutes(repo: SessionRepository) {
     // Patch session (JSON body for partial updates, used by daemon for title updates)
     async patchSession(req: Request, sessionId: string): Promise<Response> {
       try {
-        const sessionResult = repo.getSession(sessionId);
+        const sessionResult = await repo.getSession(sessionId);
         if (sessionResult.isErr()) {
           return jsonError("Session not found", 404);
         }
@@ -618,7 +971,7 @@ export function createApiRoutes(repo: SessionRepository) {
         if (authError) return authError;
 
         // Verify ownership (user_id OR client_id, or legacy session)
-        const ownershipResult = repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
+        const ownershipResult = await repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
         if (ownershipResult.isErr()) {
           return jsonError("Forbidden", 403);
         }
@@ -638,7 +991,7 @@ export function createApiRoutes(repo: SessionRepository) {
           updates.description = body.description;
         }
 
-        repo.updateSession(sessionId, updates);
+        await repo.updateSession(sessionId, updates);
 
         return json({ updated: true, ...updates });
       } catch (error) {
@@ -649,7 +1002,7 @@ export function createApiRoutes(repo: SessionRepository) {
 
     // Create share link
     async shareSession(req: Request, sessionId: string): Promise<Response> {
-      const sessionResult = repo.getSession(sessionId);
+      const sessionResult = await repo.getSession(sessionId);
       if (sessionResult.isErr()) {
         return jsonError("Session not found", 404);
       }
@@ -660,7 +1013,7 @@ export function createApiRoutes(repo: SessionRepository) {
       if (authError) return authError;
 
       // Verify ownership (user_id OR client_id, or legacy session)
-      const ownershipResult = repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
+      const ownershipResult = await repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
       if (ownershipResult.isErr()) {
         return jsonError("Forbidden", 403);
       }
@@ -670,14 +1023,14 @@ export function createApiRoutes(repo: SessionRepository) {
       }
 
       const shareToken = generateShareToken();
-      repo.updateSession(sessionId, { share_token: shareToken });
+      await repo.updateSession(sessionId, { share_token: shareToken });
 
       return json({ share_token: shareToken });
     },
 
     // Get session as JSON (for export)
     async getSessionJson(req: Request, sessionId: string): Promise<Response> {
-      const sessionResult = repo.getSession(sessionId);
+      const sessionResult = await repo.getSession(sessionId);
       if (sessionResult.isErr()) {
         return jsonError("Session not found", 404);
       }
@@ -686,31 +1039,187 @@ export function createApiRoutes(repo: SessionRepository) {
       const auth = await extractAuth(req);
 
       // Check ownership via repository (handles user_id OR client_id)
-      const ownershipResult = repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
+      const ownershipResult = await repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
 
       if (ownershipResult.isErr()) {
         return jsonError("Forbidden", 403);
       }
 
-      const messages = repo.getMessages(sessionId);
-      const diffs = repo.getDiffs(sessionId);
+      const queryResult = validateQueryParams(new URL(req.url), ExportQuerySchema);
+      if (queryResult.isErr()) {
+        return errorToResponse(queryResult.error);
+      }
+      const { format, thinking } = queryResult.unwrap();
+
+      const messages = await repo.getMessages(sessionId);
+      const diffs = await repo.getDiffs(sessionId);
+
+      switch (format) {
+        case "markdown":
+          return new Response(renderSessionMarkdown(session, messages, diffs, { includeThinking: thinking }), {
+            status: 200,
+            headers: {
+              "Content-Type": "text/markdown; charset=utf-8",
+              "Content-Disposition": `attachment; filename="${exportFilename(session, "md")}"`,
+            },
+          });
+        case "html":
+          return new Response(renderSessionHtml(session, messages, diffs, { includeThinking: thinking }), {
+            status: 200,
+            headers: {
+              "Content-Type": "text/html; charset=utf-8",
+              "Content-Disposition": `attachment; filename="${exportFilename(session, "html")}"`,
+            },
+          });
+        default: {
+          // The latest review, with its annotations pointed at the current diffs
+          const reviewResult = await repo.getReview(sessionId);
+          const review = reviewResult.isOk() ? reviewResult.unwrap() : null;
+          const diffIdByFilename = new Map(diffs.map((d) => [d.filename, d.id]));
+          const annotations = review
+            ? (await repo.getAnnotationsByReview(review.id)).flatMap((a) => {
+                const diffId = diffIdByFilename.get(a.filename);
+                return diffId ? [{ ...a, diff_id: diffId }] : [];
+              })
+            : [];
+
+          return new Response(JSON.stringify({ session, messages, diffs, review, annotations }, null, 2), {
+            status: 200,
+            headers: {
+              "Content-Type": "application/json",
+              "Content-Disposition": `attachment; filename="${exportFilename(session, "json")}"`,
+            },
+          });
+        }
+      }
+    },
+
+    // Import a session from a JSON export bundle (e.g. from another instance)
+    async importSession(req: Request): Promise<Response> {
+      try {
+        // Bundles carry diffs, so use the larger limit
+        const sizeError = validateContentLength(req, MAX_DIFF_PAYLOAD_BYTES);
+        if (sizeError) return sizeError;
+
+        const auth = await extractAuth(req);
+        const authError = requireAuth(auth);
+        if (authError) return authError;
 
-      return new Response(JSON.stringify({ session, messages, diffs }, null, 2), {
-        status: 200,
-        headers: {
-          "Content-Type": "application/json",
-          "Content-Disposition": `attachment; filename="${session.title.replace(/[^a-zA-Z0-9]/g, "_")}.json"`,
-        },
-      });
+        const validationResult = await validateJson(req, ImportSessionSchema);
+        if (validationResult.isErr()) {
+          return errorToResponse(validationResult.error);
+        }
+        const bundle = validationResult.unwrap();
+        const clientId = auth.clientId || undefined;
+
+        const id = generateId();
+        const parsedMessages: Omit<Message, "id">[] = bundle.messages.map((msg) => ({
+          session_id: id,
+          role: msg.role,
+          content: msg.content,
+          content_blocks: msg.content_blocks,
+          timestamp: msg.timestamp ?? null,
+          message_index: msg.message_index,
+          user_id: msg.user_id ?? null,
+        }));
+        const parsedDiffs = bundle.diffs.map((diff) => ({
+          session_id: id,
+          source_id: diff.id,
+          filename: diff.filename,
+          diff_content: diff.diff_content,
+          diff_index: diff.diff_index,
+          additions: diff.additions,
+          deletions: diff.deletions,
+          is_session_relevant: diff.is_session_relevant,
+          status: diff.status,
+        }));
+
+        // Imports are uploads from this server's point of view
+        const messagesPolicy = await enforceRedactionPolicy(
+          parsedMessages,
+          (policy) => policy.applyToMessages(parsedMessages),
+          { source: "upload", clientId }
+        );
+        if (messagesPolicy.isErr()) {
+          return errorToResponse(messagesPolicy.error);
+        }
+        const diffsPolicy = await enforceRedactionPolicy(parsedDiffs, (policy) => policy.applyToDiffs(parsedDiffs), {
+          source: "upload",
+          clientId,
+        });
+        if (diffsPolicy.isErr()) {
+          return errorToResponse(diffsPolicy.error);
+        }
+
+        const { session: source } = bundle;
+        const now = sqliteDatetimeNow();
+        const session = await repo.importSession(
+          {
+            id,
+            title: source.title,
+            description: source.description ?? null,
+            // Uploads, resumes and live streams find sessions by these IDs, so
+            // keeping them would let the original owner write into this copy
+            claude_session_id: null,
+            agent_session_id: null,
+            pr_url: source.pr_url ?? null,
+            // Sharing and visibility don't carry over between instances
+            share_token: null,
+            visibility: "private",
+            project_path: source.project_path ?? null,
+            model: source.model ?? null,
+            harness: source.harness ?? null,
+            repo_url: source.repo_url ?? null,
+            branch: source.branch ?? null,
+            // Nothing is streaming into an imported session
+            status: source.status === "archived" ? "archived" : "complete",
+            last_activity_at: source.last_activity_at ?? null,
+            interactive: false,
+            remote: false,
+            input_tokens: source.input_tokens,
+            output_tokens: source.output_tokens,
+            cache_creation_tokens: source.cache_creation_tokens,
+            cache_read_tokens: source.cache_read_tokens,
+            redaction_count: source.redaction_count + messagesPolicy.unwrap().masked + diffsPolicy.unwrap().masked,
+            created_at: source.created_at ?? now,
+            updated_at: source.updated_at ?? now,
+          },
+          messagesPolicy.unwrap().value,
+          diffsPolicy.unwrap().value,
+          bundle.review
+            ? {
+                summary: bundle.review.summary,
+                model: bundle.review.model ?? null,
+                prompt_hash: bundle.review.prompt_hash ?? null,
+                created_at: bundle.review.created_at ?? undefined,
+                annotations: bundle.annotations,
+              }
+            : undefined,
+          clientId,
+          auth.userId || undefined
+        );
+
+        await analytics.recordRedactionHits(
+          session.id,
+          "upload",
+          [...messagesPolicy.unwrap().hits, ...diffsPolicy.unwrap().hits],
+          { clientId }
+        );
+
+        return json({ id: session.id, url: `/sessions/${session.id}` }, 201);
+      } catch (error) {
+        console.error("Error importing session:", error);
+        return jsonError("Failed to import session", 500);
+      }
     },
 
     // === Live Streaming Endpoints ===
 
     // Get all live sessions (uses single query with JOIN to avoid N+1)
-    getLiveSessions(): Response {
+    async getLiveSessions(): Promise<Response> {
       // Filter out remote sessions whose daemon is no longer connected
       // (normalizeRemoteSessionStatus marks these as "complete")
-      const sessions = repo.getLiveSessionsWithCounts()
+      const sessions = (await repo.getLiveSessionsWithCounts())
         .map(normalizeRemoteSessionStatus)
         .filter(s => s.status === "live");
 
@@ -748,17 +1257,17 @@ export function createApiRoutes(repo: SessionRepository) {
         // Check if we can resume an existing session (live or completed)
         if (harnessSessionId && harness) {
           // First check for an already-live session
-          const liveSessionResult = repo.getLiveSessionByHarnessId(harnessSessionId, harness);
+          const liveSessionResult = await repo.getLiveSessionByHarnessId(harnessSessionId, harness);
 
           if (liveSessionResult.isOk()) {
             const existingSession = liveSessionResult.unwrap();
             // Update last activity
-            repo.updateSession(existingSession.id, {
+            await repo.updateSession(existingSession.id, {
               last_activity_at: sqliteDatetimeNow(),
             });
 
-            const messageCount = repo.getMessageCount(existingSession.id);
-            const lastIndex = repo.getLastMessageIndex(existingSession.id);
+            const messageCount = await repo.getMessageCount(existingSession.id);
+            const lastIndex = await repo.getLastMessageIndex(existingSession.id);
 
             console.log(`[createLiveSession] Resumed existing session: ${existingSession.id} (${messageCount} messages)`);
 
@@ -770,18 +1279,19 @@ export function createApiRoutes(repo: SessionRepository) {
               restored: false,
               message_count: messageCount,
               last_index: lastIndex,
+              base_sha: existingSession.base_sha,
             });
           }
 
           // No live session, check for completed/archived session to restore
-          const byHarnessResult = repo.getSessionByHarnessId(harnessSessionId, harness);
+          const byHarnessResult = await repo.getSessionByHarnessId(harnessSessionId, harness);
           if (byHarnessResult.isOk()) {
             const existingSession = byHarnessResult.unwrap();
             // Restore the session to live status
-            repo.restoreSessionToLive(existingSession.id);
+            await repo.restoreSessionToLive(existingSession.id);
 
-            const messageCount = repo.getMessageCount(existingSession.id);
-            const lastIndex = repo.getLastMessageIndex(existingSession.id);
+            const messageCount = await repo.getMessageCount(existingSession.id);
+            const lastIndex = await repo.getLastMessageIndex(existingSession.id);
 
             console.log(`[createLiveSession] Restored session to live: ${existingSession.id} (${messageCount} messages)`);
 
@@ -793,6 +1303,7 @@ export function createApiRoutes(repo: SessionRepository) {
               restored: true,
               message_count: messageCount,
               last_index: lastIndex,
+              base_sha: existingSession.base_sha,
             });
           }
         }
@@ -800,7 +1311,7 @@ export function createApiRoutes(repo: SessionRepository) {
         // Create new session
         const id = generateId();
 
-        repo.createSession(
+        await repo.createSession(
           {
             id,
             title,
@@ -825,13 +1336,14 @@ export function createApiRoutes(repo: SessionRepository) {
         console.log(`[createLiveSession] Created new session: ${id}`);
 
         // Record analytics for live session creation
-        analytics.recordSessionCreated(id, {
+        await analytics.recordSessionCreated(id, {
           clientId: clientId || undefined,
           model: model || undefined,
           harness: harness || undefined,
           interactive: Boolean(interactive),
           isLive: true,
         });
+        await webhooks.emit("session.created", id);
 
         return json({
           id,
@@ -855,7 +1367,7 @@ export function createApiRoutes(repo: SessionRepository) {
         const sizeError = validateContentLength(req, MAX_JSON_PAYLOAD_BYTES);
         if (sizeError) return sizeError;
 
-        const sessionResult = repo.getSession(sessionId);
+        const sessionResult = await repo.getSession(sessionId);
         if (sessionResult.isErr()) {
           return jsonError("Session not found", 404);
         }
@@ -869,7 +1381,7 @@ export function createApiRoutes(repo: SessionRepository) {
         if (authError) return authError;
 
         // Verify ownership (user_id OR client_id, or legacy session)
-        const ownershipResult = repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
+        const ownershipResult = await repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
         if (ownershipResult.isErr()) {
           return jsonError("Forbidden", 403);
         }
@@ -878,7 +1390,7 @@ export function createApiRoutes(repo: SessionRepository) {
         if (validationResult.isErr()) {
           return errorToResponse(validationResult.error);
         }
-        const { messages: rawMessages } = validationResult.unwrap();
+        const { messages: rawMessages, redaction_count: redactionCount } = validationResult.unwrap();
 
         // Parse messages without indices first
         const parsedMessages: Array<Omit<Message, "id" | "message_index">> = [];
@@ -892,25 +1404,38 @@ export function createApiRoutes(repo: SessionRepository) {
         if (parsedMessages.length === 0) {
           return json({
             appended: 0,
-            message_count: repo.getMessageCount(sessionId),
-            last_index: repo.getLastMessageIndex(sessionId),
+            message_count: await repo.getMessageCount(sessionId),
+            last_index: await repo.getLastMessageIndex(sessionId),
           });
         }
 
+        // Enforce the server redaction policy before storing or broadcasting
+        const policyResult = await enforceRedactionPolicy(parsedMessages, (policy) => policy.applyToMessages(parsedMessages), {
+          sessionId,
+          source: "messages",
+          clientId: auth.clientId || undefined,
+        });
+        if (policyResult.isErr()) {
+          return errorToResponse(policyResult.error);
+        }
+        const { value: newMessages, masked } = policyResult.unwrap();
+
         // Atomically add messages with sequential indices (prevents race conditions)
-        const { lastIndex, count } = repo.addMessagesWithIndices(sessionId, parsedMessages);
+        const { lastIndex, count } = await repo.addMessagesWithIndices(sessionId, newMessages);
+
+        await repo.incrementRedactionCount(sessionId, (redactionCount ?? 0) + masked);
 
         // Update last activity
-        repo.updateSession(sessionId, {
+        await repo.updateSession(sessionId, {
           last_activity_at: sqliteDatetimeNow(),
         });
 
         // Record analytics for each message
-        for (const msg of parsedMessages) {
+        for (const msg of newMessages) {
           // Track user messages (prompts)
           if (msg.role === "user") {
             const contentLength = calculateContentLength(msg.content_blocks as Array<{ type: string; text?: string }>);
-            analytics.recordMessageSent(sessionId, {
+            await analytics.recordMessageSent(sessionId, {
               clientId: auth.clientId || undefined,
               contentLength,
             });
@@ -918,11 +1443,11 @@ export function createApiRoutes(repo: SessionRepository) {
 
           // Track assistant messages and tool invocations
           if (msg.role === "assistant") {
-            analytics.recordAssistantMessage(sessionId, {
+            await analytics.recordAssistantMessage(sessionId, {
               clientId: auth.clientId || undefined,
             });
             if (msg.content_blocks) {
-              analytics.recordToolsFromMessage(sessionId, msg.content_blocks as Array<{ type: string; name?: string }>, {
+              await analytics.recordToolsFromMessage(sessionId, msg.content_blocks as Array<{ type: string; name?: string }>, {
                 clientId: auth.clientId || undefined,
               });
             }
@@ -931,7 +1456,7 @@ export function createApiRoutes(repo: SessionRepository) {
 
         // Reconstruct messages with their assigned indices for broadcast
         const startIndex = lastIndex - count + 1;
-        const messagesWithIndices = parsedMessages.map((msg, i) => ({
+        const messagesWithIndices = newMessages.map((msg, i) => ({
           ...msg,
           message_index: startIndex + i,
         }));
@@ -945,7 +1470,7 @@ export function createApiRoutes(repo: SessionRepository) {
 
         return json({
           appended: count,
-          message_count: repo.getMessageCount(sessionId),
+          message_count: await repo.getMessageCount(sessionId),
           last_index: lastIndex,
         });
       } catch (error) {
@@ -961,7 +1486,7 @@ export function createApiRoutes(repo: SessionRepository) {
         const sizeError = validateContentLength(req, MAX_JSON_PAYLOAD_BYTES);
         if (sizeError) return sizeError;
 
-        const sessionResult = repo.getSession(sessionId);
+        const sessionResult = await repo.getSession(sessionId);
         if (sessionResult.isErr()) {
           return jsonError("Session not found or not live", 404);
         }
@@ -975,7 +1500,7 @@ export function createApiRoutes(repo: SessionRepository) {
         if (authError) return authError;
 
         // Verify ownership (user_id OR client_id, or legacy session)
-        const ownershipResult = repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
+        const ownershipResult = await repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
         if (ownershipResult.isErr()) {
           return jsonError("Forbidden", 403);
         }
@@ -984,7 +1509,20 @@ export function createApiRoutes(repo: SessionRepository) {
         if (validationResult.isErr()) {
           return errorToResponse(validationResult.error);
         }
-        const { results } = validationResult.unwrap();
+        const pushedResults = validationResult.unwrap().results;
+
+        // Tool results are broadcast only, but still pass through the redaction policy
+
+        const policyResult = await enforceRedactionPolicy(pushedResults, (policy) => policy.applyToValue(pushedResults), {
+          sessionId,
+          source: "tool_results",
+          clientId: auth.clientId || undefined,
+        });
+        if (policyResult.isErr()) {
+          return errorToResponse(policyResult.error);
+        }
+        const { value: results, masked } = policyResult.unwrap();
+        await repo.incrementRedactionCount(sessionId, masked);
 
         // Broadcast each tool result
         for (const result of results) {
@@ -997,7 +1535,7 @@ export function createApiRoutes(repo: SessionRepository) {
           });
         }
 
-        repo.updateSession(sessionId, {
+        await repo.updateSession(sessionId, {
           last_activity_at: sqliteDatetimeNow(),
         });
 
@@ -1018,7 +1556,7 @@ export function createApiRoutes(repo: SessionRepository) {
         const sizeError = validateContentLength(req, MAX_DIFF_PAYLOAD_BYTES);
         if (sizeError) return sizeError;
 
-        const sessionResult = repo.getSession(sessionId);
+        const sessionResult = await repo.getSession(sessionId);
         if (sessionResult.isErr()) {
           return jsonError("Session not found or not live", 404);
         }
@@ -1032,19 +1570,54 @@ export function createApiRoutes(repo: SessionRepository) {
         if (authError) return authError;
 
         // Verify ownership (user_id OR client_id, or legacy session)
-        const ownershipResult = repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
+        const ownershipResult = await repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
         if (ownershipResult.isErr()) {
           return jsonError("Forbidden", 403);
         }
 
-        const diffContent = await req.text();
-        const messages = repo.getMessages(sessionId);
+        // A JSON body also carries the commits the diff spans; plain text is the diff alone
+        let diffContent: string;
+        let commitInfo: Pick<UpdateDiff, "base_sha" | "head_sha" | "commits"> = {};
+        if (req.headers.get("Content-Type")?.includes("application/json")) {
+          const validationResult = await validateJson(req, UpdateDiffSchema);
+          if (validationResult.isErr()) {
+            return errorToResponse(validationResult.error);
+          }
+          const { diff, ...rest } = validationResult.unwrap();
+          diffContent = diff;
+          commitInfo = rest;
+        } else {
+          diffContent = await req.text();
+        }
+
+        const commitsResult = await checkDiffCommits(sessionId, commitInfo, auth.clientId);
+        if (commitsResult.isErr()) {
+          return errorToResponse(commitsResult.error);
+        }
+        const diffCommits = commitsResult.unwrap();
+
+        const messages = await repo.getMessages(sessionId);
         const touchedFiles = extractTouchedFiles(messages, session.harness || undefined);
-        const diffs = parseDiffData(diffContent, sessionId, touchedFiles);
+        const parsedDiffs = parseDiffData(diffContent, sessionId, touchedFiles);
+
+        const policyResult = await enforceRedactionPolicy(parsedDiffs, (policy) => policy.applyToDiffs(parsedDiffs), {
+          sessionId,
+          source: "diff",
+          clientId: auth.clientId || undefined,
+        });
+        if (policyResult.isErr()) {
+          return errorToResponse(policyResult.error);
+        }
+        const { value: diffs, masked } = policyResult.unwrap();
 
         // Replace existing diffs
-        repo.clearDiffs(sessionId);
-        repo.addDiffs(diffs);
+        await repo.clearDiffs(sessionId);
+        await repo.addDiffs(diffs);
+        await repo.saveDiffSnapshot(sessionId, await repo.getLastMessageIndex(sessionId), diffs);
+        if (diffCommits) {
+          await repo.setSessionCommits(sessionId, diffCommits.baseSha, diffCommits.headSha, diffCommits.commits);
+        }
+        await repo.incrementRedactionCount(sessionId, masked + (diffCommits?.masked ?? 0));
 
         // Calculate file stats
         const fileStats = calculateFileStats(diffs);
@@ -1062,8 +1635,9 @@ export function createApiRoutes(repo: SessionRepository) {
 
         // Record analytics for diff update
         if (fileStats.filesChanged > 0 || fileStats.additions > 0 || fileStats.deletions > 0) {
-          analytics.recordDiffUpdated(sessionId, fileStats, { clientId: auth.clientId || undefined });
+          await analytics.recordDiffUpdated(sessionId, fileStats, { clientId: auth.clientId || undefined });
         }
+        await webhooks.emit("diff.updated", sessionId, { diff: summarizeDiffs(diffs) });
 
         return json({
           files_changed: fileStats.filesChanged,
@@ -1079,7 +1653,7 @@ export function createApiRoutes(repo: SessionRepository) {
     // Complete a live session
     async completeSession(req: Request, sessionId: string): Promise<Response> {
       try {
-        const sessionResult = repo.getSession(sessionId);
+        const sessionResult = await repo.getSession(sessionId);
         if (sessionResult.isErr()) {
           return jsonError("Session not found", 404);
         }
@@ -1090,7 +1664,7 @@ export function createApiRoutes(repo: SessionRepository) {
         if (authError) return authError;
 
         // Verify ownership (user_id OR client_id, or legacy session) - don't require live status as session may have timed out
-        const ownershipResult = repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
+        const ownershipResult = await repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
         if (ownershipResult.isErr()) {
           return jsonError("Forbidden", 403);
         }
@@ -1098,7 +1672,33 @@ export function createApiRoutes(repo: SessionRepository) {
         // Validate optional body (empty body or invalid JSON treated as empty for backwards compatibility)
         const validationResult = await validateJson(req, CompleteSessionSchema);
         const body = validationResult.isOk() ? validationResult.unwrap() : {};
-        const { final_diff, summary } = body;
+        const { final_diff, summary, redaction_count, ...commitInfo } = body;
+
+        const commitsResult = await checkDiffCommits(sessionId, commitInfo, auth.clientId);
+        if (commitsResult.isErr()) {
+          return errorToResponse(commitsResult.error);
+        }
+        const diffCommits = commitsResult.unwrap();
+
+        // Check the final diff against the redaction policy before completing
+        let finalDiffs: Omit<Diff, "id">[] | null = null;
+        let finalDiffMasked = 0;
+        if (final_diff) {
+          const messages = await repo.getMessages(sessionId);
+          const touchedFiles = extractTouchedFiles(messages, session.harness || undefined);
+          const parsedDiffs = parseDiffData(final_diff, sessionId, touchedFiles);
+
+          const policyResult = await enforceRedactionPolicy(parsedDiffs, (policy) => policy.applyToDiffs(parsedDiffs), {
+            sessionId,
+            source: "diff",
+            clientId: auth.clientId || undefined,
+          });
+          if (policyResult.isErr()) {
+            return errorToResponse(policyResult.error);
+          }
+          finalDiffs = policyResult.unwrap().value;
+          finalDiffMasked = policyResult.unwrap().masked;
+        }
 
         // Update description if summary provided
         const updates: Partial<{ status: SessionStatus; description: string; last_activity_at: string }> = {
@@ -1110,18 +1710,21 @@ export function createApiRoutes(repo: SessionRepository) {
           updates.description = summary;
         }
 
-        repo.updateSession(sessionId, updates);
+        await repo.updateSession(sessionId, updates);
 
         // Update diff if provided
-        if (final_diff) {
-          const messages = repo.getMessages(sessionId);
-          const touchedFiles = extractTouchedFiles(messages, session.harness || undefined);
-          const diffs = parseDiffData(final_diff, sessionId, touchedFiles);
-          repo.clearDiffs(sessionId);
-          repo.addDiffs(diffs);
+        if (finalDiffs) {
+          await repo.clearDiffs(sessionId);
+          await repo.addDiffs(finalDiffs);
+          await repo.saveDiffSnapshot(sessionId, await repo.getLastMessageIndex(sessionId), finalDiffs);
         }
+        if (diffCommits) {
+          await repo.setSessionCommits(sessionId, diffCommits.baseSha, diffCommits.headSha, diffCommits.commits);
+        }
+
+        await repo.incrementRedactionCount(sessionId, (redaction_count ?? 0) + finalDiffMasked + (diffCommits?.masked ?? 0));
 
-        const messageCount = repo.getMessageCount(sessionId);
+        const messageCount = await repo.getMessageCount(sessionId);
         const durationSeconds = session.created_at
           ? Math.floor((Date.now() - parseSqliteDatetime(session.created_at).getTime()) / 1000)
           : 0;
@@ -1136,11 +1739,15 @@ export function createApiRoutes(repo: SessionRepository) {
         closeSessionConnections(sessionId);
 
         // Record analytics for session completion
-        analytics.recordSessionCompleted(sessionId, {
+        await analytics.recordSessionCompleted(sessionId, {
           clientId: auth.clientId || undefined,
           durationSeconds,
           messageCount,
         });
+        await webhooks.emit("session.completed", sessionId, {
+          message_count: messageCount,
+          duration_seconds: durationSeconds,
+        });
 
         return json({
           status: "complete",
@@ -1156,7 +1763,7 @@ export function createApiRoutes(repo: SessionRepository) {
     // Mark a live session as interactive (enables browser feedback)
     async markInteractive(req: Request, sessionId: string): Promise<Response> {
       try {
-        const sessionResult = repo.getSession(sessionId);
+        const sessionResult = await repo.getSession(sessionId);
         if (sessionResult.isErr()) {
           return jsonError("Session not found", 404);
         }
@@ -1166,12 +1773,12 @@ export function createApiRoutes(repo: SessionRepository) {
         if (authError) return authError;
 
         // Verify ownership (user_id OR client_id, or legacy session)
-        const ownershipResult = repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
+        const ownershipResult = await repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
         if (ownershipResult.isErr()) {
           return jsonError("Forbidden", 403);
         }
 
-        repo.setSessionInteractive(sessionId, true);
+        await repo.setSessionInteractive(sessionId, true);
 
         return json({ success: true, interactive: true });
       } catch (error) {
@@ -1183,7 +1790,7 @@ export function createApiRoutes(repo: SessionRepository) {
     // Disable interactive mode for a session (called when daemon disconnects)
     async disableInteractive(req: Request, sessionId: string): Promise<Response> {
       try {
-        const sessionResult = repo.getSession(sessionId);
+        const sessionResult = await repo.getSession(sessionId);
         if (sessionResult.isErr()) {
           return jsonError("Session not found", 404);
         }
@@ -1193,12 +1800,12 @@ export function createApiRoutes(repo: SessionRepository) {
         if (authError) return authError;
 
         // Verify ownership (user_id OR client_id, or legacy session)
-        const ownershipResult = repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
+        const ownershipResult = await repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
         if (ownershipResult.isErr()) {
           return jsonError("Forbidden", 403);
         }
 
-        repo.setSessionInteractive(sessionId, false);
+        await repo.setSessionInteractive(sessionId, false);
 
         return json({ success: true, interactive: false });
       } catch (error) {
@@ -1212,9 +1819,9 @@ export function createApiRoutes(repo: SessionRepository) {
       return repo;
     },
 
-    // Get annotations for a session (for lazy loading in frontend)
+    // Get a session's latest review, or ?version=N, with its annotations (for lazy loading in frontend)
     async getAnnotations(req: Request, sessionId: string): Promise<Response> {
-      const sessionResult = repo.getSession(sessionId);
+      const sessionResult = await repo.getSession(sessionId);
       if (sessionResult.isErr()) {
         return jsonError("Session not found", 404);
       }
@@ -1222,20 +1829,34 @@ export function createApiRoutes(repo: SessionRepository) {
       const auth = await extractAuth(req);
 
       // Check ownership via repository (handles user_id OR client_id)
-      const ownershipResult = repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
+      const ownershipResult = await repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
 
       if (ownershipResult.isErr()) {
         return jsonError("Forbidden", 403);
       }
 
-      const reviewResult = repo.getReview(sessionId);
-      if (reviewResult.isErr()) {
-        return json({ review: null, annotations_by_diff: {} });
+      const queryResult = validateQueryParams(new URL(req.url), AnnotationsQuerySchema);
+      if (queryResult.isErr()) {
+        return errorToResponse(queryResult.error);
+      }
+      const { version } = queryResult.unwrap();
+
+      const reviews = await repo.getReviews(sessionId);
+      const review = version === undefined ? reviews[0] : reviews.find((r) => r.version === version);
+      if (!review) {
+        if (version !== undefined) {
+          return jsonError("Review version not found", 404);
+        }
+        return json({ review: null, annotations_by_diff: {}, resolved_annotations: [], reviews: [] });
       }
 
-      const annotationsByDiff = repo.getAnnotationsGroupedByDiff(sessionId);
+      // Annotations whose line a later diff removed or changed are listed apart
+      const { byDiff, resolved } = placeAnnotations(
+        await repo.getAnnotationsByReview(review.id),
+        await repo.getDiffs(sessionId)
+      );
 
-      return json({ review: reviewResult.unwrap(), annotations_by_diff: annotationsByDiff });
+      return json({ review, annotations_by_diff: byDiff, resolved_annotations: resolved, reviews });
     },
 
     // === Analytics Stats Endpoints ===
@@ -1259,7 +1880,7 @@ export function createApiRoutes(repo: SessionRepository) {
       const clientId = auth.clientId ?? undefined;
 
       const { startDate, endDate } = getDateRange(period);
-      const summary = repo.getStatsSummary(startDate, endDate, clientId);
+      const summary = await repo.getStatsSummary(startDate, endDate, clientId);
 
       return json({
         period,
@@ -1324,7 +1945,7 @@ export function createApiRoutes(repo: SessionRepository) {
       }
 
       const { startDate, endDate } = getDateRange(period);
-      let data = repo.getStatTimeseries(statType as StatType, startDate, endDate, clientId);
+      let data = await repo.getStatTimeseries(statType as StatType, startDate, endDate, clientId);
 
       // Optionally fill gaps for charting
       if (fill) {
@@ -1357,7 +1978,7 @@ export function createApiRoutes(repo: SessionRepository) {
       const clientId = auth.clientId ?? undefined;
 
       const { startDate, endDate } = getDateRange(period);
-      const tools = repo.getToolStats(startDate, endDate, clientId);
+      const tools = await repo.getToolStats(startDate, endDate, clientId);
 
       return json({
         period,
@@ -1386,10 +2007,10 @@ export function createApiRoutes(repo: SessionRepository) {
       const { startDate, endDate } = getDateRange(period);
 
       // Fetch all data
-      const summary = repo.getStatsSummary(startDate, endDate, clientId);
-      const tools = repo.getToolStats(startDate, endDate, clientId);
+      const summary = await repo.getStatsSummary(startDate, endDate, clientId);
+      const tools = await repo.getToolStats(startDate, endDate, clientId);
       const sessionsTimeseries = fillTimeseriesGaps(
-        repo.getStatTimeseries("sessions_created", startDate, endDate, clientId),
+        await repo.getStatTimeseries("sessions_created", startDate, endDate, clientId),
         startDate,
         endDate
       );
@@ -1432,10 +2053,10 @@ export function createApiRoutes(repo: SessionRepository) {
       const clientId = auth.clientId ?? undefined;
 
       // Get aggregated stats
-      const topModels = repo.getTopModelsByTokenUsage(userId, clientId, 5);
-      const topAgents = repo.getTopHarnessesBySessionCount(userId, clientId, 5);
-      const mostActiveRepos = repo.getMostActiveRepos(userId, clientId, 5);
-      const tokenTotals = repo.getTotalTokenUsage(userId, clientId);
+      const topModels = await repo.getTopModelsByTokenUsage(userId, clientId, 5);
+      const topAgents = await repo.getTopHarnessesBySessionCount(userId, clientId, 5);
+      const mostActiveRepos = await repo.getMostActiveRepos(userId, clientId, 5);
+      const tokenTotals = await repo.getTotalTokenUsage(userId, clientId);
 
       return json({
         top_models: topModels,
@@ -1467,13 +2088,13 @@ export function createApiRoutes(repo: SessionRepository) {
       const clientId = auth.clientId ?? undefined;
 
       // Get profile stats
-      const stats = repo.getProfileStats(userId, clientId);
-      const longestStreak = repo.getLongestStreak(userId, clientId);
-      const firstSessionDate = repo.getFirstSessionDate(userId, clientId);
-      const tokenTotals = repo.getTotalTokenUsage(userId, clientId);
+      const stats = await repo.getProfileStats(userId, clientId);
+      const longestStreak = await repo.getLongestStreak(userId, clientId);
+      const firstSessionDate = await repo.getFirstSessionDate(userId, clientId);
+      const tokenTotals = await repo.getTotalTokenUsage(userId, clientId);
 
       // Get activity heatmap (last 365 days)
-      const activityData = repo.getActivityHeatmap(userId, clientId, 365);
+      const activityData = await repo.getActivityHeatmap(userId, clientId, 365);
 
       // Fill in missing dates with 0 count
       const activity: Array<{ date: string; count: number }> = [];
@@ -1490,8 +2111,8 @@ export function createApiRoutes(repo: SessionRepository) {
       }
 
       // Get preferred model and harness (top by usage)
-      const topModels = repo.getTopModelsByTokenUsage(userId, clientId, 1);
-      const topAgents = repo.getTopHarnessesBySessionCount(userId, clientId, 1);
+      const topModels = await repo.getTopModelsByTokenUsage(userId, clientId, 1);
+      const topAgents = await repo.getTopHarnessesBySessionCount(userId, clientId, 1);
 
       return json({
         stats: {
@@ -1602,7 +2223,7 @@ export function createApiRoutes(repo: SessionRepository) {
       if (authError) return authError;
 
       // Get recent project paths from user's session history
-      const recentPaths = repo.getRecentProjectPaths(auth.userId, auth.clientId, 10);
+      const recentPaths = await repo.getRecentProjectPaths(auth.userId, auth.clientId, 10);
 
       const repos = recentPaths.map(path => ({
         path,
@@ -1694,7 +2315,7 @@ export function createApiRoutes(repo: SessionRepository) {
 
         // Create DB session for persistence (status: live, interactive: true, remote: true)
         // Pass user ID and client ID for ownership tracking
-        repo.createSession({
+        await repo.createSession({
           id: sessionId,
           title: body.prompt.slice(0, 100) + (body.prompt.length > 100 ? "..." : ""),
           description: null,
@@ -1714,7 +2335,7 @@ export function createApiRoutes(repo: SessionRepository) {
         }, clientId || undefined, auth.userId || undefined);
 
         // Record analytics for spawned session creation
-        analytics.recordSessionCreated(sessionId, {
+        await analytics.recordSessionCreated(sessionId, {
           clientId: getClientId(req) || undefined,
           model: body.model,
           harness,
@@ -1722,6 +2343,7 @@ export function createApiRoutes(repo: SessionRepository) {
           isLive: true,
           remote: true,
         });
+        await webhooks.emit("session.created", sessionId);
 
         // Create ephemeral session record in registry (tracks daemon connection and permissions)
         spawnedSessionRegistry.createSession({
@@ -1760,13 +2382,13 @@ export function createApiRoutes(repo: SessionRepository) {
           // Clean up all session state on failure
           spawnedSessionRegistry.deleteSession(sessionId);
           daemonConnections.unregisterSpawnedSession(daemon.clientId, sessionId);
-          repo.deleteSession(sessionId);
+          await repo.deleteSession(sessionId);
           return jsonError("Failed to send to daemon", 500);
         }
 
         // Update session with daemon's client_id for ownership tracking
         // This allows the daemon to access the session it's running
-        repo.updateSession(sessionId, { client_id: daemon.clientId });
+        await repo.updateSession(sessionId, { client_id: daemon.clientId });
 
         return json({
           session_id: sessionId,
@@ -1792,7 +2414,7 @@ export function createApiRoutes(repo: SessionRepository) {
         return jsonError("Unauthorized - requires authentication and client ID", 401);
       }
 
-      const sessions = repo.getUnclaimedSessions(auth.clientId);
+      const sessions = await repo.getUnclaimedSessions(auth.clientId);
 
       return json({
         count: sessions.length,
@@ -1842,7 +2464,7 @@ export function createApiRoutes(repo: SessionRepository) {
         return jsonError("Unauthorized - requires authentication and client ID", 401);
       }
 
-      const claimed = repo.claimSessions(auth.clientId, auth.userId);
+      const claimed = await repo.claimSessions(auth.clientId, auth.userId);
 
       return json({ claimed });
     },
@@ -1977,7 +2599,7 @@ export function createApiRoutes(repo: SessionRepository) {
       }
 
       // Fall back to DB session
-      const dbSessionResult = repo.getSession(sessionId);
+      const dbSessionResult = await repo.getSession(sessionId);
       if (dbSessionResult.isOk()) {
         const dbSession = dbSessionResult.unwrap();
         // Check if session is shared (has share_token), public, or remote (browser-spawned)
@@ -1992,11 +2614,12 @@ export function createApiRoutes(repo: SessionRepository) {
           const userInfo = auth.userId ? await getUserDisplayInfo(auth.userId) : null;
 
           // Check access via ownership or collaboration
-          const { allowed } = repo.verifySessionAccess(
+          const { allowed } = await repo.verifySessionAccess(
             sessionId,
             auth.userId,
             clientId,
-            userInfo?.email
+            userInfo?.email,
+            githubAccess?.checkFor(auth.userId)
           );
           if (!allowed) {
             return jsonError("Not authorized to access this session", 403);
@@ -2052,7 +2675,7 @@ export function createApiRoutes(repo: SessionRepository) {
      * Requires owner access.
      */
     async getCollaborators(req: Request, sessionId: string): Promise<Response> {
-      const sessionResult = repo.getSession(sessionId);
+      const sessionResult = await repo.getSession(sessionId);
       if (sessionResult.isErr()) {
         return jsonError("Session not found", 404);
       }
@@ -2061,7 +2684,7 @@ export function createApiRoutes(repo: SessionRepository) {
       const auth = await extractAuth(req);
 
       // Check if user is the owner
-      const ownershipResult = repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
+      const ownershipResult = await repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
       const isOwner = ownershipResult.isOk() && ownershipResult.unwrap().isOwner;
 
       // Non-owners can see visibility but not collaborators
@@ -2069,11 +2692,12 @@ export function createApiRoutes(repo: SessionRepository) {
         return json({
           collaborators: [],
           visibility: session.visibility,
+          org_id: session.org_id,
           error: "You do not have permission to view collaborators",
         });
       }
 
-      const collaborators = repo.getCollaborators(sessionId);
+      const collaborators = await repo.getCollaborators(sessionId);
 
       // Enrich with user display info for collaborators who have signed up
       const enriched = await Promise.all(
@@ -2097,6 +2721,7 @@ export function createApiRoutes(repo: SessionRepository) {
       return json({
         collaborators: enriched,
         visibility: session.visibility,
+        org_id: session.org_id,
       });
     },
 
@@ -2106,7 +2731,7 @@ export function createApiRoutes(repo: SessionRepository) {
      * Requires owner access.
      */
     async addCollaborator(req: Request, sessionId: string): Promise<Response> {
-      const sessionResult = repo.getSession(sessionId);
+      const sessionResult = await repo.getSession(sessionId);
       if (sessionResult.isErr()) {
         return errorToResponse(sessionResult.error);
       }
@@ -2116,7 +2741,7 @@ export function createApiRoutes(repo: SessionRepository) {
       if (authError) return authError;
 
       // Verify ownership
-      const ownershipResult = repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
+      const ownershipResult = await repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
       if (ownershipResult.isErr()) {
         return errorToResponse(ownershipResult.error);
       }
@@ -2132,19 +2757,19 @@ export function createApiRoutes(repo: SessionRepository) {
       const { email, role } = validationResult.unwrap();
 
       // Check collaborator limit (max 50)
-      const count = repo.getCollaboratorCount(sessionId);
+      const count = await repo.getCollaboratorCount(sessionId);
       if (count >= 50) {
         return jsonError("Maximum collaborator limit (50) reached", 400);
       }
 
       // Check if already a collaborator
-      const existing = repo.getCollaboratorByEmail(sessionId, email);
+      const existing = await repo.getCollaboratorByEmail(sessionId, email);
       if (existing) {
         return jsonError("User is already a collaborator", 409);
       }
 
       // Add collaborator with audit logging
-      const collaborator = repo.addCollaboratorWithAudit(
+      const collaborator = await repo.addCollaboratorWithAudit(
         sessionId,
         email,
         role,
@@ -2158,6 +2783,10 @@ export function createApiRoutes(repo: SessionRepository) {
         email: collaborator.email,
         role: collaborator.role,
       });
+      await webhooks.emit("collaborator.added", sessionId, {
+        collaborator: { email: collaborator.email, role: collaborator.role },
+      });
+      mailer?.collaboratorInvited(await sharingEmail(sessionResult.unwrap(), collaborator.email, auth.userId!), collaborator.role);
 
       return json({
         id: collaborator.id,
@@ -2174,7 +2803,7 @@ export function createApiRoutes(repo: SessionRepository) {
      * Requires owner access.
      */
     async updateCollaborator(req: Request, sessionId: string, collaboratorId: number): Promise<Response> {
-      const sessionResult = repo.getSession(sessionId);
+      const sessionResult = await repo.getSession(sessionId);
       if (sessionResult.isErr()) {
         return errorToResponse(sessionResult.error);
       }
@@ -2184,7 +2813,7 @@ export function createApiRoutes(repo: SessionRepository) {
       if (authError) return authError;
 
       // Verify ownership
-      const ownershipResult = repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
+      const ownershipResult = await repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
       if (ownershipResult.isErr()) {
         return errorToResponse(ownershipResult.error);
       }
@@ -2193,7 +2822,7 @@ export function createApiRoutes(repo: SessionRepository) {
       }
 
       // Verify collaborator belongs to this session
-      const collaborator = repo.getCollaborator(collaboratorId);
+      const collaborator = await repo.getCollaborator(collaboratorId);
       if (!collaborator || collaborator.session_id !== sessionId) {
         return jsonError("Collaborator not found", 404);
       }
@@ -2206,7 +2835,7 @@ export function createApiRoutes(repo: SessionRepository) {
       const { role } = validationResult.unwrap();
 
       const oldRole = collaborator.role;
-      const updated = repo.updateCollaboratorRoleWithAudit(
+      const updated = await repo.updateCollaboratorRoleWithAudit(
         collaboratorId,
         role,
         auth.userId!
@@ -2224,6 +2853,9 @@ export function createApiRoutes(repo: SessionRepository) {
         oldRole,
         newRole: updated.role,
       });
+      if (oldRole !== updated.role) {
+        mailer?.collaboratorRoleChanged(await sharingEmail(sessionResult.unwrap(), updated.email, auth.userId!), oldRole, updated.role);
+      }
 
       return json({
         id: updated.id,
@@ -2238,7 +2870,7 @@ export function createApiRoutes(repo: SessionRepository) {
      * Requires owner access.
      */
     async removeCollaborator(req: Request, sessionId: string, collaboratorId: number): Promise<Response> {
-      const sessionResult = repo.getSession(sessionId);
+      const sessionResult = await repo.getSession(sessionId);
       if (sessionResult.isErr()) {
         return errorToResponse(sessionResult.error);
       }
@@ -2248,7 +2880,7 @@ export function createApiRoutes(repo: SessionRepository) {
       if (authError) return authError;
 
       // Verify ownership
-      const ownershipResult = repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
+      const ownershipResult = await repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
       if (ownershipResult.isErr()) {
         return errorToResponse(ownershipResult.error);
       }
@@ -2257,13 +2889,13 @@ export function createApiRoutes(repo: SessionRepository) {
       }
 
       // Verify collaborator belongs to this session
-      const collaborator = repo.getCollaborator(collaboratorId);
+      const collaborator = await repo.getCollaborator(collaboratorId);
       if (!collaborator || collaborator.session_id !== sessionId) {
         return jsonError("Collaborator not found", 404);
       }
 
       const collaboratorEmail = collaborator.email;
-      const removed = repo.removeCollaboratorWithAudit(collaboratorId, auth.userId!);
+      const removed = await repo.removeCollaboratorWithAudit(collaboratorId, auth.userId!);
       if (!removed) {
         return jsonError("Failed to remove collaborator", 500);
       }
@@ -2274,6 +2906,7 @@ export function createApiRoutes(repo: SessionRepository) {
         id: collaboratorId,
         email: collaboratorEmail,
       });
+      mailer?.collaboratorRemoved(await sharingEmail(sessionResult.unwrap(), collaboratorEmail, auth.userId!));
 
       return json({ success: true });
     },
@@ -2284,7 +2917,7 @@ export function createApiRoutes(repo: SessionRepository) {
      * Links the authenticated user to their pending collaborator record.
      */
     async acceptInvite(req: Request, sessionId: string): Promise<Response> {
-      const sessionResult = repo.getSession(sessionId);
+      const sessionResult = await repo.getSession(sessionId);
       if (sessionResult.isErr()) {
         return errorToResponse(sessionResult.error);
       }
@@ -2300,7 +2933,7 @@ export function createApiRoutes(repo: SessionRepository) {
       }
 
       // Find and accept the invite
-      const collaborator = repo.acceptInvite(sessionId, userInfo.email, auth.userId!);
+      const collaborator = await repo.acceptInvite(sessionId, userInfo.email, auth.userId!);
       if (!collaborator) {
         return jsonError("No pending invite found for your email", 404);
       }
@@ -2316,11 +2949,11 @@ export function createApiRoutes(repo: SessionRepository) {
 
     /**
      * PUT /api/sessions/:id/visibility
-     * Update session visibility (public/private).
+     * Update session visibility (private/public/org).
      * Requires owner access.
      */
     async updateVisibility(req: Request, sessionId: string): Promise<Response> {
-      const sessionResult = repo.getSession(sessionId);
+      const sessionResult = await repo.getSession(sessionId);
       if (sessionResult.isErr()) {
         return errorToResponse(sessionResult.error);
       }
@@ -2331,7 +2964,7 @@ export function createApiRoutes(repo: SessionRepository) {
       if (authError) return authError;
 
       // Verify ownership
-      const ownershipResult = repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
+      const ownershipResult = await repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
       if (ownershipResult.isErr()) {
         return errorToResponse(ownershipResult.error);
       }
@@ -2349,9 +2982,18 @@ export function createApiRoutes(repo: SessionRepository) {
       if (validationResult.isErr()) {
         return errorToResponse(validationResult.error);
       }
-      const { visibility } = validationResult.unwrap();
+      const { visibility, org_id } = validationResult.unwrap();
+
+      // Sessions can only be shared with organizations the owner belongs to
+      const orgId = visibility === 'org' ? org_id! : null;
+      if (orgId) {
+        const membershipResult = await getOrgMembership(auth, orgId);
+        if (membershipResult.isErr()) {
+          return errorToResponse(membershipResult.error);
+        }
+      }
 
-      const updated = repo.setSessionVisibilityWithAudit(sessionId, visibility, auth.userId!);
+      const updated = await repo.setSessionVisibilityWithAudit(sessionId, visibility, auth.userId!, orgId);
       if (!updated) {
         return jsonError("Failed to update visibility", 500);
       }
@@ -2360,9 +3002,10 @@ export function createApiRoutes(repo: SessionRepository) {
       broadcastToSession(sessionId, {
         type: 'visibility_changed',
         visibility,
+        org_id: orgId,
       });
 
-      return json({ visibility });
+      return json({ visibility, org_id: orgId });
     },
 
     /**
@@ -2371,7 +3014,7 @@ export function createApiRoutes(repo: SessionRepository) {
      * Requires owner access.
      */
     async getAuditLog(req: Request, sessionId: string): Promise<Response> {
-      const sessionResult = repo.getSession(sessionId);
+      const sessionResult = await repo.getSession(sessionId);
       if (sessionResult.isErr()) {
         return errorToResponse(sessionResult.error);
       }
@@ -2381,7 +3024,7 @@ export function createApiRoutes(repo: SessionRepository) {
       if (authError) return authError;
 
       // Verify ownership
-      const ownershipResult = repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
+      const ownershipResult = await repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
       if (ownershipResult.isErr()) {
         return errorToResponse(ownershipResult.error);
       }
@@ -2397,7 +3040,7 @@ export function createApiRoutes(repo: SessionRepository) {
       }
       const { limit } = queryResult.unwrap();
 
-      const logs = repo.getAuditLogs(sessionId, limit);
+      const logs = await repo.getAuditLogs(sessionId, limit);
 
       // Enrich with actor display info
       const enriched = await Promise.all(
@@ -2414,62 +3057,864 @@ export function createApiRoutes(repo: SessionRepository) {
     },
 
     /**
-     * GET /api/sessions/shared-with-me
-     * Get sessions shared with the authenticated user.
-     * Returns sessions where the user is a collaborator (not owner).
+     * GET /api/sessions/:id/emails
+     * Get the sharing emails sent for a session, including failed and skipped sends.
+     * Requires owner access.
      */
-    async getSessionsSharedWithMe(req: Request): Promise<Response> {
+    async getEmailLog(req: Request, sessionId: string): Promise<Response> {
+      const sessionResult = await repo.getSession(sessionId);
+      if (sessionResult.isErr()) {
+        return errorToResponse(sessionResult.error);
+      }
+
       const auth = await extractAuth(req);
       const authError = requireAuth(auth);
       if (authError) return authError;
 
-      // Get user email from Clerk
-      const userInfo = auth.userId ? await getUserDisplayInfo(auth.userId) : null;
-
-      // Get sessions shared with user by user_id
-      let sessions = repo.getSessionsSharedWithUser(auth.userId!);
-
-      // Also get sessions shared with user by email (for users who haven't signed up yet)
-      if (userInfo?.email) {
-        const byEmail = repo.getSessionsSharedWithEmail(userInfo.email);
-        // Merge and dedupe
-        const ids = new Set(sessions.map(s => s.id));
-        for (const s of byEmail) {
-          if (!ids.has(s.id)) {
-            sessions.push(s);
-            ids.add(s.id);
-          }
-        }
+      // Verify ownership
+      const ownershipResult = await repo.verifyOwnership(sessionId, auth.userId, auth.clientId);
+      if (ownershipResult.isErr()) {
+        return errorToResponse(ownershipResult.error);
+      }
+      if (!ownershipResult.unwrap().isOwner) {
+        return jsonError("Only the session owner can view the email log", 403);
       }
 
-      // Enrich with invite status
-      const enrichedSessions = sessions.map(s => {
-        // Check by user_id first, fall back to email
-        const collaborator =
-          repo.getCollaboratorByUserId(s.id, auth.userId!) ||
-          (userInfo?.email ? repo.getCollaboratorByEmail(s.id, userInfo.email) : null);
-
-        return {
-          id: s.id,
-          title: s.title,
-          description: s.description,
-          created_at: s.created_at,
-          updated_at: s.updated_at,
-          model: s.model,
-          harness: s.harness,
-          inviteStatus: collaborator?.accepted_at ? 'accepted' : 'pending',
-          role: collaborator?.role ?? null,
-        };
-      });
+      const url = new URL(req.url);
+      const queryResult = validateQueryParams(url, EmailLogQuerySchema);
+      if (queryResult.isErr()) {
+        return errorToResponse(queryResult.error);
+      }
+      const { status, limit } = queryResult.unwrap();
 
-      return json({ sessions: enrichedSessions });
+      const emails = await repo.getEmailLog({ sessionId, status, limit });
+      return json({ emails, enabled: mailer !== null });
     },
-  };
-}
 
-// Auth page HTML helpers
-function getAuthRedirectPage(redirectUrl: string): string {
-  return `<!DOCTYPE html>
+    /**
+     * GET /api/sessions/:id/review-threads
+     * Get a session's review threads with their comments.
+     * Readable by anyone who can view the session.
+     */
+    async getReviewThreads(req: Request, sessionId: string): Promise<Response> {
+      const sessionResult = await repo.getSession(sessionId);
+      if (sessionResult.isErr()) {
+        return errorToResponse(sessionResult.error);
+      }
+
+      const auth = await extractAuth(req);
+      if (!(await canViewSession(auth, sessionResult.unwrap()))) {
+        return jsonError("Forbidden", 403);
+      }
+
+      const threads = await repo.getReviewThreads(sessionId);
+      return json({
+        threads: await Promise.all(threads.map(withReviewAuthors)),
+        can_comment: await canReview(auth, sessionId),
+      });
+    },
+
+    /**
+     * Whether the caller may subscribe to a session's review updates over the
+     * WebSocket. Unlike the live stream, this is open for sessions in any state.
+     */
+    async canSubscribeToReviews(req: Request, sessionId: string): Promise<boolean> {
+      const sessionResult = await repo.getSession(sessionId);
+      if (sessionResult.isErr()) return false;
+      return canViewSession(await extractAuth(req), sessionResult.unwrap());
+    },
+
+    /**
+     * POST /api/sessions/:id/review-threads
+     * Start a review thread on a diff line.
+     * Requires a signed-in owner or collaborator.
+     */
+    async createReviewThread(req: Request, sessionId: string): Promise<Response> {
+      const sessionResult = await repo.getSession(sessionId);
+      if (sessionResult.isErr()) {
+        return errorToResponse(sessionResult.error);
+      }
+
+      const auth = await extractAuth(req);
+      if (!auth.userId) {
+        return jsonError("Sign in to review sessions", 401);
+      }
+      if (!(await canReview(auth, sessionId))) {
+        return jsonError("Only the owner and collaborators can review this session", 403);
+      }
+
+      const validationResult = await validateJson(req, CreateReviewThreadSchema);
+      if (validationResult.isErr()) {
+        return errorToResponse(validationResult.error);
+      }
+      const { diff_id, side, line_number, content } = validationResult.unwrap();
+
+      // Threads are anchored to the file, since live updates replace diff rows
+      const diff = (await repo.getDiffs(sessionId)).find((d) => d.id === diff_id);
+      if (!diff || !diff.filename) {
+        return jsonError("Diff not found", 404);
+      }
+
+      const thread = await withReviewAuthors(
+        await repo.createReviewThread(sessionId, { filename: diff.filename, side, line_number }, auth.userId, content)
+      );
+      broadcastToSession(sessionId, { type: "review_thread", thread } satisfies ReviewThreadEvent);
+
+      return json({ thread }, 201);
+    },
+
+    /**
+     * POST /api/sessions/:id/review-threads/:threadId/comments
+     * Reply to a review thread.
+     * Requires a signed-in owner or collaborator.
+     */
+    async addReviewComment(req: Request, sessionId: string, threadId: number): Promise<Response> {
+      const threadResult = await getReviewableThread(req, sessionId, threadId);
+      if (threadResult.isErr()) return threadResult.error;
+      const { auth } = threadResult.unwrap();
+
+      const validationResult = await validateJson(req, AddReviewCommentSchema);
+      if (validationResult.isErr()) {
+        return errorToResponse(validationResult.error);
+      }
+
+      const updated = await repo.addReviewComment(threadId, auth.userId!, validationResult.unwrap().content);
+      if (!updated) {
+        return jsonError("Review thread not found", 404);
+      }
+
+      const thread = await withReviewAuthors(updated);
+      broadcastToSession(sessionId, { type: "review_thread", thread } satisfies ReviewThreadEvent);
+
+      return json({ thread }, 201);
+    },
+
+    /**
+     * PATCH /api/sessions/:id/review-threads/:threadId
+     * Resolve or reopen a review thread.
+     * Requires a signed-in owner or collaborator.
+     */
+    async updateReviewThread(req: Request, sessionId: string, threadId: number): Promise<Response> {
+      const threadResult = await getReviewableThread(req, sessionId, threadId);
+      if (threadResult.isErr()) return threadResult.error;
+      const { auth } = threadResult.unwrap();
+
+      const validationResult = await validateJson(req, UpdateReviewThreadSchema);
+      if (validationResult.isErr()) {
+        return errorToResponse(validationResult.error);
+      }
+
+      const updated = await repo.setReviewThreadResolved(threadId, validationResult.unwrap().resolved, auth.userId!);
+      if (!updated) {
+        return jsonError("Review thread not found", 404);
+      }
+
+      const thread = await withReviewAuthors(updated);
+      broadcastToSession(sessionId, { type: "review_thread", thread } satisfies ReviewThreadEvent);
+
+      return json({ thread });
+    },
+
+    /**
+     * GET /api/sessions/:id/review-request
+     * Get the review being generated for a session, if any.
+     * Readable by anyone who can view the session.
+     */
+    async getReviewRequest(req: Request, sessionId: string): Promise<Response> {
+      const sessionResult = await repo.getSession(sessionId);
+      if (sessionResult.isErr()) {
+        return errorToResponse(sessionResult.error);
+      }
+      const session = sessionResult.unwrap();
+
+      const auth = await extractAuth(req);
+      if (!(await canViewSession(auth, session))) {
+        return jsonError("Forbidden", 403);
+      }
+
+      const pending = await getPendingReview(sessionId);
+      return json({
+        pending: pending && { request_id: pending.request_id, stage: pending.stage, requested_at: pending.requested_at },
+        can_request: await canReview(auth, sessionId),
+      });
+    },
+
+    /**
+     * POST /api/sessions/:id/review-request
+     * Have a connected daemon review the session's stored diff. The review
+     * replaces the current one; progress is broadcast over the session's
+     * review channel.
+     * Requires a signed-in owner or collaborator.
+     */
+    async requestReview(req: Request, sessionId: string): Promise<Response> {
+      const sessionResult = await repo.getSession(sessionId);
+      if (sessionResult.isErr()) {
+        return errorToResponse(sessionResult.error);
+      }
+      const session = sessionResult.unwrap();
+
+      const auth = await extractAuth(req);
+      if (!auth.userId) {
+        return jsonError("Sign in to review sessions", 401);
+      }
+      if (!(await canReview(auth, sessionId))) {
+        return jsonError("Only the owner and collaborators can review this session", 403);
+      }
+
+      if (await getPendingReview(sessionId)) {
+        return jsonError("A review is already in progress", 409);
+      }
+
+      const diff = buildReviewDiff(await repo.getDiffs(sessionId));
+      if (!diff) {
+        return jsonError("Session has no diff to review", 400);
+      }
+      if (Buffer.byteLength(diff) > MAX_REVIEW_DIFF_BYTES) {
+        return jsonError("Diff is too large to review", 413);
+      }
+
+      // Only the session owner's or the requester's daemons may see the diff,
+      // preferring the daemon that uploaded the session
+      const clientIds = [session.client_id, auth.clientId];
+      for (const userId of new Set([session.user_id, auth.userId])) {
+        if (userId) clientIds.push(...(await repo.getClientIdsForUser(userId)));
+      }
+      const daemon = daemonConnections.getReviewDaemon([...new Set(clientIds.filter((id): id is string => !!id))]);
+      if (!daemon) {
+        return jsonError("No connected daemon can run reviews", 503);
+      }
+
+      const pending: PendingReview = {
+        request_id: crypto.randomUUID(),
+        client_id: daemon.clientId,
+        stage: "queued",
+        requested_by: auth.userId,
+        requested_at: new Date().toISOString(),
+      };
+      await setPendingReview(sessionId, pending);
+
+      const sent = daemonConnections.sendToDaemon(daemon.clientId, {
+        type: "run_review",
+        session_id: sessionId,
+        request_id: pending.request_id,
+        diff,
+      });
+      if (!sent) {
+        await finishPendingReview(sessionId, pending.request_id);
+        return jsonError("No connected daemon can run reviews", 503);
+      }
+
+      broadcastToSession(sessionId, {
+        type: "review_progress",
+        request_id: pending.request_id,
+        stage: pending.stage,
+      } satisfies ReviewRequestEvent);
+
+      return json({ request_id: pending.request_id, stage: pending.stage, requested_at: pending.requested_at }, 202);
+    },
+
+    /**
+     * GET /api/sessions/shared-with-me
+     * Get sessions shared with the authenticated user.
+     * Returns sessions where the user is a collaborator (not owner).
+     */
+    async getSessionsSharedWithMe(req: Request): Promise<Response> {
+      const auth = await extractAuth(req);
+      const authError = requireAuth(auth);
+      if (authError) return authError;
+
+      // Get user email from Clerk
+      const userInfo = auth.userId ? await getUserDisplayInfo(auth.userId) : null;
+
+      // Get sessions shared with user by user_id
+      let sessions = await repo.getSessionsSharedWithUser(auth.userId!);
+
+      // Also get sessions shared with user by email (for users who haven't signed up yet)
+      if (userInfo?.email) {
+        const byEmail = await repo.getSessionsSharedWithEmail(userInfo.email);
+        // Merge and dedupe
+        const ids = new Set(sessions.map(s => s.id));
+        for (const s of byEmail) {
+          if (!ids.has(s.id)) {
+            sessions.push(s);
+            ids.add(s.id);
+          }
+        }
+      }
+
+      // Enrich with invite status
+      const enrichedSessions = await Promise.all(sessions.map(async s => {
+        // Check by user_id first, fall back to email
+        const collaborator =
+          await repo.getCollaboratorByUserId(s.id, auth.userId!) ||
+          (userInfo?.email ? await repo.getCollaboratorByEmail(s.id, userInfo.email) : null);
+
+        return {
+          id: s.id,
+          title: s.title,
+          description: s.description,
+          created_at: s.created_at,
+          updated_at: s.updated_at,
+          model: s.model,
+          harness: s.harness,
+          inviteStatus: collaborator?.accepted_at ? 'accepted' : 'pending',
+          role: collaborator?.role ?? null,
+        };
+      }));
+
+      return json({ sessions: enrichedSessions });
+    },
+
+    // === Search Endpoints ===
+
+    /**
+     * GET /api/search?q=
+     * Full-text search over messages, tool calls and diffs.
+     * Only sessions the user can access (owner, collaborator, or public) are searched.
+     */
+    async search(req: Request): Promise<Response> {
+      const auth = await extractAuth(req);
+      const authError = requireAuth(auth);
+      if (authError) return authError;
+
+      const url = new URL(req.url);
+      const queryResult = validateQueryParams(url, SearchQuerySchema);
+      if (queryResult.isErr()) {
+        return errorToResponse(queryResult.error);
+      }
+      const { q, limit } = queryResult.unwrap();
+
+      // Get user email for collaborator check
+      const userInfo = auth.userId ? await getUserDisplayInfo(auth.userId) : null;
+
+      const results = await repo.searchSessions(q, {
+        userId: auth.userId,
+        clientId: auth.clientId,
+        email: userInfo?.email,
+        canReadRepo: githubAccess?.checkFor(auth.userId),
+        limit,
+      });
+
+      return json({ query: q, results });
+    },
+
+    // === Repository Endpoints ===
+
+    /**
+     * GET /api/repos
+     * List repositories derived from sessions the user can access.
+     */
+    async getRepos(req: Request): Promise<Response> {
+      const auth = await extractAuth(req);
+      const authError = requireAuth(auth);
+      if (authError) return authError;
+
+      // Get user email for collaborator check
+      const userInfo = auth.userId ? await getUserDisplayInfo(auth.userId) : null;
+
+      const repositories = await repo.getAccessibleRepositories({
+        userId: auth.userId,
+        clientId: auth.clientId,
+        email: userInfo?.email,
+        canReadRepo: githubAccess?.checkFor(auth.userId),
+      });
+
+      return json({
+        repositories: repositories.map((r) => ({
+          ...r,
+          name: getRepoDisplayName(r.repo_url || r.project_path || ""),
+        })),
+      });
+    },
+
+    /**
+     * GET /api/repos/:repoId
+     * Repository aggregates, contributors, most-touched files and recent sessions.
+     * Stats only reflect sessions the user can access.
+     */
+    async getRepoDetail(req: Request, repoId: string): Promise<Response> {
+      const auth = await extractAuth(req);
+      const authError = requireAuth(auth);
+      if (authError) return authError;
+
+      const repoKey = decodeRepoId(repoId);
+      if (!repoKey) {
+        return jsonError("Repository not found", 404);
+      }
+
+      // Get user email for collaborator check
+      const userInfo = auth.userId ? await getUserDisplayInfo(auth.userId) : null;
+
+      const detailResult = await repo.getRepositoryDetail(repoKey, {
+        userId: auth.userId,
+        clientId: auth.clientId,
+        email: userInfo?.email,
+        canReadRepo: githubAccess?.checkFor(auth.userId),
+      });
+      if (detailResult.isErr()) {
+        return errorToResponse(detailResult.error);
+      }
+      const detail = detailResult.unwrap();
+
+      // Enrich contributors with display info (anonymous sessions have no user_id)
+      const contributors = await Promise.all(
+        detail.contributors.map(async (c) => ({
+          ...c,
+          user: c.user_id ? await getUserDisplayInfo(c.user_id) : null,
+        }))
+      );
+
+      return json({
+        repository: {
+          ...detail.stats,
+          name: getRepoDisplayName(repoKey),
+        },
+        contributors,
+        files: detail.files,
+        sessions: detail.sessions.map(normalizeRemoteSessionStatus),
+      });
+    },
+
+    // === Webhook Endpoints ===
+
+    /**
+     * GET /api/webhooks
+     * List the caller's webhooks, those of organizations they administer (and
+     * those organizations) and the events they can subscribe to.
+     */
+    async getWebhooks(req: Request): Promise<Response> {
+      const auth = await extractAuth(req);
+      const authError = requireAuth(auth);
+      if (authError) return authError;
+
+      const owned = await repo.getWebhooksForOwner(auth.userId, auth.clientId);
+
+      const userInfo = auth.userId ? await getUserDisplayInfo(auth.userId) : null;
+      const organizations = (await repo.getOrganizationsForUser(auth.userId, userInfo?.email ?? null))
+        .filter((org) => canManageMembers(org.role));
+      const orgWebhooks = (await Promise.all(organizations.map((org) => repo.getWebhooksForOrg(org.id)))).flat();
+
+      return json({
+        webhooks: [...owned, ...orgWebhooks].map(publicWebhook),
+        organizations: organizations.map(({ id, name, slug }) => ({ id, name, slug })),
+        event_types: WEBHOOK_EVENT_TYPES,
+      });
+    },
+
+    /**
+     * POST /api/webhooks
+     * Create a webhook. The response includes the signing secret, which is
+     * not returned again.
+     */
+    async createWebhook(req: Request): Promise<Response> {
+      const auth = await extractAuth(req);
+      const authError = requireAuth(auth);
+      if (authError) return authError;
+
+      const validationResult = await validateJson(req, CreateWebhookSchema);
+      if (validationResult.isErr()) {
+        return errorToResponse(validationResult.error);
+      }
+      const { url, org_id: orgId, events, description, active } = validationResult.unwrap();
+
+      if (orgId) {
+        const membershipResult = await getOrgMembership(auth, orgId);
+        if (membershipResult.isErr()) {
+          return errorToResponse(membershipResult.error);
+        }
+        if (!canManageMembers(membershipResult.unwrap().membership.role)) {
+          return jsonError("Only organization admins can add organization webhooks", 403);
+        }
+      }
+
+      const existing = orgId
+        ? await repo.getWebhooksForOrg(orgId)
+        : await repo.getWebhooksForOwner(auth.userId, auth.clientId);
+      if (existing.length >= MAX_WEBHOOKS) {
+        return jsonError(`Maximum webhook limit (${MAX_WEBHOOKS}) reached`, 400);
+      }
+
+      // Owned by the user when signed in, so the webhook follows them across machines
+      const webhook = await repo.createWebhook({
+        id: generateWebhookId(),
+        user_id: orgId ? null : auth.userId,
+        client_id: orgId || auth.userId ? null : auth.clientId,
+        org_id: orgId ?? null,
+        url,
+        secret: generateWebhookSecret(),
+        events,
+        description: description ?? null,
+        active,
+      });
+
+      return json({ ...publicWebhook(webhook), secret: webhook.secret }, 201);
+    },
+
+    /**
+     * PATCH /api/webhooks/:id
+     * Update a webhook's URL, events, description or active flag.
+     */
+    async updateWebhook(req: Request, webhookId: string): Promise<Response> {
+      const auth = await extractAuth(req);
+      const authError = requireAuth(auth);
+      if (authError) return authError;
+
+      const webhookResult = await getOwnedWebhook(auth, webhookId);
+      if (webhookResult.isErr()) {
+        return errorToResponse(webhookResult.error);
+      }
+
+      const validationResult = await validateJson(req, UpdateWebhookSchema);
+      if (validationResult.isErr()) {
+        return errorToResponse(validationResult.error);
+      }
+      const { url, events, description, active } = validationResult.unwrap();
+
+      const updateResult = await repo.updateWebhook(webhookId, { url, events, description, active });
+      if (updateResult.isErr()) {
+        return errorToResponse(updateResult.error);
+      }
+
+      return json(publicWebhook(updateResult.unwrap()));
+    },
+
+    /**
+     * DELETE /api/webhooks/:id
+     * Delete a webhook along with its delivery log.
+     */
+    async deleteWebhook(req: Request, webhookId: string): Promise<Response> {
+      const auth = await extractAuth(req);
+      const authError = requireAuth(auth);
+      if (authError) return authError;
+
+      const webhookResult = await getOwnedWebhook(auth, webhookId);
+      if (webhookResult.isErr()) {
+        return errorToResponse(webhookResult.error);
+      }
+
+      await repo.deleteWebhook(webhookId);
+      return json({ success: true });
+    },
+
+    /**
+     * GET /api/webhooks/:id/deliveries
+     * Recent deliveries for a webhook, newest first.
+     */
+    async getWebhookDeliveries(req: Request, webhookId: string): Promise<Response> {
+      const auth = await extractAuth(req);
+      const authError = requireAuth(auth);
+      if (authError) return authError;
+
+      const webhookResult = await getOwnedWebhook(auth, webhookId);
+      if (webhookResult.isErr()) {
+        return errorToResponse(webhookResult.error);
+      }
+
+      const url = new URL(req.url);
+      const queryResult = validateQueryParams(url, WebhookDeliveriesQuerySchema);
+      if (queryResult.isErr()) {
+        return errorToResponse(queryResult.error);
+      }
+      const { limit } = queryResult.unwrap();
+
+      const deliveries = await repo.getWebhookDeliveries(webhookId, limit);
+      return json({ deliveries });
+    },
+
+    /**
+     * POST /api/webhooks/:id/test
+     * Send a "ping" delivery now and return its outcome.
+     */
+    async testWebhook(req: Request, webhookId: string): Promise<Response> {
+      const auth = await extractAuth(req);
+      const authError = requireAuth(auth);
+      if (authError) return authError;
+
+      const webhookResult = await getOwnedWebhook(auth, webhookId);
+      if (webhookResult.isErr()) {
+        return errorToResponse(webhookResult.error);
+      }
+
+      const delivery = await webhooks.sendTest(webhookResult.unwrap());
+      return json({ delivery });
+    },
+
+    // === Organization Endpoints ===
+
+    /**
+     * GET /api/orgs
+     * List the caller's organizations with their role in each.
+     * Pending invitations for the caller's email are accepted on the way.
+     */
+    async getOrganizations(req: Request): Promise<Response> {
+      const auth = await extractAuth(req);
+      if (!auth.userId) {
+        return jsonError("Sign in to use organizations", 401);
+      }
+
+      const userInfo = await getUserDisplayInfo(auth.userId);
+      if (userInfo?.email) {
+        await repo.acceptOrganizationInvites(userInfo.email, auth.userId);
+      }
+
+      const organizations = await repo.getOrganizationsForUser(auth.userId, userInfo?.email ?? null);
+      return json({ organizations });
+    },
+
+    /**
+     * POST /api/orgs
+     * Create an organization; the caller becomes its owner.
+     */
+    async createOrganization(req: Request): Promise<Response> {
+      const auth = await extractAuth(req);
+      if (!auth.userId) {
+        return jsonError("Sign in to use organizations", 401);
+      }
+
+      const validationResult = await validateJson(req, CreateOrganizationSchema);
+      if (validationResult.isErr()) {
+        return errorToResponse(validationResult.error);
+      }
+      const { name, slug: requestedSlug } = validationResult.unwrap();
+
+      const slug = requestedSlug ?? slugify(name);
+      if (!slug) {
+        return jsonError("Choose a slug for this organization", 400);
+      }
+      if (await repo.getOrganizationBySlug(slug)) {
+        return jsonError("An organization with this slug already exists", 409);
+      }
+
+      const userInfo = await getUserDisplayInfo(auth.userId);
+      if (!userInfo?.email) {
+        return jsonError("Could not determine user email", 400);
+      }
+
+      const org = await repo.createOrganization(
+        { id: generateOrganizationId(), name, slug, created_by_user_id: auth.userId },
+        userInfo.email
+      );
+      return json({ organization: { ...org, role: 'owner' } }, 201);
+    },
+
+    /**
+     * GET /api/orgs/:id
+     * Get an organization and its members.
+     * Requires membership.
+     */
+    async getOrganization(req: Request, orgId: string): Promise<Response> {
+      const auth = await extractAuth(req);
+      const membershipResult = await getOrgMembership(auth, orgId);
+      if (membershipResult.isErr()) {
+        return errorToResponse(membershipResult.error);
+      }
+      const { org, membership } = membershipResult.unwrap();
+
+      const members = await repo.getOrganizationMembers(orgId);
+      const enriched = await Promise.all(
+        members.map(async (m) => ({
+          id: m.id,
+          email: m.email,
+          role: m.role,
+          status: m.accepted_at ? 'active' : 'invited',
+          invited_at: m.created_at,
+          accepted_at: m.accepted_at,
+          user: m.user_id ? await getUserDisplayInfo(m.user_id) : null,
+        }))
+      );
+
+      return json({
+        organization: { ...org, role: membership.role },
+        members: enriched,
+        membership_id: membership.id,
+      });
+    },
+
+    /**
+     * PATCH /api/orgs/:id
+     * Rename an organization or change its slug.
+     * Requires an admin or owner.
+     */
+    async updateOrganization(req: Request, orgId: string): Promise<Response> {
+      const auth = await extractAuth(req);
+      const membershipResult = await getOrgMembership(auth, orgId);
+      if (membershipResult.isErr()) {
+        return errorToResponse(membershipResult.error);
+      }
+      const { org, membership } = membershipResult.unwrap();
+      if (!canManageMembers(membership.role)) {
+        return jsonError("Only organization admins can update the organization", 403);
+      }
+
+      const validationResult = await validateJson(req, UpdateOrganizationSchema);
+      if (validationResult.isErr()) {
+        return errorToResponse(validationResult.error);
+      }
+      const updates = validationResult.unwrap();
+
+      if (updates.slug && updates.slug !== org.slug && await repo.getOrganizationBySlug(updates.slug)) {
+        return jsonError("An organization with this slug already exists", 409);
+      }
+
+      const updated = await repo.updateOrganization(orgId, updates);
+      return json({ organization: { ...updated, role: membership.role } });
+    },
+
+    /**
+     * DELETE /api/orgs/:id
+     * Delete an organization. Sessions shared with it become private.
+     * Requires an owner.
+     */
+    async deleteOrganization(req: Request, orgId: string): Promise<Response> {
+      const auth = await extractAuth(req);
+      const membershipResult = await getOrgMembership(auth, orgId);
+      if (membershipResult.isErr()) {
+        return errorToResponse(membershipResult.error);
+      }
+      if (membershipResult.unwrap().membership.role !== 'owner') {
+        return jsonError("Only organization owners can delete the organization", 403);
+      }
+
+      await repo.deleteOrganization(orgId);
+      return json({ success: true });
+    },
+
+    /**
+     * GET /api/orgs/:id/sessions
+     * Sessions shared with an organization.
+     * Requires membership.
+     */
+    async getOrganizationSessions(req: Request, orgId: string): Promise<Response> {
+      const auth = await extractAuth(req);
+      const membershipResult = await getOrgMembership(auth, orgId);
+      if (membershipResult.isErr()) {
+        return errorToResponse(membershipResult.error);
+      }
+
+      const sessions = await repo.getOrganizationSessions(orgId);
+      return json({ sessions: sessions.map(normalizeRemoteSessionStatus) });
+    },
+
+    /**
+     * POST /api/orgs/:id/members
+     * Invite a member by email.
+     * Requires an admin or owner; only owners can add owners.
+     */
+    async addOrganizationMember(req: Request, orgId: string): Promise<Response> {
+      const auth = await extractAuth(req);
+      const membershipResult = await getOrgMembership(auth, orgId);
+      if (membershipResult.isErr()) {
+        return errorToResponse(membershipResult.error);
+      }
+      const { membership } = membershipResult.unwrap();
+
+      const validationResult = await validateJson(req, AddOrganizationMemberSchema);
+      if (validationResult.isErr()) {
+        return errorToResponse(validationResult.error);
+      }
+      const { email, role } = validationResult.unwrap();
+
+      if (!canAssignRole(membership.role, role)) {
+        return jsonError("You can't add members with this role", 403);
+      }
+
+      const count = await repo.getOrganizationMemberCount(orgId);
+      if (count >= MAX_ORG_MEMBERS) {
+        return jsonError(`Maximum member limit (${MAX_ORG_MEMBERS}) reached`, 400);
+      }
+
+      if (await repo.getOrganizationMemberByEmail(orgId, email)) {
+        return jsonError("User is already a member", 409);
+      }
+
+      const member = await repo.addOrganizationMember(orgId, email, role, auth.userId!);
+      return json({
+        id: member.id,
+        email: member.email,
+        role: member.role,
+        status: 'invited',
+        invited_at: member.created_at,
+      }, 201);
+    },
+
+    /**
+     * PATCH /api/orgs/:id/members/:memberId
+     * Change a member's role.
+     * Requires an admin or owner; only owners can change owners or make new ones.
+     */
+    async updateOrganizationMember(req: Request, orgId: string, memberId: number): Promise<Response> {
+      const auth = await extractAuth(req);
+      const membershipResult = await getOrgMembership(auth, orgId);
+      if (membershipResult.isErr()) {
+        return errorToResponse(membershipResult.error);
+      }
+      const { membership } = membershipResult.unwrap();
+
+      const member = await repo.getOrganizationMember(memberId);
+      if (!member || member.org_id !== orgId) {
+        return jsonError("Member not found", 404);
+      }
+
+      const validationResult = await validateJson(req, UpdateOrganizationMemberSchema);
+      if (validationResult.isErr()) {
+        return errorToResponse(validationResult.error);
+      }
+      const { role } = validationResult.unwrap();
+
+      if (!canAssignRole(membership.role, member.role) || !canAssignRole(membership.role, role)) {
+        return jsonError("You can't change this member's role", 403);
+      }
+      if (member.role === 'owner' && role !== 'owner' && await repo.getOrganizationMemberCount(orgId, 'owner') <= 1) {
+        return jsonError("An organization needs at least one owner", 400);
+      }
+
+      const updated = await repo.updateOrganizationMemberRole(memberId, role);
+      if (!updated) {
+        return jsonError("Failed to update member", 500);
+      }
+
+      return json({ id: updated.id, email: updated.email, role: updated.role });
+    },
+
+    /**
+     * DELETE /api/orgs/:id/members/:memberId
+     * Remove a member, or leave the organization.
+     * Removing others requires an admin or owner; only owners can remove owners.
+     */
+    async removeOrganizationMember(req: Request, orgId: string, memberId: number): Promise<Response> {
+      const auth = await extractAuth(req);
+      const membershipResult = await getOrgMembership(auth, orgId);
+      if (membershipResult.isErr()) {
+        return errorToResponse(membershipResult.error);
+      }
+      const { membership } = membershipResult.unwrap();
+
+      const member = await repo.getOrganizationMember(memberId);
+      if (!member || member.org_id !== orgId) {
+        return jsonError("Member not found", 404);
+      }
+
+      const leaving = member.id === membership.id;
+      if (!leaving && !canAssignRole(membership.role, member.role)) {
+        return jsonError("You can't remove this member", 403);
+      }
+      if (member.role === 'owner' && await repo.getOrganizationMemberCount(orgId, 'owner') <= 1) {
+        return jsonError("An organization needs at least one owner", 400);
+      }
+
+      const removed = await repo.removeOrganizationMember(memberId);
+      if (!removed) {
+        return jsonError("Failed to remove member", 500);
+      }
+
+      return json({ success: true });
+    },
+  };
+}
+
+// Auth page HTML helpers
+function getAuthRedirectPage(redirectUrl: string): string {
+  return `<!DOCTYPE html>
 <html>
 <head>
   <title>Redirecting...</title>
@@ -2519,26 +3964,59 @@ function getAuthErrorPage(message: string): string {
 }
 
 // WebSocket connection management
+//
+// Each instance only holds its own browser connections. Broadcasts are
+// delivered locally and published on the session's cluster channel, which
+// every instance with subscribers for that session listens on.
 const sessionSubscribers = new Map<string, Set<WebSocket>>();
+const clusterHandlers = new Map<string, ClusterHandler>();
+
+type SessionFanout = { type: "broadcast"; message: unknown } | { type: "close" };
 
 export function addSessionSubscriber(sessionId: string, ws: WebSocket): void {
   if (!sessionSubscribers.has(sessionId)) {
     sessionSubscribers.set(sessionId, new Set());
+
+    const handler: ClusterHandler = (payload) => {
+      const fanout = payload as SessionFanout;
+      if (fanout.type === "close") {
+        closeLocalConnections(sessionId);
+      } else {
+        deliverToSubscribers(sessionId, fanout.message);
+      }
+    };
+    clusterHandlers.set(sessionId, handler);
+    cluster.subscribe(sessionChannel(sessionId), handler);
   }
   sessionSubscribers.get(sessionId)!.add(ws);
 }
 
+function dropSubscriberSet(sessionId: string): void {
+  sessionSubscribers.delete(sessionId);
+
+  const handler = clusterHandlers.get(sessionId);
+  if (handler) {
+    clusterHandlers.delete(sessionId);
+    cluster.unsubscribe(sessionChannel(sessionId), handler);
+  }
+}
+
 export function removeSessionSubscriber(sessionId: string, ws: WebSocket): void {
   const subscribers = sessionSubscribers.get(sessionId);
   if (subscribers) {
     subscribers.delete(ws);
     if (subscribers.size === 0) {
-      sessionSubscribers.delete(sessionId);
+      dropSubscriberSet(sessionId);
     }
   }
 }
 
 export function broadcastToSession(sessionId: string, message: unknown): void {
+  deliverToSubscribers(sessionId, message);
+  cluster.publish(sessionChannel(sessionId), { type: "broadcast", message } satisfies SessionFanout);
+}
+
+function deliverToSubscribers(sessionId: string, message: unknown): void {
   const subscribers = sessionSubscribers.get(sessionId);
   if (!subscribers) return;
 
@@ -2566,18 +4044,23 @@ export function broadcastToSession(sessionId: string, message: unknown): void {
 
   // Clean up empty subscriber sets
   if (subscribers.size === 0) {
-    sessionSubscribers.delete(sessionId);
+    dropSubscriberSet(sessionId);
   }
 }
 
 export function closeSessionConnections(sessionId: string): void {
+  closeLocalConnections(sessionId);
+  cluster.publish(sessionChannel(sessionId), { type: "close" } satisfies SessionFanout);
+}
+
+function closeLocalConnections(sessionId: string): void {
   const subscribers = sessionSubscribers.get(sessionId);
   if (!subscribers) return;
 
   for (const ws of subscribers) {
     ws.close(1000, "Session complete");
   }
-  sessionSubscribers.delete(sessionId);
+  dropSubscriberSet(sessionId);
 }
 
 // Close all WebSocket connections (for graceful shutdown)
@@ -2586,8 +4069,8 @@ export function closeAllConnections(): void {
     for (const ws of subscribers) {
       ws.close(1001, "Server shutting down");
     }
+    dropSubscriberSet(sessionId);
   }
-  sessionSubscribers.clear();
 }
 
 function generateId(): string {
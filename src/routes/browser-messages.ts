@@ -17,17 +17,17 @@ import { checkRateLimit } from "./rate-limit";
 /**
  * Handle a message from a browser WebSocket connection.
  */
-export function handleBrowserMessage(
+export async function handleBrowserMessage(
   sessionId: string,
   msg: BrowserToServerMessage,
   repo: SessionRepository,
   sendToBrowser: (msg: ServerToBrowserMessage) => void
-): void {
+): Promise<void> {
   switch (msg.type) {
     case "subscribe":
       // Existing: resume from index
       if (typeof msg.from_index === "number") {
-        const messages = repo.getMessagesFromIndex(sessionId, msg.from_index);
+        const messages = await repo.getMessagesFromIndex(sessionId, msg.from_index);
         const lastMessage = messages[messages.length - 1];
         if (messages.length > 0 && lastMessage) {
           sendToBrowser({
@@ -44,15 +44,15 @@ export function handleBrowserMessage(
       break;
 
     case "user_message":
-      handleUserMessage(sessionId, msg.content, repo, sendToBrowser);
+      await handleUserMessage(sessionId, msg.content, repo, sendToBrowser);
       break;
 
     case "diff_comment":
-      handleDiffComment(sessionId, msg.file, msg.line, msg.content, repo, sendToBrowser);
+      await handleDiffComment(sessionId, msg.file, msg.line, msg.content, repo, sendToBrowser);
       break;
 
     case "suggested_edit":
-      handleSuggestedEdit(sessionId, msg.file, msg.old_content, msg.new_content, repo, sendToBrowser);
+      await handleSuggestedEdit(sessionId, msg.file, msg.old_content, msg.new_content, repo, sendToBrowser);
       break;
   }
 }
@@ -60,13 +60,13 @@ export function handleBrowserMessage(
 /**
  * Handle a user message (free-form text feedback).
  */
-function handleUserMessage(
+async function handleUserMessage(
   sessionId: string,
   content: string,
   repo: SessionRepository,
   sendToBrowser: (msg: ServerToBrowserMessage) => void
-): void {
-  const sessionResult = repo.getSession(sessionId);
+): Promise<void> {
+  const sessionResult = await repo.getSession(sessionId);
 
   if (sessionResult.isErr() || !sessionResult.unwrap().interactive) {
     sendToBrowser({
@@ -89,10 +89,10 @@ function handleUserMessage(
   }
 
   // Create feedback message record
-  const feedback = repo.createFeedbackMessage(sessionId, content, "message");
+  const feedback = await repo.createFeedbackMessage(sessionId, content, "message");
 
   // Get queue position
-  const pending = repo.getPendingFeedback(sessionId);
+  const pending = await repo.getPendingFeedback(sessionId);
   const position = pending.findIndex((m) => m.id === feedback.id) + 1;
 
   // Notify browser of queue position
@@ -107,15 +107,15 @@ function handleUserMessage(
 /**
  * Handle a diff comment (feedback on a specific file/line).
  */
-function handleDiffComment(
+async function handleDiffComment(
   sessionId: string,
   file: string,
   line: number,
   content: string,
   repo: SessionRepository,
   sendToBrowser: (msg: ServerToBrowserMessage) => void
-): void {
-  const sessionResult = repo.getSession(sessionId);
+): Promise<void> {
+  const sessionResult = await repo.getSession(sessionId);
 
   if (sessionResult.isErr() || !sessionResult.unwrap().interactive) {
     sendToBrowser({
@@ -144,12 +144,12 @@ Comment: ${content}
 
 Please address this feedback.`;
 
-  const feedback = repo.createFeedbackMessage(sessionId, formattedContent, "diff_comment", undefined, {
+  const feedback = await repo.createFeedbackMessage(sessionId, formattedContent, "diff_comment", undefined, {
     file,
     line,
   });
 
-  const pending = repo.getPendingFeedback(sessionId);
+  const pending = await repo.getPendingFeedback(sessionId);
   const position = pending.findIndex((m) => m.id === feedback.id) + 1;
 
   sendToBrowser({
@@ -162,15 +162,15 @@ Please address this feedback.`;
 /**
  * Handle a suggested edit (proposed code change).
  */
-function handleSuggestedEdit(
+async function handleSuggestedEdit(
   sessionId: string,
   file: string,
   oldContent: string,
   newContent: string,
   repo: SessionRepository,
   sendToBrowser: (msg: ServerToBrowserMessage) => void
-): void {
-  const sessionResult = repo.getSession(sessionId);
+): Promise<void> {
+  const sessionResult = await repo.getSession(sessionId);
 
   if (sessionResult.isErr() || !sessionResult.unwrap().interactive) {
     sendToBrowser({
@@ -206,12 +206,12 @@ ${newContent}
 
 Please review and apply this change if appropriate.`;
 
-  const feedback = repo.createFeedbackMessage(sessionId, formattedContent, "suggested_edit", undefined, {
+  const feedback = await repo.createFeedbackMessage(sessionId, formattedContent, "suggested_edit", undefined, {
     file,
     line: 0, // Line not applicable for full edits
   });
 
-  const pending = repo.getPendingFeedback(sessionId);
+  const pending = await repo.getPendingFeedback(sessionId);
   const position = pending.findIndex((m) => m.id === feedback.id) + 1;
 
   sendToBrowser({
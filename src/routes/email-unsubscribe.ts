@@ -0,0 +1,72 @@
+/**
+ * Unsubscribe links from sharing emails (see lib/mailer.ts).
+ *
+ * GET shows a confirmation page, so link scanners in mail clients can't
+ * unsubscribe anyone; the form on that page POSTs. Mail clients that support
+ * one-click unsubscribe (RFC 8058) POST to the same URL directly.
+ */
+
+import type { SessionRepository } from "../db/repository";
+import { actionPage } from "../views/actionPage";
+import { escapeHtml } from "../views/layout";
+
+const INVALID_LINK = "<p>This unsubscribe link is invalid.</p>";
+
+export function createEmailUnsubscribeRoutes(repo: SessionRepository) {
+  return {
+    /**
+     * GET /api/email/unsubscribe?token=...
+     * Confirmation page for an unsubscribe link.
+     */
+    async confirmUnsubscribe(req: Request): Promise<Response> {
+      const token = new URL(req.url).searchParams.get("token");
+      const preferences = token ? await repo.getEmailPreferencesByToken(token) : null;
+      if (!preferences) {
+        return actionPage("Invalid link", INVALID_LINK, 404);
+      }
+
+      if (preferences.unsubscribed_at) {
+        return actionPage(
+          "Unsubscribed",
+          `<p><strong>${escapeHtml(preferences.email)}</strong> no longer receives sharing emails.</p>
+    <form method="POST">
+      <input type="hidden" name="action" value="resubscribe">
+      <button type="submit" class="allow">Resubscribe</button>
+    </form>`
+        );
+      }
+
+      return actionPage(
+        "Unsubscribe?",
+        `<p>Stop sending session sharing emails to <strong>${escapeHtml(preferences.email)}</strong>?</p>
+    <form method="POST">
+      <button type="submit" class="deny">Unsubscribe</button>
+    </form>`
+      );
+    },
+
+    /**
+     * POST /api/email/unsubscribe?token=...
+     * Unsubscribe (or resubscribe, from the confirmation page) the token's address.
+     */
+    async applyUnsubscribe(req: Request): Promise<Response> {
+      const token = new URL(req.url).searchParams.get("token");
+      if (!token) {
+        return actionPage("Invalid link", INVALID_LINK, 404);
+      }
+
+      const form = await req.formData().catch(() => null);
+      const resubscribe = form?.get("action") === "resubscribe";
+
+      const preferences = await repo.setEmailUnsubscribed(token, !resubscribe);
+      if (!preferences) {
+        return actionPage("Invalid link", INVALID_LINK, 404);
+      }
+
+      return actionPage(
+        resubscribe ? "Resubscribed" : "Unsubscribed",
+        `<p><strong>${escapeHtml(preferences.email)}</strong> ${resubscribe ? "will receive" : "no longer receives"} sharing emails.</p>`
+      );
+    },
+  };
+}
@@ -34,11 +34,11 @@ export interface PendingFeedbackResponse {
  * Returns pending feedback messages for a session.
  * Used by the Stop hook to check if there's feedback to inject.
  */
-export function handleGetPendingFeedback(
+export async function handleGetPendingFeedback(
   sessionId: string,
   repo: SessionRepository
-): Response {
-  const session = repo.getSession(sessionId);
+): Promise<Response> {
+  const session = await repo.getSession(sessionId);
 
   if (!session) {
     return new Response(JSON.stringify({ error: "Session not found" }), {
@@ -48,7 +48,7 @@ export function handleGetPendingFeedback(
   }
 
   // Get pending (undelivered) feedback messages
-  const pending = repo.getPendingFeedback(sessionId);
+  const pending = await repo.getPendingFeedback(sessionId);
 
   const response: PendingFeedbackResponse = {
     pending: pending.length > 0,
@@ -75,12 +75,12 @@ export function handleGetPendingFeedback(
  * Mark a feedback message as delivered.
  * Called by the Stop hook after successfully injecting feedback.
  */
-export function handleMarkFeedbackDelivered(
+export async function handleMarkFeedbackDelivered(
   sessionId: string,
   messageId: string,
   repo: SessionRepository
-): Response {
-  const session = repo.getSession(sessionId);
+): Promise<Response> {
+  const session = await repo.getSession(sessionId);
 
   if (!session) {
     return new Response(JSON.stringify({ error: "Session not found" }), {
@@ -90,7 +90,7 @@ export function handleMarkFeedbackDelivered(
   }
 
   // Update feedback status to delivered
-  repo.updateFeedbackStatus(messageId, "delivered");
+  await repo.updateFeedbackStatus(messageId, "delivered");
 
   return new Response(JSON.stringify({ success: true }), {
     status: 200,
@@ -105,14 +105,14 @@ export function handleMarkFeedbackDelivered(
  * This allows the plugin to find the openctl session without needing the openctl
  * session ID to be set as an environment variable.
  */
-export function handleGetPendingFeedbackByClaudeSession(
+export async function handleGetPendingFeedbackByClaudeSession(
   claudeSessionId: string,
   repo: SessionRepository
-): Response {
+): Promise<Response> {
   console.log(`[feedback] Looking up session by claude_session_id=${claudeSessionId}`);
 
   // Look up session by Claude session ID
-  const sessionResult = repo.getSessionByClaudeSessionId(claudeSessionId);
+  const sessionResult = await repo.getSessionByClaudeSessionId(claudeSessionId);
 
   if (sessionResult.isErr()) {
     console.log(`[feedback] Session not found for claude_session_id=${claudeSessionId}`);
@@ -129,7 +129,7 @@ export function handleGetPendingFeedbackByClaudeSession(
   console.log(`[feedback] Found session: id=${session.id}, interactive=${session.interactive}`);
 
   // Get pending (undelivered) feedback messages
-  const pending = repo.getPendingFeedback(session.id);
+  const pending = await repo.getPendingFeedback(session.id);
   console.log(`[feedback] Found ${pending.length} pending feedback messages`);
 
   const response: PendingFeedbackResponse = {
@@ -158,14 +158,14 @@ export function handleGetPendingFeedbackByClaudeSession(
  * If no session exists with this claude_session_id, creates one.
  * Called by the UserPromptSubmit hook when /collaborate is run.
  */
-export function handleMarkSessionInteractive(
+export async function handleMarkSessionInteractive(
   claudeSessionId: string,
   repo: SessionRepository
-): Response {
+): Promise<Response> {
   console.log(`[interactive] Marking session interactive: claude_session_id=${claudeSessionId}`);
 
   // Look up session by Claude session ID
-  const sessionResult = repo.getSessionByClaudeSessionId(claudeSessionId);
+  const sessionResult = await repo.getSessionByClaudeSessionId(claudeSessionId);
 
   let session: { id: string; interactive: boolean };
 
@@ -175,7 +175,7 @@ export function handleMarkSessionInteractive(
 
     const id = generateSessionId();
 
-    session = repo.createSession({
+    session = await repo.createSession({
       id,
       title: "Interactive Session",
       description: null,
@@ -200,7 +200,7 @@ export function handleMarkSessionInteractive(
     console.log(`[interactive] Found session: id=${session.id}, current interactive=${session.interactive}`);
 
     // Mark session as interactive
-    repo.setSessionInteractive(session.id, true);
+    await repo.setSessionInteractive(session.id, true);
 
     console.log(`[interactive] Session marked interactive: id=${session.id}`);
   }
@@ -229,14 +229,14 @@ function generateSessionId(): string {
  * Mark a session as finished/closed.
  * Called by the SessionEnd hook when Claude Code exits.
  */
-export function handleMarkSessionFinished(
+export async function handleMarkSessionFinished(
   claudeSessionId: string,
   repo: SessionRepository
-): Response {
+): Promise<Response> {
   console.log(`[session-end] Marking session finished: claude_session_id=${claudeSessionId}`);
 
   // Look up session by Claude session ID
-  const sessionResult = repo.getSessionByClaudeSessionId(claudeSessionId);
+  const sessionResult = await repo.getSessionByClaudeSessionId(claudeSessionId);
 
   if (sessionResult.isErr()) {
     console.log(`[session-end] Session not found for claude_session_id=${claudeSessionId}`);
@@ -253,8 +253,8 @@ export function handleMarkSessionFinished(
   console.log(`[session-end] Found session: id=${session.id}, status=${session.status}`);
 
   // Mark session as complete and disable interactive mode
-  repo.updateSession(session.id, { status: "complete" });
-  repo.setSessionInteractive(session.id, false);
+  await repo.updateSession(session.id, { status: "complete" });
+  await repo.setSessionInteractive(session.id, false);
 
   console.log(`[session-end] Session marked finished: id=${session.id}`);
 
@@ -1,15 +1,37 @@
 import { SessionRepository } from "../db/repository";
 import { renderStatsPage } from "../views/stats";
+import { renderSessionPage } from "../views/sessionPage";
 import { getDateRange, parsePeriod, fillTimeseriesGaps } from "../analytics/queries";
 import { getClientId } from "../utils/request";
+import { spawnedSessionRegistry } from "../lib/spawned-session-registry";
+import type { createApiRoutes } from "./api";
+import type { InitialData } from "../client/initialData";
+import type { Annotation, ResolvedAnnotation, Review, ReviewVersion } from "../db/schema";
+
+interface PageRoutesOptions {
+  /** API handlers, reused so pages enforce the same access checks */
+  api: ReturnType<typeof createApiRoutes>;
+  /** HTML of the client app shell (public/index.html as served by Bun) */
+  loadShell: () => Promise<string>;
+  /** Clerk key the client is built with (PUBLIC_CLERK_PUBLISHABLE_KEY), so rendered pages hydrate cleanly */
+  clerkPublishableKey?: string;
+}
+
+function htmlResponse(body: string): Response {
+  return new Response(body, {
+    headers: { "Content-Type": "text/html" },
+  });
+}
+
+export function createPageRoutes(repo: SessionRepository, options: PageRoutesOptions) {
+  const { api, loadShell, clerkPublishableKey } = options;
 
-export function createPageRoutes(repo: SessionRepository) {
   return {
     /**
      * GET /stats
      * Stats dashboard page
      */
-    statsPage(req: Request): Response {
+    async statsPage(req: Request): Promise<Response> {
       const url = new URL(req.url);
       const period = parsePeriod(url.searchParams.get("period"));
       const mine = url.searchParams.get("mine") === "true";
@@ -18,10 +40,10 @@ export function createPageRoutes(repo: SessionRepository) {
       const { startDate, endDate } = getDateRange(period);
 
       // Fetch all data for SSR
-      const summary = repo.getStatsSummary(startDate, endDate, clientId ?? undefined);
-      const tools = repo.getToolStats(startDate, endDate, clientId ?? undefined);
+      const summary = await repo.getStatsSummary(startDate, endDate, clientId ?? undefined);
+      const tools = await repo.getToolStats(startDate, endDate, clientId ?? undefined);
       const sessionsTimeseries = fillTimeseriesGaps(
-        repo.getStatTimeseries("sessions_created", startDate, endDate, clientId ?? undefined),
+        await repo.getStatTimeseries("sessions_created", startDate, endDate, clientId ?? undefined),
         startDate,
         endDate
       );
@@ -50,5 +72,82 @@ export function createPageRoutes(repo: SessionRepository) {
         headers: { "Content-Type": "text/html" },
       });
     },
+
+    /**
+     * GET /sessions/:id
+     * Archived sessions are server-rendered with their data embedded. Spawned
+     * sessions, and sessions this request can't see, get the plain app shell
+     * and are handled client-side as before.
+     */
+    async sessionPage(req: Request, sessionId: string): Promise<Response> {
+      const shell = await loadShell();
+      if (spawnedSessionRegistry.getSession(sessionId)) {
+        return htmlResponse(shell);
+      }
+
+      const url = new URL(req.url);
+      const detailRes = await api.getSessionDetail(req, sessionId, url.origin);
+      if (!detailRes.ok) {
+        return htmlResponse(shell);
+      }
+      const detail = await detailRes.json();
+
+      // Review and annotations are owner-only, as on the client
+      const annotationsRes = await api.getAnnotations(req, sessionId);
+      const annotations: {
+        review: Review | null;
+        annotations_by_diff: Record<number, Annotation[]>;
+        resolved_annotations: ResolvedAnnotation[];
+        reviews: ReviewVersion[];
+      } | null = annotationsRes.ok ? await annotationsRes.json() : null;
+
+      const data: InitialData = {
+        path: url.pathname,
+        session: detail.session,
+        messages: detail.messages,
+        diffs: detail.diffs,
+        commits: detail.commits ?? [],
+        snapshots: detail.snapshots ?? [],
+        shareUrl: detail.shareUrl,
+        review: annotations?.review ?? null,
+        annotationsByDiff: annotations?.annotations_by_diff ?? {},
+        resolvedAnnotations: annotations?.resolved_annotations ?? [],
+        reviews: annotations?.reviews ?? [],
+        isOwner: detail.isOwner ?? false,
+        pendingInvite: detail.pendingInvite ?? false,
+      };
+      return htmlResponse(renderSessionPage(shell, data, url, clerkPublishableKey));
+    },
+
+    /**
+     * GET /s/:shareToken
+     * Server-rendered shared session, so links unfurl with a preview.
+     */
+    async sharedSessionPage(req: Request, shareToken: string): Promise<Response> {
+      const shell = await loadShell();
+      const url = new URL(req.url);
+      const detailRes = await api.getSharedSessionDetail(shareToken, url.origin);
+      if (!detailRes.ok) {
+        return htmlResponse(shell);
+      }
+      const detail = await detailRes.json();
+
+      const data: InitialData = {
+        path: url.pathname,
+        session: detail.session,
+        messages: detail.messages,
+        diffs: detail.diffs,
+        commits: detail.commits ?? [],
+        snapshots: detail.snapshots ?? [],
+        shareUrl: null,
+        review: null,
+        annotationsByDiff: {},
+        resolvedAnnotations: [],
+        reviews: [],
+        isOwner: false,
+        pendingInvite: false,
+      };
+      return htmlResponse(renderSessionPage(shell, data, url, clerkPublishableKey));
+    },
   };
 }
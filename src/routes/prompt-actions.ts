@@ -0,0 +1,82 @@
+/**
+ * Signed allow/deny links from prompt notifications (see lib/prompt-notifications.ts).
+ *
+ * GET shows a confirmation page, so link previews and prefetching in chat
+ * apps can't answer a prompt; the form on that page POSTs the decision.
+ * Anyone in the notification channel can hold a link, so the page names the
+ * tool but leaves the prompt's details to the session page.
+ */
+
+import { verifyAction, type PromptAction } from "../lib/prompt-notifications";
+import { spawnedSessionRegistry } from "../lib/spawned-session-registry";
+import { actionPage } from "../views/actionPage";
+import { escapeHtml } from "../views/layout";
+
+export interface PromptActionRoutesOptions {
+  /** Key the action URLs were signed with; actions are rejected without one */
+  actionSecret: string | null;
+  /** Answer the session's pending permission request */
+  respond: (sessionId: string, requestId: string, allow: boolean) => void;
+}
+
+export function createPromptActionRoutes(options: PromptActionRoutesOptions) {
+  /**
+   * Check the signature and that the request is still waiting for an answer.
+   */
+  function resolve(req: Request, sessionId: string): { action: PromptAction; tool: string } | Response {
+    const params = new URL(req.url).searchParams;
+    const action = options.actionSecret ? verifyAction(options.actionSecret, sessionId, params) : null;
+    if (!action) {
+      return actionPage("Link expired", "<p>This link is invalid or has expired. Open the session to answer the prompt.</p>", 403);
+    }
+
+    const pending = spawnedSessionRegistry.getSession(sessionId)?.pendingPermissionRequest;
+    if (!pending || pending.id !== action.requestId) {
+      return actionPage(
+        "Already answered",
+        `<p>This permission request is no longer pending.</p><p><a href="/sessions/${encodeURIComponent(sessionId)}">Open session</a></p>`,
+        409
+      );
+    }
+    return { action, tool: pending.tool };
+  }
+
+  return {
+    /**
+     * GET /api/sessions/:id/prompt-action
+     * Confirmation page for a signed allow/deny link.
+     */
+    confirmPromptAction(req: Request, sessionId: string): Response {
+      const resolved = resolve(req, sessionId);
+      if (resolved instanceof Response) return resolved;
+
+      const { action, tool } = resolved;
+      const verb = action.decision === "allow" ? "Allow" : "Deny";
+      return actionPage(
+        `${verb} ${tool}?`,
+        `<p><a href="/sessions/${encodeURIComponent(sessionId)}">Open the session</a> to see what it asks for.</p>
+    <form method="POST">
+      <button type="submit" class="${action.decision}">${verb}</button>
+    </form>`
+      );
+    },
+
+    /**
+     * POST /api/sessions/:id/prompt-action
+     * Apply a signed allow/deny decision.
+     */
+    applyPromptAction(req: Request, sessionId: string): Response {
+      const resolved = resolve(req, sessionId);
+      if (resolved instanceof Response) return resolved;
+
+      const { action, tool } = resolved;
+      options.respond(sessionId, action.requestId, action.decision === "allow");
+
+      return actionPage(
+        action.decision === "allow" ? "Allowed" : "Denied",
+        `<p><code>${escapeHtml(tool)}</code> was ${action.decision === "allow" ? "allowed" : "denied"}.</p>
+    <p><a href="/sessions/${encodeURIComponent(sessionId)}">Open session</a></p>`
+      );
+    },
+  };
+}
@@ -5,6 +5,9 @@
  * - Browser <-> Server communication
  */
 
+import type { Review, ReviewThreadView } from "../db/schema";
+import type { ReviewStage } from "../lib/review-requests";
+
 // ============================================================================
 // Browser <-> Server Messages
 // ============================================================================
@@ -28,7 +31,22 @@ export type CollaboratorEvent =
   | { type: "collaborator_added"; id: number; email: string; role: string }
   | { type: "collaborator_removed"; id: number; email: string }
   | { type: "collaborator_role_changed"; id: number; email: string; oldRole: string; newRole: string }
-  | { type: "visibility_changed"; visibility: "public" | "private" };
+  | { type: "visibility_changed"; visibility: "public" | "private" | "org"; org_id: string | null };
+
+/**
+ * Review thread update, sent when a thread is started, replied to, resolved
+ * or reopened. Carries the whole thread as it now stands.
+ */
+export type ReviewThreadEvent = { type: "review_thread"; thread: ReviewThreadView };
+
+/**
+ * Progress of a code review requested from the web UI. On completion the new
+ * review replaces the session's review; clients refetch its annotations.
+ */
+export type ReviewRequestEvent =
+  | { type: "review_progress"; request_id: string; stage: ReviewStage }
+  | { type: "review_complete"; request_id: string; review: Review & { annotation_count: number } }
+  | { type: "review_failed"; request_id: string; error: string };
 
 /**
  * Messages sent from the server to the browser.
@@ -63,5 +81,7 @@ export type ServerToBrowserMessage =
   | { type: "state"; state: "running" | "waiting" }
   | { type: "output"; data: string }
   // Collaboration events
-  | CollaboratorEvent;
+  | CollaboratorEvent
+  | ReviewThreadEvent
+  | ReviewRequestEvent;
 
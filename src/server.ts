@@ -1,8 +1,9 @@
-import { initializeDatabase, type ContentBlock as SchemaContentBlock } from "./db/schema";
+import type { ContentBlock as SchemaContentBlock } from "./db/schema";
+import { openStorage } from "./db/storage";
 import { SessionRepository } from "./db/repository";
 import { AnalyticsRecorder } from "./analytics/events";
 import { daemonConnections, type DaemonWebSocketData } from "./lib/daemon-connections";
-import { spawnedSessionRegistry, type ParsedDiff } from "./lib/spawned-session-registry";
+import { spawnedSessionRegistry, type ParsedDiff, type SpawnedSessionRecord } from "./lib/spawned-session-registry";
 import { createApiRoutes, addSessionSubscriber, removeSessionSubscriber, closeAllConnections, broadcastToSession } from "./routes/api";
 import { createPageRoutes } from "./routes/pages";
 import { handleBrowserMessage } from "./routes/browser-messages";
@@ -13,6 +14,18 @@ import type { BrowserToServerMessage as SpawnedBrowserMessage } from "./types/br
 import { sessionLimitEnforcer, getLimitExceededMessage } from "./lib/session-limits";
 import { sendInputLimiter, stopCleanupInterval } from "./lib/rate-limiter";
 import { logSessionEnded, logPermissionDecision, logLimitExceeded, auditLogger } from "./lib/audit-log";
+import { loadRedactionPolicy } from "./lib/redaction-policy";
+import { createRelayRedaction } from "./lib/relay-redaction";
+import { cluster } from "./lib/cluster";
+import { updatePendingReview, finishPendingReview, abandonDaemonReviews } from "./lib/review-requests";
+import { createPubSub } from "./lib/pubsub";
+import { WebhookDispatcher, summarizeDiffs } from "./lib/webhooks";
+import { createMailer } from "./lib/mailer";
+import { createGitHubRepoAccess } from "./lib/github-access";
+import { getGitHubAccessToken } from "./lib/clerk";
+import { createEmailUnsubscribeRoutes } from "./routes/email-unsubscribe";
+import { PromptNotifier, loadPromptNotificationConfig } from "./lib/prompt-notifications";
+import { createPromptActionRoutes } from "./routes/prompt-actions";
 
 // Import HTML template - Bun will bundle CSS and JS referenced in this file
 import homepage from "../public/index.html";
@@ -52,11 +65,76 @@ function getPort(): number {
 const PORT = getPort();
 
 // Initialize database and repository
-const db = initializeDatabase();
+const db = await openStorage();
 const repo = new SessionRepository(db);
+
+// Share broadcasts, daemon routing and spawned session state with other replicas (REDIS_URL)
+cluster.start(await createPubSub());
+await daemonConnections.joinCluster();
+await spawnedSessionRegistry.joinCluster();
+
+// Pick up spawned sessions that were running before a restart; their daemons reattach them on reconnect
+const restoredSpawned = await spawnedSessionRegistry.restore(repo, (clientId) => daemonConnections.isConnected(clientId));
+if (restoredSpawned.length > 0) {
+  console.log(`Restored ${restoredSpawned.length} spawned session(s), waiting for their daemons to reconnect`);
+}
 const analytics = new AnalyticsRecorder(repo);
-const api = createApiRoutes(repo);
-const pages = createPageRoutes(repo);
+// Outbound webhooks; failed deliveries are retried in the background
+const webhooks = new WebhookDispatcher(repo);
+webhooks.start();
+// Collaborator emails (SMTP_URL); sharing works without them
+const mailer = createMailer(repo);
+// Readers of a session's GitHub repository can view it (GITHUB_REPO_ACCESS)
+const githubAccess = createGitHubRepoAccess(getGitHubAccessToken);
+const emailUnsubscribe = createEmailUnsubscribeRoutes(repo);
+// Server redaction policy (REDACTION_POLICY_FILE / REDACTION_POLICY), for uploads and relayed daemon output
+const redactionPolicy = loadRedactionPolicy();
+const relayRedaction = createRelayRedaction(redactionPolicy, { repo, analytics });
+const api = createApiRoutes(repo, { redactionPolicy, webhooks, mailer, githubAccess });
+const pages = createPageRoutes(repo, {
+  api,
+  loadShell: loadAppShell,
+  clerkPublishableKey: process.env.PUBLIC_CLERK_PUBLISHABLE_KEY || undefined,
+});
+
+// Notify a channel about prompts left unanswered (PROMPT_NOTIFICATION_URL)
+const promptNotificationConfig = loadPromptNotificationConfig();
+const promptNotifier = promptNotificationConfig
+  ? new PromptNotifier(promptNotificationConfig, {
+      isPending: (sessionId, promptId) => {
+        const session = spawnedSessionRegistry.getSession(sessionId);
+        return session?.pendingPermissionRequest?.id === promptId || session?.pendingQuestion?.toolUseId === promptId;
+      },
+    })
+  : null;
+const promptActions = createPromptActionRoutes({
+  actionSecret: promptNotificationConfig?.actionSecret ?? null,
+  respond: (sessionId, requestId, allow) => {
+    // Answer the same way the browser would for this kind of request
+    const pending = spawnedSessionRegistry.getSession(sessionId)?.pendingPermissionRequest;
+    handleSpawnedSessionMessage(sessionId, pending?.toolUseId
+      ? { type: "control_response", request_id: requestId, allow }
+      : { type: "permission_response", request_id: requestId, allow });
+  },
+});
+
+/**
+ * HTML of the bundled client app, which server-rendered pages are built on.
+ * Bun only produces it when serving the HTML import, so fetch it from the
+ * "/" route. Cached in production; in development the bundle changes on rebuild.
+ */
+let appShell: Promise<string> | null = null;
+function loadAppShell(): Promise<string> {
+  const load = () => fetch(new URL("/", server.url)).then((res) => res.text());
+  if (process.env.NODE_ENV !== "production") {
+    return load();
+  }
+  appShell ??= load().catch((error) => {
+    appShell = null;
+    throw error;
+  });
+  return appShell;
+}
 
 /**
  * Extract text content from content blocks array.
@@ -74,6 +152,7 @@ interface BrowserWebSocketData {
   type: "browser";
   sessionId: string;
   isSpawned?: boolean; // True for browser-initiated sessions via daemon
+  reviewsOnly?: boolean; // Subscribed only for review thread updates (?channel=reviews)
 }
 
 type WebSocketData = BrowserWebSocketData | DaemonWebSocketData;
@@ -82,16 +161,24 @@ type WebSocketData = BrowserWebSocketData | DaemonWebSocketData;
  * Handle messages from daemon WebSocket connections.
  * These include connection announcements and session output.
  */
-function handleDaemonMessage(
+async function handleDaemonMessage(
   ws: import("bun").ServerWebSocket<DaemonWebSocketData>,
   message: DaemonToServerMessage
-): void {
+): Promise<void> {
   switch (message.type) {
     case "daemon_connected": {
       // Store the clientId in ws.data for later reference
       ws.data.clientId = message.client_id;
 
-      daemonConnections.addDaemon(message.client_id, ws, message.capabilities);
+      const reattached = daemonConnections.addDaemon(
+        message.client_id,
+        ws,
+        message.capabilities,
+        message.active_sessions
+      );
+      for (const sessionId of reattached) {
+        sessionLimitEnforcer.startTracking(sessionId);
+      }
       break;
     }
 
@@ -126,8 +213,16 @@ function handleDaemonMessage(
         return;
       }
 
+      // Enforce the server redaction policy before storing or broadcasting
+      const policyResult = await relayRedaction.output(message.session_id, ws.data.clientId, message.messages);
+      if (policyResult.isErr()) {
+        console.warn(`[relay] Dropped output for session ${message.session_id}: matched ${policyResult.error.rules.join(", ")}`);
+        return;
+      }
+      const relayedMessages = policyResult.unwrap();
+
       // Store messages to DB for persistence (instead of in-memory cache)
-      const messagesToStore = message.messages.map((msg) => {
+      const messagesToStore = relayedMessages.map((msg) => {
         const contentBlocks = msg.message?.content || [];
         return {
           session_id: message.session_id,
@@ -141,14 +236,14 @@ function handleDaemonMessage(
       });
 
       if (messagesToStore.length > 0) {
-        repo.addMessagesWithIndices(message.session_id, messagesToStore);
+        await repo.addMessagesWithIndices(message.session_id, messagesToStore);
       }
 
       // Record analytics and accumulate token usage (grouped by model for analytics)
       const totalTokens = { input: 0, output: 0, cacheCreation: 0, cacheRead: 0 };
       const tokensByModel = new Map<string | undefined, typeof totalTokens>();
 
-      for (const msg of message.messages) {
+      for (const msg of relayedMessages) {
         const role = msg.message?.role || msg.type;
         const contentBlocks = msg.message?.content || [];
         const usage = msg.message?.usage;
@@ -176,14 +271,14 @@ function handleDaemonMessage(
         }
 
         if (role === "user") {
-          analytics.recordMessageSent(message.session_id, {
+          await analytics.recordMessageSent(message.session_id, {
             clientId: ws.data.clientId,
             contentLength: extractTextContent(contentBlocks).length,
           });
         }
 
         if (role === "assistant") {
-          analytics.recordToolsFromMessage(
+          await analytics.recordToolsFromMessage(
             message.session_id,
             contentBlocks as Array<{ type: string; name?: string }>,
             { clientId: ws.data.clientId }
@@ -195,24 +290,24 @@ function handleDaemonMessage(
       const hasTokens = totalTokens.input > 0 || totalTokens.output > 0 ||
                         totalTokens.cacheCreation > 0 || totalTokens.cacheRead > 0;
       if (hasTokens) {
-        repo.incrementTokenUsage(message.session_id, totalTokens);
+        await repo.incrementTokenUsage(message.session_id, totalTokens);
       }
 
       // Record token analytics by model
       for (const [model, tokens] of tokensByModel) {
-        analytics.recordTokenUsage(tokens, {
+        await analytics.recordTokenUsage(tokens, {
           clientId: ws.data.clientId,
           model,
         });
       }
 
       // Update DB activity timestamp
-      repo.updateSession(message.session_id, {
+      await repo.updateSession(message.session_id, {
         last_activity_at: new Date().toISOString().replace("T", " ").slice(0, 19),
       });
 
       // Update session status based on messages
-      for (const msg of message.messages) {
+      for (const msg of relayedMessages) {
         if (msg.type === "system" && msg.subtype === "init" && msg.session_id) {
           // Start tracking limits when session initializes
           sessionLimitEnforcer.startTracking(message.session_id);
@@ -221,7 +316,7 @@ function handleDaemonMessage(
             status: "running",
           });
           // Update DB with claude session ID
-          repo.updateSession(message.session_id, {
+          await repo.updateSession(message.session_id, {
             claude_session_id: msg.session_id,
           });
           // Broadcast the claude session ID to connected browsers
@@ -245,7 +340,27 @@ function handleDaemonMessage(
       // Broadcast to browser WebSocket subscribers
       broadcastToSession(message.session_id, {
         type: "message",
-        messages: message.messages,
+        messages: relayedMessages,
+      });
+      break;
+    }
+
+    case "session_output_delta": {
+      // Partial text is only relayed to browsers; the complete message is stored when it lands
+      if (!spawnedSessionRegistry.getSession(message.session_id)) {
+        console.warn(`[relay] Unknown session: ${message.session_id}`);
+        return;
+      }
+
+      const deltasResult = relayRedaction.deltas(message.session_id, message.message_id, message.deltas);
+      if (deltasResult.isErr() || deltasResult.unwrap().length === 0) {
+        return;
+      }
+
+      broadcastToSession(message.session_id, {
+        type: "message_delta",
+        message_id: message.message_id,
+        deltas: deltasResult.unwrap(),
       });
       break;
     }
@@ -261,10 +376,10 @@ function handleDaemonMessage(
       }
 
       // Get message count from DB for analytics
-      const messageCount = repo.getMessageCount(message.session_id);
+      const messageCount = await repo.getMessageCount(message.session_id);
 
       // Record analytics for session completion
-      analytics.recordSessionCompleted(message.session_id, {
+      await analytics.recordSessionCompleted(message.session_id, {
         clientId: ws.data.clientId,
         durationSeconds,
         messageCount,
@@ -278,13 +393,19 @@ function handleDaemonMessage(
       });
 
       // Update DB status to complete
-      repo.updateSession(message.session_id, {
+      await repo.updateSession(message.session_id, {
         status: "complete",
         last_activity_at: new Date().toISOString().replace("T", " ").slice(0, 19),
       });
+      await webhooks.emit("session.completed", message.session_id, {
+        message_count: messageCount,
+        duration_seconds: durationSeconds,
+      });
 
       // Stop tracking limits
       sessionLimitEnforcer.stopTracking(message.session_id);
+      relayRedaction.forget(message.session_id);
+      promptNotifier?.cancel(message.session_id);
 
       // Log session end for audit
       logSessionEnded(
@@ -310,23 +431,35 @@ function handleDaemonMessage(
     }
 
     case "question_prompt": {
+      const { question, options } = relayRedaction.prompt({ question: message.question, options: message.options });
+
+      // Keep the question so browsers that connect later still see it
+      spawnedSessionRegistry.setPendingQuestion(message.session_id, {
+        toolUseId: message.tool_use_id,
+        question,
+        options,
+      });
+
       // Relay AskUserQuestion to browser
       broadcastToSession(message.session_id, {
         type: "question_prompt",
         tool_use_id: message.tool_use_id,
-        question: message.question,
-        options: message.options,
+        question,
+        options,
       });
+      promptNotifier?.promptPending(message.session_id, { kind: "question", id: message.tool_use_id });
       break;
     }
 
     case "permission_prompt": {
+      const { description, details } = relayRedaction.prompt({ description: message.description, details: message.details });
+
       // Record the pending permission request
       spawnedSessionRegistry.setPendingPermission(message.session_id, {
         id: message.request_id,
         tool: message.tool,
-        description: message.description,
-        details: message.details,
+        description,
+        details,
       });
 
       // Relay permission request to browser
@@ -334,19 +467,32 @@ function handleDaemonMessage(
         type: "permission_prompt",
         request_id: message.request_id,
         tool: message.tool,
-        description: message.description,
-        details: message.details,
+        description,
+        details,
       });
+      await webhooks.emit("permission.pending", message.session_id, {
+        permission: { request_id: message.request_id, tool: message.tool, description },
+      });
+      promptNotifier?.promptPending(message.session_id, { kind: "permission", id: message.request_id, tool: message.tool });
       break;
     }
 
     case "control_request": {
-      // Record the pending control request
+      const { input, decision_reason } = relayRedaction.prompt({
+        input: message.request.input,
+        decision_reason: message.request.decision_reason,
+      });
+      const description = decision_reason || `Use ${message.request.tool_name} tool`;
+
+      // Record the pending control request. Browsers see the masked input; an
+      // unchanged allow returns the input as the daemon sent it
       spawnedSessionRegistry.setPendingPermission(message.session_id, {
         id: message.request_id,
         tool: message.request.tool_name,
-        description: message.request.decision_reason || `Use ${message.request.tool_name} tool`,
-        details: message.request.input,
+        description,
+        details: input,
+        input: message.request.input,
+        toolUseId: message.request.tool_use_id,
       });
 
       // Relay control request to browser (using the browser-ws format)
@@ -355,37 +501,85 @@ function handleDaemonMessage(
         request_id: message.request_id,
         tool_name: message.request.tool_name,
         tool_use_id: message.request.tool_use_id,
-        input: message.request.input,
-        decision_reason: message.request.decision_reason,
+        input,
+        decision_reason,
         blocked_path: message.request.blocked_path,
       });
+      await webhooks.emit("permission.pending", message.session_id, {
+        permission: { request_id: message.request_id, tool: message.request.tool_name, description },
+      });
+      promptNotifier?.promptPending(message.session_id, {
+        kind: "permission",
+        id: message.request_id,
+        tool: message.request.tool_name,
+      });
+      break;
+    }
+
+    case "permission_policy_decision": {
+      // The daemon's auto-safe policy already answered Claude; record it and let browsers show it
+      spawnedSessionRegistry.recordPermissionDecision(message.session_id, {
+        id: message.request_id,
+        tool: message.tool_name,
+        description: message.description,
+        decision: message.decision,
+        decidedBy: "policy",
+        rule: message.rule,
+      });
+
+      logPermissionDecision(message.session_id, message.tool_name, message.decision === "allowed", {
+        type: "daemon",
+        client_id: ws.data.clientId,
+      });
+
+      broadcastToSession(message.session_id, {
+        type: "permission_policy_decision",
+        request_id: message.request_id,
+        tool_name: message.tool_name,
+        tool_use_id: message.tool_use_id,
+        description: message.description,
+        decision: message.decision,
+        rule: message.rule,
+      });
       break;
     }
 
     case "session_diff": {
-      // Parse and store the diff
-      const parsedDiffs = parseDiffForSpawnedSession(
-        message.diff,
+      // Parse the diff and enforce the server redaction policy before storing it
+      const policyResult = await relayRedaction.diff(
         message.session_id,
-        new Set(message.modified_files)
+        ws.data.clientId,
+        parseDiffForSpawnedSession(message.diff, message.session_id, new Set(message.modified_files)),
+        message.commits ?? []
       );
+      if (policyResult.isErr()) {
+        console.warn(`[relay] Dropped diff for session ${message.session_id}: matched ${policyResult.error.rules.join(", ")}`);
+        return;
+      }
+      const { diffs: parsedDiffs, commits } = policyResult.unwrap();
 
       // Store diffs in DB (clear existing and add new)
-      repo.clearDiffs(message.session_id);
-      if (parsedDiffs.length > 0) {
-        repo.addDiffs(parsedDiffs.map((d, index) => ({
-          session_id: message.session_id,
-          filename: d.filename,
-          diff_content: d.diff_content,
-          diff_index: index,
-          additions: d.additions,
-          deletions: d.deletions,
-          is_session_relevant: d.is_session_relevant,
-          status: d.additions > 0 && d.deletions === 0 ? "added" as const
-            : d.additions === 0 && d.deletions > 0 ? "removed" as const
-            : "modified" as const,
-        })));
+      const diffs = parsedDiffs.map((d, index) => ({
+        session_id: message.session_id,
+        filename: d.filename,
+        diff_content: d.diff_content,
+        diff_index: index,
+        additions: d.additions,
+        deletions: d.deletions,
+        is_session_relevant: d.is_session_relevant,
+        status: d.additions > 0 && d.deletions === 0 ? "added" as const
+          : d.additions === 0 && d.deletions > 0 ? "removed" as const
+          : "modified" as const,
+      }));
+      await repo.clearDiffs(message.session_id);
+      if (diffs.length > 0) {
+        await repo.addDiffs(diffs);
+      }
+      await repo.saveDiffSnapshot(message.session_id, await repo.getLastMessageIndex(message.session_id), diffs);
+      if (message.base_sha && message.head_sha) {
+        await repo.setSessionCommits(message.session_id, message.base_sha, message.head_sha, commits);
       }
+      await webhooks.emit("diff.updated", message.session_id, { diff: summarizeDiffs(diffs) });
 
       // Broadcast diff update to browsers
       broadcastToSession(message.session_id, {
@@ -412,7 +606,7 @@ function handleDaemonMessage(
       }
 
       if (Object.keys(updates).length > 0) {
-        repo.updateSession(message.session_id, updates);
+        await repo.updateSession(message.session_id, updates);
         console.log(
           `[relay] Updated metadata for session ${message.session_id}:`,
           updates
@@ -421,11 +615,71 @@ function handleDaemonMessage(
       break;
     }
 
+    case "review_progress": {
+      const pending = await updatePendingReview(message.session_id, message.request_id, message.stage);
+      if (pending) {
+        broadcastToSession(message.session_id, {
+          type: "review_progress",
+          request_id: message.request_id,
+          stage: pending.stage,
+        });
+      }
+      break;
+    }
+
+    case "review_result": {
+      // A newer request replaced this one; its result will follow
+      if (!(await finishPendingReview(message.session_id, message.request_id))) {
+        console.log(`[relay] Ignoring superseded review ${message.request_id} for session ${message.session_id}`);
+        break;
+      }
+
+      if (!message.review) {
+        broadcastToSession(message.session_id, {
+          type: "review_failed",
+          request_id: message.request_id,
+          error: message.error || "Review failed",
+        });
+        break;
+      }
+
+      await repo.addReview(message.session_id, message.review);
+      const reviewResult = await repo.getReviewWithCount(message.session_id);
+      if (reviewResult.isOk()) {
+        const review = reviewResult.unwrap();
+        broadcastToSession(message.session_id, {
+          type: "review_complete",
+          request_id: message.request_id,
+          review,
+        });
+        await webhooks.emit("review.generated", message.session_id, {
+          review: { summary: review.summary, model: review.model, annotation_count: review.annotation_count },
+        });
+      }
+
+      console.log(`[relay] Review ${message.request_id} stored for session ${message.session_id}`);
+      break;
+    }
+
     default:
       console.warn("[daemon-msg] Unknown message type:", (message as { type: string }).type);
   }
 }
 
+/**
+ * Fail the reviews a daemon was running when it disconnects, so viewers can
+ * request them again.
+ */
+async function failDaemonReviews(clientId: string): Promise<void> {
+  for (const [sessionId, pending] of await abandonDaemonReviews(clientId)) {
+    broadcastToSession(sessionId, {
+      type: "review_failed",
+      request_id: pending.request_id,
+      error: "The daemon running the review disconnected",
+    });
+  }
+}
+
 /**
  * Parse a diff string into parsed diff objects for spawned sessions.
  * Similar to parseDiffData in api.ts but returns ParsedDiff format.
@@ -587,6 +841,9 @@ function handleSpawnedSessionMessage(
       const session = spawnedSessionRegistry.getSession(sessionId);
       if (!session) return;
 
+      spawnedSessionRegistry.setPendingQuestion(sessionId, undefined);
+      promptNotifier?.cancel(sessionId);
+
       daemonConnections.sendToDaemon(session.daemonClientId, {
         type: "question_response",
         session_id: sessionId,
@@ -603,12 +860,14 @@ function handleSpawnedSessionMessage(
       // Record the permission decision
       const pendingRequest = session.pendingPermissionRequest;
       const tool = pendingRequest?.tool || "unknown";
+      promptNotifier?.cancel(sessionId);
 
       spawnedSessionRegistry.recordPermissionDecision(sessionId, {
         id: message.request_id,
         tool,
         description: pendingRequest?.description || "Permission decision",
         decision: message.allow ? "allowed" : "denied",
+        decidedBy: "user",
       });
 
       // Log permission decision for audit
@@ -633,12 +892,14 @@ function handleSpawnedSessionMessage(
       // Record the permission decision
       const pendingRequest = session.pendingPermissionRequest;
       const tool = pendingRequest?.tool || "unknown";
+      promptNotifier?.cancel(sessionId);
 
       spawnedSessionRegistry.recordPermissionDecision(sessionId, {
         id: message.request_id,
         tool,
         description: pendingRequest?.description || "Control request decision",
         decision: message.allow ? "allowed" : "denied",
+        decidedBy: "user",
       });
 
       // Log permission decision for audit
@@ -649,7 +910,7 @@ function handleSpawnedSessionMessage(
       // Relay to daemon with SDK format
       // Note: SDK requires updatedInput to be a record for allow responses,
       // so we use the original input if no modifications were provided
-      const originalInput = (pendingRequest?.details as Record<string, unknown>) ?? {};
+      const originalInput = pendingRequest?.input ?? (pendingRequest?.details as Record<string, unknown>) ?? {};
       daemonConnections.sendToDaemon(session.daemonClientId, {
         type: "control_response",
         session_id: sessionId,
@@ -674,6 +935,54 @@ function handleSpawnedSessionMessage(
   }
 }
 
+/**
+ * Bring a browser that (re)connects to a spawned session up to date: offer
+ * resume if the daemon is gone, and repeat prompts still waiting for an answer.
+ */
+function sendSpawnedSessionState(
+  ws: import("bun").ServerWebSocket<WebSocketData>,
+  session: SpawnedSessionRecord
+): void {
+  if (session.status === "disconnected") {
+    ws.send(JSON.stringify({
+      type: "daemon_disconnected",
+      session_id: session.id,
+      message: session.error || "Connection to daemon lost",
+      can_resume: session.recoveryInfo?.canResume ?? false,
+      claude_session_id: session.recoveryInfo?.claudeSessionId,
+    }));
+  }
+
+  const pending = session.pendingPermissionRequest;
+  if (pending?.toolUseId) {
+    ws.send(JSON.stringify({
+      type: "control_request",
+      request_id: pending.id,
+      tool_name: pending.tool,
+      tool_use_id: pending.toolUseId,
+      input: pending.details,
+      decision_reason: pending.description,
+    }));
+  } else if (pending) {
+    ws.send(JSON.stringify({
+      type: "permission_prompt",
+      request_id: pending.id,
+      tool: pending.tool,
+      description: pending.description,
+      details: pending.details,
+    }));
+  }
+
+  if (session.pendingQuestion) {
+    ws.send(JSON.stringify({
+      type: "question_prompt",
+      tool_use_id: session.pendingQuestion.toolUseId,
+      question: session.pendingQuestion.question,
+      options: session.pendingQuestion.options,
+    }));
+  }
+}
+
 // Type for route handler requests (Bun adds params for parameterized routes)
 type RouteRequest = Request & { params: Record<string, string> };
 
@@ -686,14 +995,23 @@ const server = Bun.serve<WebSocketData>({
   development: process.env.NODE_ENV !== "production",
 
   routes: {
-    // HTML routes - all pages use the same template with client-side routing
+    // HTML routes - all pages use the same template with client-side routing;
+    // session pages are also rendered on the server (see routes/pages.ts)
     "/": homepage,
     "/sessions": homepage,
-    "/sessions/:id": homepage,
-    "/s/:shareToken": homepage,
+    "/sessions/:id": {
+      GET: (req: RouteRequest) => pages.sessionPage(req, req.params.id!),
+    },
+    "/s/:shareToken": {
+      GET: (req: RouteRequest) => pages.sharedSessionPage(req, req.params.shareToken!),
+    },
     "/_components": homepage,
     "/profile": homepage,
     "/profile/v1": homepage,
+    "/repos/:id": homepage,
+    "/settings/webhooks": homepage,
+    "/orgs/new": homepage,
+    "/orgs/:slug": homepage,
 
     // Server-rendered stats page
     "/stats": {
@@ -730,6 +1048,10 @@ const server = Bun.serve<WebSocketData>({
       GET: (req: RouteRequest) => api.getSessionJson(req, req.params.id!),
     },
 
+    "/api/sessions/import": {
+      POST: (req: Request) => api.importSession(req),
+    },
+
     "/api/sessions/:id/diffs": {
       GET: (req: RouteRequest) => api.getSessionDiffs(req, req.params.id!),
     },
@@ -809,6 +1131,20 @@ const server = Bun.serve<WebSocketData>({
       POST: (req: Request) => api.claimSessions(req),
     },
 
+    // Full-text search endpoint
+    "/api/search": {
+      GET: (req: Request) => api.search(req),
+    },
+
+    // Repository view endpoints
+    "/api/repos": {
+      GET: (req: Request) => api.getRepos(req),
+    },
+
+    "/api/repos/:repoId": {
+      GET: (req: RouteRequest) => api.getRepoDetail(req, req.params.repoId!),
+    },
+
     // Analytics Stats endpoints
     "/api/stats": {
       GET: (req: Request) => api.getStats(req),
@@ -864,6 +1200,12 @@ const server = Bun.serve<WebSocketData>({
       GET: (req: RouteRequest) => api.getSessionInfo(req.params.id!, req),
     },
 
+    // Signed allow/deny links from prompt notifications
+    "/api/sessions/:id/prompt-action": {
+      GET: (req: RouteRequest) => promptActions.confirmPromptAction(req, req.params.id!),
+      POST: (req: RouteRequest) => promptActions.applyPromptAction(req, req.params.id!),
+    },
+
     // Session sharing endpoints
     "/api/sessions/:id/collaborators": {
       GET: (req) => api.getCollaborators(req, req.params.id),
@@ -888,17 +1230,88 @@ const server = Bun.serve<WebSocketData>({
       GET: (req) => api.getAuditLog(req, req.params.id),
     },
 
+    "/api/sessions/:id/review-threads": {
+      GET: (req: RouteRequest) => api.getReviewThreads(req, req.params.id!),
+      POST: (req: RouteRequest) => api.createReviewThread(req, req.params.id!),
+    },
+
+    "/api/sessions/:id/review-threads/:threadId": {
+      PATCH: (req: RouteRequest) => api.updateReviewThread(req, req.params.id!, parseInt(req.params.threadId!, 10)),
+    },
+
+    "/api/sessions/:id/review-threads/:threadId/comments": {
+      POST: (req: RouteRequest) => api.addReviewComment(req, req.params.id!, parseInt(req.params.threadId!, 10)),
+    },
+
+    "/api/sessions/:id/review-request": {
+      GET: (req: RouteRequest) => api.getReviewRequest(req, req.params.id!),
+      POST: (req: RouteRequest) => api.requestReview(req, req.params.id!),
+    },
+
+    "/api/sessions/:id/emails": {
+      GET: (req: RouteRequest) => api.getEmailLog(req, req.params.id!),
+    },
+
+    "/api/email/unsubscribe": {
+      GET: (req: Request) => emailUnsubscribe.confirmUnsubscribe(req),
+      POST: (req: Request) => emailUnsubscribe.applyUnsubscribe(req),
+    },
+
     "/api/sessions/shared-with-me": {
       GET: (req) => api.getSessionsSharedWithMe(req),
     },
 
+    // Webhook endpoints
+    "/api/webhooks": {
+      GET: (req: Request) => api.getWebhooks(req),
+      POST: (req: Request) => api.createWebhook(req),
+    },
+
+    "/api/webhooks/:id": {
+      PATCH: (req: RouteRequest) => api.updateWebhook(req, req.params.id!),
+      DELETE: (req: RouteRequest) => api.deleteWebhook(req, req.params.id!),
+    },
+
+    "/api/webhooks/:id/deliveries": {
+      GET: (req: RouteRequest) => api.getWebhookDeliveries(req, req.params.id!),
+    },
+
+    "/api/webhooks/:id/test": {
+      POST: (req: RouteRequest) => api.testWebhook(req, req.params.id!),
+    },
+
+    // Organization endpoints
+    "/api/orgs": {
+      GET: (req: Request) => api.getOrganizations(req),
+      POST: (req: Request) => api.createOrganization(req),
+    },
+
+    "/api/orgs/:id": {
+      GET: (req: RouteRequest) => api.getOrganization(req, req.params.id!),
+      PATCH: (req: RouteRequest) => api.updateOrganization(req, req.params.id!),
+      DELETE: (req: RouteRequest) => api.deleteOrganization(req, req.params.id!),
+    },
+
+    "/api/orgs/:id/sessions": {
+      GET: (req: RouteRequest) => api.getOrganizationSessions(req, req.params.id!),
+    },
+
+    "/api/orgs/:id/members": {
+      POST: (req: RouteRequest) => api.addOrganizationMember(req, req.params.id!),
+    },
+
+    "/api/orgs/:id/members/:memberId": {
+      PATCH: (req: RouteRequest) => api.updateOrganizationMember(req, req.params.id!, parseInt(req.params.memberId!, 10)),
+      DELETE: (req: RouteRequest) => api.removeOrganizationMember(req, req.params.id!, parseInt(req.params.memberId!, 10)),
+    },
+
     // Health check endpoint
     "/api/health": {
       GET: () => api.getHealth(),
     },
   },
 
-  fetch(req, server) {
+  async fetch(req, server) {
     const url = new URL(req.url);
 
     // Handle WebSocket upgrade for daemon connections
@@ -924,6 +1337,24 @@ const server = Bun.serve<WebSocketData>({
     if (wsMatch && wsMatch[1]) {
       const sessionId = wsMatch[1];
 
+      // Review thread updates are available for sessions in any state, to
+      // anyone who can view the session
+      if (url.searchParams.get("channel") === "reviews") {
+        if (!(await api.canSubscribeToReviews(req, sessionId))) {
+          return new Response("Forbidden", { status: 403 });
+        }
+
+        const upgraded = server.upgrade(req, {
+          data: { type: "browser", sessionId, reviewsOnly: true },
+        });
+
+        if (upgraded) {
+          return undefined;
+        }
+
+        return new Response("WebSocket upgrade failed", { status: 500 });
+      }
+
       // Check if this is a spawned session (in-memory registry)
       const spawnedSession = spawnedSessionRegistry.getSession(sessionId);
       if (spawnedSession) {
@@ -941,7 +1372,7 @@ const server = Bun.serve<WebSocketData>({
       }
 
       // Check if this is an archived session (database)
-      const sessionResult = repo.getSession(sessionId);
+      const sessionResult = await repo.getSession(sessionId);
 
       if (sessionResult.isErr()) {
         return new Response("Session not found", { status: 404 });
@@ -971,7 +1402,7 @@ const server = Bun.serve<WebSocketData>({
   },
 
   websocket: {
-    open(ws: import("bun").ServerWebSocket<WebSocketData>) {
+    async open(ws: import("bun").ServerWebSocket<WebSocketData>) {
       const data = ws.data;
 
       // Handle daemon connections
@@ -988,12 +1419,15 @@ const server = Bun.serve<WebSocketData>({
 
       // Check if this is a spawned session (browser-initiated via daemon)
       const browserData = data as BrowserWebSocketData;
+      if (browserData.reviewsOnly) {
+        return;
+      }
       if (browserData.isSpawned) {
         const spawnedSession = spawnedSessionRegistry.getSession(data.sessionId);
-        const dbSessionResult = repo.getSession(data.sessionId);
+        const dbSessionResult = await repo.getSession(data.sessionId);
         const dbSession = dbSessionResult.isOk() ? dbSessionResult.unwrap() : null;
-        const messageCount = repo.getMessageCount(data.sessionId);
-        const lastIndex = repo.getLastMessageIndex(data.sessionId);
+        const messageCount = await repo.getMessageCount(data.sessionId);
+        const lastIndex = await repo.getLastMessageIndex(data.sessionId);
 
         // Determine status: use registry if available, otherwise derive from DB
         // If not in registry but DB says "live", daemon is disconnected
@@ -1029,14 +1463,18 @@ const server = Bun.serve<WebSocketData>({
             error: spawnedSession.error || "Session failed to start",
           }));
         }
+
+        if (spawnedSession) {
+          sendSpawnedSessionState(ws, spawnedSession);
+        }
         return;
       }
 
       // Send connected message with current state including interactive info (database sessions)
-      const sessionResult = repo.getSession(data.sessionId);
+      const sessionResult = await repo.getSession(data.sessionId);
       const session = sessionResult.isOk() ? sessionResult.unwrap() : null;
-      const messageCount = repo.getMessageCount(data.sessionId);
-      const lastIndex = repo.getLastMessageIndex(data.sessionId);
+      const messageCount = await repo.getMessageCount(data.sessionId);
+      const lastIndex = await repo.getLastMessageIndex(data.sessionId);
 
       ws.send(JSON.stringify({
         type: "connected",
@@ -1049,7 +1487,7 @@ const server = Bun.serve<WebSocketData>({
       }));
     },
 
-    message(ws: import("bun").ServerWebSocket<WebSocketData>, message: string | Buffer) {
+    async message(ws: import("bun").ServerWebSocket<WebSocketData>, message: string | Buffer) {
       const data = ws.data;
 
       try {
@@ -1057,7 +1495,12 @@ const server = Bun.serve<WebSocketData>({
 
         // Handle daemon messages
         if (data.type === "daemon") {
-          handleDaemonMessage(ws as unknown as import("bun").ServerWebSocket<DaemonWebSocketData>, msg as DaemonToServerMessage);
+          await handleDaemonMessage(ws as unknown as import("bun").ServerWebSocket<DaemonWebSocketData>, msg as DaemonToServerMessage);
+          return;
+        }
+
+        // Review subscribers only receive broadcasts
+        if (data.reviewsOnly) {
           return;
         }
 
@@ -1075,7 +1518,7 @@ const server = Bun.serve<WebSocketData>({
             const fromIndex = typeof msg.from_index === "number" ? msg.from_index : 0;
 
             // Query messages from DB
-            const dbMessages = repo.getMessages(data.sessionId);
+            const dbMessages = await repo.getMessages(data.sessionId);
             const filteredMessages = dbMessages.filter((m) => m.message_index >= fromIndex);
 
             if (filteredMessages.length > 0) {
@@ -1098,7 +1541,7 @@ const server = Bun.serve<WebSocketData>({
             }
 
             // Query diffs from DB
-            const dbDiffs = repo.getDiffs(data.sessionId);
+            const dbDiffs = await repo.getDiffs(data.sessionId);
             if (dbDiffs.length > 0) {
               ws.send(JSON.stringify({
                 type: "diff_update",
@@ -1121,7 +1564,7 @@ const server = Bun.serve<WebSocketData>({
         }
 
         // Handle browser messages for regular (plugin-based) sessions
-        handleBrowserMessage(
+        await handleBrowserMessage(
           data.sessionId,
           msg as BrowserToServerMessage,
           repo,
@@ -1137,7 +1580,13 @@ const server = Bun.serve<WebSocketData>({
 
       // Handle daemon disconnection
       if (data.type === "daemon" && data.clientId) {
-        daemonConnections.removeDaemon(data.clientId);
+        daemonConnections.removeDaemon(data.clientId, ws as import("bun").ServerWebSocket<DaemonWebSocketData>);
+        // A replaced connection closing leaves the daemon connected
+        if (!daemonConnections.isConnected(data.clientId)) {
+          failDaemonReviews(data.clientId).catch((err) => {
+            console.error("[relay] Failed to clear reviews for disconnected daemon:", err);
+          });
+        }
         return;
       }
 
@@ -1198,10 +1647,19 @@ async function gracefulShutdown(signal: string) {
   clearInterval(idleTimeoutInterval);
   stopCleanupInterval();
 
+  promptNotifier?.stop();
+
+  // Let in-flight webhook deliveries finish; unfinished ones are retried after restart
+  await webhooks.stop();
+  await mailer?.drain();
+
   // Close all WebSocket connections
   console.log("Closing WebSocket connections...");
   closeAllConnections();
 
+  // Tell other replicas our daemons are gone so they stop routing to us
+  await daemonConnections.leaveCluster();
+
   // Stop accepting new connections and close existing ones
   console.log("Stopping server...");
   server.stop();
@@ -1210,9 +1668,13 @@ async function gracefulShutdown(signal: string) {
   console.log("Flushing audit logs...");
   await auditLogger.close();
 
+  // Finish writing spawned session state
+  await spawnedSessionRegistry.flush();
+  await cluster.stop();
+
   // Close database connection
   console.log("Closing database...");
-  db.close();
+  await db.close();
 
   console.log("Shutdown complete.");
   process.exit(0);
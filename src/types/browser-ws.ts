@@ -5,7 +5,7 @@
  * acts as a relay between browser WebSockets and daemon WebSockets.
  */
 
-import type { StreamJsonMessage } from "./daemon-ws";
+import type { OutputDelta, StreamJsonMessage } from "./daemon-ws";
 
 // ============================================
 // Browser -> Server Messages
@@ -50,6 +50,8 @@ export type ServerToBrowserMessage =
     }
   // Session output messages
   | { type: "message"; messages: StreamJsonMessage[] }
+  // Partial assistant text, replaced by the complete message when it arrives
+  | { type: "message_delta"; message_id: string; deltas: OutputDelta[] }
   | {
       type: "tool_result";
       tool_use_id: string;
@@ -79,6 +81,16 @@ export type ServerToBrowserMessage =
       decision_reason?: string;
       blocked_path?: string;
     }
+  // Control request answered by the daemon's auto-safe permission policy
+  | {
+      type: "permission_policy_decision";
+      request_id: string;
+      tool_name: string;
+      tool_use_id: string;
+      description: string;
+      decision: "allowed" | "denied";
+      rule: string;
+    }
   // Connection status
   | {
       type: "daemon_disconnected";
@@ -87,6 +99,7 @@ export type ServerToBrowserMessage =
       can_resume?: boolean;
       claude_session_id?: string;
     }
+  | { type: "daemon_reconnected"; session_id: string; status: string }
   | { type: "heartbeat"; timestamp: string }
   | { type: "pong"; timestamp: string }
   // Errors
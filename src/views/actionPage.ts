@@ -0,0 +1,32 @@
+import { escapeHtml } from "./layout";
+
+/**
+ * Standalone page for links opened from outside the app (notification
+ * actions, email unsubscribe links): a title, a message and optionally a form.
+ * `body` is HTML; escape user content before passing it in.
+ */
+export function actionPage(title: string, body: string, status = 200): Response {
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+  <title>${escapeHtml(title)}</title>
+  <meta name="robots" content="noindex">
+  <style>
+    body { font-family: system-ui, -apple-system, sans-serif; text-align: center; padding: 50px; background: #f5f5f5; }
+    .container { background: white; border-radius: 12px; padding: 40px; max-width: 440px; margin: 0 auto; box-shadow: 0 2px 10px rgba(0,0,0,0.1); }
+    p { color: #666; }
+    code { background: #f0f0f0; padding: 2px 6px; border-radius: 4px; }
+    button { font-size: 15px; padding: 10px 24px; border: 0; border-radius: 6px; color: white; background: #18181b; cursor: pointer; }
+    .allow { background: #16a34a; }
+    .deny { background: #dc2626; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h1>${escapeHtml(title)}</h1>
+    ${body}
+  </div>
+</body>
+</html>`;
+  return new Response(html, { status, headers: { "Content-Type": "text/html; charset=utf-8" } });
+}
@@ -0,0 +1,102 @@
+import { renderToString } from "react-dom/server";
+import { StaticRouter } from "react-router-dom/server";
+import { AppRoutes } from "../client/App";
+import { AuthProviders } from "../client/components/AuthContext";
+import { InitialDataProvider, INITIAL_DATA_ELEMENT_ID, type InitialData } from "../client/initialData";
+import type { Session, Diff } from "../db/schema";
+import { escapeHtml } from "./layout";
+
+const MAX_DESCRIPTION_LENGTH = 200;
+
+export interface SessionPageMeta {
+  title: string;
+  description: string;
+  url: string;
+  model: string | null;
+  /** Diff stats, e.g. "3 files changed, +120 -40" */
+  changes: string | null;
+}
+
+export function getSessionPageMeta(session: Session, diffs: Diff[], messageCount: number, url: string): SessionPageMeta {
+  const additions = diffs.reduce((sum, d) => sum + (d.additions || 0), 0);
+  const deletions = diffs.reduce((sum, d) => sum + (d.deletions || 0), 0);
+  const changes = diffs.length > 0
+    ? `${diffs.length} ${diffs.length === 1 ? "file" : "files"} changed, +${additions} -${deletions}`
+    : null;
+
+  const summary = [
+    session.model,
+    `${messageCount} ${messageCount === 1 ? "message" : "messages"}`,
+    changes,
+  ].filter(Boolean).join(" · ");
+
+  const description = session.description
+    ? `${truncate(session.description, MAX_DESCRIPTION_LENGTH)} · ${summary}`
+    : summary;
+
+  return { title: session.title, description, url, model: session.model, changes };
+}
+
+/**
+ * OpenGraph and Twitter card tags. Slack also shows the twitter:label/data
+ * pairs as fields in the unfurl.
+ */
+export function renderSessionMetaTags(meta: SessionPageMeta): string {
+  const tags: Array<[attr: "property" | "name", key: string, value: string]> = [
+    ["name", "description", meta.description],
+    ["property", "og:type", "article"],
+    ["property", "og:site_name", "openctl"],
+    ["property", "og:title", meta.title],
+    ["property", "og:description", meta.description],
+    ["property", "og:url", meta.url],
+    ["name", "twitter:card", "summary"],
+    ["name", "twitter:title", meta.title],
+    ["name", "twitter:description", meta.description],
+  ];
+
+  const fields = [
+    ["Model", meta.model],
+    ["Changes", meta.changes],
+  ].filter((field): field is [string, string] => Boolean(field[1]));
+  fields.forEach(([label, value], i) => {
+    tags.push(["name", `twitter:label${i + 1}`, label]);
+    tags.push(["name", `twitter:data${i + 1}`, value]);
+  });
+
+  return tags
+    .map(([attr, key, value]) => `<meta ${attr}="${key}" content="${escapeHtml(value)}">`)
+    .join("\n  ");
+}
+
+/**
+ * Render a session page into the app shell (public/index.html as served by
+ * Bun): the title and meta tags go into the head, the rendered app into #app,
+ * and the data next to it so the client can hydrate without refetching.
+ * `clerkPublishableKey` must be the key the client bundle was built with.
+ */
+export function renderSessionPage(shell: string, data: InitialData, url: URL, clerkPublishableKey?: string): string {
+  const meta = getSessionPageMeta(data.session, data.diffs, data.messages.length, url.href);
+
+  const markup = renderToString(
+    <AuthProviders publishableKey={clerkPublishableKey}>
+      <StaticRouter location={url.pathname + url.search}>
+        <InitialDataProvider value={data}>
+          <AppRoutes />
+        </InitialDataProvider>
+      </StaticRouter>
+    </AuthProviders>
+  );
+
+  // "<" is escaped so the JSON can't close the script element early
+  const json = JSON.stringify(data).replace(/</g, "\\u003c");
+  const dataScript = `<script type="application/json" id="${INITIAL_DATA_ELEMENT_ID}">${json}</script>`;
+
+  // Replacement functions, so "$" in session content isn't treated as a pattern
+  return shell
+    .replace(/<title>[^<]*<\/title>/, () => `<title>${escapeHtml(meta.title)} - openctl</title>\n  ${renderSessionMetaTags(meta)}`)
+    .replace(/(<div id="app"[^>]*>)<\/div>/, (_, open: string) => `${open}${markup}</div>\n  ${dataScript}`);
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
@@ -32,31 +32,31 @@ describe("AnalyticsRecorder", () => {
     const today = new Date().toISOString().slice(0, 10);
     const getStats = () => repo.getStatsSummary(today, today);
 
-    test("counts user messages toward both prompts_sent and messages_total", () => {
-      analytics.recordMessagesFromUpload("sess_1", [
+    test("counts user messages toward both prompts_sent and messages_total", async () => {
+      await analytics.recordMessagesFromUpload("sess_1", [
         { role: "user", content_blocks: [] },
         { role: "user", content_blocks: [] },
       ]);
 
-      const stats = getStats();
+      const stats = await getStats();
       expect(stats.prompts_sent).toBe(2);
       expect(stats.messages_total).toBe(2);
     });
 
-    test("counts assistant messages toward messages_total only", () => {
-      analytics.recordMessagesFromUpload("sess_1", [
+    test("counts assistant messages toward messages_total only", async () => {
+      await analytics.recordMessagesFromUpload("sess_1", [
         { role: "assistant", content_blocks: [] },
         { role: "assistant", content_blocks: [] },
         { role: "assistant", content_blocks: [] },
       ]);
 
-      const stats = getStats();
+      const stats = await getStats();
       expect(stats.prompts_sent).toBeUndefined();
       expect(stats.messages_total).toBe(3);
     });
 
-    test("counts mixed user and assistant messages correctly", () => {
-      analytics.recordMessagesFromUpload("sess_1", [
+    test("counts mixed user and assistant messages correctly", async () => {
+      await analytics.recordMessagesFromUpload("sess_1", [
         { role: "user", content_blocks: [] },
         { role: "assistant", content_blocks: [] },
         { role: "user", content_blocks: [] },
@@ -64,28 +64,28 @@ describe("AnalyticsRecorder", () => {
         { role: "assistant", content_blocks: [] },
       ]);
 
-      const stats = getStats();
+      const stats = await getStats();
       expect(stats.prompts_sent).toBe(2);
       expect(stats.messages_total).toBe(5);
     });
 
-    test("ignores system and other non-conversation roles", () => {
-      analytics.recordMessagesFromUpload("sess_1", [
+    test("ignores system and other non-conversation roles", async () => {
+      await analytics.recordMessagesFromUpload("sess_1", [
         { role: "user", content_blocks: [] },
         { role: "system", content_blocks: [] },
         { role: "assistant", content_blocks: [] },
         { role: "tool", content_blocks: [] },
       ]);
 
-      const stats = getStats();
+      const stats = await getStats();
       expect(stats.prompts_sent).toBe(1);
       expect(stats.messages_total).toBe(2); // only user + assistant
     });
 
-    test("records nothing when messages array is empty", () => {
-      analytics.recordMessagesFromUpload("sess_1", []);
+    test("records nothing when messages array is empty", async () => {
+      await analytics.recordMessagesFromUpload("sess_1", []);
 
-      const stats = getStats();
+      const stats = await getStats();
       expect(stats.prompts_sent).toBeUndefined();
       expect(stats.messages_total).toBeUndefined();
     });
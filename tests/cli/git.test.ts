@@ -1,5 +1,5 @@
 import { describe, test, expect, beforeEach, afterEach } from "bun:test";
-import { getCurrentBranch, getRepoHttpsUrl, isGitRepo } from "../../cli/lib/git";
+import { captureGitChanges, getCurrentBranch, getHeadSha, getRepoHttpsUrl, isGitRepo } from "../../cli/lib/git";
 import { mkdtempSync, rmSync, writeFileSync } from "fs";
 import { join } from "path";
 import { tmpdir } from "os";
@@ -126,4 +126,49 @@ describe("Git utilities", () => {
       expect(url).toBe("https://github.com/test/repo");
     });
   });
+
+  describe("captureGitChanges", () => {
+    function commit(file: string, content: string, message: string) {
+      writeFileSync(join(gitDir, file), content);
+      Bun.spawnSync(["git", "add", file], { cwd: gitDir });
+      Bun.spawnSync(["git", "commit", "-m", message], { cwd: gitDir });
+    }
+
+    test("getHeadSha returns the current commit", async () => {
+      const sha = await getHeadSha(gitDir);
+      expect(sha).toMatch(/^[0-9a-f]{40}$/);
+      expect(await getHeadSha(tempDir)).toBeNull();
+    });
+
+    test("keeps committed changes in the diff and lists the commits", async () => {
+      const baseSha = (await getHeadSha(gitDir))!;
+      commit("a.txt", "one\n", "Add a\n\nWith a body");
+      commit("b.txt", "two\n", "Add b");
+      writeFileSync(join(gitDir, "README.md"), "# Changed");
+
+      const changes = await captureGitChanges(gitDir, { baseSha });
+      expect(changes!.baseSha).toBe(baseSha);
+      expect(changes!.headSha).toBe((await getHeadSha(gitDir))!);
+      expect(changes!.commits.map((c) => c.message)).toEqual(["Add a\n\nWith a body", "Add b"]);
+      expect(changes!.commits[0]).toMatchObject({ author: "Test User" });
+      expect(changes!.diff).toContain("b/a.txt");
+      expect(changes!.diff).toContain("b/b.txt");
+      expect(changes!.diff).toContain("+# Changed");
+    });
+
+    test("falls back to HEAD when the base is no longer an ancestor", async () => {
+      commit("a.txt", "one\n", "Add a");
+      const baseSha = (await getHeadSha(gitDir))!;
+      Bun.spawnSync(["git", "reset", "--hard", "HEAD~1"], { cwd: gitDir });
+
+      const changes = await captureGitChanges(gitDir, { baseSha });
+      expect(changes!.baseSha).toBe(changes!.headSha);
+      expect(changes!.commits).toEqual([]);
+      expect(changes!.diff).toBeNull();
+    });
+
+    test("returns null outside a git repository", async () => {
+      expect(await captureGitChanges(tempDir, { baseSha: null })).toBeNull();
+    });
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, test, expect } from "bun:test";
-import { renderContentBlocks, buildToolResultMap } from "../../src/client/blocks";
+import { renderContentBlocks, buildToolResultMap, containsRedaction } from "../../src/client/blocks";
 import type { ContentBlock } from "../../src/db/schema";
 
 describe("blocks", () => {
@@ -116,4 +116,13 @@ describe("blocks", () => {
       });
     });
   });
+
+  describe("containsRedaction", () => {
+    test("detects placeholders in text and structured values", () => {
+      expect(containsRedaction("key: [REDACTED:github_token]")).toBe(true);
+      expect(containsRedaction({ command: "export KEY=[REDACTED:secret_assignment]" })).toBe(true);
+      expect(containsRedaction("an ordinary [REDACTED] word")).toBe(false);
+      expect(containsRedaction(undefined)).toBe(false);
+    });
+  });
 });
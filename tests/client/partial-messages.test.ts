@@ -0,0 +1,48 @@
+import { describe, test, expect } from "bun:test";
+import { applyOutputDeltas, partialToStreamMessage } from "../../src/client/hooks/useSpawnedSession";
+
+describe("partial messages", () => {
+  test("appends deltas to the blocks of the streaming message", () => {
+    let partial = applyOutputDeltas(null, "msg_1", [{ index: 1, block_type: "text", text: "Hel" }]);
+    partial = applyOutputDeltas(partial, "msg_1", [
+      { index: 1, block_type: "text", text: "lo" },
+      { index: 0, block_type: "thinking", text: "Plan" },
+    ]);
+
+    expect(partial).toEqual({
+      messageId: "msg_1",
+      blocks: [
+        { index: 0, block_type: "thinking", text: "Plan" },
+        { index: 1, block_type: "text", text: "Hello" },
+      ],
+    });
+  });
+
+  test("starts over for a new message", () => {
+    const first = applyOutputDeltas(null, "msg_1", [{ index: 0, block_type: "text", text: "One" }]);
+    const second = applyOutputDeltas(first, "msg_2", [{ index: 0, block_type: "text", text: "Two" }]);
+
+    expect(second.blocks).toEqual([{ index: 0, block_type: "text", text: "Two" }]);
+    // The previous partial is left untouched (React state)
+    expect(first.blocks[0]!.text).toBe("One");
+  });
+
+  test("renders as an assistant message", () => {
+    const partial = applyOutputDeltas(null, "msg_1", [
+      { index: 0, block_type: "thinking", text: "Plan" },
+      { index: 1, block_type: "text", text: "Hello" },
+    ]);
+
+    expect(partialToStreamMessage(partial)).toEqual({
+      type: "assistant",
+      message: {
+        id: "msg_1",
+        role: "assistant",
+        content: [
+          { type: "thinking", thinking: "Plan" },
+          { type: "text", text: "Hello" },
+        ],
+      },
+    });
+  });
+});
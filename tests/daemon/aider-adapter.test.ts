@@ -0,0 +1,157 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import { join } from "path";
+import { aiderAdapter } from "../../cli/adapters/aider";
+import {
+  extractFilePathFromTool,
+  getAdapterForPath,
+  getFileModifyingToolsForAdapter,
+  parseSessionContent,
+} from "../../cli/adapters";
+import type { ParseContext } from "../../cli/adapters/types";
+
+const FIXTURE_DIR = join(import.meta.dir, "../fixtures/aider");
+const FIXTURE_PATH = join(FIXTURE_DIR, ".aider.chat.history.md");
+
+function parseAll(lines: string[]): ParseContext {
+  const context: ParseContext = { messages: [], pendingToolUses: new Map() };
+  for (const line of lines) {
+    const messages = aiderAdapter.parseLine(line, context);
+    if (messages) context.messages.push(...messages);
+  }
+  const remaining = aiderAdapter.flush!(context);
+  if (remaining) context.messages.push(...remaining);
+  return context;
+}
+
+describe("Aider Adapter", () => {
+  describe("canHandle", () => {
+    test("recognizes aider chat history files", () => {
+      expect(aiderAdapter.canHandle("/Users/me/project/.aider.chat.history.md")).toBe(true);
+      expect(getAdapterForPath("/Users/me/project/.aider.chat.history.md")?.id).toBe("aider");
+    });
+
+    test("rejects other aider files", () => {
+      expect(aiderAdapter.canHandle("/Users/me/project/.aider.input.history")).toBe(false);
+      expect(aiderAdapter.canHandle("/Users/me/project/README.md")).toBe(false);
+    });
+  });
+
+  describe("getSessionInfo", () => {
+    test("uses the history file's directory as the project", () => {
+      const info = aiderAdapter.getSessionInfo(FIXTURE_PATH);
+
+      expect(info.projectPath).toBe(FIXTURE_DIR);
+      expect(info.model).toBe("gpt-4o");
+      expect(info.harnessSessionId).toMatch(/^[0-9a-f]{32}$/);
+      expect(aiderAdapter.getSessionInfo(FIXTURE_PATH).harnessSessionId).toBe(info.harnessSessionId);
+    });
+
+    test("finds the history file for a project", () => {
+      expect(aiderAdapter.findProjectSession!(FIXTURE_DIR)).toBe(FIXTURE_PATH);
+      expect(aiderAdapter.findProjectSession!("/nonexistent")).toBeNull();
+    });
+  });
+
+  describe("parseLine", () => {
+    let context: ParseContext;
+
+    beforeEach(() => {
+      context = { messages: [], pendingToolUses: new Map() };
+    });
+
+    test("buffers a response until the next marker", () => {
+      expect(aiderAdapter.parseLine("#### Hello", context)).toBeNull();
+      const user = aiderAdapter.parseLine("", context);
+      expect(user).toEqual([{ role: "user", content_blocks: [{ type: "text", text: "Hello" }] }]);
+
+      expect(aiderAdapter.parseLine("Hi there.", context)).toBeNull();
+      expect(aiderAdapter.parseLine("", context)).toBeNull();
+      const assistant = aiderAdapter.parseLine("> Tokens: 10 sent, 2 received.", context);
+      expect(assistant).toEqual([{ role: "assistant", content_blocks: [{ type: "text", text: "Hi there." }] }]);
+    });
+
+    test("joins multi-line user input", () => {
+      const { messages } = parseAll(["#### first line", "#### second line"]);
+      expect(messages[0]!.content_blocks[0]!.text).toBe("first line\nsecond line");
+    });
+
+    test("does not treat REPLACE markers as aider output", () => {
+      const { messages } = parseAll([
+        "#### rename",
+        "",
+        "app.py",
+        "<<<<<<< SEARCH",
+        "a = 1",
+        "=======",
+        "b = 1",
+        ">>>>>>> REPLACE",
+      ]);
+
+      expect(messages).toHaveLength(2);
+      expect(messages[1]!.content_blocks).toEqual([
+        {
+          type: "tool_use",
+          id: "aider_edit_1",
+          name: "Edit",
+          input: { file_path: "app.py", old_string: "a = 1", new_string: "b = 1" },
+        },
+      ]);
+    });
+
+    test("keeps incomplete edit blocks as text", () => {
+      const { messages } = parseAll(["app.py", "<<<<<<< SEARCH", "a = 1"]);
+      expect(messages[0]!.content_blocks).toEqual([{ type: "text", text: "app.py\n<<<<<<< SEARCH\na = 1" }]);
+    });
+  });
+
+  describe("fixture session", () => {
+    test("normalizes turns and edit blocks", async () => {
+      const messages = parseSessionContent(aiderAdapter, await Bun.file(FIXTURE_PATH).text());
+
+      expect(messages.map((m) => m.role)).toEqual(["user", "user", "assistant", "user", "assistant"]);
+      expect(messages[1]!.content_blocks[0]!.text).toBe(
+        "Make greet() say hello to the given name\nand add a farewell() helper"
+      );
+
+      const blocks = messages[2]!.content_blocks;
+      expect(blocks.map((b) => b.type)).toEqual(["text", "tool_use", "tool_use"]);
+      expect(blocks[0]!.text).toBe("I'll update `greet` and add `farewell`.");
+      expect(blocks[1]).toMatchObject({
+        name: "Edit",
+        input: {
+          file_path: "src/greet.py",
+          old_string: 'def greet():\n    return "hello"',
+          new_string: 'def greet(name):\n    return f"hello {name}"',
+        },
+        result: "Applied edit to src/greet.py",
+        is_error: false,
+      });
+      expect((blocks[2]!.input as Record<string, unknown>).old_string).toBe("");
+
+      expect(messages[4]!.content_blocks).toEqual([{ type: "text", text: "You're welcome." }]);
+    });
+
+    test("derives title from the first prompt rather than commands", async () => {
+      const messages = parseSessionContent(aiderAdapter, await Bun.file(FIXTURE_PATH).text());
+      expect(aiderAdapter.deriveTitle!(messages)).toBe(
+        "Make greet() say hello to the given name and add a farewell() helper"
+      );
+    });
+
+    test("reports edited files for diff relevance", async () => {
+      const messages = parseSessionContent(aiderAdapter, await Bun.file(FIXTURE_PATH).text());
+      const tools = getFileModifyingToolsForAdapter(aiderAdapter);
+      const files = new Set<string>();
+      for (const message of messages) {
+        for (const block of message.content_blocks) {
+          if (block.type === "tool_use" && tools.includes(block.name as string)) {
+            const path = extractFilePathFromTool(aiderAdapter, block.name as string, block.input as Record<string, unknown>);
+            if (path) files.add(path);
+          }
+        }
+      }
+
+      expect([...files]).toEqual(["src/greet.py"]);
+    });
+  });
+});
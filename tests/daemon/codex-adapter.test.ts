@@ -0,0 +1,244 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import { join } from "path";
+import { codexAdapter, extractPatchFiles } from "../../cli/adapters/codex";
+import { getAdapterForPath, parseSessionContent } from "../../cli/adapters";
+import type { ParseContext } from "../../cli/adapters/types";
+import { serializeNormalizedMessages } from "../../cli/commands/upload";
+
+const FIXTURE_PATH = join(
+  import.meta.dir,
+  "../fixtures/codex/rollout-2025-09-30T10-00-00-0199a1b2-c3d4-7e5f-8a9b-0c1d2e3f4a5b.jsonl"
+);
+
+async function loadFixture(): Promise<string> {
+  return Bun.file(FIXTURE_PATH).text();
+}
+
+describe("Codex Adapter", () => {
+  describe("canHandle", () => {
+    test("recognizes Codex rollout files", () => {
+      const path = "/Users/me/.codex/sessions/2025/09/30/rollout-2025-09-30T10-00-00-0199a1b2-c3d4-7e5f-8a9b-0c1d2e3f4a5b.jsonl";
+      expect(codexAdapter.canHandle(path)).toBe(true);
+      expect(getAdapterForPath(path)?.id).toBe("codex");
+    });
+
+    test("rejects other files in .codex", () => {
+      expect(codexAdapter.canHandle("/Users/me/.codex/history.jsonl")).toBe(false);
+      expect(codexAdapter.canHandle("/Users/me/.codex/sessions/2025/09/30/notes.jsonl")).toBe(false);
+    });
+
+    test("rejects Claude Code session files", () => {
+      expect(
+        codexAdapter.canHandle("/Users/me/.claude/projects/-Users-me-myproject/abc123.jsonl")
+      ).toBe(false);
+    });
+  });
+
+  describe("getSessionInfo", () => {
+    test("reads session metadata from the rollout file", () => {
+      const info = codexAdapter.getSessionInfo(FIXTURE_PATH);
+
+      expect(info.localPath).toBe(FIXTURE_PATH);
+      expect(info.harnessSessionId).toBe("0199a1b2-c3d4-7e5f-8a9b-0c1d2e3f4a5b");
+      expect(info.projectPath).toBe("/Users/dev/widgets");
+      expect(info.repoUrl).toBe("git@github.com:acme/widgets.git");
+      expect(info.model).toBe("gpt-5-codex");
+    });
+
+    test("falls back to the session ID in the file name", () => {
+      const info = codexAdapter.getSessionInfo(
+        "/nonexistent/.codex/sessions/rollout-2025-01-01T00-00-00-11111111-2222-3333-4444-555555555555.jsonl"
+      );
+
+      expect(info.harnessSessionId).toBe("11111111-2222-3333-4444-555555555555");
+      expect(info.projectPath).toBe("");
+    });
+  });
+
+  describe("parseLine", () => {
+    let context: ParseContext;
+
+    beforeEach(() => {
+      context = { messages: [], pendingToolUses: new Map() };
+    });
+
+    test("parses user and assistant messages", () => {
+      const user = codexAdapter.parseLine(
+        '{"timestamp":"2025-09-30T10:00:01.000Z","type":"response_item","payload":{"type":"message","role":"user","content":[{"type":"input_text","text":"Hello"}]}}',
+        context
+      );
+      const assistant = codexAdapter.parseLine(
+        '{"type":"response_item","payload":{"type":"message","role":"assistant","content":[{"type":"output_text","text":"Hi"}]}}',
+        context
+      );
+
+      expect(user).toEqual([
+        { role: "user", content_blocks: [{ type: "text", text: "Hello" }], timestamp: "2025-09-30T10:00:01.000Z" },
+      ]);
+      expect(assistant![0]!.content_blocks).toEqual([{ type: "text", text: "Hi" }]);
+    });
+
+    test("parses legacy rollouts without response_item wrappers", () => {
+      const result = codexAdapter.parseLine(
+        '{"type":"message","role":"user","content":[{"type":"input_text","text":"Hello"}]}',
+        context
+      );
+
+      expect(result![0]!.content_blocks).toEqual([{ type: "text", text: "Hello" }]);
+    });
+
+    test("skips injected context and developer messages", () => {
+      expect(
+        codexAdapter.parseLine(
+          '{"type":"response_item","payload":{"type":"message","role":"user","content":[{"type":"input_text","text":"<user_instructions>Be terse</user_instructions>"}]}}',
+          context
+        )
+      ).toBeNull();
+      expect(
+        codexAdapter.parseLine(
+          '{"type":"response_item","payload":{"type":"message","role":"developer","content":[{"type":"input_text","text":"Sandbox rules"}]}}',
+          context
+        )
+      ).toBeNull();
+    });
+
+    test("skips metadata and event records", () => {
+      expect(codexAdapter.parseLine('{"type":"session_meta","payload":{"id":"x"}}', context)).toBeNull();
+      expect(codexAdapter.parseLine('{"type":"turn_context","payload":{"model":"gpt-5"}}', context)).toBeNull();
+      expect(
+        codexAdapter.parseLine('{"type":"event_msg","payload":{"type":"agent_message","message":"Hi"}}', context)
+      ).toBeNull();
+      expect(codexAdapter.parseLine("not json", context)).toBeNull();
+    });
+
+    test("converts reasoning summaries to thinking blocks", () => {
+      const result = codexAdapter.parseLine(
+        '{"type":"response_item","payload":{"type":"reasoning","summary":[{"type":"summary_text","text":"Planning"}],"encrypted_content":"gAAAA"}}',
+        context
+      );
+
+      expect(result![0]!.content_blocks).toEqual([{ type: "thinking", thinking: "Planning" }]);
+      expect(
+        codexAdapter.parseLine(
+          '{"type":"response_item","payload":{"type":"reasoning","summary":[],"encrypted_content":"gAAAA"}}',
+          context
+        )
+      ).toBeNull();
+    });
+
+    test("flattens shell commands and attaches outputs", () => {
+      const call = codexAdapter.parseLine(
+        '{"type":"response_item","payload":{"type":"function_call","name":"shell","arguments":"{\\"command\\":[\\"bash\\",\\"-lc\\",\\"ls -la\\"],\\"workdir\\":\\"/tmp\\"}","call_id":"call_1"}}',
+        context
+      );
+      context.messages.push(...call!);
+
+      expect(call![0]!.content_blocks[0]).toEqual({
+        type: "tool_use",
+        id: "call_1",
+        name: "shell",
+        input: { command: "ls -la", workdir: "/tmp" },
+      });
+
+      const output = codexAdapter.parseLine(
+        '{"type":"response_item","payload":{"type":"function_call_output","call_id":"call_1","output":"{\\"output\\":\\"boom\\",\\"metadata\\":{\\"exit_code\\":2}}"}}',
+        context
+      );
+
+      expect(output).toBeNull();
+      expect(context.messages[0]!.content_blocks[0]!.result).toBe("boom");
+      expect(context.messages[0]!.content_blocks[0]!.is_error).toBe(true);
+      expect(context.pendingToolUses.size).toBe(0);
+    });
+
+    test("normalizes apply_patch invoked through shell", () => {
+      const call = codexAdapter.parseLine(
+        JSON.stringify({
+          type: "response_item",
+          payload: {
+            type: "function_call",
+            name: "shell",
+            arguments: JSON.stringify({
+              command: ["apply_patch", "*** Begin Patch\n*** Add File: docs/notes.md\n+hello\n*** End Patch\n"],
+            }),
+            call_id: "call_2",
+          },
+        }),
+        context
+      );
+
+      const block = call![0]!.content_blocks[0]!;
+      expect(block.name).toBe("apply_patch");
+      expect((block.input as Record<string, unknown>).file_path).toBe("docs/notes.md");
+    });
+  });
+
+  describe("fixture session", () => {
+    test("normalizes the full rollout", async () => {
+      const messages = parseSessionContent(codexAdapter, await loadFixture());
+
+      expect(messages.map((m) => m.content_blocks[0]!.type)).toEqual([
+        "text",
+        "thinking",
+        "tool_use",
+        "tool_use",
+        "tool_use",
+        "text",
+      ]);
+
+      const [, , search, patch, test] = messages;
+      expect(search!.content_blocks[0]).toMatchObject({
+        name: "shell",
+        input: { command: "rg -n paginate src" },
+        is_error: false,
+      });
+      expect(patch!.content_blocks[0]).toMatchObject({
+        name: "apply_patch",
+        input: { file_path: "src/paginate.ts" },
+      });
+      expect(test!.content_blocks[0]!.is_error).toBe(true);
+    });
+
+    test("derives title from the first typed user message", async () => {
+      const messages = parseSessionContent(codexAdapter, await loadFixture());
+      expect(codexAdapter.deriveTitle!(messages)).toBe("Fix the off-by-one error in the pagination helper");
+    });
+
+    test("serializes for upload with separate tool results", async () => {
+      const messages = parseSessionContent(codexAdapter, await loadFixture());
+      const lines = serializeNormalizedMessages(messages)
+        .split("\n")
+        .map((line) => JSON.parse(line));
+
+      const toolResults = lines.filter((l) => l.type === "tool_result");
+      expect(toolResults.map((l) => l.tool_use_id)).toEqual(["call_shell_1", "call_patch_1", "call_shell_2"]);
+      const toolUses = lines.flatMap((l) => l.content ?? []).filter((b: { type: string }) => b.type === "tool_use");
+      expect(toolUses).toHaveLength(3);
+      expect(toolUses.every((b: Record<string, unknown>) => !("result" in b))).toBe(true);
+    });
+  });
+
+  describe("file modification tracking", () => {
+    test("reports apply_patch as file-modifying", () => {
+      expect(codexAdapter.getFileModifyingTools!()).toEqual(["apply_patch"]);
+      expect(codexAdapter.extractFilePath!("apply_patch", { file_path: "src/a.ts" })).toBe("src/a.ts");
+      expect(codexAdapter.extractFilePath!("shell", { command: "ls" })).toBeNull();
+    });
+
+    test("extracts every file from a patch", () => {
+      const patch = [
+        "*** Begin Patch",
+        "*** Update File: src/a.ts",
+        "@@",
+        "-a",
+        "+b",
+        "*** Add File: src/b.ts",
+        "+new",
+        "*** Delete File: src/c.ts",
+        "*** End Patch",
+      ].join("\n");
+
+      expect(extractPatchFiles(patch)).toEqual(["src/a.ts", "src/b.ts", "src/c.ts"]);
+    });
+  });
+});
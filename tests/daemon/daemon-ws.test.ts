@@ -1,5 +1,6 @@
 import { describe, test, expect, beforeEach, afterEach } from "bun:test";
 import { daemonConnections } from "../../src/lib/daemon-connections";
+import { spawnedSessionRegistry } from "../../src/lib/spawned-session-registry";
 
 describe("DaemonConnectionManager", () => {
   beforeEach(() => {
@@ -230,4 +231,77 @@ describe("DaemonConnectionManager", () => {
     expect(clientIds).toContain("client-1");
     expect(clientIds).toContain("client-2");
   });
+
+  test("getReviewDaemon never picks another user's daemon", () => {
+    const mockWs = (clientId: string) =>
+      ({
+        send: () => {},
+        close: () => {},
+        data: { type: "daemon" as const, clientId },
+      }) as unknown as import("bun").ServerWebSocket<{
+        type: "daemon";
+        clientId?: string;
+      }>;
+
+    // Alice and Bob each have a review-capable daemon connected
+    daemonConnections.addDaemon("alice-daemon", mockWs("alice-daemon"), {
+      can_spawn_sessions: true,
+      spawnable_harnesses: [],
+      can_run_reviews: true,
+    });
+    daemonConnections.addDaemon("bob-daemon", mockWs("bob-daemon"), {
+      can_spawn_sessions: true,
+      spawnable_harnesses: [],
+      can_run_reviews: true,
+    });
+
+    expect(daemonConnections.getReviewDaemon(["alice-laptop", "alice-daemon"])?.clientId).toBe("alice-daemon");
+    expect(daemonConnections.getReviewDaemon(["bob-daemon", "alice-daemon"])?.clientId).toBe("bob-daemon");
+
+    daemonConnections.removeDaemon("alice-daemon");
+    expect(daemonConnections.getReviewDaemon(["alice-laptop", "alice-daemon"])).toBeUndefined();
+    expect(daemonConnections.getReviewDaemon([])).toBeUndefined();
+  });
+
+  test("reattaches sessions the daemon re-announces", () => {
+    spawnedSessionRegistry.createSession({
+      id: "spawn_known",
+      daemonClientId: "client-old",
+      cwd: "/test",
+      harness: "claude-code",
+      status: "disconnected",
+      error: "Server restarted",
+      createdAt: new Date(),
+    });
+    spawnedSessionRegistry.updateForRecovery("spawn_known", "claude-1");
+
+    const mockWs = {
+      send: () => {},
+      close: () => {},
+      data: { type: "daemon" as const, clientId: "client-123" },
+    } as unknown as import("bun").ServerWebSocket<{
+      type: "daemon";
+      clientId?: string;
+    }>;
+
+    const reattached = daemonConnections.addDaemon(
+      "client-123",
+      mockWs,
+      { can_spawn_sessions: true, spawnable_harnesses: [] },
+      [
+        { session_id: "spawn_known", claude_session_id: "claude-1", cwd: "/test", state: "waiting" },
+        { session_id: "spawn_unknown", cwd: "/test", state: "running" },
+      ]
+    );
+
+    expect(reattached).toEqual(["spawn_known"]);
+    const session = spawnedSessionRegistry.getSession("spawn_known");
+    expect(session?.status).toBe("waiting");
+    expect(session?.daemonClientId).toBe("client-123");
+    expect(session?.error).toBeUndefined();
+    expect(session?.recoveryInfo).toBeUndefined();
+    expect(daemonConnections.getDaemon("client-123")?.activeSpawnedSessions.has("spawn_known")).toBe(true);
+
+    spawnedSessionRegistry.clear();
+  });
 });
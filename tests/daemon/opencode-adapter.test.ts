@@ -0,0 +1,98 @@
+import { describe, test, expect } from "bun:test";
+import { join } from "path";
+import { opencodeAdapter } from "../../cli/adapters/opencode";
+import { getAdapterForPath, loadSessionMessages } from "../../cli/adapters";
+
+const STORAGE_DIR = join(import.meta.dir, "../fixtures/opencode/storage");
+const SESSION_PATH = join(STORAGE_DIR, "session/proj_widgets/ses_01widgets.json");
+
+describe("opencode Adapter", () => {
+  describe("canHandle", () => {
+    test("recognizes session info files", () => {
+      const path = "/Users/me/.local/share/opencode/storage/session/proj_1/ses_abc.json";
+      expect(opencodeAdapter.canHandle(path)).toBe(true);
+      expect(getAdapterForPath(path)?.id).toBe("opencode");
+    });
+
+    test("rejects message and part files", () => {
+      expect(
+        opencodeAdapter.canHandle("/Users/me/.local/share/opencode/storage/message/ses_abc/msg_1.json")
+      ).toBe(false);
+      expect(
+        opencodeAdapter.canHandle("/Users/me/.local/share/opencode/storage/part/msg_1/prt_1.json")
+      ).toBe(false);
+    });
+  });
+
+  describe("getSessionInfo", () => {
+    test("reads project directory and model", () => {
+      const info = opencodeAdapter.getSessionInfo(SESSION_PATH);
+
+      expect(info.harnessSessionId).toBe("ses_01widgets");
+      expect(info.projectPath).toBe("/Users/dev/widgets");
+      expect(info.model).toBe("claude-sonnet-4-5");
+    });
+  });
+
+  describe("readSession", () => {
+    test("assembles messages from parts in order", async () => {
+      const messages = await loadSessionMessages(opencodeAdapter, SESSION_PATH);
+
+      expect(messages).toHaveLength(2);
+      expect(messages[0]).toEqual({
+        role: "user",
+        content_blocks: [{ type: "text", text: "Rename loadCfg to loadConfig" }],
+        timestamp: "2025-09-30T10:00:00.000Z",
+      });
+      expect(messages[1]!.content_blocks.map((b) => b.type)).toEqual([
+        "thinking",
+        "tool_use",
+        "tool_use",
+        "tool_use",
+        "tool_use",
+        "text",
+      ]);
+    });
+
+    test("maps tools to synthetic Claude Code tool calls", async () => {
+      const [, assistant] = await loadSessionMessages(opencodeAdapter, SESSION_PATH);
+      const [, grep, edit, multiFirst, multiSecond] = assistant!.content_blocks;
+
+      expect(grep).toMatchObject({ name: "Grep", input: { pattern: "loadCfg" }, is_error: false });
+      expect(edit).toEqual({
+        type: "tool_use",
+        id: "toolu_edit",
+        name: "Edit",
+        input: {
+          file_path: "/Users/dev/widgets/src/config.ts",
+          old_string: "export function loadCfg",
+          new_string: "export function loadConfig",
+        },
+        result: "",
+        is_error: false,
+      });
+      expect(multiFirst).toMatchObject({
+        id: "toolu_multi_0",
+        name: "Edit",
+        input: { file_path: "/Users/dev/widgets/src/main.ts", old_string: "import { loadCfg }" },
+        result: "oldString not found in content",
+        is_error: true,
+      });
+      expect(multiSecond!.id).toBe("toolu_multi_1");
+    });
+
+    test("reports edited files for diff relevance", async () => {
+      const [, assistant] = await loadSessionMessages(opencodeAdapter, SESSION_PATH);
+      const tools = opencodeAdapter.getFileModifyingTools!();
+      const files = assistant!.content_blocks
+        .filter((b) => b.type === "tool_use" && tools.includes(b.name as string))
+        .map((b) => opencodeAdapter.extractFilePath!(b.name as string, b.input as Record<string, unknown>));
+
+      expect(new Set(files)).toEqual(new Set(["/Users/dev/widgets/src/config.ts", "/Users/dev/widgets/src/main.ts"]));
+    });
+
+    test("returns no messages outside a storage directory", () => {
+      expect(opencodeAdapter.readSession!("/tmp/ses_missing.json")).toEqual([]);
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, test, expect, beforeEach, mock } from "bun:test";
 import { SpawnedSessionManager } from "../../cli/lib/spawned-session-manager";
+import { BUILTIN_PERMISSION_RULES, PermissionPolicy } from "../../cli/lib/permission-policy";
+import { StreamTextBuffer } from "../../cli/lib/redaction";
 import type {
   DaemonToServerMessage,
   StartSessionMessage,
@@ -82,6 +84,7 @@ describe("SpawnedSessionManager", () => {
       expect(args).toContain("--input-format");
       expect(args).toContain("stream-json");
       expect(args).toContain("--verbose");
+      expect(args).toContain("--include-partial-messages");
     });
 
     test("builds correct args with model", () => {
@@ -352,6 +355,137 @@ describe("SpawnedSessionManager", () => {
       expect(msg.request.tool_name).toBe("Bash");
       expect(msg.request.input).toEqual({ command: "ls -la" });
     });
+
+    test("redacts control request input and restores it when allowed unchanged", async () => {
+      const token = "ghp_" + "A1b2C3d4E5".repeat(4);
+      const session = {
+        id: "test-session",
+        state: "running" as const,
+        stdin: { write: mock((_data: string) => 0), flush: mock(() => {}) },
+        controlRequests: new Map(),
+        outputHistory: [] as any[],
+        maxHistorySize: 1000,
+      };
+      (manager as any).sessions.set(session.id, session);
+
+      (manager as any).processStreamMessage(session, {
+        type: "control_request",
+        request_id: "req-secret",
+        request: {
+          subtype: "can_use_tool",
+          tool_name: "Bash",
+          input: { command: `gh auth login --with-token ${token}` },
+          tool_use_id: "toolu-secret",
+        },
+      });
+
+      const relayed = sentMessages[0] as { request: { input: Record<string, unknown> } };
+      expect(relayed.request.input).toEqual({ command: "gh auth login --with-token [REDACTED:github_token]" });
+
+      // The server answers an unchanged allow with the input it was shown
+      await manager.respondToControlRequest("test-session", "req-secret", {
+        behavior: "allow",
+        updatedInput: relayed.request.input,
+      });
+      const written = JSON.parse(session.stdin.write.mock.calls[0]![0]);
+      expect(written.response.response.updatedInput).toEqual({ command: `gh auth login --with-token ${token}` });
+    });
+
+    test("redacts legacy permission prompts", () => {
+      const token = "ghp_" + "A1b2C3d4E5".repeat(4);
+      const session = {
+        id: "test-session",
+        state: "running" as const,
+        permissionRequests: new Map(),
+        outputHistory: [] as any[],
+        maxHistorySize: 1000,
+      };
+
+      (manager as any).processStreamMessage(session, {
+        type: "system",
+        subtype: "permission_request",
+        permission_request: { id: "perm-1", tool: "Bash", command: `export GITHUB_TOKEN=${token}` },
+      });
+
+      expect(sentMessages[0]).toMatchObject({ type: "permission_prompt", request_id: "perm-1" });
+      expect(JSON.stringify(sentMessages)).not.toContain(token);
+    });
+
+    describe("with an auto-safe permission policy", () => {
+      function policySession() {
+        const session = {
+          id: "test-session",
+          state: "running" as const,
+          stdin: { write: mock((_data: string) => 0), flush: mock(() => {}) },
+          controlRequests: new Map(),
+          permissionPolicy: new PermissionPolicy(
+            [
+              ...BUILTIN_PERMISSION_RULES,
+              { action: "deny", tool: "Bash", commands: ["git push*"], source: "repo" },
+            ],
+            tempDir
+          ),
+          outputHistory: [] as any[],
+          maxHistorySize: 1000,
+        };
+        (manager as any).sessions.set(session.id, session);
+        return session;
+      }
+
+      function controlRequest(requestId: string, toolName: string, input: Record<string, unknown>) {
+        return {
+          type: "control_request",
+          request_id: requestId,
+          request: { subtype: "can_use_tool", tool_name: toolName, input, tool_use_id: `toolu-${requestId}` },
+        };
+      }
+
+      test("answers allowed tool calls without relaying them", () => {
+        const session = policySession();
+
+        (manager as any).processStreamMessage(session, controlRequest("req-1", "Read", { file_path: "src/index.ts" }));
+
+        const written = JSON.parse(session.stdin.write.mock.calls[0]![0]);
+        expect(written.response.request_id).toBe("req-1");
+        expect(written.response.response).toEqual({
+          behavior: "allow",
+          updatedInput: { file_path: "src/index.ts" },
+        });
+        expect(session.controlRequests.size).toBe(0);
+
+        expect(sentMessages).toHaveLength(1);
+        expect(sentMessages[0]).toMatchObject({
+          type: "permission_policy_decision",
+          session_id: "test-session",
+          request_id: "req-1",
+          tool_name: "Read",
+          tool_use_id: "toolu-req-1",
+          decision: "allowed",
+          rule: 'builtin: allow Read "**"',
+        });
+      });
+
+      test("denies tool calls matching a deny rule", () => {
+        const session = policySession();
+
+        (manager as any).processStreamMessage(session, controlRequest("req-2", "Bash", { command: "git push origin main" }));
+
+        const written = JSON.parse(session.stdin.write.mock.calls[0]![0]);
+        expect(written.response.response.behavior).toBe("deny");
+        expect(sentMessages[0]).toMatchObject({ type: "permission_policy_decision", decision: "denied" });
+      });
+
+      test("relays tool calls the policy does not decide", () => {
+        const session = policySession();
+
+        (manager as any).processStreamMessage(session, controlRequest("req-3", "Read", { file_path: ".env" }));
+        (manager as any).processStreamMessage(session, controlRequest("req-4", "Read", { file_path: "/etc/passwd" }));
+
+        expect(session.stdin.write).not.toHaveBeenCalled();
+        expect(sentMessages.map((m) => m.type)).toEqual(["control_request", "control_request"]);
+        expect(session.controlRequests.size).toBe(2);
+      });
+    });
   });
 
   describe("respondToControlRequest", () => {
@@ -376,6 +510,139 @@ describe("SpawnedSessionManager", () => {
     });
   });
 
+  describe("streamOutput", () => {
+    function ndjson(lines: unknown[]): ReadableStream<Uint8Array> {
+      const data = new TextEncoder().encode(lines.map((l) => JSON.stringify(l)).join("\n") + "\n");
+      return new ReadableStream({
+        start(controller) {
+          controller.enqueue(data);
+          controller.close();
+        },
+      });
+    }
+
+    const delta = (index: number, delta: Record<string, string>, parent: string | null = null) => ({
+      type: "stream_event",
+      parent_tool_use_id: parent,
+      event: { type: "content_block_delta", index, delta },
+    });
+    const blockStop = (index: number) => ({ type: "stream_event", event: { type: "content_block_stop", index } });
+
+    test("forwards partial message text as deltas ahead of the complete message", async () => {
+      const session = {
+        id: "test-streaming",
+        proc: { exitCode: null, killed: false },
+        state: "running",
+        outputBuffer: "",
+        outputHistory: [] as any[],
+        deltaBuffer: new StreamTextBuffer(),
+        maxHistorySize: 100,
+        modifiedFiles: new Set<string>(),
+        diffDebounceTimer: null,
+      };
+      const final = {
+        type: "assistant",
+        message: { id: "msg_1", role: "assistant", content: [{ type: "text", text: "Hello world" }] },
+      };
+
+      await (manager as any).streamOutput(
+        session,
+        ndjson([
+          { type: "stream_event", event: { type: "message_start", message: { id: "msg_1" } } },
+          delta(0, { type: "thinking_delta", thinking: "Hmm" }),
+          blockStop(0),
+          delta(1, { type: "text_delta", text: "Hello" }),
+          delta(1, { type: "text_delta", text: " world" }),
+          delta(1, { type: "input_json_delta", partial_json: "{" }),
+          delta(0, { type: "text_delta", text: "subagent" }, "toolu_task"),
+          blockStop(1),
+          final,
+        ])
+      );
+
+      expect(sentMessages.map((m) => m.type)).toEqual(["session_output_delta", "session_output"]);
+      expect(sentMessages[0]).toEqual({
+        type: "session_output_delta",
+        session_id: "test-streaming",
+        message_id: "msg_1",
+        deltas: [
+          { index: 0, block_type: "thinking", text: "Hmm" },
+          { index: 1, block_type: "text", text: "Hello world" },
+        ],
+      });
+      // Stream events are not part of the transcript
+      expect((sentMessages[1] as { messages: unknown[] }).messages).toEqual([final]);
+      expect(session.outputHistory).toEqual([final]);
+    });
+
+    test("redacts secrets in messages and deltas before sending them", async () => {
+      const token = "ghp_" + "A1b2C3d4E5".repeat(4);
+      const session = {
+        id: "test-redaction",
+        proc: { exitCode: null, killed: false },
+        state: "running",
+        outputBuffer: "",
+        outputHistory: [] as any[],
+        deltaBuffer: new StreamTextBuffer(),
+        maxHistorySize: 100,
+        modifiedFiles: new Set<string>(),
+        diffDebounceTimer: null,
+      };
+
+      await (manager as any).streamOutput(
+        session,
+        ndjson([
+          { type: "stream_event", event: { type: "message_start", message: { id: "msg_1" } } },
+          delta(0, { type: "text_delta", text: `token ${token}` }),
+          blockStop(0),
+          {
+            type: "assistant",
+            message: { id: "msg_1", role: "assistant", content: [{ type: "text", text: `token ${token}` }] },
+          },
+        ])
+      );
+
+      expect(JSON.stringify(sentMessages)).not.toContain(token);
+      expect((sentMessages[0] as { deltas: { text: string }[] }).deltas[0]!.text).toBe("token [REDACTED:github_token]");
+      const [message] = (sentMessages[1] as { messages: any[] }).messages;
+      expect(message.message.content[0].text).toBe("token [REDACTED:github_token]");
+      expect(JSON.stringify(session.outputHistory)).not.toContain(token);
+    });
+
+    test("redacts secrets split across deltas", async () => {
+      const token = "ghp_" + "A1b2C3d4E5".repeat(4);
+      const session = {
+        id: "test-split",
+        proc: { exitCode: null, killed: false },
+        state: "running",
+        outputBuffer: "",
+        outputHistory: [] as any[],
+        deltaBuffer: new StreamTextBuffer(),
+        maxHistorySize: 100,
+        modifiedFiles: new Set<string>(),
+        diffDebounceTimer: null,
+      };
+      const prose = "Some text before the secret.\n".repeat(20);
+
+      await (manager as any).streamOutput(
+        session,
+        ndjson([
+          { type: "stream_event", event: { type: "message_start", message: { id: "msg_1" } } },
+          delta(0, { type: "text_delta", text: `${prose}token ${token.slice(0, 20)}` }),
+          delta(0, { type: "text_delta", text: `${token.slice(20)} done\n${prose}` }),
+          blockStop(0),
+        ])
+      );
+
+      const streamed = sentMessages
+        .flatMap((m) => (m as { deltas: { text: string }[] }).deltas)
+        .map((d) => d.text)
+        .join("");
+      expect(streamed).not.toContain(token.slice(0, 20));
+      expect(streamed).toBe(`${prose}token [REDACTED:github_token] done\n${prose}`);
+    });
+  });
+
   describe("recordMessage", () => {
     test("records messages to history", () => {
       const session = {
@@ -0,0 +1,242 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { PGlite } from "@electric-sql/pglite";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { initializeDatabase } from "../../src/db/schema";
+import { SessionRepository } from "../../src/db/repository";
+import {
+  getMigrationStatus,
+  getPostgresMigrationStatus,
+  runMigrations,
+  runPostgresMigrations,
+} from "../../src/db/migrate";
+import { MIGRATIONS, type Migration } from "../../src/db/migrations";
+import { POSTGRES_MIGRATIONS } from "../../src/db/migrations/postgres";
+import { PostgresDriver } from "../../src/db/postgres-driver";
+import { pgliteClient } from "./storage-backends";
+
+const SNAPSHOT = readFileSync(join(import.meta.dir, "../fixtures/db/pre-migration.sql"), "utf8");
+
+function columns(db: Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((c) => c.name);
+}
+
+function tables(db: Database): string[] {
+  return (
+    db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name").all() as { name: string }[]
+  ).map((t) => t.name);
+}
+
+function appliedVersions(db: Database): number[] {
+  return (db.prepare("SELECT version FROM schema_migrations ORDER BY version").all() as { version: number }[]).map(
+    (r) => r.version
+  );
+}
+
+describe("schema migrations", () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    db.run("PRAGMA foreign_keys = ON");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test("migration versions are strictly increasing", () => {
+    const versions = MIGRATIONS.map((m) => m.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+  });
+
+  describe("from scratch", () => {
+    test("applies every migration and records it", () => {
+      const applied = runMigrations(db);
+
+      expect(applied.map((m) => m.version)).toEqual(MIGRATIONS.map((m) => m.version));
+      expect(appliedVersions(db)).toEqual(MIGRATIONS.map((m) => m.version));
+      expect(getMigrationStatus(db).every((m) => m.applied_at !== null)).toBe(true);
+    });
+
+    test("creates the full schema", () => {
+      runMigrations(db);
+
+      expect(tables(db)).toEqual(
+        expect.arrayContaining([
+          "sessions",
+          "messages",
+          "diffs",
+          "reviews",
+          "annotations",
+          "feedback_messages",
+          "analytics_events",
+          "analytics_daily_stats",
+          "session_collaborators",
+          "session_audit_log",
+          "touched_files",
+          "session_commits",
+          "diff_snapshots",
+          "review_threads",
+          "review_comments",
+          "search_index",
+          "schema_migrations",
+        ])
+      );
+      expect(columns(db, "sessions")).toEqual(
+        expect.arrayContaining(["agent_session_id", "visibility", "input_tokens", "redaction_count", "remote"])
+      );
+      expect(columns(db, "messages")).toEqual(expect.arrayContaining(["content_blocks", "user_id"]));
+      expect(columns(db, "session_audit_log")).toContain("thread_id");
+      expect(columns(db, "reviews")).toEqual(expect.arrayContaining(["version", "prompt_hash"]));
+      expect(columns(db, "annotations")).toEqual(expect.arrayContaining(["filename", "line_content"]));
+      expect(columns(db, "webhooks")).toContain("org_id");
+    });
+
+    test("is a no-op once applied", () => {
+      runMigrations(db);
+      expect(runMigrations(db)).toEqual([]);
+      expect(appliedVersions(db)).toHaveLength(MIGRATIONS.length);
+    });
+
+    test("initializeDatabase leaves a usable repository", async () => {
+      const initialized = initializeDatabase(":memory:");
+      const repo = new SessionRepository(initialized);
+
+      expect(await repo.getAllSessions()).toEqual([]);
+      expect(getMigrationStatus(initialized).filter((m) => !m.applied_at)).toEqual([]);
+      initialized.close();
+    });
+  });
+
+  describe("from a pre-migration snapshot", () => {
+    beforeEach(() => {
+      db.exec(SNAPSHOT);
+    });
+
+    test("reports every migration as pending", () => {
+      expect(getMigrationStatus(db).every((m) => m.applied_at === null)).toBe(true);
+      // Reading status does not create the bookkeeping table
+      expect(tables(db)).not.toContain("schema_migrations");
+    });
+
+    test("brings the schema up to date and keeps existing data", async () => {
+      runMigrations(db);
+
+      expect(appliedVersions(db)).toEqual(MIGRATIONS.map((m) => m.version));
+      expect(columns(db, "sessions")).toEqual(
+        expect.arrayContaining(["agent_session_id", "branch", "visibility", "redaction_count"])
+      );
+
+      const session = await new SessionRepository(db).getSession("legacy1");
+      expect(session.isOk()).toBe(true);
+      expect(session.unwrap()).toMatchObject({
+        title: "Fix flaky login test",
+        visibility: "private",
+        input_tokens: 0,
+        redaction_count: 0,
+      });
+    });
+
+    test("runs backfills against existing rows", async () => {
+      runMigrations(db);
+      const repo = new SessionRepository(db);
+
+      const row = db.prepare("SELECT agent_session_id FROM sessions WHERE id = 'legacy1'").get() as {
+        agent_session_id: string;
+      };
+      expect(row.agent_session_id).toBe("claude-abc");
+
+      expect(await repo.getTouchedFiles("legacy1")).toMatchObject([
+        { filename: "login.test.ts", lines_added: 1, lines_removed: 1 },
+      ]);
+
+      const hits = await repo.searchSessions("timeout", { clientId: "client-1" });
+      expect(hits.length).toBeGreaterThan(0);
+    });
+
+    test("keeps reviews when making them versioned", async () => {
+      db.run("INSERT INTO reviews (id, session_id, summary, model) VALUES (1, 'legacy1', 'Looks fine', 'claude')");
+      db.run(`
+        INSERT INTO annotations (review_id, diff_id, line_number, side, annotation_type, content)
+        SELECT 1, id, 1, 'additions', 'issue', 'Flaky wait' FROM diffs WHERE session_id = 'legacy1'
+      `);
+      runMigrations(db);
+      const repo = new SessionRepository(db);
+
+      const review = (await repo.getReviewWithCount("legacy1")).unwrap();
+      expect(review).toMatchObject({ version: 1, summary: "Looks fine", annotation_count: 1 });
+      const [annotation] = await repo.getAnnotationsByReview(review.id);
+      expect(annotation).toMatchObject({ filename: "login.test.ts", line_content: null });
+
+      // Annotations now outlive the diff rows they were left on
+      await repo.clearDiffs("legacy1");
+      expect(await repo.getAnnotationsByReview(review.id)).toHaveLength(1);
+    });
+  });
+
+  describe("failures", () => {
+    const createWidgets: Migration = {
+      version: 1,
+      name: "create-widgets",
+      up(db) {
+        db.run("CREATE TABLE widgets (id INTEGER PRIMARY KEY)");
+      },
+    };
+
+    test("roll back the failing migration and stop", () => {
+      const broken: Migration = {
+        version: 2,
+        name: "broken",
+        up(db) {
+          db.run("CREATE TABLE gadgets (id INTEGER PRIMARY KEY)");
+          db.run("ALTER TABLE missing ADD COLUMN name TEXT");
+        },
+      };
+      const never: Migration = { version: 3, name: "never", up: () => {} };
+
+      expect(() => runMigrations(db, [createWidgets, broken, never])).toThrow(/Migration 2 \(broken\) failed/);
+
+      expect(appliedVersions(db)).toEqual([1]);
+      expect(tables(db)).toContain("widgets");
+      expect(tables(db)).not.toContain("gadgets");
+    });
+
+    test("reject migrations that are out of order", () => {
+      const duplicate: Migration = { ...createWidgets, name: "duplicate" };
+
+      expect(() => runMigrations(db, [createWidgets, duplicate])).toThrow(/out of order/);
+      expect(tables(db)).not.toContain("widgets");
+    });
+  });
+
+  describe("postgres", () => {
+    let pg: PostgresDriver;
+
+    beforeEach(() => {
+      pg = new PostgresDriver(pgliteClient(new PGlite()));
+    });
+
+    afterEach(async () => {
+      await pg.close();
+    });
+
+    test("applies every migration once", async () => {
+      expect((await getPostgresMigrationStatus(pg)).every((m) => m.applied_at === null)).toBe(true);
+
+      const applied = await runPostgresMigrations(pg);
+      expect(applied.map((m) => m.version)).toEqual(POSTGRES_MIGRATIONS.map((m) => m.version));
+      expect(await runPostgresMigrations(pg)).toEqual([]);
+      expect((await getPostgresMigrationStatus(pg)).every((m) => m.applied_at !== null)).toBe(true);
+    });
+
+    test("leaves a usable repository", async () => {
+      await runPostgresMigrations(pg);
+      const repo = new SessionRepository(pg);
+
+      expect(await repo.getAllSessions()).toEqual([]);
+    });
+  });
+});
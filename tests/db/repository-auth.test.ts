@@ -1,24 +1,18 @@
-import { describe, test, expect, beforeEach, afterEach } from "bun:test";
-import { initializeDatabase } from "../../src/db/schema";
+import { describe, test, expect, beforeEach } from "bun:test";
 import { SessionRepository } from "../../src/db/repository";
-import { Database } from "bun:sqlite";
+import { STORAGE_BACKENDS, useTestStorage } from "./storage-backends";
 
-describe("SessionRepository - Client Ownership", () => {
-  let db: Database;
+describe.each(STORAGE_BACKENDS)("SessionRepository - Client Ownership (%s)", (backend) => {
+  const storage = useTestStorage(backend);
   let repo: SessionRepository;
 
   beforeEach(() => {
-    db = initializeDatabase(":memory:");
-    repo = new SessionRepository(db);
-  });
-
-  afterEach(() => {
-    db?.close();
+    repo = new SessionRepository(storage());
   });
 
   describe("verifyClientOwnership", () => {
-    test("returns true for matching client ID", () => {
-      const session = repo.createSession(
+    test("returns true for matching client ID", async () => {
+      const session = await repo.createSession(
         {
           id: "test_session",
           title: "Test",
@@ -40,11 +34,11 @@ describe("SessionRepository - Client Ownership", () => {
         "owner-client-123"
       );
 
-      expect(repo.verifyClientOwnership(session.id, "owner-client-123")).toBe(true);
+      expect(await repo.verifyClientOwnership(session.id, "owner-client-123")).toBe(true);
     });
 
-    test("returns false for wrong client ID", () => {
-      const session = repo.createSession(
+    test("returns false for wrong client ID", async () => {
+      const session = await repo.createSession(
         {
           id: "test_session",
           title: "Test",
@@ -66,11 +60,11 @@ describe("SessionRepository - Client Ownership", () => {
         "owner-client-123"
       );
 
-      expect(repo.verifyClientOwnership(session.id, "other-client-456")).toBe(false);
+      expect(await repo.verifyClientOwnership(session.id, "other-client-456")).toBe(false);
     });
 
-    test("returns false for null client ID", () => {
-      const session = repo.createSession(
+    test("returns false for null client ID", async () => {
+      const session = await repo.createSession(
         {
           id: "test_session",
           title: "Test",
@@ -92,12 +86,12 @@ describe("SessionRepository - Client Ownership", () => {
         "owner-client-123"
       );
 
-      expect(repo.verifyClientOwnership(session.id, null)).toBe(false);
+      expect(await repo.verifyClientOwnership(session.id, null)).toBe(false);
     });
 
-    test("returns true for legacy sessions without client_id", () => {
+    test("returns true for legacy sessions without client_id", async () => {
       // Create session without client ID (legacy behavior)
-      const session = repo.createSession({
+      const session = await repo.createSession({
         id: "legacy_session",
         title: "Legacy",
         description: null,
@@ -117,16 +111,16 @@ describe("SessionRepository - Client Ownership", () => {
       });
 
       // Any authenticated client should be able to access legacy sessions
-      expect(repo.verifyClientOwnership(session.id, "any-client")).toBe(true);
+      expect(await repo.verifyClientOwnership(session.id, "any-client")).toBe(true);
     });
 
-    test("returns false for non-existent session", () => {
-      expect(repo.verifyClientOwnership("nonexistent", "any-client")).toBe(false);
+    test("returns false for non-existent session", async () => {
+      expect(await repo.verifyClientOwnership("nonexistent", "any-client")).toBe(false);
     });
 
     describe("requireLive parameter", () => {
-      test("returns false for complete session when requireLive=true", () => {
-        const session = repo.createSession(
+      test("returns false for complete session when requireLive=true", async () => {
+        const session = await repo.createSession(
           {
             id: "test_session",
             title: "Test",
@@ -149,14 +143,14 @@ describe("SessionRepository - Client Ownership", () => {
         );
 
         // Complete the session
-        repo.updateSession(session.id, { status: "complete" });
+        await repo.updateSession(session.id, { status: "complete" });
 
         // Should fail with requireLive=true (default)
-        expect(repo.verifyClientOwnership(session.id, "owner-client-123", true)).toBe(false);
+        expect(await repo.verifyClientOwnership(session.id, "owner-client-123", true)).toBe(false);
       });
 
-      test("returns true for complete session when requireLive=false", () => {
-        const session = repo.createSession(
+      test("returns true for complete session when requireLive=false", async () => {
+        const session = await repo.createSession(
           {
             id: "test_session",
             title: "Test",
@@ -179,14 +173,14 @@ describe("SessionRepository - Client Ownership", () => {
         );
 
         // Complete the session
-        repo.updateSession(session.id, { status: "complete" });
+        await repo.updateSession(session.id, { status: "complete" });
 
         // Should succeed with requireLive=false
-        expect(repo.verifyClientOwnership(session.id, "owner-client-123", false)).toBe(true);
+        expect(await repo.verifyClientOwnership(session.id, "owner-client-123", false)).toBe(true);
       });
 
-      test("returns true for live session regardless of requireLive", () => {
-        const session = repo.createSession(
+      test("returns true for live session regardless of requireLive", async () => {
+        const session = await repo.createSession(
           {
             id: "test_session",
             title: "Test",
@@ -208,15 +202,15 @@ describe("SessionRepository - Client Ownership", () => {
           "owner-client-123"
         );
 
-        expect(repo.verifyClientOwnership(session.id, "owner-client-123", true)).toBe(true);
-        expect(repo.verifyClientOwnership(session.id, "owner-client-123", false)).toBe(true);
+        expect(await repo.verifyClientOwnership(session.id, "owner-client-123", true)).toBe(true);
+        expect(await repo.verifyClientOwnership(session.id, "owner-client-123", false)).toBe(true);
       });
     });
   });
 
   describe("restoreSessionToLive", () => {
-    test("restores complete session to live status", () => {
-      const session = repo.createSession(
+    test("restores complete session to live status", async () => {
+      const session = await repo.createSession(
         {
           id: "test_session",
           title: "Test",
@@ -240,28 +234,28 @@ describe("SessionRepository - Client Ownership", () => {
 
       expect(session.status).toBe("complete");
 
-      const result = repo.restoreSessionToLive(session.id);
+      const result = await repo.restoreSessionToLive(session.id);
       expect(result).toBe(true);
 
-      const updated = repo.getSession(session.id);
+      const updated = await repo.getSession(session.id);
       expect(updated.isOk()).toBe(true);
       expect(updated.unwrap().status).toBe("live");
     });
 
-    test("returns false for non-existent session", () => {
-      const result = repo.restoreSessionToLive("nonexistent");
+    test("returns false for non-existent session", async () => {
+      const result = await repo.restoreSessionToLive("nonexistent");
       expect(result).toBe(false);
     });
   });
 
   describe("getRecentProjectPaths", () => {
-    function createTestSession(
+    async function createTestSession(
       id: string,
       projectPath: string | null,
       clientId?: string,
       userId?: string
     ) {
-      repo.createSession({
+      await repo.createSession({
         id,
         title: id,
         description: null,
@@ -278,70 +272,85 @@ describe("SessionRepository - Client Ownership", () => {
       }, clientId, userId);
     }
 
-    test("returns empty array when no userId or clientId provided", () => {
-      expect(repo.getRecentProjectPaths()).toEqual([]);
-      expect(repo.getRecentProjectPaths(undefined, undefined)).toEqual([]);
+    test("returns empty array when no userId or clientId provided", async () => {
+      expect(await repo.getRecentProjectPaths()).toEqual([]);
+      expect(await repo.getRecentProjectPaths(undefined, undefined)).toEqual([]);
     });
 
-    test("returns distinct project paths", () => {
-      createTestSession("session_1", "/path/a", "client-123");
-      createTestSession("session_2", "/path/b", "client-123");
-      createTestSession("session_3", "/path/a", "client-123"); // duplicate path
+    test("returns distinct project paths", async () => {
+      await createTestSession("session_1", "/path/a", "client-123");
+      await createTestSession("session_2", "/path/b", "client-123");
+      await createTestSession("session_3", "/path/a", "client-123"); // duplicate path
 
-      const paths = repo.getRecentProjectPaths(undefined, "client-123");
+      const paths = await repo.getRecentProjectPaths(undefined, "client-123");
       expect(paths).toHaveLength(2);
       expect(paths).toContain("/path/a");
       expect(paths).toContain("/path/b");
     });
 
-    test("excludes sessions with null project_path", () => {
-      createTestSession("session_1", "/valid/path", "client-123");
-      createTestSession("session_2", null, "client-123");
+    test("excludes sessions with null project_path", async () => {
+      await createTestSession("session_1", "/valid/path", "client-123");
+      await createTestSession("session_2", null, "client-123");
 
-      const paths = repo.getRecentProjectPaths(undefined, "client-123");
+      const paths = await repo.getRecentProjectPaths(undefined, "client-123");
       expect(paths).toEqual(["/valid/path"]);
     });
 
-    test("respects limit parameter", () => {
+    test("respects limit parameter", async () => {
       for (let i = 0; i < 5; i++) {
-        createTestSession(`session_${i}`, `/path/${i}`, "client-123");
+        await createTestSession(`session_${i}`, `/path/${i}`, "client-123");
       }
 
-      const paths = repo.getRecentProjectPaths(undefined, "client-123", 3);
+      const paths = await repo.getRecentProjectPaths(undefined, "client-123", 3);
       expect(paths).toHaveLength(3);
     });
 
-    test("filters by userId when provided", () => {
-      createTestSession("user_session", "/user/path", undefined, "user-123");
-      createTestSession("other_session", "/other/path", "client-456");
+    test("filters by userId when provided", async () => {
+      await createTestSession("user_session", "/user/path", undefined, "user-123");
+      await createTestSession("other_session", "/other/path", "client-456");
 
-      const paths = repo.getRecentProjectPaths("user-123");
+      const paths = await repo.getRecentProjectPaths("user-123");
       expect(paths).toEqual(["/user/path"]);
     });
 
-    test("returns paths from both userId and clientId when both provided", () => {
-      createTestSession("user_session", "/user/project", undefined, "user-123");
-      createTestSession("client_session", "/client/project", "client-456");
-      createTestSession("other_session", "/other/project", "other-client", "other-user");
+    test("returns paths from both userId and clientId when both provided", async () => {
+      await createTestSession("user_session", "/user/project", undefined, "user-123");
+      await createTestSession("client_session", "/client/project", "client-456");
+      await createTestSession("other_session", "/other/project", "other-client", "other-user");
 
-      const paths = repo.getRecentProjectPaths("user-123", "client-456");
+      const paths = await repo.getRecentProjectPaths("user-123", "client-456");
       expect(paths).toHaveLength(2);
       expect(paths).toContain("/user/project");
       expect(paths).toContain("/client/project");
       expect(paths).not.toContain("/other/project");
     });
 
-    test("orders paths by most recent usage", () => {
-      createTestSession("session_old", "/path/old", "client-123");
-      db.run("UPDATE sessions SET created_at = datetime('now', '-2 days') WHERE id = 'session_old'");
+    test("orders paths by most recent usage", async () => {
+      const daysAgo = (days: number) =>
+        new Date(Date.now() - days * 86_400_000).toISOString().replace("T", " ").slice(0, 19);
+
+      await createTestSession("session_old", "/path/old", "client-123");
+      await storage().run("UPDATE sessions SET created_at = ? WHERE id = 'session_old'", [daysAgo(2)]);
 
-      createTestSession("session_mid", "/path/mid", "client-123");
-      db.run("UPDATE sessions SET created_at = datetime('now', '-1 day') WHERE id = 'session_mid'");
+      await createTestSession("session_mid", "/path/mid", "client-123");
+      await storage().run("UPDATE sessions SET created_at = ? WHERE id = 'session_mid'", [daysAgo(1)]);
 
-      createTestSession("session_new", "/path/new", "client-123");
+      await createTestSession("session_new", "/path/new", "client-123");
 
-      const paths = repo.getRecentProjectPaths(undefined, "client-123");
+      const paths = await repo.getRecentProjectPaths(undefined, "client-123");
       expect(paths).toEqual(["/path/new", "/path/mid", "/path/old"]);
     });
+
+    test("getClientIdsForUser returns only the user's clients", async () => {
+      await createTestSession("alice_1", "/a", "alice-laptop", "user-alice");
+      await createTestSession("alice_2", "/a", "alice-daemon", "user-alice");
+      await createTestSession("alice_3", "/a", "alice-daemon", "user-alice");
+      await createTestSession("bob_1", "/b", "bob-daemon", "user-bob");
+      await createTestSession("anonymous", "/c", "anon-client");
+
+      expect((await repo.getClientIdsForUser("user-alice")).sort()).toEqual(["alice-daemon", "alice-laptop"]);
+      expect(await repo.getClientIdsForUser("user-bob")).toEqual(["bob-daemon"]);
+      expect(await repo.getClientIdsForUser("user-nobody")).toEqual([]);
+    });
   });
 });
@@ -0,0 +1,176 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import { SessionRepository } from "../../src/db/repository";
+import { STORAGE_BACKENDS, useTestStorage } from "./storage-backends";
+
+describe.each(STORAGE_BACKENDS)("SessionRepository - Organizations (%s)", (backend) => {
+  const storage = useTestStorage(backend);
+  let repo: SessionRepository;
+  const ownerId = "user_owner";
+  const ownerEmail = "owner@acme.test";
+
+  async function createTestSession(id: string, userId: string = ownerId) {
+    return repo.createSession(
+      {
+        id,
+        title: "Test Session",
+        description: null,
+        claude_session_id: null,
+        agent_session_id: null,
+        pr_url: null,
+        share_token: null,
+        project_path: "/tmp/test",
+        model: "claude-sonnet-4",
+        harness: "claude-code",
+        repo_url: null,
+        branch: "main",
+        status: "complete",
+        visibility: "private",
+        last_activity_at: new Date().toISOString(),
+        interactive: false,
+        remote: false,
+        input_tokens: 0,
+        output_tokens: 0,
+        cache_creation_tokens: 0,
+        cache_read_tokens: 0,
+        redaction_count: 0,
+      },
+      undefined,
+      userId
+    );
+  }
+
+  function createOrg(id = "org_acme", slug = "acme") {
+    return repo.createOrganization({ id, name: "Acme", slug, created_by_user_id: ownerId }, ownerEmail);
+  }
+
+  beforeEach(() => {
+    repo = new SessionRepository(storage());
+  });
+
+  describe("Organizations and members", () => {
+    test("creator becomes an active owner", async () => {
+      const org = await createOrg();
+      expect(org).toMatchObject({ id: "org_acme", name: "Acme", slug: "acme" });
+      expect((await repo.getOrganizationBySlug("acme"))?.id).toBe("org_acme");
+
+      const [owner] = await repo.getOrganizationMembers(org.id);
+      expect(owner).toMatchObject({ email: ownerEmail, user_id: ownerId, role: "owner" });
+      expect(owner!.accepted_at).not.toBeNull();
+    });
+
+    test("lists organizations by user or by invited email", async () => {
+      await createOrg();
+      await createOrg("org_other", "other");
+      await repo.addOrganizationMember("org_acme", "New@Acme.test", "member", ownerId);
+
+      expect((await repo.getOrganizationsForUser(ownerId, null)).map((o) => [o.slug, o.role])).toEqual([
+        ["acme", "owner"],
+        ["other", "owner"],
+      ]);
+      expect(await repo.getOrganizationsForUser("user_new", "new@acme.test")).toEqual([
+        expect.objectContaining({ slug: "acme", role: "member" }),
+      ]);
+      expect(await repo.getOrganizationsForUser(null, null)).toEqual([]);
+    });
+
+    test("acceptOrganizationInvites links pending memberships", async () => {
+      await createOrg();
+      const invited = await repo.addOrganizationMember("org_acme", "new@acme.test", "member", ownerId);
+      expect(invited.accepted_at).toBeNull();
+
+      await repo.acceptOrganizationInvites("NEW@acme.test", "user_new");
+
+      const member = await repo.getOrganizationMember(invited.id);
+      expect(member).toMatchObject({ user_id: "user_new" });
+      expect(member!.accepted_at).not.toBeNull();
+      expect((await repo.getOrganizationMembership("org_acme", "user_new", null))?.id).toBe(invited.id);
+    });
+
+    test("updates roles and counts members", async () => {
+      await createOrg();
+      const member = await repo.addOrganizationMember("org_acme", "new@acme.test", "member", ownerId);
+
+      expect((await repo.updateOrganizationMemberRole(member.id, "admin"))?.role).toBe("admin");
+      expect(await repo.getOrganizationMemberCount("org_acme")).toBe(2);
+      expect(await repo.getOrganizationMemberCount("org_acme", "owner")).toBe(1);
+
+      expect(await repo.removeOrganizationMember(member.id)).toBe(true);
+      expect(await repo.getOrganizationMemberByEmail("org_acme", "new@acme.test")).toBeNull();
+    });
+
+    test("updates name and slug", async () => {
+      await createOrg();
+      const updated = await repo.updateOrganization("org_acme", { name: "Acme Corp", slug: "acme-corp" });
+      expect(updated).toMatchObject({ name: "Acme Corp", slug: "acme-corp" });
+    });
+  });
+
+  describe("Org visibility", () => {
+    test("members can view org sessions, others can't", async () => {
+      await createOrg();
+      await repo.addOrganizationMember("org_acme", "member@acme.test", "member", ownerId);
+      const session = await createTestSession("org_session");
+      await repo.setSessionVisibility(session.id, "org", "org_acme");
+
+      const byEmail = await repo.verifySessionAccess(session.id, "user_member", null, "member@acme.test");
+      expect(byEmail).toEqual({ allowed: true, isOwner: false, role: "viewer", canEdit: false });
+
+      const outsider = await repo.verifySessionAccess(session.id, "user_outsider", null, "outsider@example.com");
+      expect(outsider.allowed).toBe(false);
+
+      expect(await repo.checkSessionAccess(session.id, "user_member", "member@acme.test")).toEqual({
+        hasAccess: true,
+        role: "viewer",
+        isOwner: false,
+      });
+      expect((await repo.checkSessionAccess(session.id, "user_outsider", null)).hasAccess).toBe(false);
+    });
+
+    test("collaborator roles take precedence over org access", async () => {
+      await createOrg();
+      await repo.addOrganizationMember("org_acme", "member@acme.test", "member", ownerId);
+      const session = await createTestSession("org_session");
+      await repo.setSessionVisibility(session.id, "org", "org_acme");
+      await repo.addCollaborator(session.id, "member@acme.test", "contributor", ownerId);
+
+      const access = await repo.verifySessionAccess(session.id, null, null, "member@acme.test");
+      expect(access).toMatchObject({ role: "contributor", canEdit: true });
+    });
+
+    test("other visibilities clear the organization", async () => {
+      await createOrg();
+      const session = await createTestSession("org_session");
+
+      await repo.setSessionVisibility(session.id, "org", "org_acme");
+      expect((await repo.getSession(session.id)).unwrap().org_id).toBe("org_acme");
+
+      await repo.setSessionVisibility(session.id, "private", "org_acme");
+      const updated = (await repo.getSession(session.id)).unwrap();
+      expect(updated.org_id).toBeNull();
+      expect((await repo.verifySessionAccess(session.id, ownerId, null)).isOwner).toBe(true);
+    });
+
+    test("lists sessions shared with the organization", async () => {
+      await createOrg();
+      await createTestSession("shared");
+      await createTestSession("private");
+      await repo.setSessionVisibility("shared", "org", "org_acme");
+
+      expect((await repo.getOrganizationSessions("org_acme")).map((s) => s.id)).toEqual(["shared"]);
+    });
+
+    test("deleting an organization makes its sessions private", async () => {
+      await createOrg();
+      await repo.addOrganizationMember("org_acme", "member@acme.test", "member", ownerId);
+      await createTestSession("shared");
+      await repo.setSessionVisibility("shared", "org", "org_acme");
+
+      expect(await repo.deleteOrganization("org_acme")).toBe(true);
+
+      const session = (await repo.getSession("shared")).unwrap();
+      expect(session).toMatchObject({ visibility: "private", org_id: null });
+      expect(await repo.getOrganization("org_acme")).toBeNull();
+      expect(await repo.getOrganizationMembers("org_acme")).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import type { Diff } from "../../src/db/schema";
+import { SessionRepository } from "../../src/db/repository";
+import { STORAGE_BACKENDS, useTestStorage } from "./storage-backends";
+import { decodeRepoId } from "../../src/lib/repositories";
+
+describe.each(STORAGE_BACKENDS)("SessionRepository - Repository View (%s)", (backend) => {
+  const storage = useTestStorage(backend);
+  let repo: SessionRepository;
+  const ownerId = "user_owner_123";
+  const otherUserId = "user_other_456";
+  const repoUrl = "https://github.com/acme/widgets";
+
+  function sessionData(
+    id: string,
+    overrides: { repo_url?: string | null; project_path?: string | null; visibility?: "private" | "public"; input_tokens?: number } = {}
+  ) {
+    return {
+      id,
+      title: `Session ${id}`,
+      description: null,
+      claude_session_id: null,
+      agent_session_id: null,
+      pr_url: null,
+      share_token: null,
+      project_path: overrides.project_path === undefined ? "/work/widgets" : overrides.project_path,
+      model: "claude-sonnet-4",
+      harness: "claude-code",
+      repo_url: overrides.repo_url === undefined ? repoUrl : overrides.repo_url,
+      branch: "main",
+      status: "complete" as const,
+      visibility: overrides.visibility ?? ("private" as const),
+      last_activity_at: new Date().toISOString(),
+      interactive: false,
+      remote: false,
+      input_tokens: overrides.input_tokens ?? 0,
+      output_tokens: 0,
+      cache_creation_tokens: 0,
+      cache_read_tokens: 0,
+      redaction_count: 0,
+    };
+  }
+
+  function diff(sessionId: string, filename: string, additions: number, deletions: number, relevant = true): Omit<Diff, "id"> {
+    return {
+      session_id: sessionId,
+      filename,
+      diff_content: `diff --git a/${filename} b/${filename}`,
+      diff_index: 0,
+      additions,
+      deletions,
+      is_session_relevant: relevant,
+      status: "modified",
+    };
+  }
+
+  beforeEach(() => {
+    repo = new SessionRepository(storage());
+  });
+
+  describe("touched_files", () => {
+    test("records session-relevant diffs on create", async () => {
+      await repo.createSessionWithData(
+        sessionData("s1"),
+        [],
+        [diff("s1", "src/a.ts", 10, 2), diff("s1", "src/unrelated.ts", 5, 5, false)],
+        undefined,
+        ownerId
+      );
+
+      const files = await repo.getTouchedFiles("s1");
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatchObject({ filename: "src/a.ts", lines_added: 10, lines_removed: 2 });
+    });
+
+    test("replaces touched files when diffs are pushed again", async () => {
+      await repo.createSession(sessionData("s1"), undefined, ownerId);
+      await repo.addDiffs([diff("s1", "src/a.ts", 10, 2)]);
+
+      await repo.clearDiffs("s1");
+      await repo.addDiffs([diff("s1", "src/b.ts", 3, 1)]);
+
+      expect((await repo.getTouchedFiles("s1")).map((f) => f.filename)).toEqual(["src/b.ts"]);
+    });
+
+    test("replaces touched files on upsert", async () => {
+      const session = { ...sessionData("s1"), claude_session_id: "claude-1" };
+      await repo.upsertSessionWithDataAndReview(session, [], [diff("s1", "src/a.ts", 10, 2)], undefined, undefined, ownerId);
+      await repo.upsertSessionWithDataAndReview(session, [], [diff("s1", "src/a.ts", 4, 0)], undefined, undefined, ownerId);
+
+      const files = await repo.getTouchedFiles("s1");
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatchObject({ filename: "src/a.ts", lines_added: 4, lines_removed: 0 });
+    });
+  });
+
+  describe("aggregates", () => {
+    test("groups sessions by repo_url, falling back to project_path", async () => {
+      await repo.createSessionWithData(sessionData("s1", { input_tokens: 100 }), [], [diff("s1", "src/a.ts", 10, 2)], undefined, ownerId);
+      await repo.createSessionWithData(sessionData("s2", { project_path: "/other/checkout", input_tokens: 50 }), [], [diff("s2", "src/a.ts", 1, 1)], undefined, ownerId);
+      await repo.createSessionWithData(sessionData("s3", { repo_url: null, project_path: "/work/scratch" }), [], [], undefined, ownerId);
+
+      const repos = await repo.getAccessibleRepositories({ userId: ownerId });
+      expect(repos).toHaveLength(2);
+
+      const widgets = repos.find((r) => r.repo_url === repoUrl)!;
+      expect(widgets.session_count).toBe(2);
+      expect(widgets.lines_added).toBe(11);
+      expect(widgets.lines_removed).toBe(3);
+      expect(decodeRepoId(widgets.id)).toBe(repoUrl);
+
+      const scratch = repos.find((r) => r.repo_url === null)!;
+      expect(decodeRepoId(scratch.id)).toBe("/work/scratch");
+    });
+
+    test("returns stats, contributors and most-touched files", async () => {
+      await repo.createSessionWithData(sessionData("s1", { input_tokens: 100 }), [], [diff("s1", "src/a.ts", 10, 2), diff("s1", "src/b.ts", 1, 0)], undefined, ownerId);
+      await repo.createSessionWithData(sessionData("s2", { input_tokens: 50, visibility: "public" }), [], [diff("s2", "src/a.ts", 3, 3)], undefined, otherUserId);
+      await repo.createSessionWithData(sessionData("s3"), [], [], "client-anon");
+
+      const detail = (await repo.getRepositoryDetail(repoUrl, { userId: ownerId, clientId: "client-anon" })).unwrap();
+
+      expect(detail.stats.session_count).toBe(3);
+      expect(detail.stats.contributor_count).toBe(3);
+      expect(detail.stats.lines_added).toBe(14);
+      expect(detail.stats.files_changed_count).toBe(2);
+      expect(detail.stats.input_tokens).toBe(150);
+
+      expect(detail.files[0]).toMatchObject({ filename: "src/a.ts", session_count: 2, lines_added: 13 });
+      expect(detail.contributors.map((c) => c.user_id).sort()).toEqual([null, otherUserId, ownerId].sort());
+      expect(detail.sessions).toHaveLength(3);
+    });
+
+    test("only includes sessions the user can access", async () => {
+      await repo.createSessionWithData(sessionData("mine"), [], [diff("mine", "src/a.ts", 1, 0)], undefined, ownerId);
+      await repo.createSessionWithData(sessionData("theirs"), [], [diff("theirs", "src/secret.ts", 99, 0)], undefined, otherUserId);
+      await repo.createSessionWithData(sessionData("shared"), [], [], undefined, otherUserId);
+      await repo.addCollaborator("shared", "owner@example.com", "viewer", otherUserId);
+
+      const withoutEmail = (await repo.getRepositoryDetail(repoUrl, { userId: ownerId })).unwrap();
+      expect(withoutEmail.sessions.map((s) => s.id)).toEqual(["mine"]);
+      expect(withoutEmail.files.map((f) => f.filename)).toEqual(["src/a.ts"]);
+
+      const withEmail = (await repo.getRepositoryDetail(repoUrl, { userId: ownerId, email: "owner@example.com" })).unwrap();
+      expect(withEmail.stats.session_count).toBe(2);
+
+      const stranger = await repo.getRepositoryDetail(repoUrl, { userId: "user_stranger" });
+      expect(stranger.isErr()).toBe(true);
+    });
+
+    test("includes sessions whose repository the user can read", async () => {
+      await repo.createSessionWithData(sessionData("widgets"), [], [diff("widgets", "src/a.ts", 1, 0)], undefined, otherUserId);
+      await repo.createSessionWithData(sessionData("gadgets", { repo_url: "https://github.com/acme/gadgets" }), [], [], undefined, otherUserId);
+      const canReadRepo = async (url: string) => url === repoUrl;
+
+      const repos = await repo.getAccessibleRepositories({ userId: ownerId, canReadRepo });
+      expect(repos.map((r) => r.repo_url)).toEqual([repoUrl]);
+
+      const detail = (await repo.getRepositoryDetail(repoUrl, { userId: ownerId, canReadRepo })).unwrap();
+      expect(detail.sessions.map((s) => s.id)).toEqual(["widgets"]);
+
+      expect(await repo.getAccessibleRepositories({ userId: ownerId })).toHaveLength(0);
+    });
+
+    test("checks only the requested repository for the detail view", async () => {
+      await repo.createSessionWithData(sessionData("widgets"), [], [], undefined, otherUserId);
+      await repo.createSessionWithData(sessionData("gadgets", { repo_url: "https://github.com/acme/gadgets" }), [], [], undefined, otherUserId);
+      const checked: string[] = [];
+      const canReadRepo = async (url: string) => {
+        checked.push(url);
+        return true;
+      };
+
+      const detail = (await repo.getRepositoryDetail(repoUrl, { userId: ownerId, canReadRepo })).unwrap();
+      expect(detail.sessions.map((s) => s.id)).toEqual(["widgets"]);
+      expect(checked).toEqual([repoUrl]);
+    });
+
+    test("runs repository checks in parallel up to a limit", async () => {
+      for (let i = 0; i < 20; i++) {
+        await repo.createSession(sessionData(`s${i}`, { repo_url: `https://github.com/acme/repo-${i}` }), undefined, otherUserId);
+      }
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const canReadRepo = async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return true;
+      };
+
+      const repos = await repo.getAccessibleRepositories({ userId: ownerId, canReadRepo });
+      expect(repos).toHaveLength(20);
+      expect(maxInFlight).toBeGreaterThan(1);
+      expect(maxInFlight).toBeLessThanOrEqual(8);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import { SessionRepository } from "../../src/db/repository";
+import { STORAGE_BACKENDS, useTestStorage } from "./storage-backends";
+
+describe.each(STORAGE_BACKENDS)("SessionRepository - Full-Text Search (%s)", (backend) => {
+  const storage = useTestStorage(backend);
+  let repo: SessionRepository;
+  const ownerId = "user_owner_123";
+  const otherUserId = "user_other_456";
+
+  async function createTestSession(
+    id: string,
+    userId: string = ownerId,
+    visibility: "private" | "public" = "private",
+    repoUrl: string | null = null
+  ) {
+    return repo.createSession(
+      {
+        id,
+        title: `Session ${id}`,
+        description: null,
+        claude_session_id: null,
+        agent_session_id: null,
+        pr_url: null,
+        share_token: null,
+        project_path: "/tmp/test",
+        model: "claude-sonnet-4",
+        harness: "claude-code",
+        repo_url: repoUrl,
+        branch: "main",
+        status: "complete",
+        visibility,
+        last_activity_at: new Date().toISOString(),
+        interactive: false,
+        remote: false,
+        input_tokens: 0,
+        output_tokens: 0,
+        cache_creation_tokens: 0,
+        cache_read_tokens: 0,
+        redaction_count: 0,
+      },
+      undefined,
+      userId
+    );
+  }
+
+  async function addTextMessage(sessionId: string, index: number, text: string) {
+    await repo.addMessage({
+      session_id: sessionId,
+      role: "user",
+      content: text,
+      content_blocks: [{ type: "text", text }],
+      timestamp: null,
+      message_index: index,
+    });
+  }
+
+  beforeEach(() => {
+    repo = new SessionRepository(storage());
+  });
+
+  test("finds message text with highlighted snippet and message index", async () => {
+    await createTestSession("s1");
+    await addTextMessage("s1", 0, "Set up the project");
+    await addTextMessage("s1", 1, "Please fix the websocket reconnect logic");
+
+    const results = await repo.searchSessions("websocket", { userId: ownerId });
+
+    expect(results).toHaveLength(1);
+    expect(results[0]!.session_id).toBe("s1");
+    expect(results[0]!.session_title).toBe("Session s1");
+    expect(results[0]!.kind).toBe("message");
+    expect(results[0]!.message_index).toBe(1);
+
+    const [start, end] = results[0]!.highlights[0]!;
+    expect(results[0]!.snippet.slice(start, end)).toBe("websocket");
+  });
+
+  test("matches prefixes of the last search term", async () => {
+    await createTestSession("s1");
+    await addTextMessage("s1", 0, "Refactor the authentication middleware");
+
+    expect(await repo.searchSessions("authent", { userId: ownerId })).toHaveLength(1);
+  });
+
+  test("indexes tool call inputs and tool results", async () => {
+    await createTestSession("s1");
+    await repo.addMessage({
+      session_id: "s1",
+      role: "assistant",
+      content: "",
+      content_blocks: [
+        { type: "tool_use", id: "t1", name: "Bash", input: { command: "bun run migrate" } },
+      ],
+      timestamp: null,
+      message_index: 0,
+    });
+    await repo.addMessage({
+      session_id: "s1",
+      role: "user",
+      content: "",
+      content_blocks: [
+        { type: "tool_result", tool_use_id: "t1", content: "Created table touched_files" },
+      ],
+      timestamp: null,
+      message_index: 1,
+    });
+
+    const byInput = await repo.searchSessions("migrate", { userId: ownerId });
+    expect(byInput.map((r) => r.message_index)).toEqual([0]);
+
+    const byResult = await repo.searchSessions("touched_files", { userId: ownerId });
+    expect(byResult.map((r) => r.message_index)).toEqual([1]);
+  });
+
+  test("indexes diff content and drops it when diffs are replaced", async () => {
+    await createTestSession("s1");
+    await repo.addDiff({
+      session_id: "s1",
+      filename: "src/server.ts",
+      diff_content: "+const heartbeatInterval = 30000;",
+      diff_index: 0,
+      additions: 1,
+      deletions: 0,
+      is_session_relevant: true,
+      status: "modified",
+    });
+
+    const results = await repo.searchSessions("heartbeatInterval", { userId: ownerId });
+    expect(results).toHaveLength(1);
+    expect(results[0]!.kind).toBe("diff");
+    expect(results[0]!.filename).toBe("src/server.ts");
+    expect(results[0]!.message_index).toBeNull();
+
+    await repo.clearDiffs("s1");
+    expect(await repo.searchSessions("heartbeatInterval", { userId: ownerId })).toHaveLength(0);
+  });
+
+  test("removes messages from the index when the session is deleted", async () => {
+    await createTestSession("s1");
+    await addTextMessage("s1", 0, "ephemeral content");
+
+    await repo.deleteSession("s1");
+
+    expect(await repo.searchSessions("ephemeral", { userId: ownerId })).toHaveLength(0);
+  });
+
+  test("only returns sessions the user can access", async () => {
+    await createTestSession("private_other", otherUserId);
+    await createTestSession("public_other", otherUserId, "public");
+    await createTestSession("shared_other", otherUserId);
+    await addTextMessage("private_other", 0, "secret roadmap");
+    await addTextMessage("public_other", 0, "public roadmap");
+    await addTextMessage("shared_other", 0, "shared roadmap");
+    await repo.addCollaborator("shared_other", "Viewer@Example.com", "viewer", otherUserId);
+
+    const outsider = await repo.searchSessions("roadmap", { userId: ownerId });
+    expect(outsider.map((r) => r.session_id)).toEqual(["public_other"]);
+
+    const collaborator = await repo.searchSessions("roadmap", { userId: ownerId, email: "viewer@example.com" });
+    expect(collaborator.map((r) => r.session_id).sort()).toEqual(["public_other", "shared_other"]);
+
+    const owner = await repo.searchSessions("roadmap", { userId: otherUserId });
+    expect(owner).toHaveLength(3);
+  });
+
+  test("only checks repositories of sessions with a hit", async () => {
+    await createTestSession("widgets", otherUserId, "private", "https://github.com/acme/widgets");
+    await createTestSession("gadgets", otherUserId, "private", "https://github.com/acme/gadgets");
+    await addTextMessage("widgets", 0, "release roadmap");
+    await addTextMessage("gadgets", 0, "hiring plan");
+    const checked: string[] = [];
+    const canReadRepo = async (url: string) => {
+      checked.push(url);
+      return true;
+    };
+
+    const results = await repo.searchSessions("roadmap", { userId: ownerId, canReadRepo });
+    expect(results.map((r) => r.session_id)).toEqual(["widgets"]);
+    expect(checked).toEqual(["https://github.com/acme/widgets"]);
+  });
+
+  test("treats FTS syntax in queries literally", async () => {
+    await createTestSession("s1");
+    await addTextMessage("s1", 0, "NOT a problem");
+
+    expect(await repo.searchSessions('NOT (problem', { userId: ownerId })).toHaveLength(1);
+    expect(await repo.searchSessions('"NOT', { userId: ownerId })).toHaveLength(1);
+    expect(await repo.searchSessions("   ", { userId: ownerId })).toEqual([]);
+  });
+});
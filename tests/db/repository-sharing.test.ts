@@ -1,18 +1,18 @@
-import { describe, test, expect, beforeEach, afterEach } from "bun:test";
-import { initializeDatabase } from "../../src/db/schema";
+import { describe, test, expect, beforeEach } from "bun:test";
 import { SessionRepository } from "../../src/db/repository";
-import { Database } from "bun:sqlite";
+import { STORAGE_BACKENDS, useTestStorage } from "./storage-backends";
 
-describe("SessionRepository - Session Sharing", () => {
-  let db: Database;
+describe.each(STORAGE_BACKENDS)("SessionRepository - Session Sharing (%s)", (backend) => {
+  const storage = useTestStorage(backend);
   let repo: SessionRepository;
   const testUserId = "user_owner_123";
   const testSessionId = "test_session_123";
 
-  function createTestSession(
+  async function createTestSession(
     id: string = testSessionId,
     userId: string = testUserId,
-    visibility: "private" | "public" = "private"
+    visibility: "private" | "public" = "private",
+    repoUrl: string | null = null
   ) {
     // Note: createSession takes userId as a separate parameter, not in the session object
     return repo.createSession(
@@ -27,7 +27,7 @@ describe("SessionRepository - Session Sharing", () => {
         project_path: "/tmp/test",
         model: "claude-sonnet-4",
         harness: "claude-code",
-        repo_url: null,
+        repo_url: repoUrl,
         branch: "main",
         status: "complete",
         visibility,
@@ -41,52 +41,47 @@ describe("SessionRepository - Session Sharing", () => {
   }
 
   beforeEach(() => {
-    db = initializeDatabase(":memory:");
-    repo = new SessionRepository(db);
-  });
-
-  afterEach(() => {
-    db?.close();
+    repo = new SessionRepository(storage());
   });
 
   describe("Session Visibility", () => {
-    test("creates session with default private visibility", () => {
-      const session = createTestSession();
+    test("creates session with default private visibility", async () => {
+      const session = await createTestSession();
       expect(session.visibility).toBe("private");
     });
 
-    test("creates session with public visibility", () => {
-      const session = createTestSession("public_session", testUserId, "public");
+    test("creates session with public visibility", async () => {
+      const session = await createTestSession("public_session", testUserId, "public");
       expect(session.visibility).toBe("public");
     });
 
-    test("updates session visibility", () => {
-      const session = createTestSession();
+    test("updates session visibility", async () => {
+      const session = await createTestSession();
       expect(session.visibility).toBe("private");
 
-      repo.setSessionVisibility(session.id, "public");
-      const updated = repo.getSession(session.id).unwrap();
+      await repo.setSessionVisibility(session.id, "public");
+      const updated = (await repo.getSession(session.id)).unwrap();
       expect(updated.visibility).toBe("public");
 
-      repo.setSessionVisibility(session.id, "private");
-      const reverted = repo.getSession(session.id).unwrap();
+      await repo.setSessionVisibility(session.id, "private");
+      const reverted = (await repo.getSession(session.id)).unwrap();
       expect(reverted.visibility).toBe("private");
     });
 
-    test("getSessionVisibility returns correct value", () => {
-      const session = createTestSession();
-      expect(repo.getSessionVisibility(session.id)).toBe("private");
+    test("getSessionVisibility returns correct value", async () => {
+      const session = await createTestSession();
+      expect(await repo.getSessionVisibility(session.id)).toBe("private");
 
-      repo.setSessionVisibility(session.id, "public");
-      expect(repo.getSessionVisibility(session.id)).toBe("public");
+      await repo.setSessionVisibility(session.id, "public");
+      expect(await repo.getSessionVisibility(session.id)).toBe("public");
     });
   });
 
   describe("Collaborator Management", () => {
-    test("adds a collaborator to a session", () => {
-      createTestSession();
+    test("adds a collaborator to a session", async () => {
+      await createTestSession();
 
-      const collaborator = repo.addCollaborator(
+      const collaborator = await repo.addCollaborator(
         testSessionId,
         "collab@example.com",
         "viewer",
@@ -100,10 +95,10 @@ describe("SessionRepository - Session Sharing", () => {
       expect(collaborator?.accepted_at).toBeNull();
     });
 
-    test("normalizes email when adding collaborator", () => {
-      createTestSession();
+    test("normalizes email when adding collaborator", async () => {
+      await createTestSession();
 
-      const collaborator = repo.addCollaborator(
+      const collaborator = await repo.addCollaborator(
         testSessionId,
         "  COLLAB@EXAMPLE.COM  ",
         "viewer",
@@ -113,162 +108,162 @@ describe("SessionRepository - Session Sharing", () => {
       expect(collaborator?.email).toBe("collab@example.com");
     });
 
-    test("throws on duplicate collaborator email", () => {
-      createTestSession();
+    test("throws on duplicate collaborator email", async () => {
+      await createTestSession();
 
-      repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
+      await repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
 
-      expect(() => {
-        repo.addCollaborator(testSessionId, "collab@example.com", "contributor", testUserId);
-      }).toThrow();
+      await expect(
+        repo.addCollaborator(testSessionId, "collab@example.com", "contributor", testUserId)
+      ).rejects.toThrow();
     });
 
-    test("gets all collaborators for a session", () => {
-      createTestSession();
+    test("gets all collaborators for a session", async () => {
+      await createTestSession();
 
-      repo.addCollaborator(testSessionId, "alice@example.com", "contributor", testUserId);
-      repo.addCollaborator(testSessionId, "bob@example.com", "viewer", testUserId);
+      await repo.addCollaborator(testSessionId, "alice@example.com", "contributor", testUserId);
+      await repo.addCollaborator(testSessionId, "bob@example.com", "viewer", testUserId);
 
-      const collaborators = repo.getCollaborators(testSessionId);
+      const collaborators = await repo.getCollaborators(testSessionId);
       expect(collaborators).toHaveLength(2);
       expect(collaborators.map((c) => c.email).sort()).toEqual(["alice@example.com", "bob@example.com"]);
     });
 
-    test("gets collaborator by ID", () => {
-      createTestSession();
+    test("gets collaborator by ID", async () => {
+      await createTestSession();
 
-      const added = repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
-      const found = repo.getCollaborator(added!.id);
+      const added = await repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
+      const found = await repo.getCollaborator(added!.id);
 
       expect(found).toBeTruthy();
       expect(found?.email).toBe("collab@example.com");
     });
 
-    test("gets collaborator by email", () => {
-      createTestSession();
+    test("gets collaborator by email", async () => {
+      await createTestSession();
 
-      repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
-      const found = repo.getCollaboratorByEmail(testSessionId, "collab@example.com");
+      await repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
+      const found = await repo.getCollaboratorByEmail(testSessionId, "collab@example.com");
 
       expect(found).toBeTruthy();
       expect(found?.email).toBe("collab@example.com");
     });
 
-    test("updates collaborator role", () => {
-      createTestSession();
+    test("updates collaborator role", async () => {
+      await createTestSession();
 
-      const collaborator = repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
+      const collaborator = await repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
       expect(collaborator?.role).toBe("viewer");
 
-      const updated = repo.updateCollaboratorRole(collaborator!.id, "contributor");
+      const updated = await repo.updateCollaboratorRole(collaborator!.id, "contributor");
       expect(updated?.role).toBe("contributor");
     });
 
-    test("removes collaborator", () => {
-      createTestSession();
+    test("removes collaborator", async () => {
+      await createTestSession();
 
-      const collaborator = repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
-      expect(repo.getCollaborators(testSessionId)).toHaveLength(1);
+      const collaborator = await repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
+      expect(await repo.getCollaborators(testSessionId)).toHaveLength(1);
 
-      const result = repo.removeCollaborator(collaborator!.id);
+      const result = await repo.removeCollaborator(collaborator!.id);
       expect(result).toBe(true);
-      expect(repo.getCollaborators(testSessionId)).toHaveLength(0);
+      expect(await repo.getCollaborators(testSessionId)).toHaveLength(0);
     });
 
-    test("removes collaborator by email", () => {
-      createTestSession();
+    test("removes collaborator by email", async () => {
+      await createTestSession();
 
-      repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
-      expect(repo.getCollaborators(testSessionId)).toHaveLength(1);
+      await repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
+      expect(await repo.getCollaborators(testSessionId)).toHaveLength(1);
 
-      const result = repo.removeCollaboratorByEmail(testSessionId, "collab@example.com");
+      const result = await repo.removeCollaboratorByEmail(testSessionId, "collab@example.com");
       expect(result).toBe(true);
-      expect(repo.getCollaborators(testSessionId)).toHaveLength(0);
+      expect(await repo.getCollaborators(testSessionId)).toHaveLength(0);
     });
 
-    test("links collaborator to user ID", () => {
-      createTestSession();
+    test("links collaborator to user ID", async () => {
+      await createTestSession();
 
-      const collaborator = repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
+      const collaborator = await repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
       expect(collaborator?.user_id).toBeNull();
 
       const collabUserId = "user_collab_456";
-      repo.updateCollaboratorUserId(collaborator!.id, collabUserId);
+      await repo.updateCollaboratorUserId(collaborator!.id, collabUserId);
 
-      const updated = repo.getCollaborator(collaborator!.id);
+      const updated = await repo.getCollaborator(collaborator!.id);
       expect(updated?.user_id).toBe(collabUserId);
     });
 
-    test("acceptInvite links collaborator and sets accepted_at", () => {
-      createTestSession();
+    test("acceptInvite links collaborator and sets accepted_at", async () => {
+      await createTestSession();
 
-      repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
+      await repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
 
       // Accept invite
       const collabUserId = "user_collab_456";
-      const accepted = repo.acceptInvite(testSessionId, "collab@example.com", collabUserId);
+      const accepted = await repo.acceptInvite(testSessionId, "collab@example.com", collabUserId);
 
       expect(accepted).toBeTruthy();
       expect(accepted?.user_id).toBe(collabUserId);
       expect(accepted?.accepted_at).toBeTruthy();
     });
 
-    test("acceptInvite returns null for non-existent invite", () => {
-      createTestSession();
+    test("acceptInvite returns null for non-existent invite", async () => {
+      await createTestSession();
 
-      const result = repo.acceptInvite(testSessionId, "nonexistent@example.com", "some_user");
+      const result = await repo.acceptInvite(testSessionId, "nonexistent@example.com", "some_user");
       expect(result).toBeNull();
     });
 
-    test("acceptInvite returns existing collaborator if already accepted", () => {
-      createTestSession();
+    test("acceptInvite returns existing collaborator if already accepted", async () => {
+      await createTestSession();
 
-      const collaborator = repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
+      const collaborator = await repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
       const collabUserId = "user_collab_456";
 
       // First acceptance
-      const first = repo.acceptInvite(testSessionId, "collab@example.com", collabUserId);
+      const first = await repo.acceptInvite(testSessionId, "collab@example.com", collabUserId);
       expect(first?.user_id).toBe(collabUserId);
 
       // Second acceptance with same user should return existing
-      const second = repo.acceptInvite(testSessionId, "collab@example.com", collabUserId);
+      const second = await repo.acceptInvite(testSessionId, "collab@example.com", collabUserId);
       expect(second?.id).toBe(first?.id);
     });
 
-    test("getCollaboratorCount returns correct count", () => {
-      createTestSession();
+    test("getCollaboratorCount returns correct count", async () => {
+      await createTestSession();
 
-      expect(repo.getCollaboratorCount(testSessionId)).toBe(0);
+      expect(await repo.getCollaboratorCount(testSessionId)).toBe(0);
 
-      repo.addCollaborator(testSessionId, "alice@example.com", "contributor", testUserId);
-      expect(repo.getCollaboratorCount(testSessionId)).toBe(1);
+      await repo.addCollaborator(testSessionId, "alice@example.com", "contributor", testUserId);
+      expect(await repo.getCollaboratorCount(testSessionId)).toBe(1);
 
-      repo.addCollaborator(testSessionId, "bob@example.com", "viewer", testUserId);
-      expect(repo.getCollaboratorCount(testSessionId)).toBe(2);
+      await repo.addCollaborator(testSessionId, "bob@example.com", "viewer", testUserId);
+      expect(await repo.getCollaboratorCount(testSessionId)).toBe(2);
     });
   });
 
   describe("Audit Logging", () => {
-    test("creates audit log entry when adding collaborator", () => {
-      createTestSession();
+    test("creates audit log entry when adding collaborator", async () => {
+      await createTestSession();
 
-      repo.addCollaboratorWithAudit(testSessionId, "collab@example.com", "viewer", testUserId);
+      await repo.addCollaboratorWithAudit(testSessionId, "collab@example.com", "viewer", testUserId);
 
-      const logs = repo.getAuditLogs(testSessionId);
+      const logs = await repo.getAuditLogs(testSessionId);
       expect(logs).toHaveLength(1);
       expect(logs[0].action).toBe("collaborator_added");
       expect(logs[0].target_email).toBe("collab@example.com");
       expect(logs[0].new_value).toBe("viewer");
     });
 
-    test("creates audit log entry when updating collaborator role", () => {
-      createTestSession();
+    test("creates audit log entry when updating collaborator role", async () => {
+      await createTestSession();
 
-      const collaborator = repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
+      const collaborator = await repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
       // Note: updateCollaboratorRoleWithAudit takes (collaboratorId, newRole, actorUserId)
-      repo.updateCollaboratorRoleWithAudit(collaborator!.id, "contributor", testUserId);
+      await repo.updateCollaboratorRoleWithAudit(collaborator!.id, "contributor", testUserId);
 
-      const logs = repo.getAuditLogs(testSessionId);
+      const logs = await repo.getAuditLogs(testSessionId);
       expect(logs).toHaveLength(1);
 
       expect(logs[0].action).toBe("collaborator_role_changed");
@@ -276,25 +271,25 @@ describe("SessionRepository - Session Sharing", () => {
       expect(logs[0].new_value).toBe("contributor");
     });
 
-    test("creates audit log entry when removing collaborator", () => {
-      createTestSession();
+    test("creates audit log entry when removing collaborator", async () => {
+      await createTestSession();
 
-      const collaborator = repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
+      const collaborator = await repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
       // Note: removeCollaboratorWithAudit takes (collaboratorId, actorUserId)
-      repo.removeCollaboratorWithAudit(collaborator!.id, testUserId);
+      await repo.removeCollaboratorWithAudit(collaborator!.id, testUserId);
 
-      const logs = repo.getAuditLogs(testSessionId);
+      const logs = await repo.getAuditLogs(testSessionId);
       expect(logs).toHaveLength(1);
       expect(logs[0].action).toBe("collaborator_removed");
       expect(logs[0].target_email).toBe("collab@example.com");
     });
 
-    test("creates audit log entry when changing visibility", () => {
-      createTestSession();
+    test("creates audit log entry when changing visibility", async () => {
+      await createTestSession();
 
-      repo.setSessionVisibilityWithAudit(testSessionId, "public", testUserId);
+      await repo.setSessionVisibilityWithAudit(testSessionId, "public", testUserId);
 
-      const logs = repo.getAuditLogs(testSessionId);
+      const logs = await repo.getAuditLogs(testSessionId);
       expect(logs).toHaveLength(1);
       expect(logs[0].action).toBe("visibility_changed");
       expect(logs[0].old_value).toBe("private");
@@ -302,74 +297,143 @@ describe("SessionRepository - Session Sharing", () => {
     });
   });
 
+  describe("Review Threads", () => {
+    const anchor = { filename: "src/app.ts", side: "additions" as const, line_number: 12 };
+
+    test("starts a thread with its first comment", async () => {
+      await createTestSession();
+
+      const thread = await repo.createReviewThread(testSessionId, anchor, testUserId, "Should this be async?");
+      expect(thread).toMatchObject({ session_id: testSessionId, ...anchor, author_user_id: testUserId, resolved_at: null });
+      expect(thread.comments.map((c) => c.content)).toEqual(["Should this be async?"]);
+
+      expect(await repo.getReviewThreads(testSessionId)).toEqual([thread]);
+    });
+
+    test("adds replies in order", async () => {
+      await createTestSession();
+      const thread = await repo.createReviewThread(testSessionId, anchor, testUserId, "Should this be async?");
+
+      const updated = await repo.addReviewComment(thread.id, "user_collab", "Yes, it awaits the fetch");
+      expect(updated!.comments.map((c) => [c.author_user_id, c.content])).toEqual([
+        [testUserId, "Should this be async?"],
+        ["user_collab", "Yes, it awaits the fetch"],
+      ]);
+
+      expect(await repo.addReviewComment(9999, "user_collab", "Lost")).toBeNull();
+    });
+
+    test("resolves and reopens threads", async () => {
+      await createTestSession();
+      const thread = await repo.createReviewThread(testSessionId, anchor, testUserId, "Typo here");
+
+      const resolved = await repo.setReviewThreadResolved(thread.id, true, "user_collab");
+      expect(resolved!.resolved_at).not.toBeNull();
+      expect(resolved!.resolved_by_user_id).toBe("user_collab");
+
+      const reopened = await repo.setReviewThreadResolved(thread.id, false, testUserId);
+      expect(reopened).toMatchObject({ resolved_at: null, resolved_by_user_id: null });
+    });
+
+    test("logs thread activity with the thread id", async () => {
+      await createTestSession();
+      const thread = await repo.createReviewThread(testSessionId, anchor, testUserId, "Typo here");
+      await repo.addReviewComment(thread.id, "user_collab", "Fixed");
+      await repo.setReviewThreadResolved(thread.id, true, testUserId);
+      // Resolving an already resolved thread isn't logged again
+      await repo.setReviewThreadResolved(thread.id, true, testUserId);
+
+      const logs = await repo.getAuditLogs(testSessionId);
+      expect(logs.map((log) => log.action).sort()).toEqual([
+        "review_comment_added",
+        "review_thread_created",
+        "review_thread_resolved",
+      ]);
+      expect(logs.every((log) => log.thread_id === thread.id)).toBe(true);
+      expect(logs.find((log) => log.action === "review_thread_created")!.new_value).toBe("src/app.ts:12");
+    });
+
+    test("lists only the session's threads", async () => {
+      await createTestSession();
+      await createTestSession("other_session");
+      const first = await repo.createReviewThread(testSessionId, anchor, testUserId, "First");
+      await repo.createReviewThread("other_session", anchor, testUserId, "Elsewhere");
+      const second = await repo.createReviewThread(testSessionId, { ...anchor, side: "deletions", line_number: 3 }, testUserId, "Second");
+
+      const threads = await repo.getReviewThreads(testSessionId);
+      expect(threads.map((t) => t.id)).toEqual([first.id, second.id]);
+      expect(threads.map((t) => t.comments[0]!.content)).toEqual(["First", "Second"]);
+    });
+  });
+
   describe("Access Control - verifySessionAccess", () => {
-    test("owner has full access to private session", () => {
-      createTestSession();
+    test("owner has full access to private session", async () => {
+      await createTestSession();
 
-      const access = repo.verifySessionAccess(testSessionId, testUserId, null);
+      const access = await repo.verifySessionAccess(testSessionId, testUserId, null);
       expect(access.allowed).toBe(true);
       expect(access.isOwner).toBe(true);
       expect(access.role).toBe("owner");
       expect(access.canEdit).toBe(true);
     });
 
-    test("non-owner cannot access private session without being collaborator", () => {
-      createTestSession();
+    test("non-owner cannot access private session without being collaborator", async () => {
+      await createTestSession();
 
-      const access = repo.verifySessionAccess(testSessionId, "other_user", null);
+      const access = await repo.verifySessionAccess(testSessionId, "other_user", null);
       expect(access.allowed).toBe(false);
       expect(access.isOwner).toBe(false);
       expect(access.role).toBeNull();
     });
 
-    test("collaborator with viewer role can access but not edit", () => {
-      createTestSession();
-      repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
+    test("collaborator with viewer role can access but not edit", async () => {
+      await createTestSession();
+      await repo.addCollaborator(testSessionId, "collab@example.com", "viewer", testUserId);
 
-      const access = repo.verifySessionAccess(testSessionId, null, null, "collab@example.com");
+      const access = await repo.verifySessionAccess(testSessionId, null, null, "collab@example.com");
       expect(access.allowed).toBe(true);
       expect(access.isOwner).toBe(false);
       expect(access.role).toBe("viewer");
       expect(access.canEdit).toBe(false);
     });
 
-    test("collaborator with contributor role can access and edit", () => {
-      createTestSession();
-      repo.addCollaborator(testSessionId, "collab@example.com", "contributor", testUserId);
+    test("collaborator with contributor role can access and edit", async () => {
+      await createTestSession();
+      await repo.addCollaborator(testSessionId, "collab@example.com", "contributor", testUserId);
 
-      const access = repo.verifySessionAccess(testSessionId, null, null, "collab@example.com");
+      const access = await repo.verifySessionAccess(testSessionId, null, null, "collab@example.com");
       expect(access.allowed).toBe(true);
       expect(access.isOwner).toBe(false);
       expect(access.role).toBe("contributor");
       expect(access.canEdit).toBe(true);
     });
 
-    test("anyone can access public session", () => {
-      createTestSession("public_session", testUserId, "public");
+    test("anyone can access public session", async () => {
+      await createTestSession("public_session", testUserId, "public");
 
-      const access = repo.verifySessionAccess("public_session", null, null);
+      const access = await repo.verifySessionAccess("public_session", null, null);
       expect(access.allowed).toBe(true);
       expect(access.isOwner).toBe(false);
       expect(access.role).toBe("viewer"); // Public sessions grant viewer role
       expect(access.canEdit).toBe(false);
     });
 
-    test("owner still has full access to public session", () => {
-      createTestSession("public_session", testUserId, "public");
+    test("owner still has full access to public session", async () => {
+      await createTestSession("public_session", testUserId, "public");
 
-      const access = repo.verifySessionAccess("public_session", testUserId, null);
+      const access = await repo.verifySessionAccess("public_session", testUserId, null);
       expect(access.allowed).toBe(true);
       expect(access.isOwner).toBe(true);
       expect(access.role).toBe("owner");
       expect(access.canEdit).toBe(true);
     });
 
-    test("collaborator by user_id can access session", () => {
-      createTestSession();
-      const collab = repo.addCollaborator(testSessionId, "collab@example.com", "contributor", testUserId);
-      repo.updateCollaboratorUserId(collab!.id, "user_collab_456");
+    test("collaborator by user_id can access session", async () => {
+      await createTestSession();
+      const collab = await repo.addCollaborator(testSessionId, "collab@example.com", "contributor", testUserId);
+      await repo.updateCollaboratorUserId(collab!.id, "user_collab_456");
 
-      const access = repo.verifySessionAccess(testSessionId, "user_collab_456", null);
+      const access = await repo.verifySessionAccess(testSessionId, "user_collab_456", null);
       expect(access.allowed).toBe(true);
       expect(access.isOwner).toBe(false);
       expect(access.role).toBe("contributor");
@@ -378,58 +442,95 @@ describe("SessionRepository - Session Sharing", () => {
   });
 
   describe("getSessionsSharedWithUser/Email", () => {
-    test("returns sessions shared with user by email", () => {
-      createTestSession("session1", testUserId);
-      createTestSession("session2", testUserId);
-      createTestSession("session3", "other_user");
+    test("returns sessions shared with user by email", async () => {
+      await createTestSession("session1", testUserId);
+      await createTestSession("session2", testUserId);
+      await createTestSession("session3", "other_user");
 
-      repo.addCollaborator("session1", "viewer@example.com", "viewer", testUserId);
-      repo.addCollaborator("session2", "viewer@example.com", "contributor", testUserId);
+      await repo.addCollaborator("session1", "viewer@example.com", "viewer", testUserId);
+      await repo.addCollaborator("session2", "viewer@example.com", "contributor", testUserId);
 
-      const sessions = repo.getSessionsSharedWithEmail("viewer@example.com");
+      const sessions = await repo.getSessionsSharedWithEmail("viewer@example.com");
       expect(sessions).toHaveLength(2);
       expect(sessions.map((s) => s.id).sort()).toEqual(["session1", "session2"]);
     });
 
-    test("returns sessions shared with user by user_id", () => {
-      createTestSession("session1", testUserId);
-      createTestSession("session2", testUserId);
+    test("returns sessions shared with user by user_id", async () => {
+      await createTestSession("session1", testUserId);
+      await createTestSession("session2", testUserId);
 
-      const collab = repo.addCollaborator("session1", "collab@example.com", "viewer", testUserId);
-      repo.updateCollaboratorUserId(collab!.id, "user_collab_456");
+      const collab = await repo.addCollaborator("session1", "collab@example.com", "viewer", testUserId);
+      await repo.updateCollaboratorUserId(collab!.id, "user_collab_456");
 
-      const sessions = repo.getSessionsSharedWithUser("user_collab_456");
+      const sessions = await repo.getSessionsSharedWithUser("user_collab_456");
       expect(sessions).toHaveLength(1);
       expect(sessions[0].id).toBe("session1");
     });
   });
 
   describe("checkSessionAccess", () => {
-    test("returns correct access for owner", () => {
-      createTestSession();
+    test("returns correct access for owner", async () => {
+      await createTestSession();
 
-      const access = repo.checkSessionAccess(testSessionId, testUserId, null);
+      const access = await repo.checkSessionAccess(testSessionId, testUserId, null);
       expect(access.hasAccess).toBe(true);
       expect(access.isOwner).toBe(true);
       expect(access.role).toBe("owner");
     });
 
-    test("returns correct access for public session", () => {
-      createTestSession("public_session", testUserId, "public");
+    test("returns correct access for public session", async () => {
+      await createTestSession("public_session", testUserId, "public");
 
-      const access = repo.checkSessionAccess("public_session", null, null);
+      const access = await repo.checkSessionAccess("public_session", null, null);
       expect(access.hasAccess).toBe(true);
       expect(access.isOwner).toBe(false);
       expect(access.role).toBe("viewer");
     });
 
-    test("returns no access for private session without permission", () => {
-      createTestSession();
+    test("returns no access for private session without permission", async () => {
+      await createTestSession();
 
-      const access = repo.checkSessionAccess(testSessionId, "other_user", null);
+      const access = await repo.checkSessionAccess(testSessionId, "other_user", null);
       expect(access.hasAccess).toBe(false);
       expect(access.isOwner).toBe(false);
       expect(access.role).toBeNull();
     });
   });
+
+  describe("Repository-based access", () => {
+    const repoUrl = "https://github.com/acme/widgets";
+    const canRead = (allowed: boolean) => async (url: string) => allowed && url === repoUrl;
+
+    test("readers of the session's repository get viewer access", async () => {
+      await createTestSession(testSessionId, testUserId, "private", repoUrl);
+
+      expect(await repo.verifySessionAccess(testSessionId, "reader", null, null, canRead(true))).toEqual({
+        allowed: true,
+        isOwner: false,
+        role: "viewer",
+        canEdit: false,
+      });
+      expect((await repo.checkSessionAccess(testSessionId, "reader", null, canRead(true))).role).toBe("viewer");
+
+      expect((await repo.verifySessionAccess(testSessionId, "outsider", null, null, canRead(false))).allowed).toBe(false);
+      expect((await repo.verifySessionAccess(testSessionId, "reader", null, null)).allowed).toBe(false);
+    });
+
+    test("sessions without a repository aren't checked", async () => {
+      await createTestSession();
+      let checked = false;
+
+      const access = await repo.verifySessionAccess(testSessionId, "reader", null, null, async () => (checked = true));
+      expect(access.allowed).toBe(false);
+      expect(checked).toBe(false);
+    });
+
+    test("collaborator roles take precedence", async () => {
+      await createTestSession(testSessionId, testUserId, "private", repoUrl);
+      await repo.addCollaborator(testSessionId, "reader@example.com", "contributor", testUserId);
+
+      const access = await repo.verifySessionAccess(testSessionId, "reader", null, "reader@example.com", canRead(true));
+      expect(access).toMatchObject({ role: "contributor", canEdit: true });
+    });
+  });
 });
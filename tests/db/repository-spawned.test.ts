@@ -0,0 +1,77 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import { SessionRepository } from "../../src/db/repository";
+import { STORAGE_BACKENDS, useTestStorage } from "./storage-backends";
+
+describe.each(STORAGE_BACKENDS)("SessionRepository - Spawned Sessions (%s)", (backend) => {
+  const storage = useTestStorage(backend);
+  let repo: SessionRepository;
+
+  async function createSession(id: string) {
+    await repo.createSession({
+      id,
+      title: "Spawned",
+      description: null,
+      claude_session_id: null,
+      agent_session_id: null,
+      pr_url: null,
+      share_token: null,
+      project_path: "/tmp/project",
+      model: null,
+      harness: "claude-code",
+      repo_url: null,
+      branch: null,
+      status: "live",
+      visibility: "private",
+      last_activity_at: null,
+      interactive: true,
+      remote: true,
+      input_tokens: 0,
+      output_tokens: 0,
+      cache_creation_tokens: 0,
+      cache_read_tokens: 0,
+      redaction_count: 0,
+    });
+  }
+
+  beforeEach(() => {
+    repo = new SessionRepository(storage());
+  });
+
+  test("saves, replaces and deletes spawned session state", async () => {
+    await createSession("spawn_1");
+
+    await repo.saveSpawnedSession({
+      id: "spawn_1",
+      daemon_client_id: "daemon-1",
+      status: "starting",
+      state: { id: "spawn_1", cwd: "/tmp/project" },
+    });
+    await repo.saveSpawnedSession({
+      id: "spawn_1",
+      daemon_client_id: "daemon-2",
+      status: "running",
+      state: { id: "spawn_1", cwd: "/tmp/project", claudeSessionId: "claude-1" },
+    });
+
+    const saved = await repo.getSpawnedSessions();
+    expect(saved).toHaveLength(1);
+    expect(saved[0]).toMatchObject({
+      id: "spawn_1",
+      daemon_client_id: "daemon-2",
+      status: "running",
+      state: { id: "spawn_1", cwd: "/tmp/project", claudeSessionId: "claude-1" },
+    });
+
+    await repo.deleteSpawnedSession("spawn_1");
+    expect(await repo.getSpawnedSessions()).toEqual([]);
+  });
+
+  test("drops spawned session state with its session", async () => {
+    await createSession("spawn_2");
+    await repo.saveSpawnedSession({ id: "spawn_2", daemon_client_id: "daemon-1", status: "running", state: {} });
+
+    await repo.deleteSession("spawn_2");
+
+    expect(await repo.getSpawnedSessions()).toEqual([]);
+  });
+});
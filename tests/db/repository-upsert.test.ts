@@ -1,38 +1,23 @@
-import { describe, test, expect, beforeEach, afterEach } from "bun:test";
-import { Database } from "bun:sqlite";
-import { initializeDatabase } from "../../src/db/schema";
+import { describe, test, expect, beforeEach } from "bun:test";
 import { SessionRepository } from "../../src/db/repository";
-import { unlinkSync, existsSync } from "fs";
+import { STORAGE_BACKENDS, useTestStorage } from "./storage-backends";
 
-const TEST_DB_PATH = "data/test-upsert.db";
-
-describe("SessionRepository upsert", () => {
-  let db: Database;
+describe.each(STORAGE_BACKENDS)("SessionRepository upsert (%s)", (backend) => {
+  const storage = useTestStorage(backend);
   let repo: SessionRepository;
 
   beforeEach(() => {
-    if (existsSync(TEST_DB_PATH)) {
-      unlinkSync(TEST_DB_PATH);
-    }
-    db = initializeDatabase(TEST_DB_PATH);
-    repo = new SessionRepository(db);
-  });
-
-  afterEach(() => {
-    db.close();
-    if (existsSync(TEST_DB_PATH)) {
-      unlinkSync(TEST_DB_PATH);
-    }
+    repo = new SessionRepository(storage());
   });
 
   describe("getSessionByClaudeSessionId", () => {
-    test("returns error when no session exists", () => {
-      const result = repo.getSessionByClaudeSessionId("nonexistent-uuid");
+    test("returns error when no session exists", async () => {
+      const result = await repo.getSessionByClaudeSessionId("nonexistent-uuid");
       expect(result.isErr()).toBe(true);
     });
 
-    test("finds session by claude_session_id", () => {
-      repo.createSession({
+    test("finds session by claude_session_id", async () => {
+      await repo.createSession({
         id: "sess_123",
         title: "Test Session",
         description: null,
@@ -51,7 +36,7 @@ describe("SessionRepository upsert", () => {
         branch: null,
       });
 
-      const result = repo.getSessionByClaudeSessionId("uuid-12345");
+      const result = await repo.getSessionByClaudeSessionId("uuid-12345");
       expect(result.isOk()).toBe(true);
       const session = result.unwrap();
       expect(session.id).toBe("sess_123");
@@ -60,8 +45,8 @@ describe("SessionRepository upsert", () => {
   });
 
   describe("upsertSessionWithDataAndReview", () => {
-    test("creates new session when claude_session_id does not exist", () => {
-      const { session, isUpdate } = repo.upsertSessionWithDataAndReview(
+    test("creates new session when claude_session_id does not exist", async () => {
+      const { session, isUpdate } = await repo.upsertSessionWithDataAndReview(
         {
           id: "sess_new",
           title: "New Session",
@@ -99,14 +84,14 @@ describe("SessionRepository upsert", () => {
       expect(session.id).toBe("sess_new");
       expect(session.title).toBe("New Session");
 
-      const messages = repo.getMessages("sess_new");
+      const messages = await repo.getMessages("sess_new");
       expect(messages.length).toBe(1);
       expect(messages[0]!.content).toBe("Hello");
     });
 
-    test("updates existing session when claude_session_id matches", () => {
+    test("updates existing session when claude_session_id matches", async () => {
       // First, create initial session
-      repo.upsertSessionWithDataAndReview(
+      await repo.upsertSessionWithDataAndReview(
         {
           id: "sess_original",
           title: "Original Title",
@@ -141,7 +126,7 @@ describe("SessionRepository upsert", () => {
       );
 
       // Now upsert with same claude_session_id
-      const { session, isUpdate } = repo.upsertSessionWithDataAndReview(
+      const { session, isUpdate } = await repo.upsertSessionWithDataAndReview(
         {
           id: "sess_should_not_be_used",
           title: "Updated Title",
@@ -194,14 +179,14 @@ describe("SessionRepository upsert", () => {
       expect(session.model).toBe("claude-3");
 
       // Should have the new messages (old ones cleared)
-      const messages = repo.getMessages("sess_original");
+      const messages = await repo.getMessages("sess_original");
       expect(messages.length).toBe(2);
       expect(messages[0]!.content).toBe("Updated message 1");
       expect(messages[1]!.content).toBe("Updated message 2");
     });
 
-    test("creates new session when claude_session_id is null", () => {
-      const { session, isUpdate } = repo.upsertSessionWithDataAndReview(
+    test("creates new session when claude_session_id is null", async () => {
+      const { session, isUpdate } = await repo.upsertSessionWithDataAndReview(
         {
           id: "sess_no_uuid",
           title: "No UUID Session",
@@ -230,9 +215,9 @@ describe("SessionRepository upsert", () => {
       expect(session.id).toBe("sess_no_uuid");
     });
 
-    test("preserves existing diffs for touched files not covered by new diffs", () => {
+    test("preserves existing diffs for touched files not covered by new diffs", async () => {
       // First, create session with 4 diffs (simulating full diff from first upload)
-      repo.upsertSessionWithDataAndReview(
+      await repo.upsertSessionWithDataAndReview(
         {
           id: "sess_diffs",
           title: "Session with Diffs",
@@ -299,7 +284,7 @@ describe("SessionRepository upsert", () => {
       );
 
       // Verify initial state: 4 diffs
-      let diffs = repo.getDiffs("sess_diffs");
+      let diffs = await repo.getDiffs("sess_diffs");
       expect(diffs.length).toBe(4);
 
       // Now upsert with only 1 diff (simulating re-upload after some files were committed)
@@ -311,7 +296,7 @@ describe("SessionRepository upsert", () => {
         "tests/db/test.ts",
       ]);
 
-      const { session, isUpdate } = repo.upsertSessionWithDataAndReview(
+      const { session, isUpdate } = await repo.upsertSessionWithDataAndReview(
         {
           id: "sess_new_id",
           title: "Updated Session",
@@ -356,7 +341,7 @@ describe("SessionRepository upsert", () => {
       // Should have 4 diffs total:
       // - 1 new diff (repository.ts with updated content)
       // - 3 preserved diffs (schema.ts, api.ts, test.ts from existing)
-      diffs = repo.getDiffs("sess_diffs");
+      diffs = await repo.getDiffs("sess_diffs");
       expect(diffs.length).toBe(4);
 
       // The new repository.ts diff should have the updated content
@@ -379,9 +364,9 @@ describe("SessionRepository upsert", () => {
       expect(testDiff!.diff_content).toContain("test changes");
     });
 
-    test("does not preserve diffs for files not in touchedFiles", () => {
+    test("does not preserve diffs for files not in touchedFiles", async () => {
       // Create session with a diff for a file that won't be in touchedFiles
-      repo.upsertSessionWithDataAndReview(
+      await repo.upsertSessionWithDataAndReview(
         {
           id: "sess_extra",
           title: "Session with Extra Diff",
@@ -430,7 +415,7 @@ describe("SessionRepository upsert", () => {
       // Upsert with empty diffs but touchedFiles only includes file1.ts
       const touchedFiles = new Set(["src/file1.ts"]);
 
-      repo.upsertSessionWithDataAndReview(
+      await repo.upsertSessionWithDataAndReview(
         {
           id: "sess_new",
           title: "Updated",
@@ -459,35 +444,24 @@ describe("SessionRepository upsert", () => {
 
       // Should only preserve file1.ts (which is in touchedFiles)
       // unrelated.ts should NOT be preserved (not in touchedFiles)
-      const diffs = repo.getDiffs("sess_extra");
+      const diffs = await repo.getDiffs("sess_extra");
       expect(diffs.length).toBe(1);
       expect(diffs[0]!.filename).toBe("src/file1.ts");
     });
   });
 });
 
-describe("SessionRepository updateSession - metadata fields", () => {
-  let db: Database;
+describe.each(STORAGE_BACKENDS)("SessionRepository updateSession - metadata fields (%s)", (backend) => {
+  const storage = useTestStorage(backend);
   let repo: SessionRepository;
 
   beforeEach(() => {
-    if (existsSync(TEST_DB_PATH)) {
-      unlinkSync(TEST_DB_PATH);
-    }
-    db = initializeDatabase(TEST_DB_PATH);
-    repo = new SessionRepository(db);
+    repo = new SessionRepository(storage());
   });
 
-  afterEach(() => {
-    db.close();
-    if (existsSync(TEST_DB_PATH)) {
-      unlinkSync(TEST_DB_PATH);
-    }
-  });
-
-  test("updates branch field", () => {
+  test("updates branch field", async () => {
     // Create a session
-    repo.createSession({
+    await repo.createSession({
       id: "sess_branch_test",
       title: "Branch Test Session",
       description: null,
@@ -507,7 +481,7 @@ describe("SessionRepository updateSession - metadata fields", () => {
     });
 
     // Update with branch
-    const updateResult = repo.updateSession("sess_branch_test", {
+    const updateResult = await repo.updateSession("sess_branch_test", {
       branch: "feature/new-feature",
     });
 
@@ -516,13 +490,13 @@ describe("SessionRepository updateSession - metadata fields", () => {
     expect(updated.branch).toBe("feature/new-feature");
 
     // Verify it persists
-    const fetchResult = repo.getSession("sess_branch_test");
+    const fetchResult = await repo.getSession("sess_branch_test");
     expect(fetchResult.isOk()).toBe(true);
     expect(fetchResult.unwrap().branch).toBe("feature/new-feature");
   });
 
-  test("updates agent_session_id field", () => {
-    repo.createSession({
+  test("updates agent_session_id field", async () => {
+    await repo.createSession({
       id: "sess_agent_test",
       title: "Agent Session Test",
       description: null,
@@ -541,7 +515,7 @@ describe("SessionRepository updateSession - metadata fields", () => {
       branch: null,
     });
 
-    const updateResult = repo.updateSession("sess_agent_test", {
+    const updateResult = await repo.updateSession("sess_agent_test", {
       agent_session_id: "claude-xyz-123",
     });
 
@@ -549,8 +523,8 @@ describe("SessionRepository updateSession - metadata fields", () => {
     expect(updateResult.unwrap().agent_session_id).toBe("claude-xyz-123");
   });
 
-  test("updates multiple metadata fields at once", () => {
-    repo.createSession({
+  test("updates multiple metadata fields at once", async () => {
+    await repo.createSession({
       id: "sess_multi_update",
       title: "Multi Update Test",
       description: null,
@@ -569,7 +543,7 @@ describe("SessionRepository updateSession - metadata fields", () => {
       branch: null,
     });
 
-    const updateResult = repo.updateSession("sess_multi_update", {
+    const updateResult = await repo.updateSession("sess_multi_update", {
       agent_session_id: "agent-abc",
       repo_url: "https://github.com/test/repo",
       branch: "main",
@@ -582,3 +556,222 @@ describe("SessionRepository updateSession - metadata fields", () => {
     expect(updated.branch).toBe("main");
   });
 });
+
+describe.each(STORAGE_BACKENDS)("SessionRepository session commits (%s)", (backend) => {
+  const storage = useTestStorage(backend);
+  let repo: SessionRepository;
+
+  beforeEach(async () => {
+    repo = new SessionRepository(storage());
+    await repo.createSession({
+      id: "sess_commits",
+      title: "Commits Session",
+      description: null,
+      claude_session_id: null,
+      pr_url: null,
+      share_token: null,
+      project_path: "/test/path",
+      model: null,
+      harness: "claude-code",
+      repo_url: null,
+      status: "live",
+      last_activity_at: null,
+      interactive: false,
+      remote: false,
+      agent_session_id: null,
+      branch: null,
+    });
+  });
+
+  const commit = (sha: string, message: string) => ({
+    sha: sha.repeat(40),
+    message,
+    author: "Dev",
+    committed_at: "2024-01-01T00:00:00Z",
+  });
+
+  test("records the base and head commits and lists commits in order", async () => {
+    await repo.setSessionCommits("sess_commits", "a".repeat(40), "c".repeat(40), [
+      commit("b", "Add parser"),
+      commit("c", "Fix parser\n\nHandle empty input"),
+    ]);
+
+    const session = (await repo.getSession("sess_commits")).unwrap();
+    expect(session.base_sha).toBe("a".repeat(40));
+    expect(session.head_sha).toBe("c".repeat(40));
+
+    const commits = await repo.getSessionCommits("sess_commits");
+    expect(commits.map((c) => c.message)).toEqual(["Add parser", "Fix parser\n\nHandle empty input"]);
+    expect(commits.map((c) => c.commit_index)).toEqual([0, 1]);
+  });
+
+  test("replaces the commit list on each update", async () => {
+    await repo.setSessionCommits("sess_commits", "a".repeat(40), "b".repeat(40), [commit("b", "Add parser")]);
+    await repo.setSessionCommits("sess_commits", "d".repeat(40), "d".repeat(40), []);
+
+    expect(await repo.getSessionCommits("sess_commits")).toEqual([]);
+    expect((await repo.getSession("sess_commits")).unwrap().base_sha).toBe("d".repeat(40));
+  });
+});
+
+describe.each(STORAGE_BACKENDS)("SessionRepository diff snapshots (%s)", (backend) => {
+  const storage = useTestStorage(backend);
+  let repo: SessionRepository;
+
+  beforeEach(async () => {
+    repo = new SessionRepository(storage());
+    await repo.createSession({
+      id: "sess_snapshots",
+      title: "Snapshots Session",
+      description: null,
+      claude_session_id: null,
+      pr_url: null,
+      share_token: null,
+      project_path: "/test/path",
+      model: null,
+      harness: "claude-code",
+      repo_url: null,
+      status: "live",
+      last_activity_at: null,
+      interactive: false,
+      remote: false,
+      agent_session_id: null,
+      branch: null,
+    });
+  });
+
+  const diff = (filename: string, content: string, additions: number) => ({
+    filename,
+    diff_content: content,
+    diff_index: 0,
+    additions,
+    deletions: 0,
+    is_session_relevant: true,
+    status: "modified" as const,
+  });
+
+  test("returns the latest snapshot at or before a message", async () => {
+    await repo.saveDiffSnapshot("sess_snapshots", 2, [diff("a.ts", "+one", 1)]);
+    await repo.saveDiffSnapshot("sess_snapshots", 5, [diff("a.ts", "+one\n+two", 2), diff("b.ts", "+b", 1)]);
+
+    expect(await repo.getDiffSnapshotAt("sess_snapshots", 1)).toBeNull();
+    expect((await repo.getDiffSnapshotAt("sess_snapshots", 4))!.files.map((f) => f.diff_content)).toEqual(["+one"]);
+
+    const latest = (await repo.getDiffSnapshotAt("sess_snapshots", 9))!;
+    expect(latest.message_index).toBe(5);
+    expect(latest.files).toHaveLength(2);
+
+    const summaries = await repo.getDiffSnapshots("sess_snapshots");
+    expect(summaries.map((s) => [s.message_index, s.files_changed, s.additions])).toEqual([
+      [2, 1, 1],
+      [5, 2, 3],
+    ]);
+  });
+
+  test("replaces a snapshot for the same message and skips unchanged ones", async () => {
+    expect(await repo.saveDiffSnapshot("sess_snapshots", 2, [diff("a.ts", "+one", 1)])).toBe(true);
+    expect(await repo.saveDiffSnapshot("sess_snapshots", 2, [diff("a.ts", "+uno", 1)])).toBe(true);
+    expect(await repo.saveDiffSnapshot("sess_snapshots", 4, [diff("a.ts", "+uno", 1)])).toBe(false);
+
+    const summaries = await repo.getDiffSnapshots("sess_snapshots");
+    expect(summaries.map((s) => s.message_index)).toEqual([2]);
+    expect((await repo.getDiffSnapshotAt("sess_snapshots", 2))!.files[0]!.diff_content).toBe("+uno");
+  });
+});
+
+describe.each(STORAGE_BACKENDS)("SessionRepository review versions (%s)", (backend) => {
+  const storage = useTestStorage(backend);
+  let repo: SessionRepository;
+
+  beforeEach(async () => {
+    repo = new SessionRepository(storage());
+    await repo.createSession({
+      id: "sess_review",
+      title: "Review Session",
+      description: null,
+      claude_session_id: null,
+      pr_url: null,
+      share_token: null,
+      project_path: "/test/path",
+      model: null,
+      harness: "claude-code",
+      repo_url: null,
+      status: "archived",
+      last_activity_at: null,
+      interactive: false,
+      remote: false,
+      agent_session_id: null,
+      branch: null,
+    });
+    await repo.addDiffs([
+      {
+        session_id: "sess_review",
+        filename: "src/a.ts",
+        diff_content: "@@ -0,0 +1,2 @@\n+const a = 1;\n+const b = 2;",
+        diff_index: 0,
+        additions: 2,
+        deletions: 0,
+        is_session_relevant: true,
+        status: "modified",
+      },
+    ]);
+  });
+
+  const annotation = (filename: string, content: string, lineNumber = 1) => ({
+    filename,
+    line_number: lineNumber,
+    side: "additions" as const,
+    annotation_type: "issue" as const,
+    content,
+  });
+
+  test("adds each review as the next version and keeps earlier ones", async () => {
+    await repo.addReview("sess_review", {
+      summary: "First pass",
+      model: "claude",
+      prompt_hash: "abc123",
+      annotations: [annotation("src/a.ts", "Old finding")],
+    });
+    const second = await repo.addReview("sess_review", {
+      summary: "Second pass",
+      model: "claude",
+      annotations: [annotation("src/a.ts", "New finding"), annotation("src/a.ts", "Another", 2)],
+    });
+
+    expect(second.version).toBe(2);
+    const latest = (await repo.getReviewWithCount("sess_review")).unwrap();
+    expect(latest).toMatchObject({ id: second.id, summary: "Second pass", annotation_count: 2 });
+    expect((await repo.getReview("sess_review")).unwrap().id).toBe(second.id);
+
+    const reviews = await repo.getReviews("sess_review");
+    expect(reviews.map((r) => [r.version, r.prompt_hash, r.annotation_count])).toEqual([
+      [2, null, 2],
+      [1, "abc123", 1],
+    ]);
+    const first = (await repo.getReviewWithCount("sess_review", 1)).unwrap();
+    expect((await repo.getAnnotationsByReview(first.id)).map((a) => a.content)).toEqual(["Old finding"]);
+    expect((await repo.getReviewWithCount("sess_review", 3)).isErr()).toBe(true);
+  });
+
+  test("records the file and line text of annotations", async () => {
+    const review = await repo.addReview("sess_review", {
+      summary: "Review",
+      annotations: [annotation("src/a.ts", "Kept", 2), annotation("src/missing.ts", "Dropped")],
+    });
+
+    const [stored, ...rest] = await repo.getAnnotationsByReview(review.id);
+    expect(rest).toEqual([]);
+    expect(stored).toMatchObject({ filename: "src/a.ts", line_number: 2, line_content: "const b = 2;" });
+  });
+
+  test("keeps annotations when the diff is replaced", async () => {
+    const review = await repo.addReview("sess_review", {
+      summary: "Review",
+      annotations: [annotation("src/a.ts", "Finding")],
+    });
+    await repo.clearDiffs("sess_review");
+
+    const [stored] = await repo.getAnnotationsByReview(review.id);
+    expect(stored).toMatchObject({ diff_id: null, filename: "src/a.ts", content: "Finding" });
+  });
+});
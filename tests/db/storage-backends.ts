@@ -0,0 +1,75 @@
+import { beforeAll, beforeEach, afterEach, afterAll } from "bun:test";
+import { PGlite, type Transaction } from "@electric-sql/pglite";
+import type { StorageDriver } from "../../src/db/driver";
+import { runPostgresMigrations } from "../../src/db/migrate";
+import { connectPostgres, PostgresDriver, type PgClient } from "../../src/db/postgres-driver";
+import { initializeDatabase } from "../../src/db/schema";
+import { SqliteDriver } from "../../src/db/sqlite-driver";
+
+/**
+ * Storage backends the repository suites run against.
+ *
+ * Postgres uses TEST_DATABASE_URL when set (e.g. a local container) and an
+ * embedded in-memory Postgres (PGlite) otherwise.
+ */
+export type StorageBackend = "sqlite" | "postgres";
+
+export const STORAGE_BACKENDS: StorageBackend[] = ["sqlite", "postgres"];
+
+/**
+ * Adapt an embedded Postgres (PGlite) to the client interface PostgresDriver uses.
+ */
+export function pgliteClient(db: PGlite | Transaction): PgClient {
+  return {
+    async query<T>(sql: string, params: (string | number | null)[]) {
+      const result = await db.query<T>(sql, params);
+      return { rows: result.rows, affectedRows: result.affectedRows ?? 0 };
+    },
+    transaction<T>(fn: (tx: PgClient) => Promise<T>): Promise<T> {
+      if (!(db instanceof PGlite)) return fn(this);
+      return db.transaction((tx) => fn(pgliteClient(tx)));
+    },
+    async close() {
+      if (db instanceof PGlite) await db.close();
+    },
+  };
+}
+
+async function resetPostgres(driver: StorageDriver): Promise<void> {
+  const tables = await driver.all<{ tablename: string }>(
+    "SELECT tablename FROM pg_tables WHERE schemaname = current_schema() AND tablename != 'schema_migrations'"
+  );
+  await driver.run(`TRUNCATE ${tables.map((t) => t.tablename).join(", ")} RESTART IDENTITY CASCADE`);
+}
+
+/**
+ * Register hooks that give every test an empty, fully migrated database on `backend`.
+ * Returns a getter for the current test's driver.
+ */
+export function useTestStorage(backend: StorageBackend): () => StorageDriver {
+  let driver: StorageDriver | undefined;
+
+  if (backend === "sqlite") {
+    beforeEach(() => {
+      driver = new SqliteDriver(initializeDatabase(":memory:"));
+    });
+    afterEach(async () => {
+      await driver?.close();
+    });
+  } else {
+    // Starting Postgres is slow, so one database serves the whole suite and is emptied between tests
+    beforeAll(async () => {
+      const url = process.env.TEST_DATABASE_URL;
+      driver = url ? connectPostgres(url) : new PostgresDriver(pgliteClient(new PGlite()));
+      await runPostgresMigrations(driver);
+    });
+    beforeEach(async () => {
+      await resetPostgres(driver!);
+    });
+    afterAll(async () => {
+      await driver?.close();
+    });
+  }
+
+  return () => driver!;
+}
@@ -0,0 +1,75 @@
+-- Snapshot of a database created before the migration runner: the layout as of
+-- live streaming support (no agent_session_id, token usage, feedback, analytics,
+-- sharing, touched_files or search index), with a little data.
+
+CREATE TABLE sessions (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT,
+  claude_session_id TEXT,
+  pr_url TEXT,
+  share_token TEXT UNIQUE,
+  project_path TEXT,
+  created_at TEXT DEFAULT (datetime('now', 'utc')),
+  updated_at TEXT DEFAULT (datetime('now', 'utc'))
+, model TEXT, harness TEXT, repo_url TEXT, status TEXT DEFAULT 'archived', last_activity_at TEXT, stream_token_hash TEXT, client_id TEXT);
+
+CREATE TABLE messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  role TEXT NOT NULL,
+  content TEXT NOT NULL,
+  timestamp TEXT,
+  message_index INTEGER, content_blocks TEXT DEFAULT '[]',
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
+CREATE TABLE diffs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  filename TEXT,
+  diff_content TEXT NOT NULL,
+  diff_index INTEGER DEFAULT 0, additions INTEGER DEFAULT 0, deletions INTEGER DEFAULT 0, is_session_relevant INTEGER DEFAULT 1, status TEXT DEFAULT 'modified',
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
+CREATE TABLE reviews (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL UNIQUE,
+  summary TEXT NOT NULL,
+  model TEXT,
+  created_at TEXT DEFAULT (datetime('now', 'utc')),
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
+CREATE TABLE annotations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  review_id INTEGER NOT NULL,
+  diff_id INTEGER NOT NULL,
+  line_number INTEGER NOT NULL,
+  side TEXT NOT NULL DEFAULT 'additions',
+  annotation_type TEXT NOT NULL,
+  content TEXT NOT NULL,
+  FOREIGN KEY (review_id) REFERENCES reviews(id) ON DELETE CASCADE,
+  FOREIGN KEY (diff_id) REFERENCES diffs(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_messages_session ON messages(session_id);
+CREATE INDEX idx_diffs_session ON diffs(session_id);
+CREATE INDEX idx_sessions_share_token ON sessions(share_token);
+CREATE INDEX idx_reviews_session ON reviews(session_id);
+CREATE INDEX idx_annotations_review ON annotations(review_id);
+CREATE INDEX idx_annotations_diff ON annotations(diff_id);
+CREATE INDEX idx_sessions_status ON sessions(status);
+CREATE INDEX idx_sessions_client_id ON sessions(client_id);
+
+INSERT INTO sessions (id, title, claude_session_id, project_path, status, client_id)
+VALUES ('legacy1', 'Fix flaky login test', 'claude-abc', '/home/dev/app', 'archived', 'client-1');
+
+INSERT INTO messages (session_id, role, content, message_index, content_blocks) VALUES
+  ('legacy1', 'user', 'The login test times out', 0, '[{"type":"text","text":"The login test times out"}]'),
+  ('legacy1', 'assistant', 'Raising the timeout', 1, '[{"type":"tool_use","id":"t1","name":"Edit","input":{"file_path":"login.test.ts"}}]');
+
+INSERT INTO diffs (session_id, filename, diff_content, diff_index, additions, deletions) VALUES
+  ('legacy1', 'login.test.ts', '-timeout(1000)
++timeout(5000)', 0, 1, 1);
@@ -65,8 +65,8 @@ describe("Auth Flows - Dual Ownership Model", () => {
   });
 
   describe("verifyOwnership - dual ownership", () => {
-    test("allows access by user_id match", () => {
-      const session = repo.createSession(
+    test("allows access by user_id match", async () => {
+      const session = await repo.createSession(
         {
           id: "test_session",
           title: "Test",
@@ -90,13 +90,13 @@ describe("Auth Flows - Dual Ownership Model", () => {
       );
 
       // User ID match should work - Result.isOk() means allowed
-      const result = repo.verifyOwnership(session.id, "user-456", null);
+      const result = await repo.verifyOwnership(session.id, "user-456", null);
       expect(result.isOk()).toBe(true);
       expect(result.unwrap().isOwner).toBe(true);
     });
 
-    test("allows access by client_id match", () => {
-      const session = repo.createSession(
+    test("allows access by client_id match", async () => {
+      const session = await repo.createSession(
         {
           id: "test_session",
           title: "Test",
@@ -120,13 +120,13 @@ describe("Auth Flows - Dual Ownership Model", () => {
       );
 
       // Client ID match should work
-      const result = repo.verifyOwnership(session.id, null, "client-123");
+      const result = await repo.verifyOwnership(session.id, null, "client-123");
       expect(result.isOk()).toBe(true);
       expect(result.unwrap().isOwner).toBe(true);
     });
 
-    test("denies access when neither user_id nor client_id match", () => {
-      const session = repo.createSession(
+    test("denies access when neither user_id nor client_id match", async () => {
+      const session = await repo.createSession(
         {
           id: "test_session",
           title: "Test",
@@ -150,13 +150,13 @@ describe("Auth Flows - Dual Ownership Model", () => {
       );
 
       // Neither match should deny - Result.isErr() means not allowed
-      const result = repo.verifyOwnership(session.id, "other-user", "other-client");
+      const result = await repo.verifyOwnership(session.id, "other-user", "other-client");
       expect(result.isErr()).toBe(true);
     });
 
-    test("denies access to legacy sessions without matching owner", () => {
+    test("denies access to legacy sessions without matching owner", async () => {
       // Session with no user_id or client_id (legacy)
-      const session = repo.createSession({
+      const session = await repo.createSession({
         id: "legacy_session",
         title: "Legacy",
         description: null,
@@ -176,65 +176,65 @@ describe("Auth Flows - Dual Ownership Model", () => {
       });
 
       // Legacy sessions should NOT be accessible without matching owner
-      const resultWithUser = repo.verifyOwnership(session.id, "any-user", null);
+      const resultWithUser = await repo.verifyOwnership(session.id, "any-user", null);
       expect(resultWithUser.isErr()).toBe(true);
 
-      const resultWithClient = repo.verifyOwnership(session.id, null, "any-client");
+      const resultWithClient = await repo.verifyOwnership(session.id, null, "any-client");
       expect(resultWithClient.isErr()).toBe(true);
     });
   });
 
   describe("getAccessibleSessions - filtering", () => {
-    beforeEach(() => {
+    beforeEach(async () => {
       // Create sessions with various ownership
-      repo.createSession(
+      await repo.createSession(
         { id: "s1", title: "User A Client 1", description: null, claude_session_id: null, pr_url: null, share_token: null, project_path: "/tmp", model: null, harness: null, repo_url: null, status: "complete", last_activity_at: null, interactive: false, remote: false, agent_session_id: null, branch: null },
         "client-1",
         "user-a"
       );
-      repo.createSession(
+      await repo.createSession(
         { id: "s2", title: "User A Client 2", description: null, claude_session_id: null, pr_url: null, share_token: null, project_path: "/tmp", model: null, harness: null, repo_url: null, status: "complete", last_activity_at: null, interactive: false, remote: false, agent_session_id: null, branch: null },
         "client-2",
         "user-a"
       );
-      repo.createSession(
+      await repo.createSession(
         { id: "s3", title: "User B Client 1", description: null, claude_session_id: null, pr_url: null, share_token: null, project_path: "/tmp", model: null, harness: null, repo_url: null, status: "complete", last_activity_at: null, interactive: false, remote: false, agent_session_id: null, branch: null },
         "client-1",
         "user-b"
       );
-      repo.createSession(
+      await repo.createSession(
         { id: "s4", title: "Client 1 only", description: null, claude_session_id: null, pr_url: null, share_token: null, project_path: "/tmp", model: null, harness: null, repo_url: null, status: "complete", last_activity_at: null, interactive: false, remote: false, agent_session_id: null, branch: null },
         "client-1"
       );
     });
 
-    test("returns sessions for user_id only", () => {
-      const sessions = repo.getAccessibleSessions("user-a", undefined);
+    test("returns sessions for user_id only", async () => {
+      const sessions = await repo.getAccessibleSessions("user-a", undefined);
       expect(sessions).toHaveLength(2);
       expect(sessions.map(s => s.id).sort()).toEqual(["s1", "s2"]);
     });
 
-    test("returns sessions for client_id only", () => {
-      const sessions = repo.getAccessibleSessions(undefined, "client-1");
+    test("returns sessions for client_id only", async () => {
+      const sessions = await repo.getAccessibleSessions(undefined, "client-1");
       expect(sessions).toHaveLength(3);
       expect(sessions.map(s => s.id).sort()).toEqual(["s1", "s3", "s4"]);
     });
 
-    test("returns sessions for both user_id and client_id", () => {
-      const sessions = repo.getAccessibleSessions("user-a", "client-1");
+    test("returns sessions for both user_id and client_id", async () => {
+      const sessions = await repo.getAccessibleSessions("user-a", "client-1");
       // Should return sessions owned by user-a OR client-1
       expect(sessions).toHaveLength(4);
     });
 
-    test("returns empty for no identity", () => {
-      const sessions = repo.getAccessibleSessions(undefined, undefined);
+    test("returns empty for no identity", async () => {
+      const sessions = await repo.getAccessibleSessions(undefined, undefined);
       expect(sessions).toHaveLength(0);
     });
   });
 
   describe("session upload with user ID", () => {
-    test("upsertSessionWithDataAndReview stores user_id when provided", () => {
-      const { session } = repo.upsertSessionWithDataAndReview(
+    test("upsertSessionWithDataAndReview stores user_id when provided", async () => {
+      const { session } = await repo.upsertSessionWithDataAndReview(
         {
           id: "upload_test_session",
           title: "Uploaded Session",
@@ -265,13 +265,13 @@ describe("Auth Flows - Dual Ownership Model", () => {
       expect(session.user_id).toBe("upload-user-456");
 
       // Verify the session can be accessed by user_id
-      const result = repo.verifyOwnership(session.id, "upload-user-456", null);
+      const result = await repo.verifyOwnership(session.id, "upload-user-456", null);
       expect(result.isOk()).toBe(true);
       expect(result.unwrap().isOwner).toBe(true);
     });
 
-    test("upsertSessionWithDataAndReview works without user_id (client-only upload)", () => {
-      const { session } = repo.upsertSessionWithDataAndReview(
+    test("upsertSessionWithDataAndReview works without user_id (client-only upload)", async () => {
+      const { session } = await repo.upsertSessionWithDataAndReview(
         {
           id: "client_only_upload",
           title: "Client-Only Upload",
@@ -300,75 +300,75 @@ describe("Auth Flows - Dual Ownership Model", () => {
       expect(session.user_id).toBeNull();
 
       // Can still access by client_id
-      const result = repo.verifyOwnership(session.id, null, "client-only-123");
+      const result = await repo.verifyOwnership(session.id, null, "client-only-123");
       expect(result.isOk()).toBe(true);
     });
   });
 
   describe("session claiming", () => {
-    beforeEach(() => {
+    beforeEach(async () => {
       // Create unclaimed sessions (client_id only, no user_id)
-      repo.createSession(
+      await repo.createSession(
         { id: "unclaimed1", title: "Unclaimed 1", description: null, claude_session_id: null, pr_url: null, share_token: null, project_path: "/tmp", model: null, harness: null, repo_url: null, status: "complete", last_activity_at: null, interactive: false, remote: false, agent_session_id: null, branch: null },
         "device-client"
       );
-      repo.createSession(
+      await repo.createSession(
         { id: "unclaimed2", title: "Unclaimed 2", description: null, claude_session_id: null, pr_url: null, share_token: null, project_path: "/tmp", model: null, harness: null, repo_url: null, status: "complete", last_activity_at: null, interactive: false, remote: false, agent_session_id: null, branch: null },
         "device-client"
       );
       // Already claimed session
-      repo.createSession(
+      await repo.createSession(
         { id: "claimed", title: "Already Claimed", description: null, claude_session_id: null, pr_url: null, share_token: null, project_path: "/tmp", model: null, harness: null, repo_url: null, status: "complete", last_activity_at: null, interactive: false, remote: false, agent_session_id: null, branch: null },
         "device-client",
         "existing-user"
       );
     });
 
-    test("getUnclaimedSessions returns only sessions without user_id", () => {
-      const unclaimed = repo.getUnclaimedSessions("device-client");
+    test("getUnclaimedSessions returns only sessions without user_id", async () => {
+      const unclaimed = await repo.getUnclaimedSessions("device-client");
       expect(unclaimed).toHaveLength(2);
       expect(unclaimed.map(s => s.id).sort()).toEqual(["unclaimed1", "unclaimed2"]);
     });
 
-    test("getUnclaimedSessions returns empty for other client", () => {
-      const unclaimed = repo.getUnclaimedSessions("other-client");
+    test("getUnclaimedSessions returns empty for other client", async () => {
+      const unclaimed = await repo.getUnclaimedSessions("other-client");
       expect(unclaimed).toHaveLength(0);
     });
 
-    test("claimSessions assigns user_id to unclaimed sessions", () => {
-      const claimed = repo.claimSessions("device-client", "new-user");
+    test("claimSessions assigns user_id to unclaimed sessions", async () => {
+      const claimed = await repo.claimSessions("device-client", "new-user");
       expect(claimed).toBe(2);
 
       // Verify the sessions are now claimed
-      const session1Result = repo.getSession("unclaimed1");
+      const session1Result = await repo.getSession("unclaimed1");
       expect(session1Result.isOk()).toBe(true);
       expect(session1Result.unwrap().user_id).toBe("new-user");
 
-      const session2Result = repo.getSession("unclaimed2");
+      const session2Result = await repo.getSession("unclaimed2");
       expect(session2Result.isOk()).toBe(true);
       expect(session2Result.unwrap().user_id).toBe("new-user");
 
       // Already claimed session should not change
-      const claimedResult = repo.getSession("claimed");
+      const claimedResult = await repo.getSession("claimed");
       expect(claimedResult.isOk()).toBe(true);
       expect(claimedResult.unwrap().user_id).toBe("existing-user");
     });
 
-    test("claimSessions returns 0 when no unclaimed sessions", () => {
-      const claimed = repo.claimSessions("nonexistent-client", "new-user");
+    test("claimSessions returns 0 when no unclaimed sessions", async () => {
+      const claimed = await repo.claimSessions("nonexistent-client", "new-user");
       expect(claimed).toBe(0);
     });
 
-    test("setSessionUserId updates single session", () => {
-      const result = repo.setSessionUserId("unclaimed1", "specific-user");
+    test("setSessionUserId updates single session", async () => {
+      const result = await repo.setSessionUserId("unclaimed1", "specific-user");
       expect(result).toBe(true);
 
-      const sessionResult = repo.getSession("unclaimed1");
+      const sessionResult = await repo.getSession("unclaimed1");
       expect(sessionResult.isOk()).toBe(true);
       expect(sessionResult.unwrap().user_id).toBe("specific-user");
 
       // Other session should remain unclaimed
-      const otherResult = repo.getSession("unclaimed2");
+      const otherResult = await repo.getSession("unclaimed2");
       expect(otherResult.isOk()).toBe(true);
       expect(otherResult.unwrap().user_id).toBeNull();
     });
@@ -505,7 +505,7 @@ describe.skip("Auth Flows - Clerk Integration", () => {
 
   test("authenticated user can list unclaimed sessions", async () => {
     // Create unclaimed sessions
-    repo.createSession(
+    await repo.createSession(
       { id: "test1", title: "Test", description: null, claude_session_id: null, pr_url: null, share_token: null, project_path: "/tmp", model: null, harness: null, repo_url: null, status: "complete", last_activity_at: null, interactive: false, remote: false, agent_session_id: null, branch: null },
       "test-client"
     );
@@ -523,7 +523,7 @@ describe.skip("Auth Flows - Clerk Integration", () => {
   });
 
   test("authenticated user can claim sessions", async () => {
-    repo.createSession(
+    await repo.createSession(
       { id: "test1", title: "Test", description: null, claude_session_id: null, pr_url: null, share_token: null, project_path: "/tmp", model: null, harness: null, repo_url: null, status: "complete", last_activity_at: null, interactive: false, remote: false, agent_session_id: null, branch: null },
       "test-client"
     );
@@ -541,7 +541,7 @@ describe.skip("Auth Flows - Clerk Integration", () => {
     expect(data.claimed).toBe(1);
 
     // Verify session is now owned by user
-    const sessionResult = repo.getSession("test1");
+    const sessionResult = await repo.getSession("test1");
     expect(sessionResult.isOk()).toBe(true);
     expect(sessionResult.unwrap().user_id).toBe(TEST_USER_ID);
   });
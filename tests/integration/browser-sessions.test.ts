@@ -898,7 +898,7 @@ describe("Browser-Initiated Sessions Integration", () => {
       const { session_id } = await spawnRes.json();
 
       // Verify session exists in DB
-      const dbSessionResult = repo.getSession(session_id);
+      const dbSessionResult = await repo.getSession(session_id);
       expect(dbSessionResult.isOk()).toBe(true);
       const dbSession = dbSessionResult.unwrap();
       expect(dbSession.status).toBe("live");
@@ -923,7 +923,7 @@ describe("Browser-Initiated Sessions Integration", () => {
       });
 
       const { session_id } = await spawnRes.json();
-      const dbSessionResult = repo.getSession(session_id);
+      const dbSessionResult = await repo.getSession(session_id);
       expect(dbSessionResult.isOk()).toBe(true);
       const dbSession = dbSessionResult.unwrap();
 
@@ -942,7 +942,7 @@ describe("Browser-Initiated Sessions Integration", () => {
       const { session_id } = await spawnRes.json();
 
       // Simulate message storage (normally done by server.ts when receiving session_output)
-      repo.addMessagesWithIndices(session_id, [
+      await repo.addMessagesWithIndices(session_id, [
         {
           session_id,
           role: "user",
@@ -960,7 +960,7 @@ describe("Browser-Initiated Sessions Integration", () => {
       ]);
 
       // Verify messages are in DB
-      const messages = repo.getMessages(session_id);
+      const messages = await repo.getMessages(session_id);
       expect(messages.length).toBe(2);
       expect(messages[0]!.role).toBe("user");
       expect(messages[0]!.content).toBe("Test prompt");
@@ -980,7 +980,7 @@ describe("Browser-Initiated Sessions Integration", () => {
       const { session_id } = await spawnRes.json();
 
       // Simulate diff storage (normally done by server.ts when receiving session_diff)
-      repo.addDiffs([
+      await repo.addDiffs([
         {
           session_id,
           filename: "src/feature.ts",
@@ -997,7 +997,7 @@ describe("Browser-Initiated Sessions Integration", () => {
       ]);
 
       // Verify diffs are in DB
-      const diffs = repo.getDiffs(session_id);
+      const diffs = await repo.getDiffs(session_id);
       expect(diffs.length).toBe(1);
       expect(diffs[0]!.filename).toBe("src/feature.ts");
       expect(diffs[0]!.additions).toBe(3);
@@ -1017,15 +1017,15 @@ describe("Browser-Initiated Sessions Integration", () => {
       const { session_id } = await spawnRes.json();
 
       // Verify initial status
-      let dbSessionResult = repo.getSession(session_id);
+      let dbSessionResult = await repo.getSession(session_id);
       expect(dbSessionResult.isOk()).toBe(true);
       expect(dbSessionResult.unwrap().status).toBe("live");
 
       // Simulate session ending (normally done by server.ts when receiving session_ended)
-      repo.updateSession(session_id, { status: "complete" });
+      await repo.updateSession(session_id, { status: "complete" });
 
       // Verify status changed
-      dbSessionResult = repo.getSession(session_id);
+      dbSessionResult = await repo.getSession(session_id);
       expect(dbSessionResult.isOk()).toBe(true);
       expect(dbSessionResult.unwrap().status).toBe("complete");
     });
@@ -1042,15 +1042,15 @@ describe("Browser-Initiated Sessions Integration", () => {
       const { session_id } = await spawnRes.json();
 
       // Initially no claude session ID
-      let dbSessionResult = repo.getSession(session_id);
+      let dbSessionResult = await repo.getSession(session_id);
       expect(dbSessionResult.isOk()).toBe(true);
       expect(dbSessionResult.unwrap().claude_session_id).toBeNull();
 
       // Simulate claude session init (normally done by server.ts when receiving system/init message)
-      repo.updateSession(session_id, { claude_session_id: "claude-abc-123" });
+      await repo.updateSession(session_id, { claude_session_id: "claude-abc-123" });
 
       // Verify claude session ID is stored
-      dbSessionResult = repo.getSession(session_id);
+      dbSessionResult = await repo.getSession(session_id);
       expect(dbSessionResult.isOk()).toBe(true);
       expect(dbSessionResult.unwrap().claude_session_id).toBe("claude-abc-123");
     });
@@ -1067,7 +1067,7 @@ describe("Browser-Initiated Sessions Integration", () => {
       const { session_id } = await spawnRes.json();
 
       // Add messages to DB
-      repo.addMessagesWithIndices(session_id, [
+      await repo.addMessagesWithIndices(session_id, [
         {
           session_id,
           role: "user",
@@ -1085,7 +1085,7 @@ describe("Browser-Initiated Sessions Integration", () => {
       ]);
 
       // Simulate browser refresh - create fresh query to DB (like subscribe handler does)
-      const messagesAfterRefresh = repo.getMessages(session_id);
+      const messagesAfterRefresh = await repo.getMessages(session_id);
       expect(messagesAfterRefresh.length).toBe(2);
       expect(messagesAfterRefresh[0]!.content).toBe("Build a feature");
       expect(messagesAfterRefresh[1]!.content).toBe("Sure, let me help you build that feature.");
@@ -1107,7 +1107,7 @@ describe("Browser-Initiated Sessions Integration", () => {
       const { session_id } = await spawnRes.json();
 
       // Add diffs to DB
-      repo.addDiffs([
+      await repo.addDiffs([
         {
           session_id,
           filename: "src/index.ts",
@@ -1131,7 +1131,7 @@ describe("Browser-Initiated Sessions Integration", () => {
       ]);
 
       // Simulate browser refresh - query diffs from DB (like subscribe handler does)
-      const diffsAfterRefresh = repo.getDiffs(session_id);
+      const diffsAfterRefresh = await repo.getDiffs(session_id);
       expect(diffsAfterRefresh.length).toBe(2);
       expect(diffsAfterRefresh[0]!.filename).toBe("src/index.ts");
       expect(diffsAfterRefresh[0]!.is_session_relevant).toBe(true);
@@ -1151,7 +1151,7 @@ describe("Browser-Initiated Sessions Integration", () => {
       const { session_id } = await spawnRes.json();
 
       // Add initial diffs
-      repo.addDiffs([
+      await repo.addDiffs([
         {
           session_id,
           filename: "src/old.ts",
@@ -1164,11 +1164,11 @@ describe("Browser-Initiated Sessions Integration", () => {
         },
       ]);
 
-      expect(repo.getDiffs(session_id).length).toBe(1);
+      expect((await repo.getDiffs(session_id)).length).toBe(1);
 
       // Clear and add new diffs (like server.ts does)
-      repo.clearDiffs(session_id);
-      repo.addDiffs([
+      await repo.clearDiffs(session_id);
+      await repo.addDiffs([
         {
           session_id,
           filename: "src/new.ts",
@@ -1192,7 +1192,7 @@ describe("Browser-Initiated Sessions Integration", () => {
       ]);
 
       // Should have new diffs only
-      const diffs = repo.getDiffs(session_id);
+      const diffs = await repo.getDiffs(session_id);
       expect(diffs.length).toBe(2);
       expect(diffs[0]!.filename).toBe("src/new.ts");
       expect(diffs[1]!.filename).toBe("src/another.ts");
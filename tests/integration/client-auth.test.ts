@@ -98,7 +98,7 @@ describe("Client ID Authentication", () => {
       expect(data.id).toBeDefined();
 
       // Verify client_id is stored
-      const sessionResult = repo.getSession(data.id);
+      const sessionResult = await repo.getSession(data.id);
       expect(sessionResult.isOk()).toBe(true);
       expect(sessionResult.unwrap().client_id).toBe("test-client-123");
     });
@@ -167,7 +167,7 @@ describe("Client ID Authentication", () => {
       });
 
       expect(res.ok).toBe(true);
-      const sessionResult = repo.getSession(sessionId);
+      const sessionResult = await repo.getSession(sessionId);
       expect(sessionResult.isOk()).toBe(true);
       expect(sessionResult.unwrap().status).toBe("complete");
     });
@@ -194,7 +194,7 @@ describe("Client ID Authentication", () => {
       });
 
       expect(res.ok).toBe(true);
-      expect(repo.getSession(sessionId).isErr()).toBe(true);
+      expect((await repo.getSession(sessionId)).isErr()).toBe(true);
     });
 
     test("non-owner cannot delete session", async () => {
@@ -249,9 +249,9 @@ describe("Client ID Authentication", () => {
   describe("legacy sessions (no client_id)", () => {
     let legacySessionId: string;
 
-    beforeEach(() => {
+    beforeEach(async () => {
       // Create a legacy session directly in the database without client_id
-      const session = repo.createSession({
+      const session = await repo.createSession({
         id: "legacy_session_123",
         title: "Legacy Session",
         description: null,
@@ -23,7 +23,7 @@ describe("Interactive Sessions", () => {
     // Start test server on random port
     server = Bun.serve({
       port: 0, // Random available port
-      fetch(req, server) {
+      async fetch(req, server) {
         const url = new URL(req.url);
 
         // Live session creation
@@ -35,7 +35,7 @@ describe("Interactive Sessions", () => {
         const wsMatch = url.pathname.match(/^\/api\/sessions\/([^\/]+)\/ws$/);
         if (wsMatch) {
           const sessionId = wsMatch[1]!;
-          const sessionResult = repo.getSession(sessionId);
+          const sessionResult = await repo.getSession(sessionId);
           if (sessionResult.isErr()) {
             return new Response("Session not found", { status: 404 });
           }
@@ -53,13 +53,13 @@ describe("Interactive Sessions", () => {
         return new Response("Not Found", { status: 404 });
       },
       websocket: {
-        open(ws) {
+        async open(ws) {
           const data = ws.data as { sessionId: string };
           addSessionSubscriber(data.sessionId, ws as unknown as WebSocket);
-          const sessionResult = repo.getSession(data.sessionId);
+          const sessionResult = await repo.getSession(data.sessionId);
           const session = sessionResult.isOk() ? sessionResult.unwrap() : null;
-          const messageCount = repo.getMessageCount(data.sessionId);
-          const lastIndex = repo.getLastMessageIndex(data.sessionId);
+          const messageCount = await repo.getMessageCount(data.sessionId);
+          const lastIndex = await repo.getLastMessageIndex(data.sessionId);
           ws.send(JSON.stringify({
             type: "connected",
             session_id: data.sessionId,
@@ -119,7 +119,7 @@ describe("Interactive Sessions", () => {
     expect(data.interactive).toBe(true);
 
     // Verify in database
-    const sessionResult = repo.getSession(data.id);
+    const sessionResult = await repo.getSession(data.id);
     expect(sessionResult.isOk()).toBe(true);
     expect(sessionResult.unwrap().interactive).toBe(true);
   });
@@ -140,7 +140,7 @@ describe("Interactive Sessions", () => {
     const data = await res.json();
     expect(data.interactive).toBe(false);
 
-    const sessionResult = repo.getSession(data.id);
+    const sessionResult = await repo.getSession(data.id);
     expect(sessionResult.isOk()).toBe(true);
     expect(sessionResult.unwrap().interactive).toBe(false);
   });
@@ -159,9 +159,9 @@ describe("Repository Feedback Methods", () => {
     db?.close();
   });
 
-  test("creates feedback message", () => {
+  test("creates feedback message", async () => {
     // Create a session first
-    const session = repo.createSession({
+    const session = await repo.createSession({
       id: "test_session",
       title: "Test",
       description: null,
@@ -180,7 +180,7 @@ describe("Repository Feedback Methods", () => {
       branch: null,
     });
 
-    const feedback = repo.createFeedbackMessage(
+    const feedback = await repo.createFeedbackMessage(
       session.id,
       "Please fix this bug",
       "message"
@@ -194,8 +194,8 @@ describe("Repository Feedback Methods", () => {
     expect(feedback.resolved_at).toBeNull();
   });
 
-  test("creates feedback message with context", () => {
-    const session = repo.createSession({
+  test("creates feedback message with context", async () => {
+    const session = await repo.createSession({
       id: "test_session",
       title: "Test",
       description: null,
@@ -214,7 +214,7 @@ describe("Repository Feedback Methods", () => {
       branch: null,
     });
 
-    const feedback = repo.createFeedbackMessage(
+    const feedback = await repo.createFeedbackMessage(
       session.id,
       "Fix this line",
       "diff_comment",
@@ -227,8 +227,8 @@ describe("Repository Feedback Methods", () => {
     expect(feedback.context).toEqual({ file: "src/main.ts", line: 42 });
   });
 
-  test("gets pending feedback messages", () => {
-    const session = repo.createSession({
+  test("gets pending feedback messages", async () => {
+    const session = await repo.createSession({
       id: "test_session",
       title: "Test",
       description: null,
@@ -247,17 +247,17 @@ describe("Repository Feedback Methods", () => {
       branch: null,
     });
 
-    repo.createFeedbackMessage(session.id, "First", "message");
-    repo.createFeedbackMessage(session.id, "Second", "message");
+    await repo.createFeedbackMessage(session.id, "First", "message");
+    await repo.createFeedbackMessage(session.id, "Second", "message");
 
-    const pending = repo.getPendingFeedback(session.id);
+    const pending = await repo.getPendingFeedback(session.id);
     expect(pending).toHaveLength(2);
     expect(pending[0]!.content).toBe("First");
     expect(pending[1]!.content).toBe("Second");
   });
 
-  test("updates feedback status", () => {
-    const session = repo.createSession({
+  test("updates feedback status", async () => {
+    const session = await repo.createSession({
       id: "test_session",
       title: "Test",
       description: null,
@@ -276,15 +276,15 @@ describe("Repository Feedback Methods", () => {
       branch: null,
     });
 
-    const feedback = repo.createFeedbackMessage(session.id, "Test", "message");
-    repo.updateFeedbackStatus(feedback.id, "approved");
+    const feedback = await repo.createFeedbackMessage(session.id, "Test", "message");
+    await repo.updateFeedbackStatus(feedback.id, "approved");
 
-    const pending = repo.getPendingFeedback(session.id);
+    const pending = await repo.getPendingFeedback(session.id);
     expect(pending).toHaveLength(0); // No longer pending
   });
 
-  test("sets session interactive flag", () => {
-    const session = repo.createSession({
+  test("sets session interactive flag", async () => {
+    const session = await repo.createSession({
       id: "test_session",
       title: "Test",
       description: null,
@@ -305,8 +305,8 @@ describe("Repository Feedback Methods", () => {
 
     expect(session.interactive).toBe(false);
 
-    repo.setSessionInteractive(session.id, true);
-    const updatedResult = repo.getSession(session.id);
+    await repo.setSessionInteractive(session.id, true);
+    const updatedResult = await repo.getSession(session.id);
     expect(updatedResult.isOk()).toBe(true);
     expect(updatedResult.unwrap().interactive).toBe(true);
   });
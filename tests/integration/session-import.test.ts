@@ -0,0 +1,217 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { initializeDatabase } from "../../src/db/schema";
+import { SessionRepository } from "../../src/db/repository";
+import { createApiRoutes } from "../../src/routes/api";
+
+describe("Session import", () => {
+  const ownerClientId = "source-client";
+  const importerClientId = "target-client";
+  let db: Database;
+  let repo: SessionRepository;
+  let api: ReturnType<typeof createApiRoutes>;
+
+  function request(path: string, clientId: string, init: RequestInit = {}): Request {
+    return new Request(`http://localhost${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json", "X-Openctl-Client-ID": clientId },
+    });
+  }
+
+  async function createSourceSession(): Promise<string> {
+    const session = await repo.createSessionWithDataAndReview(
+      {
+        id: "sess_source",
+        title: "Add retry logic",
+        description: "Retries with backoff",
+        claude_session_id: "claude-abc",
+        agent_session_id: "claude-abc",
+        pr_url: null,
+        share_token: "share-token-1",
+        project_path: "/work/app",
+        model: "claude-sonnet-4",
+        harness: "claude-code",
+        repo_url: "https://github.com/acme/app",
+        branch: "main",
+        status: "complete",
+        visibility: "public",
+        last_activity_at: "2025-12-01 09:30:00",
+        interactive: false,
+        remote: false,
+        input_tokens: 1200,
+        output_tokens: 340,
+        cache_creation_tokens: 10,
+        cache_read_tokens: 900,
+        redaction_count: 0,
+      },
+      [
+        {
+          session_id: "sess_source",
+          role: "user",
+          content: "Add retries",
+          content_blocks: [{ type: "text", text: "Add retries" }],
+          timestamp: "2025-12-01T09:00:00Z",
+          message_index: 0,
+        },
+        {
+          session_id: "sess_source",
+          role: "assistant",
+          content: "Done",
+          content_blocks: [{ type: "text", text: "Done" }],
+          timestamp: "2025-12-01T09:01:00Z",
+          message_index: 1,
+        },
+      ],
+      [
+        {
+          session_id: "sess_source",
+          filename: "src/retry.ts",
+          diff_content: "--- a/src/retry.ts\n+++ b/src/retry.ts\n@@ -1 +1 @@\n-a\n+b\n",
+          diff_index: 0,
+          additions: 1,
+          deletions: 1,
+          is_session_relevant: true,
+          status: "modified",
+        },
+      ],
+      {
+        summary: "Looks good",
+        model: "claude-sonnet-4",
+        annotations: [
+          { filename: "src/retry.ts", line_number: 1, side: "additions", annotation_type: "praise", content: "Nice" },
+        ],
+      },
+      ownerClientId
+    );
+    db.run("UPDATE sessions SET created_at = '2025-12-01 09:00:00', updated_at = '2025-12-01 09:31:00' WHERE id = ?", [
+      session.id,
+    ]);
+    return session.id;
+  }
+
+  async function exportBundle(sessionId: string): Promise<string> {
+    const res = await api.getSessionJson(request(`/api/sessions/${sessionId}/export`, ownerClientId), sessionId);
+    expect(res.status).toBe(200);
+    return res.text();
+  }
+
+  beforeEach(() => {
+    db = initializeDatabase(":memory:");
+    repo = new SessionRepository(db);
+    api = createApiRoutes(repo);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test("round-trips an export into a new session owned by the importer", async () => {
+    const sourceId = await createSourceSession();
+    const bundle = await exportBundle(sourceId);
+
+    const res = await api.importSession(
+      request("/api/sessions/import", importerClientId, { method: "POST", body: bundle })
+    );
+    expect(res.status).toBe(201);
+    const { id, url } = await res.json();
+    expect(id).not.toBe(sourceId);
+    expect(url).toBe(`/sessions/${id}`);
+
+    const imported = (await repo.getSession(id)).unwrap();
+    expect(imported).toMatchObject({
+      title: "Add retry logic",
+      client_id: importerClientId,
+      created_at: "2025-12-01 09:00:00",
+      updated_at: "2025-12-01 09:31:00",
+      input_tokens: 1200,
+      output_tokens: 340,
+      cache_read_tokens: 900,
+      status: "complete",
+      visibility: "private",
+      share_token: null,
+    });
+
+    const messages = await repo.getMessages(id);
+    expect(messages.map((m) => [m.message_index, m.content, m.timestamp])).toEqual([
+      [0, "Add retries", "2025-12-01T09:00:00Z"],
+      [1, "Done", "2025-12-01T09:01:00Z"],
+    ]);
+
+    const [diff] = await repo.getDiffs(id);
+    expect(diff!.filename).toBe("src/retry.ts");
+    expect((await repo.getReview(id)).unwrap().summary).toBe("Looks good");
+    const [annotation] = await repo.getAnnotationsBySession(id);
+    expect(annotation!.diff_id).toBe(diff!.id);
+    expect(annotation!.content).toBe("Nice");
+
+    // The source session is untouched
+    expect((await repo.getSession(sourceId)).unwrap().client_id).toBe(ownerClientId);
+  });
+
+  test("doesn't let the original owner's uploads reach the imported copy", async () => {
+    const sourceId = await createSourceSession();
+    const bundle = await exportBundle(sourceId);
+    const res = await api.importSession(
+      request("/api/sessions/import", importerClientId, { method: "POST", body: bundle })
+    );
+    const { id } = await res.json();
+
+    const imported = (await repo.getSession(id)).unwrap();
+    expect(imported.claude_session_id).toBeNull();
+    expect(imported.agent_session_id).toBeNull();
+
+    // The owner re-uploads the same Claude session
+    const source = (await repo.getSession(sourceId)).unwrap();
+    const { session, isUpdate } = await repo.upsertSessionWithDataAndReview(
+      { ...source, title: "Add retry logic (v2)" },
+      [],
+      [],
+      undefined,
+      ownerClientId
+    );
+    expect(isUpdate).toBe(true);
+    expect(session.id).toBe(sourceId);
+    expect((await repo.getSessionByHarnessId("claude-abc", "claude-code")).unwrap().id).toBe(sourceId);
+    expect((await repo.getSession(id)).unwrap().title).toBe("Add retry logic");
+  });
+
+  test("marks live sessions as complete", async () => {
+    const res = await api.importSession(
+      request("/api/sessions/import", importerClientId, {
+        method: "POST",
+        body: JSON.stringify({ session: { title: "Streaming", status: "live" }, messages: [], diffs: [] }),
+      })
+    );
+
+    expect(res.status).toBe(201);
+    const { id } = await res.json();
+    expect((await repo.getSession(id)).unwrap().status).toBe("complete");
+  });
+
+  test("rejects invalid bundles", async () => {
+    const res = await api.importSession(
+      request("/api/sessions/import", importerClientId, {
+        method: "POST",
+        body: JSON.stringify({
+          session: { title: "No review" },
+          annotations: [{ diff_id: 1, line_number: 1, side: "additions", annotation_type: "issue", content: "x" }],
+        }),
+      })
+    );
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toContain("annotations require a review");
+    expect(await repo.getAllSessions()).toEqual([]);
+  });
+
+  test("requires authentication", async () => {
+    const res = await api.importSession(
+      new Request("http://localhost/api/sessions/import", {
+        method: "POST",
+        body: JSON.stringify({ session: { title: "Anonymous" } }),
+      })
+    );
+
+    expect(res.status).toBe(401);
+  });
+});
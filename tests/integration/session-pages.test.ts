@@ -0,0 +1,221 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { initializeDatabase } from "../../src/db/schema";
+import { SessionRepository } from "../../src/db/repository";
+import { createApiRoutes } from "../../src/routes/api";
+import { createPageRoutes } from "../../src/routes/pages";
+import { spawnedSessionRegistry } from "../../src/lib/spawned-session-registry";
+import { getSessionPageMeta, renderSessionMetaTags } from "../../src/views/sessionPage";
+import { INITIAL_DATA_ELEMENT_ID } from "../../src/client/initialData";
+
+// Shape of public/index.html as served by Bun
+const SHELL = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <title>openctl</title>
+<body>
+  <div id="app" class="h-full flex flex-col"></div>
+</body>
+<script type="module" src="/_bun/client/index.js"></script></html>`;
+
+describe("Server-rendered session pages", () => {
+  const ownerClientId = "owner-client";
+  let db: Database;
+  let repo: SessionRepository;
+  let pages: ReturnType<typeof createPageRoutes>;
+
+  function request(path: string, clientId?: string): Request {
+    return new Request(`http://localhost${path}`, {
+      headers: clientId ? { "X-Openctl-Client-ID": clientId } : {},
+    });
+  }
+
+  function embeddedData(html: string) {
+    const match = html.match(new RegExp(`<script type="application/json" id="${INITIAL_DATA_ELEMENT_ID}">(.*?)</script>`));
+    return match ? JSON.parse(match[1]!) : null;
+  }
+
+  async function createSession(overrides: { visibility?: "private" | "public"; share_token?: string | null } = {}) {
+    return repo.createSessionWithDataAndReview(
+      {
+        id: "sess_page",
+        title: "Fix </script> & <b>escaping</b>",
+        description: "Handles $& in titles",
+        claude_session_id: null,
+        agent_session_id: null,
+        pr_url: null,
+        share_token: overrides.share_token ?? null,
+        project_path: "/work/app",
+        model: "claude-sonnet-4",
+        harness: "claude-code",
+        repo_url: null,
+        branch: "main",
+        status: "complete",
+        visibility: overrides.visibility ?? "private",
+        last_activity_at: null,
+        interactive: false,
+        remote: false,
+        input_tokens: 0,
+        output_tokens: 0,
+        cache_creation_tokens: 0,
+        cache_read_tokens: 0,
+        redaction_count: 0,
+      },
+      [
+        {
+          session_id: "sess_page",
+          role: "user",
+          content: "Escape </script> please",
+          content_blocks: [{ type: "text", text: "Escape </script> please" }],
+          timestamp: "2025-12-01T09:00:00Z",
+          message_index: 0,
+        },
+      ],
+      [
+        {
+          session_id: "sess_page",
+          filename: "src/a.ts",
+          diff_content: "--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1,2 @@\n-a\n+b\n+c\n",
+          diff_index: 0,
+          additions: 2,
+          deletions: 1,
+          is_session_relevant: true,
+          status: "modified",
+        },
+      ],
+      undefined,
+      ownerClientId
+    );
+  }
+
+  beforeEach(() => {
+    db = initializeDatabase(":memory:");
+    repo = new SessionRepository(db);
+    pages = createPageRoutes(repo, { api: createApiRoutes(repo), loadShell: async () => SHELL });
+  });
+
+  afterEach(() => {
+    spawnedSessionRegistry.clear();
+    db.close();
+  });
+
+  test("renders the session with meta tags and embedded data", async () => {
+    await createSession();
+
+    const res = await pages.sessionPage(request("/sessions/sess_page", ownerClientId), "sess_page");
+    expect(res.headers.get("Content-Type")).toBe("text/html");
+    const html = await res.text();
+
+    expect(html).toContain("<title>Fix &lt;/script&gt; &amp; &lt;b&gt;escaping&lt;/b&gt; - openctl</title>");
+    expect(html).toContain(`<meta property="og:url" content="http://localhost/sessions/sess_page">`);
+    expect(html).toContain(`<meta name="twitter:data2" content="1 file changed, +2 -1">`);
+
+    // The session markup is rendered into #app
+    expect(html).toMatch(/<div id="app" class="h-full flex flex-col"><header/);
+    expect(html).toContain("Fix &lt;/script&gt; &amp; &lt;b&gt;escaping&lt;/b&gt;</h1>");
+
+    // "</script>" in session content is escaped inside the embedded JSON
+    const data = embeddedData(html);
+    expect(data).toMatchObject({ path: "/sessions/sess_page", isOwner: true, shareUrl: null });
+    expect(data.session.description).toBe("Handles $& in titles");
+    expect(data.messages[0].content).toBe("Escape </script> please");
+    expect(data.diffs).toHaveLength(1);
+  });
+
+  test("renders under Clerk when the client is built with a publishable key", async () => {
+    await createSession();
+    const clerkPages = createPageRoutes(repo, {
+      api: createApiRoutes(repo),
+      loadShell: async () => SHELL,
+      // Encodes the frontend API host "clerk.example.com"
+      clerkPublishableKey: "pk_test_Y2xlcmsuZXhhbXBsZS5jb20k",
+    });
+
+    const res = await clerkPages.sessionPage(request("/sessions/sess_page", ownerClientId), "sess_page");
+    const html = await res.text();
+
+    // Same markup the client renders before Clerk loads, so hydration matches
+    expect(html).toContain("Fix &lt;/script&gt; &amp; &lt;b&gt;escaping&lt;/b&gt;</h1>");
+    expect(html).not.toContain("Checking authentication...");
+    expect(embeddedData(html)).toMatchObject({ path: "/sessions/sess_page", isOwner: true });
+  });
+
+  test("only marks the owner as owner in the embedded data", async () => {
+    await createSession({ visibility: "public" });
+
+    const res = await pages.sessionPage(request("/sessions/sess_page", "other-client"), "sess_page");
+    expect(embeddedData(await res.text())).toMatchObject({ path: "/sessions/sess_page", isOwner: false });
+  });
+
+  test("serves the plain shell when the request can't see the session", async () => {
+    await createSession();
+
+    const anonymous = await pages.sessionPage(request("/sessions/sess_page"), "sess_page");
+    expect(await anonymous.text()).toBe(SHELL);
+
+    const otherClient = await pages.sessionPage(request("/sessions/sess_page", "other-client"), "sess_page");
+    expect(await otherClient.text()).toBe(SHELL);
+
+    const missing = await pages.sessionPage(request("/sessions/sess_missing", ownerClientId), "sess_missing");
+    expect(await missing.text()).toBe(SHELL);
+  });
+
+  test("leaves spawned sessions to the client", async () => {
+    spawnedSessionRegistry.createSession({
+      id: "spawn_live",
+      daemonClientId: "daemon-1",
+      cwd: "/work",
+      harness: "claude-code",
+      status: "running",
+      createdAt: new Date(),
+    });
+
+    const res = await pages.sessionPage(request("/sessions/spawn_live", ownerClientId), "spawn_live");
+    expect(await res.text()).toBe(SHELL);
+  });
+
+  test("renders shared sessions for anyone with the link", async () => {
+    await createSession({ share_token: "share-abc" });
+
+    const res = await pages.sharedSessionPage(request("/s/share-abc"), "share-abc");
+    const html = await res.text();
+    expect(html).toContain(`<meta property="og:url" content="http://localhost/s/share-abc">`);
+    expect(embeddedData(html)).toMatchObject({ path: "/s/share-abc", isOwner: false, review: null });
+
+    const missing = await pages.sharedSessionPage(request("/s/nope"), "nope");
+    expect(await missing.text()).toBe(SHELL);
+  });
+});
+
+describe("Session page meta", () => {
+  const session = {
+    title: "Add retries",
+    description: null,
+    model: "claude-sonnet-4",
+  } as Parameters<typeof getSessionPageMeta>[0];
+
+  test("summarizes model, messages and diff stats", () => {
+    const diffs = [
+      { additions: 10, deletions: 2 },
+      { additions: 5, deletions: 0 },
+    ] as Parameters<typeof getSessionPageMeta>[1];
+
+    const meta = getSessionPageMeta(session, diffs, 1, "https://openctl.dev/s/abc");
+    expect(meta.description).toBe("claude-sonnet-4 · 1 message · 2 files changed, +15 -2");
+    expect(meta.changes).toBe("2 files changed, +15 -2");
+  });
+
+  test("leads with the session description and omits missing fields", () => {
+    const meta = getSessionPageMeta(
+      { ...session, model: null, description: "x".repeat(300) },
+      [],
+      4,
+      "https://openctl.dev/s/abc"
+    );
+    expect(meta.description).toBe(`${"x".repeat(199)}… · 4 messages`);
+
+    const tags = renderSessionMetaTags(meta);
+    expect(tags).toContain(`<meta name="twitter:card" content="summary">`);
+    expect(tags).not.toContain("twitter:label1");
+  });
+});
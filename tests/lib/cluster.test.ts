@@ -0,0 +1,255 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import type { ServerWebSocket } from "bun";
+import { ClusterBus, cluster, daemonChannel, sessionChannel, DAEMONS_KEY, DAEMON_PRESENCE_CHANNEL, SPAWNED_SESSIONS_CHANNEL } from "../../src/lib/cluster";
+import { InProcessPubSub, type PubSub } from "../../src/lib/pubsub";
+import { RedisPubSub } from "../../src/lib/redis-pubsub";
+import { addSessionSubscriber, removeSessionSubscriber, broadcastToSession } from "../../src/routes/api";
+import { daemonConnections, type DaemonWebSocketData } from "../../src/lib/daemon-connections";
+import { spawnedSessionRegistry } from "../../src/lib/spawned-session-registry";
+
+const capabilities = { can_spawn_sessions: true, spawnable_harnesses: [] };
+
+function mockBrowser() {
+  const sent: unknown[] = [];
+  const ws = {
+    readyState: WebSocket.OPEN,
+    send: (data: string) => sent.push(JSON.parse(data)),
+    close: () => {},
+  } as unknown as WebSocket;
+  return { ws, sent };
+}
+
+function mockDaemon() {
+  const sent: unknown[] = [];
+  let closed = false;
+  const ws = {
+    send: (data: string) => sent.push(JSON.parse(data)),
+    close: () => {
+      closed = true;
+    },
+    data: { type: "daemon" as const },
+  } as unknown as ServerWebSocket<DaemonWebSocketData>;
+  return { ws, sent, isClosed: () => closed };
+}
+
+describe("ClusterBus", () => {
+  test("delivers messages to other instances only", async () => {
+    const pubsub = new InProcessPubSub();
+    const a = new ClusterBus("instance-a");
+    const b = new ClusterBus("instance-b");
+    a.start(pubsub);
+    b.start(pubsub);
+
+    const receivedA: unknown[] = [];
+    const receivedB: unknown[] = [];
+    await a.subscribe("test", (payload) => receivedA.push(payload));
+    const handlerB = (payload: unknown) => receivedB.push(payload);
+    await b.subscribe("test", handlerB);
+
+    a.publish("test", { n: 1 });
+    expect(receivedA).toEqual([]);
+    expect(receivedB).toEqual([{ n: 1 }]);
+
+    await b.unsubscribe("test", handlerB);
+    a.publish("test", { n: 2 });
+    expect(receivedB).toEqual([{ n: 1 }]);
+  });
+
+  test("shares hash state", async () => {
+    const pubsub = new InProcessPubSub();
+    const a = new ClusterBus("instance-a");
+    const b = new ClusterBus("instance-b");
+    a.start(pubsub);
+    b.start(pubsub);
+
+    await a.setShared(DAEMONS_KEY, "client-1", "x");
+    expect(await b.getShared(DAEMONS_KEY, "client-1")).toBe("x");
+    expect(await b.getAllShared(DAEMONS_KEY)).toEqual({ "client-1": "x" });
+
+    await b.deleteShared(DAEMONS_KEY, "client-1");
+    expect(await a.getShared(DAEMONS_KEY, "client-1")).toBeNull();
+  });
+});
+
+describe("Fan-out across instances", () => {
+  // The singleton bus plays this instance; `other` plays a second replica
+  let other: ClusterBus;
+
+  beforeEach(() => {
+    const pubsub = new InProcessPubSub();
+    cluster.start(pubsub, "instance-a");
+    other = new ClusterBus("instance-b");
+    other.start(pubsub);
+  });
+
+  afterEach(async () => {
+    daemonConnections.clear();
+    spawnedSessionRegistry.clear();
+    await cluster.stop();
+  });
+
+  test("session broadcasts reach browsers on other instances", async () => {
+    const remote: unknown[] = [];
+    await other.subscribe(sessionChannel("sess_1"), (payload) => remote.push(payload));
+
+    const browser = mockBrowser();
+    addSessionSubscriber("sess_1", browser.ws);
+
+    broadcastToSession("sess_1", { type: "diff", files: [] });
+    expect(browser.sent).toEqual([{ type: "diff", files: [] }]);
+    expect(remote).toEqual([{ type: "broadcast", message: { type: "diff", files: [] } }]);
+
+    // Broadcasts from the other instance are delivered to local browsers
+    other.publish(sessionChannel("sess_1"), { type: "broadcast", message: { type: "state", state: "waiting" } });
+    expect(browser.sent).toEqual([{ type: "diff", files: [] }, { type: "state", state: "waiting" }]);
+
+    // With no local subscribers left, the instance stops listening
+    removeSessionSubscriber("sess_1", browser.ws);
+    other.publish(sessionChannel("sess_1"), { type: "broadcast", message: { type: "state", state: "running" } });
+    expect(browser.sent).toHaveLength(2);
+  });
+
+  test("routes messages to daemons connected to another instance", async () => {
+    await other.setShared(
+      DAEMONS_KEY,
+      "daemon-remote",
+      JSON.stringify({ instance_id: "instance-b", connected_at: "2026-01-01T00:00:00.000Z", capabilities })
+    );
+    await daemonConnections.joinCluster();
+
+    expect(daemonConnections.isConnected("daemon-remote")).toBe(true);
+    expect(daemonConnections.getDaemon("daemon-remote")).toBeUndefined();
+    expect(daemonConnections.getStatus()).toMatchObject({ connected: true, client_id: "daemon-remote" });
+
+    const routed: unknown[] = [];
+    await other.subscribe(daemonChannel("daemon-remote"), (payload) => routed.push(payload));
+
+    const sent = daemonConnections.sendToDaemon("daemon-remote", { type: "end_session", session_id: "sess_1" });
+    expect(sent).toBe(true);
+    expect(routed).toEqual([{ type: "end_session", session_id: "sess_1" }]);
+
+    // The daemon leaves instance-b
+    other.publish(DAEMON_PRESENCE_CHANNEL, { client_id: "daemon-remote", instance_id: "instance-b", affinity: null });
+    expect(daemonConnections.isConnected("daemon-remote")).toBe(false);
+    expect(daemonConnections.sendToDaemon("daemon-remote", { type: "end_session", session_id: "sess_1" })).toBe(false);
+  });
+
+  test("announces local daemons and delivers messages routed to them", async () => {
+    await daemonConnections.joinCluster();
+    const presence: unknown[] = [];
+    await other.subscribe(DAEMON_PRESENCE_CHANNEL, (payload) => presence.push(payload));
+
+    const daemon = mockDaemon();
+    daemonConnections.addDaemon("daemon-local", daemon.ws, capabilities);
+
+    expect(presence).toEqual([
+      expect.objectContaining({ client_id: "daemon-local", instance_id: "instance-a", affinity: expect.objectContaining({ instance_id: "instance-a" }) }),
+    ]);
+    expect(JSON.parse((await other.getShared(DAEMONS_KEY, "daemon-local"))!).instance_id).toBe("instance-a");
+
+    other.publish(daemonChannel("daemon-local"), {
+      type: "start_session",
+      session_id: "spawn_routed",
+      prompt: "hi",
+      cwd: "/test",
+    });
+    expect(daemon.sent).toEqual([expect.objectContaining({ type: "start_session", session_id: "spawn_routed" })]);
+    expect(daemonConnections.getDaemon("daemon-local")?.activeSpawnedSessions.has("spawn_routed")).toBe(true);
+
+    daemonConnections.removeDaemon("daemon-local", daemon.ws);
+    await Bun.sleep(0);
+    expect(await other.getShared(DAEMONS_KEY, "daemon-local")).toBeNull();
+  });
+
+  test("drops a local daemon connection that moved to another instance", async () => {
+    await daemonConnections.joinCluster();
+    const daemon = mockDaemon();
+    daemonConnections.addDaemon("daemon-moving", daemon.ws, capabilities);
+
+    other.publish(DAEMON_PRESENCE_CHANNEL, {
+      client_id: "daemon-moving",
+      instance_id: "instance-b",
+      affinity: { instance_id: "instance-b", connected_at: new Date().toISOString(), capabilities },
+    });
+
+    expect(daemon.isClosed()).toBe(true);
+    expect(daemonConnections.getDaemon("daemon-moving")).toBeUndefined();
+    expect(daemonConnections.isConnected("daemon-moving")).toBe(true);
+
+    // The stale connection closing must not affect the daemon on the other instance
+    daemonConnections.removeDaemon("daemon-moving", daemon.ws);
+    expect(daemonConnections.isConnected("daemon-moving")).toBe(true);
+  });
+
+  test("replicates spawned session registry changes", async () => {
+    await spawnedSessionRegistry.joinCluster();
+    const changes: unknown[] = [];
+    await other.subscribe(SPAWNED_SESSIONS_CHANNEL, (payload) => changes.push(payload));
+
+    spawnedSessionRegistry.createSession({
+      id: "spawn_local",
+      daemonClientId: "daemon-1",
+      cwd: "/test",
+      harness: "claude-code",
+      status: "starting",
+      createdAt: new Date(),
+    });
+    expect(changes).toEqual([expect.objectContaining({ id: "spawn_local", state: expect.objectContaining({ status: "starting" }) })]);
+
+    other.publish(SPAWNED_SESSIONS_CHANNEL, {
+      id: "spawn_remote",
+      state: {
+        id: "spawn_remote",
+        daemon_client_id: "daemon-2",
+        status: "running",
+        state: {
+          id: "spawn_remote",
+          daemonClientId: "daemon-2",
+          cwd: "/other",
+          harness: "claude-code",
+          status: "running",
+          createdAt: "2026-01-01T00:00:00.000Z",
+          permissionHistory: [],
+        },
+      },
+    });
+    const remote = spawnedSessionRegistry.getSession("spawn_remote");
+    expect(remote?.status).toBe("running");
+    expect(remote?.createdAt).toBeInstanceOf(Date);
+
+    other.publish(SPAWNED_SESSIONS_CHANNEL, { id: "spawn_remote", state: null });
+    expect(spawnedSessionRegistry.getSession("spawn_remote")).toBeUndefined();
+  });
+});
+
+// Runs against a real server when TEST_REDIS_URL is set, e.g. redis://localhost:6379
+describe.skipIf(!process.env.TEST_REDIS_URL)("RedisPubSub", () => {
+  let a: PubSub;
+  let b: PubSub;
+
+  beforeEach(async () => {
+    const prefix = `openctl-test-${crypto.randomUUID()}:`;
+    a = await RedisPubSub.connect(process.env.TEST_REDIS_URL!, prefix);
+    b = await RedisPubSub.connect(process.env.TEST_REDIS_URL!, prefix);
+  });
+
+  afterEach(async () => {
+    await a.close();
+    await b.close();
+  });
+
+  test("publishes between connections", async () => {
+    const { promise: received, resolve } = Promise.withResolvers<string>();
+    await b.subscribe("channel", resolve);
+    await a.publish("channel", "hello");
+    expect(await received).toBe("hello");
+  });
+
+  test("shares hash state", async () => {
+    await a.hset(DAEMONS_KEY, "client-1", "x");
+    expect(await b.hget(DAEMONS_KEY, "client-1")).toBe("x");
+    expect(await b.hgetall(DAEMONS_KEY)).toEqual({ "client-1": "x" });
+    await b.hdel(DAEMONS_KEY, "client-1");
+    expect(await a.hgetall(DAEMONS_KEY)).toEqual({});
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, test, expect } from "bun:test";
+import { compareSnapshots } from "../../src/lib/diff-snapshots";
+import type { DiffSnapshotFile } from "../../src/db/schema";
+
+function file(filename: string, diffContent: string, additions: number, deletions = 0): DiffSnapshotFile {
+  return {
+    filename,
+    diff_content: diffContent,
+    diff_index: 0,
+    additions,
+    deletions,
+    is_session_relevant: true,
+    status: "modified",
+  };
+}
+
+describe("compareSnapshots", () => {
+  test("lists added, modified and reverted files", () => {
+    const from = [file("a.ts", "+one", 1), file("b.ts", "+two", 1), file("c.ts", "-three", 0, 1)];
+    const to = [file("a.ts", "+one", 1), file("b.ts", "+two\n+more", 2), file("d.ts", "+four", 1)];
+
+    const changes = compareSnapshots(from, to);
+    expect(changes.map((c) => [c.filename, c.change])).toEqual([
+      ["b.ts", "modified"],
+      ["d.ts", "added"],
+      ["c.ts", "reverted"],
+    ]);
+  });
+
+  test("reports line count changes between snapshots", () => {
+    const [modified, reverted] = compareSnapshots(
+      [file("a.ts", "+one", 1, 3), file("b.ts", "+two", 2)],
+      [file("a.ts", "+one\n+two", 2, 1)]
+    );
+    expect(modified).toMatchObject({ additions: 1, deletions: -2 });
+    expect(reverted).toMatchObject({ after: null, additions: -2, deletions: 0 });
+  });
+
+  test("returns nothing for identical snapshots", () => {
+    const files = [file("a.ts", "+one", 1)];
+    expect(compareSnapshots(files, files)).toEqual([]);
+  });
+});
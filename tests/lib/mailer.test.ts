@@ -0,0 +1,141 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import { SessionRepository } from "../../src/db/repository";
+import { Mailer, createMailer } from "../../src/lib/mailer";
+import { RateLimiter } from "../../src/lib/rate-limiter";
+import type { MailMessage } from "../../src/lib/smtp";
+import { STORAGE_BACKENDS, useTestStorage } from "../db/storage-backends";
+
+const email = {
+  sessionId: "sess-1",
+  sessionTitle: "Fix the login bug",
+  to: "Alice@Example.com",
+  actorUserId: "user-bob",
+  actorName: "Bob",
+};
+
+describe.each(STORAGE_BACKENDS)("Mailer (%s)", (backend) => {
+  const storage = useTestStorage(backend);
+  let repo: SessionRepository;
+  let sent: MailMessage[];
+  let failWith: Error | null;
+  let mailer: Mailer;
+
+  beforeEach(() => {
+    repo = new SessionRepository(storage());
+    sent = [];
+    failWith = null;
+    mailer = new Mailer(repo, {
+      from: "openctl <noreply@openctl.test>",
+      baseUrl: "https://openctl.test",
+      inviteLimiter: new RateLimiter({ windowMs: 60_000, maxRequests: 2 }),
+      transport: {
+        send: async (message) => {
+          if (failWith) throw failWith;
+          sent.push(message);
+          return { messageId: `<${sent.length}@openctl.test>` };
+        },
+      },
+    });
+  });
+
+  test("sends an invite with an unsubscribe link and logs it", async () => {
+    mailer.collaboratorInvited(email, "viewer");
+    await mailer.drain();
+
+    expect(sent).toHaveLength(1);
+    const [message] = sent;
+    expect(message!.to).toBe("alice@example.com");
+    expect(message!.subject).toBe("Bob shared a session with you on openctl");
+    expect(message!.text).toContain("https://openctl.test/sessions/sess-1");
+
+    const preferences = await repo.getOrCreateEmailPreferences("alice@example.com", "unused");
+    const unsubscribeUrl = `https://openctl.test/api/email/unsubscribe?token=${encodeURIComponent(preferences.unsubscribe_token)}`;
+    expect(message!.text).toContain(unsubscribeUrl);
+    expect(message!.headers).toEqual({
+      "List-Unsubscribe": `<${unsubscribeUrl}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    });
+
+    const log = await repo.getEmailLog({ sessionId: "sess-1" });
+    expect(log).toHaveLength(1);
+    expect(log[0]).toMatchObject({
+      to_email: "alice@example.com",
+      template: "collaborator_invited",
+      status: "sent",
+      message_id: "<1@openctl.test>",
+      error: null,
+    });
+  });
+
+  test("reuses the unsubscribe token across emails", async () => {
+    mailer.collaboratorInvited(email, "viewer");
+    await mailer.drain();
+    mailer.collaboratorRoleChanged(email, "viewer", "contributor");
+    await mailer.drain();
+
+    const token = (text: string) => text.match(/token=([^\s]+)/)?.[1];
+    expect(token(sent[1]!.text)).toBe(token(sent[0]!.text)!);
+    expect(sent[1]!.text).toContain("from viewer to contributor");
+  });
+
+  test("skips unsubscribed addresses", async () => {
+    const preferences = await repo.getOrCreateEmailPreferences("alice@example.com", "token-1");
+    await repo.setEmailUnsubscribed(preferences.unsubscribe_token, true);
+
+    mailer.collaboratorRemoved(email);
+    await mailer.drain();
+
+    expect(sent).toHaveLength(0);
+    const [entry] = await repo.getEmailLog({ sessionId: "sess-1" });
+    expect(entry).toMatchObject({ template: "collaborator_removed", status: "skipped" });
+  });
+
+  test("throttles invitations per inviting user", async () => {
+    for (const to of ["a@example.com", "b@example.com", "c@example.com"]) {
+      mailer.collaboratorInvited({ ...email, to }, "viewer");
+      await mailer.drain();
+    }
+    // Other templates aren't throttled
+    mailer.collaboratorRemoved(email);
+    await mailer.drain();
+
+    expect(sent.map((m) => m.to)).toEqual(["a@example.com", "b@example.com", "alice@example.com"]);
+    const [skipped] = await repo.getEmailLog({ status: "skipped" });
+    expect(skipped).toMatchObject({ to_email: "c@example.com", error: "Invitation email limit reached" });
+  });
+
+  test("logs delivery failures", async () => {
+    failWith = new Error("SMTP RCPT failed: 550 No such user");
+
+    mailer.collaboratorInvited(email, "contributor");
+    await mailer.drain();
+
+    const failed = await repo.getEmailLog({ status: "failed" });
+    expect(failed).toHaveLength(1);
+    expect(failed[0]).toMatchObject({ message_id: null, error: "SMTP RCPT failed: 550 No such user" });
+  });
+
+  test("resubscribing clears the unsubscribe", async () => {
+    await repo.getOrCreateEmailPreferences("alice@example.com", "token-1");
+    expect((await repo.setEmailUnsubscribed("token-1", true))?.unsubscribed_at).not.toBeNull();
+    expect((await repo.setEmailUnsubscribed("token-1", false))?.unsubscribed_at).toBeNull();
+    expect(await repo.setEmailUnsubscribed("unknown", true)).toBeNull();
+  });
+});
+
+describe("createMailer", () => {
+  const repo = {} as SessionRepository;
+
+  test("is disabled without SMTP_URL", () => {
+    expect(createMailer(repo, {})).toBeNull();
+  });
+
+  test("requires MAIL_FROM and PUBLIC_URL", () => {
+    expect(() => createMailer(repo, { SMTP_URL: "smtp://mail.test" })).toThrow("MAIL_FROM and PUBLIC_URL");
+    expect(createMailer(repo, {
+      SMTP_URL: "smtp://mail.test",
+      MAIL_FROM: "noreply@openctl.test",
+      PUBLIC_URL: "https://openctl.test/",
+    })).toBeInstanceOf(Mailer);
+  });
+});
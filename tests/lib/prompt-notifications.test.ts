@@ -0,0 +1,174 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import {
+  PromptNotifier,
+  buildActionUrl,
+  loadPromptNotificationConfig,
+  verifyAction,
+  type PromptNotificationConfig,
+} from "../../src/lib/prompt-notifications";
+
+const config: PromptNotificationConfig = {
+  url: "https://hooks.slack.com/services/T000/B000/XXX",
+  format: "slack",
+  delayMs: 0,
+  baseUrl: "https://openctl.test",
+  actionSecret: "action-secret",
+  actionTtlMs: 60 * 60 * 1000,
+};
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("loadPromptNotificationConfig", () => {
+  test("returns null when no channel is configured", () => {
+    expect(loadPromptNotificationConfig({})).toBeNull();
+  });
+
+  test("detects Slack incoming webhooks and reads the delay", () => {
+    const loaded = loadPromptNotificationConfig({
+      PROMPT_NOTIFICATION_URL: "https://hooks.slack.com/services/T000/B000/XXX",
+      PROMPT_NOTIFICATION_DELAY: "30",
+      PUBLIC_URL: "https://openctl.test/",
+    });
+    expect(loaded).toMatchObject({ format: "slack", delayMs: 30_000, baseUrl: "https://openctl.test", actionSecret: null });
+
+    const generic = loadPromptNotificationConfig({
+      PROMPT_NOTIFICATION_URL: "https://bots.example.com/openctl",
+      PUBLIC_URL: "https://openctl.test",
+    });
+    expect(generic?.format).toBe("webhook");
+  });
+
+  test("rejects invalid configuration", () => {
+    expect(() => loadPromptNotificationConfig({ PROMPT_NOTIFICATION_URL: "https://bots.example.com" })).toThrow(
+      "PUBLIC_URL"
+    );
+    expect(() =>
+      loadPromptNotificationConfig({
+        PROMPT_NOTIFICATION_URL: "https://bots.example.com",
+        PUBLIC_URL: "https://openctl.test",
+        PROMPT_NOTIFICATION_FORMAT: "teams",
+      })
+    ).toThrow("PROMPT_NOTIFICATION_FORMAT");
+  });
+});
+
+describe("action URLs", () => {
+  const now = new Date("2026-01-01T00:00:00Z");
+  const expires = Math.floor(now.getTime() / 1000) + 60;
+
+  function paramsOf(url: string) {
+    return new URL(url).searchParams;
+  }
+
+  test("round-trips a signed action", () => {
+    const url = buildActionUrl("https://openctl.test", "secret", {
+      sessionId: "sess_1",
+      requestId: "req_1",
+      decision: "allow",
+      expires,
+    });
+
+    expect(url.startsWith("https://openctl.test/api/sessions/sess_1/prompt-action?")).toBe(true);
+    expect(verifyAction("secret", "sess_1", paramsOf(url), now)).toEqual({
+      sessionId: "sess_1",
+      requestId: "req_1",
+      decision: "allow",
+      expires,
+    });
+  });
+
+  test("rejects tampered, foreign and expired actions", () => {
+    const url = buildActionUrl("https://openctl.test", "secret", {
+      sessionId: "sess_1",
+      requestId: "req_1",
+      decision: "deny",
+      expires,
+    });
+
+    const flipped = paramsOf(url);
+    flipped.set("decision", "allow");
+    expect(verifyAction("secret", "sess_1", flipped, now)).toBeNull();
+    expect(verifyAction("secret", "sess_2", paramsOf(url), now)).toBeNull();
+    expect(verifyAction("other-secret", "sess_1", paramsOf(url), now)).toBeNull();
+    expect(verifyAction("secret", "sess_1", paramsOf(url), new Date((expires + 1) * 1000))).toBeNull();
+  });
+});
+
+describe("PromptNotifier", () => {
+  let sent: Array<Record<string, any>>;
+  let pending: Set<string>;
+
+  function createNotifier(overrides: Partial<PromptNotificationConfig> = {}) {
+    return new PromptNotifier({ ...config, ...overrides }, {
+      isPending: (_sessionId, promptId) => pending.has(promptId),
+      fetch: async (_url, init) => {
+        sent.push(JSON.parse(init.body as string));
+        return new Response("ok");
+      },
+    });
+  }
+
+  beforeEach(() => {
+    sent = [];
+    pending = new Set();
+  });
+
+  test("posts a Slack message with signed allow/deny buttons for unanswered permission prompts", async () => {
+    pending.add("req_1");
+    const notifier = createNotifier();
+
+    notifier.promptPending("sess_1", { kind: "permission", id: "req_1", tool: "Bash" });
+    await wait(10);
+
+    expect(sent).toHaveLength(1);
+    const [message] = sent;
+    expect(message!.text).toBe("Permission needed for Bash");
+    expect(message!.blocks[0].text.text).toBe("Permission needed for Bash");
+
+    const buttons = message!.blocks[1].elements;
+    expect(buttons.map((b: { text: { text: string } }) => b.text.text)).toEqual(["Open session", "Allow", "Deny"]);
+    expect(buttons[0].url).toBe("https://openctl.test/sessions/sess_1");
+    expect(verifyAction("action-secret", "sess_1", new URL(buttons[1].url).searchParams)?.decision).toBe("allow");
+  });
+
+  test("skips prompts answered before the delay elapsed", async () => {
+    const notifier = createNotifier();
+
+    notifier.promptPending("sess_1", { kind: "permission", id: "req_1", tool: "Bash" });
+    await wait(10);
+
+    expect(sent).toHaveLength(0);
+  });
+
+  test("cancels the scheduled notification", async () => {
+    pending.add("tool_1");
+    const notifier = createNotifier({ delayMs: 20 });
+
+    notifier.promptPending("sess_1", { kind: "question", id: "tool_1" });
+    notifier.cancel("sess_1");
+    await wait(40);
+
+    expect(sent).toHaveLength(0);
+  });
+
+  test("sends generic webhook payloads without actions for questions", async () => {
+    pending.add("tool_1");
+    const notifier = createNotifier({ format: "webhook" });
+
+    notifier.promptPending("sess_1", { kind: "question", id: "tool_1" });
+    await wait(10);
+
+    expect(sent).toEqual([
+      {
+        event: "question.pending",
+        session_id: "sess_1",
+        session_url: "https://openctl.test/sessions/sess_1",
+        text: "A question is waiting for an answer",
+        prompt: { kind: "question", id: "tool_1" },
+        actions: null,
+      },
+    ]);
+  });
+});
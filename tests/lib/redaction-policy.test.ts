@@ -0,0 +1,294 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { initializeDatabase, type ContentBlock } from "../../src/db/schema";
+import { SessionRepository } from "../../src/db/repository";
+import { createApiRoutes } from "../../src/routes/api";
+import { RedactionPolicy, loadRedactionPolicy } from "../../src/lib/redaction-policy";
+import { createRelayRedaction, type RelayRedaction } from "../../src/lib/relay-redaction";
+import { AnalyticsRecorder } from "../../src/analytics/events";
+import type { SessionOutputMessage } from "../../src/types/daemon-ws";
+
+// Built at runtime so the fixtures don't look like real credentials to scanners
+const GITHUB_TOKEN = "ghp_" + "A1b2C3d4E5".repeat(4);
+const AWS_KEY = "AKIA" + "ABCDEFGHIJKLMNOP";
+
+function message(text: string, blocks: ContentBlock[] = [{ type: "text", text }]) {
+  return { content: text, content_blocks: blocks };
+}
+
+describe("RedactionPolicy", () => {
+  test("masks built-in detectors by default", () => {
+    const policy = new RedactionPolicy({});
+    const result = policy.applyToMessages([
+      message(`token ${GITHUB_TOKEN}`, [
+        { type: "text", text: `token ${GITHUB_TOKEN}` },
+        { type: "tool_use", id: "t1", name: "Bash", input: { command: `export AWS=${AWS_KEY}` } },
+      ]),
+    ]);
+
+    expect(result.isOk()).toBe(true);
+    const { value, hits, masked } = result.unwrap();
+    expect(value[0]!.content).toBe("token [REDACTED:github_token]");
+    expect(value[0]!.content_blocks[1]).toMatchObject({ input: { command: "export AWS=[REDACTED:aws_access_key]" } });
+    expect(masked).toBe(2);
+    expect(hits).toEqual([
+      { rule: "github_token", action: "mask", count: 1 },
+      { rule: "aws_access_key", action: "mask", count: 1 },
+    ]);
+  });
+
+  test("rejects content matching a reject rule without masking anything", () => {
+    const policy = new RedactionPolicy({
+      detectors: ["email"],
+      patterns: [{ name: "internal_host", pattern: "corp\\.acme\\.internal", action: "reject" }],
+    });
+
+    const result = policy.applyToDiffs([{ diff_content: "+url = https://corp.acme.internal\n+owner = a@b.io" }]);
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error._tag).toBe("ContentRejectedError");
+      expect(result.error.rules).toEqual(["internal_host"]);
+    }
+  });
+
+  test("enforces only the listed built-in detectors", () => {
+    const policy = new RedactionPolicy({ detectors: ["email"] });
+    const result = policy.applyToValue([{ content: `${GITHUB_TOKEN} ops@example.com` }]).unwrap();
+
+    expect(result.value).toEqual([{ content: `${GITHUB_TOKEN} [REDACTED:email]` }]);
+    expect(result.masked).toBe(1);
+  });
+
+  test("applies the default action to built-in detectors", () => {
+    const policy = new RedactionPolicy({ action: "reject", detectors: ["github_token"] });
+    expect(policy.applyToValue(`token ${GITHUB_TOKEN}`).isErr()).toBe(true);
+    expect(policy.applyToValue("nothing to see").unwrap().hits).toEqual([]);
+  });
+});
+
+describe("loadRedactionPolicy", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "redaction-policy-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("returns null when no policy is configured", () => {
+    expect(loadRedactionPolicy({})).toBeNull();
+  });
+
+  test("reads the policy from a file", () => {
+    const path = join(dir, "policy.json");
+    writeFileSync(path, JSON.stringify({ detectors: false, patterns: [{ name: "ticket", pattern: "SEC-\\d+" }] }));
+
+    const policy = loadRedactionPolicy({ REDACTION_POLICY_FILE: path });
+    expect(policy!.applyToValue("see SEC-42").unwrap().value).toBe("see [REDACTED:ticket]");
+  });
+
+  test("reads an inline policy", () => {
+    const policy = loadRedactionPolicy({ REDACTION_POLICY: JSON.stringify({ detectors: ["email"] }) });
+    expect(policy!.applyToValue("me@example.com").unwrap().value).toBe("[REDACTED:email]");
+  });
+
+  test("throws on invalid configuration", () => {
+    expect(() => loadRedactionPolicy({ REDACTION_POLICY: "{not json" })).toThrow("Invalid redaction policy");
+    expect(() =>
+      loadRedactionPolicy({ REDACTION_POLICY: JSON.stringify({ patterns: [{ name: "broken", pattern: "(" }] }) })
+    ).toThrow("Invalid redaction policy");
+  });
+});
+
+describe("API enforcement", () => {
+  const clientId = "policy-client";
+  let db: Database;
+  let repo: SessionRepository;
+  let api: ReturnType<typeof createApiRoutes>;
+  let sessionId: string;
+
+  function post(path: string, body: unknown): Request {
+    return new Request(`http://localhost${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Openctl-Client-ID": clientId },
+      body: JSON.stringify(body),
+    });
+  }
+
+  beforeEach(async () => {
+    db = initializeDatabase(":memory:");
+    repo = new SessionRepository(db);
+    api = createApiRoutes(repo, {
+      redactionPolicy: new RedactionPolicy({
+        detectors: ["github_token"],
+        patterns: [{ name: "customer_id", pattern: "CUST-\\d{6}", action: "reject" }],
+      }),
+    });
+
+    const res = await api.createLiveSession(post("/api/sessions/live", { title: "Policy", project_path: "/tmp" }));
+    sessionId = (await res.json()).id;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test("masks pushed messages before storing them", async () => {
+    const res = await api.pushMessages(
+      post(`/api/sessions/${sessionId}/messages`, {
+        messages: [{ role: "user", content: `use ${GITHUB_TOKEN}` }],
+        redaction_count: 2,
+      }),
+      sessionId
+    );
+
+    expect(res.status).toBe(200);
+    const [stored] = await repo.getMessages(sessionId);
+    expect(stored!.content).toBe("use [REDACTED:github_token]");
+    expect((await repo.getSession(sessionId)).unwrap().redaction_count).toBe(3);
+
+    const events = db
+      .query("SELECT properties FROM analytics_events WHERE event_type = 'content.redacted'")
+      .all() as Array<{ properties: string }>;
+    expect(events.map((e) => JSON.parse(e.properties))).toEqual([
+      { source: "messages", action: "mask", rules: { github_token: 1 } },
+    ]);
+  });
+
+  test("rejects pushed messages matching a reject rule", async () => {
+    const res = await api.pushMessages(
+      post(`/api/sessions/${sessionId}/messages`, { messages: [{ role: "user", content: "customer CUST-123456" }] }),
+      sessionId
+    );
+
+    expect(res.status).toBe(422);
+    expect(await res.json()).toEqual({ error: "Content rejected by redaction policy", rules: ["customer_id"] });
+    expect(await repo.getMessages(sessionId)).toEqual([]);
+
+    const today = new Date().toISOString().slice(0, 10);
+    expect((await repo.getStatsSummary(today, today)).content_rejected).toBe(1);
+  });
+
+  test("rejects a final diff without completing the session", async () => {
+    const diff = "diff --git a/a.txt b/a.txt\n--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-x\n+CUST-654321\n";
+    const res = await api.completeSession(post(`/api/sessions/${sessionId}/complete`, { final_diff: diff }), sessionId);
+
+    expect(res.status).toBe(422);
+    expect((await repo.getSession(sessionId)).unwrap().status).toBe("live");
+    expect(await repo.getDiffs(sessionId)).toEqual([]);
+  });
+});
+
+describe("Daemon relay enforcement", () => {
+  let db: Database;
+  let repo: SessionRepository;
+  let relay: RelayRedaction;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    db = initializeDatabase(":memory:");
+    repo = new SessionRepository(db);
+    relay = createRelayRedaction(
+      new RedactionPolicy({
+        detectors: ["github_token"],
+        patterns: [{ name: "customer_id", pattern: "CUST-\\d{6}", action: "reject" }],
+      }),
+      { repo, analytics: new AnalyticsRecorder(repo) }
+    );
+    const res = await createApiRoutes(repo).createLiveSession(
+      new Request("http://localhost/api/sessions/live", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Openctl-Client-ID": "relay-client" },
+        body: JSON.stringify({ title: "Relay", project_path: "/tmp" }),
+      })
+    );
+    sessionId = (await res.json()).id;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test("masks secrets in spawned session output", async () => {
+    const output: SessionOutputMessage = {
+      type: "session_output",
+      session_id: "spawn_policy",
+      messages: [
+        {
+          type: "assistant",
+          message: {
+            id: "msg_1",
+            role: "assistant",
+            content: [
+              { type: "text", text: `token ${GITHUB_TOKEN}` },
+              { type: "tool_use", id: "toolu_1", name: "Bash", input: { command: `gh auth login ${GITHUB_TOKEN}` } },
+            ],
+          },
+        },
+      ],
+    };
+
+    const result = await relay.output(sessionId, "relay-client", output.messages);
+
+    const [relayed] = result.unwrap();
+    expect(JSON.stringify(relayed)).not.toContain(GITHUB_TOKEN);
+    expect(relayed!.message!.content[0]!.text).toBe("token [REDACTED:github_token]");
+    expect(relayed!.message!.id).toBe("msg_1");
+    expect((await repo.getSession(sessionId)).unwrap().redaction_count).toBe(2);
+
+    const events = db
+      .query("SELECT properties FROM analytics_events WHERE event_type = 'content.redacted'")
+      .all() as Array<{ properties: string }>;
+    expect(events.map((e) => JSON.parse(e.properties))).toEqual([
+      { source: "messages", action: "mask", rules: { github_token: 2 } },
+    ]);
+  });
+
+  test("rejects spawned session diffs and commits matching a reject rule", async () => {
+    const diff = {
+      filename: "a.txt",
+      diff_content: "@@ -1 +1 @@\n-x\n+CUST-654321",
+      additions: 1,
+      deletions: 1,
+      is_session_relevant: true,
+    };
+    const commit = { sha: "abc", message: `Add ${GITHUB_TOKEN}`, author: null, committed_at: null };
+
+    const rejected = await relay.diff(sessionId, "relay-client", [diff], []);
+    expect(rejected.isErr()).toBe(true);
+
+    const masked = await relay.diff(sessionId, "relay-client", [{ ...diff, diff_content: "+ok" }], [commit]);
+    expect(masked.unwrap().commits[0]!.message).toBe("Add [REDACTED:github_token]");
+  });
+
+  test("masks secrets split across relayed deltas", () => {
+    const prose = "Some text before the secret.\n".repeat(20);
+    const chunks = [`${prose}token ${GITHUB_TOKEN.slice(0, 20)}`, `${GITHUB_TOKEN.slice(20)} done\n${prose}`];
+
+    const streamed = chunks.flatMap((text) =>
+      relay.deltas("spawn_policy", "msg_1", [{ index: 0, block_type: "text", text }]).unwrap()
+    );
+    // The next block completes the first one
+    streamed.push(...relay.deltas("spawn_policy", "msg_1", [{ index: 1, block_type: "text", text: "next" }]).unwrap());
+
+    expect(streamed.filter((d) => d.index === 0).map((d) => d.text).join("")).toBe(
+      `${prose}token [REDACTED:github_token] done\n${prose}`
+    );
+  });
+
+  test("masks permission prompts, including matches of reject rules", () => {
+    const prompt = relay.prompt({
+      input: { command: `curl -H "Authorization: ${GITHUB_TOKEN}" /customers/CUST-123456` },
+      decision_reason: "Bash command requires approval",
+    });
+
+    expect(prompt.input.command).toBe('curl -H "Authorization: [REDACTED:github_token]" /customers/[REDACTED:customer_id]');
+    expect(prompt.decision_reason).toBe("Bash command requires approval");
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, test, expect } from "bun:test";
+import { encodeRepoId, decodeRepoId, getRepoDisplayName, getRepoKey } from "../../src/lib/repositories";
+
+describe("repository ids", () => {
+  test("round-trips repo keys through URL-safe ids", () => {
+    for (const key of ["https://github.com/acme/widgets", "/Users/dev/projects/füße", "a"]) {
+      const id = encodeRepoId(key);
+      expect(id).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(decodeRepoId(id)).toBe(key);
+    }
+  });
+
+  test("rejects invalid ids", () => {
+    expect(decodeRepoId("")).toBeNull();
+    expect(decodeRepoId("not/base64")).toBeNull();
+  });
+
+  test("prefers repo_url over project_path", () => {
+    expect(getRepoKey({ repo_url: "https://github.com/acme/widgets", project_path: "/work" })).toBe(
+      "https://github.com/acme/widgets"
+    );
+    expect(getRepoKey({ repo_url: null, project_path: "/work" })).toBe("/work");
+    expect(getRepoKey({ repo_url: null, project_path: null })).toBeNull();
+  });
+
+  test("formats display names", () => {
+    expect(getRepoDisplayName("https://github.com/acme/widgets.git")).toBe("acme/widgets");
+    expect(getRepoDisplayName("git@github.com:acme/widgets.git")).toBe("acme/widgets");
+    expect(getRepoDisplayName("/Users/dev/projects/app/")).toBe("app");
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import { cluster, REVIEW_REQUESTS_KEY } from "../../src/lib/cluster";
+import {
+  buildReviewDiff,
+  getPendingReview,
+  setPendingReview,
+  updatePendingReview,
+  finishPendingReview,
+  abandonDaemonReviews,
+  REVIEW_REQUEST_TTL_MS,
+  type PendingReview,
+} from "../../src/lib/review-requests";
+import type { Diff } from "../../src/db/schema";
+
+function diff(filename: string, diffContent: string, relevant: boolean): Diff {
+  return {
+    id: 0,
+    session_id: "sess",
+    filename,
+    diff_content: diffContent,
+    diff_index: 0,
+    additions: 1,
+    deletions: 0,
+    is_session_relevant: relevant,
+    status: "modified",
+  };
+}
+
+function pending(requestId: string, clientId = "daemon-a", requestedAt = new Date().toISOString()): PendingReview {
+  return {
+    request_id: requestId,
+    client_id: clientId,
+    stage: "queued",
+    requested_by: "user_1",
+    requested_at: requestedAt,
+  };
+}
+
+describe("buildReviewDiff", () => {
+  test("reviews only session-relevant files when there are any", () => {
+    const result = buildReviewDiff([
+      diff("a.ts", "diff --git a/a.ts b/a.ts\n+one\n", true),
+      diff("b.ts", "diff --git a/b.ts b/b.ts\n+two\n", false),
+      diff("c.ts", "diff --git a/c.ts b/c.ts\n+three\n", true),
+    ]);
+    expect(result).toBe("diff --git a/a.ts b/a.ts\n+one\ndiff --git a/c.ts b/c.ts\n+three");
+  });
+
+  test("falls back to every file when none are relevant", () => {
+    const result = buildReviewDiff([diff("a.ts", "+one", false), diff("b.ts", "+two", false)]);
+    expect(result).toBe("+one\n+two");
+  });
+
+  test("returns an empty diff for sessions without diffs", () => {
+    expect(buildReviewDiff([])).toBe("");
+  });
+});
+
+describe("pending reviews", () => {
+  beforeEach(async () => {
+    for (const sessionId of Object.keys(await cluster.getAllShared(REVIEW_REQUESTS_KEY))) {
+      await cluster.deleteShared(REVIEW_REQUESTS_KEY, sessionId);
+    }
+  });
+
+  test("tracks a request through its stages", async () => {
+    await setPendingReview("sess-1", pending("req-1"));
+    expect((await getPendingReview("sess-1"))?.stage).toBe("queued");
+
+    const updated = await updatePendingReview("sess-1", "req-1", "running");
+    expect(updated?.stage).toBe("running");
+    expect((await getPendingReview("sess-1"))?.stage).toBe("running");
+
+    expect(await finishPendingReview("sess-1", "req-1")).toBe(true);
+    expect(await getPendingReview("sess-1")).toBeNull();
+  });
+
+  test("ignores progress for other requests", async () => {
+    await setPendingReview("sess-1", pending("req-2"));
+
+    expect(await updatePendingReview("sess-1", "req-1", "running")).toBeNull();
+    expect((await getPendingReview("sess-1"))?.stage).toBe("queued");
+  });
+
+  test("rejects results superseded by a newer request", async () => {
+    await setPendingReview("sess-1", pending("req-2"));
+
+    expect(await finishPendingReview("sess-1", "req-1")).toBe(false);
+    expect((await getPendingReview("sess-1"))?.request_id).toBe("req-2");
+  });
+
+  test("accepts results arriving after their request was cleared", async () => {
+    expect(await finishPendingReview("sess-1", "req-1")).toBe(true);
+  });
+
+  test("expires requests older than the TTL", async () => {
+    const requestedAt = new Date(Date.now() - REVIEW_REQUEST_TTL_MS - 1000).toISOString();
+    await setPendingReview("sess-1", pending("req-1", "daemon-a", requestedAt));
+
+    expect(await getPendingReview("sess-1")).toBeNull();
+    expect(await cluster.getShared(REVIEW_REQUESTS_KEY, "sess-1")).toBeNull();
+  });
+
+  test("abandons the reviews of a disconnected daemon", async () => {
+    await setPendingReview("sess-1", pending("req-1", "daemon-a"));
+    await setPendingReview("sess-2", pending("req-2", "daemon-b"));
+    await setPendingReview("sess-3", pending("req-3", "daemon-a"));
+
+    const abandoned = await abandonDaemonReviews("daemon-a");
+    expect(abandoned.map(([sessionId, p]) => [sessionId, p.request_id]).sort()).toEqual([
+      ["sess-1", "req-1"],
+      ["sess-3", "req-3"],
+    ]);
+    expect(await getPendingReview("sess-1")).toBeNull();
+    expect((await getPendingReview("sess-2"))?.request_id).toBe("req-2");
+  });
+});
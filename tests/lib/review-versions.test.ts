@@ -0,0 +1,102 @@
+import { describe, test, expect } from "bun:test";
+import { diffLineAt, annotationOutcome, placeAnnotations } from "../../src/lib/review-versions";
+import type { Annotation, Diff } from "../../src/db/schema";
+
+const DIFF = [
+  "diff --git a/src/a.ts b/src/a.ts",
+  "--- a/src/a.ts",
+  "+++ b/src/a.ts",
+  "@@ -1,4 +1,4 @@",
+  " import { x } from './x';",
+  "-const a = 1;",
+  "+const a = 2;",
+  "--- not a header",
+  " export { a };",
+  "@@ -10,2 +10,3 @@",
+  " function f() {",
+  "+  return a;",
+  " }",
+].join("\n");
+
+function diff(id: number, filename: string, diffContent: string): Diff {
+  return {
+    id,
+    session_id: "sess",
+    filename,
+    diff_content: diffContent,
+    diff_index: 0,
+    additions: 1,
+    deletions: 0,
+    is_session_relevant: true,
+    status: "modified",
+  };
+}
+
+function annotation(filename: string, lineNumber: number, lineContent: string | null): Annotation {
+  return {
+    id: lineNumber,
+    review_id: 1,
+    diff_id: null,
+    filename,
+    line_number: lineNumber,
+    line_content: lineContent,
+    side: "additions",
+    annotation_type: "issue",
+    content: "Finding",
+  };
+}
+
+describe("diffLineAt", () => {
+  test("finds lines on the new side", () => {
+    expect(diffLineAt(DIFF, "additions", 1)).toBe("import { x } from './x';");
+    expect(diffLineAt(DIFF, "additions", 2)).toBe("const a = 2;");
+    expect(diffLineAt(DIFF, "additions", 3)).toBe("export { a };");
+    expect(diffLineAt(DIFF, "additions", 11)).toBe("  return a;");
+  });
+
+  test("finds lines on the old side", () => {
+    expect(diffLineAt(DIFF, "deletions", 2)).toBe("const a = 1;");
+    expect(diffLineAt(DIFF, "deletions", 3)).toBe("-- not a header");
+    expect(diffLineAt(DIFF, "deletions", 11)).toBe("}");
+  });
+
+  test("returns null for lines outside the hunks", () => {
+    expect(diffLineAt(DIFF, "additions", 5)).toBeNull();
+    expect(diffLineAt(DIFF, "additions", 13)).toBeNull();
+    expect(diffLineAt("", "additions", 1)).toBeNull();
+  });
+});
+
+describe("annotationOutcome", () => {
+  const current = diff(1, "src/a.ts", DIFF);
+
+  test("is open while the line is unchanged", () => {
+    expect(annotationOutcome(annotation("src/a.ts", 2, "const a = 2;"), current)).toBe("open");
+  });
+
+  test("detects changed and removed lines", () => {
+    expect(annotationOutcome(annotation("src/a.ts", 2, "const a = 1;"), current)).toBe("line_changed");
+    expect(annotationOutcome(annotation("src/a.ts", 5, "gone"), current)).toBe("line_removed");
+    expect(annotationOutcome(annotation("src/a.ts", 2, "const a = 2;"), undefined)).toBe("line_removed");
+  });
+
+  test("only checks presence when the line text wasn't recorded", () => {
+    expect(annotationOutcome(annotation("src/a.ts", 2, null), current)).toBe("open");
+    expect(annotationOutcome(annotation("src/a.ts", 5, null), current)).toBe("line_removed");
+  });
+});
+
+describe("placeAnnotations", () => {
+  test("groups open annotations by current diff and lists resolved ones", () => {
+    const open = annotation("src/a.ts", 11, "  return a;");
+    const changed = annotation("src/a.ts", 2, "const a = 1;");
+    const fileGone = annotation("src/b.ts", 1, "x");
+
+    const { byDiff, resolved } = placeAnnotations([open, changed, fileGone], [diff(7, "src/a.ts", DIFF)]);
+    expect(byDiff).toEqual({ 7: [open] });
+    expect(resolved.map((a) => [a.filename, a.outcome])).toEqual([
+      ["src/a.ts", "line_changed"],
+      ["src/b.ts", "line_removed"],
+    ]);
+  });
+});
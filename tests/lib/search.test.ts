@@ -0,0 +1,34 @@
+import { describe, test, expect } from "bun:test";
+import { buildFtsQuery, parseSnippet, SNIPPET_MATCH_START, SNIPPET_MATCH_END } from "../../src/lib/search";
+
+describe("buildFtsQuery", () => {
+  test("quotes tokens and adds prefix match to the last token", () => {
+    expect(buildFtsQuery("fix websocket")).toBe('"fix" "websocket"*');
+  });
+
+  test("strips double quotes from tokens", () => {
+    expect(buildFtsQuery('"hello" wor"ld')).toBe('"hello" "world"*');
+  });
+
+  test("returns null for empty input", () => {
+    expect(buildFtsQuery("   ")).toBeNull();
+    expect(buildFtsQuery('""')).toBeNull();
+  });
+});
+
+describe("parseSnippet", () => {
+  const mark = (text: string) => `${SNIPPET_MATCH_START}${text}${SNIPPET_MATCH_END}`;
+
+  test("extracts highlight ranges", () => {
+    const result = parseSnippet(`fix the ${mark("websocket")} reconnect ${mark("logic")}`);
+    expect(result.snippet).toBe("fix the websocket reconnect logic");
+    expect(result.highlights).toEqual([[8, 17], [28, 33]]);
+  });
+
+  test("collapses whitespace without shifting highlights", () => {
+    const result = parseSnippet(`line one\n\n  ${mark("match")}\tafter`);
+    expect(result.snippet).toBe("line one match after");
+    const [start, end] = result.highlights[0]!;
+    expect(result.snippet.slice(start, end)).toBe("match");
+  });
+});
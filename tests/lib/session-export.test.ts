@@ -0,0 +1,114 @@
+import { describe, test, expect } from "bun:test";
+import { renderSessionHtml, renderSessionMarkdown } from "../../src/lib/session-export";
+import type { Diff, Message, Session } from "../../src/db/schema";
+
+const session: Session = {
+  id: "sess_export",
+  title: "Fix websocket reconnect",
+  description: "Reconnect with backoff",
+  claude_session_id: null,
+  agent_session_id: null,
+  pr_url: "https://github.com/acme/app/pull/12",
+  share_token: null,
+  project_path: "/work/app",
+  model: "claude-sonnet-4",
+  harness: "claude-code",
+  repo_url: null,
+  branch: null,
+  status: "complete",
+  visibility: "private",
+  org_id: null,
+  base_sha: null,
+  head_sha: null,
+  last_activity_at: null,
+  interactive: false,
+  remote: false,
+  input_tokens: 0,
+  output_tokens: 0,
+  cache_creation_tokens: 0,
+  cache_read_tokens: 0,
+  redaction_count: 0,
+  client_id: null,
+  user_id: null,
+  created_at: "2026-01-05 10:00:00",
+  updated_at: "2026-01-05 10:00:00",
+};
+
+function message(index: number, role: string, content_blocks: Message["content_blocks"]): Message {
+  return { id: index + 1, session_id: session.id, role, content: "", content_blocks, timestamp: null, message_index: index };
+}
+
+const messages: Message[] = [
+  message(0, "user", [{ type: "text", text: "Why does the socket drop?<system-reminder>internal</system-reminder>" }]),
+  message(1, "assistant", [
+    { type: "thinking", thinking: "Check the reconnect handler" },
+    { type: "text", text: "Let me look at the client." },
+  ]),
+  message(2, "assistant", [
+    { type: "tool_use", id: "toolu_1", name: "Bash", input: { command: "grep -n reconnect src/ws.ts" } },
+  ]),
+  message(3, "user", [{ type: "tool_result", tool_use_id: "toolu_1", content: "12: function reconnect() ```" }]),
+  message(4, "assistant", [{ type: "text", text: "Added exponential backoff." }]),
+];
+
+const diffs: Diff[] = [
+  {
+    id: 1,
+    session_id: session.id,
+    filename: "src/ws.ts",
+    diff_content: "--- a/src/ws.ts\n+++ b/src/ws.ts\n@@ -1 +1 @@\n-retry()\n+retryWithBackoff()\n",
+    diff_index: 0,
+    additions: 1,
+    deletions: 1,
+    is_session_relevant: true,
+    status: "modified",
+  },
+];
+
+describe("renderSessionMarkdown", () => {
+  test("renders metadata, grouped turns, tool calls and diffs", () => {
+    const md = renderSessionMarkdown(session, messages, diffs);
+
+    expect(md).toStartWith("# Fix websocket reconnect\n\n> Reconnect with backoff\n\n- **Project:** /work/app");
+    expect(md).toContain("- **Pull request:** https://github.com/acme/app/pull/12");
+    expect(md).toContain("## User\n\nWhy does the socket drop?");
+    expect(md).not.toContain("system-reminder");
+
+    // Consecutive assistant messages form one turn, and tool-result-only messages don't start one
+    expect(md.match(/## Assistant/g)).toHaveLength(1);
+    expect(md.match(/## User/g)).toHaveLength(1);
+
+    expect(md).toContain("<summary>Bash <code>grep -n reconnect src/ws.ts</code> ✓</summary>");
+    // Result containing a triple backtick gets a longer fence
+    expect(md).toContain("````\n12: function reconnect() ```\n````");
+    expect(md).toContain("### src/ws.ts (+1 -1)\n\n```diff\n--- a/src/ws.ts");
+  });
+
+  test("omits thinking blocks unless requested", () => {
+    expect(renderSessionMarkdown(session, messages, diffs)).not.toContain("Check the reconnect handler");
+    expect(renderSessionMarkdown(session, messages, diffs, { includeThinking: true })).toContain(
+      "<summary>Thinking</summary>\n\nCheck the reconnect handler"
+    );
+  });
+});
+
+describe("renderSessionHtml", () => {
+  test("renders a self-contained document with the web block renderer", () => {
+    const html = renderSessionHtml(session, messages, diffs);
+
+    expect(html).toStartWith("<!DOCTYPE html>");
+    expect(html).toContain("<title>Fix websocket reconnect</title>");
+    expect(html).toContain('class="tool-block');
+    expect(html).toContain('data-toggle-tool="tool-toolu_1"');
+    expect(html).toContain('<span class="add">+retryWithBackoff()</span>');
+    expect(html).not.toContain("Check the reconnect handler");
+
+    // No external stylesheets, scripts or fonts
+    expect(html).not.toMatch(/<(?:link|script)[^>]+(?:href|src)=/);
+  });
+
+  test("escapes session metadata", () => {
+    const html = renderSessionHtml({ ...session, title: "<img src=x onerror=alert(1)>" }, [], []);
+    expect(html).toContain("<title>&lt;img src=x onerror=alert(1)&gt;</title>");
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import { SessionRepository } from "../../src/db/repository";
+import { WebhookDispatcher, signWebhookPayload } from "../../src/lib/webhooks";
+import { isPrivateAddress } from "../../src/lib/private-addresses";
+import type { Webhook } from "../../src/db/schema";
+import { STORAGE_BACKENDS, useTestStorage } from "../db/storage-backends";
+
+interface SentRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+  tls?: BunFetchRequestInit["tls"];
+}
+
+describe.each(STORAGE_BACKENDS)("WebhookDispatcher (%s)", (backend) => {
+  const storage = useTestStorage(backend);
+  let repo: SessionRepository;
+  let sent: SentRequest[];
+  let responses: Array<number | Error>;
+  let now: Date;
+  let resolved: Record<string, string[]>;
+
+  function createDispatcher() {
+    return new WebhookDispatcher(repo, {
+      baseUrl: "https://openctl.test",
+      retryDelaysMs: [60_000, 300_000],
+      now: () => now,
+      resolveHost: async (hostname) => resolved[hostname] ?? ["203.0.113.10"],
+      allowPrivateTargets: false,
+      fetch: async (url, init) => {
+        sent.push({ url, headers: init.headers as Record<string, string>, body: init.body as string, tls: init.tls });
+        const response = responses.shift() ?? 200;
+        if (response instanceof Error) throw response;
+        return new Response("ok", { status: response });
+      },
+    });
+  }
+
+  async function createSession(id: string, userId = "user-1") {
+    await repo.createSession({
+      id,
+      title: "Webhook session",
+      description: null,
+      claude_session_id: null,
+      agent_session_id: null,
+      pr_url: null,
+      share_token: null,
+      project_path: "/tmp/project",
+      model: null,
+      harness: "claude-code",
+      repo_url: null,
+      branch: null,
+      status: "live",
+      visibility: "private",
+      last_activity_at: null,
+      interactive: false,
+      remote: false,
+      input_tokens: 0,
+      output_tokens: 0,
+      cache_creation_tokens: 0,
+      cache_read_tokens: 0,
+      redaction_count: 0,
+    }, undefined, userId);
+  }
+
+  function createWebhook(overrides: Partial<Webhook> = {}) {
+    return repo.createWebhook({
+      id: "wh_1",
+      user_id: "user-1",
+      client_id: null,
+      org_id: null,
+      url: "https://hooks.test/openctl",
+      secret: "whsec_test",
+      events: ["session.created", "session.completed"],
+      description: null,
+      active: true,
+      ...overrides,
+    });
+  }
+
+  beforeEach(() => {
+    repo = new SessionRepository(storage());
+    sent = [];
+    responses = [];
+    resolved = {};
+    now = new Date("2026-01-01T00:00:00Z");
+  });
+
+  test("delivers subscribed events with a verifiable signature", async () => {
+    await createSession("sess_1");
+    await createWebhook();
+    const webhooks = createDispatcher();
+
+    await webhooks.emit("session.created", "sess_1");
+    await webhooks.emit("diff.updated", "sess_1");
+    await webhooks.drain();
+
+    expect(sent).toHaveLength(1);
+    const [request] = sent;
+    expect(request!.url).toBe("https://203.0.113.10/openctl");
+    expect(request!.headers.Host).toBe("hooks.test");
+    expect(request!.tls?.serverName).toBe("hooks.test");
+    expect(request!.headers["X-Openctl-Event"]).toBe("session.created");
+    expect(request!.headers["X-Openctl-Signature"]).toBe(
+      signWebhookPayload("whsec_test", Number(request!.headers["X-Openctl-Timestamp"]), request!.body)
+    );
+
+    const payload = JSON.parse(request!.body);
+    expect(payload.event).toBe("session.created");
+    expect(payload.data.session).toMatchObject({ id: "sess_1", url: "https://openctl.test/sessions/sess_1" });
+
+    const [delivery] = await repo.getWebhookDeliveries("wh_1");
+    expect(delivery).toMatchObject({ status: "succeeded", attempts: 1, response_status: 200 });
+  });
+
+  test("ignores other owners' and inactive webhooks", async () => {
+    await createSession("sess_1");
+    await createWebhook({ id: "wh_other", user_id: "user-2" });
+    await createWebhook({ id: "wh_inactive", active: false });
+    const webhooks = createDispatcher();
+
+    await webhooks.emit("session.created", "sess_1");
+    await webhooks.drain();
+
+    expect(sent).toHaveLength(0);
+  });
+
+  test("delivers events for organization sessions to the organization's webhooks", async () => {
+    await repo.createOrganization({ id: "org_acme", name: "Acme", slug: "acme", created_by_user_id: "user-2" }, "b@acme.test");
+    await createSession("sess_org");
+    await repo.setSessionVisibility("sess_org", "org", "org_acme");
+    await createSession("sess_private");
+    await createWebhook({ id: "wh_org", user_id: null, org_id: "org_acme", url: "https://org.test/hook" });
+    const webhooks = createDispatcher();
+
+    await webhooks.emit("session.created", "sess_org");
+    await webhooks.emit("session.created", "sess_private");
+    await webhooks.drain();
+
+    expect(sent.map((r) => [r.headers.Host, JSON.parse(r.body).data.session.id])).toEqual([["org.test", "sess_org"]]);
+    // Not one of the user's own webhooks
+    expect(await repo.getWebhooksForOwner("user-1", null)).toEqual([]);
+
+    await repo.deleteOrganization("org_acme");
+    expect(await repo.getWebhooksForOrg("org_acme")).toEqual([]);
+  });
+
+  test("retries failed deliveries with backoff until they are exhausted", async () => {
+    await createSession("sess_1");
+    await createWebhook();
+    const webhooks = createDispatcher();
+    responses = [500, new Error("connection refused"), 503];
+
+    await webhooks.emit("session.completed", "sess_1");
+    await webhooks.drain();
+
+    let [delivery] = await repo.getWebhookDeliveries("wh_1");
+    expect(delivery).toMatchObject({ status: "pending", attempts: 1, response_status: 500, error: "HTTP 500" });
+
+    // Not due yet
+    await webhooks.processDue();
+    expect(sent).toHaveLength(1);
+
+    now = new Date("2026-01-01T00:01:00Z");
+    await webhooks.processDue();
+    [delivery] = await repo.getWebhookDeliveries("wh_1");
+    expect(delivery).toMatchObject({ status: "pending", attempts: 2, error: "connection refused" });
+
+    now = new Date("2026-01-01T00:06:00Z");
+    await webhooks.processDue();
+    [delivery] = await repo.getWebhookDeliveries("wh_1");
+    expect(delivery).toMatchObject({ status: "failed", attempts: 3, response_status: 503, next_attempt_at: null });
+
+    // Every attempt of a delivery carries the same delivery ID
+    expect(new Set(sent.map((r) => r.headers["X-Openctl-Delivery"])).size).toBe(1);
+  });
+
+  test("sends a single test ping to disabled webhooks", async () => {
+    const webhook = await createWebhook({ active: false });
+    const webhooks = createDispatcher();
+    responses = [500];
+
+    const delivery = await webhooks.sendTest(webhook);
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]!.headers["X-Openctl-Event"]).toBe("ping");
+    expect(delivery).toMatchObject({ event_type: "ping", status: "failed", attempts: 1 });
+  });
+
+  test("refuses to deliver to private, loopback and link-local addresses", async () => {
+    resolved["internal.example"] = ["203.0.113.10", "10.0.0.5"];
+    const webhooks = createDispatcher();
+
+    for (const url of [
+      "http://127.0.0.1:3000/admin",
+      "http://169.254.169.254/latest/meta-data",
+      "http://[::1]/",
+      "http://localhost:8080/",
+      "https://internal.example/hook",
+    ]) {
+      const webhook = await createWebhook({ id: `wh_${sent.length}_${url.length}`, url });
+      const delivery = await webhooks.sendTest(webhook);
+      expect(delivery).toMatchObject({ status: "failed", response_body: null, error: "Webhook URL points to a private address" });
+    }
+    expect(sent).toEqual([]);
+  });
+
+  test("sends the request to the address it checked", async () => {
+    // The first answer passes the check; a rebinding server would answer 127.0.0.1 next
+    const answers = [["198.51.100.7"], ["127.0.0.1"]];
+    const webhooks = new WebhookDispatcher(repo, {
+      resolveHost: async () => answers.shift() ?? [],
+      allowPrivateTargets: false,
+      fetch: async (url, init) => {
+        sent.push({ url, headers: init.headers as Record<string, string>, body: init.body as string, tls: init.tls });
+        return new Response("ok");
+      },
+    });
+
+    const webhook = await createWebhook({ url: "http://rebind.example:8080/hook?x=1" });
+    const delivery = await webhooks.sendTest(webhook);
+
+    expect(delivery).toMatchObject({ status: "succeeded" });
+    expect(sent.map((r) => [r.url, r.headers.Host, r.tls])).toEqual([
+      ["http://198.51.100.7:8080/hook?x=1", "rebind.example:8080", undefined],
+    ]);
+    expect(answers).toHaveLength(1);
+  });
+
+  test("deletes the delivery log with its webhook", async () => {
+    await createSession("sess_1");
+    await createWebhook();
+    const webhooks = createDispatcher();
+
+    await webhooks.emit("session.created", "sess_1");
+    await webhooks.drain();
+    expect(await repo.deleteWebhook("wh_1")).toBe(true);
+
+    expect(await repo.getWebhookDeliveries("wh_1")).toEqual([]);
+  });
+});
+
+describe("isPrivateAddress", () => {
+  test("recognizes loopback, private, link-local and mapped addresses", () => {
+    for (const address of ["127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "::1", "fe80::1", "fd00:ec2::254", "::ffff:127.0.0.1", "::ffff:a00:1"]) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  });
+
+  test("allows public addresses", () => {
+    for (const address of ["8.8.8.8", "172.32.0.1", "203.0.113.10", "2606:4700::1111", "::ffff:808:808", "hooks.example.com"]) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+});
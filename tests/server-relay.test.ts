@@ -1,5 +1,6 @@
 import { describe, test, expect, beforeEach, afterEach } from "bun:test";
-import { spawnedSessionRegistry } from "../src/lib/spawned-session-registry";
+import { spawnedSessionRegistry, type SpawnedSessionStore } from "../src/lib/spawned-session-registry";
+import type { SpawnedSessionState } from "../src/db/schema";
 
 describe("SpawnedSessionRegistry", () => {
   beforeEach(() => {
@@ -236,6 +237,138 @@ describe("SpawnedSessionRegistry", () => {
 
     expect(spawnedSessionRegistry.getAllSessions().length).toBe(0);
   });
+
+  test("policy decisions keep the pending browser prompt", () => {
+    spawnedSessionRegistry.createSession({
+      id: "session-policy",
+      daemonClientId: "daemon-1",
+      cwd: "/test",
+      harness: "claude-code",
+      status: "running",
+      createdAt: new Date(),
+    });
+    spawnedSessionRegistry.setPendingPermission("session-policy", {
+      id: "req-1",
+      tool: "Bash",
+      description: "Run bash command: make deploy",
+      details: {},
+    });
+
+    spawnedSessionRegistry.recordPermissionDecision("session-policy", {
+      id: "req-2",
+      tool: "Read",
+      description: "Read file: src/index.ts",
+      decision: "allowed",
+      decidedBy: "policy",
+      rule: 'builtin: allow Read "**"',
+    });
+
+    const session = spawnedSessionRegistry.getSession("session-policy");
+    expect(session?.pendingPermissionRequest?.id).toBe("req-1");
+    expect(session?.permissionHistory).toEqual([
+      expect.objectContaining({ id: "req-2", decidedBy: "policy", rule: 'builtin: allow Read "**"' }),
+    ]);
+  });
+});
+
+describe("SpawnedSessionRegistry persistence", () => {
+  // In-memory stand-in for the spawned_sessions table
+  function memoryStore(initial: SpawnedSessionState[] = []): SpawnedSessionStore & { rows: Map<string, SpawnedSessionState> } {
+    const rows = new Map(initial.map((row) => [row.id, row]));
+    return {
+      rows,
+      async saveSpawnedSession(state) {
+        rows.set(state.id, { ...state, updated_at: "2026-01-01 00:00:00" });
+      },
+      async getSpawnedSessions() {
+        return Array.from(rows.values());
+      },
+      async deleteSpawnedSession(id) {
+        rows.delete(id);
+      },
+    };
+  }
+
+  afterEach(() => {
+    spawnedSessionRegistry.clear();
+  });
+
+  test("writes changes through to the store", async () => {
+    const store = memoryStore();
+    await spawnedSessionRegistry.restore(store);
+
+    spawnedSessionRegistry.createSession({
+      id: "spawn_persist",
+      daemonClientId: "daemon-1",
+      cwd: "/test",
+      harness: "claude-code",
+      status: "starting",
+      createdAt: new Date(),
+    });
+    spawnedSessionRegistry.updateSession("spawn_persist", { status: "running", claudeSessionId: "claude-1" });
+    spawnedSessionRegistry.setPendingQuestion("spawn_persist", { toolUseId: "toolu-1", question: "Which color?" });
+    await spawnedSessionRegistry.flush();
+
+    const row = store.rows.get("spawn_persist");
+    expect(row?.status).toBe("running");
+    expect(row?.daemon_client_id).toBe("daemon-1");
+    expect(row?.state).toMatchObject({
+      claudeSessionId: "claude-1",
+      pendingQuestion: { toolUseId: "toolu-1", question: "Which color?" },
+    });
+
+    spawnedSessionRegistry.deleteSession("spawn_persist");
+    await spawnedSessionRegistry.flush();
+    expect(store.rows.has("spawn_persist")).toBe(false);
+  });
+
+  test("restores unfinished sessions as disconnected and drops finished ones", async () => {
+    // Persist two sessions, then simulate a restart with a fresh registry
+    const store = memoryStore();
+    await spawnedSessionRegistry.restore(store);
+    for (const [id, status] of [["spawn_running", "running"], ["spawn_done", "ended"]] as const) {
+      spawnedSessionRegistry.createSession({
+        id,
+        daemonClientId: "daemon-1",
+        cwd: "/test",
+        harness: "claude-code",
+        status,
+        claudeSessionId: `claude-${id}`,
+        createdAt: new Date("2026-01-01T00:00:00Z"),
+      });
+    }
+    spawnedSessionRegistry.setPendingPermission("spawn_running", {
+      id: "req-1",
+      tool: "Bash",
+      description: "Run bash command: make",
+      details: { command: "make" },
+      toolUseId: "toolu-1",
+    });
+    spawnedSessionRegistry.recordPermissionDecision("spawn_running", {
+      id: "req-0",
+      tool: "Read",
+      description: "Read file: a.ts",
+      decision: "allowed",
+      decidedBy: "policy",
+    });
+    await spawnedSessionRegistry.flush();
+    spawnedSessionRegistry.clear();
+
+    const restored = await spawnedSessionRegistry.restore(store);
+    await spawnedSessionRegistry.flush();
+
+    expect(restored.map((s) => s.id)).toEqual(["spawn_running"]);
+    expect(spawnedSessionRegistry.getSession("spawn_done")).toBeUndefined();
+    expect(store.rows.has("spawn_done")).toBe(false);
+
+    const session = spawnedSessionRegistry.getSession("spawn_running")!;
+    expect(session.status).toBe("disconnected");
+    expect(session.createdAt).toEqual(new Date("2026-01-01T00:00:00Z"));
+    expect(session.pendingPermissionRequest?.toolUseId).toBe("toolu-1");
+    expect(session.permissionHistory[0]!.timestamp).toBeInstanceOf(Date);
+    expect(session.recoveryInfo).toMatchObject({ claudeSessionId: "claude-spawn_running", canResume: true });
+    expect(store.rows.get("spawn_running")?.status).toBe("disconnected");
+  });
 });
 
 describe("Session ID generation format", () => {